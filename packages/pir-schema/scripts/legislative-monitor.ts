@@ -0,0 +1,80 @@
+/**
+ * Monitor legislativo local - stand-in da legislative_monitor_api
+ *
+ * Uso:
+ *   npm run legislative-monitor -- <feed.json> [--port 8790]
+ *
+ * Serve o feed em GET /feed (aceita ?since=ISO 8601) para o HttpLegislativeMonitor.
+ * O arquivo é relido a cada requisição: publicar uma versão é editar o feed.
+ * Entradas podem trazer "document_file" (caminho relativo ao feed), que é embutido como "document":
+ *
+ *   { "publications": [ { "publication_id": "rev1", "trigger": "protocol_update_released",
+ *       "protocol_id": "manchester-sp-2024", "version": "2.1",
+ *       "published_at": "2025-03-01T00:00:00Z", "document_file": "manchester-sp-v2.1.pir.json" } ] }
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
+const USAGE = 'Usage: legislative-monitor <feed.json> [--port 8790]';
+
+interface FeedEntry {
+  published_at: string;
+  document_file?: string;
+  [key: string]: unknown;
+}
+
+function loadFeed(feedPath: string, since: string | null): unknown {
+  const feed = JSON.parse(readFileSync(feedPath, 'utf8')) as { publications?: FeedEntry[] };
+
+  const publications = (feed.publications ?? [])
+    .filter((entry) => !since || Date.parse(entry.published_at) > Date.parse(since))
+    .map(({ document_file, ...entry }) =>
+      document_file
+        ? { ...entry, document: JSON.parse(readFileSync(resolve(dirname(feedPath), document_file), 'utf8')) }
+        : entry
+    );
+
+  return { publications };
+}
+
+function main(): number {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const port = portIndex === -1 ? 8790 : Number(args[portIndex + 1]);
+  const files = args.filter((arg, index) => !arg.startsWith('--') && index !== portIndex + 1);
+
+  if (files.length !== 1 || !Number.isInteger(port)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const feedPath = resolve(files[0]);
+
+  createServer((request, response) => {
+    const url = new URL(request.url ?? '/', `http://localhost:${port}`);
+
+    if (request.method !== 'GET' || url.pathname !== '/feed') {
+      response.writeHead(404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    try {
+      const body = JSON.stringify(loadFeed(feedPath, url.searchParams.get('since')));
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(body);
+    } catch (error) {
+      response.writeHead(500, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  }).listen(port, () => {
+    console.log(`[MONITOR] Serving ${feedPath} at http://localhost:${port}/feed`);
+  });
+
+  return 0;
+}
+
+const exitCode = main();
+if (exitCode !== 0) process.exit(exitCode);
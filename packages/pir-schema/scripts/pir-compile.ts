@@ -0,0 +1,140 @@
+/**
+ * PIR Compiler - CLI
+ *
+ * Uso:
+ *   npm run compile -- <protocolo.md> [opções]
+ *
+ * Opções:
+ *   --out <arquivo>          PIR JSON gerado (default: stdout)
+ *   --report <arquivo>       Relatório de compilação (default: resumo no stderr)
+ *   --script <arquivo>       Respostas roteirizadas por estágio (sem LLM remoto)
+ *   --protocol-id <id>       Sobrescreve o protocol_id extraído
+ *   --version <versão>       Sobrescreve a versão extraída
+ *   --model <modelo>         Modelo Claude (default: claude-sonnet-4-20250514)
+ *
+ * Sem --script, usa Claude via ANTHROPIC_API_KEY.
+ * Código de saída: 0 = PIR válido, 1 = PIR inválido, 2 = erro de uso/estágio.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  AnthropicCompilerLLM,
+  PIRCompileError,
+  ScriptedCompilerLLM,
+  compileProtocol,
+  type CompilerLLM,
+  type PIRCompileReport,
+} from '../src/index';
+
+interface CliOptions {
+  input: string;
+  out?: string;
+  report?: string;
+  script?: string;
+  protocol_id?: string;
+  version?: string;
+  model?: string;
+}
+
+const USAGE =
+  'Usage: pir-compile <protocol.md> [--out pir.json] [--report report.json] [--script responses.json] [--protocol-id id] [--version v] [--model model]';
+
+const VALUE_FLAGS: Record<string, keyof CliOptions> = {
+  '--out': 'out',
+  '--report': 'report',
+  '--script': 'script',
+  '--protocol-id': 'protocol_id',
+  '--version': 'version',
+  '--model': 'model',
+};
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: Partial<CliOptions> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const key = VALUE_FLAGS[arg];
+
+    if (key) {
+      const value = argv[++i];
+      if (!value) throw new Error(`Missing value for ${arg}`);
+      options[key] = value;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (!options.input) {
+      options.input = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (!options.input) throw new Error('Missing protocol document');
+  return options as CliOptions;
+}
+
+function createLLM(options: CliOptions): CompilerLLM {
+  if (options.script) {
+    return new ScriptedCompilerLLM(JSON.parse(readFileSync(options.script, 'utf8')));
+  }
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is not set (or pass --script for scripted responses)');
+  }
+  return new AnthropicCompilerLLM(apiKey, options.model);
+}
+
+function printSummary(report: PIRCompileReport): void {
+  const lines = [
+    `[PIR-COMPILER] ${report.success ? 'OK' : 'FAILED'} (${report.llm}, ${report.source.passages} passages)`,
+    ...report.stages.map((stage) => `  ${stage.stage}: ${stage.elements} element(s), ${stage.attempts} attempt(s)`),
+    ...report.validation.map((issue) => `  schema error ${issue.path}: ${issue.message}`),
+    ...report.diagnostics.map((diagnostic) => `  ${diagnostic.severity} ${diagnostic.path}: ${diagnostic.message}`),
+  ];
+  if (report.unused_passages.length > 0) {
+    lines.push(`  uncited passages: ${report.unused_passages.join(', ')}`);
+  }
+  console.error(lines.join('\n'));
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : String(error)}\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    const { document, candidate, report } = await compileProtocol(readFileSync(options.input, 'utf8'), {
+      llm: createLLM(options),
+      protocol_id: options.protocol_id,
+      version: options.version,
+    });
+
+    const output = JSON.stringify(document ?? candidate, null, 2) + '\n';
+    if (options.out) {
+      writeFileSync(options.out, output);
+    } else {
+      process.stdout.write(output);
+    }
+
+    if (options.report) {
+      writeFileSync(options.report, JSON.stringify(report, null, 2) + '\n');
+    }
+    printSummary(report);
+
+    return report.success ? 0 : 1;
+  } catch (error) {
+    if (error instanceof PIRCompileError) {
+      console.error(`[PIR-COMPILER] ${error.message}`);
+      error.rejected_responses.forEach((reason, index) => console.error(`  attempt ${index + 1}: ${reason}`));
+    } else {
+      console.error(`[PIR-COMPILER] ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return 2;
+  }
+}
+
+main().then((code) => process.exit(code));
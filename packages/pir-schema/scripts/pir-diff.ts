@@ -0,0 +1,59 @@
+/**
+ * PIR Diff - CLI
+ *
+ * Uso:
+ *   npm run diff-pir -- <antes.json> <depois.json> [--json] [--out changelog.md]
+ *
+ * Sem --json, imprime o changelog Markdown para aprovação.
+ * Código de saída: 0 = diff gerado, 2 = documento inválido ou erro de uso.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { diffPIR, renderPIRChangelog, validatePIR, type PIRDocument } from '../src/index';
+
+const USAGE = 'Usage: pir-diff <before.json> <after.json> [--json] [--out changelog.md]';
+
+function load(file: string): PIRDocument {
+  const validation = validatePIR(JSON.parse(readFileSync(file, 'utf8')));
+  if (!validation.valid) {
+    const issues = validation.errors.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n');
+    throw new Error(`${file}: invalid PIR document\n${issues}`);
+  }
+  return validation.document!;
+}
+
+function main(): number {
+  const args = process.argv.slice(2);
+  const files: string[] = [];
+  let json = false;
+  let out: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json') json = true;
+    else if (args[i] === '--out') out = args[++i];
+    else if (args[i].startsWith('--')) {
+      console.error(`Unknown option ${args[i]}\n${USAGE}`);
+      return 2;
+    } else files.push(args[i]);
+  }
+
+  if (files.length !== 2 || (args.includes('--out') && !out)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  try {
+    const diff = diffPIR(load(files[0]), load(files[1]));
+    const output = json ? JSON.stringify(diff, null, 2) + '\n' : renderPIRChangelog(diff);
+
+    if (out) writeFileSync(out, output);
+    else process.stdout.write(output);
+
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 2;
+  }
+}
+
+process.exit(main());
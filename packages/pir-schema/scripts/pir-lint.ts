@@ -0,0 +1,74 @@
+/**
+ * PIR Linter - CLI
+ *
+ * Uso:
+ *   npm run lint-pir -- [pir.json ...] [--json] [--quiet]
+ *
+ * Sem arquivos, analisa o protocolo Manchester SP embarcado no pacote.
+ *   --json    imprime o resultado completo (diagnósticos + grafo de dataflow)
+ *   --quiet   omite diagnósticos de severidade info
+ *
+ * Código de saída: 0 = sem erros, 1 = erros de lint, 2 = documento inválido ou erro de uso.
+ */
+
+import { readFileSync } from 'node:fs';
+import {
+  MANCHESTER_SP_PROTOCOL_SOURCE,
+  lintPIR,
+  validatePIR,
+  type PIRLintResult,
+} from '../src/index';
+
+const USAGE = 'Usage: pir-lint [pir.json ...] [--json] [--quiet]';
+
+function printResult(source: string, result: PIRLintResult, quiet: boolean): void {
+  const { counts } = result;
+  console.log(`${source} (${result.protocol_id} v${result.version}): ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info`);
+
+  for (const diagnostic of result.diagnostics) {
+    if (quiet && diagnostic.severity === 'info') continue;
+    console.log(`  ${diagnostic.severity.padEnd(7)} ${diagnostic.rule.padEnd(32)} ${diagnostic.path}: ${diagnostic.message}`);
+  }
+}
+
+function main(): number {
+  const args = process.argv.slice(2);
+  const files = args.filter((arg) => !arg.startsWith('--'));
+  const flags = new Set(args.filter((arg) => arg.startsWith('--')));
+  const unknownFlags = Array.from(flags).filter((flag) => flag !== '--json' && flag !== '--quiet');
+
+  if (unknownFlags.length > 0) {
+    console.error(`Unknown option ${unknownFlags[0]}\n${USAGE}`);
+    return 2;
+  }
+
+  const inputs: Array<[string, unknown]> =
+    files.length > 0
+      ? files.map((file) => [file, JSON.parse(readFileSync(file, 'utf8'))])
+      : [['manchester-sp (bundled)', MANCHESTER_SP_PROTOCOL_SOURCE]];
+
+  let exitCode = 0;
+
+  for (const [source, input] of inputs) {
+    const validation = validatePIR(input);
+    if (!validation.valid) {
+      console.error(`${source}: invalid PIR document`);
+      validation.errors.forEach((issue) => console.error(`  ${issue.path}: ${issue.message}`));
+      exitCode = 2;
+      continue;
+    }
+
+    const result = lintPIR(validation.document!);
+    if (flags.has('--json')) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printResult(source, result, flags.has('--quiet'));
+    }
+
+    if (!result.valid) exitCode = Math.max(exitCode, 1);
+  }
+
+  return exitCode;
+}
+
+process.exit(main());
@@ -0,0 +1,116 @@
+/**
+ * PIR Schema - Binding de executores a definições PIR
+ *
+ * Os orquestradores (tasks, guards, deadlines, rewards) são construídos a partir
+ * do documento PIR: cada definição é ligada ao seu executor pelo ID.
+ * O relatório de binding expõe os dois lados da divergência:
+ * - elementos do PIR sem executor (nunca serão executados)
+ * - executores sem elemento no PIR (código morto para este protocolo)
+ */
+
+import type { PIRDocument } from '../types/pir';
+
+export type PIRBindingComponent = 'tasks' | 'guards' | 'deadlines' | 'rewards';
+
+export interface PIRBindingReport {
+  component: PIRBindingComponent;
+  protocol_id: string;
+  version: string;
+  bound: string[];
+  unbound_definitions: string[]; // IDs do PIR sem executor
+  orphan_executors: string[]; // IDs de executores sem definição no PIR
+}
+
+export interface PIRBindingResult<TExecutor> {
+  executors: Map<string, TExecutor>;
+  report: PIRBindingReport;
+}
+
+/**
+ * Liga cada definição do PIR ao executor registrado com o mesmo ID
+ */
+export function bindExecutors<TDefinition, TExecutor>(options: {
+  component: PIRBindingComponent;
+  document: PIRDocument;
+  definitions: TDefinition[];
+  getId: (definition: TDefinition) => string;
+  registry: Record<string, (definition: TDefinition) => TExecutor>;
+}): PIRBindingResult<TExecutor> {
+  const { component, document, definitions, getId, registry } = options;
+
+  const executors = new Map<string, TExecutor>();
+  const unbound: string[] = [];
+
+  for (const definition of definitions) {
+    const id = getId(definition);
+    const factory = registry[id];
+
+    if (!factory) {
+      unbound.push(id);
+      continue;
+    }
+
+    executors.set(id, factory(definition));
+  }
+
+  const definedIds = new Set(definitions.map(getId));
+  const orphans = Object.keys(registry).filter((id) => !definedIds.has(id));
+
+  return {
+    executors,
+    report: {
+      component,
+      protocol_id: document.protocol_id,
+      version: document.version,
+      bound: Array.from(executors.keys()),
+      unbound_definitions: unbound,
+      orphan_executors: orphans,
+    },
+  };
+}
+
+/**
+ * Loga relatório de binding no startup do worker
+ */
+export function logBindingReport(report: PIRBindingReport): void {
+  const prefix = `[PIR] ${report.component} (${report.protocol_id} v${report.version})`;
+
+  console.log(`${prefix}: ${report.bound.length} bound`);
+
+  if (report.unbound_definitions.length > 0) {
+    console.warn(`${prefix}: PIR elements without executor: ${report.unbound_definitions.join(', ')}`);
+  }
+
+  if (report.orphan_executors.length > 0) {
+    console.warn(`${prefix}: executors without PIR element: ${report.orphan_executors.join(', ')}`);
+  }
+}
+
+const COMPONENT_IDS: Record<PIRBindingComponent, (document: PIRDocument) => string[]> = {
+  tasks: (document) => document.tasks.map((task) => task.task_id),
+  guards: (document) => document.guards.map((guard) => guard.guard_id),
+  deadlines: (document) => document.deadlines.map((deadline) => deadline.deadline_id),
+  rewards: (document) => document.rewards.map((reward) => reward.reward_id),
+};
+
+/**
+ * Reaplica o registry de um worker a outro documento PIR
+ *
+ * O registry é reconstruído a partir do relatório (bound + orphan_executors),
+ * então um PIR candidato pode ser checado contra os executores em produção
+ * antes de ser ativado, sem instanciar nenhum executor.
+ */
+export function projectBindingReport(report: PIRBindingReport, document: PIRDocument): PIRBindingReport {
+  const registry = new Set([...report.bound, ...report.orphan_executors]);
+  const definitions = COMPONENT_IDS[report.component](document);
+  const defined = new Set(definitions);
+
+  return {
+    component: report.component,
+    protocol_id: document.protocol_id,
+    version: document.version,
+    bound: definitions.filter((id) => registry.has(id)),
+    unbound_definitions: definitions.filter((id) => !registry.has(id)),
+    orphan_executors: Array.from(registry).filter((id) => !defined.has(id)),
+  };
+}
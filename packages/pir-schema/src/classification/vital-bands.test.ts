@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import type { PIRDocument } from '../types/pir';
+import {
+  VitalBandRuleError,
+  VitalSignClassifier,
+  compileThreshold,
+  highestPriority,
+  selectThresholdSet,
+  thresholdGaps,
+} from './vital-bands';
+import { evaluateConditionTristate } from '../expression/evaluator';
+
+const PIR = loadManchesterSPProtocol();
+const classifier = new VitalSignClassifier(PIR);
+
+function bandOf(slotState: Record<string, unknown>, slotId: string) {
+  return classifier.classify(slotState).bands.find((match) => match.slot_id === slotId);
+}
+
+describe('compileThreshold', () => {
+  it('reads ranges, leading comparisons and expressions', () => {
+    expect(evaluateConditionTristate(compileThreshold('38.5-40.9'), { value: 40.9 })).toBe(true);
+    expect(evaluateConditionTristate(compileThreshold('>=41.0'), { value: 40.9 })).toBe(false);
+    expect(evaluateConditionTristate(compileThreshold('systolic<80 OR diastolic>120'), { systolic: 120, diastolic: 125 })).toBe(true);
+  });
+});
+
+describe('thresholdGaps', () => {
+  it('finds values between bands at the written resolution', () => {
+    expect(thresholdGaps({ normal: '36.0-37.4', less_urgent: '37.5-38.4', hypothermia: '<35.0' })).toEqual(['35.0-35.9']);
+    expect(thresholdGaps({ low: '<10', high: '>10' })).toEqual(['10']);
+  });
+
+  it('accepts contiguous bands and ignores compound ones', () => {
+    expect(thresholdGaps({ low: '<36.5', normal: '36.5-37.4', high: '>=37.5' })).toEqual([]);
+    expect(thresholdGaps({ febrile_young_infant: '>=38.0 AND age < 0.25', normal: '36.5-37.4' })).toEqual([]);
+  });
+
+  it('leaves no gaps in the reference pediatric bands', () => {
+    for (const slot of PIR.slots) {
+      for (const bands of Object.values(slot.pediatric_thresholds ?? {})) {
+        expect(thresholdGaps(bands as Record<string, string>), slot.slot_id).toEqual([]);
+      }
+    }
+  });
+});
+
+describe('selectThresholdSet', () => {
+  it('picks the pediatric band by age and falls back to adult', () => {
+    expect(selectThresholdSet(0.5)).toBe('pediatric_infant');
+    expect(selectThresholdSet(1)).toBe('pediatric_preschool');
+    expect(selectThresholdSet(11.9)).toBe('pediatric_school');
+    expect(selectThresholdSet(12)).toBe('adult');
+    expect(selectThresholdSet(null)).toBe('adult');
+    expect(selectThresholdSet(-1)).toBe('adult');
+  });
+});
+
+describe('highestPriority', () => {
+  it('returns the most severe priority', () => {
+    expect(highestPriority('URGENT', null, 'VERY_URGENT', undefined)).toBe('VERY_URGENT');
+    expect(highestPriority(null, undefined)).toBeNull();
+  });
+});
+
+describe('VitalSignClassifier', () => {
+  it('keeps the most severe band per slot', () => {
+    expect(bandOf({ blood_pressure: { systolic: 75, diastolic: 40 } }, 'blood_pressure')).toMatchObject({
+      band: 'hypotension_severe',
+      priority: 'EMERGENT',
+    });
+  });
+
+  it('reports the highest priority across slots', () => {
+    const result = classifier.classify({ temperature: 39, oxygen_saturation: 88, heart_rate: 90 });
+    expect(result.threshold_set).toBe('adult');
+    expect(result.highest).toMatchObject({ slot_id: 'oxygen_saturation', priority: 'VERY_URGENT' });
+  });
+
+  it('matches enum impacts without case', () => {
+    expect(bandOf({ consciousness_level: 'Unresponsive' }, 'consciousness_level')?.priority).toBe('EMERGENT');
+  });
+
+  it('lists values that fall in no band', () => {
+    expect(classifier.classify({ temperature: 35.5 }).unclassified).toEqual(['temperature']);
+  });
+
+  it('lists rules that cannot be evaluated', () => {
+    expect(classifier.classify({ sepsis_criteria: { qSOFA_score: 2 } }).indeterminate).toContain('sepsis_criteria.very_urgent');
+  });
+
+  it('uses pediatric bands by age', () => {
+    const result = classifier.classify({ age: 0.5, heart_rate: 150 });
+    expect(result.threshold_set).toBe('pediatric_infant');
+    expect(bandOf({ age: 0.5, heart_rate: 150 }, 'heart_rate')?.band).toBe('normal');
+    expect(bandOf({ heart_rate: 150 }, 'heart_rate')?.band).toBe('tachycardia_severe');
+  });
+
+  it('covers infant temperatures between 36.0 and 36.4', () => {
+    expect(bandOf({ age: 0.5, temperature: 36.2 }, 'temperature')).toMatchObject({ band: 'hypothermia', priority: 'VERY_URGENT' });
+  });
+
+  it('flags fever in young infants', () => {
+    expect(bandOf({ age: 0.1, temperature: 38.2 }, 'temperature')?.band).toBe('febrile_young_infant');
+    expect(bandOf({ age: 0.5, temperature: 38.2 }, 'temperature')?.band).toBe('less_urgent');
+  });
+
+  it('escalates through the pediatric warning score', () => {
+    const result = classifier.classify({ age: 3, heart_rate: 150, respiratory_rate: 45, consciousness_level: 'confused' });
+    expect(result.pediatric_warning).toMatchObject({ total: 4, priority: 'VERY_URGENT' });
+    expect(result.bands).toContainEqual(expect.objectContaining({ slot_id: 'pediatric_warning_score', rule: 'PEWS >= 3' }));
+  });
+
+  it('does not score adults', () => {
+    expect(classifier.classify({ heart_rate: 150 }).pediatric_warning).toBeUndefined();
+  });
+
+  it('fails on thresholds that do not compile', () => {
+    const broken = structuredClone(PIR) as PIRDocument;
+    broken.slots.find((slot) => slot.slot_id === 'temperature')!.classification_thresholds!.urgent = '>= AND';
+    expect(() => new VitalSignClassifier(broken)).toThrow(VitalBandRuleError);
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * PIR Schema - Classificador determinístico de faixas de sinais vitais
+ *
+ * Lê `classification_thresholds` e `classification_impact` dos slots do PIR e,
+ * para um estado de slots, devolve a faixa casada e a prioridade Manchester
+ * implicada por sinal vital. Critérios vermelho/laranja de sinais vitais não
+ * dependem de julgamento de modelo.
+ *
+ * Formatos de threshold aceitos:
+ *   ">=41.0", "<35.0"                  comparação com o valor do slot
+ *   "38.5-40.9"                        faixa inclusiva
+ *   "systolic<80 OR diastolic>120"     expressão sobre campos de slots object
+ *
+ * classification_impact aceita lista de valores (slots enum) ou expressão
+ * (ex: "qSOFA_score >= 2 AND infection_suspected" sobre os campos do slot).
+ *
+ * Modo pediátrico: a idade (slot `age`, em anos) escolhe o conjunto de thresholds.
+ * Abaixo de 12 anos, `pediatric_thresholds` da faixa etária substituem os
+ * classification_thresholds do slot (slots sem faixa pediátrica mantêm os adultos),
+ * e um escore de alerta precoce no estilo PEWS soma comportamento, cardiovascular
+ * e respiratório. Idade desconhecida usa os thresholds adultos.
+ */
+
+import type { PIRDocument, PIRPediatricAgeBand, PIRSlot } from '../types/pir';
+import type { ExpressionNode } from '../expression/ast';
+import { parseExpression } from '../expression/parser';
+import { evaluateExpression, toTruthValue, type ExpressionData } from '../expression/evaluator';
+
+export type ManchesterPriority = 'EMERGENT' | 'VERY_URGENT' | 'URGENT' | 'LESS_URGENT' | 'NON_URGENT';
+
+/**
+ * Ordem decrescente de gravidade
+ */
+export const MANCHESTER_PRIORITY_ORDER: ManchesterPriority[] = ['EMERGENT', 'VERY_URGENT', 'URGENT', 'LESS_URGENT', 'NON_URGENT'];
+
+/**
+ * Prioridade Manchester implicada por nome de faixa
+ * Faixas com nome de nível (very_urgent, urgent...) mapeiam direto;
+ * faixas clínicas (hypotension_severe, tachycardia...) seguem os
+ * discriminadores gerais do protocolo. null = faixa sem impacto na prioridade
+ */
+const BAND_PRIORITIES: Record<string, ManchesterPriority | null> = {
+  // Níveis
+  emergent: 'EMERGENT',
+  critical: 'EMERGENT',
+  very_urgent: 'VERY_URGENT',
+  urgent: 'URGENT',
+  less_urgent: 'LESS_URGENT',
+  non_urgent: 'NON_URGENT',
+  normal: null,
+
+  // Temperatura
+  hypothermia: 'VERY_URGENT',
+  febrile_young_infant: 'VERY_URGENT',
+
+  // Frequência cardíaca
+  bradycardia_severe: 'VERY_URGENT',
+  bradycardia: 'URGENT',
+  tachycardia_severe: 'VERY_URGENT',
+  tachycardia: 'URGENT',
+
+  // Pressão arterial
+  hypotension_severe: 'EMERGENT',
+  hypotension: 'VERY_URGENT',
+  hypertension_emergency: 'VERY_URGENT',
+  hypertension: 'URGENT',
+
+  // Frequência respiratória
+  bradypnea_severe: 'VERY_URGENT',
+  bradypnea: 'URGENT',
+  tachypnea_severe: 'VERY_URGENT',
+  tachypnea: 'URGENT',
+
+  // Glicemia
+  hypoglycemia_severe: 'VERY_URGENT',
+  hypoglycemia: 'URGENT',
+  hyperglycemia_severe: 'VERY_URGENT',
+  hyperglycemia: 'URGENT',
+
+  // Dor
+  severe_pain: 'VERY_URGENT',
+  moderate_pain: 'URGENT',
+  mild_pain: 'LESS_URGENT',
+};
+
+// ============================================================================
+// CONJUNTOS DE THRESHOLDS POR IDADE
+// ============================================================================
+
+export type ThresholdSetId = 'adult' | `pediatric_${PIRPediatricAgeBand}`;
+
+/**
+ * Faixas etárias pediátricas (limite superior exclusivo, em anos)
+ */
+export const PEDIATRIC_AGE_BANDS: Array<{ band: PIRPediatricAgeBand; max_age_years: number }> = [
+  { band: 'infant', max_age_years: 1 },
+  { band: 'preschool', max_age_years: 5 },
+  { band: 'school', max_age_years: 12 },
+];
+
+export const THRESHOLD_SETS: ThresholdSetId[] = ['adult', ...PEDIATRIC_AGE_BANDS.map(({ band }) => `pediatric_${band}` as const)];
+
+/**
+ * Conjunto de thresholds para a idade (null = desconhecida → adulto)
+ */
+export function selectThresholdSet(ageYears: number | null | undefined): ThresholdSetId {
+  if (typeof ageYears !== 'number' || !Number.isFinite(ageYears) || ageYears < 0) return 'adult';
+  const ageBand = PEDIATRIC_AGE_BANDS.find(({ max_age_years }) => ageYears < max_age_years);
+  return ageBand ? `pediatric_${ageBand.band}` : 'adult';
+}
+
+export function isPediatricThresholdSet(thresholdSet: ThresholdSetId): boolean {
+  return thresholdSet !== 'adult';
+}
+
+export interface VitalBandRule {
+  slot_id: string;
+  band: string;
+  source: 'classification_thresholds' | 'classification_impact' | 'pediatric_thresholds';
+  threshold_set: ThresholdSetId; // Conjunto de origem (impactos valem para todos: 'adult')
+  text: string; // Threshold/impacto como escrito no PIR
+  priority: ManchesterPriority | null;
+  condition?: ExpressionNode; // Thresholds e impactos por expressão
+  values?: string[]; // Impactos por lista de valores (slots enum)
+}
+
+export interface VitalBandMatch {
+  slot_id: string;
+  value: unknown;
+  band: string;
+  priority: ManchesterPriority | null;
+  rule: string; // Texto do threshold casado
+}
+
+export type PediatricWarningComponent = 'behaviour' | 'cardiovascular' | 'respiratory';
+
+/**
+ * Escore de alerta precoce pediátrico (estilo PEWS): 0-3 pontos por componente
+ */
+export interface PediatricWarningScore {
+  total: number;
+  components: Record<PediatricWarningComponent, number | null>; // null = sem dado no componente
+  priority: ManchesterPriority | null;
+}
+
+export interface VitalSignClassification {
+  threshold_set: ThresholdSetId; // Conjunto de thresholds aplicado
+  age_years: number | null; // Idade que escolheu o conjunto (null = desconhecida)
+  bands: VitalBandMatch[]; // Faixa mais grave por slot (+ escore pediátrico, se elevar a prioridade)
+  highest: VitalBandMatch | null; // Faixa de maior prioridade entre todos os slots
+  unclassified: string[]; // Slots com valor que não caiu em nenhuma faixa
+  indeterminate: string[]; // Regras que não puderam ser avaliadas (dados faltando)
+  pediatric_warning?: PediatricWarningScore; // Só no modo pediátrico
+}
+
+/**
+ * Erro de compilação de threshold com slot e faixa de origem
+ */
+export class VitalBandRuleError extends Error {
+  constructor(
+    readonly slot_id: string,
+    readonly band: string,
+    readonly text: string,
+    cause: unknown
+  ) {
+    super(`Invalid threshold ${slot_id}.${band} "${text}": ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'VitalBandRuleError';
+  }
+}
+
+const RANGE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)\s*$/;
+const LEADING_COMPARISON_PATTERN = /^\s*(>=|<=|==|!=|>|<)/;
+
+/**
+ * Compila um threshold do PIR em expressão sobre `value` (valor do slot)
+ * e/ou campos do slot object
+ */
+export function compileThreshold(text: string): ExpressionNode {
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    return parseExpression(`value >= ${range[1]} AND value <= ${range[2]}`);
+  }
+
+  if (LEADING_COMPARISON_PATTERN.test(text)) {
+    return parseExpression(`value ${text}`);
+  }
+
+  return parseExpression(text);
+}
+
+const SIMPLE_COMPARISON_PATTERN = /^\s*(>=|<=|>|<)\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Trechos sem faixa entre as faixas numéricas simples de um conjunto ("36.5-37.4", "<36.5", ">=41.0"),
+ * na resolução dos números escritos: 37.4 → 37.5 é contíguo, 36.0 → 36.5 deixa "36.0-36.4" de fora.
+ * Faixas compostas (AND, campos do slot, idade) não entram.
+ */
+export function thresholdGaps(bands: Record<string, string>): string[] {
+  const bounds: Array<[string | null, string | null, 'lt' | 'le' | 'gt' | 'ge' | 'range']> = [];
+
+  for (const text of Object.values(bands)) {
+    const range = text.match(RANGE_PATTERN);
+    const comparison = text.match(SIMPLE_COMPARISON_PATTERN);
+    if (range) bounds.push([range[1], range[2], 'range']);
+    else if (comparison) {
+      const kind = ({ '<': 'lt', '<=': 'le', '>': 'gt', '>=': 'ge' } as const)[comparison[1] as '<' | '<=' | '>' | '>='];
+      bounds.push(kind === 'lt' || kind === 'le' ? [null, comparison[2], kind] : [comparison[2], null, kind]);
+    }
+  }
+  if (bounds.length < 2) return [];
+
+  const decimals = Math.max(...bounds.flatMap(([lo, hi]) => [lo, hi]).map((number) => number?.split('.')[1]?.length ?? 0));
+  const scale = 10 ** decimals;
+  const units = (number: string) => Math.round(Number(number) * scale);
+
+  // Intervalos fechados em unidades da resolução
+  const intervals = bounds
+    .map(([lo, hi, kind]) => ({
+      lo: lo === null ? -Infinity : units(lo) + (kind === 'gt' ? 1 : 0),
+      hi: hi === null ? Infinity : units(hi) - (kind === 'lt' ? 1 : 0),
+    }))
+    .sort((left, right) => left.lo - right.lo);
+
+  const gaps: string[] = [];
+  let covered = intervals[0].hi;
+  for (const { lo, hi } of intervals.slice(1)) {
+    if (lo > covered + 1) {
+      const [from, to] = [covered + 1, lo - 1].map((unit) => (unit / scale).toFixed(decimals));
+      gaps.push(from === to ? from : `${from}-${to}`);
+    }
+    covered = Math.max(covered, hi);
+  }
+  return gaps;
+}
+
+export function priorityRank(priority: ManchesterPriority | null): number {
+  return priority ? MANCHESTER_PRIORITY_ORDER.indexOf(priority) : MANCHESTER_PRIORITY_ORDER.length;
+}
+
+/**
+ * Retorna a prioridade mais grave (null = nenhuma)
+ */
+export function highestPriority(...priorities: Array<ManchesterPriority | null | undefined>): ManchesterPriority | null {
+  return priorities.reduce<ManchesterPriority | null>(
+    (best, current) => (current && priorityRank(current) < priorityRank(best) ? current : best),
+    null
+  );
+}
+
+// ============================================================================
+// ESCORE PEDIÁTRICO (ESTILO PEWS)
+// ============================================================================
+
+export const PEDIATRIC_WARNING_SLOT = 'pediatric_warning_score';
+
+/**
+ * Slots de cada componente do escore (vale a faixa mais grave do componente)
+ */
+const PEDIATRIC_WARNING_COMPONENTS: Record<PediatricWarningComponent, string[]> = {
+  behaviour: ['consciousness_level'],
+  cardiovascular: ['heart_rate', 'blood_pressure'],
+  respiratory: ['respiratory_rate', 'oxygen_saturation'],
+};
+
+const PEDIATRIC_WARNING_POINTS: Partial<Record<ManchesterPriority, number>> = {
+  EMERGENT: 3,
+  VERY_URGENT: 2,
+  URGENT: 1,
+};
+
+/**
+ * Escalonamento pelo total: alterações moderadas em vários sistemas somam
+ */
+const PEDIATRIC_WARNING_ESCALATION: Array<{ min_total: number; priority: ManchesterPriority }> = [
+  { min_total: 5, priority: 'EMERGENT' },
+  { min_total: 3, priority: 'VERY_URGENT' },
+];
+
+function pediatricWarningScore(bySlot: Map<string, VitalBandMatch>, evaluatedSlots: Set<string>): PediatricWarningScore {
+  const components = {} as Record<PediatricWarningComponent, number | null>;
+
+  for (const [component, slotIds] of Object.entries(PEDIATRIC_WARNING_COMPONENTS) as Array<[PediatricWarningComponent, string[]]>) {
+    const measured = slotIds.filter((slotId) => evaluatedSlots.has(slotId));
+    components[component] = measured.length
+      ? Math.max(...measured.map((slotId) => PEDIATRIC_WARNING_POINTS[bySlot.get(slotId)?.priority ?? 'NON_URGENT'] ?? 0))
+      : null;
+  }
+
+  const total = Object.values(components).reduce<number>((sum, points) => sum + (points ?? 0), 0);
+  const priority = PEDIATRIC_WARNING_ESCALATION.find(({ min_total }) => total >= min_total)?.priority ?? null;
+
+  return { total, components, priority };
+}
+
+// ============================================================================
+// CLASSIFICADOR
+// ============================================================================
+
+function compileThresholdRule(
+  slot: PIRSlot,
+  band: string,
+  text: string,
+  source: VitalBandRule['source'],
+  thresholdSet: ThresholdSetId
+): VitalBandRule {
+  try {
+    const condition = compileThreshold(text);
+    return { slot_id: slot.slot_id, band, source, threshold_set: thresholdSet, text, priority: BAND_PRIORITIES[band] ?? null, condition };
+  } catch (error) {
+    throw new VitalBandRuleError(slot.slot_id, band, text, error);
+  }
+}
+
+/**
+ * Regras do slot no conjunto: faixas pediátricas da idade, se o slot tiver, senão as adultas
+ */
+function compileSlotRules(slot: PIRSlot, thresholdSet: ThresholdSetId): VitalBandRule[] {
+  const rules: VitalBandRule[] = [];
+
+  const ageBand = thresholdSet === 'adult' ? null : (thresholdSet.slice('pediatric_'.length) as PIRPediatricAgeBand);
+  const pediatric = ageBand ? slot.pediatric_thresholds?.[ageBand] : undefined;
+
+  if (pediatric) {
+    for (const [band, text] of Object.entries(pediatric)) {
+      rules.push(compileThresholdRule(slot, band, text, 'pediatric_thresholds', thresholdSet));
+    }
+  } else {
+    for (const [band, text] of Object.entries(slot.classification_thresholds || {})) {
+      rules.push(compileThresholdRule(slot, band, text, 'classification_thresholds', 'adult'));
+    }
+  }
+
+  for (const [band, impact] of Object.entries(slot.classification_impact || {})) {
+    if (Array.isArray(impact)) {
+      const priority = BAND_PRIORITIES[band] ?? null;
+      rules.push({ slot_id: slot.slot_id, band, source: 'classification_impact', threshold_set: 'adult', text: impact.join(', '), priority, values: impact });
+      continue;
+    }
+
+    rules.push(compileThresholdRule(slot, band, impact, 'classification_impact', 'adult'));
+  }
+
+  return rules;
+}
+
+/**
+ * Classificador construído a partir dos slots do PIR
+ * Lança VitalBandRuleError no construtor se algum threshold não compila
+ */
+export class VitalSignClassifier {
+  private rules = new Map<ThresholdSetId, VitalBandRule[]>();
+
+  constructor(document: PIRDocument) {
+    for (const thresholdSet of THRESHOLD_SETS) {
+      this.rules.set(thresholdSet, document.slots.flatMap((slot) => compileSlotRules(slot, thresholdSet)));
+    }
+  }
+
+  /**
+   * Regras aplicadas no conjunto; sem conjunto, todas as regras distintas
+   * (adultas + pediátricas) para quem compara faixas entre versões
+   */
+  getRules(thresholdSet?: ThresholdSetId): VitalBandRule[] {
+    if (thresholdSet) return this.rules.get(thresholdSet) ?? [];
+
+    const adult = this.rules.get('adult') ?? [];
+    const pediatric = THRESHOLD_SETS.filter((set) => set !== 'adult').flatMap((set) =>
+      (this.rules.get(set) ?? []).filter((rule) => rule.source === 'pediatric_thresholds')
+    );
+    return [...adult, ...pediatric];
+  }
+
+  /**
+   * Classifica o estado de slots: faixa mais grave por slot + maior prioridade geral
+   * O conjunto de thresholds sai da idade do estado (slot `age`)
+   */
+  classify(slotState: Record<string, unknown>): VitalSignClassification {
+    const age = typeof slotState.age === 'number' && Number.isFinite(slotState.age) ? slotState.age : null;
+    const thresholdSet = selectThresholdSet(age);
+
+    const bySlot = new Map<string, VitalBandMatch>();
+    const evaluatedSlots = new Set<string>();
+    const indeterminate: string[] = [];
+
+    for (const rule of this.getRules(thresholdSet)) {
+      const value = slotState[rule.slot_id];
+      if (value === undefined || value === null) continue;
+
+      evaluatedSlots.add(rule.slot_id);
+
+      let matched: boolean | null;
+      if (rule.values) {
+        matched = typeof value === 'string' && rule.values.some((option) => option.toLowerCase() === value.toLowerCase());
+      } else {
+        // Campos de slots object ficam acessíveis pelo nome ("systolic<80"); `age` para faixas pediátricas
+        const data: ExpressionData =
+          typeof value === 'object' && !Array.isArray(value) ? { ...(value as Record<string, unknown>), value, age } : { value, age };
+        matched = toTruthValue(evaluateExpression(rule.condition!, data));
+      }
+
+      if (matched === null) {
+        indeterminate.push(`${rule.slot_id}.${rule.band}`);
+        continue;
+      }
+      if (!matched) continue;
+
+      const current = bySlot.get(rule.slot_id);
+      if (!current || priorityRank(rule.priority) < priorityRank(current.priority)) {
+        bySlot.set(rule.slot_id, { slot_id: rule.slot_id, value, band: rule.band, priority: rule.priority, rule: rule.text });
+      }
+    }
+
+    const unclassified = Array.from(evaluatedSlots).filter((slotId) => !bySlot.has(slotId));
+    const bands = Array.from(bySlot.values());
+
+    let pediatricWarning: PediatricWarningScore | undefined;
+    if (isPediatricThresholdSet(thresholdSet)) {
+      pediatricWarning = pediatricWarningScore(bySlot, evaluatedSlots);
+      if (pediatricWarning.priority) {
+        const escalation = PEDIATRIC_WARNING_ESCALATION.find(({ priority }) => priority === pediatricWarning!.priority)!;
+        bands.push({
+          slot_id: PEDIATRIC_WARNING_SLOT,
+          value: pediatricWarning.total,
+          band: 'pediatric_early_warning',
+          priority: pediatricWarning.priority,
+          rule: `PEWS >= ${escalation.min_total}`,
+        });
+      }
+    }
+
+    const highest = bands.reduce<VitalBandMatch | null>(
+      (best, match) => (match.priority && priorityRank(match.priority) < priorityRank(best?.priority ?? null) ? match : best),
+      null
+    );
+
+    return {
+      threshold_set: thresholdSet,
+      age_years: age,
+      bands,
+      highest,
+      unclassified,
+      indeterminate,
+      ...(pediatricWarning ? { pediatric_warning: pediatricWarning } : {}),
+    };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * PIR Compiler - Interface plugável de LLM
+ *
+ * O compilador só conhece `CompilerLLM.complete()`: recebe o prompt de um estágio
+ * e devolve texto (JSON). Implementações:
+ * - ScriptedCompilerLLM: respostas roteirizadas por estágio (local, determinístico, para testes)
+ * - AnthropicCompilerLLM: Claude via API HTTP (CLI e workers)
+ * - WorkersAICompilerLLM: binding `env.AI` de Cloudflare Workers AI
+ */
+
+export type CompileStage = 'header' | 'slots' | 'tasks' | 'guards' | 'deadlines' | 'rewards' | 'evidence';
+
+export interface CompilerLLMRequest {
+  stage: CompileStage;
+  attempt: number; // 1 = primeira tentativa; >1 = reenvio com feedback de erro
+  system: string;
+  prompt: string;
+}
+
+export interface CompilerLLM {
+  readonly name: string; // Registrado no relatório de compilação
+  complete(request: CompilerLLMRequest): Promise<string>;
+}
+
+/**
+ * Resposta roteirizada: texto cru ou objeto (serializado como JSON)
+ * Lista = respostas sucessivas do mesmo estágio (uma por tentativa)
+ */
+export type ScriptedResponse = string | Record<string, unknown>;
+
+export type CompilerScript = Partial<Record<CompileStage, ScriptedResponse | ScriptedResponse[]>>;
+
+/**
+ * LLM local roteirizado: devolve a resposta pré-definida de cada estágio
+ * e registra as requisições recebidas (`calls`)
+ */
+export class ScriptedCompilerLLM implements CompilerLLM {
+  readonly name = 'scripted';
+  readonly calls: CompilerLLMRequest[] = [];
+  private cursors = new Map<CompileStage, number>();
+
+  constructor(private script: CompilerScript) {}
+
+  async complete(request: CompilerLLMRequest): Promise<string> {
+    this.calls.push(request);
+
+    const entry = this.script[request.stage];
+    if (entry === undefined) {
+      throw new Error(`No scripted response for stage "${request.stage}"`);
+    }
+
+    const responses = Array.isArray(entry) ? entry : [entry];
+    const cursor = this.cursors.get(request.stage) ?? 0;
+    const response = responses[Math.min(cursor, responses.length - 1)];
+    this.cursors.set(request.stage, cursor + 1);
+
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+}
+
+/**
+ * Claude via Messages API (fetch disponível em Workers e Node 18+)
+ */
+export class AnthropicCompilerLLM implements CompilerLLM {
+  readonly name: string;
+
+  constructor(
+    private apiKey: string,
+    private model = 'claude-sonnet-4-20250514',
+    private maxTokens = 8000
+  ) {
+    this.name = `anthropic:${model}`;
+  }
+
+  async complete(request: CompilerLLMRequest): Promise<string> {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: this.maxTokens,
+        temperature: 0,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as { content?: Array<{ type: string; text?: string }> };
+    return (body.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+  }
+}
+
+/**
+ * Cloudflare Workers AI (binding env.AI)
+ */
+export class WorkersAICompilerLLM implements CompilerLLM {
+  readonly name: string;
+
+  constructor(
+    private ai: { run(model: string, input: Record<string, unknown>): Promise<unknown> },
+    private model = '@cf/qwen/qwq-32b-preview',
+    private maxTokens = 4096
+  ) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  async complete(request: CompilerLLMRequest): Promise<string> {
+    const result = (await this.ai.run(this.model, {
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: this.maxTokens,
+      temperature: 0,
+    })) as { response?: string };
+
+    return result.response || '';
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import type { PIRDocument } from '../types/pir';
+import { ScriptedCompilerLLM, type CompilerScript } from './llm';
+import { PIRCompileError, compileProtocol } from './pir-compiler';
+import { parseStageResponse } from './stages';
+import { splitProtocolSource } from './source';
+
+const PIR = loadManchesterSPProtocol();
+const NOW = new Date('2026-01-15T12:00:00.000Z');
+
+const PROTOCOL_TEXT = `# Portaria SMS nº 82/2024
+
+Institui o Protocolo de Classificação de Risco na rede municipal.
+
+## Sinais vitais
+
+Temperatura ≥ 41 °C classifica como muito urgente.
+
+## Prazos
+
+Atendimento médico em até 10 minutos para prioridade laranja.`;
+
+const list = <T>(items: T[]) => ({ elements: items.map((element) => ({ element, source_passages: ['P2'] })) });
+
+// Roteiro que devolve o próprio PIR de referência, estágio por estágio
+function referenceScript(document: PIRDocument): CompilerScript {
+  const { slots, tasks, guards, deadlines, rewards, evidence, ...header } = document;
+  return {
+    header: { element: header, source_passages: ['P1'] },
+    slots: list(slots),
+    tasks: list(tasks),
+    guards: list(guards),
+    deadlines: list(deadlines),
+    rewards: list(rewards),
+    evidence: { element: evidence, source_passages: ['P3'] },
+  };
+}
+
+describe('splitProtocolSource', () => {
+  it('numbers passages under their headings', () => {
+    const source = splitProtocolSource(PROTOCOL_TEXT);
+    expect(source.title).toBe('Portaria SMS nº 82/2024');
+    expect(source.passages.map(({ passage_id, heading, start_line }) => [passage_id, heading, start_line])).toEqual([
+      ['P1', 'Portaria SMS nº 82/2024', 3],
+      ['P2', 'Sinais vitais', 7],
+      ['P3', 'Prazos', 11],
+    ]);
+  });
+
+  it('opens sections on plain-text headings', () => {
+    const source = splitProtocolSource('CAPÍTULO II\nDos prazos.\n\nArt. 5º\nO atendimento será imediato.');
+    expect(source.passages.map((passage) => passage.heading)).toEqual(['CAPÍTULO II', 'Art. 5º']);
+  });
+});
+
+describe('parseStageResponse', () => {
+  it('tolerates code fences and surrounding text', () => {
+    expect(parseStageResponse('Segue:\n```json\n{"element": {}}\n```')).toEqual({ element: {} });
+    expect(() => parseStageResponse('sem JSON')).toThrow('response contains no JSON object');
+  });
+});
+
+describe('compileProtocol', () => {
+  it('round-trips the reference PIR through the stages', async () => {
+    const llm = new ScriptedCompilerLLM(referenceScript(PIR));
+    const { candidate, report } = await compileProtocol(PROTOCOL_TEXT, { llm, now: () => NOW });
+
+    expect(candidate).toEqual({
+      ...PIR,
+      metadata: { ...PIR.metadata, created_at: NOW.toISOString(), compiled_by: 'pir-compiler (scripted)' },
+    });
+    expect(report.validation).toEqual([]);
+    expect(report.stages.map(({ stage, attempts, elements }) => [stage, attempts, elements])).toEqual([
+      ['header', 1, 1],
+      ['slots', 1, PIR.slots.length],
+      ['tasks', 1, PIR.tasks.length],
+      ['guards', 1, PIR.guards.length],
+      ['deadlines', 1, PIR.deadlines.length],
+      ['rewards', 1, PIR.rewards.length],
+      ['evidence', 1, 1],
+    ]);
+    expect(report.unused_passages).toEqual([]);
+    expect(llm.calls.map((call) => call.stage)).toEqual(['header', 'slots', 'tasks', 'guards', 'deadlines', 'rewards', 'evidence']);
+  });
+
+  it('passes earlier stages to later prompts', async () => {
+    const llm = new ScriptedCompilerLLM(referenceScript(PIR));
+    await compileProtocol(PROTOCOL_TEXT, { llm, now: () => NOW });
+
+    const guardsPrompt = llm.calls.find((call) => call.stage === 'guards')!.prompt;
+    expect(guardsPrompt).toContain('Declared slots:');
+    expect(guardsPrompt).toContain(`- ${PIR.tasks[0].task_id} → `);
+    expect(guardsPrompt).toContain('[P2] (Sinais vitais)');
+  });
+
+  it('retries a rejected response with feedback', async () => {
+    const script = referenceScript(PIR);
+    script.slots = ['not json', script.slots as Record<string, unknown>];
+    const llm = new ScriptedCompilerLLM(script);
+
+    const { report } = await compileProtocol(PROTOCOL_TEXT, { llm, now: () => NOW });
+
+    const slots = report.stages.find((stage) => stage.stage === 'slots')!;
+    expect(slots).toMatchObject({ attempts: 2, rejected_responses: ['response contains no JSON object'] });
+    expect(llm.calls.filter((call) => call.stage === 'slots')[1].prompt).toContain(
+      'Your previous response was rejected: response contains no JSON object'
+    );
+  });
+
+  it('fails the stage after the last attempt', async () => {
+    const script = referenceScript(PIR);
+    script.tasks = { elements: [{ element: { name: 'sem id' } }] };
+
+    await expect(compileProtocol(PROTOCOL_TEXT, { llm: new ScriptedCompilerLLM(script), now: () => NOW })).rejects.toMatchObject({
+      name: 'PIRCompileError',
+      stage: 'tasks',
+      rejected_responses: ['elements[0].element.task_id must be a non-empty string', 'elements[0].element.task_id must be a non-empty string'],
+    });
+  });
+
+  it('rejects an empty document', async () => {
+    await expect(compileProtocol('  \n\n', { llm: new ScriptedCompilerLLM({}) })).rejects.toBeInstanceOf(PIRCompileError);
+  });
+
+  it('reports citations of unknown passages and unused passages', async () => {
+    const script = referenceScript(PIR);
+    script.evidence = { element: PIR.evidence as unknown as Record<string, unknown>, source_passages: ['P9'] };
+
+    const { report } = await compileProtocol(PROTOCOL_TEXT, { llm: new ScriptedCompilerLLM(script), now: () => NOW });
+
+    expect(report.diagnostics).toContainEqual({ severity: 'warning', path: 'evidence', message: 'cites unknown passage(s): P9' });
+    expect(report.diagnostics).toContainEqual({ severity: 'warning', path: 'evidence', message: 'evidence has no source passage' });
+    expect(report.unused_passages).toEqual(['P3']);
+  });
+
+  it('returns no document when the candidate is invalid', async () => {
+    const script = referenceScript({ ...PIR, slots: PIR.slots.map((slot) => ({ ...slot, data_type: 'decimal' as never })) });
+
+    const { document, report } = await compileProtocol(PROTOCOL_TEXT, { llm: new ScriptedCompilerLLM(script), now: () => NOW });
+
+    expect(document).toBeNull();
+    expect(report.success).toBe(false);
+    expect(report.validation[0].path).toBe('$.slots[0].data_type');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * PIR Compiler - Texto de protocolo → documento PIR validado
+ *
+ * Pipeline:
+ *   1. Divide o documento em passagens numeradas (source.ts)
+ *   2. Extrai cada componente em estágios via LLM plugável (stages.ts, llm.ts)
+ *   3. Monta o documento e valida schema (validatePIR)
+ *   4. Análise estática (lintPIR): dataflow e integridade de referências
+ *   5. Relatório de compilação com as passagens de origem de cada elemento
+ *
+ * Falha de estágio (resposta inválida após todas as tentativas) lança PIRCompileError.
+ * Documento inválido não lança: `document` vem null e o relatório lista os problemas.
+ */
+
+import type { PIRDocument, PIREvidence } from '../types/pir';
+import { validatePIR, type PIRValidationIssue } from '../validator/pir-validator';
+import { lintPIR, type PIRLintRule } from '../lint/pir-linter';
+import type { CompileStage, CompilerLLM } from './llm';
+import { splitProtocolSource, renderPassages, type ProtocolPassage } from './source';
+import {
+  COMPILE_STAGES,
+  buildStagePrompt,
+  buildStageSystemPrompt,
+  describeCompiledContext,
+  parseStageResponse,
+  type StageDefinition,
+} from './stages';
+
+export interface CompileProtocolOptions {
+  llm: CompilerLLM;
+  protocol_id?: string; // Sobrescreve o ID extraído
+  version?: string; // Sobrescreve a versão extraída
+  max_attempts?: number; // Tentativas por estágio (default: 2)
+  now?: () => Date;
+}
+
+export interface CompileDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  path: string; // "guards[3].trigger.condition"
+  message: string;
+  rule?: PIRLintRule; // Presente em diagnósticos do linter
+}
+
+export interface CompiledElementProvenance {
+  component: CompileStage;
+  element_id: string; // ID do elemento (ou nome do componente em estágios únicos)
+  passages: ProtocolPassage[];
+  unresolved_citations: string[]; // IDs citados que não existem no documento
+}
+
+export interface CompileStageReport {
+  stage: CompileStage;
+  attempts: number;
+  elements: number;
+  rejected_responses: string[]; // Motivo de cada resposta descartada
+}
+
+export interface PIRCompileReport {
+  success: boolean;
+  compiled_at: string;
+  llm: string;
+  source: {
+    title: string | null;
+    passages: number;
+  };
+  stages: CompileStageReport[];
+  provenance: CompiledElementProvenance[];
+  unused_passages: string[]; // Passagens não citadas por nenhum elemento
+  validation: PIRValidationIssue[];
+  diagnostics: CompileDiagnostic[];
+}
+
+export interface PIRCompileResult {
+  document: PIRDocument | null; // Presente apenas quando report.success
+  candidate: Record<string, unknown>; // Documento montado (mesmo se inválido)
+  report: PIRCompileReport;
+}
+
+/**
+ * Erro de estágio: LLM não devolveu resposta utilizável
+ */
+export class PIRCompileError extends Error {
+  constructor(
+    readonly stage: CompileStage,
+    message: string,
+    readonly rejected_responses: string[] = []
+  ) {
+    super(`PIR compile stage "${stage}" failed: ${message}`);
+    this.name = 'PIRCompileError';
+  }
+}
+
+interface ExtractedElement {
+  element: Record<string, unknown>;
+  source_passages: string[];
+}
+
+// ============================================================================
+// ESTÁGIOS
+// ============================================================================
+
+function readCitations(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error('"source_passages" must be an array of passage ids');
+  }
+  return value as string[];
+}
+
+function readElement(value: unknown, label: string): ExtractedElement {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+  const entry = value as Record<string, unknown>;
+  if (!entry.element || typeof entry.element !== 'object' || Array.isArray(entry.element)) {
+    throw new Error(`${label}.element must be an object`);
+  }
+  return {
+    element: entry.element as Record<string, unknown>,
+    source_passages: readCitations(entry.source_passages ?? []),
+  };
+}
+
+/**
+ * Interpreta a resposta de um estágio no formato esperado
+ */
+function readStageResponse(definition: StageDefinition, text: string): ExtractedElement[] {
+  const response = parseStageResponse(text);
+
+  if (definition.kind === 'single') {
+    return [readElement(response, 'response')];
+  }
+
+  if (!Array.isArray(response.elements)) {
+    throw new Error('"elements" must be an array');
+  }
+
+  const elements = response.elements.map((entry, index) => readElement(entry, `elements[${index}]`));
+  const idField = definition.id_field!;
+  elements.forEach(({ element }, index) => {
+    if (typeof element[idField] !== 'string' || !element[idField]) {
+      throw new Error(`elements[${index}].element.${idField} must be a non-empty string`);
+    }
+  });
+  return elements;
+}
+
+async function runStage(
+  definition: StageDefinition,
+  llm: CompilerLLM,
+  passages: string,
+  context: string,
+  maxAttempts: number
+): Promise<{ elements: ExtractedElement[]; report: CompileStageReport }> {
+  const rejected: string[] = [];
+  const system = buildStageSystemPrompt();
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const prompt = buildStagePrompt(definition, passages, context, rejected[rejected.length - 1]);
+    const text = await llm.complete({ stage: definition.stage, attempt, system, prompt });
+
+    try {
+      const elements = readStageResponse(definition, text);
+      console.log(`[PIR-COMPILER] ${definition.stage}: ${elements.length} element(s), attempt ${attempt}`);
+      return {
+        elements,
+        report: { stage: definition.stage, attempts: attempt, elements: elements.length, rejected_responses: rejected },
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[PIR-COMPILER] ${definition.stage}: response rejected (attempt ${attempt}): ${reason}`);
+      rejected.push(reason);
+    }
+  }
+
+  throw new PIRCompileError(definition.stage, rejected[rejected.length - 1], rejected);
+}
+
+// ============================================================================
+// COMPILAÇÃO
+// ============================================================================
+
+/**
+ * Compila o texto de um protocolo em documento PIR
+ */
+export async function compileProtocol(text: string, options: CompileProtocolOptions): Promise<PIRCompileResult> {
+  const { llm, max_attempts = 2, now = () => new Date() } = options;
+  const source = splitProtocolSource(text);
+
+  if (source.passages.length === 0) {
+    throw new PIRCompileError('header', 'protocol document is empty');
+  }
+
+  const renderedPassages = renderPassages(source.passages);
+  const passagesById = new Map(source.passages.map((passage) => [passage.passage_id, passage]));
+
+  const partial: Partial<PIRDocument> = {};
+  const extracted = new Map<CompileStage, ExtractedElement[]>();
+  const stageReports: CompileStageReport[] = [];
+
+  for (const definition of COMPILE_STAGES) {
+    const { elements, report } = await runStage(
+      definition,
+      llm,
+      renderedPassages,
+      describeCompiledContext(partial),
+      max_attempts
+    );
+    extracted.set(definition.stage, elements);
+    stageReports.push(report);
+
+    if (definition.kind === 'list') {
+      (partial as Record<string, unknown>)[definition.stage] = elements.map(({ element }) => element);
+    }
+  }
+
+  // Documento montado
+  const header = extracted.get('header')![0].element;
+  const compiledAt = now().toISOString();
+  const candidate: Record<string, unknown> = {
+    ...header,
+    ...(options.protocol_id ? { protocol_id: options.protocol_id } : {}),
+    ...(options.version ? { version: options.version } : {}),
+    metadata: {
+      ...(header.metadata as Record<string, unknown> | undefined),
+      created_at: compiledAt,
+      compiled_by: `pir-compiler (${llm.name})`,
+    },
+    slots: partial.slots,
+    tasks: partial.tasks,
+    guards: partial.guards,
+    deadlines: partial.deadlines,
+    rewards: partial.rewards,
+    evidence: extracted.get('evidence')![0].element as unknown as PIREvidence,
+  };
+
+  // Proveniência
+  const diagnostics: CompileDiagnostic[] = [];
+  const provenance: CompiledElementProvenance[] = [];
+  const cited = new Set<string>();
+
+  for (const definition of COMPILE_STAGES) {
+    extracted.get(definition.stage)!.forEach(({ element, source_passages }, index) => {
+      const elementId = definition.id_field ? String(element[definition.id_field]) : definition.component;
+      const path = definition.kind === 'list' ? `${definition.stage}[${index}]` : definition.stage === 'header' ? '$' : definition.stage;
+      const passages = source_passages.filter((id) => passagesById.has(id)).map((id) => passagesById.get(id)!);
+      const unresolved = source_passages.filter((id) => !passagesById.has(id));
+
+      passages.forEach((passage) => cited.add(passage.passage_id));
+      provenance.push({ component: definition.stage, element_id: elementId, passages, unresolved_citations: unresolved });
+
+      if (unresolved.length > 0) {
+        diagnostics.push({ severity: 'warning', path, message: `cites unknown passage(s): ${unresolved.join(', ')}` });
+      }
+      if (passages.length === 0) {
+        diagnostics.push({ severity: 'warning', path, message: `${elementId} has no source passage` });
+      }
+    });
+  }
+
+  // Validação de schema + análise estática (só faz sentido sobre documento válido)
+  const validation = validatePIR(candidate);
+  if (validation.valid) {
+    for (const { rule, severity, path, message } of lintPIR(validation.document!).diagnostics) {
+      diagnostics.push({ severity, path, message, rule });
+    }
+  }
+
+  const success = validation.valid && !diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+  return {
+    document: success ? validation.document! : null,
+    candidate,
+    report: {
+      success,
+      compiled_at: compiledAt,
+      llm: llm.name,
+      source: { title: source.title, passages: source.passages.length },
+      stages: stageReports,
+      provenance,
+      unused_passages: source.passages.map((passage) => passage.passage_id).filter((id) => !cited.has(id)),
+      validation: validation.errors,
+      diagnostics,
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * PIR Compiler - Passagens do documento de protocolo
+ *
+ * O texto do protocolo (Markdown ou texto puro de uma portaria) é dividido em
+ * passagens numeradas (P1, P2...). O LLM cita essas passagens para cada
+ * elemento PIR gerado; o relatório de compilação resolve as citações de volta
+ * para o trecho e as linhas de origem.
+ *
+ * Regras de divisão:
+ * - títulos Markdown (#, ##...) abrem nova seção e viram o `heading` das passagens seguintes
+ * - linhas em branco separam passagens dentro de uma seção
+ * - títulos em texto puro (linha curta em CAIXA ALTA, "Art. 5º", "CAPÍTULO II") também abrem seção
+ */
+
+export interface ProtocolPassage {
+  passage_id: string; // "P1", "P2"...
+  heading: string | null; // Título da seção onde a passagem está
+  start_line: number; // 1-based, inclusivo
+  end_line: number;
+  text: string;
+}
+
+export interface ProtocolSource {
+  title: string | null; // Primeiro título do documento
+  passages: ProtocolPassage[];
+}
+
+const MARKDOWN_HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const PLAIN_HEADING_PATTERN = /^\s*(?:(?:CAP[IÍ]TULO|SE[CÇ][AÃ]O|ANEXO|T[IÍ]TULO)\b.*|Art\.?\s*\d+[ºo°]?.{0,80})$/i;
+const MAX_PLAIN_HEADING_LENGTH = 80;
+
+function isPlainHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > MAX_PLAIN_HEADING_LENGTH) return false;
+  if (PLAIN_HEADING_PATTERN.test(trimmed) && !/[.;:]$/.test(trimmed)) return true;
+
+  // Linha curta toda em maiúsculas (com ao menos duas letras)
+  const letters = trimmed.replace(/[^A-Za-zÀ-ÿ]/g, '');
+  return letters.length >= 2 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+}
+
+/**
+ * Divide o documento em passagens numeradas
+ */
+export function splitProtocolSource(text: string): ProtocolSource {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const passages: ProtocolPassage[] = [];
+
+  let title: string | null = null;
+  let heading: string | null = null;
+  let buffer: string[] = [];
+  let bufferStart = 0;
+
+  const flush = (endLine: number) => {
+    const content = buffer.join('\n').trim();
+    if (content) {
+      passages.push({
+        passage_id: `P${passages.length + 1}`,
+        heading,
+        start_line: bufferStart,
+        end_line: endLine,
+        text: content,
+      });
+    }
+    buffer = [];
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const markdownHeading = line.match(MARKDOWN_HEADING_PATTERN);
+
+    if (markdownHeading || (buffer.length === 0 && isPlainHeading(line))) {
+      flush(lineNumber - 1);
+      heading = markdownHeading ? markdownHeading[2] : line.trim();
+      if (title === null) title = heading;
+      return;
+    }
+
+    if (!line.trim()) {
+      flush(lineNumber - 1);
+      return;
+    }
+
+    if (buffer.length === 0) bufferStart = lineNumber;
+    buffer.push(line);
+  });
+
+  flush(lines.length);
+
+  return { title, passages };
+}
+
+/**
+ * Renderiza as passagens para o prompt do LLM ("[P3] (Seção) texto")
+ */
+export function renderPassages(passages: ProtocolPassage[]): string {
+  return passages
+    .map((passage) => `[${passage.passage_id}]${passage.heading ? ` (${passage.heading})` : ''}\n${passage.text}`)
+    .join('\n\n');
+}
@@ -0,0 +1,253 @@
+/**
+ * PIR Compiler - Estágios de extração
+ *
+ * Cada estágio pede ao LLM um componente do PIR, em ordem de dependência:
+ *   header → slots → tasks → guards → deadlines → rewards → evidence
+ * Estágios posteriores recebem os IDs já extraídos (slots, outputs de tasks),
+ * para que condições e referências só usem nomes declarados.
+ *
+ * Formato de resposta (JSON):
+ *   estágios de lista:  { "elements": [ { "element": {...}, "source_passages": ["P3"] } ] }
+ *   estágios únicos:    { "element": {...}, "source_passages": ["P1"] }
+ */
+
+import type { PIRDocument } from '../types/pir';
+import type { CompileStage } from './llm';
+import { PIR_RUNTIME_CONTEXT } from '../lint/pir-linter';
+
+export interface StageDefinition {
+  stage: CompileStage;
+  kind: 'single' | 'list';
+  component: string; // Nome exibido no prompt e no relatório
+  id_field?: string; // Campo de ID dos elementos (estágios de lista)
+  schema: string; // Forma esperada do elemento
+  instructions: string[];
+}
+
+const CONDITION_LANGUAGE = [
+  'Conditions use the PIR condition language:',
+  '- paths: slot_id, slot_id.field (object slots), task outputs',
+  "- literals: numbers, 'strings', true/false/null, lists ['a', 'b'], durations 30m, 4.5h, 3_months",
+  '- operators: AND OR NOT, == != < <= > >=, IN, NOT IN, CONTAINS, + - * /, parentheses',
+].join('\n');
+
+export const COMPILE_STAGES: StageDefinition[] = [
+  {
+    stage: 'header',
+    kind: 'single',
+    component: 'protocol header',
+    schema: `{
+  "protocol_id": "snake_case id",
+  "protocol_name": string,
+  "version": string,
+  "jurisdiction": string,
+  "legal_reference": string (ordinance/law number),
+  "effective_date": "YYYY-MM-DD",
+  "implementation_deadline"?: "YYYY-MM-DD",
+  "metadata": { "description", "scope", "target_population", "language" (e.g. "pt-BR"), "certification_required"? },
+  "integration_points": { "<name>": { "endpoint", "protocol": "https"|"http"|"websocket", "authentication", "payload", "required"? } },
+  "hot_reload_configuration": { "enabled": boolean, "check_interval": duration, "source": string, "trigger_conditions": string[], "rollback_on_error": boolean, "validation_before_apply": boolean, "notification": string }
+}`,
+    instructions: ['Identify the protocol, its legal basis and where it applies.'],
+  },
+  {
+    stage: 'slots',
+    kind: 'list',
+    component: 'slots',
+    id_field: 'slot_id',
+    schema: `{
+  "slot_id": "snake_case id",
+  "name": "display name (protocol language)",
+  "type": "conversational"|"device"|"historical"|"computed",
+  "data_type": "string"|"integer"|"float"|"boolean"|"enum"|"object"|"array"|"duration",
+  "required": boolean,
+  "unit"?: string,
+  "structure"?: { "<field>": data_type } (object slots),
+  "options"?: string[] (enum slots),
+  "condition"?: condition (collect only when true),
+  "extraction"?: { "patterns"?: regex[], "fallback_question"?: string },
+  "validation"?: { "min"?: number, "max"?: number },
+  "classification_thresholds"?: { "<band>": ">=41.0" | "38.5-40.9" | "systolic<80 OR diastolic>120" },
+  "classification_impact"?: { "<band>": string[] | condition },
+  "pediatric_thresholds"?: { "infant"|"preschool"|"school": { "<band>": threshold (may use age, in years) } }
+}`,
+    instructions: [
+      'Create one slot per clinical data item the protocol needs to classify a patient.',
+      'Prefer conversational slots with a natural fallback_question over form fields.',
+      'Encode every numeric cut-off of the protocol as classification_thresholds.',
+      'When the protocol has age-specific cut-offs for children, encode them as pediatric_thresholds (infant < 1 year, preschool 1-4, school 5-11).',
+    ],
+  },
+  {
+    stage: 'tasks',
+    kind: 'list',
+    component: 'tasks',
+    id_field: 'task_id',
+    schema: `{
+  "task_id": "snake_case id",
+  "name": string,
+  "type": "llm_reasoning"|"local_inference"|"api_call"|"distributed",
+  "description": string,
+  "execution": { "local": boolean, "sync": boolean, "timeout"?: duration },
+  "inputs": string[] (slot ids or outputs of earlier tasks),
+  "outputs": string[],
+  "condition"?: condition,
+  "rules"?: [ { "if": condition, "then": string, "discriminator"?: string } ],
+  "required_by_regulation"?: boolean,
+  "legal_reference"?: string
+}`,
+    instructions: [
+      'Create one atomic task per decision step of the protocol (classification, priority flows, reassessment).',
+      'Task inputs must be declared slots or outputs of tasks listed before it.',
+    ],
+  },
+  {
+    stage: 'guards',
+    kind: 'list',
+    component: 'guards',
+    id_field: 'guard_id',
+    schema: `{
+  "guard_id": "snake_case id",
+  "name": string,
+  "type": "predictive"|"reactive"|"continuous",
+  "description": string,
+  "trigger": { "condition": condition },
+  "action": { "type": "suggest"|"alert"|"block"|"notify", "message": string, "priority"?: "critical"|"high"|"medium"|"low", "override_allowed": boolean, "show_reasoning"?: boolean, "reasoning"?: string },
+  "associated_task"?: task_id
+}`,
+    instructions: [
+      'Create one guard per red flag or safety rule of the protocol.',
+      'Guards suggest and explain; use "block" only where the protocol forbids proceeding.',
+    ],
+  },
+  {
+    stage: 'deadlines',
+    kind: 'list',
+    component: 'deadlines',
+    id_field: 'deadline_id',
+    schema: `{
+  "deadline_id": "snake_case id",
+  "name": string,
+  "description": string,
+  "time_limit": duration,
+  "priority"?: "RED"|"ORANGE"|"YELLOW"|"GREEN"|"BLUE",
+  "task_related"?: task_id,
+  "adaptive"?: boolean,
+  "relaxes_to"?: duration,
+  "relaxation_conditions"?: condition,
+  "escalation"?: { "enabled": boolean, "after": duration, "if_delayed": string },
+  "regulatory_requirement"?: boolean
+}`,
+    instructions: ['Create one deadline per maximum time stated by the protocol (per priority and per priority flow).'],
+  },
+  {
+    stage: 'rewards',
+    kind: 'list',
+    component: 'rewards',
+    id_field: 'reward_id',
+    schema: `{
+  "reward_id": "snake_case id",
+  "name": string,
+  "weight": number (negative for penalties),
+  "description": string,
+  "criteria"?: { "<name>": string | number | boolean },
+  "feeds_rre"?: boolean
+}`,
+    instructions: ['Create rewards for outcomes the protocol wants (deadlines met, correct classification) and penalties for failures.'],
+  },
+  {
+    stage: 'evidence',
+    kind: 'single',
+    component: 'evidence',
+    schema: `{
+  "audit_trail": { "enabled": boolean, "storage": string, "retention_period": string, "compliance": string, "events_tracked": string[], "data_captured": { "<field>": string } },
+  "learning_configuration": { "enabled": boolean, "feeds_rre": boolean, "aggregation_level": string, "phi_protection": string, "patterns_tracked": string[], "learning_outputs": { "<name>": string }, "privacy_guarantees": { "no_individual_identification": boolean, "differential_privacy": boolean, "minimum_cohort_size": number, "geographic_aggregation": string } },
+  "quality_indicators": { "tracked_metrics": [ { "indicator": string, "target": string, "unit": string } ], "reporting_frequency": string },
+  "regulatory_compliance": { "<regulation>": { ... } }
+}`,
+    instructions: ['Derive audit, retention and quality indicators from the reporting and compliance requirements of the protocol.'],
+  },
+];
+
+/**
+ * Resumo dos elementos já extraídos, passado aos estágios seguintes
+ */
+export function describeCompiledContext(partial: Partial<PIRDocument>): string {
+  const lines: string[] = [];
+
+  if (partial.slots?.length) {
+    lines.push('Declared slots:');
+    for (const slot of partial.slots) {
+      const fields = slot.structure ? ` fields: ${Object.keys(slot.structure).join(', ')}` : '';
+      const options = slot.options ? ` options: ${slot.options.join(', ')}` : '';
+      lines.push(`- ${slot.slot_id} (${slot.data_type})${fields}${options}`);
+    }
+  }
+
+  if (partial.tasks?.length) {
+    lines.push('Declared tasks (outputs usable in conditions):');
+    for (const task of partial.tasks) {
+      lines.push(`- ${task.task_id} → ${task.outputs.join(', ')}`);
+    }
+  }
+
+  if (partial.slots?.length) {
+    lines.push(`Runtime context names: ${Object.keys(PIR_RUNTIME_CONTEXT).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function buildStageSystemPrompt(): string {
+  return [
+    'You compile clinical protocol documents into PIR (Protocol Intermediate Representation) JSON.',
+    'Derive every element from the protocol text; never invent clinical criteria that the text does not state.',
+    'Cite, for every element, the passage ids ([P1], [P2]...) it was derived from.',
+    'Durations are written as <number><unit> with unit s, m, h or d (e.g. "10m", "2h").',
+    'Respond with JSON only, no prose and no code fences.',
+  ].join('\n');
+}
+
+export function buildStagePrompt(definition: StageDefinition, passages: string, context: string, feedback?: string): string {
+  const responseShape =
+    definition.kind === 'list'
+      ? '{ "elements": [ { "element": <ELEMENT>, "source_passages": ["P1"] } ] }'
+      : '{ "element": <ELEMENT>, "source_passages": ["P1"] }';
+
+  return [
+    `Extract the ${definition.component} of the PIR.`,
+    ...definition.instructions,
+    '',
+    `ELEMENT shape:\n${definition.schema}`,
+    '',
+    CONDITION_LANGUAGE,
+    context ? `\n${context}` : '',
+    '',
+    `Respond with: ${responseShape}`,
+    feedback ? `\nYour previous response was rejected: ${feedback}\nFix it and respond again.` : '',
+    '',
+    `PROTOCOL PASSAGES:\n${passages}`,
+  ]
+    .filter((line, index, all) => !(line === '' && all[index - 1] === ''))
+    .join('\n');
+}
+
+/**
+ * Extrai o objeto JSON da resposta (tolera cercas ``` e texto ao redor)
+ */
+export function parseStageResponse(text: string): Record<string, unknown> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('response contains no JSON object');
+  }
+
+  const parsed = JSON.parse(candidate.slice(start, end + 1));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('response JSON is not an object');
+  }
+  return parsed as Record<string, unknown>;
+}
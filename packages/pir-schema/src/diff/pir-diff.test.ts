@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import type { PIRDocument } from '../types/pir';
+import { diffPIR, renderPIRChangelog } from './pir-diff';
+
+const PIR = loadManchesterSPProtocol();
+
+// Nova versão mutável do PIR de referência
+function nextVersion(): PIRDocument {
+  return { ...structuredClone(PIR), version: '2.0.0' };
+}
+
+function changeOf(before: PIRDocument, after: PIRDocument, id: string) {
+  return diffPIR(before, after).changes.find((change) => change.id === id);
+}
+
+const slot = (document: PIRDocument, id: string) => document.slots.find((item) => item.slot_id === id)!;
+
+describe('diffPIR', () => {
+  it('reports no changes between identical versions', () => {
+    const diff = diffPIR(PIR, structuredClone(PIR));
+    expect(diff.changes).toEqual([]);
+    expect(diff.document_changes).toEqual([]);
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, modified: 0 });
+  });
+
+  it('rates a red/orange threshold change as high impact', () => {
+    const after = nextVersion();
+    slot(after, 'temperature').classification_thresholds!.very_urgent = '>=40.5';
+
+    expect(changeOf(PIR, after, 'temperature')).toMatchObject({
+      component: 'slots',
+      change: 'modified',
+      fields: [{ path: 'classification_thresholds.very_urgent', change: 'modified', before: '>=41.0', after: '>=40.5' }],
+      impact: 'high',
+    });
+  });
+
+  it('rates a yellow/green threshold change as medium impact', () => {
+    const after = nextVersion();
+    slot(after, 'temperature').classification_thresholds!.less_urgent = '37.8-38.4';
+    expect(changeOf(PIR, after, 'temperature')?.impact).toBe('medium');
+  });
+
+  it('lists items added to primitive lists', () => {
+    const after = nextVersion();
+    slot(after, 'consciousness_level').options!.push('agitated');
+
+    const change = changeOf(PIR, after, 'consciousness_level');
+    expect(change?.fields).toEqual([expect.objectContaining({ path: 'options', added_items: ['agitated'], removed_items: [] })]);
+    expect(change?.impact).toBe('medium');
+  });
+
+  it('keys discriminator rules by name', () => {
+    const after = nextVersion();
+    const task = after.tasks.find((item) => item.task_id === 'apply_general_discriminators')!;
+    task.rules![0].if = "consciousness_level == 'unresponsive'";
+
+    const change = changeOf(PIR, after, 'apply_general_discriminators');
+    expect(change?.fields.map((field) => field.path)).toEqual(['rules[discriminator=risco_de_morte].if']);
+    expect(change?.impacts[0]).toMatchObject({ level: 'high', path: 'rules[discriminator=risco_de_morte]' });
+  });
+
+  it('rates guard trigger changes as high impact', () => {
+    const after = nextVersion();
+    after.guards.find((guard) => guard.guard_id === 'sepsis_early_detection')!.trigger.condition = 'qSOFA_score >= 2';
+    expect(changeOf(PIR, after, 'sepsis_early_detection')?.impact).toBe('high');
+  });
+
+  it('describes the direction of deadline changes', () => {
+    const after = nextVersion();
+    after.deadlines.find((deadline) => deadline.deadline_id === 'orange_10min')!.time_limit = '5m';
+    after.deadlines.find((deadline) => deadline.deadline_id === 'green_120min')!.time_limit = '180m';
+
+    expect(changeOf(PIR, after, 'orange_10min')?.impacts).toEqual([
+      { level: 'high', path: 'time_limit', description: 'Prazo encurtado: 10m → 5m' },
+    ]);
+    expect(changeOf(PIR, after, 'green_120min')?.impacts).toEqual([
+      { level: 'medium', path: 'time_limit', description: 'Prazo relaxado: 120m → 180m' },
+    ]);
+  });
+
+  it('counts added and removed elements per component and impact', () => {
+    const after = nextVersion();
+    after.guards = after.guards.filter((guard) => guard.guard_id !== 'stroke_time_window');
+    after.rewards = after.rewards.slice(1);
+    after.slots.push({ ...slot(PIR, 'pain_score'), slot_id: 'pain_location', name: 'Local da Dor', required: false });
+
+    const diff = diffPIR(PIR, after);
+    expect(diff.summary).toMatchObject({ added: 1, removed: 2, modified: 0, by_impact: { high: 1, medium: 0, low: 2 } });
+    expect(diff.summary.by_component.guards).toEqual({ added: 0, removed: 1, modified: 0 });
+    expect(diff.changes.find((change) => change.id === 'stroke_time_window')).toMatchObject({ change: 'removed', impact: 'high' });
+  });
+
+  it('ignores the compilation date but not other document fields', () => {
+    const after = nextVersion();
+    after.metadata = { ...after.metadata, created_at: '2030-01-01T00:00:00.000Z' };
+    expect(diffPIR(PIR, after).document_changes).toEqual([{ path: 'version', change: 'modified', before: PIR.version, after: '2.0.0' }]);
+  });
+});
+
+describe('renderPIRChangelog', () => {
+  it('leads with high-impact changes and closes with the approval table', () => {
+    const after = nextVersion();
+    after.deadlines.find((deadline) => deadline.deadline_id === 'orange_10min')!.time_limit = '5m';
+
+    const changelog = renderPIRChangelog(diffPIR(PIR, after));
+    expect(changelog).toContain(`# Changelog PIR: ${PIR.protocol_id} v${PIR.version} → ${PIR.protocol_id} v2.0.0`);
+    expect(changelog).toContain('- **deadlines/orange_10min**: Prazo encurtado: 10m → 5m');
+    expect(changelog).toContain('| time_limit | `10m` | `5m` |');
+    expect(changelog.indexOf('## Mudanças de impacto clínico alto')).toBeLessThan(changelog.indexOf('## Deadlines'));
+    expect(changelog.trimEnd().endsWith('| Responsável técnico | | | |')).toBe(true);
+  });
+
+  it('says when nothing changed', () => {
+    expect(renderPIRChangelog(diffPIR(PIR, PIR))).toContain('Nenhuma mudança semântica entre as versões.');
+  });
+});
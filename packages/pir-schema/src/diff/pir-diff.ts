@@ -0,0 +1,535 @@
+/**
+ * PIR Schema - Diff semântico entre versões de protocolo
+ *
+ * Compara dois documentos PIR elemento a elemento (chaveados por slot_id, task_id,
+ * guard_id, deadline_id, reward_id) e classifica o impacto clínico de cada mudança:
+ *
+ *   threshold de faixa vermelha/laranja alterado  → high
+ *   discriminador novo/removido/alterado          → high (vermelho/laranja) ou medium
+ *   deadline encurtado/relaxado                    → high (RED/ORANGE, fluxos prioritários) ou medium
+ *   guard removido ou trigger alterado             → high
+ *
+ * Saída em JSON (diffPIR) e changelog Markdown para aprovação (renderPIRChangelog).
+ */
+
+import type { PIRDocument } from '../types/pir';
+import { PIR_DURATION_PATTERN } from '../validator/pir-validator';
+import { VitalSignClassifier, type ManchesterPriority } from '../classification/vital-bands';
+
+export type PIRDiffComponent = 'slots' | 'tasks' | 'guards' | 'deadlines' | 'rewards';
+
+export type PIRChangeType = 'added' | 'removed' | 'modified';
+
+export type ClinicalImpactLevel = 'high' | 'medium' | 'low';
+
+export interface PIRFieldChange {
+  path: string; // "classification_thresholds.very_urgent", "rules[discriminator=dor_severa].if"
+  change: PIRChangeType;
+  before?: unknown;
+  after?: unknown;
+  added_items?: unknown[]; // Listas de primitivos: itens incluídos
+  removed_items?: unknown[]; // Listas de primitivos: itens retirados
+}
+
+export interface ClinicalImpact {
+  level: ClinicalImpactLevel;
+  description: string;
+  path?: string; // Campo que motivou a classificação
+}
+
+export interface PIRElementChange {
+  component: PIRDiffComponent;
+  id: string;
+  name: string;
+  change: PIRChangeType;
+  fields: PIRFieldChange[]; // Vazio para added/removed
+  impacts: ClinicalImpact[];
+  impact: ClinicalImpactLevel; // Maior nível entre impacts
+}
+
+export interface PIRDiff {
+  from: { protocol_id: string; version: string };
+  to: { protocol_id: string; version: string };
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    by_component: Record<PIRDiffComponent, { added: number; removed: number; modified: number }>;
+    by_impact: Record<ClinicalImpactLevel, number>;
+  };
+  document_changes: PIRFieldChange[]; // Cabeçalho, metadata, evidence, integração, hot reload
+  changes: PIRElementChange[];
+}
+
+const COMPONENTS: PIRDiffComponent[] = ['slots', 'tasks', 'guards', 'deadlines', 'rewards'];
+
+const ID_FIELDS: Record<PIRDiffComponent, string> = {
+  slots: 'slot_id',
+  tasks: 'task_id',
+  guards: 'guard_id',
+  deadlines: 'deadline_id',
+  rewards: 'reward_id',
+};
+
+// Chaves naturais de listas de objetos (em ordem de preferência)
+const ARRAY_ELEMENT_KEYS = ['discriminator', 'item', 'indicator', 'if'];
+
+const IMPACT_ORDER: ClinicalImpactLevel[] = ['high', 'medium', 'low'];
+
+const CRITICAL_PRIORITIES = new Set<ManchesterPriority>(['EMERGENT', 'VERY_URGENT']);
+const CRITICAL_PRIORITY_CODES = new Set(['RED', 'ORANGE']);
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+// ============================================================================
+// DIFF ESTRUTURAL
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Chave natural de uma lista de objetos (presente como string em todos os itens), se houver
+ */
+function arrayElementKey(before: unknown[], after: unknown[]): string | null {
+  const all = [...before, ...after];
+  if (all.length === 0 || !all.every(isPlainObject)) return null;
+
+  return ARRAY_ELEMENT_KEYS.find((key) => all.every((item) => typeof (item as Record<string, unknown>)[key] === 'string')) ?? null;
+}
+
+/**
+ * Indexa a lista pela chave; valores repetidos recebem sufixo de ocorrência ("risco_de_morte#2")
+ */
+function keyedEntries(list: unknown[], key: string): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  const occurrences = new Map<string, number>();
+
+  for (const item of list as Record<string, unknown>[]) {
+    const value = item[key] as string;
+    const count = (occurrences.get(value) ?? 0) + 1;
+    occurrences.set(value, count);
+    entries.set(count === 1 ? value : `${value}#${count}`, item);
+  }
+
+  return entries;
+}
+
+function diffValues(before: unknown, after: unknown, path: string, out: PIRFieldChange[]): void {
+  if (isEqual(before, after)) return;
+
+  if (before === undefined) {
+    out.push({ path, change: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    out.push({ path, change: 'removed', before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) diffValues(before[key], after[key], joinPath(path, key), out);
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const key = arrayElementKey(before, after);
+    if (key) {
+      const beforeByKey = keyedEntries(before, key);
+      const afterByKey = keyedEntries(after, key);
+      for (const id of new Set([...beforeByKey.keys(), ...afterByKey.keys()])) {
+        diffValues(beforeByKey.get(id), afterByKey.get(id), `${path}[${key}=${id}]`, out);
+      }
+      return;
+    }
+
+    if ([...before, ...after].every((item) => !isPlainObject(item) && !Array.isArray(item))) {
+      out.push({
+        path,
+        change: 'modified',
+        before,
+        after,
+        added_items: after.filter((item) => !before.some((candidate) => isEqual(candidate, item))),
+        removed_items: before.filter((item) => !after.some((candidate) => isEqual(candidate, item))),
+      });
+      return;
+    }
+  }
+
+  out.push({ path, change: 'modified', before, after });
+}
+
+// ============================================================================
+// IMPACTO CLÍNICO
+// ============================================================================
+
+function durationToMs(value: unknown): number | null {
+  if (typeof value !== 'string' || !PIR_DURATION_PATTERN.test(value)) return null;
+  return parseFloat(value) * DURATION_UNITS_MS[value.slice(-1)];
+}
+
+/**
+ * Prioridade Manchester de cada faixa (slot.band) nas duas versões
+ */
+function bandPriorities(document: PIRDocument): Map<string, ManchesterPriority | null> {
+  const priorities = new Map<string, ManchesterPriority | null>();
+  try {
+    for (const rule of new VitalSignClassifier(document).getRules()) {
+      priorities.set(`${rule.slot_id}.${rule.band}`, rule.priority);
+    }
+  } catch {
+    // Threshold que não compila: sem prioridade conhecida (o linter reporta)
+  }
+  return priorities;
+}
+
+function rulePriority(rule: unknown): string | null {
+  if (!isPlainObject(rule) || typeof rule.then !== 'string') return null;
+  return rule.then.match(/\b(EMERGENT|VERY_URGENT|URGENT|LESS_URGENT|NON_URGENT)\b/)?.[1] ?? null;
+}
+
+/**
+ * Caminho da regra ("rules[discriminator=x]" ou "flowchart_rules.dor_toracica[discriminator=x]") → regra
+ */
+function findRule(element: Record<string, unknown> | undefined, rulePath: string): unknown {
+  if (!element) return undefined;
+  const match = rulePath.match(/^(rules|flowchart_rules\.([^[]+))\[(\w+)=(.+)\]$/);
+  if (!match) return undefined;
+  const list = (match[2] ? (element.flowchart_rules as Record<string, unknown[]> | undefined)?.[match[2]] : element.rules) as
+    | unknown[]
+    | undefined;
+  return list ? keyedEntries(list, match[3]).get(match[4]) : undefined;
+}
+
+interface ImpactContext {
+  beforeBands: Map<string, ManchesterPriority | null>;
+  afterBands: Map<string, ManchesterPriority | null>;
+}
+
+function slotImpacts(id: string, fields: PIRFieldChange[], context: ImpactContext): ClinicalImpact[] {
+  const impacts: ClinicalImpact[] = [];
+
+  for (const field of fields) {
+    const band = field.path.match(/^(?:classification_(?:thresholds|impact)|pediatric_thresholds\.\w+)\.(.+)$/)?.[1];
+    if (band) {
+      const priorities = [context.beforeBands.get(`${id}.${band}`), context.afterBands.get(`${id}.${band}`)];
+      const critical = priorities.some((priority) => priority && CRITICAL_PRIORITIES.has(priority));
+      const describe = `faixa "${band}": ${field.before ?? '—'} → ${field.after ?? '—'}`;
+      impacts.push(
+        critical
+          ? { level: 'high', path: field.path, description: `Mudança de threshold afeta a fronteira vermelho/laranja (${describe})` }
+          : priorities.some(Boolean)
+            ? { level: 'medium', path: field.path, description: `Mudança de threshold afeta a fronteira amarelo/verde (${describe})` }
+            : { level: 'low', path: field.path, description: `Mudança em faixa sem impacto de prioridade (${describe})` }
+      );
+    } else if (field.path.startsWith('pediatric_thresholds')) {
+      // Conjunto pediátrico inteiro incluído/removido: todas as faixas da idade mudam
+      const action = field.change === 'added' ? 'incluídas' : field.change === 'removed' ? 'removidas' : 'alteradas';
+      impacts.push({ level: 'high', path: field.path, description: `Faixas pediátricas ${action} (${field.path})` });
+    } else if (field.path === 'required' || field.path.startsWith('options') || field.path.startsWith('structure') || field.path === 'condition') {
+      impacts.push({ level: 'medium', path: field.path, description: `Coleta do slot alterada (${field.path})` });
+    }
+  }
+
+  return impacts;
+}
+
+function taskImpacts(fields: PIRFieldChange[], before?: Record<string, unknown>, after?: Record<string, unknown>): ClinicalImpact[] {
+  const impacts: ClinicalImpact[] = [];
+  const seenRules = new Set<string>();
+
+  for (const field of fields) {
+    const rulePath = field.path.match(/^((?:rules|flowchart_rules\.[^[]+)\[[^\]]+\])/)?.[1];
+    if (rulePath) {
+      if (seenRules.has(rulePath)) continue;
+      seenRules.add(rulePath);
+
+      const priorities = [rulePriority(findRule(before, rulePath)), rulePriority(findRule(after, rulePath))];
+      const critical = priorities.some((priority) => priority === 'EMERGENT' || priority === 'VERY_URGENT');
+      const wholeRule = field.path === rulePath;
+      const action =
+        wholeRule && field.change === 'added' ? 'Novo discriminador' : wholeRule && field.change === 'removed' ? 'Discriminador removido' : 'Discriminador alterado';
+      impacts.push({
+        level: critical ? 'high' : 'medium',
+        path: rulePath,
+        description: `${action} ${rulePath}${priorities.some(Boolean) ? ` (${Array.from(new Set(priorities.filter(Boolean))).join(' → ')})` : ''}`,
+      });
+    } else if (field.path.startsWith('logic.categories')) {
+      impacts.push({ level: 'high', path: field.path, description: `Categoria de classificação alterada (${field.path}: ${field.before ?? '—'} → ${field.after ?? '—'})` });
+    } else if (field.path === 'condition') {
+      impacts.push({ level: 'high', path: field.path, description: `Condição de ativação alterada: ${field.before ?? '—'} → ${field.after ?? '—'}` });
+    } else if (field.path.startsWith('inputs') || field.path.startsWith('outputs')) {
+      impacts.push({ level: 'low', path: field.path, description: `Dataflow da task alterado (${field.path})` });
+    }
+  }
+
+  return impacts;
+}
+
+function guardImpacts(fields: PIRFieldChange[]): ClinicalImpact[] {
+  const impacts: ClinicalImpact[] = [];
+
+  for (const field of fields) {
+    if (field.path === 'trigger.condition') {
+      impacts.push({ level: 'high', path: field.path, description: `Gatilho do guard alterado: ${field.before} → ${field.after}` });
+    } else if (field.path === 'action.type' || field.path === 'action.override_allowed' || field.path === 'action.priority') {
+      impacts.push({ level: 'medium', path: field.path, description: `Ação do guard alterada (${field.path}: ${field.before ?? '—'} → ${field.after ?? '—'})` });
+    } else if (field.path.startsWith('action.')) {
+      impacts.push({ level: 'low', path: field.path, description: `Mensagem/apresentação do guard alterada (${field.path})` });
+    }
+  }
+
+  return impacts;
+}
+
+function deadlineImpacts(fields: PIRFieldChange[], element: Record<string, unknown>): ClinicalImpact[] {
+  const impacts: ClinicalImpact[] = [];
+  const critical = CRITICAL_PRIORITY_CODES.has(element.priority as string) || !!element.task_related;
+
+  for (const field of fields) {
+    if (field.path === 'time_limit') {
+      const before = durationToMs(field.before);
+      const after = durationToMs(field.after);
+      const direction = before !== null && after !== null ? (after < before ? 'encurtado' : 'relaxado') : 'alterado';
+      impacts.push({
+        level: critical ? 'high' : 'medium',
+        path: field.path,
+        description: `Prazo ${direction}: ${field.before} → ${field.after}`,
+      });
+    } else if (['relaxes_to', 'relaxation_conditions', 'adaptive'].includes(field.path)) {
+      impacts.push({ level: 'medium', path: field.path, description: `Adaptação por carga alterada (${field.path}: ${field.before ?? '—'} → ${field.after ?? '—'})` });
+    } else if (field.path === 'priority' || field.path === 'task_related') {
+      impacts.push({ level: 'high', path: field.path, description: `Deadline religado (${field.path}: ${field.before ?? '—'} → ${field.after ?? '—'})` });
+    } else if (field.path.startsWith('escalation')) {
+      impacts.push({ level: 'medium', path: field.path, description: `Escalonamento alterado (${field.path})` });
+    }
+  }
+
+  return impacts;
+}
+
+function addedOrRemovedImpact(component: PIRDiffComponent, change: 'added' | 'removed', element: Record<string, unknown>): ClinicalImpact {
+  const removed = change === 'removed';
+
+  switch (component) {
+    case 'slots':
+      return removed
+        ? { level: 'high', description: 'Slot removido: dado deixa de ser coletado' }
+        : { level: element.required ? 'medium' : 'low', description: `Novo slot${element.required ? ' obrigatório' : ''}` };
+    case 'tasks':
+      return {
+        level: element.required_by_regulation ? 'high' : 'medium',
+        description: removed ? 'Task removida do fluxo de triagem' : 'Nova task no fluxo de triagem',
+      };
+    case 'guards':
+      return removed
+        ? { level: 'high', description: 'Guard de segurança removido' }
+        : { level: 'medium', description: `Novo guard de segurança: ${(element.trigger as { condition?: string } | undefined)?.condition ?? ''}` };
+    case 'deadlines': {
+      const critical = CRITICAL_PRIORITY_CODES.has(element.priority as string) || !!element.task_related;
+      return { level: critical ? 'high' : 'medium', description: `${removed ? 'Deadline removido' : 'Novo deadline'} (${element.time_limit})` };
+    }
+    case 'rewards':
+      return { level: 'low', description: removed ? 'Reward removido do aprendizado' : 'Novo reward no aprendizado' };
+  }
+}
+
+function highestImpact(impacts: ClinicalImpact[]): ClinicalImpactLevel {
+  return IMPACT_ORDER.find((level) => impacts.some((impact) => impact.level === level)) ?? 'low';
+}
+
+// ============================================================================
+// DIFF DE DOCUMENTOS
+// ============================================================================
+
+/**
+ * Diff semântico de `before` para `after`
+ */
+export function diffPIR(before: PIRDocument, after: PIRDocument): PIRDiff {
+  const context: ImpactContext = { beforeBands: bandPriorities(before), afterBands: bandPriorities(after) };
+  const changes: PIRElementChange[] = [];
+
+  for (const component of COMPONENTS) {
+    const idField = ID_FIELDS[component];
+    const index = (document: PIRDocument) =>
+      new Map((document[component] as unknown as Record<string, unknown>[]).map((element) => [element[idField] as string, element]));
+    const beforeById = index(before);
+    const afterById = index(after);
+
+    for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+      const beforeElement = beforeById.get(id);
+      const afterElement = afterById.get(id);
+      const element = (afterElement ?? beforeElement)!;
+      const name = String(element.name ?? id);
+
+      if (!beforeElement || !afterElement) {
+        const change = beforeElement ? 'removed' : 'added';
+        const impacts = [addedOrRemovedImpact(component, change, element)];
+        changes.push({ component, id, name, change, fields: [], impacts, impact: highestImpact(impacts) });
+        continue;
+      }
+
+      const fields: PIRFieldChange[] = [];
+      diffValues(beforeElement, afterElement, '', fields);
+      if (fields.length === 0) continue;
+
+      let impacts: ClinicalImpact[] = [];
+      if (component === 'slots') impacts = slotImpacts(id, fields, context);
+      if (component === 'tasks') impacts = taskImpacts(fields, beforeElement, afterElement);
+      if (component === 'guards') impacts = guardImpacts(fields);
+      if (component === 'deadlines') impacts = deadlineImpacts(fields, afterElement);
+      if (component === 'rewards' && fields.some((field) => field.path === 'weight')) {
+        impacts.push({ level: 'low', path: 'weight', description: 'Peso do reward alterado (sinal de aprendizado)' });
+      }
+
+      changes.push({ component, id, name, change: 'modified', fields, impacts, impact: highestImpact(impacts) });
+    }
+  }
+
+  // Restante do documento (cabeçalho, metadata, evidence, integração, hot reload)
+  const rest = (document: PIRDocument) => {
+    const copy: Record<string, unknown> = { ...document };
+    COMPONENTS.forEach((component) => delete copy[component]);
+    copy.metadata = { ...document.metadata, created_at: undefined }; // Data de compilação não é mudança semântica
+    return copy;
+  };
+  const documentChanges: PIRFieldChange[] = [];
+  diffValues(rest(before), rest(after), '', documentChanges);
+
+  const emptyCounts = () => ({ added: 0, removed: 0, modified: 0 });
+  const summary: PIRDiff['summary'] = {
+    ...emptyCounts(),
+    by_component: { slots: emptyCounts(), tasks: emptyCounts(), guards: emptyCounts(), deadlines: emptyCounts(), rewards: emptyCounts() },
+    by_impact: { high: 0, medium: 0, low: 0 },
+  };
+  for (const change of changes) {
+    summary[change.change]++;
+    summary.by_component[change.component][change.change]++;
+    summary.by_impact[change.impact]++;
+  }
+
+  return {
+    from: { protocol_id: before.protocol_id, version: before.version },
+    to: { protocol_id: after.protocol_id, version: after.version },
+    summary,
+    document_changes: documentChanges,
+    changes,
+  };
+}
+
+// ============================================================================
+// CHANGELOG
+// ============================================================================
+
+const COMPONENT_TITLES: Record<PIRDiffComponent, string> = {
+  slots: 'Slots',
+  tasks: 'Tasks',
+  guards: 'Guards',
+  deadlines: 'Deadlines',
+  rewards: 'Rewards',
+};
+
+const CHANGE_LABELS: Record<PIRChangeType, string> = {
+  added: 'Adicionado',
+  removed: 'Removido',
+  modified: 'Modificado',
+};
+
+const IMPACT_LABELS: Record<ClinicalImpactLevel, string> = {
+  high: 'ALTO',
+  medium: 'MÉDIO',
+  low: 'BAIXO',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `\`${text.replace(/\|/g, '\\|').replace(/`/g, "'")}\``;
+}
+
+function formatFieldRow(field: PIRFieldChange): string {
+  let after = formatValue(field.after);
+  if (field.added_items?.length || field.removed_items?.length) {
+    const parts = [
+      ...(field.added_items || []).map((item) => `+${formatValue(item)}`),
+      ...(field.removed_items || []).map((item) => `−${formatValue(item)}`),
+    ];
+    after = parts.join(' ');
+  }
+  return `| ${field.path || '(elemento)'} | ${formatValue(field.before)} | ${after} |`;
+}
+
+/**
+ * Changelog Markdown para aprovação da diretoria clínica
+ */
+export function renderPIRChangelog(diff: PIRDiff): string {
+  const { summary } = diff;
+  const lines: string[] = [
+    `# Changelog PIR: ${diff.from.protocol_id} v${diff.from.version} → ${diff.to.protocol_id} v${diff.to.version}`,
+    '',
+    `**Resumo:** ${summary.added} adicionado(s), ${summary.removed} removido(s), ${summary.modified} modificado(s). ` +
+      `Impacto clínico: ${summary.by_impact.high} alto, ${summary.by_impact.medium} médio, ${summary.by_impact.low} baixo.`,
+    '',
+  ];
+
+  const highImpact = diff.changes.filter((change) => change.impact === 'high');
+  if (highImpact.length > 0) {
+    lines.push('## Mudanças de impacto clínico alto', '');
+    for (const change of highImpact) {
+      for (const impact of change.impacts.filter((item) => item.level === 'high')) {
+        lines.push(`- **${change.component}/${change.id}**: ${impact.description}`);
+      }
+    }
+    lines.push('');
+  }
+
+  for (const component of COMPONENTS) {
+    const componentChanges = diff.changes.filter((change) => change.component === component);
+    if (componentChanges.length === 0) continue;
+
+    lines.push(`## ${COMPONENT_TITLES[component]}`, '');
+    for (const change of componentChanges) {
+      lines.push(`### ${CHANGE_LABELS[change.change]}: \`${change.id}\` (${change.name}) · impacto ${IMPACT_LABELS[change.impact]}`, '');
+      change.impacts.forEach((impact) => lines.push(`- ${IMPACT_LABELS[impact.level]}: ${impact.description}`));
+      if (change.impacts.length > 0) lines.push('');
+
+      if (change.fields.length > 0) {
+        lines.push('| Campo | Antes | Depois |', '|-------|-------|--------|');
+        change.fields.forEach((field) => lines.push(formatFieldRow(field)));
+        lines.push('');
+      }
+    }
+  }
+
+  if (diff.document_changes.length > 0) {
+    lines.push('## Documento (cabeçalho, evidence, integração)', '', '| Campo | Antes | Depois |', '|-------|-------|--------|');
+    diff.document_changes.forEach((field) => lines.push(formatFieldRow(field)));
+    lines.push('');
+  }
+
+  if (diff.changes.length === 0 && diff.document_changes.length === 0) {
+    lines.push('Nenhuma mudança semântica entre as versões.', '');
+  }
+
+  lines.push(
+    '## Aprovação',
+    '',
+    '| Papel | Nome | Data | Assinatura |',
+    '|-------|------|------|------------|',
+    '| Diretor(a) clínico(a) | | | |',
+    '| Responsável técnico | | | |',
+    ''
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,102 @@
+/**
+ * PIR Schema - AST da linguagem de condições PIR
+ *
+ * Uma única linguagem para guards (trigger.condition), tasks (condition, rules.if),
+ * deadlines (relaxation_conditions) e slots (condition):
+ *
+ *   qSOFA_score >= 2 OR (temperature > 38.5 AND heart_rate > 100)
+ *   neurological_deficit.onset_time < 4.5h
+ *   medications_in_use CONTAINS ['varfarina', 'rivaroxabana']
+ */
+
+export interface ExpressionSpan {
+  start: number; // Offset no texto da expressão (inclusive)
+  end: number; // Offset no texto da expressão (exclusive)
+}
+
+export type LogicalOperator = 'AND' | 'OR';
+
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'IN' | 'NOT IN' | 'CONTAINS';
+
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export type BinaryOperator = LogicalOperator | ComparisonOperator | ArithmeticOperator;
+
+export type UnaryOperator = 'NOT' | '-';
+
+export interface LiteralNode {
+  kind: 'literal';
+  value: string | number | boolean | null;
+  span: ExpressionSpan;
+}
+
+/**
+ * Literal de duração: "4.5h", "10m", "30s", "1d", "3_months"
+ * Avaliado em milissegundos
+ */
+export interface DurationNode {
+  kind: 'duration';
+  ms: number;
+  text: string;
+  span: ExpressionSpan;
+}
+
+export interface ListNode {
+  kind: 'list';
+  items: ExpressionNode[];
+  span: ExpressionSpan;
+}
+
+/**
+ * Referência a slot/output: "heart_rate", "blood_pressure.systolic"
+ */
+export interface PathNode {
+  kind: 'path';
+  segments: string[];
+  span: ExpressionSpan;
+}
+
+export interface UnaryNode {
+  kind: 'unary';
+  operator: UnaryOperator;
+  operand: ExpressionNode;
+  span: ExpressionSpan;
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+  span: ExpressionSpan;
+}
+
+export type ExpressionNode = LiteralNode | DurationNode | ListNode | PathNode | UnaryNode | BinaryNode;
+
+/**
+ * Nomes referenciados por uma expressão (caminhos completos, ex: "blood_pressure.systolic")
+ */
+export function collectPaths(node: ExpressionNode): string[] {
+  const paths = new Set<string>();
+
+  const visit = (current: ExpressionNode): void => {
+    switch (current.kind) {
+      case 'path':
+        paths.add(current.segments.join('.'));
+        break;
+      case 'list':
+        current.items.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+    }
+  };
+
+  visit(node);
+  return Array.from(paths);
+}
@@ -0,0 +1,217 @@
+/**
+ * PIR Schema - Verificação estática da linguagem de condições PIR
+ *
+ * Checa uma expressão contra os nomes conhecidos (slots e outputs de tasks do PIR):
+ * - nomes inexistentes (erro de digitação, slot removido)
+ * - campos inexistentes em slots object (blood_pressure.sistolic)
+ * - tipos incompatíveis (temperatura comparada com string, CONTAINS em número)
+ */
+
+import type { PIRDocument, PIRSlotDataType } from '../types/pir';
+import type { ExpressionNode, ExpressionSpan } from './ast';
+
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'duration' | 'list' | 'object' | 'null' | 'unknown';
+
+/**
+ * Nomes conhecidos e seus tipos ("blood_pressure.systolic" → "number")
+ */
+export type ExpressionScope = Map<string, ExpressionType>;
+
+export type ExpressionDiagnosticCode = 'unknown-name' | 'unknown-field' | 'type-mismatch';
+
+export interface ExpressionDiagnostic {
+  severity: 'error' | 'warning';
+  code: ExpressionDiagnosticCode;
+  message: string;
+  span: ExpressionSpan;
+}
+
+const SLOT_DATA_TYPES: Record<PIRSlotDataType, ExpressionType> = {
+  string: 'string',
+  integer: 'number',
+  float: 'number',
+  boolean: 'boolean',
+  enum: 'string',
+  object: 'object',
+  array: 'list',
+  duration: 'duration',
+};
+
+/**
+ * Escopo a partir do PIR: slots (com campos de slots object) e outputs de tasks
+ * `extra` permite declarar nomes de contexto do worker (ex: queue_size, capacity)
+ */
+export function buildExpressionScope(
+  document: PIRDocument,
+  extra: Record<string, ExpressionType> = {}
+): ExpressionScope {
+  const scope: ExpressionScope = new Map();
+
+  for (const slot of document.slots) {
+    scope.set(slot.slot_id, SLOT_DATA_TYPES[slot.data_type]);
+    for (const [field, fieldType] of Object.entries(slot.structure || {})) {
+      scope.set(`${slot.slot_id}.${field}`, SLOT_DATA_TYPES[fieldType]);
+    }
+  }
+
+  for (const task of document.tasks) {
+    for (const output of task.outputs) {
+      if (!scope.has(output)) scope.set(output, 'unknown');
+    }
+  }
+
+  for (const [name, type] of Object.entries(extra)) {
+    scope.set(name, type);
+  }
+
+  return scope;
+}
+
+function isNumeric(type: ExpressionType): boolean {
+  return type === 'number' || type === 'duration' || type === 'unknown' || type === 'null';
+}
+
+function describeType(type: ExpressionType): string {
+  return type === 'list' ? 'list' : type;
+}
+
+class Checker {
+  readonly diagnostics: ExpressionDiagnostic[] = [];
+
+  constructor(private scope: ExpressionScope) {}
+
+  private report(
+    severity: ExpressionDiagnostic['severity'],
+    message: string,
+    span: ExpressionSpan,
+    code: ExpressionDiagnosticCode = 'type-mismatch'
+  ): void {
+    this.diagnostics.push({ severity, code, message, span });
+  }
+
+  check(node: ExpressionNode): ExpressionType {
+    switch (node.kind) {
+      case 'literal':
+        if (node.value === null) return 'null';
+        return typeof node.value === 'number' ? 'number' : typeof node.value === 'string' ? 'string' : 'boolean';
+
+      case 'duration':
+        return 'duration';
+
+      case 'list':
+        node.items.forEach((item) => this.check(item));
+        return 'list';
+
+      case 'path':
+        return this.checkPath(node.segments, node.span);
+
+      case 'unary': {
+        const operand = this.check(node.operand);
+        if (node.operator === '-') {
+          if (!isNumeric(operand)) {
+            this.report('error', `unary "-" applied to ${describeType(operand)}`, node.span);
+          }
+          return operand === 'duration' ? 'duration' : 'number';
+        }
+        return 'boolean';
+      }
+
+      case 'binary':
+        return this.checkBinary(node);
+    }
+  }
+
+  private checkPath(segments: string[], span: ExpressionSpan): ExpressionType {
+    const fullName = segments.join('.');
+    const known = this.scope.get(fullName);
+    if (known) return known;
+
+    const root = segments[0];
+    const rootType = this.scope.get(root);
+
+    if (!rootType) {
+      this.report('error', `unknown name "${root}"`, span, 'unknown-name');
+      return 'unknown';
+    }
+
+    if (segments.length > 1) {
+      // Slot object com estrutura declarada: campo precisa existir
+      const declaredFields = Array.from(this.scope.keys()).filter((name) => name.startsWith(`${root}.`));
+      if (declaredFields.length > 0) {
+        this.report('error', `unknown field "${fullName}" (declared: ${declaredFields.join(', ')})`, span, 'unknown-field');
+      } else if (rootType !== 'object' && rootType !== 'unknown') {
+        this.report('error', `"${root}" is ${describeType(rootType)}, cannot access field "${segments.slice(1).join('.')}"`, span, 'unknown-field');
+      }
+    }
+
+    return 'unknown';
+  }
+
+  private checkBinary(node: Extract<ExpressionNode, { kind: 'binary' }>): ExpressionType {
+    const left = this.check(node.left);
+    const right = this.check(node.right);
+
+    switch (node.operator) {
+      case 'AND':
+      case 'OR':
+        return 'boolean';
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        if (!isNumeric(left) || !isNumeric(right)) {
+          this.report('error', `"${node.operator}" compares ${describeType(left)} with ${describeType(right)}`, node.span);
+        } else if ((left === 'duration' && right === 'number') || (left === 'number' && right === 'duration')) {
+          this.report('warning', `"${node.operator}" compares duration with plain number (interpreted as milliseconds)`, node.span);
+        }
+        return 'boolean';
+
+      case '==':
+      case '!=':
+        if (
+          left !== right &&
+          !['unknown', 'null'].includes(left) &&
+          !['unknown', 'null'].includes(right) &&
+          !(isNumeric(left) && isNumeric(right))
+        ) {
+          this.report('warning', `"${node.operator}" compares ${describeType(left)} with ${describeType(right)}`, node.span);
+        }
+        return 'boolean';
+
+      case 'IN':
+      case 'NOT IN':
+        if (!['list', 'string', 'unknown'].includes(right)) {
+          this.report('error', `"${node.operator}" expects a list or string on the right, got ${describeType(right)}`, node.span);
+        }
+        return 'boolean';
+
+      case 'CONTAINS':
+        if (!['list', 'string', 'unknown'].includes(left)) {
+          this.report('error', `"CONTAINS" expects a list or string on the left, got ${describeType(left)}`, node.span);
+        }
+        return 'boolean';
+
+      case '+':
+      case '-':
+      case '*':
+      case '/':
+        if (!isNumeric(left) || !isNumeric(right)) {
+          this.report('error', `"${node.operator}" applied to ${describeType(left)} and ${describeType(right)}`, node.span);
+        }
+        return left === 'duration' || right === 'duration' ? 'duration' : 'number';
+    }
+  }
+}
+
+/**
+ * Checa uma expressão contra o escopo; retorna tipo inferido e diagnósticos
+ */
+export function checkExpression(
+  node: ExpressionNode,
+  scope: ExpressionScope
+): { type: ExpressionType; diagnostics: ExpressionDiagnostic[] } {
+  const checker = new Checker(scope);
+  const type = checker.check(node);
+  return { type, diagnostics: checker.diagnostics };
+}
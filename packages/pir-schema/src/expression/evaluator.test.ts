@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { compileCondition, evaluateCondition, evaluateConditionTristate, evaluateExpression, toTruthValue } from './evaluator';
+import { ExpressionSyntaxError, parseExpression } from './parser';
+
+const tristate = evaluateConditionTristate;
+
+describe('three-valued logic', () => {
+  it('treats missing or null paths as unknown', () => {
+    expect(tristate('temperature > 38.5', {})).toBeNull();
+    expect(tristate('temperature > 38.5', { temperature: null })).toBeNull();
+    expect(tristate('NOT temperature', {})).toBeNull();
+  });
+
+  it('follows Kleene AND/OR', () => {
+    expect(tristate('a AND b', { a: false })).toBe(false);
+    expect(tristate('a AND b', { a: true })).toBeNull();
+    expect(tristate('a OR b', { b: true })).toBe(true);
+    expect(tristate('a OR b', { a: false })).toBeNull();
+    expect(tristate('a OR b', { a: false, b: false })).toBe(false);
+  });
+
+  it('tests presence with == null and != null', () => {
+    expect(tristate('pain_score == null', {})).toBe(true);
+    expect(tristate('pain_score != null', { pain_score: 0 })).toBe(true);
+  });
+
+  it('collapses unknown to false in evaluateCondition', () => {
+    expect(evaluateCondition('temperature > 38.5', {})).toBe(false);
+    expect(evaluateCondition('qSOFA_score >= 2 OR (temperature > 38.5 AND heart_rate > 100)', { temperature: 39, heart_rate: 120 })).toBe(true);
+  });
+});
+
+describe('values and coercions', () => {
+  it('compares numeric strings as numbers', () => {
+    expect(tristate('temperature > 38.5', { temperature: '39.1' })).toBe(true);
+    expect(tristate('pain_score == 8', { pain_score: '8' })).toBe(true);
+  });
+
+  it('resolves dotted paths, flat keys first', () => {
+    expect(tristate('blood_pressure.systolic < 90', { blood_pressure: { systolic: 85 } })).toBe(true);
+    expect(tristate('blood_pressure.systolic < 90', { 'blood_pressure.systolic': 120, blood_pressure: { systolic: 85 } })).toBe(false);
+  });
+
+  it('compares durations in milliseconds', () => {
+    const data = (onset: unknown) => ({ selected_flowchart: 'avc', neurological_deficit: { onset_time: onset } });
+    const condition = "selected_flowchart == 'avc' AND neurological_deficit.onset_time < 4.5h";
+    expect(tristate(condition, data('2h'))).toBe(true);
+    expect(tristate(condition, data('300_minutes'))).toBe(false);
+    expect(tristate(condition, data(60 * 60 * 1000))).toBe(true);
+    expect(tristate(condition, data('ontem'))).toBeNull();
+  });
+
+  it('matches IN, NOT IN and CONTAINS without case', () => {
+    expect(tristate("final_priority_color IN ['vermelho', 'laranja']", { final_priority_color: 'Laranja' })).toBe(true);
+    expect(tristate("final_priority_color NOT IN ['vermelho', 'laranja']", { final_priority_color: 'verde' })).toBe(true);
+    expect(tristate("chief_complaint CONTAINS 'peito'", { chief_complaint: 'Dor no PEITO' })).toBe(true);
+    expect(tristate("allergies CONTAINS 'dipirona'", { allergies: ['Dipirona', 'látex'] })).toBe(true);
+    expect(tristate("chief_complaint CONTAINS 'peito'", {})).toBeNull();
+  });
+
+  it('evaluates arithmetic, with division by zero as unknown', () => {
+    expect(evaluateExpression(parseExpression('weight / (height * height)'), { weight: 80, height: 2 })).toBe(20);
+    expect(evaluateExpression(parseExpression('weight / height'), { weight: 80, height: 0 })).toBeNull();
+    expect(evaluateExpression(parseExpression('-age'), { age: 3 })).toBe(-3);
+  });
+});
+
+describe('toTruthValue', () => {
+  it('maps values onto true, false or unknown', () => {
+    expect([0, 1, '', 'x', [], [1], {}, null].map((value) => toTruthValue(value))).toEqual([false, true, false, true, false, true, true, null]);
+  });
+});
+
+describe('parsing', () => {
+  it('caches compiled conditions', () => {
+    expect(compileCondition('age < 12')).toBe(compileCondition('age < 12'));
+  });
+
+  it('reports syntax errors with the position', () => {
+    expect(() => parseExpression('age < ')).toThrow(ExpressionSyntaxError);
+    expect(() => parseExpression("pregnancy_status == 'pregnant")).toThrow(/at position \d+/);
+  });
+
+  it('reads keywords without case', () => {
+    expect(tristate('a and not b', { a: true, b: false })).toBe(true);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * PIR Schema - Avaliador da linguagem de condições PIR
+ *
+ * Determinístico e sem efeitos colaterais. Semântica de null (lógica de três valores):
+ * - caminho ausente (ou null) → null ("desconhecido")
+ * - comparação/aritmética com operando null → null
+ * - "x == null" / "x != null" testam presença
+ * - AND/OR seguem Kleene: false AND null = false, true OR null = true, senão null
+ * - NOT null = null
+ *
+ * Coerções:
+ * - strings numéricas ("38.5") são comparadas como números
+ * - contra literal de duração, strings no formato PIR ("2h", "30m") viram milissegundos;
+ *   números são interpretados como milissegundos
+ * - IN/CONTAINS comparam strings sem diferenciar maiúsculas
+ */
+
+import type { ExpressionNode } from './ast';
+import { parseExpression } from './parser';
+
+export type ExpressionValue = string | number | boolean | null | ExpressionValue[] | { [key: string]: unknown };
+
+export type ExpressionData = Record<string, unknown>;
+
+const RUNTIME_DURATION_PATTERN = /^(\d+(?:\.\d+)?)\s*(s|m|h|d|min|_seconds|_minutes|_hours|_days|_weeks|_months|_years)$/;
+
+const RUNTIME_DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  _seconds: 1000,
+  _minutes: 60 * 1000,
+  _hours: 60 * 60 * 1000,
+  _days: 24 * 60 * 60 * 1000,
+  _weeks: 7 * 24 * 60 * 60 * 1000,
+  _months: 30 * 24 * 60 * 60 * 1000,
+  _years: 365 * 24 * 60 * 60 * 1000,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolve caminho pontuado ("blood_pressure.systolic") nos dados
+ * Tenta primeiro a chave completa (dados já achatados), depois navega
+ */
+function resolvePath(segments: string[], data: ExpressionData): ExpressionValue {
+  const flatKey = segments.join('.');
+  if (segments.length > 1 && data[flatKey] !== undefined) {
+    return normalize(data[flatKey]);
+  }
+
+  let current: unknown = data;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== 'object') return null;
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return normalize(current);
+}
+
+function normalize(value: unknown): ExpressionValue {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  return value as ExpressionValue;
+}
+
+function toNumber(value: ExpressionValue): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+function toDurationMs(value: ExpressionValue): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const match = value.trim().match(RUNTIME_DURATION_PATTERN);
+    if (match) return parseFloat(match[1]) * RUNTIME_DURATION_UNITS_MS[match[2]];
+  }
+  return null;
+}
+
+/**
+ * Valor de verdade (três valores) de um valor qualquer
+ */
+export function toTruthValue(value: ExpressionValue): boolean | null {
+  if (value === null) return null;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function looseEquals(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (typeof left === 'number' || typeof right === 'number') {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    return a !== null && b !== null && a === b;
+  }
+  return left === right;
+}
+
+function memberEquals(left: ExpressionValue, right: ExpressionValue): boolean {
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.toLowerCase() === right.toLowerCase();
+  }
+  return looseEquals(left, right);
+}
+
+/**
+ * "needle IN haystack": lista → algum elemento igual; string → substring
+ */
+function isMember(needle: ExpressionValue, haystack: ExpressionValue): boolean | null {
+  if (needle === null || haystack === null) return null;
+
+  // Lista à esquerda: algum elemento pertence
+  if (Array.isArray(needle)) {
+    return needle.some((item) => isMember(item, haystack) === true);
+  }
+
+  if (Array.isArray(haystack)) {
+    return haystack.some((item) => memberEquals(needle, item));
+  }
+
+  if (typeof haystack === 'string' && typeof needle === 'string') {
+    return haystack.toLowerCase().includes(needle.toLowerCase());
+  }
+
+  return null;
+}
+
+// ============================================================================
+// AVALIAÇÃO
+// ============================================================================
+
+function evaluateNode(node: ExpressionNode, data: ExpressionData): ExpressionValue {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'duration':
+      return node.ms;
+
+    case 'list':
+      return node.items.map((item) => evaluateNode(item, data));
+
+    case 'path':
+      return resolvePath(node.segments, data);
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, data);
+      if (node.operator === 'NOT') {
+        const truth = toTruthValue(operand);
+        return truth === null ? null : !truth;
+      }
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+
+    case 'binary':
+      return evaluateBinary(node, data);
+  }
+}
+
+function evaluateBinary(node: Extract<ExpressionNode, { kind: 'binary' }>, data: ExpressionData): ExpressionValue {
+  const { operator } = node;
+
+  // Lógica de três valores (Kleene), com curto-circuito
+  if (operator === 'AND' || operator === 'OR') {
+    const left = toTruthValue(evaluateNode(node.left, data));
+    if (operator === 'AND' && left === false) return false;
+    if (operator === 'OR' && left === true) return true;
+
+    const right = toTruthValue(evaluateNode(node.right, data));
+    if (operator === 'AND') {
+      if (right === false) return false;
+      return left === true && right === true ? true : null;
+    }
+    if (right === true) return true;
+    return left === false && right === false ? false : null;
+  }
+
+  let left = evaluateNode(node.left, data);
+  let right = evaluateNode(node.right, data);
+
+  // Testes de presença explícitos
+  if (operator === '==' || operator === '!=') {
+    const leftIsNullLiteral = node.left.kind === 'literal' && node.left.value === null;
+    const rightIsNullLiteral = node.right.kind === 'literal' && node.right.value === null;
+    if (leftIsNullLiteral || rightIsNullLiteral) {
+      const isNull = (leftIsNullLiteral ? right : left) === null;
+      return operator === '==' ? isNull : !isNull;
+    }
+  }
+
+  if (operator === 'IN') return isMember(left, right);
+  if (operator === 'NOT IN') {
+    const member = isMember(left, right);
+    return member === null ? null : !member;
+  }
+  if (operator === 'CONTAINS') return isMember(right, left);
+
+  if (left === null || right === null) return null;
+
+  // Comparação contra literal de duração
+  if (node.left.kind === 'duration' || node.right.kind === 'duration') {
+    left = toDurationMs(left);
+    right = toDurationMs(right);
+    if (left === null || right === null) return null;
+  }
+
+  switch (operator) {
+    case '==':
+      return looseEquals(left, right);
+    case '!=':
+      return !looseEquals(left, right);
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? null : a / b;
+  }
+}
+
+/**
+ * Avalia uma expressão (AST) contra os dados (slots, outputs de tasks, contexto)
+ */
+export function evaluateExpression(node: ExpressionNode, data: ExpressionData): ExpressionValue {
+  return evaluateNode(node, data);
+}
+
+// Cache de ASTs por texto da condição (condições do PIR são poucas e estáveis)
+const compiledConditions = new Map<string, ExpressionNode>();
+
+/**
+ * Parse com cache
+ */
+export function compileCondition(source: string): ExpressionNode {
+  let node = compiledConditions.get(source);
+  if (!node) {
+    node = parseExpression(source);
+    compiledConditions.set(source, node);
+  }
+  return node;
+}
+
+/**
+ * Avalia condição em três valores: true, false ou null (dados insuficientes)
+ */
+export function evaluateConditionTristate(condition: string | ExpressionNode, data: ExpressionData): boolean | null {
+  const node = typeof condition === 'string' ? compileCondition(condition) : condition;
+  return toTruthValue(evaluateNode(node, data));
+}
+
+/**
+ * Avalia condição como booleano: desconhecido (null) conta como false
+ */
+export function evaluateCondition(condition: string | ExpressionNode, data: ExpressionData): boolean {
+  return evaluateConditionTristate(condition, data) === true;
+}
@@ -0,0 +1,404 @@
+/**
+ * PIR Schema - Parser da linguagem de condições PIR
+ *
+ * Gramática (da menor para a maior precedência):
+ *
+ *   or         := and ("OR" and)*
+ *   and        := not ("AND" not)*
+ *   not        := "NOT" not | comparison
+ *   comparison := additive (("==" | "!=" | "<" | "<=" | ">" | ">=" | "IN" | "NOT IN" | "CONTAINS") additive)?
+ *   additive   := multiplicative (("+" | "-") multiplicative)*
+ *   multiplicative := unary (("*" | "/") unary)*
+ *   unary      := "-" unary | primary
+ *   primary    := number | duration | string | true | false | null | path | list | "(" or ")"
+ *
+ * Palavras-chave (AND, OR, NOT, IN, CONTAINS, true, false, null) não diferenciam maiúsculas.
+ */
+
+import type { BinaryOperator, ExpressionNode, ExpressionSpan } from './ast';
+
+/**
+ * Erro lançado por parseExpression() com a posição do problema no texto
+ */
+export class ExpressionSyntaxError extends Error {
+  readonly source: string;
+  readonly position: number;
+
+  constructor(message: string, source: string, position: number) {
+    super(`${message} at position ${position} in "${source}"`);
+    this.name = 'ExpressionSyntaxError';
+    this.source = source;
+    this.position = position;
+  }
+}
+
+// ============================================================================
+// LEXER
+// ============================================================================
+
+type TokenType = 'number' | 'duration' | 'string' | 'identifier' | 'keyword' | 'operator' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: string | number;
+  start: number;
+  end: number;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'IN', 'CONTAINS', 'TRUE', 'FALSE', 'NULL']);
+
+/**
+ * Unidades de duração em milissegundos
+ */
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  _seconds: 1000,
+  _minutes: 60 * 1000,
+  _hours: 60 * 60 * 1000,
+  _days: 24 * 60 * 60 * 1000,
+  _weeks: 7 * 24 * 60 * 60 * 1000,
+  _months: 30 * 24 * 60 * 60 * 1000,
+  _years: 365 * 24 * 60 * 60 * 1000,
+};
+
+const NUMBER_PATTERN = /^\d+(\.\d+)?/;
+const DURATION_SUFFIX_PATTERN = /^(_seconds|_minutes|_hours|_days|_weeks|_months|_years|s|m|h|d)(?![A-Za-z0-9_])/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    const rest = source.slice(pos);
+
+    // Número ou duração ("38.5", "4.5h", "3_months")
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      const numberText = numberMatch[0];
+      const suffixMatch = rest.slice(numberText.length).match(DURATION_SUFFIX_PATTERN);
+
+      if (suffixMatch) {
+        const text = numberText + suffixMatch[0];
+        tokens.push({
+          type: 'duration',
+          text,
+          value: parseFloat(numberText) * DURATION_UNITS_MS[suffixMatch[0]],
+          start: pos,
+          end: pos + text.length,
+        });
+        pos += text.length;
+        continue;
+      }
+
+      if (/^[A-Za-z_]/.test(rest.slice(numberText.length))) {
+        throw new ExpressionSyntaxError(`Invalid number or duration "${rest.match(/^[A-Za-z0-9_.]+/)![0]}"`, source, pos);
+      }
+
+      tokens.push({ type: 'number', text: numberText, value: parseFloat(numberText), start: pos, end: pos + numberText.length });
+      pos += numberText.length;
+      continue;
+    }
+
+    // String ('...' ou "...")
+    if (char === "'" || char === '"') {
+      const close = source.indexOf(char, pos + 1);
+      if (close === -1) {
+        throw new ExpressionSyntaxError('Unterminated string literal', source, pos);
+      }
+      tokens.push({ type: 'string', text: source.slice(pos, close + 1), value: source.slice(pos + 1, close), start: pos, end: close + 1 });
+      pos = close + 1;
+      continue;
+    }
+
+    // Identificador ou palavra-chave
+    const identifierMatch = rest.match(IDENTIFIER_PATTERN);
+    if (identifierMatch) {
+      const text = identifierMatch[0];
+      const upper = text.toUpperCase();
+      tokens.push({
+        type: KEYWORDS.has(upper) ? 'keyword' : 'identifier',
+        text,
+        value: KEYWORDS.has(upper) ? upper : text,
+        start: pos,
+        end: pos + text.length,
+      });
+      pos += text.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    if ('()[],.'.includes(char)) {
+      tokens.push({ type: 'punct', text: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new ExpressionSyntaxError('Unexpected "=" (use "==" for comparison)', source, pos);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, source, pos);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER (descida recursiva)
+// ============================================================================
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionSyntaxError('Empty expression', this.source, 0);
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected token "${next.text}"`, this.source, next.start);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'keyword' && token.value === keyword;
+  }
+
+  private isPunct(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.text === text;
+  }
+
+  private expectPunct(text: string): Token {
+    const token = this.peek();
+    if (token.type !== 'punct' || token.text !== text) {
+      throw new ExpressionSyntaxError(`Expected "${text}" but found "${token.text || 'end of expression'}"`, this.source, token.start);
+    }
+    return this.advance();
+  }
+
+  private binary(operator: BinaryOperator, left: ExpressionNode, right: ExpressionNode): ExpressionNode {
+    return { kind: 'binary', operator, left, right, span: { start: left.span.start, end: right.span.end } };
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      this.advance();
+      node = this.binary('OR', node, this.parseAnd());
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseNot();
+    while (this.isKeyword('AND')) {
+      this.advance();
+      node = this.binary('AND', node, this.parseNot());
+    }
+    return node;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword('NOT')) {
+      const token = this.advance();
+      const operand = this.parseNot();
+      return { kind: 'unary', operator: 'NOT', operand, span: { start: token.start, end: operand.span.end } };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    let operator: BinaryOperator | undefined;
+    if (token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.text)) {
+      operator = token.text as BinaryOperator;
+      this.advance();
+    } else if (this.isKeyword('IN')) {
+      operator = 'IN';
+      this.advance();
+    } else if (this.isKeyword('CONTAINS')) {
+      operator = 'CONTAINS';
+      this.advance();
+    } else if (this.isKeyword('NOT') && this.isKeyword('IN', 1)) {
+      operator = 'NOT IN';
+      this.advance();
+      this.advance();
+    }
+
+    if (!operator) return left;
+
+    const node = this.binary(operator, left, this.parseAdditive());
+
+    // Comparações não são associativas: "a < b < c" é erro
+    const next = this.peek();
+    if (next.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(next.text)) {
+      throw new ExpressionSyntaxError(`Chained comparison "${next.text}" (use AND)`, this.source, next.start);
+    }
+
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const operator = this.advance().text as BinaryOperator;
+      node = this.binary(operator, node, this.parseMultiplicative());
+    }
+    return node;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.peek().type === 'operator' && (this.peek().text === '*' || this.peek().text === '/')) {
+      const operator = this.advance().text as BinaryOperator;
+      node = this.binary(operator, node, this.parseUnary());
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && token.text === '-') {
+      this.advance();
+      const operand = this.parseUnary();
+      return { kind: 'unary', operator: '-', operand, span: { start: token.start, end: operand.span.end } };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    const span: ExpressionSpan = { start: token.start, end: token.end };
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { kind: 'literal', value: token.value as number, span };
+
+      case 'duration':
+        this.advance();
+        return { kind: 'duration', ms: token.value as number, text: token.text, span };
+
+      case 'string':
+        this.advance();
+        return { kind: 'literal', value: token.value as string, span };
+
+      case 'keyword':
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          this.advance();
+          return { kind: 'literal', value: token.value === 'TRUE', span };
+        }
+        if (token.value === 'NULL') {
+          this.advance();
+          return { kind: 'literal', value: null, span };
+        }
+        break;
+
+      case 'identifier':
+        return this.parsePath();
+
+      case 'punct':
+        if (token.text === '(') {
+          this.advance();
+          const inner = this.parseOr();
+          const close = this.expectPunct(')');
+          return { ...inner, span: { start: token.start, end: close.end } };
+        }
+        if (token.text === '[') {
+          return this.parseList();
+        }
+        break;
+    }
+
+    throw new ExpressionSyntaxError(
+      token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected token "${token.text}"`,
+      this.source,
+      token.start
+    );
+  }
+
+  private parsePath(): ExpressionNode {
+    const first = this.advance();
+    const segments = [first.text];
+    let end = first.end;
+
+    while (this.isPunct('.')) {
+      this.advance();
+      const segment = this.peek();
+      if (segment.type !== 'identifier' && segment.type !== 'keyword') {
+        throw new ExpressionSyntaxError('Expected field name after "."', this.source, segment.start);
+      }
+      this.advance();
+      segments.push(segment.text);
+      end = segment.end;
+    }
+
+    return { kind: 'path', segments, span: { start: first.start, end } };
+  }
+
+  private parseList(): ExpressionNode {
+    const open = this.expectPunct('[');
+    const items: ExpressionNode[] = [];
+
+    if (!this.isPunct(']')) {
+      items.push(this.parseOr());
+      while (this.isPunct(',')) {
+        this.advance();
+        items.push(this.parseOr());
+      }
+    }
+
+    const close = this.expectPunct(']');
+    return { kind: 'list', items, span: { start: open.start, end: close.end } };
+  }
+}
+
+/**
+ * Faz o parse de uma expressão PIR para AST
+ * Lança ExpressionSyntaxError com a posição do erro
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parse();
+}
@@ -0,0 +1,216 @@
+/**
+ * @voither/pir-schema
+ *
+ * Tipos compartilhados do documento PIR + validador de runtime.
+ * Consumido por todos os workers (pir-slots, pir-tasks, pir-guards,
+ * pir-deadlines, pir-rewards, pir-evidence).
+ */
+
+export type {
+  PIRSlotType,
+  PIRSlotDataType,
+  PIRTaskType,
+  PIRGuardType,
+  PIRGuardActionType,
+  PIRGuardPriority,
+  PIRPriorityCode,
+  PIRHttpMethod,
+  PIRDuration,
+  PIRSlotExtraction,
+  PIRNumericRange,
+  PIRSlotValidation,
+  PIRSlotComputation,
+  PIRPediatricAgeBand,
+  PIRSlot,
+  PIRTaskExecution,
+  PIRRule,
+  PIRPriorityCategory,
+  PIRTask,
+  PIRGuardAction,
+  PIRGuard,
+  PIRDeadlineComponent,
+  PIRDeadline,
+  PIRReward,
+  PIRAuditTrail,
+  PIRLearningConfiguration,
+  PIRQualityIndicator,
+  PIREvidence,
+  PIRIntegrationPoint,
+  PIRHotReloadConfiguration,
+  PIRMetadata,
+  PIRDocument,
+} from './types/pir';
+
+export {
+  validatePIR,
+  parsePIR,
+  PIRValidationError,
+  PIR_DURATION_PATTERN,
+  type PIRValidationIssue,
+  type PIRValidationResult,
+} from './validator/pir-validator';
+
+export { MANCHESTER_SP_PROTOCOL_SOURCE, loadManchesterSPProtocol } from './protocols/manchester-sp';
+
+export {
+  bindExecutors,
+  logBindingReport,
+  projectBindingReport,
+  type PIRBindingComponent,
+  type PIRBindingReport,
+  type PIRBindingResult,
+} from './binding/executor-binding';
+
+export {
+  collectPaths,
+  type ExpressionNode,
+  type ExpressionSpan,
+  type BinaryOperator,
+  type ComparisonOperator,
+  type LogicalOperator,
+  type ArithmeticOperator,
+  type UnaryOperator,
+} from './expression/ast';
+
+export { parseExpression, ExpressionSyntaxError } from './expression/parser';
+
+export {
+  buildExpressionScope,
+  checkExpression,
+  type ExpressionType,
+  type ExpressionScope,
+  type ExpressionDiagnostic,
+  type ExpressionDiagnosticCode,
+} from './expression/checker';
+
+export {
+  evaluateExpression,
+  evaluateCondition,
+  evaluateConditionTristate,
+  compileCondition,
+  toTruthValue,
+  type ExpressionValue,
+  type ExpressionData,
+} from './expression/evaluator';
+
+export {
+  VitalSignClassifier,
+  VitalBandRuleError,
+  compileThreshold,
+  thresholdGaps,
+  highestPriority,
+  priorityRank,
+  selectThresholdSet,
+  isPediatricThresholdSet,
+  MANCHESTER_PRIORITY_ORDER,
+  PEDIATRIC_AGE_BANDS,
+  PEDIATRIC_WARNING_SLOT,
+  THRESHOLD_SETS,
+  type ManchesterPriority,
+  type ThresholdSetId,
+  type VitalBandRule,
+  type VitalBandMatch,
+  type VitalSignClassification,
+  type PediatricWarningComponent,
+  type PediatricWarningScore,
+} from './classification/vital-bands';
+
+export {
+  SlotRegistry,
+  type SlotDefinition,
+  type SlotFieldDefinition,
+  type SlotReference,
+} from './slots/slot-registry';
+
+export {
+  compileProtocol,
+  PIRCompileError,
+  type CompileProtocolOptions,
+  type CompileDiagnostic,
+  type CompiledElementProvenance,
+  type CompileStageReport,
+  type PIRCompileReport,
+  type PIRCompileResult,
+} from './compiler/pir-compiler';
+
+export {
+  ScriptedCompilerLLM,
+  AnthropicCompilerLLM,
+  WorkersAICompilerLLM,
+  type CompileStage,
+  type CompilerLLM,
+  type CompilerLLMRequest,
+  type CompilerScript,
+  type ScriptedResponse,
+} from './compiler/llm';
+
+export { splitProtocolSource, type ProtocolPassage, type ProtocolSource } from './compiler/source';
+
+export {
+  lintPIR,
+  PIR_RUNTIME_CONTEXT,
+  type PIRLintRule,
+  type PIRLintSeverity,
+  type PIRLintDiagnostic,
+  type PIRLintOptions,
+  type PIRLintResult,
+  type PIRDataflowGraph,
+} from './lint/pir-linter';
+
+export {
+  diffPIR,
+  renderPIRChangelog,
+  type PIRDiff,
+  type PIRDiffComponent,
+  type PIRChangeType,
+  type PIRFieldChange,
+  type PIRElementChange,
+  type ClinicalImpact,
+  type ClinicalImpactLevel,
+} from './diff/pir-diff';
+
+export {
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  DEFAULT_ROLLBACK_POLICY,
+  type RollbackPolicy,
+  type ProtocolHotReloaderOptions,
+  type ResolvedProtocol,
+  type ProtocolChangeOptions,
+  type ProtocolActivationResult,
+  type ProtocolRollbackResult,
+  type ProtocolSourceCheckResult,
+  type ProtocolReloadFailure,
+} from './reload/hot-reload';
+
+export {
+  MemoryProtocolStore,
+  KVProtocolStore,
+  computePIRHash,
+  toVersionRef,
+  type PIRVersionRef,
+  type ProtocolStore,
+  type ProtocolVersionStatus,
+  type ProtocolVersionSummary,
+  type StoredProtocolVersion,
+  type ActiveProtocolPointer,
+  type SessionProtocolPin,
+  type ProtocolMonitorCheckpoint,
+} from './reload/protocol-store';
+
+export {
+  HttpLegislativeMonitor,
+  StaticLegislativeMonitor,
+  type LegislativeMonitor,
+  type LegislativePublication,
+} from './reload/legislative-monitor';
+
+export {
+  ConsoleProtocolNotifier,
+  WebhookProtocolNotifier,
+  CompositeProtocolNotifier,
+  parseNotificationRecipients,
+  type ProtocolNotifier,
+  type ProtocolNotification,
+  type ProtocolNotificationEvent,
+} from './reload/notifier';
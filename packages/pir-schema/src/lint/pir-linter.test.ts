@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import type { PIRDocument } from '../types/pir';
+import { PIR_RUNTIME_CONTEXT, lintPIR, type PIRLintDiagnostic } from './pir-linter';
+
+const PIR = loadManchesterSPProtocol();
+
+/**
+ * Erros conhecidos do protocolo embarcado (rule + path), pendentes de revisão clínica.
+ * Ver "Baseline do protocolo embarcado" no README: corrigir um item = removê-lo daqui.
+ */
+const BUNDLED_BASELINE: Array<[string, string]> = [
+  ['unknown-reference', 'slots[13].condition'], // diabetes_suspected
+  ['unknown-reference', 'slots[13].condition'], // consciousness_altered
+  ['unknown-reference', 'slots[14].condition'], // trauma_keywords
+  ['unknown-reference', 'slots[15].condition'], // avc_suspected
+  ['unknown-reference', 'slots[18].condition'], // dor_toracica sem aspas
+  ['unknown-reference', 'tasks[3].flowchart_rules.avc[0].if'], // any_deficit_present fora de neurological_deficit
+  ['unknown-reference', 'tasks[7].inputs[1]'], // classification_time
+  ['unknown-reference', 'tasks[8].inputs[1]'], // symptom_onset_time
+  ['unknown-reference', 'tasks[9].inputs[1]'], // qSOFA_score (campo de sepsis_criteria)
+  ['unknown-reference', 'tasks[9].inputs[2]'], // suspected_source
+  ['unknown-reference', 'tasks[10].inputs[2]'], // vital_signs
+  ['unknown-reference', 'tasks[12].inputs[1]'], // current_priority
+  ['guard-missing-slot', 'guards[0].trigger.condition'], // qSOFA_score
+  ['guard-missing-slot', 'guards[1].trigger.condition'], // neurological_deficit_present
+  ['guard-missing-slot', 'guards[8].trigger.condition'], // prescribed_medication
+  ['unreachable-task', 'tasks[3]'],
+  ['unreachable-task', 'tasks[4]'],
+  ['unreachable-task', 'tasks[5]'],
+  ['unreachable-task', 'tasks[6]'],
+  ['unreachable-task', 'tasks[7]'],
+  ['unreachable-task', 'tasks[8]'],
+  ['unreachable-task', 'tasks[9]'],
+  ['unreachable-task', 'tasks[10]'],
+  ['unreachable-task', 'tasks[11]'],
+  ['unreachable-task', 'tasks[12]'],
+];
+
+const key = (diagnostic: PIRLintDiagnostic) => `${diagnostic.rule}|${diagnostic.path}|${diagnostic.message}`;
+const BUNDLED_KEYS = new Set(lintPIR(PIR).diagnostics.map(key));
+
+// Nova versão mutável do PIR de referência
+function revision(change: (document: PIRDocument) => void): PIRDocument {
+  const document = structuredClone(PIR);
+  change(document);
+  return document;
+}
+
+// Diagnósticos que a mudança acrescenta ao baseline do protocolo embarcado
+function added(document: PIRDocument, options?: Parameters<typeof lintPIR>[1]): PIRLintDiagnostic[] {
+  return lintPIR(document, options).diagnostics.filter((diagnostic) => !BUNDLED_KEYS.has(key(diagnostic)));
+}
+
+describe('lintPIR', () => {
+  it('reports exactly the documented baseline errors for the bundled protocol', () => {
+    const result = lintPIR(PIR);
+    const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+
+    expect(errors.map((diagnostic) => [diagnostic.rule, diagnostic.path])).toEqual(BUNDLED_BASELINE);
+    expect(result.valid).toBe(false);
+    expect(result.counts.error).toBe(BUNDLED_BASELINE.length);
+  });
+
+  it('accepts the session inputs the task runtime provides', () => {
+    expect(Object.keys(PIR_RUNTIME_CONTEXT)).toContain('all_collected_slots');
+    expect(lintPIR(PIR).dataflow.producers.all_collected_slots).toEqual(['context']);
+    expect(lintPIR(PIR).diagnostics.some((diagnostic) => diagnostic.message.includes('all_collected_slots'))).toBe(false);
+  });
+
+  it('builds the producer/consumer graph', () => {
+    const { dataflow } = lintPIR(PIR);
+    expect(dataflow.producers.temperature).toEqual(['slot:temperature']);
+    expect(dataflow.producers.selected_flowchart).toEqual(['task:flowchart_selection']);
+    expect(dataflow.producers.queue_size).toEqual(['context']);
+    expect(dataflow.consumers.selected_flowchart).toContain('task:apply_specific_discriminators');
+    expect(dataflow.consumers.oxygen_saturation).toContain('guard:hypoxemia_critical');
+  });
+
+  it('reports expressions that do not parse', () => {
+    const document = revision((draft) => {
+      draft.guards[3].trigger.condition = 'oxygen_saturation <';
+    });
+    expect(added(document)).toEqual([expect.objectContaining({ rule: 'expression-syntax', severity: 'error', path: 'guards[3].trigger.condition' })]);
+  });
+
+  it('reports comparisons between incompatible types', () => {
+    const document = revision((draft) => {
+      draft.guards[3].trigger.condition = 'chief_complaint < 85';
+    });
+    expect(added(document)).toEqual([
+      expect.objectContaining({
+        rule: 'expression-type',
+        path: 'guards[3].trigger.condition',
+        message: '"<" compares string with number in "chief_complaint < 85"',
+      }),
+    ]);
+  });
+
+  it('reports thresholds that do not compile', () => {
+    const document = revision((draft) => {
+      draft.slots.find((slot) => slot.slot_id === 'oxygen_saturation')!.classification_thresholds!.critical = '<< 85';
+    });
+    expect(added(document)).toEqual([expect.objectContaining({ rule: 'invalid-threshold', path: 'slots[5].classification_thresholds.critical' })]);
+  });
+
+  it('reports pediatric bands that leave values unclassified', () => {
+    const document = revision((draft) => {
+      draft.slots.find((slot) => slot.slot_id === 'heart_rate')!.pediatric_thresholds!.infant = { low: '<90', normal: '100-160', high: '>160' };
+    });
+    expect(added(document)).toEqual([
+      expect.objectContaining({
+        rule: 'pediatric-threshold-gap',
+        severity: 'error',
+        path: 'slots[3].pediatric_thresholds.infant',
+        message: 'heart_rate values 90-99 match no infant band',
+      }),
+    ]);
+  });
+
+  it('reports inputs that nothing produces', () => {
+    const document = revision((draft) => {
+      draft.tasks[0].inputs.push('triage_color');
+    });
+    expect(added(document).filter((diagnostic) => diagnostic.rule === 'unknown-reference')).toEqual([
+      {
+        rule: 'unknown-reference',
+        severity: 'error',
+        path: 'tasks[0].inputs[6]',
+        element: 'task:initial_triage_assessment',
+        message: 'input "triage_color" is not produced by any slot, task or runtime context',
+      },
+    ]);
+  });
+
+  it('accepts extra runtime names passed as context', () => {
+    const document = revision((draft) => {
+      draft.tasks[0].inputs.push('triage_color');
+    });
+    expect(added(document, { context: { triage_color: 'string' } })).toEqual([]);
+  });
+
+  it('reports guards over missing slots and unknown associated tasks', () => {
+    const document = revision((draft) => {
+      draft.guards[3].trigger.condition = 'oxygen_saturation < 85 AND lactate > 4';
+      draft.guards[3].associated_task = 'activate_priority_flow_hypoxemia';
+    });
+    expect(added(document).map(({ rule, path }) => [rule, path])).toEqual([
+      ['guard-missing-slot', 'guards[3].trigger.condition'],
+      ['unknown-reference', 'guards[3].associated_task'],
+    ]);
+  });
+
+  it('reports tasks whose dependencies come from unreachable tasks', () => {
+    const document = revision((draft) => {
+      draft.tasks[0].inputs.push('triage_color');
+    });
+    const unreachable = added(document).filter((diagnostic) => diagnostic.rule === 'unreachable-task');
+    expect(unreachable.slice(0, 2)).toEqual([
+      expect.objectContaining({ path: 'tasks[0]', message: 'task can never run: triage_color (never produced)' }),
+      expect.objectContaining({
+        path: 'tasks[1]',
+        message: 'task can never run: initial_discriminators (from unreachable task:initial_triage_assessment)',
+      }),
+    ]);
+    expect(unreachable.map((diagnostic) => diagnostic.path)).not.toContain('tasks[2]'); // Só consome slots
+  });
+
+  it('reports dataflow cycles between tasks', () => {
+    const document = revision((draft) => {
+      draft.tasks[0].inputs.push('selected_flowchart'); // flowchart_selection consome initial_discriminators
+    });
+    expect(added(document)).toContainEqual(
+      expect.objectContaining({
+        rule: 'dataflow-cycle',
+        path: 'tasks[0]',
+        message: 'dataflow cycle: task:initial_triage_assessment → task:flowchart_selection → task:initial_triage_assessment',
+      })
+    );
+  });
+
+  it('reports outputs nobody consumes', () => {
+    const document = revision((draft) => {
+      draft.tasks[0].outputs.push('triage_notes');
+    });
+    expect(added(document)).toEqual([
+      expect.objectContaining({ rule: 'unused-output', severity: 'info', path: 'tasks[0].outputs[2]', message: 'output "triage_notes" is never consumed' }),
+    ]);
+  });
+
+  it('reports deadlines outside the classification categories', () => {
+    const undeclared = revision((draft) => {
+      delete draft.tasks[4].logic!.categories!.BLUE; // priority_classification deixa de classificar azul
+    });
+    expect(added(undeclared)).toEqual([
+      expect.objectContaining({
+        rule: 'deadline-without-classification',
+        severity: 'error',
+        path: 'deadlines[4].priority',
+        message: 'priority "BLUE" is not a classification category (declared: RED, ORANGE, YELLOW, GREEN)',
+      }),
+    ]);
+
+    const untied = revision((draft) => {
+      delete draft.deadlines[0].priority;
+    });
+    expect(added(untied).map(({ rule, severity, element }) => [rule, severity, element])).toEqual([
+      ['deadline-without-classification', 'warning', 'deadline:red_immediate'],
+      ['classification-without-deadline', 'info', 'category:RED'],
+    ]);
+  });
+
+  it('reports rewards whose criteria measure nothing', () => {
+    const document = revision((draft) => {
+      draft.rewards[1].criteria = { bed_turnover: true };
+      draft.rewards[2].criteria = {};
+    });
+    expect(added(document)).toEqual([
+      expect.objectContaining({ rule: 'unmeasurable-reward', severity: 'warning', path: 'rewards[1].criteria', message: 'no criterion references a measurable value: bed_turnover' }),
+      expect.objectContaining({ rule: 'unmeasurable-reward', severity: 'warning', path: 'rewards[2]', message: 'reward has no criteria' }),
+    ]);
+  });
+
+  it('reports PIR elements without executor from the binding reports', () => {
+    const bindings = [
+      {
+        component: 'guards' as const,
+        protocol_id: PIR.protocol_id,
+        version: PIR.version,
+        bound: [],
+        unbound_definitions: ['pediatric_fever_warning'],
+        orphan_executors: ['medication_interaction'],
+      },
+    ];
+    expect(added(PIR, { bindings })).toEqual([
+      {
+        rule: 'missing-executor',
+        severity: 'warning',
+        path: 'guards[5]',
+        element: 'guard:pediatric_fever_warning',
+        message: 'guard "pediatric_fever_warning" has no executor and will never run',
+      },
+    ]);
+  });
+});
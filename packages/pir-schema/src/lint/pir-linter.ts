@@ -0,0 +1,537 @@
+/**
+ * PIR Schema - Linter (análise estática de dataflow e integridade de referências)
+ *
+ * O validador garante a forma do documento; o linter garante que ele se sustenta:
+ * - grafo produtor/consumidor: slots, outputs de tasks e contexto de runtime
+ *   produzem nomes; inputs, condições, guards, deadlines e rewards consomem
+ * - referências desconhecidas, tasks inalcançáveis, ciclos, outputs nunca consumidos
+ * - guards sobre slots inexistentes, deadlines sem classificação correspondente,
+ *   rewards cujos critérios não medem nada
+ * - faixas pediátricas com buracos (valor que nenhuma faixa classifica)
+ * - elementos sem executor (a partir dos relatórios de binding dos workers)
+ *
+ * Roda como CLI (scripts/pir-lint.ts), no compilador e antes de ativar um PIR.
+ */
+
+import type { PIRDocument } from '../types/pir';
+import type { PIRBindingReport } from '../binding/executor-binding';
+import { collectPaths } from '../expression/ast';
+import { parseExpression } from '../expression/parser';
+import { buildExpressionScope, checkExpression, type ExpressionScope, type ExpressionType } from '../expression/checker';
+import { compileThreshold, thresholdGaps } from '../classification/vital-bands';
+
+export type PIRLintRule =
+  | 'expression-syntax'
+  | 'expression-type'
+  | 'invalid-threshold'
+  | 'pediatric-threshold-gap'
+  | 'unknown-reference'
+  | 'guard-missing-slot'
+  | 'unreachable-task'
+  | 'dataflow-cycle'
+  | 'unused-output'
+  | 'deadline-without-classification'
+  | 'classification-without-deadline'
+  | 'unmeasurable-reward'
+  | 'missing-executor';
+
+export type PIRLintSeverity = 'error' | 'warning' | 'info';
+
+export interface PIRLintDiagnostic {
+  rule: PIRLintRule;
+  severity: PIRLintSeverity;
+  path: string; // "tasks[3].inputs[1]"
+  element: string; // "task:apply_specific_discriminators"
+  message: string;
+}
+
+/**
+ * Grafo produtor/consumidor: nome → elementos ("slot:temperature", "task:flowchart_selection", "context")
+ */
+export interface PIRDataflowGraph {
+  producers: Record<string, string[]>;
+  consumers: Record<string, string[]>;
+}
+
+export interface PIRLintOptions {
+  context?: Record<string, ExpressionType>; // Nomes de runtime adicionais
+  bindings?: PIRBindingReport[]; // Relatórios de binding dos workers (elementos sem executor)
+}
+
+export interface PIRLintResult {
+  protocol_id: string;
+  version: string;
+  valid: boolean; // Nenhum diagnóstico de severidade error
+  counts: Record<PIRLintSeverity, number>;
+  diagnostics: PIRLintDiagnostic[];
+  dataflow: PIRDataflowGraph;
+}
+
+/**
+ * Nomes fornecidos pelo runtime (sessão, fila) disponíveis a tasks e condições
+ */
+export const PIR_RUNTIME_CONTEXT: Record<string, ExpressionType> = {
+  session_id: 'string',
+  patient_id: 'string',
+  nurse_identifier: 'string',
+  arrival_time: 'string',
+  timestamp: 'string',
+  queue_size: 'number',
+  capacity: 'number',
+  time_in_queue: 'duration',
+  priority_time_limit: 'duration',
+  wait_time_average: 'duration',
+  all_collected_slots: 'object', // slot_state inteiro (pir-tasks, validateInputs)
+};
+
+/**
+ * Medidas de desfecho registradas pelo RewardContext (pir-rewards) e pelo audit trail
+ */
+const REWARD_MEASURES = new Set([
+  'priority',
+  'protocol',
+  'pattern_type',
+  'time_to_physician',
+  'total_triage_time',
+  'classification_time',
+  'deadline_exceeded',
+  'no_deadline_violations',
+  'guard_triggered',
+  'suggestion_accepted',
+  'outcome_positive',
+  'adverse_outcome',
+  'actual_diagnosis',
+  'confirmed_diagnosis',
+  'treatment_outcome',
+  'clinical_accuracy',
+  'patient_satisfaction',
+  'average_wait_time',
+  'reclassification_performed',
+  'time_to_detection',
+]);
+
+const CONTEXT_PRODUCER = 'context';
+
+interface ElementDependencies {
+  element: string;
+  path: string;
+  names: Set<string>; // Nomes raiz consumidos
+}
+
+function rootName(path: string): string {
+  return path.split('.')[0];
+}
+
+function pushTo(map: Record<string, string[]>, key: string, value: string): void {
+  const list = (map[key] ??= []);
+  if (!list.includes(value)) list.push(value);
+}
+
+class PIRLinter {
+  readonly diagnostics: PIRLintDiagnostic[] = [];
+  readonly dataflow: PIRDataflowGraph = { producers: {}, consumers: {} };
+
+  private scope: ExpressionScope;
+  private taskDependencies: ElementDependencies[] = [];
+
+  constructor(
+    private document: PIRDocument,
+    private options: PIRLintOptions
+  ) {
+    this.scope = buildExpressionScope(document, { ...PIR_RUNTIME_CONTEXT, ...options.context });
+  }
+
+  run(): void {
+    this.collectProducers();
+    this.checkSlots();
+    this.checkTasks();
+    this.checkGuards();
+    this.checkDeadlines();
+    this.checkRewards();
+    this.checkReachability();
+    this.checkCycles();
+    this.checkUnusedOutputs();
+    this.checkBindings();
+  }
+
+  private report(rule: PIRLintRule, severity: PIRLintSeverity, path: string, element: string, message: string): void {
+    this.diagnostics.push({ rule, severity, path, element, message });
+  }
+
+  private isProduced(name: string): boolean {
+    return name in this.dataflow.producers;
+  }
+
+  private consume(element: string, names: Iterable<string>): void {
+    for (const name of names) pushTo(this.dataflow.consumers, name, element);
+  }
+
+  // ==========================================================================
+  // PRODUTORES
+  // ==========================================================================
+
+  private collectProducers(): void {
+    for (const name of Object.keys({ ...PIR_RUNTIME_CONTEXT, ...this.options.context })) {
+      pushTo(this.dataflow.producers, name, CONTEXT_PRODUCER);
+    }
+    for (const slot of this.document.slots) {
+      pushTo(this.dataflow.producers, slot.slot_id, `slot:${slot.slot_id}`);
+    }
+    for (const task of this.document.tasks) {
+      for (const output of task.outputs) pushTo(this.dataflow.producers, output, `task:${task.task_id}`);
+    }
+  }
+
+  // ==========================================================================
+  // EXPRESSÕES
+  // ==========================================================================
+
+  /**
+   * Parse + checagem de nomes/tipos; retorna os nomes raiz consumidos
+   */
+  private checkCondition(source: string, path: string, element: string, unknownRule: PIRLintRule = 'unknown-reference'): Set<string> {
+    let node;
+    try {
+      node = parseExpression(source);
+    } catch (error) {
+      this.report('expression-syntax', 'error', path, element, error instanceof Error ? error.message : String(error));
+      return new Set();
+    }
+
+    const { diagnostics } = checkExpression(node, this.scope);
+    for (const diagnostic of diagnostics) {
+      const rule = diagnostic.code === 'type-mismatch' ? 'expression-type' : unknownRule;
+      this.report(rule, diagnostic.severity, path, element, `${diagnostic.message} in "${source}"`);
+    }
+
+    const names = new Set(collectPaths(node).map(rootName));
+    this.consume(element, names);
+    return names;
+  }
+
+  private checkReference(name: string, path: string, element: string, description: string): void {
+    if (!this.isProduced(name)) {
+      this.report('unknown-reference', 'error', path, element, `${description} "${name}" is not produced by any slot, task or runtime context`);
+    }
+  }
+
+  // ==========================================================================
+  // ELEMENTOS
+  // ==========================================================================
+
+  private checkSlots(): void {
+    this.document.slots.forEach((slot, i) => {
+      const element = `slot:${slot.slot_id}`;
+
+      if (slot.condition) this.checkCondition(slot.condition, `slots[${i}].condition`, element);
+
+      slot.computation?.inputs.forEach((input, j) => {
+        this.checkReference(input, `slots[${i}].computation.inputs[${j}]`, element, 'computation input');
+      });
+      if (slot.computation) this.consume(element, slot.computation.inputs);
+
+      const thresholds: Array<[string, string]> = Object.entries(slot.classification_thresholds || {}).map(([band, text]) => [
+        `classification_thresholds.${band}`,
+        text,
+      ]);
+      for (const [ageBand, bands] of Object.entries(slot.pediatric_thresholds || {})) {
+        for (const [band, text] of Object.entries(bands || {})) thresholds.push([`pediatric_thresholds.${ageBand}.${band}`, text]);
+      }
+
+      for (const [path, text] of thresholds) {
+        try {
+          compileThreshold(text);
+        } catch (error) {
+          this.report('invalid-threshold', 'error', `slots[${i}].${path}`, element, error instanceof Error ? error.message : String(error));
+        }
+      }
+
+      // Buraco entre faixas pediátricas: o valor cai em nenhuma faixa e a criança não é classificada por ele
+      for (const [ageBand, bands] of Object.entries(slot.pediatric_thresholds || {})) {
+        for (const gap of thresholdGaps(bands || {})) {
+          this.report(
+            'pediatric-threshold-gap',
+            'error',
+            `slots[${i}].pediatric_thresholds.${ageBand}`,
+            element,
+            `${slot.slot_id} values ${gap} match no ${ageBand} band`
+          );
+        }
+      }
+    });
+  }
+
+  private checkTasks(): void {
+    this.document.tasks.forEach((task, i) => {
+      const element = `task:${task.task_id}`;
+      const names = new Set<string>(task.inputs);
+
+      task.inputs.forEach((input, j) => this.checkReference(input, `tasks[${i}].inputs[${j}]`, element, 'input'));
+      this.consume(element, task.inputs);
+
+      const conditions: Array<[string, string]> = [];
+      if (task.condition) conditions.push([task.condition, `tasks[${i}].condition`]);
+      task.rules?.forEach((rule, j) => conditions.push([rule.if, `tasks[${i}].rules[${j}].if`]));
+      for (const [flowchart, rules] of Object.entries(task.flowchart_rules || {})) {
+        rules.forEach((rule, j) => conditions.push([rule.if, `tasks[${i}].flowchart_rules.${flowchart}[${j}].if`]));
+      }
+
+      for (const [source, path] of conditions) {
+        this.checkCondition(source, path, element).forEach((name) => names.add(name));
+      }
+
+      this.taskDependencies.push({ element, path: `tasks[${i}]`, names });
+    });
+  }
+
+  private checkGuards(): void {
+    const taskIds = new Set(this.document.tasks.map((task) => task.task_id));
+
+    this.document.guards.forEach((guard, i) => {
+      const element = `guard:${guard.guard_id}`;
+      this.checkCondition(guard.trigger.condition, `guards[${i}].trigger.condition`, element, 'guard-missing-slot');
+
+      if (guard.associated_task && !taskIds.has(guard.associated_task)) {
+        this.report('unknown-reference', 'error', `guards[${i}].associated_task`, element, `unknown task "${guard.associated_task}"`);
+      }
+    });
+  }
+
+  private checkDeadlines(): void {
+    const taskIds = new Set(this.document.tasks.map((task) => task.task_id));
+
+    // Categorias de classificação declaradas (logic.categories das tasks)
+    const categories = new Set<string>();
+    for (const task of this.document.tasks) {
+      Object.keys(task.logic?.categories || {}).forEach((code) => categories.add(code));
+    }
+
+    const coveredCategories = new Set<string>();
+
+    this.document.deadlines.forEach((deadline, i) => {
+      const element = `deadline:${deadline.deadline_id}`;
+      const path = `deadlines[${i}]`;
+
+      if (deadline.relaxation_conditions) {
+        this.checkCondition(deadline.relaxation_conditions, `${path}.relaxation_conditions`, element);
+      }
+
+      if (deadline.task_related) {
+        this.consume(element, [deadline.task_related]);
+        if (!taskIds.has(deadline.task_related)) {
+          this.report('unknown-reference', 'error', `${path}.task_related`, element, `unknown task "${deadline.task_related}"`);
+        }
+      }
+
+      if (deadline.priority) {
+        coveredCategories.add(deadline.priority);
+        if (categories.size === 0) {
+          this.report('deadline-without-classification', 'warning', `${path}.priority`, element, 'no task declares classification categories (logic.categories)');
+        } else if (!categories.has(deadline.priority)) {
+          this.report(
+            'deadline-without-classification',
+            'error',
+            `${path}.priority`,
+            element,
+            `priority "${deadline.priority}" is not a classification category (declared: ${Array.from(categories).join(', ')})`
+          );
+        }
+      }
+
+      if (!deadline.priority && !deadline.task_related) {
+        this.report('deadline-without-classification', 'warning', path, element, 'deadline is tied to neither a priority nor a task');
+      }
+    });
+
+    for (const category of categories) {
+      if (!coveredCategories.has(category)) {
+        this.report('classification-without-deadline', 'info', 'deadlines', `category:${category}`, `classification category "${category}" has no deadline`);
+      }
+    }
+  }
+
+  private checkRewards(): void {
+    const { document } = this;
+    const evidence = document.evidence;
+
+    // Vocabulário mensurável: dataflow, IDs de guards/deadlines/tasks, evidence e medidas de desfecho
+    const measurable = new Set<string>([
+      ...Object.keys(this.dataflow.producers),
+      ...this.scope.keys(),
+      ...document.tasks.map((task) => task.task_id),
+      ...document.guards.map((guard) => guard.guard_id),
+      ...document.deadlines.map((deadline) => deadline.deadline_id),
+      ...evidence.audit_trail.events_tracked,
+      ...evidence.learning_configuration.patterns_tracked,
+      ...evidence.quality_indicators.tracked_metrics.map((metric) => metric.indicator),
+      ...REWARD_MEASURES,
+    ]);
+
+    document.rewards.forEach((reward, i) => {
+      const element = `reward:${reward.reward_id}`;
+      const keys = Object.keys(reward.criteria || {});
+
+      if (keys.length === 0) {
+        this.report('unmeasurable-reward', 'warning', `rewards[${i}]`, element, 'reward has no criteria');
+        return;
+      }
+
+      const measured = keys.filter((key) => measurable.has(key));
+      const unmeasured = keys.filter((key) => !measurable.has(key));
+      this.consume(element, measured.filter((key) => this.isProduced(key)));
+
+      if (measured.length === 0) {
+        this.report('unmeasurable-reward', 'warning', `rewards[${i}].criteria`, element, `no criterion references a measurable value: ${unmeasured.join(', ')}`);
+      } else if (unmeasured.length > 0) {
+        this.report('unmeasurable-reward', 'info', `rewards[${i}].criteria`, element, `criteria without measurable source: ${unmeasured.join(', ')}`);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // DATAFLOW
+  // ==========================================================================
+
+  /**
+   * Task alcançável: toda dependência vem de slot, contexto ou task alcançável
+   */
+  private checkReachability(): void {
+    const reachable = new Set<string>();
+    const producedBy = (name: string) => this.dataflow.producers[name] || [];
+    const isAvailable = (name: string, self: string) =>
+      producedBy(name).some((producer) => !producer.startsWith('task:') || (producer !== self && reachable.has(producer)));
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const task of this.taskDependencies) {
+        if (reachable.has(task.element)) continue;
+        if (Array.from(task.names).every((name) => isAvailable(name, task.element))) {
+          reachable.add(task.element);
+          changed = true;
+        }
+      }
+    }
+
+    for (const task of this.taskDependencies) {
+      if (reachable.has(task.element)) continue;
+
+      const blockers = Array.from(task.names)
+        .filter((name) => !isAvailable(name, task.element))
+        .map((name) => {
+          const producers = producedBy(name);
+          return producers.length === 0 ? `${name} (never produced)` : `${name} (from unreachable ${producers.join(', ')})`;
+        });
+
+      this.report('unreachable-task', 'error', task.path, task.element, `task can never run: ${blockers.join('; ')}`);
+    }
+  }
+
+  /**
+   * Ciclos entre tasks (Tarjan): task A consome output de B que consome output de A
+   */
+  private checkCycles(): void {
+    const edges = new Map<string, Set<string>>();
+    for (const task of this.taskDependencies) {
+      const producers = new Set<string>();
+      for (const name of task.names) {
+        (this.dataflow.producers[name] || []).filter((p) => p.startsWith('task:')).forEach((p) => producers.add(p));
+      }
+      edges.set(task.element, producers);
+    }
+
+    let index = 0;
+    const indices = new Map<string, number>();
+    const lowlinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const visit = (node: string): void => {
+      indices.set(node, index);
+      lowlinks.set(node, index);
+      index++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const next of edges.get(node) || []) {
+        if (!indices.has(next)) {
+          visit(next);
+          lowlinks.set(node, Math.min(lowlinks.get(node)!, lowlinks.get(next)!));
+        } else if (onStack.has(next)) {
+          lowlinks.set(node, Math.min(lowlinks.get(node)!, indices.get(next)!));
+        }
+      }
+
+      if (lowlinks.get(node) === indices.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        components.push(component);
+      }
+    };
+
+    for (const node of edges.keys()) {
+      if (!indices.has(node)) visit(node);
+    }
+
+    for (const component of components) {
+      const selfLoop = component.length === 1 && edges.get(component[0])!.has(component[0]);
+      if (component.length < 2 && !selfLoop) continue;
+
+      const first = this.taskDependencies.find((task) => component.includes(task.element))!;
+      this.report('dataflow-cycle', 'error', first.path, first.element, `dataflow cycle: ${component.reverse().join(' → ')} → ${component[0]}`);
+    }
+  }
+
+  private checkUnusedOutputs(): void {
+    this.document.tasks.forEach((task, i) => {
+      task.outputs.forEach((output, j) => {
+        if (!this.dataflow.consumers[output]) {
+          this.report('unused-output', 'info', `tasks[${i}].outputs[${j}]`, `task:${task.task_id}`, `output "${output}" is never consumed`);
+        }
+      });
+    });
+  }
+
+  private checkBindings(): void {
+    const definitions: Record<PIRBindingReport['component'], string[]> = {
+      tasks: this.document.tasks.map((task) => task.task_id),
+      guards: this.document.guards.map((guard) => guard.guard_id),
+      deadlines: this.document.deadlines.map((deadline) => deadline.deadline_id),
+      rewards: this.document.rewards.map((reward) => reward.reward_id),
+    };
+
+    for (const report of this.options.bindings || []) {
+      for (const id of report.unbound_definitions) {
+        const index = definitions[report.component].indexOf(id);
+        const kind = report.component.slice(0, -1);
+        this.report('missing-executor', 'warning', `${report.component}[${index}]`, `${kind}:${id}`, `${kind} "${id}" has no executor and will never run`);
+      }
+    }
+  }
+}
+
+/**
+ * Executa todas as regras sobre um documento já validado (validatePIR)
+ */
+export function lintPIR(document: PIRDocument, options: PIRLintOptions = {}): PIRLintResult {
+  const linter = new PIRLinter(document, options);
+  linter.run();
+
+  const counts: Record<PIRLintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  linter.diagnostics.forEach((diagnostic) => counts[diagnostic.severity]++);
+
+  return {
+    protocol_id: document.protocol_id,
+    version: document.version,
+    valid: counts.error === 0,
+    counts,
+    diagnostics: linter.diagnostics,
+    dataflow: linter.dataflow,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * PIR de referência - Protocolo Manchester SP (Portaria SMS nº 82/2024)
+ *
+ * Empacota manchester-sp-protocol.pir.json para os workers. O JSON cru é
+ * exposto como `unknown`: só vira PIRDocument depois de passar pelo validador.
+ */
+
+import manchesterSpProtocol from '../../../../manchester-sp-protocol.pir.json';
+import { parsePIR } from '../validator/pir-validator';
+import type { PIRDocument } from '../types/pir';
+
+export const MANCHESTER_SP_PROTOCOL_SOURCE: unknown = manchesterSpProtocol;
+
+/**
+ * Carrega e valida o protocolo de referência.
+ * Lança PIRValidationError se o JSON divergir do schema.
+ */
+export function loadManchesterSPProtocol(): PIRDocument {
+  return parsePIR(MANCHESTER_SP_PROTOCOL_SOURCE);
+}
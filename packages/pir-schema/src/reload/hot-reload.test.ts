@@ -0,0 +1,249 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import type { PIRDocument } from '../types/pir';
+import { ProtocolHotReloader, ProtocolReloadError } from './hot-reload';
+import { StaticLegislativeMonitor, type LegislativePublication } from './legislative-monitor';
+import type { ProtocolNotification, ProtocolNotifier } from './notifier';
+import { MemoryProtocolStore } from './protocol-store';
+
+const PIR = loadManchesterSPProtocol();
+const PROTOCOL_ID = PIR.protocol_id;
+
+class RecordingNotifier implements ProtocolNotifier {
+  notifications: ProtocolNotification[] = [];
+
+  async notify(notification: ProtocolNotification): Promise<void> {
+    this.notifications.push(notification);
+  }
+}
+
+// Nova versão do PIR de referência, com mudanças opcionais
+function revision(version: string, change?: (document: PIRDocument) => void): PIRDocument {
+  const document = { ...structuredClone(PIR), version };
+  change?.(document);
+  return document;
+}
+
+const shortenOrangeDeadline = (document: PIRDocument) => {
+  document.deadlines.find((deadline) => deadline.deadline_id === 'orange_10min')!.time_limit = '5m';
+};
+
+async function rejection(promise: Promise<unknown>): Promise<ProtocolReloadError> {
+  const error = await promise.then(
+    () => null,
+    (caught: unknown) => caught
+  );
+  expect(error).toBeInstanceOf(ProtocolReloadError);
+  return error as ProtocolReloadError;
+}
+
+describe('ProtocolHotReloader', () => {
+  let clock: Date;
+  let store: MemoryProtocolStore;
+  let notifier: RecordingNotifier;
+  let reloader: ProtocolHotReloader;
+
+  const advance = (minutes: number) => {
+    clock = new Date(clock.getTime() + minutes * 60_000);
+  };
+
+  beforeEach(async () => {
+    clock = new Date('2026-01-15T12:00:00.000Z');
+    store = new MemoryProtocolStore();
+    notifier = new RecordingNotifier();
+    reloader = new ProtocolHotReloader({
+      store,
+      notifier,
+      rollback_policy: { min_requests: 4, max_error_rate: 0.5 },
+      now: () => clock,
+    });
+    await reloader.bootstrap(PIR);
+  });
+
+  describe('versions', () => {
+    it('bootstraps the bundled protocol once', async () => {
+      const pointer = await reloader.getActive(PROTOCOL_ID);
+      expect(pointer).toMatchObject({ version: PIR.version, activated_by: 'bootstrap', activated_at: clock.toISOString() });
+      expect(pointer?.content_hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+
+      advance(5);
+      expect(await reloader.bootstrap(revision('9.9'))).toEqual(pointer);
+      expect(await reloader.listVersions(PROTOCOL_ID)).toEqual([expect.objectContaining({ version: PIR.version, status: 'active' })]);
+    });
+
+    it('registers the same content idempotently and rejects a changed one', async () => {
+      const staged = await reloader.register(revision('3.0'), 'api');
+      expect(staged).toMatchObject({ version: '3.0', status: 'staged', source: 'api' });
+      expect(await reloader.register(revision('3.0'), 'api')).toEqual(staged);
+
+      const conflict = await rejection(reloader.register(revision('3.0', shortenOrangeDeadline), 'api'));
+      expect(conflict.reason).toBe('version-conflict');
+    });
+
+    it('rejects documents that fail validation', async () => {
+      const error = await rejection(reloader.register({ ...PIR, slots: 'none' }, 'api'));
+      expect(error.reason).toBe('invalid-document');
+      expect(error.diagnostics).toContainEqual(expect.objectContaining({ path: '$.slots' }));
+    });
+
+    it('resolves a reference only with the matching hash', async () => {
+      const active = await reloader.resolveActive(PROTOCOL_ID);
+      expect((await reloader.resolveRef(active)).document).toEqual(PIR);
+
+      const error = await rejection(reloader.resolveRef({ ...active, content_hash: 'sha256:00' }));
+      expect(error.reason).toBe('hash-mismatch');
+    });
+  });
+
+  describe('activation', () => {
+    it('swaps the active pointer and reports high-impact changes', async () => {
+      await reloader.register(revision('3.0', shortenOrangeDeadline), 'api');
+      const result = await reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria', reason: 'Portaria 82 rev1' });
+
+      expect(result.pointer).toMatchObject({ version: '3.0', activated_by: 'api:diretoria', previous: { version: PIR.version } });
+      expect(result.high_impact_changes).toEqual(['deadlines:orange_10min']);
+      expect(result.diff).toMatchObject({ modified: 1 });
+
+      const statuses = Object.fromEntries((await reloader.listVersions(PROTOCOL_ID)).map((entry) => [entry.version, entry.status]));
+      expect(statuses).toEqual({ [PIR.version]: 'superseded', '3.0': 'active' });
+
+      expect(notifier.notifications).toEqual([
+        expect.objectContaining({
+          event: 'activated',
+          severity: 'warning',
+          recipients: ['system_admin', 'clinical_director'],
+          previous_version: PIR.version,
+        }),
+      ]);
+    });
+
+    it('blocks versions that add lint errors and keeps the running one', async () => {
+      await reloader.register(
+        revision('3.0', (document) => {
+          document.guards[0].trigger.condition = 'mystery_score > 3';
+        }),
+        'api'
+      );
+
+      const error = await rejection(reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria' }));
+      expect(error.reason).toBe('lint-regression');
+      expect(error.diagnostics).toContainEqual(expect.objectContaining({ rule: 'guard-missing-slot', path: 'guards[0].trigger.condition' }));
+
+      expect((await reloader.getActive(PROTOCOL_ID))?.version).toBe(PIR.version);
+      expect((await store.getVersion(PROTOCOL_ID, '3.0'))?.status).toBe('rejected');
+      expect(notifier.notifications.map((notification) => notification.event)).toEqual(['activation_rejected']);
+    });
+
+    it('refuses to activate the active version again', async () => {
+      const error = await rejection(reloader.activate(PROTOCOL_ID, PIR.version, { actor: 'api:diretoria' }));
+      expect(error.reason).toBe('already-active');
+    });
+
+    it('rolls back to the previous version without chaining', async () => {
+      await reloader.register(revision('3.0'), 'api');
+      await reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria' });
+
+      const result = await reloader.rollback(PROTOCOL_ID, { actor: 'api:diretoria', reason: 'manual' });
+      expect(result.rolled_back_from.version).toBe('3.0');
+      expect(result.pointer.version).toBe(PIR.version);
+      expect(result.pointer.previous).toBeUndefined();
+      expect((await store.getVersion(PROTOCOL_ID, '3.0'))?.status).toBe('rolled_back');
+
+      const error = await rejection(reloader.rollback(PROTOCOL_ID, { actor: 'api:diretoria' }));
+      expect(error.reason).toBe('no-previous-version');
+    });
+  });
+
+  describe('sessions', () => {
+    it('keeps running sessions on the version they started with', async () => {
+      const started = await reloader.pinSession('session-1', PROTOCOL_ID);
+
+      await reloader.register(revision('3.0'), 'api');
+      await reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria' });
+
+      expect((await reloader.pinSession('session-1', PROTOCOL_ID)).version).toBe(PIR.version);
+      expect((await reloader.pinSession('session-2', PROTOCOL_ID)).version).toBe('3.0');
+
+      await reloader.releaseSession('session-1');
+      expect(await reloader.resolveSession('session-1')).toBeNull();
+      expect(started.version).toBe(PIR.version);
+    });
+
+    it('pins to a requested reference and rejects a different one later', async () => {
+      const bundled = await reloader.resolveActive(PROTOCOL_ID);
+      await reloader.register(revision('3.0'), 'api');
+      await reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria' });
+
+      expect((await reloader.pinSession('session-1', PROTOCOL_ID, bundled)).version).toBe(PIR.version);
+
+      const current = await reloader.resolveActive(PROTOCOL_ID);
+      const error = await rejection(reloader.pinSession('session-1', PROTOCOL_ID, current));
+      expect(error.reason).toBe('hash-mismatch');
+    });
+  });
+
+  describe('recordOutcome', () => {
+    beforeEach(async () => {
+      await reloader.register(revision('3.0'), 'api');
+      await reloader.activate(PROTOCOL_ID, '3.0', { actor: 'api:diretoria' });
+    });
+
+    const record = (version: string, outcomes: boolean[]) =>
+      outcomes.reduce(
+        (previous, ok) => previous.then(() => reloader.recordOutcome({ protocol_id: PROTOCOL_ID, version }, ok)),
+        Promise.resolve(null) as ReturnType<ProtocolHotReloader['recordOutcome']>
+      );
+
+    it('rolls back when the error rate exceeds the policy', async () => {
+      expect(await record('3.0', [false, false, true])).toBeNull(); // Amostra abaixo de min_requests
+
+      const rollback = await record('3.0', [false]);
+      expect(rollback?.pointer.version).toBe(PIR.version);
+      expect(notifier.notifications.at(-1)).toMatchObject({ event: 'rolled_back', severity: 'critical', previous_version: '3.0' });
+    });
+
+    it('ignores outcomes from older versions and after the observation window', async () => {
+      expect(await record(PIR.version, [false, false, false, false])).toBeNull();
+
+      advance(31);
+      expect(await record('3.0', [false, false, false, false])).toBeNull();
+      expect((await reloader.getActive(PROTOCOL_ID))?.version).toBe('3.0');
+    });
+  });
+
+  describe('checkSource', () => {
+    const publication = (id: string, trigger: string, document: PIRDocument, publishedAt: string): LegislativePublication => ({
+      publication_id: id,
+      trigger,
+      protocol_id: document.protocol_id,
+      version: document.version,
+      published_at: publishedAt,
+      document,
+    });
+
+    it('applies publications whose trigger is configured and respects the interval', async () => {
+      const monitor = new StaticLegislativeMonitor([
+        publication('portaria-rev1', 'protocol_update_released', revision('3.0'), '2026-01-10T00:00:00Z'),
+        publication('nota-tecnica', 'informative_note', revision('3.1'), '2026-01-11T00:00:00Z'),
+      ]);
+      reloader = new ProtocolHotReloader({ store, notifier, monitor, now: () => clock });
+
+      const result = await reloader.checkSource(PROTOCOL_ID);
+      expect(result).toMatchObject({
+        status: 'checked',
+        applied: ['portaria-rev1'],
+        ignored: [{ publication_id: 'nota-tecnica', reason: 'trigger informative_note not in trigger_conditions' }],
+      });
+      expect((await reloader.getActive(PROTOCOL_ID))?.version).toBe('3.0');
+      expect(await store.getCheckpoint(PROTOCOL_ID)).toMatchObject({ last_publication_id: 'nota-tecnica' });
+
+      advance(30);
+      expect((await reloader.checkSource(PROTOCOL_ID)).status).toBe('not-due');
+      expect((await reloader.checkSource(PROTOCOL_ID, { force: true })).applied).toEqual([]);
+    });
+
+    it('reports a missing monitor', async () => {
+      expect((await reloader.checkSource(PROTOCOL_ID)).status).toBe('no-monitor');
+    });
+  });
+});
@@ -0,0 +1,644 @@
+/**
+ * PIR Schema - Hot reload de protocolos
+ *
+ * Implementa `hot_reload_configuration` do PIR:
+ * - register: valida e guarda uma versão (imutável, identificada por hash)
+ * - activate: com validation_before_apply, valida + linta (com os relatórios de
+ *   binding dos workers) e só troca o ponteiro ativo se não houver erro novo
+ *   em relação à versão em produção; a troca é uma única escrita
+ * - sessões: novas sessões são presas (pin) à versão ativa no início e
+ *   continuam nela até o fim, mesmo que outra versão seja ativada no meio
+ * - rollback_on_error: taxa de erro acima da política na janela de observação
+ *   após a ativação restaura a versão anterior
+ * - checkSource: consulta o monitor legislativo a cada check_interval e aplica
+ *   publicações cujo trigger está em trigger_conditions
+ * - notification: ativação, rejeição e rollback notificam os destinatários
+ *
+ * Os contadores de erro vivem no isolate: cada isolate decide o rollback pelo
+ * tráfego que observou; a decisão vale para todos porque vira escrita no store.
+ */
+
+import type { PIRDocument, PIRDuration, PIRHotReloadConfiguration } from '../types/pir';
+import type { PIRBindingReport } from '../binding/executor-binding';
+import { validatePIR, type PIRValidationIssue } from '../validator/pir-validator';
+import { lintPIR, type PIRLintDiagnostic, type PIRLintResult } from '../lint/pir-linter';
+import { diffPIR, type PIRDiff } from '../diff/pir-diff';
+import {
+  computePIRHash,
+  toVersionRef,
+  type ActiveProtocolPointer,
+  type ProtocolStore,
+  type ProtocolVersionStatus,
+  type ProtocolVersionSummary,
+  type PIRVersionRef,
+  type StoredProtocolVersion,
+} from './protocol-store';
+import type { LegislativeMonitor } from './legislative-monitor';
+import {
+  ConsoleProtocolNotifier,
+  parseNotificationRecipients,
+  type ProtocolNotification,
+  type ProtocolNotifier,
+} from './notifier';
+
+export interface RollbackPolicy {
+  observation_window: PIRDuration; // Janela após a ativação em que erros são vigiados
+  min_requests: number; // Amostra mínima antes de decidir
+  max_error_rate: number; // 0..1
+}
+
+export const DEFAULT_ROLLBACK_POLICY: RollbackPolicy = {
+  observation_window: '30m',
+  min_requests: 20,
+  max_error_rate: 0.2,
+};
+
+export interface ProtocolHotReloaderOptions {
+  store: ProtocolStore;
+  notifier?: ProtocolNotifier;
+  monitor?: LegislativeMonitor;
+  // Relatórios de binding dos workers para o documento candidato (regra missing-executor)
+  bindings?: (document: PIRDocument) => PIRBindingReport[] | Promise<PIRBindingReport[]>;
+  rollback_policy?: Partial<RollbackPolicy>;
+  now?: () => Date;
+}
+
+export interface ResolvedProtocol extends PIRVersionRef {
+  document: PIRDocument;
+}
+
+export interface ProtocolChangeOptions {
+  actor: string; // Quem pediu ("api:<usuário>", "legislative_monitor", "error-monitor")
+  reason?: string;
+}
+
+export interface ProtocolActivationResult {
+  pointer: ActiveProtocolPointer;
+  lint: { counts: PIRLintResult['counts']; baseline_errors: number };
+  diff: PIRDiff['summary'] | null; // null na primeira ativação
+  high_impact_changes: string[];
+}
+
+export interface ProtocolRollbackResult {
+  pointer: ActiveProtocolPointer;
+  rolled_back_from: { version: string; content_hash: string };
+}
+
+export interface ProtocolSourceCheckResult {
+  status: 'checked' | 'disabled' | 'not-due' | 'no-monitor' | 'failed';
+  checked_at: string;
+  applied: string[]; // publication_id
+  rejected: Array<{ publication_id: string; reason: string }>;
+  ignored: Array<{ publication_id: string; reason: string }>;
+  error?: string;
+}
+
+export type ProtocolReloadFailure =
+  | 'not-found'
+  | 'invalid-document'
+  | 'version-conflict'
+  | 'already-active'
+  | 'hash-mismatch'
+  | 'lint-regression'
+  | 'no-previous-version';
+
+export class ProtocolReloadError extends Error {
+  constructor(
+    readonly reason: ProtocolReloadFailure,
+    message: string,
+    readonly diagnostics: Array<PIRValidationIssue | PIRLintDiagnostic> = []
+  ) {
+    super(message);
+    this.name = 'ProtocolReloadError';
+  }
+}
+
+interface OutcomeWindow {
+  version: string;
+  activated_at: number;
+  total: number;
+  errors: number;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+function durationMs(duration: PIRDuration): number {
+  const match = duration.match(/^(\d+(?:\.\d+)?)(s|m|h|d)$/);
+  if (!match) throw new Error(`Invalid PIR duration "${duration}"`);
+  return parseFloat(match[1]) * DURATION_UNITS_MS[match[2]];
+}
+
+/**
+ * Erros de lint comparados por regra + elemento + mensagem (o path muda quando elementos são inseridos)
+ */
+function lintKey(diagnostic: PIRLintDiagnostic): string {
+  return `${diagnostic.rule}|${diagnostic.element}|${diagnostic.message}`;
+}
+
+export class ProtocolHotReloader {
+  private store: ProtocolStore;
+  private notifier: ProtocolNotifier;
+  private monitor?: LegislativeMonitor;
+  private bindings?: ProtocolHotReloaderOptions['bindings'];
+  private policy: RollbackPolicy;
+  private now: () => Date;
+
+  // Versões são imutáveis: documento validado fica em cache no isolate
+  private documents: Map<string, PIRDocument> = new Map();
+  private windows: Map<string, OutcomeWindow> = new Map();
+
+  constructor(options: ProtocolHotReloaderOptions) {
+    this.store = options.store;
+    this.notifier = options.notifier ?? new ConsoleProtocolNotifier();
+    this.monitor = options.monitor;
+    this.bindings = options.bindings;
+    this.policy = { ...DEFAULT_ROLLBACK_POLICY, ...options.rollback_policy };
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // ==========================================================================
+  // VERSÕES
+  // ==========================================================================
+
+  /**
+   * Garante uma versão ativa: na primeira execução, o PIR embarcado no worker
+   * é registrado e ativado sem passar pelos gates (é o que já está em produção).
+   */
+  async bootstrap(document: PIRDocument, source: string = 'bundled'): Promise<ActiveProtocolPointer> {
+    const active = await this.store.getActive(document.protocol_id);
+    if (active) return active;
+
+    const entry = await this.register(document, source);
+    const timestamp = this.now().toISOString();
+    const pointer: ActiveProtocolPointer = {
+      protocol_id: entry.protocol_id,
+      version: entry.version,
+      content_hash: entry.content_hash,
+      activated_at: timestamp,
+      activated_by: 'bootstrap',
+    };
+
+    await this.store.setActive(pointer);
+    await this.setStatus(entry.protocol_id, entry.version, 'active', undefined, timestamp);
+    console.log(`[HOT-RELOAD] Bootstrapped ${pointer.protocol_id} v${pointer.version} (${pointer.content_hash})`);
+
+    return pointer;
+  }
+
+  /**
+   * Valida e guarda uma versão como "staged"
+   * Reenviar a mesma versão com o mesmo conteúdo é idempotente; com conteúdo diferente, conflito.
+   */
+  async register(input: unknown, source: string): Promise<ProtocolVersionSummary> {
+    const validation = validatePIR(input);
+    if (!validation.valid) {
+      throw new ProtocolReloadError('invalid-document', `Invalid PIR document (${validation.errors.length} issue(s))`, validation.errors);
+    }
+
+    const document = validation.document!;
+    const contentHash = await computePIRHash(document);
+    const existing = await this.store.getVersion(document.protocol_id, document.version);
+
+    if (existing) {
+      if (existing.content_hash === contentHash) {
+        const { document: _document, ...summary } = existing;
+        return summary;
+      }
+      throw new ProtocolReloadError(
+        'version-conflict',
+        `${document.protocol_id} v${document.version} is already registered with different content (${existing.content_hash}); bump the version`
+      );
+    }
+
+    const entry: StoredProtocolVersion = {
+      protocol_id: document.protocol_id,
+      version: document.version,
+      content_hash: contentHash,
+      status: 'staged',
+      source,
+      registered_at: this.now().toISOString(),
+      document,
+    };
+
+    await this.store.putVersion(entry);
+    this.documents.set(`${entry.protocol_id}@${entry.version}`, document);
+    console.log(`[HOT-RELOAD] Registered ${entry.protocol_id} v${entry.version} from ${source}`);
+
+    const { document: _document, ...summary } = entry;
+    return summary;
+  }
+
+  async listVersions(protocolId: string): Promise<ProtocolVersionSummary[]> {
+    return this.store.listVersions(protocolId);
+  }
+
+  async getActive(protocolId: string): Promise<ActiveProtocolPointer | null> {
+    return this.store.getActive(protocolId);
+  }
+
+  async resolveVersion(protocolId: string, version: string): Promise<ResolvedProtocol | null> {
+    const entry = await this.store.getVersion(protocolId, version);
+    if (!entry) return null;
+
+    const key = `${protocolId}@${version}`;
+    let document = this.documents.get(key);
+    if (!document) {
+      document = entry.document;
+      this.documents.set(key, document);
+    }
+
+    return { protocol_id: protocolId, version, content_hash: entry.content_hash, document };
+  }
+
+  /**
+   * Resolve a referência exata (versão + hash): conteúdo divergente não é o PIR da referência
+   */
+  async resolveRef(ref: PIRVersionRef): Promise<ResolvedProtocol> {
+    const resolved = await this.resolveVersion(ref.protocol_id, ref.version);
+
+    if (!resolved) {
+      throw new ProtocolReloadError('not-found', `${ref.protocol_id} v${ref.version} is not registered`);
+    }
+    if (resolved.content_hash !== ref.content_hash) {
+      throw new ProtocolReloadError(
+        'hash-mismatch',
+        `${ref.protocol_id} v${ref.version} is ${resolved.content_hash}, reference expects ${ref.content_hash}`
+      );
+    }
+    return resolved;
+  }
+
+  async resolveActive(protocolId: string): Promise<ResolvedProtocol> {
+    const pointer = await this.store.getActive(protocolId);
+    const resolved = pointer && (await this.resolveVersion(protocolId, pointer.version));
+
+    if (!resolved) {
+      throw new ProtocolReloadError('not-found', `No active version for protocol ${protocolId}`);
+    }
+    return resolved;
+  }
+
+  // ==========================================================================
+  // ATIVAÇÃO E ROLLBACK
+  // ==========================================================================
+
+  /**
+   * Ativa uma versão registrada para novas sessões
+   */
+  async activate(protocolId: string, version: string, options: ProtocolChangeOptions): Promise<ProtocolActivationResult> {
+    const candidate = await this.resolveVersion(protocolId, version);
+    if (!candidate) {
+      throw new ProtocolReloadError('not-found', `${protocolId} v${version} is not registered`);
+    }
+
+    const current = await this.store.getActive(protocolId);
+    if (current?.version === version) {
+      throw new ProtocolReloadError('already-active', `${protocolId} v${version} is already active`);
+    }
+
+    const running = current ? await this.resolveVersion(protocolId, current.version) : null;
+    const configuration = (running ?? candidate).document.hot_reload_configuration;
+
+    // Gates: validação + lint do candidato; só erros novos em relação à versão em produção bloqueiam
+    const lint = lintPIR(candidate.document, { bindings: await this.bindingsFor(candidate.document) });
+    const baseline = running ? lintPIR(running.document, { bindings: await this.bindingsFor(running.document) }) : null;
+    const baselineErrors = new Set(
+      (baseline?.diagnostics ?? []).filter((diagnostic) => diagnostic.severity === 'error').map(lintKey)
+    );
+
+    if (configuration.validation_before_apply) {
+      const validation = validatePIR(candidate.document);
+      const regressions = lint.diagnostics.filter(
+        (diagnostic) => diagnostic.severity === 'error' && !baselineErrors.has(lintKey(diagnostic))
+      );
+
+      if (!validation.valid || regressions.length > 0) {
+        const reason = !validation.valid ? 'invalid-document' : 'lint-regression';
+        const diagnostics = !validation.valid ? validation.errors : regressions;
+        const message = !validation.valid
+          ? `${protocolId} v${version} failed validation (${validation.errors.length} issue(s))`
+          : `${protocolId} v${version} introduces ${regressions.length} lint error(s)`;
+
+        await this.setStatus(protocolId, version, 'rejected', message);
+        await this.send(configuration, {
+          event: 'activation_rejected',
+          severity: 'warning',
+          protocol_id: protocolId,
+          version,
+          previous_version: current?.version,
+          summary: message,
+          details: {
+            requested_by: options.actor,
+            reason: options.reason,
+            diagnostics: diagnostics.slice(0, 20),
+          },
+        });
+
+        throw new ProtocolReloadError(reason, message, diagnostics);
+      }
+    }
+
+    // Troca atômica: uma única escrita do ponteiro ativo
+    const timestamp = this.now().toISOString();
+    const pointer: ActiveProtocolPointer = {
+      protocol_id: protocolId,
+      version,
+      content_hash: candidate.content_hash,
+      activated_at: timestamp,
+      activated_by: options.actor,
+      previous: current ? { version: current.version, content_hash: current.content_hash } : undefined,
+    };
+
+    await this.store.setActive(pointer);
+    await this.setStatus(protocolId, version, 'active', options.reason, timestamp);
+    if (current) await this.setStatus(protocolId, current.version, 'superseded', `Replaced by v${version}`);
+    this.windows.delete(protocolId);
+
+    const diff = running ? diffPIR(running.document, candidate.document) : null;
+    const highImpact = (diff?.changes ?? [])
+      .filter((change) => change.impact === 'high')
+      .map((change) => `${change.component}:${change.id}`);
+
+    await this.send(configuration, {
+      event: 'activated',
+      severity: highImpact.length > 0 ? 'warning' : 'info',
+      protocol_id: protocolId,
+      version,
+      previous_version: current?.version,
+      summary: diff
+        ? `v${version} active for new sessions (${diff.changes.length} change(s), ${highImpact.length} high clinical impact)`
+        : `v${version} active for new sessions`,
+      details: {
+        activated_by: options.actor,
+        reason: options.reason,
+        content_hash: candidate.content_hash,
+        high_impact_changes: highImpact,
+        lint: lint.counts,
+      },
+    });
+
+    return {
+      pointer,
+      lint: { counts: lint.counts, baseline_errors: baselineErrors.size },
+      diff: diff?.summary ?? null,
+      high_impact_changes: highImpact,
+    };
+  }
+
+  /**
+   * Restaura a versão anterior à ativação corrente
+   * O ponteiro restaurado não guarda "previous": rollback não é encadeado.
+   */
+  async rollback(protocolId: string, options: ProtocolChangeOptions): Promise<ProtocolRollbackResult> {
+    const current = await this.store.getActive(protocolId);
+    if (!current) {
+      throw new ProtocolReloadError('not-found', `No active version for protocol ${protocolId}`);
+    }
+    if (!current.previous) {
+      throw new ProtocolReloadError('no-previous-version', `${protocolId} v${current.version} has no previous version to roll back to`);
+    }
+
+    const target = await this.resolveVersion(protocolId, current.previous.version);
+    if (!target) {
+      throw new ProtocolReloadError('not-found', `${protocolId} v${current.previous.version} is not registered`);
+    }
+
+    const timestamp = this.now().toISOString();
+    const pointer: ActiveProtocolPointer = {
+      protocol_id: protocolId,
+      version: target.version,
+      content_hash: target.content_hash,
+      activated_at: timestamp,
+      activated_by: options.actor,
+    };
+
+    await this.store.setActive(pointer);
+    await this.setStatus(protocolId, current.version, 'rolled_back', options.reason);
+    await this.setStatus(protocolId, target.version, 'active', `Restored from v${current.version}`, timestamp);
+    this.windows.delete(protocolId);
+
+    await this.send(target.document.hot_reload_configuration, {
+      event: 'rolled_back',
+      severity: 'critical',
+      protocol_id: protocolId,
+      version: target.version,
+      previous_version: current.version,
+      summary: `v${current.version} rolled back to v${target.version}${options.reason ? `: ${options.reason}` : ''}`,
+      details: { rolled_back_by: options.actor, reason: options.reason },
+    });
+
+    return { pointer, rolled_back_from: { version: current.version, content_hash: current.content_hash } };
+  }
+
+  // ==========================================================================
+  // SESSÕES
+  // ==========================================================================
+
+  /**
+   * Prende a sessão a uma versão (idempotente: sessão já presa mantém a versão)
+   *
+   * Sem `requested`, a sessão nova vai para a versão ativa. Com `requested`
+   * (referência recebida de outro worker do pipeline), a sessão nova vai para
+   * essa versão exata; sessão já presa a outra versão → 'hash-mismatch'.
+   */
+  async pinSession(sessionId: string, protocolId: string, requested?: PIRVersionRef): Promise<ResolvedProtocol> {
+    const pinned = await this.resolveSession(sessionId);
+
+    if (pinned) {
+      if (requested && requested.content_hash !== pinned.content_hash) {
+        throw new ProtocolReloadError(
+          'hash-mismatch',
+          `Session ${sessionId} is pinned to ${pinned.protocol_id} v${pinned.version} (${pinned.content_hash}), request references v${requested.version} (${requested.content_hash})`
+        );
+      }
+      return pinned;
+    }
+
+    const target = requested ? await this.resolveRef(requested) : await this.resolveActive(protocolId);
+    await this.store.pinSession({
+      session_id: sessionId,
+      ...toVersionRef(target),
+      pinned_at: this.now().toISOString(),
+    });
+
+    return target;
+  }
+
+  async resolveSession(sessionId: string): Promise<ResolvedProtocol | null> {
+    const pin = await this.store.getSessionPin(sessionId);
+    return pin ? this.resolveVersion(pin.protocol_id, pin.version) : null;
+  }
+
+  async releaseSession(sessionId: string): Promise<void> {
+    await this.store.releaseSession(sessionId);
+  }
+
+  /**
+   * Registra o resultado de uma requisição processada sob uma versão
+   * Só conta para a versão ativa, dentro da janela de observação da ativação.
+   * Retorna o rollback quando a taxa de erro estoura a política.
+   */
+  async recordOutcome(
+    protocol: { protocol_id: string; version: string },
+    ok: boolean
+  ): Promise<ProtocolRollbackResult | null> {
+    const now = this.now().getTime();
+    let window = this.windows.get(protocol.protocol_id);
+
+    if (!window || window.version !== protocol.version) {
+      const pointer = await this.store.getActive(protocol.protocol_id);
+      if (!pointer || pointer.version !== protocol.version) return null; // Sessão presa a versão antiga
+
+      window = { version: pointer.version, activated_at: Date.parse(pointer.activated_at), total: 0, errors: 0 };
+      this.windows.set(protocol.protocol_id, window);
+    }
+
+    if (now - window.activated_at > durationMs(this.policy.observation_window)) return null;
+
+    window.total++;
+    if (!ok) window.errors++;
+
+    const errorRate = window.errors / window.total;
+    if (window.total < this.policy.min_requests || errorRate <= this.policy.max_error_rate) return null;
+
+    const active = await this.resolveVersion(protocol.protocol_id, protocol.version);
+    if (!active?.document.hot_reload_configuration.rollback_on_error) return null;
+
+    const pointer = await this.store.getActive(protocol.protocol_id);
+    if (!pointer?.previous || pointer.version !== protocol.version) return null;
+
+    const reason = `error rate ${(errorRate * 100).toFixed(1)}% (${window.errors}/${window.total}) within ${this.policy.observation_window} of activation exceeds ${(this.policy.max_error_rate * 100).toFixed(1)}%`;
+    console.warn(`[HOT-RELOAD] ${protocol.protocol_id} v${protocol.version}: ${reason}`);
+
+    return this.rollback(protocol.protocol_id, { actor: 'error-monitor', reason });
+  }
+
+  // ==========================================================================
+  // MONITOR LEGISLATIVO
+  // ==========================================================================
+
+  /**
+   * Consulta o monitor e aplica publicações novas (respeita check_interval, salvo `force`)
+   */
+  async checkSource(protocolId: string, options: { force?: boolean } = {}): Promise<ProtocolSourceCheckResult> {
+    const now = this.now();
+    const result: ProtocolSourceCheckResult = {
+      status: 'checked',
+      checked_at: now.toISOString(),
+      applied: [],
+      rejected: [],
+      ignored: [],
+    };
+
+    const active = await this.resolveActive(protocolId);
+    const configuration = active.document.hot_reload_configuration;
+
+    if (!configuration.enabled) return { ...result, status: 'disabled' };
+    if (!this.monitor) return { ...result, status: 'no-monitor' };
+
+    const checkpoint = await this.store.getCheckpoint(protocolId);
+    if (
+      checkpoint &&
+      !options.force &&
+      now.getTime() - Date.parse(checkpoint.checked_at) < durationMs(configuration.check_interval)
+    ) {
+      return { ...result, status: 'not-due', checked_at: checkpoint.checked_at };
+    }
+
+    let publications;
+    try {
+      publications = await this.monitor.fetchPublications(checkpoint?.last_published_at);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.send(configuration, {
+        event: 'monitor_failed',
+        severity: 'warning',
+        protocol_id: protocolId,
+        version: active.version,
+        summary: `Legislative monitor ${this.monitor.source} unavailable: ${message}`,
+      });
+      return { ...result, status: 'failed', error: message };
+    }
+
+    for (const publication of publications) {
+      const { publication_id: publicationId } = publication;
+
+      if (publication.protocol_id !== protocolId) {
+        result.ignored.push({ publication_id: publicationId, reason: `protocol ${publication.protocol_id}` });
+        continue;
+      }
+      if (!configuration.trigger_conditions.includes(publication.trigger)) {
+        result.ignored.push({ publication_id: publicationId, reason: `trigger ${publication.trigger} not in trigger_conditions` });
+        continue;
+      }
+
+      try {
+        const entry = await this.register(publication.document, `legislative_monitor:${publicationId}`);
+        await this.activate(protocolId, entry.version, {
+          actor: 'legislative_monitor',
+          reason: publication.title ?? publication.trigger,
+        });
+        result.applied.push(publicationId);
+      } catch (error) {
+        if (!(error instanceof ProtocolReloadError)) throw error;
+        if (error.reason === 'already-active') {
+          result.ignored.push({ publication_id: publicationId, reason: error.message });
+        } else {
+          result.rejected.push({ publication_id: publicationId, reason: error.message });
+        }
+      }
+    }
+
+    const latest = publications[publications.length - 1];
+    await this.store.setCheckpoint({
+      protocol_id: protocolId,
+      checked_at: result.checked_at,
+      last_published_at: latest?.published_at ?? checkpoint?.last_published_at,
+      last_publication_id: latest?.publication_id ?? checkpoint?.last_publication_id,
+    });
+
+    return result;
+  }
+
+  // ==========================================================================
+  // INTERNOS
+  // ==========================================================================
+
+  private async bindingsFor(document: PIRDocument): Promise<PIRBindingReport[]> {
+    return this.bindings ? this.bindings(document) : [];
+  }
+
+  private async setStatus(
+    protocolId: string,
+    version: string,
+    status: ProtocolVersionStatus,
+    reason?: string,
+    activatedAt?: string
+  ): Promise<void> {
+    const entry = await this.store.getVersion(protocolId, version);
+    if (!entry) return;
+
+    await this.store.putVersion({
+      ...entry,
+      status,
+      status_reason: reason,
+      activated_at: activatedAt ?? entry.activated_at,
+    });
+  }
+
+  private async send(
+    configuration: PIRHotReloadConfiguration,
+    notification: Omit<ProtocolNotification, 'recipients' | 'timestamp'>
+  ): Promise<void> {
+    await this.notifier.notify({
+      ...notification,
+      recipients: parseNotificationRecipients(configuration.notification),
+      timestamp: this.now().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * PIR Schema - Monitor legislativo (fonte de novas versões de protocolo)
+ *
+ * `hot_reload_configuration.source` aponta para o monitor que publica portarias
+ * e revisões de protocolo. Enquanto a API oficial não existe, o monitor é um
+ * feed JSON servido por HTTP (scripts/legislative-monitor.ts serve um arquivo local):
+ *
+ *   { "publications": [ {
+ *       "publication_id": "portaria-sms-82-2024-rev1",
+ *       "trigger": "protocol_update_released",
+ *       "protocol_id": "manchester_sp",
+ *       "version": "2.1",
+ *       "published_at": "2025-03-01T00:00:00Z",
+ *       "title": "...",
+ *       "document": { ...PIR } | "document_url": "https://..."
+ *   } ] }
+ *
+ * O documento chega como `unknown`: só vira PIRDocument depois do validador.
+ */
+
+export interface LegislativePublication {
+  publication_id: string;
+  trigger: string; // Comparado com hot_reload_configuration.trigger_conditions
+  protocol_id: string;
+  version: string;
+  published_at: string;
+  title?: string;
+  document: unknown;
+}
+
+export interface LegislativeMonitor {
+  readonly source: string;
+  /**
+   * Publicações posteriores a `since` (ISO 8601), em ordem de publicação
+   */
+  fetchPublications(since?: string): Promise<LegislativePublication[]>;
+}
+
+interface FeedPublication extends Omit<LegislativePublication, 'document'> {
+  document?: unknown;
+  document_url?: string;
+}
+
+function byPublicationDate(a: { published_at: string }, b: { published_at: string }): number {
+  return Date.parse(a.published_at) - Date.parse(b.published_at);
+}
+
+/**
+ * Monitor via feed HTTP (API legislativa ou o stand-in local)
+ */
+export class HttpLegislativeMonitor implements LegislativeMonitor {
+  readonly source: string;
+
+  constructor(
+    private feedUrl: string,
+    private fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {
+    this.source = feedUrl;
+  }
+
+  async fetchPublications(since?: string): Promise<LegislativePublication[]> {
+    const url = new URL(this.feedUrl);
+    if (since) url.searchParams.set('since', since);
+
+    const response = await this.fetcher(url.toString(), { headers: { Accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Legislative monitor ${this.feedUrl} responded ${response.status}`);
+    }
+
+    const feed = (await response.json()) as { publications?: FeedPublication[] };
+    const entries = (feed.publications ?? [])
+      .filter((entry) => !since || Date.parse(entry.published_at) > Date.parse(since))
+      .sort(byPublicationDate);
+
+    const publications: LegislativePublication[] = [];
+    for (const { document_url, document, ...entry } of entries) {
+      publications.push({ ...entry, document: document ?? (await this.fetchDocument(document_url, entry.publication_id)) });
+    }
+    return publications;
+  }
+
+  private async fetchDocument(documentUrl: string | undefined, publicationId: string): Promise<unknown> {
+    if (!documentUrl) {
+      throw new Error(`Publication ${publicationId} has neither document nor document_url`);
+    }
+
+    const response = await this.fetcher(new URL(documentUrl, this.feedUrl).toString());
+    if (!response.ok) {
+      throw new Error(`Publication ${publicationId}: document fetch responded ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Monitor com publicações fixas (desenvolvimento local e replays)
+ */
+export class StaticLegislativeMonitor implements LegislativeMonitor {
+  readonly source = 'static';
+
+  constructor(private publications: LegislativePublication[]) {}
+
+  async fetchPublications(since?: string): Promise<LegislativePublication[]> {
+    return this.publications
+      .filter((publication) => !since || Date.parse(publication.published_at) > Date.parse(since))
+      .sort(byPublicationDate);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * PIR Schema - Notificações do hot-reload
+ *
+ * Destinatários vêm de `hot_reload_configuration.notification`
+ * ("system_admin + clinical_director"). Toda ativação, rejeição e rollback
+ * gera uma notificação: troca de protocolo clínico nunca é silenciosa.
+ */
+
+export type ProtocolNotificationEvent = 'activated' | 'activation_rejected' | 'rolled_back' | 'monitor_failed';
+
+export interface ProtocolNotification {
+  event: ProtocolNotificationEvent;
+  severity: 'info' | 'warning' | 'critical';
+  recipients: string[];
+  protocol_id: string;
+  version: string;
+  previous_version?: string;
+  summary: string;
+  details?: Record<string, unknown>;
+  timestamp: string;
+}
+
+export interface ProtocolNotifier {
+  notify(notification: ProtocolNotification): Promise<void>;
+}
+
+/**
+ * "system_admin + clinical_director" → ['system_admin', 'clinical_director']
+ */
+export function parseNotificationRecipients(notification: string): string[] {
+  return notification
+    .split(/[+,;]/)
+    .map((recipient) => recipient.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Loga a notificação (padrão; visível em `wrangler tail`)
+ */
+export class ConsoleProtocolNotifier implements ProtocolNotifier {
+  async notify(notification: ProtocolNotification): Promise<void> {
+    const line = `[HOT-RELOAD] ${notification.event} ${notification.protocol_id} v${notification.version} → ${notification.recipients.join(', ')}: ${notification.summary}`;
+
+    if (notification.severity === 'info') console.log(line);
+    else console.warn(line);
+  }
+}
+
+/**
+ * Envia a notificação por POST JSON (canal de alertas da operação)
+ * Falha de entrega é logada, nunca interrompe a ativação ou o rollback.
+ */
+export class WebhookProtocolNotifier implements ProtocolNotifier {
+  constructor(
+    private url: string,
+    private fetcher: typeof fetch = (input, init) => fetch(input, init)
+  ) {}
+
+  async notify(notification: ProtocolNotification): Promise<void> {
+    try {
+      const response = await this.fetcher(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+
+      if (!response.ok) {
+        console.error(`[HOT-RELOAD] Notification webhook responded ${response.status}`);
+      }
+    } catch (error) {
+      console.error('[HOT-RELOAD] Notification webhook failed:', error);
+    }
+  }
+}
+
+/**
+ * Entrega a vários canais (ex.: console + webhook)
+ */
+export class CompositeProtocolNotifier implements ProtocolNotifier {
+  constructor(private notifiers: ProtocolNotifier[]) {}
+
+  async notify(notification: ProtocolNotification): Promise<void> {
+    await Promise.all(this.notifiers.map((notifier) => notifier.notify(notification)));
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import {
+  KVProtocolStore,
+  MemoryProtocolStore,
+  computePIRHash,
+  toVersionRef,
+  type StoredProtocolVersion,
+} from './protocol-store';
+
+const PIR = loadManchesterSPProtocol();
+
+interface KVEntry {
+  value: string;
+  metadata?: unknown;
+  options?: KVNamespacePutOptions;
+}
+
+// KV em memória: só o que o store usa (get json, put com metadata/TTL, delete, list paginado)
+class FakeKV {
+  entries: Map<string, KVEntry> = new Map();
+
+  constructor(private pageSize = 1000) {}
+
+  async get(key: string, type: 'json'): Promise<unknown> {
+    const entry = this.entries.get(key);
+    return entry && type === 'json' ? JSON.parse(entry.value) : null;
+  }
+
+  async put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void> {
+    this.entries.set(key, { value, metadata: options?.metadata, options });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list(options: { prefix?: string; cursor?: string }) {
+    const keys = Array.from(this.entries.keys())
+      .filter((key) => key.startsWith(options.prefix ?? ''))
+      .sort();
+    const start = options.cursor ? Number(options.cursor) : 0;
+    const page = keys.slice(start, start + this.pageSize);
+    const complete = start + this.pageSize >= keys.length;
+
+    return {
+      keys: page.map((name) => ({ name, metadata: this.entries.get(name)!.metadata })),
+      list_complete: complete,
+      cursor: complete ? undefined : String(start + this.pageSize),
+    };
+  }
+
+  asNamespace(): KVNamespace {
+    return this as unknown as KVNamespace;
+  }
+}
+
+async function storedVersion(version: string): Promise<StoredProtocolVersion> {
+  const document = { ...PIR, version };
+  return {
+    protocol_id: PIR.protocol_id,
+    version,
+    content_hash: await computePIRHash(document),
+    status: 'staged',
+    source: 'api',
+    registered_at: '2026-01-15T12:00:00.000Z',
+    document,
+  };
+}
+
+const pin = {
+  ...toVersionRef({ protocol_id: PIR.protocol_id, version: PIR.version, content_hash: 'sha256:ab' }),
+  session_id: 'session-1',
+  pinned_at: '2026-01-15T12:00:00.000Z',
+};
+
+describe('computePIRHash', () => {
+  it('does not depend on key order', async () => {
+    const reordered = Object.fromEntries(Object.entries(PIR).reverse()) as typeof PIR;
+    expect(await computePIRHash(reordered)).toBe(await computePIRHash(PIR));
+    expect(await computePIRHash({ ...PIR, version: '3.0' })).not.toBe(await computePIRHash(PIR));
+  });
+});
+
+describe('MemoryProtocolStore', () => {
+  it('lists version summaries without the document', async () => {
+    const store = new MemoryProtocolStore();
+    await store.putVersion(await storedVersion('2.0'));
+    await store.putVersion(await storedVersion('2.1'));
+
+    const versions = await store.listVersions(PIR.protocol_id);
+    expect(versions.map((entry) => entry.version)).toEqual(['2.0', '2.1']);
+    expect(versions[0]).not.toHaveProperty('document');
+    expect(await store.listVersions('outro-protocolo')).toEqual([]);
+  });
+});
+
+describe('KVProtocolStore', () => {
+  it('stores versions with their summary as metadata and lists across pages', async () => {
+    const kv = new FakeKV(2);
+    const store = new KVProtocolStore(kv.asNamespace());
+    for (const version of ['2.0', '2.1', '2.2']) await store.putVersion(await storedVersion(version));
+
+    expect(kv.entries.get(`pir:${PIR.protocol_id}:version:2.1`)?.metadata).not.toHaveProperty('document');
+    expect((await store.getVersion(PIR.protocol_id, '2.1'))?.document.version).toBe('2.1');
+    expect((await store.listVersions(PIR.protocol_id)).map((entry) => entry.version)).toEqual(['2.0', '2.1', '2.2']);
+  });
+
+  it('expires session pins after 24h by default', async () => {
+    const kv = new FakeKV();
+    const store = new KVProtocolStore(kv.asNamespace());
+
+    await store.pinSession(pin);
+    expect(kv.entries.get('pir-session:session-1')?.options).toEqual({ expirationTtl: 24 * 60 * 60 });
+    expect(await store.getSessionPin('session-1')).toEqual(pin);
+
+    await store.releaseSession('session-1');
+    expect(await store.getSessionPin('session-1')).toBeNull();
+  });
+
+  it('keeps pins forever when the TTL is null', async () => {
+    const kv = new FakeKV();
+    await new KVProtocolStore(kv.asNamespace(), null).pinSession(pin);
+    expect(kv.entries.get('pir-session:session-1')?.options).toBeUndefined();
+  });
+
+  it('keeps the active pointer and checkpoint per protocol', async () => {
+    const store = new KVProtocolStore(new FakeKV().asNamespace());
+    const pointer = { ...toVersionRef(await storedVersion('2.0')), activated_at: '2026-01-15T12:00:00.000Z', activated_by: 'bootstrap' };
+
+    await store.setActive(pointer);
+    await store.setCheckpoint({ protocol_id: PIR.protocol_id, checked_at: '2026-01-15T13:00:00.000Z' });
+
+    expect(await store.getActive(PIR.protocol_id)).toEqual(pointer);
+    expect(await store.getCheckpoint(PIR.protocol_id)).toMatchObject({ checked_at: '2026-01-15T13:00:00.000Z' });
+    expect(await store.getActive('outro-protocolo')).toBeNull();
+  });
+});
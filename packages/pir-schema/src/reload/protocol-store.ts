@@ -0,0 +1,253 @@
+/**
+ * PIR Schema - Protocol store (versões de PIR, ponteiro ativo e pinning de sessões)
+ *
+ * Cada versão registrada é imutável e identificada por (protocol_id, version)
+ * + hash do conteúdo. A troca de versão é a escrita de um único ponteiro
+ * ("active"), então sessões novas passam a usar a versão nova de uma vez,
+ * enquanto sessões em andamento continuam presas (pin) à versão com que começaram.
+ *
+ * Implementações:
+ * - MemoryProtocolStore: isolate único, CLI e desenvolvimento local
+ * - KVProtocolStore: Cloudflare KV, compartilhado entre isolates e workers
+ */
+
+import type { PIRDocument } from '../types/pir';
+
+/**
+ * Identifica exatamente o PIR usado numa decisão: versão + hash do conteúdo
+ * Sessões e eventos de evidência carregam esta referência (auditoria de 20 anos).
+ */
+export interface PIRVersionRef {
+  protocol_id: string;
+  version: string;
+  content_hash: string; // "sha256:<hex>" do JSON canônico
+}
+
+export type ProtocolVersionStatus = 'staged' | 'active' | 'superseded' | 'rejected' | 'rolled_back';
+
+export interface ProtocolVersionSummary extends PIRVersionRef {
+  status: ProtocolVersionStatus;
+  source: string; // "bundled", "api", "legislative_monitor:<publication_id>"
+  registered_at: string;
+  activated_at?: string;
+  status_reason?: string;
+}
+
+export interface StoredProtocolVersion extends ProtocolVersionSummary {
+  document: PIRDocument;
+}
+
+export interface ActiveProtocolPointer extends PIRVersionRef {
+  activated_at: string;
+  activated_by: string;
+  previous?: { version: string; content_hash: string };
+}
+
+export interface SessionProtocolPin extends PIRVersionRef {
+  session_id: string;
+  pinned_at: string;
+}
+
+/**
+ * Estado do monitor legislativo (última checagem e última publicação vista)
+ */
+export interface ProtocolMonitorCheckpoint {
+  protocol_id: string;
+  checked_at: string;
+  last_published_at?: string; // `since` da próxima consulta
+  last_publication_id?: string;
+}
+
+export interface ProtocolStore {
+  putVersion(entry: StoredProtocolVersion): Promise<void>;
+  getVersion(protocolId: string, version: string): Promise<StoredProtocolVersion | null>;
+  listVersions(protocolId: string): Promise<ProtocolVersionSummary[]>;
+
+  getActive(protocolId: string): Promise<ActiveProtocolPointer | null>;
+  setActive(pointer: ActiveProtocolPointer): Promise<void>;
+
+  pinSession(pin: SessionProtocolPin): Promise<void>;
+  getSessionPin(sessionId: string): Promise<SessionProtocolPin | null>;
+  releaseSession(sessionId: string): Promise<void>;
+
+  getCheckpoint(protocolId: string): Promise<ProtocolMonitorCheckpoint | null>;
+  setCheckpoint(checkpoint: ProtocolMonitorCheckpoint): Promise<void>;
+}
+
+// ============================================================================
+// HASH DE CONTEÚDO
+// ============================================================================
+
+/**
+ * JSON com chaves ordenadas: o mesmo documento gera o mesmo hash
+ * independente da ordem de serialização de quem o enviou
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Só os campos da referência (descarta documento, status, datas...)
+ */
+export function toVersionRef(protocol: PIRVersionRef): PIRVersionRef {
+  return { protocol_id: protocol.protocol_id, version: protocol.version, content_hash: protocol.content_hash };
+}
+
+/**
+ * Hash SHA-256 do documento PIR ("sha256:<hex>")
+ */
+export async function computePIRHash(document: PIRDocument): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalJSON(document));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `sha256:${hex}`;
+}
+
+function summarize(entry: StoredProtocolVersion): ProtocolVersionSummary {
+  const { document: _document, ...summary } = entry;
+  return summary;
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+export class MemoryProtocolStore implements ProtocolStore {
+  private versions: Map<string, StoredProtocolVersion> = new Map();
+  private active: Map<string, ActiveProtocolPointer> = new Map();
+  private pins: Map<string, SessionProtocolPin> = new Map();
+  private checkpoints: Map<string, ProtocolMonitorCheckpoint> = new Map();
+
+  async putVersion(entry: StoredProtocolVersion): Promise<void> {
+    this.versions.set(`${entry.protocol_id}@${entry.version}`, entry);
+  }
+
+  async getVersion(protocolId: string, version: string): Promise<StoredProtocolVersion | null> {
+    return this.versions.get(`${protocolId}@${version}`) ?? null;
+  }
+
+  async listVersions(protocolId: string): Promise<ProtocolVersionSummary[]> {
+    return Array.from(this.versions.values())
+      .filter((entry) => entry.protocol_id === protocolId)
+      .map(summarize);
+  }
+
+  async getActive(protocolId: string): Promise<ActiveProtocolPointer | null> {
+    return this.active.get(protocolId) ?? null;
+  }
+
+  async setActive(pointer: ActiveProtocolPointer): Promise<void> {
+    this.active.set(pointer.protocol_id, pointer);
+  }
+
+  async pinSession(pin: SessionProtocolPin): Promise<void> {
+    this.pins.set(pin.session_id, pin);
+  }
+
+  async getSessionPin(sessionId: string): Promise<SessionProtocolPin | null> {
+    return this.pins.get(sessionId) ?? null;
+  }
+
+  async releaseSession(sessionId: string): Promise<void> {
+    this.pins.delete(sessionId);
+  }
+
+  async getCheckpoint(protocolId: string): Promise<ProtocolMonitorCheckpoint | null> {
+    return this.checkpoints.get(protocolId) ?? null;
+  }
+
+  async setCheckpoint(checkpoint: ProtocolMonitorCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.protocol_id, checkpoint);
+  }
+}
+
+// ============================================================================
+// KV STORE
+// ============================================================================
+
+/**
+ * Chaves:
+ *   pir:{protocol_id}:version:{version}   documento + resumo (resumo também nos metadados, para list)
+ *   pir:{protocol_id}:active              ponteiro da versão ativa
+ *   pir:{protocol_id}:checkpoint          estado do monitor legislativo
+ *   pir-session:{session_id}              pin da sessão (TTL configurável; null = permanente)
+ *
+ * Versões nunca expiram: a trilha de auditoria precisa reconstruir o PIR
+ * usado por qualquer sessão.
+ */
+export class KVProtocolStore implements ProtocolStore {
+  constructor(
+    private kv: KVNamespace,
+    private pinTtlSeconds: number | null = 24 * 60 * 60 // null = pin permanente (auditoria)
+  ) {}
+
+  async putVersion(entry: StoredProtocolVersion): Promise<void> {
+    await this.kv.put(`pir:${entry.protocol_id}:version:${entry.version}`, JSON.stringify(entry), {
+      metadata: summarize(entry),
+    });
+  }
+
+  async getVersion(protocolId: string, version: string): Promise<StoredProtocolVersion | null> {
+    return this.kv.get<StoredProtocolVersion>(`pir:${protocolId}:version:${version}`, 'json');
+  }
+
+  async listVersions(protocolId: string): Promise<ProtocolVersionSummary[]> {
+    const summaries: ProtocolVersionSummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list<ProtocolVersionSummary>({ prefix: `pir:${protocolId}:version:`, cursor });
+      for (const key of page.keys) {
+        if (key.metadata) summaries.push(key.metadata);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return summaries;
+  }
+
+  async getActive(protocolId: string): Promise<ActiveProtocolPointer | null> {
+    return this.kv.get<ActiveProtocolPointer>(`pir:${protocolId}:active`, 'json');
+  }
+
+  async setActive(pointer: ActiveProtocolPointer): Promise<void> {
+    await this.kv.put(`pir:${pointer.protocol_id}:active`, JSON.stringify(pointer));
+  }
+
+  async pinSession(pin: SessionProtocolPin): Promise<void> {
+    await this.kv.put(
+      `pir-session:${pin.session_id}`,
+      JSON.stringify(pin),
+      this.pinTtlSeconds === null ? undefined : { expirationTtl: this.pinTtlSeconds }
+    );
+  }
+
+  async getSessionPin(sessionId: string): Promise<SessionProtocolPin | null> {
+    return this.kv.get<SessionProtocolPin>(`pir-session:${sessionId}`, 'json');
+  }
+
+  async releaseSession(sessionId: string): Promise<void> {
+    await this.kv.delete(`pir-session:${sessionId}`);
+  }
+
+  async getCheckpoint(protocolId: string): Promise<ProtocolMonitorCheckpoint | null> {
+    return this.kv.get<ProtocolMonitorCheckpoint>(`pir:${protocolId}:checkpoint`, 'json');
+  }
+
+  async setCheckpoint(checkpoint: ProtocolMonitorCheckpoint): Promise<void> {
+    await this.kv.put(`pir:${checkpoint.protocol_id}:checkpoint`, JSON.stringify(checkpoint));
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '../protocols/manchester-sp';
+import { SlotRegistry } from './slot-registry';
+
+const PIR = loadManchesterSPProtocol();
+const registry = new SlotRegistry(PIR);
+
+describe('SlotRegistry', () => {
+  it('resolves canonical ids, aliases and structure fields', () => {
+    expect(registry.resolve('glucose_level')).toEqual({ slot_id: 'glucose_level' });
+    expect(registry.resolve('capillary_glucose')).toEqual({ slot_id: 'glucose_level' });
+    expect(registry.resolve('spo2')).toEqual({ slot_id: 'oxygen_saturation' });
+    expect(registry.resolve('systolic_bp')).toEqual({ slot_id: 'blood_pressure', field: 'systolic' });
+    expect(registry.resolve('blood_pressure.diastolic')).toEqual({ slot_id: 'blood_pressure', field: 'diastolic' });
+    expect(registry.resolve('lactate')).toBeUndefined();
+  });
+
+  it('returns unknown names unchanged as canonical id', () => {
+    expect(registry.canonicalId('pulse')).toBe('heart_rate');
+    expect(registry.canonicalId('pas')).toBe('blood_pressure');
+    expect(registry.canonicalId('lactate')).toBe('lactate');
+  });
+
+  it('takes unit, display name and required flag from the PIR', () => {
+    expect(registry.get('temperature')).toMatchObject({ unit: 'celsius', data_type: 'float', aliases: ['temp', 'body_temperature'] });
+    expect(registry.get('glucose_level')?.unit).toBe('mg/dL');
+    expect(registry.get('blood_pressure')?.fields).toEqual([
+      { field: 'systolic', data_type: 'integer', aliases: ['systolic_bp', 'systolic', 'pas'] },
+      { field: 'diastolic', data_type: 'integer', aliases: ['diastolic_bp', 'diastolic', 'pad'] },
+    ]);
+    expect(registry.displayName('capillary_glucose')).toBe('Glicemia Capilar');
+    expect(registry.displayName('lactate')).toBe('lactate');
+    expect(registry.isRequired('spo2')).toBe(true);
+    expect(registry.isRequired('capillary_glucose')).toBe(false);
+    expect(registry.requiredSlots()).toEqual([
+      'chief_complaint',
+      'temperature',
+      'heart_rate',
+      'blood_pressure',
+      'oxygen_saturation',
+      'consciousness_level',
+      'bleeding_present',
+      'symptom_onset',
+      'allergy_history',
+      'respiratory_rate',
+    ]);
+  });
+});
+
+describe('SlotRegistry.normalize', () => {
+  it('renames aliases and composes flat fields into the slot object', () => {
+    expect(registry.normalize({ systolic_bp: 120, diastolic_bp: 80, capillary_glucose: 95, hr: 88 })).toEqual({
+      blood_pressure: { systolic: 120, diastolic: 80 },
+      glucose_level: 95,
+      heart_rate: 88,
+    });
+  });
+
+  it('keeps the canonical value over an alias in either order', () => {
+    expect(registry.normalize({ spo2: 90, oxygen_saturation: 94 })).toEqual({ oxygen_saturation: 94 });
+    expect(registry.normalize({ oxygen_saturation: 94, spo2: 90 })).toEqual({ oxygen_saturation: 94 });
+  });
+
+  it('keeps the first of two aliases of the same slot', () => {
+    expect(registry.normalize({ glucose: 95, blood_glucose: 110 })).toEqual({ glucose_level: 95 });
+  });
+
+  it('does not let an empty canonical slot erase a value collected via alias', () => {
+    expect(registry.normalize({ temperature: null, temp: 38.5 })).toEqual({ temperature: 38.5 });
+    expect(registry.normalize({ temperature: null })).toEqual({ temperature: null });
+  });
+
+  it('merges a canonical slot object over the composed fields', () => {
+    expect(registry.normalize({ systolic_bp: 120, diastolic_bp: 80, blood_pressure: { systolic: 130 } })).toEqual({
+      blood_pressure: { systolic: 130, diastolic: 80 },
+    });
+  });
+
+  it('passes unknown keys through and drops undefined values', () => {
+    expect(registry.normalize({ session_id: 's-1', queue_size: 4, pain: undefined, eva: 7 })).toEqual({
+      session_id: 's-1',
+      queue_size: 4,
+      pain_score: 7,
+    });
+  });
+
+  it('returns an empty state for null and undefined', () => {
+    expect(registry.normalize(null)).toEqual({});
+    expect(registry.normalize(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * PIR Schema - Registro canônico de slots
+ *
+ * Fonte única de ID, tipo, unidade, nome de exibição, obrigatoriedade e aliases
+ * de cada slot. Os IDs canônicos são os do PIR (blood_pressure, glucose_level);
+ * nomes legados (systolic_bp, capillary_glucose, spo2...) são aliases.
+ *
+ * Todo worker normaliza o estado de slots na borda (request de entrada), então
+ * guards e tasks sempre leem os IDs canônicos:
+ *
+ *   registry.normalize({ systolic_bp: 120, diastolic_bp: 80, capillary_glucose: 95 })
+ *   → { blood_pressure: { systolic: 120, diastolic: 80 }, glucose_level: 95 }
+ */
+
+import type { PIRDocument, PIRSlotDataType, PIRSlotType } from '../types/pir';
+
+export interface SlotFieldDefinition {
+  field: string;
+  data_type: PIRSlotDataType;
+  aliases: string[]; // Nomes planos equivalentes (ex: systolic_bp → blood_pressure.systolic)
+}
+
+export interface SlotDefinition {
+  slot_id: string;
+  display_name: string;
+  type: PIRSlotType;
+  data_type: PIRSlotDataType;
+  unit?: string;
+  required: boolean;
+  aliases: string[];
+  fields: SlotFieldDefinition[]; // Decomposição estrutural de slots object
+}
+
+/**
+ * Referência resolvida: slot inteiro ou campo de slot object
+ */
+export interface SlotReference {
+  slot_id: string;
+  field?: string;
+}
+
+/**
+ * Aliases por slot canônico (nomes usados por workers, devices e versões antigas)
+ */
+const SLOT_ALIASES: Record<string, string[]> = {
+  chief_complaint: ['queixa_principal'],
+  pain_score: ['pain', 'eva'],
+  temperature: ['temp', 'body_temperature'],
+  heart_rate: ['hr', 'pulse', 'pulse_rate'],
+  blood_pressure: ['bp'],
+  oxygen_saturation: ['spo2', 'sp_o2', 'o2_saturation'],
+  respiratory_rate: ['rr', 'respiration_rate'],
+  glucose_level: ['capillary_glucose', 'glucose', 'blood_glucose'],
+  previous_medical_history: ['medical_history', 'past_medical_history'],
+  medications_in_use: ['medications', 'current_medications'],
+  allergy_history: ['allergies'],
+  age: ['patient_age', 'age_years', 'idade'],
+  sex: ['gender', 'sexo'],
+  pregnancy_status: ['pregnancy'],
+  gestational_age: ['gestational_age_weeks', 'idade_gestacional'],
+  weight: ['body_weight', 'weight_kg', 'peso'],
+  height: ['body_height', 'height_cm', 'length', 'altura', 'comprimento'],
+};
+
+/**
+ * Aliases planos de campos de slots object ("slot.campo" → nomes)
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  'blood_pressure.systolic': ['systolic_bp', 'systolic', 'pas'],
+  'blood_pressure.diastolic': ['diastolic_bp', 'diastolic', 'pad'],
+};
+
+// Um registro por documento: versões resolvidas do protocol store são objetos estáveis no isolate
+const REGISTRIES = new WeakMap<PIRDocument, SlotRegistry>();
+
+export class SlotRegistry {
+  private slots = new Map<string, SlotDefinition>();
+  private references = new Map<string, SlotReference>();
+
+  /**
+   * Registro do documento (construído uma vez por versão do PIR)
+   */
+  static forDocument(document: PIRDocument): SlotRegistry {
+    let registry = REGISTRIES.get(document);
+    if (!registry) {
+      registry = new SlotRegistry(document);
+      REGISTRIES.set(document, registry);
+    }
+    return registry;
+  }
+
+  constructor(document: PIRDocument) {
+    for (const slot of document.slots) {
+      const fields = Object.entries(slot.structure || {}).map(([field, dataType]) => ({
+        field,
+        data_type: dataType,
+        aliases: FIELD_ALIASES[`${slot.slot_id}.${field}`] || [],
+      }));
+
+      const definition: SlotDefinition = {
+        slot_id: slot.slot_id,
+        display_name: slot.name,
+        type: slot.type,
+        data_type: slot.data_type,
+        unit: slot.unit,
+        required: slot.required,
+        aliases: SLOT_ALIASES[slot.slot_id] || [],
+        fields,
+      };
+
+      this.slots.set(slot.slot_id, definition);
+    }
+
+    // Índice de nomes → referência (canônicos por último: nunca são sombreados por alias)
+    for (const definition of this.slots.values()) {
+      for (const alias of definition.aliases) {
+        this.references.set(alias, { slot_id: definition.slot_id });
+      }
+      for (const field of definition.fields) {
+        for (const alias of field.aliases) {
+          this.references.set(alias, { slot_id: definition.slot_id, field: field.field });
+        }
+        this.references.set(`${definition.slot_id}.${field.field}`, { slot_id: definition.slot_id, field: field.field });
+      }
+    }
+    for (const slotId of this.slots.keys()) {
+      this.references.set(slotId, { slot_id: slotId });
+    }
+  }
+
+  list(): SlotDefinition[] {
+    return Array.from(this.slots.values());
+  }
+
+  get(slotId: string): SlotDefinition | undefined {
+    return this.slots.get(slotId);
+  }
+
+  /**
+   * Resolve ID canônico, alias ou campo ("systolic_bp", "blood_pressure.systolic")
+   */
+  resolve(name: string): SlotReference | undefined {
+    return this.references.get(name);
+  }
+
+  /**
+   * ID canônico do slot (nomes desconhecidos voltam inalterados)
+   */
+  canonicalId(name: string): string {
+    return this.references.get(name)?.slot_id ?? name;
+  }
+
+  isRequired(slotId: string): boolean {
+    return this.get(this.canonicalId(slotId))?.required ?? false;
+  }
+
+  displayName(slotId: string): string {
+    return this.get(this.canonicalId(slotId))?.display_name ?? slotId;
+  }
+
+  requiredSlots(): string[] {
+    return this.list()
+      .filter((slot) => slot.required)
+      .map((slot) => slot.slot_id);
+  }
+
+  /**
+   * Normaliza estado de slots para IDs canônicos
+   * - aliases viram o ID canônico
+   * - campos planos (systolic_bp) compõem o slot object (blood_pressure.systolic)
+   * - valor canônico prevalece sobre alias em caso de conflito
+   * - chaves desconhecidas (contexto do worker, demografia...) passam inalteradas
+   */
+  normalize(state: Record<string, unknown> | null | undefined): Record<string, any> {
+    if (!state) return {};
+
+    const normalized: Record<string, any> = {};
+    const canonicalKeys: string[] = [];
+
+    for (const [key, value] of Object.entries(state)) {
+      if (value === undefined) continue;
+
+      const reference = this.references.get(key);
+      if (!reference) {
+        normalized[key] = value;
+        continue;
+      }
+
+      if (!reference.field && key === reference.slot_id) {
+        canonicalKeys.push(key);
+        continue;
+      }
+
+      if (reference.field) {
+        const current = normalized[reference.slot_id];
+        normalized[reference.slot_id] = {
+          ...(current && typeof current === 'object' ? current : {}),
+          [reference.field]: value,
+        };
+      } else if (!(reference.slot_id in normalized)) {
+        normalized[reference.slot_id] = value;
+      }
+    }
+
+    // Canônicos por último: slots object mesclam sobre campos compostos
+    for (const key of canonicalKeys) {
+      const value = state[key];
+      const current = normalized[key];
+      const isPlainObject = (candidate: unknown) => !!candidate && typeof candidate === 'object' && !Array.isArray(candidate);
+
+      // Canônico vazio não apaga valor coletado via alias
+      if (value === null && current !== undefined) continue;
+
+      normalized[key] = isPlainObject(value) && isPlainObject(current) ? { ...current, ...(value as object) } : value;
+    }
+
+    return normalized;
+  }
+}
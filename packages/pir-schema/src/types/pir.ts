@@ -0,0 +1,379 @@
+/**
+ * PIR Schema - Tipos do documento PIR (Protocol Intermediate Representation)
+ *
+ * Definição única do formato de manchester-sp-protocol.pir.json.
+ * Todos os workers (slots, tasks, guards, deadlines, rewards, evidence)
+ * consomem estes tipos em vez de re-declarar sua própria visão do protocolo.
+ */
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export type PIRSlotType = 'conversational' | 'device' | 'historical' | 'computed';
+
+export type PIRSlotDataType =
+  | 'string'
+  | 'integer'
+  | 'float'
+  | 'boolean'
+  | 'enum'
+  | 'object'
+  | 'array'
+  | 'duration';
+
+export type PIRTaskType = 'llm_reasoning' | 'local_inference' | 'api_call' | 'distributed';
+
+export type PIRGuardType = 'predictive' | 'reactive' | 'continuous';
+
+export type PIRGuardActionType = 'suggest' | 'alert' | 'block' | 'notify';
+
+export type PIRGuardPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export type PIRPriorityCode = 'RED' | 'ORANGE' | 'YELLOW' | 'GREEN' | 'BLUE';
+
+export type PIRHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Duração no formato PIR: "30s", "10m", "4.5h", "30d"
+ */
+export type PIRDuration = string;
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+export interface PIRSlotExtraction {
+  patterns?: string[];
+  fallback_question?: string;
+  context_window?: string; // "last_3_turns", "last_5_turns"
+  auto_fill?: string;
+  auto_assessment?: boolean;
+  protocol?: string;
+}
+
+export interface PIRNumericRange {
+  min?: number;
+  max?: number;
+}
+
+export interface PIRSlotValidation extends PIRNumericRange {
+  min_length?: number;
+  max_length?: number;
+  max_value?: number;
+  max_unit?: string;
+  critical_check?: boolean;
+  confirm_if_empty?: boolean;
+
+  // Validação por campo para slots object (ex: blood_pressure.systolic)
+  [field: string]: PIRNumericRange | number | string | boolean | undefined;
+}
+
+/**
+ * Faixas etárias do modo pediátrico (lactente < 1 ano, pré-escolar 1-4, escolar 5-11)
+ */
+export type PIRPediatricAgeBand = 'infant' | 'preschool' | 'school';
+
+export interface PIRSlotComputation {
+  rule: string;
+  inputs: string[];
+}
+
+export interface PIRSlot {
+  slot_id: string;
+  name: string;
+  type: PIRSlotType;
+  data_type: PIRSlotDataType;
+  required: boolean;
+
+  extraction?: PIRSlotExtraction;
+  validation?: PIRSlotValidation;
+
+  unit?: string;
+  device?: string;
+  structure?: Record<string, PIRSlotDataType>; // Campos de slots object
+  options?: string[]; // Valores válidos de slots enum
+  condition?: string; // Condição para coletar o slot
+
+  // Faixas de classificação: { nivel: "38.5-40.9" | ">=41.0" | "systolic<80" }
+  classification_thresholds?: Record<string, string>;
+
+  // Impacto na classificação: expressão ou lista de valores por nível
+  classification_impact?: Record<string, string | string[]>;
+
+  // Faixas pediátricas por faixa etária: substituem classification_thresholds
+  // do slot quando a idade cai na faixa (podem referenciar `age`, em anos)
+  pediatric_thresholds?: Partial<Record<PIRPediatricAgeBand, Record<string, string>>>;
+
+  flowchart_mapping?: {
+    keywords: Record<string, string[]>;
+  };
+
+  relevant_conditions?: string[];
+  computation?: PIRSlotComputation;
+}
+
+// ============================================================================
+// TASKS
+// ============================================================================
+
+export interface PIRTaskExecution {
+  local: boolean;
+  sync: boolean;
+  timeout?: PIRDuration;
+  model?: string;
+  max_tokens?: number;
+  endpoint?: string;
+  method?: PIRHttpMethod;
+  distributed_nodes?: string[];
+  periodic?: boolean;
+  interval?: PIRDuration;
+}
+
+export interface PIRRule {
+  if: string;
+  then: string;
+  discriminator?: string;
+}
+
+export interface PIRPriorityCategory {
+  color: string;
+  time_limit: string;
+  code: string;
+}
+
+export interface PIRTask {
+  task_id: string;
+  name: string;
+  type: PIRTaskType;
+  description: string;
+
+  execution: PIRTaskExecution;
+
+  inputs: string[];
+  outputs: string[];
+
+  condition?: string;
+  prompt_template?: string;
+
+  rules?: PIRRule[];
+  flowchart_rules?: Record<string, PIRRule[]>;
+
+  logic?: {
+    rule: string;
+    categories: Partial<Record<PIRPriorityCode, PIRPriorityCategory>>;
+  };
+
+  fallback?: {
+    on_timeout?: string;
+    on_error?: string;
+  };
+
+  deadlines?: Record<string, PIRDuration>;
+  triggers?: Record<string, string>;
+
+  reversible?: boolean;
+  required_by_regulation?: boolean;
+  legal_reference?: string;
+  real_time_update?: boolean;
+}
+
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+export interface PIRGuardAction {
+  type: PIRGuardActionType;
+  message: string; // Pode conter placeholders: {symptom_onset}, {priority}
+  show_reasoning?: boolean;
+  reasoning?: string;
+  priority?: PIRGuardPriority;
+  override_allowed: boolean;
+  override_requires?: string;
+  log_override?: boolean;
+  notify?: string;
+}
+
+export interface PIRGuard {
+  guard_id: string;
+  name: string;
+  type: PIRGuardType;
+  description: string;
+
+  trigger: {
+    condition: string;
+  };
+
+  action: PIRGuardAction;
+
+  escalation?: {
+    if_ignored: string;
+    after: PIRDuration;
+  };
+
+  countdown_timer?: boolean;
+  auto_activate?: string;
+  associated_task?: string;
+  auto_suggest?: string;
+  adaptive_behavior?: Record<string, string | boolean>;
+}
+
+// ============================================================================
+// DEADLINES
+// ============================================================================
+
+export interface PIRDeadlineComponent {
+  item: string;
+  time: PIRDuration;
+}
+
+export interface PIRDeadline {
+  deadline_id: string;
+  name: string;
+  description: string;
+  time_limit: PIRDuration;
+
+  // Exatamente um dos dois: classificação Manchester ou task de fluxo prioritário
+  priority?: PIRPriorityCode;
+  task_related?: string;
+
+  adaptive?: boolean;
+  relaxes_to?: PIRDuration;
+  relaxation_conditions?: string;
+
+  escalation?: {
+    if_delayed: string;
+    after: PIRDuration;
+  };
+
+  compliance_tracking?: boolean;
+  regulatory_requirement?: boolean;
+  quality_indicator?: boolean;
+  components?: PIRDeadlineComponent[];
+}
+
+// ============================================================================
+// REWARDS
+// ============================================================================
+
+export interface PIRReward {
+  reward_id: string;
+  name: string;
+  weight: number; // Negativo para penalidades
+  description: string;
+  criteria?: Record<string, string | number | boolean>;
+  value?: number;
+  feeds_rre?: boolean;
+}
+
+// ============================================================================
+// EVIDENCE
+// ============================================================================
+
+export interface PIRAuditTrail {
+  enabled: boolean;
+  storage: string;
+  retention_period: string;
+  compliance: string;
+  events_tracked: string[];
+  data_captured: Record<string, string>;
+  fhir_compliance?: {
+    resource_type: string;
+    profile: string;
+    mapping: Record<string, string>;
+  };
+}
+
+export interface PIRLearningConfiguration {
+  enabled: boolean;
+  feeds_rre: boolean;
+  aggregation_level: string;
+  phi_protection: string;
+  patterns_tracked: string[];
+  learning_outputs: Record<string, string>;
+  privacy_guarantees: {
+    no_individual_identification: boolean;
+    differential_privacy: boolean;
+    minimum_cohort_size: number;
+    geographic_aggregation: string;
+  };
+}
+
+export interface PIRQualityIndicator {
+  indicator: string;
+  target: string; // "< 5m", ">= 95%"
+  unit: string;
+}
+
+export interface PIREvidence {
+  audit_trail: PIRAuditTrail;
+  learning_configuration: PIRLearningConfiguration;
+  quality_indicators: {
+    tracked_metrics: PIRQualityIndicator[];
+    reporting_frequency: string;
+    dashboard_url?: string;
+  };
+  regulatory_compliance: Record<string, Record<string, unknown>>;
+}
+
+// ============================================================================
+// INTEGRATION POINTS & HOT RELOAD
+// ============================================================================
+
+export interface PIRIntegrationPoint {
+  endpoint: string;
+  protocol: 'https' | 'http' | 'websocket';
+  authentication: string;
+  payload: string;
+  response?: string;
+  frequency?: string;
+  storage?: string;
+  required?: boolean;
+  real_time?: boolean;
+}
+
+export interface PIRHotReloadConfiguration {
+  enabled: boolean;
+  check_interval: PIRDuration;
+  source: string;
+  trigger_conditions: string[];
+  rollback_on_error: boolean;
+  validation_before_apply: boolean;
+  notification: string;
+}
+
+// ============================================================================
+// DOCUMENTO PIR
+// ============================================================================
+
+export interface PIRMetadata {
+  description: string;
+  scope: string;
+  target_population: string;
+  language: string;
+  certification_required?: string;
+  created_at: string;
+  compiled_by: string;
+}
+
+export interface PIRDocument {
+  protocol_id: string;
+  protocol_name: string;
+  version: string;
+  jurisdiction: string;
+  legal_reference: string;
+  effective_date: string;
+  implementation_deadline?: string;
+
+  metadata: PIRMetadata;
+
+  slots: PIRSlot[];
+  tasks: PIRTask[];
+  guards: PIRGuard[];
+  deadlines: PIRDeadline[];
+  rewards: PIRReward[];
+
+  evidence: PIREvidence;
+  integration_points: Record<string, PIRIntegrationPoint>;
+  hot_reload_configuration: PIRHotReloadConfiguration;
+}
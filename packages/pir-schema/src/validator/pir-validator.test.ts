@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { MANCHESTER_SP_PROTOCOL_SOURCE } from '../protocols/manchester-sp';
+import { PIR_DURATION_PATTERN, PIRValidationError, parsePIR, validatePIR } from './pir-validator';
+
+// Cópia mutável do PIR de referência
+function reference(): any {
+  return structuredClone(MANCHESTER_SP_PROTOCOL_SOURCE);
+}
+
+function paths(input: unknown): string[] {
+  return validatePIR(input).errors.map((issue) => issue.path);
+}
+
+describe('validatePIR', () => {
+  it('accepts the reference protocol', () => {
+    const result = validatePIR(reference());
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.document?.protocol_id).toBe('manchester-sp-2024');
+  });
+
+  it('rejects non-objects at the root', () => {
+    expect(validatePIR(null).errors).toEqual([{ path: '$', message: 'expected object, got null' }]);
+    expect(validatePIR([]).valid).toBe(false);
+  });
+
+  it('points at the exact field', () => {
+    const doc = reference();
+    doc.slots[2].data_type = 'decimal';
+    delete doc.guards[1].trigger;
+
+    const result = validatePIR(doc);
+    expect(result.valid).toBe(false);
+    expect(result.document).toBeUndefined();
+    expect(result.errors).toContainEqual(expect.objectContaining({ path: '$.slots[2].data_type' }));
+    expect(result.errors).toContainEqual({ path: '$.guards[1].trigger', message: 'required field is missing' });
+  });
+
+  it('collects every error instead of stopping at the first', () => {
+    const doc = reference();
+    doc.slots[0].slot_id = 42;
+    doc.tasks[0].task_id = 42;
+    expect(paths(doc)).toEqual(expect.arrayContaining(['$.slots[0].slot_id', '$.tasks[0].task_id']));
+  });
+
+  it('flags duplicate ids per section', () => {
+    const doc = reference();
+    doc.slots.push({ ...doc.slots[0] });
+    const duplicate = validatePIR(doc).errors.find((issue) => issue.message.startsWith('duplicate id'));
+    expect(duplicate).toEqual({
+      path: `$.slots[${doc.slots.length - 1}].slot_id`,
+      message: `duplicate id "${doc.slots[0].slot_id}" (first defined at slots[0])`,
+    });
+  });
+
+  it('requires options on enum slots', () => {
+    const doc = reference();
+    const index = doc.slots.findIndex((slot: any) => slot.data_type === 'enum');
+    delete doc.slots[index].options;
+    expect(validatePIR(doc).errors).toContainEqual({ path: `$.slots[${index}].options`, message: 'enum slots must declare options' });
+  });
+
+  it('requires exactly one of priority or task_related on deadlines', () => {
+    const doc = reference();
+    const index = doc.deadlines.findIndex((deadline: any) => deadline.priority !== undefined);
+    doc.deadlines[index].task_related = doc.tasks[0].task_id;
+    expect(validatePIR(doc).errors).toContainEqual({
+      path: `$.deadlines[${index}]`,
+      message: 'exactly one of priority or task_related must be set',
+    });
+  });
+
+  it('requires an endpoint on api_call tasks', () => {
+    const doc = reference();
+    const index = doc.tasks.findIndex((task: any) => task.type === 'api_call');
+    delete doc.tasks[index].execution.endpoint;
+    expect(paths(doc)).toContain(`$.tasks[${index}].execution.endpoint`);
+  });
+});
+
+describe('parsePIR', () => {
+  it('returns the typed document', () => {
+    expect(parsePIR(reference()).slots.length).toBeGreaterThan(0);
+  });
+
+  it('throws PIRValidationError with every issue', () => {
+    const doc = reference();
+    for (const slot of doc.slots.slice(0, 7)) slot.slot_id = 0;
+
+    let error: unknown;
+    try {
+      parsePIR(doc);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PIRValidationError);
+    expect((error as PIRValidationError).issues).toHaveLength(7);
+    expect((error as PIRValidationError).message).toMatch(/^Invalid PIR document: \$\.slots\[0\]\.slot_id: .* \(\+2 more\)$/);
+  });
+});
+
+describe('PIR_DURATION_PATTERN', () => {
+  it('accepts integer and decimal durations with a unit', () => {
+    expect(['30s', '10m', '4.5h', '30d'].every((value) => PIR_DURATION_PATTERN.test(value))).toBe(true);
+    expect(['10', '10 m', '1w', '-5m'].some((value) => PIR_DURATION_PATTERN.test(value))).toBe(false);
+  });
+});
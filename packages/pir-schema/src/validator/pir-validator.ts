@@ -0,0 +1,575 @@
+/**
+ * PIR Schema - Validador de runtime
+ *
+ * Valida um documento PIR (JSON já parseado) contra os tipos de ../types/pir.
+ * Cada erro aponta o caminho exato no documento (ex: "guards[3].trigger.condition"),
+ * para que um protocolo malformado ou divergente seja rejeitado no carregamento
+ * em vez de se comportar de forma silenciosamente errada.
+ */
+
+import type { PIRDocument } from '../types/pir';
+
+export interface PIRValidationIssue {
+  path: string; // "$" = raiz do documento
+  message: string;
+}
+
+export interface PIRValidationResult {
+  valid: boolean;
+  errors: PIRValidationIssue[];
+  document?: PIRDocument; // Presente apenas quando valid === true
+}
+
+/**
+ * Erro lançado por parsePIR() quando o documento não é um PIR válido
+ */
+export class PIRValidationError extends Error {
+  readonly issues: PIRValidationIssue[];
+
+  constructor(issues: PIRValidationIssue[]) {
+    const preview = issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+    super(`Invalid PIR document: ${preview}${more}`);
+    this.name = 'PIRValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Formato de duração aceito pelo PIR: "30s", "10m", "4.5h", "30d"
+ */
+export const PIR_DURATION_PATTERN = /^\d+(\.\d+)?(s|m|h|d)$/;
+
+// ============================================================================
+// CHECKERS (combinadores de validação)
+// ============================================================================
+
+type Checker = (value: unknown, path: string, issues: PIRValidationIssue[]) => void;
+
+interface FieldSpec {
+  check: Checker;
+  required?: boolean;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function string(options: { enum?: readonly string[]; pattern?: RegExp; nonEmpty?: boolean } = {}): Checker {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, message: `expected string, got ${describe(value)}` });
+      return;
+    }
+    if (options.nonEmpty && value.trim().length === 0) {
+      issues.push({ path, message: 'expected non-empty string' });
+    }
+    if (options.enum && !options.enum.includes(value)) {
+      issues.push({ path, message: `expected one of ${options.enum.join('|')}, got "${value}"` });
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      issues.push({ path, message: `"${value}" does not match ${options.pattern}` });
+    }
+  };
+}
+
+function number(options: { integer?: boolean } = {}): Checker {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      issues.push({ path, message: `expected number, got ${describe(value)}` });
+      return;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `expected integer, got ${value}` });
+    }
+  };
+}
+
+function boolean(): Checker {
+  return (value, path, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+    }
+  };
+}
+
+function array(item: Checker, options: { nonEmpty?: boolean } = {}): Checker {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: `expected array, got ${describe(value)}` });
+      return;
+    }
+    if (options.nonEmpty && value.length === 0) {
+      issues.push({ path, message: 'expected non-empty array' });
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`, issues));
+  };
+}
+
+function record(item: Checker): Checker {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+    for (const [key, element] of Object.entries(value)) {
+      item(element, `${path}.${key}`, issues);
+    }
+  };
+}
+
+/**
+ * Objeto com campos conhecidos. Com strict, campos desconhecidos são erro
+ * (pega divergências como `id` no lugar de `guard_id`).
+ */
+function object(fields: Record<string, FieldSpec>, options: { strict?: boolean } = {}): Checker {
+  return (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push({ path, message: `expected object, got ${describe(value)}` });
+      return;
+    }
+
+    for (const [key, spec] of Object.entries(fields)) {
+      const fieldPath = `${path}.${key}`;
+      if (value[key] === undefined) {
+        if (spec.required) {
+          issues.push({ path: fieldPath, message: 'required field is missing' });
+        }
+        continue;
+      }
+      spec.check(value[key], fieldPath, issues);
+    }
+
+    if (options.strict) {
+      for (const key of Object.keys(value)) {
+        if (!(key in fields)) {
+          issues.push({ path: `${path}.${key}`, message: 'unknown field' });
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Aceita o valor se qualquer um dos checkers passar
+ */
+function anyOf(label: string, ...checkers: Checker[]): Checker {
+  return (value, path, issues) => {
+    for (const checker of checkers) {
+      const attempt: PIRValidationIssue[] = [];
+      checker(value, path, attempt);
+      if (attempt.length === 0) return;
+    }
+    issues.push({ path, message: `expected ${label}, got ${describe(value)}` });
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const req = (check: Checker): FieldSpec => ({ check, required: true });
+const opt = (check: Checker): FieldSpec => ({ check });
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+const PRIORITY_CODES = ['RED', 'ORANGE', 'YELLOW', 'GREEN', 'BLUE'] as const;
+const SLOT_DATA_TYPES = ['string', 'integer', 'float', 'boolean', 'enum', 'object', 'array', 'duration'] as const;
+
+const id = string({ pattern: ID_PATTERN });
+const text = string({ nonEmpty: true });
+const duration = string({ pattern: PIR_DURATION_PATTERN });
+const stringList = array(string());
+
+const range = object({ min: opt(number()), max: opt(number()) }, { strict: true });
+
+const rule = object(
+  {
+    if: req(text),
+    then: req(text),
+    discriminator: opt(string()),
+  },
+  { strict: true }
+);
+
+const slotSchema = object(
+  {
+    slot_id: req(id),
+    name: req(text),
+    type: req(string({ enum: ['conversational', 'device', 'historical', 'computed'] })),
+    data_type: req(string({ enum: SLOT_DATA_TYPES })),
+    required: req(boolean()),
+    extraction: opt(
+      object(
+        {
+          patterns: opt(stringList),
+          fallback_question: opt(text),
+          context_window: opt(string({ pattern: /^last_\d+_turns$/ })),
+          auto_fill: opt(string()),
+          auto_assessment: opt(boolean()),
+          protocol: opt(string()),
+        },
+        { strict: true }
+      )
+    ),
+    validation: opt(
+      record(anyOf('number, boolean, string or {min,max}', number(), boolean(), string(), range))
+    ),
+    unit: opt(string()),
+    device: opt(string()),
+    structure: opt(record(string({ enum: SLOT_DATA_TYPES }))),
+    options: opt(array(string(), { nonEmpty: true })),
+    condition: opt(text),
+    classification_thresholds: opt(record(text)),
+    classification_impact: opt(record(anyOf('string or string[]', text, stringList))),
+    pediatric_thresholds: opt(
+      object({ infant: opt(record(text)), preschool: opt(record(text)), school: opt(record(text)) }, { strict: true })
+    ),
+    flowchart_mapping: opt(object({ keywords: req(record(stringList)) }, { strict: true })),
+    relevant_conditions: opt(stringList),
+    computation: opt(object({ rule: req(text), inputs: req(stringList) }, { strict: true })),
+  },
+  { strict: true }
+);
+
+const taskSchema = object(
+  {
+    task_id: req(id),
+    name: req(text),
+    type: req(string({ enum: ['llm_reasoning', 'local_inference', 'api_call', 'distributed'] })),
+    description: req(text),
+    execution: req(
+      object(
+        {
+          local: req(boolean()),
+          sync: req(boolean()),
+          timeout: opt(duration),
+          model: opt(text),
+          max_tokens: opt(number({ integer: true })),
+          endpoint: opt(text),
+          method: opt(string({ enum: ['GET', 'POST', 'PUT', 'DELETE'] })),
+          distributed_nodes: opt(array(text, { nonEmpty: true })),
+          periodic: opt(boolean()),
+          interval: opt(duration),
+        },
+        { strict: true }
+      )
+    ),
+    inputs: req(stringList),
+    outputs: req(stringList),
+    condition: opt(text),
+    prompt_template: opt(text),
+    rules: opt(array(rule)),
+    flowchart_rules: opt(record(array(rule))),
+    logic: opt(
+      object(
+        {
+          rule: req(text),
+          categories: req(
+            record(object({ color: req(text), time_limit: req(text), code: req(text) }, { strict: true }))
+          ),
+        },
+        { strict: true }
+      )
+    ),
+    fallback: opt(object({ on_timeout: opt(string()), on_error: opt(string()) }, { strict: true })),
+    deadlines: opt(record(duration)),
+    triggers: opt(record(string())),
+    reversible: opt(boolean()),
+    required_by_regulation: opt(boolean()),
+    legal_reference: opt(string()),
+    real_time_update: opt(boolean()),
+  },
+  { strict: true }
+);
+
+const guardSchema = object(
+  {
+    guard_id: req(id),
+    name: req(text),
+    type: req(string({ enum: ['predictive', 'reactive', 'continuous'] })),
+    description: req(text),
+    trigger: req(object({ condition: req(text) }, { strict: true })),
+    action: req(
+      object(
+        {
+          type: req(string({ enum: ['suggest', 'alert', 'block', 'notify'] })),
+          message: req(text),
+          show_reasoning: opt(boolean()),
+          reasoning: opt(string()),
+          priority: opt(string({ enum: ['critical', 'high', 'medium', 'low'] })),
+          override_allowed: req(boolean()),
+          override_requires: opt(string()),
+          log_override: opt(boolean()),
+          notify: opt(string()),
+        },
+        { strict: true }
+      )
+    ),
+    escalation: opt(object({ if_ignored: req(text), after: req(duration) }, { strict: true })),
+    countdown_timer: opt(boolean()),
+    auto_activate: opt(id),
+    associated_task: opt(id),
+    auto_suggest: opt(string()),
+    adaptive_behavior: opt(record(anyOf('string or boolean', string(), boolean()))),
+  },
+  { strict: true }
+);
+
+const deadlineSchema = object(
+  {
+    deadline_id: req(id),
+    name: req(text),
+    description: req(text),
+    time_limit: req(duration),
+    priority: opt(string({ enum: PRIORITY_CODES })),
+    task_related: opt(id),
+    adaptive: opt(boolean()),
+    relaxes_to: opt(duration),
+    relaxation_conditions: opt(text),
+    escalation: opt(object({ if_delayed: req(text), after: req(duration) }, { strict: true })),
+    compliance_tracking: opt(boolean()),
+    regulatory_requirement: opt(boolean()),
+    quality_indicator: opt(boolean()),
+    components: opt(array(object({ item: req(text), time: req(duration) }, { strict: true }))),
+  },
+  { strict: true }
+);
+
+const rewardSchema = object(
+  {
+    reward_id: req(id),
+    name: req(text),
+    weight: req(number()),
+    description: req(text),
+    criteria: opt(record(anyOf('string, number or boolean', string(), number(), boolean()))),
+    value: opt(number()),
+    feeds_rre: opt(boolean()),
+  },
+  { strict: true }
+);
+
+const evidenceSchema = object({
+  audit_trail: req(
+    object({
+      enabled: req(boolean()),
+      storage: req(text),
+      retention_period: req(text),
+      compliance: req(text),
+      events_tracked: req(stringList),
+      data_captured: req(record(string())),
+      fhir_compliance: opt(
+        object({
+          resource_type: req(text),
+          profile: req(text),
+          mapping: req(record(string())),
+        })
+      ),
+    })
+  ),
+  learning_configuration: req(
+    object({
+      enabled: req(boolean()),
+      feeds_rre: req(boolean()),
+      aggregation_level: req(text),
+      phi_protection: req(text),
+      patterns_tracked: req(stringList),
+      learning_outputs: req(record(string())),
+      privacy_guarantees: req(
+        object({
+          no_individual_identification: req(boolean()),
+          differential_privacy: req(boolean()),
+          minimum_cohort_size: req(number({ integer: true })),
+          geographic_aggregation: req(text),
+        })
+      ),
+    })
+  ),
+  quality_indicators: req(
+    object({
+      tracked_metrics: req(array(object({ indicator: req(id), target: req(text), unit: req(text) }, { strict: true }))),
+      reporting_frequency: req(text),
+      dashboard_url: opt(string()),
+    })
+  ),
+  regulatory_compliance: req(record(object({}))),
+});
+
+const integrationPointSchema = object({
+  endpoint: req(text),
+  protocol: req(string({ enum: ['https', 'http', 'websocket'] })),
+  authentication: req(text),
+  payload: req(text),
+  response: opt(string()),
+  frequency: opt(string()),
+  storage: opt(string()),
+  required: opt(boolean()),
+  real_time: opt(boolean()),
+});
+
+const hotReloadSchema = object(
+  {
+    enabled: req(boolean()),
+    check_interval: req(duration),
+    source: req(text),
+    trigger_conditions: req(stringList),
+    rollback_on_error: req(boolean()),
+    validation_before_apply: req(boolean()),
+    notification: req(text),
+  },
+  { strict: true }
+);
+
+const documentSchema = object(
+  {
+    protocol_id: req(string({ pattern: /^[a-z0-9][a-z0-9_-]*$/ })),
+    protocol_name: req(text),
+    version: req(string({ pattern: /^\d+(\.\d+)*$/ })),
+    jurisdiction: req(text),
+    legal_reference: req(text),
+    effective_date: req(string({ pattern: /^\d{4}-\d{2}-\d{2}$/ })),
+    implementation_deadline: opt(string()),
+    metadata: req(
+      object({
+        description: req(text),
+        scope: req(text),
+        target_population: req(text),
+        language: req(text),
+        certification_required: opt(string()),
+        created_at: req(text),
+        compiled_by: req(text),
+      })
+    ),
+    slots: req(array(slotSchema, { nonEmpty: true })),
+    tasks: req(array(taskSchema)),
+    guards: req(array(guardSchema)),
+    deadlines: req(array(deadlineSchema)),
+    rewards: req(array(rewardSchema)),
+    evidence: req(evidenceSchema),
+    integration_points: req(record(integrationPointSchema)),
+    hot_reload_configuration: req(hotReloadSchema),
+  },
+  { strict: true }
+);
+
+// ============================================================================
+// REGRAS ESTRUTURAIS (além da forma de cada campo)
+// ============================================================================
+
+/**
+ * IDs únicos por seção e restrições entre campos de um mesmo elemento
+ */
+function checkStructuralRules(doc: Record<string, unknown>, issues: PIRValidationIssue[]): void {
+  const sections: Array<[string, string]> = [
+    ['slots', 'slot_id'],
+    ['tasks', 'task_id'],
+    ['guards', 'guard_id'],
+    ['deadlines', 'deadline_id'],
+    ['rewards', 'reward_id'],
+  ];
+
+  for (const [section, idField] of sections) {
+    const items = doc[section];
+    if (!Array.isArray(items)) continue;
+
+    const seen = new Map<string, number>();
+    items.forEach((item, index) => {
+      if (!isPlainObject(item) || typeof item[idField] !== 'string') return;
+      const itemId = item[idField] as string;
+      const first = seen.get(itemId);
+      if (first !== undefined) {
+        issues.push({
+          path: `$.${section}[${index}].${idField}`,
+          message: `duplicate id "${itemId}" (first defined at ${section}[${first}])`,
+        });
+      } else {
+        seen.set(itemId, index);
+      }
+    });
+  }
+
+  if (Array.isArray(doc.slots)) {
+    doc.slots.forEach((slot, index) => {
+      if (!isPlainObject(slot)) return;
+      if (slot.data_type === 'enum' && slot.options === undefined) {
+        issues.push({ path: `$.slots[${index}].options`, message: 'enum slots must declare options' });
+      }
+      if (slot.type === 'computed' && slot.computation === undefined) {
+        issues.push({ path: `$.slots[${index}].computation`, message: 'computed slots must declare computation' });
+      }
+    });
+  }
+
+  if (Array.isArray(doc.deadlines)) {
+    doc.deadlines.forEach((deadline, index) => {
+      if (!isPlainObject(deadline)) return;
+      const hasPriority = deadline.priority !== undefined;
+      const hasTask = deadline.task_related !== undefined;
+      if (hasPriority === hasTask) {
+        issues.push({
+          path: `$.deadlines[${index}]`,
+          message: 'exactly one of priority or task_related must be set',
+        });
+      }
+      if (deadline.relaxes_to !== undefined && deadline.adaptive !== true) {
+        issues.push({ path: `$.deadlines[${index}].relaxes_to`, message: 'relaxes_to requires adaptive: true' });
+      }
+    });
+  }
+
+  if (Array.isArray(doc.tasks)) {
+    doc.tasks.forEach((task, index) => {
+      if (!isPlainObject(task) || !isPlainObject(task.execution)) return;
+      if (task.type === 'api_call' && task.execution.endpoint === undefined) {
+        issues.push({ path: `$.tasks[${index}].execution.endpoint`, message: 'api_call tasks must declare an endpoint' });
+      }
+      if (task.type === 'distributed' && task.execution.distributed_nodes === undefined) {
+        issues.push({
+          path: `$.tasks[${index}].execution.distributed_nodes`,
+          message: 'distributed tasks must declare distributed_nodes',
+        });
+      }
+    });
+  }
+}
+
+// ============================================================================
+// API PÚBLICA
+// ============================================================================
+
+/**
+ * Valida documento PIR e retorna todos os erros encontrados (não para no primeiro)
+ */
+export function validatePIR(input: unknown): PIRValidationResult {
+  const issues: PIRValidationIssue[] = [];
+
+  documentSchema(input, '$', issues);
+  if (isPlainObject(input)) {
+    checkStructuralRules(input, issues);
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, errors: issues };
+  }
+
+  return { valid: true, errors: [], document: input as PIRDocument };
+}
+
+/**
+ * Valida e retorna documento tipado. Lança PIRValidationError se inválido.
+ */
+export function parsePIR(input: unknown): PIRDocument {
+  const result = validatePIR(input);
+  if (!result.valid || !result.document) {
+    throw new PIRValidationError(result.errors);
+  }
+  return result.document;
+}
@@ -10,12 +10,14 @@ import {
   DeadlineInstance,
   DeadlineContext,
   DeadlineCheckResult,
+  DeadlinePriority,
   DeadlineStatus,
   LoadCondition,
   parseDuration,
   calculateUrgency,
   DEADLINE_AI_MODELS
 } from '../types/deadlines';
+import { evaluateConditionTristate } from '@voither/pir-schema';
 
 export interface DeadlineEvaluatorConfig {
   deadline: Deadline;
@@ -118,7 +120,7 @@ export abstract class BaseDeadlineEvaluator {
     // Check if should relax (only if adaptive)
     const shouldRelax =
       this.deadline.adaptive &&
-      this.config.enableAdaptation &&
+      !!this.config.enableAdaptation &&
       !instance.relaxed_deadline &&
       this.shouldRelax(instance, context);
 
@@ -241,6 +243,17 @@ export abstract class BaseDeadlineEvaluator {
       return false; // Already relaxed
     }
 
+    // Condição de relaxamento do PIR; desconhecida (ex: sem capacity) cai no threshold de fila
+    if (this.deadline.relaxation_conditions) {
+      const relax = evaluateConditionTristate(this.deadline.relaxation_conditions, {
+        ...context.slot_state,
+        ...context.task_outputs,
+        queue_size: context.current_queue_length,
+        capacity: context.capacity
+      });
+      if (relax !== null) return relax;
+    }
+
     const loadCondition = this.assessLoadCondition(context.current_queue_length);
     return loadCondition === 'high' || loadCondition === 'critical';
   }
@@ -252,7 +265,7 @@ export abstract class BaseDeadlineEvaluator {
     instance: DeadlineInstance,
     context: DeadlineContext,
     urgencyLevel: string
-  ): Promise<{ action: string; reasoning: string; priority: string }> {
+  ): Promise<{ action: string; reasoning: string; priority: DeadlinePriority }> {
     const systemPrompt = `Você é um sistema de GESTÃO DE DEADLINES para triagem de emergência Manchester.
 
 Analise a situação de deadline crítico e recomende ação apropriada.
@@ -308,8 +321,7 @@ Recomende ação apropriada.`;
         max_tokens: 1000
       });
 
-      // @ts-ignore - Workers AI types
-      const responseText = response.response || '';
+      const responseText = (response as { response?: string }).response || '';
 
       const cleaned = responseText
         .replace(/```json\n?/g, '')
@@ -432,8 +444,7 @@ Determine se deve relaxar deadlines e quais.`;
         max_tokens: 1500
       });
 
-      // @ts-ignore - Workers AI types
-      const responseText = response.response || '';
+      const responseText = (response as { response?: string }).response || '';
 
       const cleaned = responseText
         .replace(/```json\n?/g, '')
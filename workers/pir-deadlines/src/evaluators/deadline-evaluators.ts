@@ -49,9 +49,9 @@ export class PriorityFlowDeadlineEvaluator extends AdaptiveDeadlineEvaluator {
     // - Sepsis within 1-hour bundle
     // - Active chest pain with ECG changes
     const neverRelax = [
-      'stroke_door_to_needle',
-      'sepsis_antibiotic_administration',
-      'chest_pain_door_to_ecg'
+      'door_to_needle_stroke',
+      'sepsis_bundle_1h',
+      'ecg_chest_pain'
     ];
 
     if (neverRelax.includes(this.deadline.id)) {
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import worker, { type Env } from './index';
+
+/**
+ * Workers AI roteirizado: toda chamada de modelo devolve JSON vazio (as avaliações usam os defaults)
+ */
+class ScriptedAI {
+  calls: string[] = [];
+
+  async run(model: string): Promise<unknown> {
+    this.calls.push(model);
+    return { response: '{}' };
+  }
+}
+
+// KV em memória: só get json / put / delete (versões e pins do protocol store)
+class MemoryKV {
+  private values = new Map<string, string>();
+
+  async get(key: string, type?: 'json'): Promise<unknown> {
+    const value = this.values.get(key);
+    return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+// Um env por arquivo, como num isolate: o worker guarda reloader e orchestrators em escopo de módulo
+const env: Env = { AI: new ScriptedAI() as unknown as Ai, PROTOCOLS_KV: new MemoryKV() as unknown as KVNamespace };
+
+function call(method: string, path: string, body?: unknown): Promise<Response> {
+  return worker.fetch(
+    new Request(`https://pir-deadlines${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }),
+    env
+  );
+}
+
+async function read<T>(response: Response): Promise<T> {
+  return (await response.json()) as T;
+}
+
+const context = (sessionId: string, timestamp: string) => ({
+  session_id: sessionId,
+  classification: 'laranja',
+  priority_flow: 'chest_pain',
+  current_queue_length: 3,
+  timestamp,
+  slot_state: { pain_score: 8 },
+});
+
+describe('pir-deadlines worker', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('keeps the session across start, check and mark-met', async () => {
+    const started = await read<{ session: { deadlines_tracked: Array<{ deadline_id: string }> } }>(
+      await call('POST', '/api/deadlines/start', context('s-1', '2026-10-19T10:00:00.000Z'))
+    );
+    const deadlineIds = started.session.deadlines_tracked.map((instance) => instance.deadline_id);
+    expect(deadlineIds).toEqual(['orange_10min', 'ecg_chest_pain']);
+
+    const check = await call('POST', '/api/deadlines/check', context('s-1', '2026-10-19T10:04:00.000Z'));
+    expect(check.status).toBe(200);
+    const { results } = await read<{ results: Array<{ deadline_id: string; is_overdue: boolean }> }>(check);
+    expect(results.find((result) => result.deadline_id === 'orange_10min')?.is_overdue).toBe(false);
+
+    const met = await call('POST', '/api/deadlines/mark-met', {
+      session_id: 's-1',
+      deadline_id: 'orange_10min',
+      timestamp: '2026-10-19T10:06:00.000Z',
+    });
+    expect(met.status).toBe(200);
+
+    const { session } = await read<{ session: { deadlines_met: string[]; protocol: { protocol_id: string } } }>(
+      await call('GET', '/api/deadlines/session/s-1')
+    );
+    expect(session.deadlines_met).toEqual(['orange_10min']);
+    expect(session.protocol.protocol_id).toBe('manchester-sp-2024');
+
+    const { summary } = await read<{ summary: { total_deadlines: number; met: number } }>(await call('GET', '/api/deadlines/summary/s-1'));
+    expect(summary).toMatchObject({ total_deadlines: 2, met: 1 });
+  });
+
+  it('answers 404 for sessions that never started', async () => {
+    expect((await call('GET', '/api/deadlines/session/unknown')).status).toBe(404);
+    expect((await call('GET', '/api/deadlines/summary/unknown')).status).toBe(404);
+    const met = await call('POST', '/api/deadlines/mark-met', { session_id: 'unknown', deadline_id: 'orange_10min', timestamp: '2026-10-19T10:06:00.000Z' });
+    expect(met.status).toBe(404);
+  });
+
+  it('rejects a protocol reference that does not match the pin', async () => {
+    await call('POST', '/api/deadlines/start', context('s-2', '2026-10-19T10:00:00.000Z'));
+    const { session } = await read<{ session: { protocol: object } }>(await call('GET', '/api/deadlines/session/s-2'));
+
+    const response = await call('POST', '/api/deadlines/check', {
+      ...context('s-2', '2026-10-19T10:04:00.000Z'),
+      protocol: { ...session.protocol, content_hash: 'sha256:00' },
+    });
+    expect(response.status).toBe(409);
+    expect(await read<{ reason: string }>(response)).toMatchObject({ reason: 'hash-mismatch' });
+  });
+});
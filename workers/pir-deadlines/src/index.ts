@@ -13,184 +13,68 @@
  * - GET /health - Health check
  */
 
+import {
+  KVProtocolStore,
+  loadManchesterSPProtocol,
+  logBindingReport,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  SlotRegistry,
+  toVersionRef,
+  type PIRVersionRef,
+  type ResolvedProtocol,
+} from '@voither/pir-schema';
 import { DeadlineOrchestrator } from './orchestrator/deadline-orchestrator';
-import { Deadline, DeadlineContext, parseDuration } from './types/deadlines';
+import { DeadlineContext, parseDuration } from './types/deadlines';
 
 export interface Env {
   AI: Ai;
+  PROTOCOLS_KV: KVNamespace; // Protocol store compartilhado com pir-slots
 }
 
-// Manchester Protocol Deadlines (from PIR JSON)
-const MANCHESTER_DEADLINES: Deadline[] = [
-  {
-    id: 'initial_assessment_red',
-    name: 'Avaliação Inicial - VERMELHO',
-    description: 'Atendimento imediato para casos de emergência (vermelho)',
-    target_time: 'PT0M', // Immediate
-    priority: 'critical',
-    adaptive: false, // Never relax red cases
-    escalation: {
-      enabled: true,
-      notify: ['attending_physician', 'medical_director'],
-      actions: ['alert_team', 'reallocate_resources']
-    },
-    applies_to: {
-      classification: ['vermelho']
-    }
-  },
-  {
-    id: 'initial_assessment_orange',
-    name: 'Avaliação Inicial - LARANJA',
-    description: 'Atendimento muito urgente (laranja) em até 10 minutos',
-    target_time: 'PT10M',
-    priority: 'critical',
-    adaptive: true,
-    relaxes_to: 'PT15M',
-    load_threshold: 15,
-    escalation: {
-      enabled: true,
-      notify: ['charge_nurse', 'attending_physician'],
-      actions: ['alert_team']
-    },
-    applies_to: {
-      classification: ['laranja']
-    }
-  },
-  {
-    id: 'initial_assessment_yellow',
-    name: 'Avaliação Inicial - AMARELO',
-    description: 'Atendimento urgente (amarelo) em até 1 hora',
-    target_time: 'PT1H',
-    priority: 'high',
-    adaptive: true,
-    relaxes_to: 'PT90M',
-    load_threshold: 20,
-    escalation: {
-      enabled: true,
-      notify: ['charge_nurse'],
-      actions: ['notify_supervisor']
-    },
-    applies_to: {
-      classification: ['amarelo']
-    }
-  },
-  {
-    id: 'initial_assessment_green',
-    name: 'Avaliação Inicial - VERDE',
-    description: 'Atendimento pouco urgente (verde) em até 2 horas',
-    target_time: 'PT2H',
-    priority: 'medium',
-    adaptive: true,
-    relaxes_to: 'PT3H',
-    load_threshold: 25,
-    escalation: {
-      enabled: true,
-      notify: ['charge_nurse'],
-      actions: ['notify_supervisor']
-    },
-    applies_to: {
-      classification: ['verde']
-    }
-  },
-  {
-    id: 'initial_assessment_blue',
-    name: 'Avaliação Inicial - AZUL',
-    description: 'Atendimento não urgente (azul) em até 4 horas',
-    target_time: 'PT4H',
-    priority: 'low',
-    adaptive: true,
-    relaxes_to: 'PT6H',
-    load_threshold: 30,
-    escalation: {
-      enabled: true,
-      notify: ['charge_nurse'],
-      actions: ['notify_supervisor']
-    },
-    applies_to: {
-      classification: ['azul']
-    }
-  },
-  {
-    id: 'chest_pain_door_to_ecg',
-    name: 'Dor Torácica - ECG',
-    description: 'ECG em paciente com dor torácica (Door-to-ECG ≤10 min)',
-    target_time: 'PT10M',
-    priority: 'critical',
-    adaptive: false, // Never relax
-    escalation: {
-      enabled: true,
-      notify: ['cardiologist', 'medical_director'],
-      actions: ['alert_team', 'escalate_priority']
-    },
-    applies_to: {
-      priority_flow: ['chest_pain']
-    }
-  },
-  {
-    id: 'stroke_door_to_ct',
-    name: 'AVC - Tomografia',
-    description: 'TC de crânio em suspeita de AVC (Door-to-CT ≤25 min)',
-    target_time: 'PT25M',
-    priority: 'critical',
-    adaptive: false,
-    escalation: {
-      enabled: true,
-      notify: ['neurologist', 'medical_director'],
-      actions: ['alert_team', 'escalate_priority']
-    },
-    applies_to: {
-      priority_flow: ['stroke']
-    }
-  },
-  {
-    id: 'stroke_door_to_needle',
-    name: 'AVC - Trombólise',
-    description: 'Início de trombólise em AVC (Door-to-needle ≤60 min)',
-    target_time: 'PT1H',
-    priority: 'critical',
-    adaptive: false,
-    escalation: {
-      enabled: true,
-      notify: ['neurologist', 'medical_director'],
-      actions: ['alert_team', 'reallocate_resources']
-    },
-    applies_to: {
-      priority_flow: ['stroke']
-    }
-  },
-  {
-    id: 'sepsis_antibiotic_administration',
-    name: 'Sepse - Antibiótico',
-    description: 'Administração de antibiótico em sepse (bundle 1 hora)',
-    target_time: 'PT1H',
-    priority: 'critical',
-    adaptive: false,
-    escalation: {
-      enabled: true,
-      notify: ['intensivist', 'medical_director'],
-      actions: ['alert_team', 'escalate_priority']
-    },
-    applies_to: {
-      priority_flow: ['sepsis']
-    }
-  },
-  {
-    id: 'trauma_primary_survey',
-    name: 'Trauma - Avaliação Primária',
-    description: 'Avaliação primária ATLS em trauma (≤2 min)',
-    target_time: 'PT2M',
-    priority: 'critical',
-    adaptive: false,
-    escalation: {
-      enabled: true,
-      notify: ['trauma_surgeon', 'medical_director'],
-      actions: ['alert_team', 'reallocate_resources']
-    },
-    applies_to: {
-      priority_flow: ['trauma']
-    }
+// PIR validado no carregamento do worker (protocolo divergente = falha no startup)
+const PIR = loadManchesterSPProtocol();
+
+// Protocol store compartilhado: cada sessão é monitorada com os deadlines da versão a que está presa
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  return reloader;
+}
+
+async function resolveSessionProtocol(env: Env, sessionId: string, requested?: PIRVersionRef): Promise<ResolvedProtocol> {
+  const reloader = getReloader(env);
+  await reloader.bootstrap(PIR);
+  return reloader.pinSession(sessionId, PIR.protocol_id, requested);
+}
+
+// Orchestrator do PIR embarcado (consultas e health), criado uma vez por isolate
+let bundled: DeadlineOrchestrator | null = null;
+
+function bundledOrchestrator(env: Env): DeadlineOrchestrator {
+  return (bundled ??= new DeadlineOrchestrator(env.AI, PIR));
+}
+
+// Um orchestrator por versão do PIR (content_hash) por isolate: a sessão fica no orchestrator
+// da versão a que está presa, e todas as rotas dela voltam a ele
+const sessionOrchestrators = new Map<string, DeadlineOrchestrator>();
+
+function sessionOrchestrator(env: Env, protocol: ResolvedProtocol): DeadlineOrchestrator {
+  let orchestrator = sessionOrchestrators.get(protocol.content_hash);
+  if (!orchestrator) {
+    orchestrator = new DeadlineOrchestrator(env.AI, protocol.document);
+    logBindingReport(orchestrator.getBindingReport()); // Uma vez por versão
+    sessionOrchestrators.set(protocol.content_hash, orchestrator);
   }
-];
+  return orchestrator;
+}
+
+// Orchestrator da versão presa a uma sessão (null = sessão sem pin)
+async function pinnedOrchestrator(env: Env, sessionId: string): Promise<DeadlineOrchestrator | null> {
+  const protocol = await getReloader(env).resolveSession(sessionId);
+  return protocol ? sessionOrchestrator(env, protocol) : null;
+}
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
@@ -209,7 +93,7 @@ export default {
     }
 
     try {
-      const orchestrator = new DeadlineOrchestrator(env.AI, MANCHESTER_DEADLINES);
+      const orchestrator = bundledOrchestrator(env);
 
       // ========================================================================
       // POST /api/deadlines/start
@@ -217,7 +101,11 @@ export default {
       if (path === '/api/deadlines/start' && request.method === 'POST') {
         const body = await request.json() as DeadlineContext;
 
-        const session = await orchestrator.startMonitoring(body.session_id, body);
+        // Deadlines da versão exata do PIR a que a sessão está presa
+        const protocol = await resolveSessionProtocol(env, body.session_id, body.protocol);
+        body.slot_state = SlotRegistry.forDocument(protocol.document).normalize(body.slot_state);
+
+        const session = await sessionOrchestrator(env, protocol).startMonitoring(body.session_id, toVersionRef(protocol), body);
 
         return new Response(JSON.stringify({
           success: true,
@@ -233,7 +121,10 @@ export default {
       if (path === '/api/deadlines/check' && request.method === 'POST') {
         const body = await request.json() as DeadlineContext;
 
-        const results = await orchestrator.checkDeadlines(body.session_id, body);
+        const protocol = await resolveSessionProtocol(env, body.session_id, body.protocol);
+        body.slot_state = SlotRegistry.forDocument(protocol.document).normalize(body.slot_state);
+
+        const results = await sessionOrchestrator(env, protocol).checkDeadlines(body.session_id, body);
 
         return new Response(JSON.stringify({
           success: true,
@@ -253,7 +144,18 @@ export default {
           timestamp: string;
         };
 
-        orchestrator.markDeadlineMet(body.session_id, body.deadline_id, body.timestamp);
+        const pinned = await pinnedOrchestrator(env, body.session_id);
+        if (!pinned?.getSession(body.session_id)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Session not found'
+          }), {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        pinned.markDeadlineMet(body.session_id, body.deadline_id, body.timestamp);
 
         return new Response(JSON.stringify({
           success: true,
@@ -268,7 +170,7 @@ export default {
       // ========================================================================
       if (path.startsWith('/api/deadlines/session/') && request.method === 'GET') {
         const sessionId = path.split('/').pop()!;
-        const session = orchestrator.getSession(sessionId);
+        const session = (await pinnedOrchestrator(env, sessionId))?.getSession(sessionId);
 
         if (!session) {
           return new Response(JSON.stringify({
@@ -293,7 +195,18 @@ export default {
       // ========================================================================
       if (path.startsWith('/api/deadlines/summary/') && request.method === 'GET') {
         const sessionId = path.split('/').pop()!;
-        const summary = orchestrator.getSummary(sessionId);
+        const pinned = await pinnedOrchestrator(env, sessionId);
+        if (!pinned?.getSession(sessionId)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Session not found'
+          }), {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        const summary = pinned.getSummary(sessionId);
 
         return new Response(JSON.stringify({
           success: true,
@@ -311,7 +224,9 @@ export default {
           status: 'healthy',
           service: 'pir-deadlines-executor',
           timestamp: new Date().toISOString(),
-          deadlines_available: MANCHESTER_DEADLINES.length
+          deadlines_available: orchestrator.getDeadlines().length,
+          protocol: { protocol_id: PIR.protocol_id, version: PIR.version },
+          binding: orchestrator.getBindingReport()
         }), {
           headers: corsHeaders
         });
@@ -325,7 +240,7 @@ export default {
           service: 'PIR Deadlines Executor',
           version: '1.0.0',
           description: 'Cloudflare Worker para monitorar deadlines adaptativos usando Workers AI',
-          deadlines: MANCHESTER_DEADLINES.map(d => ({
+          deadlines: orchestrator.getDeadlines().map(d => ({
             id: d.id,
             name: d.name,
             target_time: d.target_time,
@@ -354,6 +269,18 @@ export default {
       });
 
     } catch (error) {
+      // Referência de protocolo desconhecida ou divergente da versão presa à sessão
+      if (error instanceof ProtocolReloadError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          reason: error.reason
+        }), {
+          status: error.reason === 'not-found' ? 404 : 409,
+          headers: corsHeaders
+        });
+      }
+
       console.error('[PIR-Deadlines] Error:', error);
 
       return new Response(JSON.stringify({
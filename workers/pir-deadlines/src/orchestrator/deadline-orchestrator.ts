@@ -13,54 +13,79 @@ import {
   DeadlineCheckResult,
   DeadlineMonitoringSession,
   EscalationResult,
-  DEADLINE_AI_MODELS
+  DEADLINE_AI_MODELS,
+  fromPIRDeadline
 } from '../types/deadlines';
-import { BaseDeadlineEvaluator, AdaptiveDeadlineEvaluator } from '../evaluators/base-evaluator';
+import { bindExecutors, type PIRBindingReport, type PIRDeadline, type PIRDocument, type PIRVersionRef } from '@voither/pir-schema';
+import { BaseDeadlineEvaluator, AdaptiveDeadlineEvaluator, DeadlineEvaluatorConfig } from '../evaluators/base-evaluator';
 import {
   ManchesterClassificationDeadlineEvaluator,
-  PriorityFlowDeadlineEvaluator,
-  OperationalDeadlineEvaluator
+  PriorityFlowDeadlineEvaluator
 } from '../evaluators/deadline-evaluators';
 
+/**
+ * Registro de evaluators por deadline_id
+ * Definições (time_limit, relaxes_to, escalation) vêm do PIR; aqui só o código
+ */
+const DEADLINE_EVALUATORS: Record<string, new (ai: Ai, config: DeadlineEvaluatorConfig) => BaseDeadlineEvaluator> = {
+  // Classificação Manchester (cores)
+  red_immediate: ManchesterClassificationDeadlineEvaluator,
+  orange_10min: ManchesterClassificationDeadlineEvaluator,
+  yellow_60min: ManchesterClassificationDeadlineEvaluator,
+  green_120min: ManchesterClassificationDeadlineEvaluator,
+  blue_240min: ManchesterClassificationDeadlineEvaluator,
+
+  // Fluxos prioritários
+  ecg_chest_pain: PriorityFlowDeadlineEvaluator,
+  ct_stroke: PriorityFlowDeadlineEvaluator,
+  door_to_needle_stroke: PriorityFlowDeadlineEvaluator,
+  sepsis_bundle_1h: PriorityFlowDeadlineEvaluator,
+  trauma_primary_survey: PriorityFlowDeadlineEvaluator,
+};
+
 export class DeadlineOrchestrator {
   private ai: Ai;
-  private evaluators: Map<string, BaseDeadlineEvaluator> = new Map();
+  private deadlines: Deadline[];
+  private evaluators: Map<string, BaseDeadlineEvaluator>;
+  private bindingReport: PIRBindingReport;
   private sessions: Map<string, DeadlineMonitoringSession> = new Map();
 
-  constructor(ai: Ai, deadlines: Deadline[]) {
+  constructor(ai: Ai, pir: PIRDocument) {
     this.ai = ai;
-    this.initializeEvaluators(deadlines);
+
+    // Liga cada deadline do PIR ao seu evaluator pelo deadline_id
+    const { executors, report } = bindExecutors<PIRDeadline, BaseDeadlineEvaluator>({
+      component: 'deadlines',
+      document: pir,
+      definitions: pir.deadlines,
+      getId: (deadline) => deadline.deadline_id,
+      registry: Object.fromEntries(
+        Object.entries(DEADLINE_EVALUATORS).map(([deadlineId, Evaluator]) => [
+          deadlineId,
+          (deadline: PIRDeadline) => new Evaluator(ai, { deadline: fromPIRDeadline(deadline) })
+        ])
+      ),
+    });
+
+    this.deadlines = pir.deadlines
+      .filter((deadline) => executors.has(deadline.deadline_id))
+      .map(fromPIRDeadline);
+    this.evaluators = executors;
+    this.bindingReport = report;
   }
 
   /**
-   * Initialize evaluators for all deadlines
+   * Relatório de binding PIR ↔ evaluators
    */
-  private initializeEvaluators(deadlines: Deadline[]): void {
-    for (const deadline of deadlines) {
-      const evaluator = this.createEvaluator(deadline);
-      if (evaluator) {
-        this.evaluators.set(deadline.id, evaluator);
-      }
-    }
+  getBindingReport(): PIRBindingReport {
+    return this.bindingReport;
   }
 
   /**
-   * Factory method to create appropriate evaluator
+   * Deadlines do PIR com evaluator disponível
    */
-  private createEvaluator(deadline: Deadline): BaseDeadlineEvaluator | null {
-    const config = { deadline };
-
-    // Determine evaluator type based on deadline characteristics
-    if (deadline.applies_to.priority_flow && deadline.applies_to.priority_flow.length > 0) {
-      // Priority flow deadlines (chest pain, stroke, sepsis, trauma)
-      return new PriorityFlowDeadlineEvaluator(this.ai, config);
-    } else if (deadline.applies_to.classification && deadline.applies_to.classification.length > 0) {
-      // Manchester classification deadlines (colors)
-      return new ManchesterClassificationDeadlineEvaluator(this.ai, config);
-    } else {
-      // Operational deadlines (registration, wristband, etc.)
-      return new OperationalDeadlineEvaluator(this.ai, config);
-    }
+  getDeadlines(): Deadline[] {
+    return this.deadlines;
   }
 
   /**
@@ -68,10 +93,12 @@ export class DeadlineOrchestrator {
    */
   async startMonitoring(
     sessionId: string,
+    protocol: PIRVersionRef,
     context: DeadlineContext
   ): Promise<DeadlineMonitoringSession> {
     const session: DeadlineMonitoringSession = {
       session_id: sessionId,
+      protocol,
       status: 'active',
       deadlines_tracked: [],
       deadlines_met: [],
@@ -5,12 +5,14 @@
  * Deadlines relax under high load and escalate when missed.
  */
 
+import type { PIRDeadline, PIRPriorityCode, PIRVersionRef } from '@voither/pir-schema';
+
 export type DeadlineStatus = 'pending' | 'active' | 'met' | 'missed' | 'escalated' | 'relaxed';
 export type DeadlinePriority = 'critical' | 'high' | 'medium' | 'low';
 export type LoadCondition = 'normal' | 'high' | 'critical';
 
 /**
- * Deadline definition from PIR JSON
+ * Deadline definition (runtime shape, built from PIR JSON via fromPIRDeadline)
  */
 export interface Deadline {
   id: string;
@@ -21,8 +23,10 @@ export interface Deadline {
   adaptive: boolean;
   relaxes_to?: string; // ISO duration for relaxed deadline
   load_threshold?: number; // Queue length to trigger relaxation
+  relaxation_conditions?: string; // PIR expression (e.g., "queue_size > capacity * 1.3")
   escalation: {
     enabled: boolean;
+    after?: string; // ISO duration after start to escalate
     notify: string[]; // Roles to notify (e.g., ["supervisor", "medical_director"])
     actions: string[]; // Actions to take (e.g., ["alert_team", "reallocate_resources"])
   };
@@ -70,9 +74,11 @@ export interface DeadlineContext {
   flowchart?: string;
   priority_flow?: string;
   current_queue_length: number;
+  capacity?: number; // Capacidade do setor (relaxation_conditions: "queue_size > capacity * 1.3")
   timestamp: string;
   slot_state?: Record<string, any>;
   task_outputs?: Record<string, any>;
+  protocol?: PIRVersionRef; // Referência devolvida pelo pir-slots no início da triagem
 }
 
 /**
@@ -101,6 +107,7 @@ export interface DeadlineCheckResult {
  */
 export interface DeadlineMonitoringSession {
   session_id: string;
+  protocol: PIRVersionRef; // Versão exata do PIR cujos deadlines foram monitorados
   status: 'active' | 'completed' | 'failed';
   deadlines_tracked: DeadlineInstance[];
   deadlines_met: string[];
@@ -201,3 +208,82 @@ export function calculateUrgency(
   if (percentRemaining <= 30) return 'warning';
   return 'normal';
 }
+
+/**
+ * Helper: Convert PIR duration ("10m", "4.5h", "30s", "1d") to ISO 8601 (PT10M, PT4H30M)
+ */
+export function pirDurationToISO(pirDuration: string): string {
+  const match = pirDuration.match(/^(\d+(?:\.\d+)?)(s|m|h|d)$/);
+
+  if (!match) {
+    throw new Error(`Invalid PIR duration format: ${pirDuration}`);
+  }
+
+  const unitSeconds = { s: 1, m: 60, h: 3600, d: 86400 } as const;
+  const totalSeconds = Math.round(parseFloat(match[1]) * unitSeconds[match[2] as keyof typeof unitSeconds]);
+
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (totalSeconds === 0) return 'PT0M';
+
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds ? `${seconds}S` : ''}`;
+}
+
+/**
+ * Cores Manchester (como emitidas pela classificação) por código de prioridade PIR
+ */
+const PRIORITY_CODE_COLORS: Record<PIRPriorityCode, string> = {
+  RED: 'vermelho',
+  ORANGE: 'laranja',
+  YELLOW: 'amarelo',
+  GREEN: 'verde',
+  BLUE: 'azul',
+};
+
+const PRIORITY_CODE_LEVELS: Record<PIRPriorityCode, DeadlinePriority> = {
+  RED: 'critical',
+  ORANGE: 'critical',
+  YELLOW: 'high',
+  GREEN: 'medium',
+  BLUE: 'low',
+};
+
+/**
+ * Helper: Build runtime Deadline from PIR deadline definition
+ *
+ * - priority (RED..BLUE) → applies_to.classification (cor Manchester)
+ * - task_related (activate_priority_flow_<flow>) → applies_to.priority_flow
+ * - escalation.if_delayed → ação de escalonamento
+ */
+export function fromPIRDeadline(definition: PIRDeadline): Deadline {
+  const appliesTo: Deadline['applies_to'] = {};
+
+  if (definition.priority) {
+    appliesTo.classification = [PRIORITY_CODE_COLORS[definition.priority]];
+  }
+
+  if (definition.task_related) {
+    appliesTo.priority_flow = [definition.task_related.replace(/^activate_priority_flow_/, '')];
+  }
+
+  return {
+    id: definition.deadline_id,
+    name: definition.name,
+    description: definition.description,
+    target_time: pirDurationToISO(definition.time_limit),
+    // Fluxos prioritários (task_related) são sempre tempo-críticos
+    priority: definition.priority ? PRIORITY_CODE_LEVELS[definition.priority] : 'critical',
+    adaptive: definition.adaptive ?? false,
+    relaxes_to: definition.relaxes_to ? pirDurationToISO(definition.relaxes_to) : undefined,
+    relaxation_conditions: definition.relaxation_conditions,
+    escalation: {
+      enabled: !!definition.escalation,
+      after: definition.escalation ? pirDurationToISO(definition.escalation.after) : undefined,
+      notify: [],
+      actions: definition.escalation ? [definition.escalation.if_delayed] : []
+    },
+    applies_to: appliesTo
+  };
+}
@@ -213,8 +213,7 @@ Responda APENAS com JSON anonimizado.`;
         max_tokens: 2000
       });
 
-      // @ts-ignore - Workers AI types
-      const responseText = response.response || '';
+      const responseText = (response as { response?: string }).response || '';
 
       const cleaned = responseText
         .replace(/```json\n?/g, '')
@@ -315,6 +314,7 @@ export class PatientTimelineCollector extends BaseEvidenceCollector {
       const timelineEvent: PatientTimelineEvent = {
         event_id: event.event_id,
         timestamp: event.timestamp,
+        protocol: event.protocol,
         category: event.category,
         action: event.action,
         description: this.generateEventDescription(event),
@@ -219,6 +219,14 @@ export class FHIRAuditCollector extends BaseEvidenceCollector {
         {
           type: 'source_system',
           valueString: event.metadata.source_system
+        },
+        {
+          type: 'protocol',
+          valueString: `${event.protocol.protocol_id}@${event.protocol.version}`
+        },
+        {
+          type: 'protocol_hash',
+          valueString: event.protocol.content_hash
         }
       ]
     });
@@ -18,12 +18,40 @@
  * - GET /health - Health check
  */
 
+import {
+  KVProtocolStore,
+  loadManchesterSPProtocol,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  toVersionRef,
+} from '@voither/pir-schema';
 import { EvidenceOrchestrator } from './orchestrator/evidence-orchestrator';
-import { EvidenceEvent, EvidenceConfig, ConsentStatus, AccessLog } from './types/evidence';
+import { EvidenceEvent, EvidenceEventInput, EvidenceConfig, ConsentStatus, AccessLog } from './types/evidence';
 
 export interface Env {
   AI: Ai;
   EVIDENCE_KV: KVNamespace;
+  PROTOCOLS_KV: KVNamespace; // Protocol store shared with pir-slots
+}
+
+// PIR validado no carregamento do worker (protocolo divergente = falha no startup)
+const PIR = loadManchesterSPProtocol();
+
+// Protocol store compartilhado: todo evento carrega a versão exata do PIR da sessão
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  return reloader;
+}
+
+/**
+ * Carimba o evento com a versão do PIR a que a sessão está presa
+ * (referência enviada pelo worker de origem é conferida contra o pin)
+ */
+async function stampProtocol(env: Env, event: EvidenceEventInput): Promise<EvidenceEvent> {
+  const protocol = await getReloader(env).pinSession(event.session_id, PIR.protocol_id, event.protocol);
+  return { ...event, protocol: toVersionRef(protocol) };
 }
 
 // Manchester Protocol Evidence Configuration
@@ -70,13 +98,14 @@ export default {
     }
 
     try {
-      const orchestrator = new EvidenceOrchestrator(env.AI, env.EVIDENCE_KV, MANCHESTER_EVIDENCE_CONFIG);
+      const active = await getReloader(env).bootstrap(PIR);
+      const orchestrator = new EvidenceOrchestrator(env.AI, env.EVIDENCE_KV, MANCHESTER_EVIDENCE_CONFIG, toVersionRef(active));
 
       // ========================================================================
       // POST /api/evidence/collect
       // ========================================================================
       if (path === '/api/evidence/collect' && request.method === 'POST') {
-        const event = await request.json() as EvidenceEvent;
+        const event = await stampProtocol(env, await request.json() as EvidenceEventInput);
         const result = await orchestrator.collectEvidence(event);
 
         return new Response(JSON.stringify({
@@ -91,8 +120,9 @@ export default {
       // POST /api/evidence/batch
       // ========================================================================
       if (path === '/api/evidence/batch' && request.method === 'POST') {
-        const body = await request.json() as { events: EvidenceEvent[] };
-        const results = await orchestrator.collectBatch(body.events);
+        const body = await request.json() as { events: EvidenceEventInput[] };
+        const events = await Promise.all(body.events.map((event) => stampProtocol(env, event)));
+        const results = await orchestrator.collectBatch(events);
 
         return new Response(JSON.stringify({
           success: true,
@@ -302,7 +332,8 @@ export default {
             system_aggregate_enabled: MANCHESTER_EVIDENCE_CONFIG.system_aggregate.enabled,
             fhir_audit_enabled: MANCHESTER_EVIDENCE_CONFIG.fhir_audit.enabled,
             consent_tracking_enabled: MANCHESTER_EVIDENCE_CONFIG.consent_tracking.enabled
-          }
+          },
+          protocol: { protocol_id: PIR.protocol_id, version: PIR.version }
         }), {
           headers: corsHeaders
         });
@@ -367,6 +398,18 @@ export default {
       });
 
     } catch (error) {
+      // Protocol reference unknown or diverging from the version pinned to the session
+      if (error instanceof ProtocolReloadError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          reason: error.reason
+        }), {
+          status: error.reason === 'not-found' ? 404 : 409,
+          headers: corsHeaders
+        });
+      }
+
       console.error('[PIR-Evidence] Error:', error);
 
       return new Response(JSON.stringify({
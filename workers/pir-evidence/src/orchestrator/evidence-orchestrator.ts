@@ -22,20 +22,23 @@ import {
   SystemAggregateCollector
 } from '../collectors/base-collector';
 import { FHIRAuditCollector } from '../collectors/fhir-collector';
+import type { PIRVersionRef } from '@voither/pir-schema';
 
 export class EvidenceOrchestrator {
   private ai: Ai;
   private storage: KVNamespace;
   private config: EvidenceConfig;
+  private protocol: PIRVersionRef; // Active PIR version, stamped on events generated here (consent, access, rights)
 
   private patientCollector: PatientTimelineCollector;
   private aggregateCollector: SystemAggregateCollector;
   private fhirCollector: FHIRAuditCollector;
 
-  constructor(ai: Ai, storage: KVNamespace, config: EvidenceConfig) {
+  constructor(ai: Ai, storage: KVNamespace, config: EvidenceConfig, protocol: PIRVersionRef) {
     this.ai = ai;
     this.storage = storage;
     this.config = config;
+    this.protocol = protocol;
 
     // Initialize collectors
     const collectorConfig = { config, storage };
@@ -164,6 +167,7 @@ export class EvidenceOrchestrator {
       timestamp: consent.granted_at,
       session_id: `consent:${consent.patient_id}`,
       patient_id: consent.patient_id,
+      protocol: this.protocol,
       data: {
         consent_id: consent.consent_id,
         permissions: consent.permissions,
@@ -205,6 +209,7 @@ export class EvidenceOrchestrator {
       timestamp: consent.revoked_at,
       session_id: `consent:${patientId}`,
       patient_id: patientId,
+      protocol: this.protocol,
       data: {
         consent_id: consent.consent_id,
         status: 'revoked',
@@ -252,6 +257,7 @@ export class EvidenceOrchestrator {
       patient_id: access.patient_id,
       user_id: access.user_id,
       user_role: access.user_role,
+      protocol: this.protocol,
       data: {
         resource_type: access.resource_type,
         resource_id: access.resource_id,
@@ -309,6 +315,7 @@ export class EvidenceOrchestrator {
       timestamp: rightExercise.exercised_at,
       session_id: `right:${patientId}`,
       patient_id: patientId,
+      protocol: this.protocol,
       data: {
         right_type: rightType,
         status: 'pending'
@@ -5,6 +5,8 @@
  * Implements FHIR-compliant audit bundles and LGPD-compliant data handling.
  */
 
+import type { PIRVersionRef } from '@voither/pir-schema';
+
 export type EvidenceType =
   | 'patient_local' // Patient-specific encrypted timeline (PHI)
   | 'system_aggregate' // De-identified system-level patterns (no PHI)
@@ -77,6 +79,9 @@ export interface EvidenceEvent {
   user_id?: string;
   user_role?: string;
 
+  // Exact PIR version the event was produced under (20-year audit reproducibility)
+  protocol: PIRVersionRef;
+
   // Event-specific data
   data: Record<string, any>;
 
@@ -88,6 +93,12 @@ export interface EvidenceEvent {
   };
 }
 
+/**
+ * Evidence event as received from other workers
+ * protocol is optional: the evidence worker stamps the version pinned to the session
+ */
+export type EvidenceEventInput = Omit<EvidenceEvent, 'protocol'> & { protocol?: PIRVersionRef };
+
 /**
  * Patient-local encrypted timeline (PHI)
  */
@@ -110,6 +121,7 @@ export interface PatientTimeline {
 export interface PatientTimelineEvent {
   event_id: string;
   timestamp: string;
+  protocol: PIRVersionRef;
   category: EventCategory;
   action: AuditAction;
   description: string;
@@ -16,6 +16,7 @@ import {
   GuardActionType,
   GUARD_AI_MODELS
 } from '../types/guards';
+import { evaluateConditionTristate } from '@voither/pir-schema';
 
 export interface GuardExecutorConfig {
   guard: Guard;
@@ -24,6 +25,11 @@ export interface GuardExecutorConfig {
   logOverrides?: boolean;
 }
 
+/**
+ * Ação proposta pelo executor; applyPIRAction completa show_reasoning e override_allowed pelo PIR
+ */
+export type GuardActionDraft = Omit<NonNullable<GuardResult['action']>, 'show_reasoning'> & { show_reasoning?: boolean };
+
 /**
  * Abstract base class for all guard executors
  */
@@ -96,66 +102,32 @@ export abstract class BaseGuardExecutor {
 
   /**
    * Check if guard should execute based on conditions
+   * Avalia trigger.condition do PIR sobre slots + outputs de tasks.
+   * Só pula quando o trigger é comprovadamente falso: com dados insuficientes
+   * (null) o guard executa, pois guards são preditivos
    */
   protected shouldExecute(context: GuardContext): boolean {
-    if (!this.guard.conditions || this.guard.conditions.length === 0) {
+    try {
+      const triggered = evaluateConditionTristate(this.guard.trigger.condition, {
+        ...context.slot_state,
+        ...context.task_outputs
+      });
+      return triggered !== false;
+    } catch (error) {
+      console.error(`[${this.guard.guard_id}] Invalid trigger condition "${this.guard.trigger.condition}":`, error);
       return true;
     }
-
-    return this.guard.conditions.every(condition => {
-      const value = this.resolveValue(condition.slot, context);
-      return this.evaluateCondition(value, condition.operator, condition.value);
-    });
-  }
-
-  /**
-   * Resolve slot value from context
-   */
-  protected resolveValue(slotPath: string, context: GuardContext): any {
-    // Support nested paths like "vital_signs.heart_rate"
-    const parts = slotPath.split('.');
-    let value: any = context.slot_state;
-
-    for (const part of parts) {
-      if (value === undefined || value === null) return undefined;
-      value = value[part];
-    }
-
-    return value;
-  }
-
-  /**
-   * Evaluate condition operator
-   */
-  protected evaluateCondition(value: any, operator: string, expected: any): boolean {
-    switch (operator) {
-      case 'eq': return value === expected;
-      case 'neq': return value !== expected;
-      case 'gt': return value > expected;
-      case 'gte': return value >= expected;
-      case 'lt': return value < expected;
-      case 'lte': return value <= expected;
-      case 'in': return Array.isArray(expected) && expected.includes(value);
-      case 'not_in': return Array.isArray(expected) && !expected.includes(value);
-      case 'exists': return value !== undefined && value !== null;
-      case 'not_exists': return value === undefined || value === null;
-      default: return false;
-    }
   }
 
   /**
    * Validate required inputs are present
+   * Guards do PIR não declaram inputs; exige apenas estado de slots
    */
   protected validateInputs(context: GuardContext): { valid: boolean; error?: string } {
-    const missingInputs = this.guard.inputs.filter(input => {
-      const value = this.resolveValue(input, context);
-      return value === undefined || value === null;
-    });
-
-    if (missingInputs.length > 0) {
+    if (!context.slot_state || Object.keys(context.slot_state).length === 0) {
       return {
         valid: false,
-        error: `Missing required inputs: ${missingInputs.join(', ')}`
+        error: 'Missing slot_state'
       };
     }
 
@@ -167,13 +139,13 @@ export abstract class BaseGuardExecutor {
    */
   protected createResult(
     context: GuardContext,
-    partial: Partial<GuardResult>
+    partial: Partial<Omit<GuardResult, 'action'>> & { action?: GuardActionDraft }
   ): GuardResult {
     return {
-      guard_id: this.guard.id,
+      guard_id: this.guard.guard_id,
       status: partial.status || 'completed',
       triggered: partial.triggered || false,
-      action: partial.action,
+      action: partial.action && this.applyPIRAction(partial.action),
       context: {
         session_id: context.session_id,
         patient_id: context.patient_id,
@@ -186,6 +158,23 @@ export abstract class BaseGuardExecutor {
     };
   }
 
+  /**
+   * Política da ação vem do PIR: override e exibição do raciocínio são
+   * decisões clínicas, não do LLM
+   */
+  protected applyPIRAction(action: GuardActionDraft): NonNullable<GuardResult['action']> {
+    const pirAction = this.guard.action;
+
+    return {
+      ...action,
+      type: action.type || pirAction.type,
+      message: action.message || pirAction.message,
+      priority: action.priority || pirAction.priority || 'medium',
+      show_reasoning: pirAction.show_reasoning ?? action.show_reasoning ?? true,
+      override_allowed: pirAction.override_allowed
+    };
+  }
+
   /**
    * Abstract method: Execute guard-specific logic
    * Must be implemented by subclasses
@@ -226,8 +215,7 @@ export abstract class LLMReasoningGuard extends BaseGuardExecutor {
       max_tokens: 2000
     });
 
-    // @ts-ignore - Workers AI types
-    return response.response || '';
+    return (response as { response?: string }).response || '';
   }
 
   /**
@@ -8,9 +8,9 @@
  * 1. sepsis_early_detection - Detect sepsis signs early (SUGGEST)
  * 2. stroke_time_window - Monitor stroke thrombolysis window
  * 3. cardiac_ischemia_alert - Detect cardiac ischemia patterns
- * 4. critical_hypoxemia - Monitor oxygen saturation critically
- * 5. hypovolemic_shock - Detect hypovolemic shock signs
- * 6. allergy_conflict_check - Check allergy conflicts
+ * 4. hypoxemia_critical - Monitor oxygen saturation critically
+ * 5. hypovolemic_shock_risk - Detect hypovolemic shock signs
+ * 6. allergy_medication_conflict - Check allergy conflicts
  * 7. medication_interaction - Check medication interactions
  * 8. pediatric_dose_safety - Pediatric dosage safety
  * 9. geriatric_fragility_alert - Geriatric fragility assessment
@@ -26,6 +26,38 @@ import {
 } from '../types/guards';
 import { LLMReasoningGuard, ContinuousMonitoringGuard } from './base-guard';
 
+// ============================================================================
+// DEMOGRAFIA (slots age, sex, pregnancy_status, gestational_age, weight)
+// ============================================================================
+
+/**
+ * Peso medido; sem ele, o estimado em criança (Broselow/APLS) identificado como estimativa
+ */
+function describeWeight(slotState: Record<string, any>): string {
+  if (typeof slotState.weight === 'number') return `${slotState.weight} kg`;
+  if (typeof slotState.estimated_weight === 'number') return `${slotState.estimated_weight} kg (ESTIMADO por comprimento/idade)`;
+  return 'não informado';
+}
+
+/**
+ * "SIM (24 semanas, 2º trimestre)", "POSSÍVEL", "NÃO"
+ */
+function describePregnancy(slotState: Record<string, any>): { status: string; trimester: string } {
+  const weeks = slotState.gestational_age;
+  const trimester = typeof weeks === 'number' ? `${weeks < 14 ? 1 : weeks < 28 ? 2 : 3}º (${weeks} semanas)` : 'não informado';
+
+  switch (slotState.pregnancy_status) {
+    case 'pregnant':
+      return { status: 'SIM', trimester };
+    case 'possible':
+      return { status: 'POSSÍVEL', trimester: 'não aplicável' };
+    case 'not_pregnant':
+      return { status: 'NÃO', trimester: 'não aplicável' };
+    default:
+      return { status: 'não informado', trimester: 'não aplicável' };
+  }
+}
+
 // ============================================================================
 // GUARD 1: Sepsis Early Detection
 // ============================================================================
@@ -83,7 +115,7 @@ Responda APENAS com JSON:
     const userPrompt = `DADOS DO PACIENTE:
 
 Sinais Vitais:
-- PA: ${context.slot_state.systolic_bp}/${context.slot_state.diastolic_bp} mmHg
+- PA: ${context.slot_state.blood_pressure?.systolic}/${context.slot_state.blood_pressure?.diastolic} mmHg
 - FC: ${context.slot_state.heart_rate} bpm
 - FR: ${context.slot_state.respiratory_rate} irpm
 - Temp: ${context.slot_state.temperature}°C
@@ -180,7 +212,7 @@ Início dos Sintomas: ${context.slot_state.symptom_onset || 'não documentado'}
 Hora Atual: ${context.timestamp}
 
 Sinais Vitais:
-- PA: ${context.slot_state.systolic_bp}/${context.slot_state.diastolic_bp} mmHg
+- PA: ${context.slot_state.blood_pressure?.systolic}/${context.slot_state.blood_pressure?.diastolic} mmHg
 - Consciência: ${context.slot_state.consciousness_level}
 
 Sinais Neurológicos:
@@ -258,12 +290,12 @@ Dor: ${context.slot_state.pain_score}/10
 Localização: ${context.slot_state.pain_location || 'não especificada'}
 
 Sinais Vitais:
-- PA: ${context.slot_state.systolic_bp}/${context.slot_state.diastolic_bp} mmHg
+- PA: ${context.slot_state.blood_pressure?.systolic}/${context.slot_state.blood_pressure?.diastolic} mmHg
 - FC: ${context.slot_state.heart_rate} bpm
 - SpO2: ${context.slot_state.oxygen_saturation}%
 
-Idade: ${context.slot_state.age || 'não informada'}
-Sexo: ${context.slot_state.gender || 'não informado'}
+Idade: ${context.slot_state.age ?? 'não informada'}
+Sexo: ${context.slot_state.sex || 'não informado'}
 
 Histórico Médico: ${JSON.stringify(context.slot_state.previous_medical_history || [])}
 Medicações: ${JSON.stringify(context.slot_state.medications_in_use || [])}
@@ -427,7 +459,7 @@ Responda APENAS com JSON:
     const userPrompt = `AVALIAÇÃO DE CHOQUE:
 
 Sinais Vitais:
-- PA: ${context.slot_state.systolic_bp}/${context.slot_state.diastolic_bp} mmHg
+- PA: ${context.slot_state.blood_pressure?.systolic}/${context.slot_state.blood_pressure?.diastolic} mmHg
 - FC: ${context.slot_state.heart_rate} bpm
 - FR: ${context.slot_state.respiratory_rate} irpm
 - Temp: ${context.slot_state.temperature}°C
@@ -691,7 +723,7 @@ Responda APENAS com JSON:
 
 Paciente:
 - Idade: ${context.slot_state.age} anos
-- Peso: ${context.slot_state.weight || 'não informado'} kg
+- Peso: ${describeWeight(context.slot_state)}
 - Altura: ${context.slot_state.height || 'não informada'} cm
 
 Medicações Prescritas:
@@ -776,7 +808,7 @@ Responda APENAS com JSON:
 
 Paciente:
 - Idade: ${context.slot_state.age} anos
-- Peso: ${context.slot_state.weight || 'não informado'} kg
+- Peso: ${describeWeight(context.slot_state)}
 - Consciência: ${context.slot_state.consciousness_level}
 
 Medicações em Uso:
@@ -874,9 +906,9 @@ Responda APENAS com JSON:
 
 Paciente:
 - Idade: ${context.slot_state.age} anos
-- Sexo: ${context.slot_state.gender}
-- Gestante: ${context.slot_state.is_pregnant ? 'SIM' : context.slot_state.pregnancy_possible ? 'POSSÍVEL' : 'NÃO'}
-- Trimestre: ${context.slot_state.pregnancy_trimester || 'não aplicável'}
+- Sexo: ${context.slot_state.sex || 'não informado'}
+- Gestante: ${describePregnancy(context.slot_state).status}
+- Trimestre: ${describePregnancy(context.slot_state).trimester}
 
 Medicações Prescritas:
 ${JSON.stringify(context.task_outputs?.prescribed_medications || [], null, 2)}
@@ -11,201 +11,68 @@
  * - GET /health - Health check
  */
 
+import {
+  KVProtocolStore,
+  loadManchesterSPProtocol,
+  logBindingReport,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  SlotRegistry,
+  toVersionRef,
+  type PIRVersionRef,
+  type ResolvedProtocol,
+} from '@voither/pir-schema';
 import { GuardOrchestrator } from './orchestrator/guard-orchestrator';
-import { Guard, GuardContext } from './types/guards';
+import { GuardContext } from './types/guards';
 
 export interface Env {
   AI: Ai;
+  PROTOCOLS_KV: KVNamespace; // Protocol store compartilhado com pir-slots
 }
 
-// Define all 10 guards from manchester-sp-protocol.pir.json
-const MANCHESTER_GUARDS: Guard[] = [
-  {
-    id: 'sepsis_early_detection',
-    name: 'Detecção Precoce de Sepse',
-    description: 'Detecta sinais precoces de sepse (qSOFA, SIRS) e sugere investigação',
-    type: 'continuous',
-    priority: 'critical',
-    conditions: [],
-    inputs: [
-      'systolic_bp',
-      'respiratory_rate',
-      'consciousness_level',
-      'temperature',
-      'heart_rate'
-    ],
-    action: {
-      type: 'suggest',
-      show_reasoning: true,
-      override_allowed: true,
-      log_override: true
-    }
-  },
-  {
-    id: 'stroke_time_window',
-    name: 'Janela Terapêutica - AVC',
-    description: 'Monitora janela para trombólise/trombectomia em casos de AVC',
-    type: 'continuous',
-    priority: 'critical',
-    conditions: [
-      { slot: 'chief_complaint', operator: 'in', value: ['stroke', 'neuro', 'weakness'] }
-    ],
-    inputs: ['symptom_onset', 'chief_complaint', 'consciousness_level'],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: false,
-      log_override: true
-    }
-  },
-  {
-    id: 'cardiac_ischemia_alert',
-    name: 'Alerta de Isquemia Cardíaca',
-    description: 'Detecta padrões de síndrome coronariana aguda',
-    type: 'predictive',
-    priority: 'critical',
-    conditions: [],
-    inputs: [
-      'chief_complaint',
-      'pain_score',
-      'systolic_bp',
-      'heart_rate',
-      'age',
-      'previous_medical_history'
-    ],
-    action: {
-      type: 'suggest',
-      show_reasoning: true,
-      override_allowed: true,
-      log_override: true
-    }
-  },
-  {
-    id: 'critical_hypoxemia',
-    name: 'Hipoxemia Crítica',
-    description: 'Monitora SpO2 e alerta para hipoxemia grave',
-    type: 'continuous',
-    priority: 'critical',
-    conditions: [
-      { slot: 'oxygen_saturation', operator: 'lt', value: 90 }
-    ],
-    inputs: ['oxygen_saturation', 'respiratory_rate', 'consciousness_level'],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: false,
-      log_override: true
-    }
-  },
-  {
-    id: 'hypovolemic_shock',
-    name: 'Choque Hipovolêmico',
-    description: 'Detecta sinais de choque hipovolêmico (Classes III-IV)',
-    type: 'predictive',
-    priority: 'critical',
-    conditions: [],
-    inputs: [
-      'systolic_bp',
-      'heart_rate',
-      'consciousness_level',
-      'bleeding_present',
-      'bleeding_severity'
-    ],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: false,
-      log_override: true
-    }
-  },
-  {
-    id: 'allergy_conflict_check',
-    name: 'Verificação de Conflito Alérgico',
-    description: 'Verifica conflitos entre alergias e medicações prescritas',
-    type: 'predictive',
-    priority: 'high',
-    conditions: [
-      { slot: 'allergy_history', operator: 'exists', value: true }
-    ],
-    inputs: ['allergy_history', 'medications_in_use'],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: true,
-      log_override: true
-    }
-  },
-  {
-    id: 'medication_interaction',
-    name: 'Interação Medicamentosa',
-    description: 'Verifica interações entre medicações em uso e prescritas',
-    type: 'predictive',
-    priority: 'high',
-    conditions: [
-      { slot: 'medications_in_use', operator: 'exists', value: true }
-    ],
-    inputs: ['medications_in_use', 'previous_medical_history'],
-    action: {
-      type: 'suggest',
-      show_reasoning: true,
-      override_allowed: true,
-      log_override: true
-    }
-  },
-  {
-    id: 'pediatric_dose_safety',
-    name: 'Segurança de Dose Pediátrica',
-    description: 'Verifica segurança de doses em pacientes pediátricos',
-    type: 'predictive',
-    priority: 'critical',
-    conditions: [
-      { slot: 'age', operator: 'lt', value: 18 }
-    ],
-    inputs: ['age', 'weight', 'height'],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: false,
-      log_override: true
-    }
-  },
-  {
-    id: 'geriatric_fragility_alert',
-    name: 'Alerta de Fragilidade Geriátrica',
-    description: 'Avalia fragilidade e medicações inadequadas em idosos',
-    type: 'predictive',
-    priority: 'high',
-    conditions: [
-      { slot: 'age', operator: 'gte', value: 65 }
-    ],
-    inputs: ['age', 'medications_in_use', 'previous_medical_history'],
-    action: {
-      type: 'suggest',
-      show_reasoning: true,
-      override_allowed: true,
-      log_override: true
-    }
-  },
-  {
-    id: 'pregnancy_contraindication',
-    name: 'Contraindicação na Gestação',
-    description: 'Verifica contraindicações de medicações/procedimentos em gestantes',
-    type: 'predictive',
-    priority: 'critical',
-    conditions: [
-      { slot: 'gender', operator: 'eq', value: 'female' },
-      { slot: 'age', operator: 'gte', value: 12 },
-      { slot: 'age', operator: 'lte', value: 55 }
-    ],
-    inputs: ['is_pregnant', 'pregnancy_trimester', 'age', 'gender'],
-    action: {
-      type: 'alert',
-      show_reasoning: true,
-      override_allowed: false,
-      log_override: true
-    }
+// PIR validado no carregamento do worker (protocolo divergente = falha no startup)
+const PIR = loadManchesterSPProtocol();
+
+// Protocol store compartilhado: cada sessão avalia os guards da versão a que está presa
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  return reloader;
+}
+
+async function resolveSessionProtocol(env: Env, sessionId: string, requested?: PIRVersionRef): Promise<ResolvedProtocol> {
+  const reloader = getReloader(env);
+  await reloader.bootstrap(PIR);
+  return reloader.pinSession(sessionId, PIR.protocol_id, requested);
+}
+
+// Orchestrator do PIR embarcado (consultas e health), criado uma vez por isolate
+let bundled: GuardOrchestrator | null = null;
+
+function bundledOrchestrator(env: Env): GuardOrchestrator {
+  return (bundled ??= new GuardOrchestrator(env.AI, PIR));
+}
+
+// Um orchestrator por versão do PIR (content_hash) por isolate: a sessão fica no orchestrator
+// da versão a que está presa, e todas as rotas dela voltam a ele
+const sessionOrchestrators = new Map<string, GuardOrchestrator>();
+
+function sessionOrchestrator(env: Env, protocol: ResolvedProtocol): GuardOrchestrator {
+  let orchestrator = sessionOrchestrators.get(protocol.content_hash);
+  if (!orchestrator) {
+    orchestrator = new GuardOrchestrator(env.AI, protocol.document);
+    logBindingReport(orchestrator.getBindingReport()); // Uma vez por versão
+    sessionOrchestrators.set(protocol.content_hash, orchestrator);
   }
-];
+  return orchestrator;
+}
+
+// Orchestrator da versão presa a uma sessão (null = sessão sem pin)
+async function pinnedOrchestrator(env: Env, sessionId: string): Promise<GuardOrchestrator | null> {
+  const protocol = await getReloader(env).resolveSession(sessionId);
+  return protocol ? sessionOrchestrator(env, protocol) : null;
+}
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
@@ -227,7 +94,7 @@ export default {
 
     try {
       // Initialize orchestrator
-      const orchestrator = new GuardOrchestrator(env.AI, MANCHESTER_GUARDS);
+      const orchestrator = bundledOrchestrator(env);
 
       // ========================================================================
       // POST /api/guards/execute
@@ -238,17 +105,21 @@ export default {
           patient_id?: string;
           slot_state: Record<string, any>;
           task_outputs?: Record<string, any>;
+          protocol?: PIRVersionRef; // Referência devolvida pelo pir-slots no início da triagem
         };
 
+        // Guards da versão exata do PIR a que a sessão está presa
+        const protocol = await resolveSessionProtocol(env, body.session_id, body.protocol);
+        
         const context: Omit<GuardContext, 'guard_id'> = {
           session_id: body.session_id,
           patient_id: body.patient_id,
-          slot_state: body.slot_state,
+          slot_state: SlotRegistry.forDocument(protocol.document).normalize(body.slot_state),
           task_outputs: body.task_outputs || {},
           timestamp: new Date().toISOString()
         };
 
-        const session = await orchestrator.executeGuards(body.session_id, context);
+        const session = await sessionOrchestrator(env, protocol).executeGuards(body.session_id, toVersionRef(protocol), context);
 
         return new Response(JSON.stringify({
           success: true,
@@ -263,7 +134,7 @@ export default {
       // ========================================================================
       if (path.startsWith('/api/guards/status/') && request.method === 'GET') {
         const sessionId = path.split('/').pop()!;
-        const session = orchestrator.getSession(sessionId);
+        const session = (await pinnedOrchestrator(env, sessionId))?.getSession(sessionId);
 
         if (!session) {
           return new Response(JSON.stringify({
@@ -288,7 +159,18 @@ export default {
       // ========================================================================
       if (path.startsWith('/api/guards/alerts/') && request.method === 'GET') {
         const sessionId = path.split('/').pop()!;
-        const summary = orchestrator.getAlertSummary(sessionId);
+        const pinned = await pinnedOrchestrator(env, sessionId);
+        if (!pinned?.getSession(sessionId)) {
+          return new Response(JSON.stringify({
+            success: false,
+            error: 'Session not found'
+          }), {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        const summary = pinned.getAlertSummary(sessionId);
 
         return new Response(JSON.stringify({
           success: true,
@@ -306,7 +188,9 @@ export default {
           status: 'healthy',
           service: 'pir-guards-executor',
           timestamp: new Date().toISOString(),
-          guards_available: MANCHESTER_GUARDS.length
+          guards_available: orchestrator.getGuards().length,
+          protocol: { protocol_id: PIR.protocol_id, version: PIR.version },
+          binding: orchestrator.getBindingReport()
         }), {
           headers: corsHeaders
         });
@@ -320,11 +204,11 @@ export default {
           service: 'PIR Guards Executor',
           version: '1.0.0',
           description: 'Cloudflare Worker para executar guards preditivos usando Workers AI',
-          guards: MANCHESTER_GUARDS.map(g => ({
-            id: g.id,
+          guards: orchestrator.getGuards().map(g => ({
+            id: g.guard_id,
             name: g.name,
             type: g.type,
-            priority: g.priority
+            priority: g.action.priority
           })),
           endpoints: [
             'POST /api/guards/execute',
@@ -347,6 +231,18 @@ export default {
       });
 
     } catch (error) {
+      // Referência de protocolo desconhecida ou divergente da versão presa à sessão
+      if (error instanceof ProtocolReloadError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          reason: error.reason
+        }), {
+          status: error.reason === 'not-found' ? 404 : 409,
+          headers: corsHeaders
+        });
+      }
+
       console.error('[PIR-Guards] Error:', error);
 
       return new Response(JSON.stringify({
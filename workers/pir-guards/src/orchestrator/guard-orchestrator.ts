@@ -16,7 +16,8 @@ import {
   GuardSessionStatus,
   GUARD_AI_MODELS
 } from '../types/guards';
-import { BaseGuardExecutor } from '../executors/base-guard';
+import { bindExecutors, type PIRBindingReport, type PIRDocument, type PIRVersionRef } from '@voither/pir-schema';
+import { BaseGuardExecutor, GuardExecutorConfig } from '../executors/base-guard';
 import {
   SepsisEarlyDetectionGuard,
   StrokeTimeWindowGuard,
@@ -30,69 +31,61 @@ import {
   PregnancyContraindicationGuard
 } from '../executors/llm-guards';
 
+/**
+ * Registro de executors por guard_id
+ * Definições (trigger, action, escalation) vêm do PIR; aqui só o código
+ */
+const GUARD_EXECUTORS: Record<string, new (ai: Ai, config: GuardExecutorConfig) => BaseGuardExecutor> = {
+  sepsis_early_detection: SepsisEarlyDetectionGuard,
+  stroke_time_window: StrokeTimeWindowGuard,
+  cardiac_ischemia_alert: CardiacIschemiaAlertGuard,
+  hypoxemia_critical: CriticalHypoxemiaGuard,
+  hypovolemic_shock_risk: HypovolemicShockGuard,
+  allergy_medication_conflict: AllergyConflictCheckGuard,
+  medication_interaction: MedicationInteractionGuard,
+  pediatric_dose_safety: PediatricDoseSafetyGuard,
+  geriatric_fragility_alert: GeriatricFragilityAlertGuard,
+  pregnancy_contraindication: PregnancyContraindicationGuard,
+};
+
 export class GuardOrchestrator {
   private ai: Ai;
-  private executors: Map<string, BaseGuardExecutor> = new Map();
+  private guards: Guard[];
+  private executors: Map<string, BaseGuardExecutor>;
+  private bindingReport: PIRBindingReport;
   private sessions: Map<string, GuardExecutionSession> = new Map();
 
-  constructor(ai: Ai, guards: Guard[]) {
+  constructor(ai: Ai, pir: PIRDocument) {
     this.ai = ai;
-    this.initializeExecutors(guards);
+
+    // Liga cada guard do PIR ao seu executor pelo guard_id
+    const { executors, report } = bindExecutors<Guard, BaseGuardExecutor>({
+      component: 'guards',
+      document: pir,
+      definitions: pir.guards,
+      getId: (guard) => guard.guard_id,
+      registry: Object.fromEntries(
+        Object.entries(GUARD_EXECUTORS).map(([guardId, Executor]) => [guardId, (guard: Guard) => new Executor(ai, { guard })])
+      ),
+    });
+
+    this.guards = pir.guards.filter((guard) => executors.has(guard.guard_id));
+    this.executors = executors;
+    this.bindingReport = report;
   }
 
   /**
-   * Initialize guard executors for all defined guards
+   * Relatório de binding PIR ↔ executors
    */
-  private initializeExecutors(guards: Guard[]): void {
-    for (const guard of guards) {
-      const executor = this.createExecutor(guard);
-      if (executor) {
-        this.executors.set(guard.id, executor);
-      }
-    }
+  getBindingReport(): PIRBindingReport {
+    return this.bindingReport;
   }
 
   /**
-   * Factory method to create appropriate executor for each guard
+   * Guards do PIR com executor disponível
    */
-  private createExecutor(guard: Guard): BaseGuardExecutor | null {
-    const config = { guard };
-
-    switch (guard.id) {
-      case 'sepsis_early_detection':
-        return new SepsisEarlyDetectionGuard(this.ai, config);
-
-      case 'stroke_time_window':
-        return new StrokeTimeWindowGuard(this.ai, config);
-
-      case 'cardiac_ischemia_alert':
-        return new CardiacIschemiaAlertGuard(this.ai, config);
-
-      case 'critical_hypoxemia':
-        return new CriticalHypoxemiaGuard(this.ai, config);
-
-      case 'hypovolemic_shock':
-        return new HypovolemicShockGuard(this.ai, config);
-
-      case 'allergy_conflict_check':
-        return new AllergyConflictCheckGuard(this.ai, config);
-
-      case 'medication_interaction':
-        return new MedicationInteractionGuard(this.ai, config);
-
-      case 'pediatric_dose_safety':
-        return new PediatricDoseSafetyGuard(this.ai, config);
-
-      case 'geriatric_fragility_alert':
-        return new GeriatricFragilityAlertGuard(this.ai, config);
-
-      case 'pregnancy_contraindication':
-        return new PregnancyContraindicationGuard(this.ai, config);
-
-      default:
-        console.warn(`No executor found for guard: ${guard.id}`);
-        return null;
-    }
+  getGuards(): Guard[] {
+    return this.guards;
   }
 
   /**
@@ -101,10 +94,12 @@ export class GuardOrchestrator {
    */
   async executeGuards(
     sessionId: string,
+    protocol: PIRVersionRef,
     context: Omit<GuardContext, 'guard_id'>
   ): Promise<GuardExecutionSession> {
     const session: GuardExecutionSession = {
       session_id: sessionId,
+      protocol,
       status: 'running',
       guards_executed: [],
       guards_triggered: [],
@@ -190,16 +185,7 @@ Analise o contexto clínico e selecione APENAS os guards relevantes para executa
 NÃO execute guards desnecessários para economizar recursos.
 
 Guards Disponíveis:
-1. sepsis_early_detection - Detecção precoce de sepse (sinais vitais alterados, infecção suspeita)
-2. stroke_time_window - Janela terapêutica AVC (suspeita de AVC, sinais neurológicos)
-3. cardiac_ischemia_alert - Alerta de isquemia cardíaca (dor torácica, fatores de risco cardíaco)
-4. critical_hypoxemia - Hipoxemia crítica (SpO2 baixo, dificuldade respiratória)
-5. hypovolemic_shock - Choque hipovolêmico (hemorragia, hipotensão + taquicardia)
-6. allergy_conflict_check - Conflito alérgico (sempre verificar se há medicações prescritas)
-7. medication_interaction - Interação medicamentosa (sempre verificar se há medicações prescritas)
-8. pediatric_dose_safety - Segurança de dose pediátrica (idade < 18 anos + medicações prescritas)
-9. geriatric_fragility_alert - Fragilidade geriátrica (idade ≥ 65 anos)
-10. pregnancy_contraindication - Contraindicação na gestação (sexo feminino + idade fértil)
+${this.describeGuardsForSelection()}
 
 Responda APENAS com JSON:
 {
@@ -218,7 +204,7 @@ DADOS DO PACIENTE:
 Queixa Principal: ${context.slot_state.chief_complaint || 'não informada'}
 
 Sinais Vitais:
-- PA: ${context.slot_state.systolic_bp}/${context.slot_state.diastolic_bp} mmHg
+- PA: ${context.slot_state.blood_pressure?.systolic}/${context.slot_state.blood_pressure?.diastolic} mmHg
 - FC: ${context.slot_state.heart_rate} bpm
 - FR: ${context.slot_state.respiratory_rate} irpm
 - Temp: ${context.slot_state.temperature}°C
@@ -226,9 +212,9 @@ Sinais Vitais:
 - Consciência: ${context.slot_state.consciousness_level}
 
 Demografia:
-- Idade: ${context.slot_state.age || 'não informada'}
-- Sexo: ${context.slot_state.gender || 'não informado'}
-- Gestante: ${context.slot_state.is_pregnant ? 'SIM' : 'NÃO'}
+- Idade: ${context.slot_state.age ?? 'não informada'}
+- Sexo: ${context.slot_state.sex || 'não informado'}
+- Gestante: ${context.slot_state.pregnancy_status === 'pregnant' ? 'SIM' : context.slot_state.pregnancy_status === 'possible' ? 'POSSÍVEL' : 'NÃO'}
 
 Hemorragia: ${context.slot_state.bleeding_present ? 'SIM' : 'NÃO'}
 
@@ -251,8 +237,7 @@ Selecione os guards relevantes para este caso.`;
         max_tokens: 1000
       });
 
-      // @ts-ignore - Workers AI types
-      const responseText = response.response || '';
+      const responseText = (response as { response?: string }).response || '';
 
       // Parse JSON response
       const cleaned = responseText
@@ -265,10 +250,13 @@ Selecione os guards relevantes para este caso.`;
         reasoning: string;
       };
 
-      console.log(`[GuardOrchestrator] Selected guards: ${parsed.relevant_guards.join(', ')}`);
+      // Descarta IDs inventados pelo LLM (só guards ligados a executor)
+      const selected = parsed.relevant_guards.filter((guardId) => this.executors.has(guardId));
+
+      console.log(`[GuardOrchestrator] Selected guards: ${selected.join(', ')}`);
       console.log(`[GuardOrchestrator] Reasoning: ${parsed.reasoning}`);
 
-      return parsed.relevant_guards;
+      return selected;
 
     } catch (error) {
       console.error('[GuardOrchestrator] Failed to select guards intelligently, running all guards:', error);
@@ -278,6 +266,15 @@ Selecione os guards relevantes para este caso.`;
     }
   }
 
+  /**
+   * Lista de guards para o prompt de seleção (gerada a partir do PIR)
+   */
+  private describeGuardsForSelection(): string {
+    return this.guards
+      .map((guard, index) => `${index + 1}. ${guard.guard_id} - ${guard.name} (trigger: ${guard.trigger.condition})`)
+      .join('\n');
+  }
+
   /**
    * Execute a single guard
    */
@@ -5,13 +5,15 @@
  * Guards SUGEREM (não bloqueiam) usando Workers AI
  */
 
-export type GuardType = 'predictive' | 'reactive' | 'continuous';
+import type { PIRGuard, PIRGuardActionType, PIRGuardPriority, PIRGuardType, PIRVersionRef } from '@voither/pir-schema';
 
-export type GuardActionType = 'suggest' | 'alert' | 'block' | 'notify';
+export type GuardType = PIRGuardType;
 
-export type GuardPriority = 'critical' | 'high' | 'medium' | 'low';
+export type GuardActionType = PIRGuardActionType;
 
-export type GuardStatus = 'active' | 'triggered' | 'overridden' | 'ignored' | 'resolved';
+export type GuardPriority = PIRGuardPriority;
+
+export type GuardStatus = 'completed' | 'skipped' | 'failed'; // Execução do guard; disparo fica em `triggered`
 
 /**
  * Contexto para execução de guard
@@ -65,42 +67,52 @@ export interface GuardResult {
     action: string;
   };
 
-  execution_time_ms: number;
-  timestamp: string;
+  context: {
+    session_id: string;
+    patient_id?: string;
+    timestamp: string;
+  };
+
+  execution_time_ms?: number;
+  model_used?: string;
+  error?: string;
+  reason?: string; // Por que o guard foi pulado
 }
 
 /**
- * Definição de um guard (lida do PIR JSON)
+ * Sessão de execução de guards
  */
-export interface Guard {
-  guard_id: string;
-  name: string;
-  type: GuardType;
-  description: string;
+export type GuardSessionStatus = 'running' | 'completed' | 'alerts_triggered' | 'failed';
 
-  trigger: {
-    condition: string;
-  };
-
-  action: {
-    type: GuardActionType;
-    message: string;
-    show_reasoning?: boolean;
-    reasoning?: string;
-    priority?: GuardPriority;
-    override_allowed: boolean;
-    log_override?: boolean;
-  };
-
-  escalation?: {
-    if_ignored: string;
-    after: string; // "15m", "30m", etc
+export interface GuardExecutionSession {
+  session_id: string;
+  protocol: PIRVersionRef; // Versão exata do PIR cujos guards foram avaliados
+  status: GuardSessionStatus;
+  guards_executed: Array<{
+    guard_id: string;
+    status: GuardStatus;
+    triggered: boolean;
+    execution_time_ms?: number;
+    error?: string;
+  }>;
+  guards_triggered: string[];
+  results?: Record<string, GuardResult>;
+  started_at: string;
+  completed_at?: string;
+  total_execution_time_ms?: number;
+  error?: string;
+  context: {
+    patient_id?: string;
+    timestamp: string;
   };
-
-  countdown_timer?: boolean;
-  auto_activate?: string; // protocol to activate
 }
 
+/**
+ * Definição de um guard (lida do PIR JSON)
+ * Forma definida em @voither/pir-schema
+ */
+export type Guard = PIRGuard;
+
 /**
  * Modelos Workers AI para guards
  */
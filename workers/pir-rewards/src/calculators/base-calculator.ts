@@ -72,8 +72,7 @@ export abstract class BaseRewardCalculator {
       max_tokens: 2000
     });
 
-    // @ts-ignore - Workers AI types
-    const responseText = response.response || '';
+    const responseText = (response as { response?: string }).response || '';
 
     const cleaned = responseText
       .replace(/```json\n?/g, '')
@@ -11,117 +11,68 @@
  * - GET /health - Health check
  */
 
+import {
+  KVProtocolStore,
+  loadManchesterSPProtocol,
+  logBindingReport,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  SlotRegistry,
+  toVersionRef,
+  type PIRVersionRef,
+  type ResolvedProtocol,
+} from '@voither/pir-schema';
 import { RewardOrchestrator } from './orchestrator/reward-orchestrator';
-import { RewardComponent, RewardContext } from './types/rewards';
+import { RewardContext } from './types/rewards';
 
 export interface Env {
   AI: Ai;
+  PROTOCOLS_KV: KVNamespace; // Protocol store compartilhado com pir-slots
 }
 
-// Manchester Protocol Reward Components (from PIR JSON)
-const MANCHESTER_REWARD_COMPONENTS: RewardComponent[] = [
-  {
-    category: 'classification_accuracy',
-    weight: 0.35, // 35% - Most important for learning
-    description: 'Acurácia da classificação de prioridade Manchester',
-    metrics: {
-      positive_indicators: [
-        'Classificação correta confirmada por desfecho',
-        'Cor Manchester apropriada para gravidade',
-        'Fluxograma correto selecionado',
-        'Reclassificação adequada quando necessária'
-      ],
-      negative_indicators: [
-        'Subclassificação (classificou mais baixo que deveria)',
-        'Sobreclassificação (classificou mais alto que necessário)',
-        'Fluxograma incorreto',
-        'Falha em reclassificar deterioração'
-      ]
-    }
-  },
-  {
-    category: 'deadline_adherence',
-    weight: 0.25, // 25% - Important for operational learning
-    description: 'Aderência aos prazos de atendimento (cores Manchester + fluxos prioritários)',
-    metrics: {
-      positive_indicators: [
-        'Todos deadlines cumpridos',
-        'Deadlines críticos respeitados',
-        'Tempo de triagem otimizado',
-        'Fluxos prioritários dentro da janela terapêutica'
-      ],
-      negative_indicators: [
-        'Deadlines críticos perdidos',
-        'Atrasos em fluxos prioritários (dor torácica, AVC, sepse)',
-        'Tempo de triagem excessivo',
-        'Fila de espera prolongada'
-      ]
-    }
-  },
-  {
-    category: 'patient_safety',
-    weight: 0.30, // 30% - Critical for safety learning
-    description: 'Segurança do paciente (eventos adversos, guards, near-misses)',
-    metrics: {
-      positive_indicators: [
-        'Nenhum evento adverso',
-        'Guards detectaram riscos precocemente',
-        'Near-misses identificados e prevenidos',
-        'Overrides de guards justificados e documentados',
-        'Desfecho clínico positivo'
-      ],
-      negative_indicators: [
-        'Eventos adversos ocorreram',
-        'Guards não dispararam quando deveriam',
-        'Overrides de guards inadequados',
-        'Near-misses não detectados',
-        'Deterioração clínica não identificada'
-      ]
-    }
-  },
-  {
-    category: 'resource_efficiency',
-    weight: 0.05, // 5% - Less critical for learning
-    description: 'Eficiência no uso de recursos (exames, medicações, especialistas)',
-    metrics: {
-      positive_indicators: [
-        'Exames solicitados apropriados',
-        'Medicações prescritas adequadas',
-        'Consultas a especialistas necessárias',
-        'Sem desperdício de recursos',
-        'Tempo de triagem otimizado'
-      ],
-      negative_indicators: [
-        'Exames desnecessários solicitados',
-        'Medicações inapropriadas',
-        'Consultas desnecessárias',
-        'Desperdício de recursos',
-        'Tempo de triagem excessivo'
-      ]
-    }
-  },
-  {
-    category: 'pattern_detection',
-    weight: 0.05, // 5% - Pattern recognition bonus
-    description: 'Detecção de padrões críticos (sepse, AVC, IAM, trauma)',
-    metrics: {
-      positive_indicators: [
-        'Sepse detectada precocemente',
-        'AVC identificado dentro da janela',
-        'IAM reconhecido rapidamente',
-        'Trauma grave identificado',
-        'Fluxos prioritários ativados corretamente'
-      ],
-      negative_indicators: [
-        'Sepse não detectada',
-        'AVC perdido fora da janela terapêutica',
-        'IAM não reconhecido',
-        'Trauma grave subestimado',
-        'Fluxos prioritários não ativados'
-      ]
-    }
+// PIR validado no carregamento do worker (protocolo divergente = falha no startup)
+const PIR = loadManchesterSPProtocol();
+
+// Protocol store compartilhado: cada sessão é pontuada com os rewards da versão a que está presa
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  return reloader;
+}
+
+async function resolveSessionProtocol(env: Env, sessionId: string, requested?: PIRVersionRef): Promise<ResolvedProtocol> {
+  const reloader = getReloader(env);
+  await reloader.bootstrap(PIR);
+  return reloader.pinSession(sessionId, PIR.protocol_id, requested);
+}
+
+// Orchestrator do PIR embarcado (consultas e health), criado uma vez por isolate
+let bundled: RewardOrchestrator | null = null;
+
+function bundledOrchestrator(env: Env): RewardOrchestrator {
+  return (bundled ??= new RewardOrchestrator(env.AI, PIR));
+}
+
+// Um orchestrator por versão do PIR (content_hash) por isolate: a sessão fica no orchestrator
+// da versão a que está presa, e todas as rotas dela voltam a ele
+const sessionOrchestrators = new Map<string, RewardOrchestrator>();
+
+function sessionOrchestrator(env: Env, protocol: ResolvedProtocol): RewardOrchestrator {
+  let orchestrator = sessionOrchestrators.get(protocol.content_hash);
+  if (!orchestrator) {
+    orchestrator = new RewardOrchestrator(env.AI, protocol.document);
+    logBindingReport(orchestrator.getBindingReport()); // Uma vez por versão
+    sessionOrchestrators.set(protocol.content_hash, orchestrator);
   }
-];
+  return orchestrator;
+}
+
+// Orchestrator da versão presa a uma sessão (null = sessão sem pin)
+async function pinnedOrchestrator(env: Env, sessionId: string): Promise<RewardOrchestrator | null> {
+  const protocol = await getReloader(env).resolveSession(sessionId);
+  return protocol ? sessionOrchestrator(env, protocol) : null;
+}
 
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
@@ -140,7 +91,7 @@ export default {
     }
 
     try {
-      const orchestrator = new RewardOrchestrator(env.AI, MANCHESTER_REWARD_COMPONENTS);
+      const orchestrator = bundledOrchestrator(env);
 
       // ========================================================================
       // POST /api/rewards/calculate
@@ -148,7 +99,11 @@ export default {
       if (path === '/api/rewards/calculate' && request.method === 'POST') {
         const body = await request.json() as RewardContext;
 
-        const result = await orchestrator.calculateRewards(body);
+        // Rewards da versão exata do PIR a que a sessão está presa
+        const protocol = await resolveSessionProtocol(env, body.session_id, body.protocol);
+                body.slots_extracted = SlotRegistry.forDocument(protocol.document).normalize(body.slots_extracted);
+
+        const result = await sessionOrchestrator(env, protocol).calculateRewards(body, toVersionRef(protocol));
 
         return new Response(JSON.stringify({
           success: true,
@@ -163,7 +118,7 @@ export default {
       // ========================================================================
       if (path.startsWith('/api/rewards/result/') && request.method === 'GET') {
         const sessionId = path.split('/').pop()!;
-        const result = orchestrator.getResult(sessionId);
+        const result = (await pinnedOrchestrator(env, sessionId))?.getResult(sessionId);
 
         if (!result) {
           return new Response(JSON.stringify({
@@ -192,9 +147,22 @@ export default {
           time_period: { start: string; end: string };
         };
 
-        const metrics = await orchestrator.calculatePerformanceMetrics(
-          body.session_ids,
-          body.time_period
+        // Uma entrada por versão do PIR: scores de definições de reward diferentes não se misturam
+        const groups = new Map<string, { protocol: ResolvedProtocol; session_ids: string[] }>();
+        for (const sessionId of body.session_ids) {
+          const protocol = await getReloader(env).resolveSession(sessionId);
+          if (!protocol) continue; // Sessão sem pin: nunca calculada
+
+          const group = groups.get(protocol.content_hash);
+          if (group) group.session_ids.push(sessionId);
+          else groups.set(protocol.content_hash, { protocol, session_ids: [sessionId] });
+        }
+
+        const metrics = await Promise.all(
+          [...groups.values()].map(async ({ protocol, session_ids }) => ({
+            protocol: toVersionRef(protocol),
+            metrics: await sessionOrchestrator(env, protocol).calculatePerformanceMetrics(session_ids, body.time_period)
+          }))
         );
 
         return new Response(JSON.stringify({
@@ -213,7 +181,9 @@ export default {
           status: 'healthy',
           service: 'pir-rewards-executor',
           timestamp: new Date().toISOString(),
-          reward_components: MANCHESTER_REWARD_COMPONENTS.length
+          reward_components: orchestrator.getComponents().length,
+          protocol: { protocol_id: PIR.protocol_id, version: PIR.version },
+          binding: orchestrator.getBindingReport()
         }), {
           headers: corsHeaders
         });
@@ -227,10 +197,11 @@ export default {
           service: 'PIR Rewards Executor',
           version: '1.0.0',
           description: 'Cloudflare Worker para calcular rewards de sessões de triagem usando Workers AI',
-          reward_components: MANCHESTER_REWARD_COMPONENTS.map(c => ({
+          reward_components: orchestrator.getComponents().map(c => ({
             category: c.category,
             weight: c.weight,
-            description: c.description
+            description: c.description,
+            reward_ids: c.reward_ids
           })),
           endpoints: [
             'POST /api/rewards/calculate',
@@ -262,6 +233,18 @@ export default {
       });
 
     } catch (error) {
+      // Referência de protocolo desconhecida ou divergente da versão presa à sessão
+      if (error instanceof ProtocolReloadError) {
+        return new Response(JSON.stringify({
+          success: false,
+          error: error.message,
+          reason: error.reason
+        }), {
+          status: error.reason === 'not-found' ? 404 : 409,
+          headers: corsHeaders
+        });
+      }
+
       console.error('[PIR-Rewards] Error:', error);
 
       return new Response(JSON.stringify({
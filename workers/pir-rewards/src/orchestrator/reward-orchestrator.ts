@@ -5,7 +5,9 @@
  * Uses Cloudflare Workers AI to score triage session outcomes for RRE learning.
  */
 
+import { bindExecutors, type PIRBindingReport, type PIRDocument, type PIRReward, type PIRVersionRef } from '@voither/pir-schema';
 import {
+  RewardCategory,
   RewardComponent,
   RewardContext,
   RewardResult,
@@ -16,7 +18,7 @@ import {
   calculateWeightedScore,
   REWARD_AI_MODELS
 } from '../types/rewards';
-import { BaseRewardCalculator } from '../calculators/base-calculator';
+import { BaseRewardCalculator, RewardCalculatorConfig } from '../calculators/base-calculator';
 import {
   ClassificationAccuracyCalculator,
   DeadlineAdherenceCalculator,
@@ -25,62 +27,139 @@ import {
   PatternDetectionCalculator
 } from '../calculators/reward-calculators';
 
+/**
+ * Registro de calculators por categoria
+ */
+const REWARD_CALCULATORS: Record<RewardCategory, new (ai: Ai, config: RewardCalculatorConfig) => BaseRewardCalculator> = {
+  classification_accuracy: ClassificationAccuracyCalculator,
+  deadline_adherence: DeadlineAdherenceCalculator,
+  patient_safety: PatientSafetyCalculator,
+  resource_efficiency: ResourceEfficiencyCalculator,
+  pattern_detection: PatternDetectionCalculator,
+};
+
+/**
+ * Categoria de calculator por reward_id
+ * Definições (weight, criteria) vêm do PIR; aqui só a ligação ao código
+ */
+const REWARD_CATEGORIES: Record<string, RewardCategory> = {
+  successful_triage_completion: 'classification_accuracy',
+  complete_audit_trail: 'classification_accuracy',
+
+  deadline_adherence_red: 'deadline_adherence',
+  deadline_adherence_orange: 'deadline_adherence',
+  deadline_adherence_yellow: 'deadline_adherence',
+  deadline_adherence_green: 'deadline_adherence',
+  negative_deadline_violation: 'deadline_adherence',
+
+  early_deterioration_detection: 'patient_safety',
+  guard_suggestion_followed: 'patient_safety',
+  negative_missing_priority_activation: 'patient_safety',
+
+  efficient_queue_management: 'resource_efficiency',
+
+  priority_flow_activation_chest_pain: 'pattern_detection',
+  priority_flow_activation_stroke: 'pattern_detection',
+  priority_flow_activation_sepsis: 'pattern_detection',
+  pattern_recognition_sepsis: 'pattern_detection',
+  pattern_recognition_mi: 'pattern_detection',
+};
+
+/**
+ * Agrega rewards do PIR em componentes por categoria
+ * Peso da categoria = soma de |weight| dos seus rewards, normalizada para 1.0
+ * Rewards com weight negativo viram indicadores negativos
+ */
+function buildRewardComponents(rewards: PIRReward[], categories: Map<string, RewardCategory>): RewardComponent[] {
+  const components = new Map<RewardCategory, RewardComponent>();
+  let totalWeight = 0;
+
+  for (const reward of rewards) {
+    const category = categories.get(reward.reward_id);
+    if (!category) continue;
+
+    let component = components.get(category);
+    if (!component) {
+      component = {
+        category,
+        weight: 0,
+        description: '',
+        reward_ids: [],
+        metrics: { positive_indicators: [], negative_indicators: [] }
+      };
+      components.set(category, component);
+    }
+
+    const indicator = `${reward.reward_id}: ${reward.description}`;
+    if (reward.weight >= 0) {
+      component.metrics.positive_indicators.push(indicator);
+    } else {
+      component.metrics.negative_indicators.push(indicator);
+    }
+
+    component.reward_ids.push(reward.reward_id);
+    component.weight += Math.abs(reward.weight);
+    totalWeight += Math.abs(reward.weight);
+  }
+
+  return Array.from(components.values()).map(component => ({
+    ...component,
+    weight: totalWeight > 0 ? component.weight / totalWeight : 0,
+    description: rewards
+      .filter(reward => component.reward_ids.includes(reward.reward_id))
+      .map(reward => reward.name)
+      .join('; ')
+  }));
+}
+
 export class RewardOrchestrator {
   private ai: Ai;
   private calculators: Map<string, BaseRewardCalculator> = new Map();
   private results: Map<string, RewardResult> = new Map();
   private components: RewardComponent[];
+  private bindingReport: PIRBindingReport;
 
-  constructor(ai: Ai, components: RewardComponent[]) {
+  constructor(ai: Ai, pir: PIRDocument) {
     this.ai = ai;
-    this.components = components;
-    this.initializeCalculators();
-  }
 
-  /**
-   * Initialize calculators for all reward components
-   */
-  private initializeCalculators(): void {
+    // Liga cada reward do PIR à categoria do seu calculator pelo reward_id
+    const { executors: categories, report } = bindExecutors<PIRReward, RewardCategory>({
+      component: 'rewards',
+      document: pir,
+      definitions: pir.rewards,
+      getId: (reward) => reward.reward_id,
+      registry: Object.fromEntries(
+        Object.entries(REWARD_CATEGORIES).map(([rewardId, category]) => [rewardId, () => category])
+      ),
+    });
+
+    this.components = buildRewardComponents(pir.rewards, categories);
+    this.bindingReport = report;
+
     for (const component of this.components) {
-      const calculator = this.createCalculator(component);
-      if (calculator) {
-        this.calculators.set(component.category, calculator);
-      }
+      const Calculator = REWARD_CALCULATORS[component.category];
+      this.calculators.set(component.category, new Calculator(ai, { component, useAI: true }));
     }
   }
 
   /**
-   * Factory method to create appropriate calculator
+   * Relatório de binding PIR ↔ calculators
    */
-  private createCalculator(component: RewardComponent): BaseRewardCalculator | null {
-    const config = { component, useAI: true };
-
-    switch (component.category) {
-      case 'classification_accuracy':
-        return new ClassificationAccuracyCalculator(this.ai, config);
-
-      case 'deadline_adherence':
-        return new DeadlineAdherenceCalculator(this.ai, config);
-
-      case 'patient_safety':
-        return new PatientSafetyCalculator(this.ai, config);
-
-      case 'resource_efficiency':
-        return new ResourceEfficiencyCalculator(this.ai, config);
-
-      case 'pattern_detection':
-        return new PatternDetectionCalculator(this.ai, config);
+  getBindingReport(): PIRBindingReport {
+    return this.bindingReport;
+  }
 
-      default:
-        console.warn(`[RewardOrchestrator] No calculator for category: ${component.category}`);
-        return null;
-    }
+  /**
+   * Componentes de reward (por categoria) derivados do PIR
+   */
+  getComponents(): RewardComponent[] {
+    return this.components;
   }
 
   /**
    * Calculate rewards for a completed triage session
    */
-  async calculateRewards(context: RewardContext): Promise<RewardResult> {
+  async calculateRewards(context: RewardContext, protocol: PIRVersionRef): Promise<RewardResult> {
     const startTime = Date.now();
 
     try {
@@ -125,6 +204,7 @@ export class RewardOrchestrator {
 
       const result: RewardResult = {
         session_id: context.session_id,
+        protocol,
         timestamp: context.timestamp,
         overall_score: overallScore,
         normalized_score: normalizedScore,
@@ -148,6 +228,7 @@ export class RewardOrchestrator {
       // Return error result
       return {
         session_id: context.session_id,
+        protocol,
         timestamp: context.timestamp,
         overall_score: 0,
         normalized_score: 50,
@@ -5,6 +5,8 @@
  * System learns from successful/unsuccessful triage outcomes to improve over time.
  */
 
+import type { PIRVersionRef } from '@voither/pir-schema';
+
 export type RewardCategory =
   | 'classification_accuracy'
   | 'deadline_adherence'
@@ -15,12 +17,13 @@ export type RewardCategory =
 export type OutcomeType = 'positive' | 'negative' | 'neutral';
 
 /**
- * Reward component definition from PIR JSON
+ * Reward component (uma categoria de calculator) agregado dos rewards do PIR
  */
 export interface RewardComponent {
   category: RewardCategory;
   weight: number; // 0-1, sum should be 1.0
   description: string;
+  reward_ids: string[]; // rewards do PIR agregados nesta categoria
   metrics: {
     positive_indicators: string[];
     negative_indicators: string[];
@@ -34,6 +37,7 @@ export interface RewardContext {
   session_id: string;
   patient_id?: string;
   timestamp: string;
+  protocol?: PIRVersionRef; // Referência devolvida pelo pir-slots no início da triagem
 
   // Initial state
   initial_classification?: string;
@@ -93,6 +97,7 @@ export interface CategoryScore {
  */
 export interface RewardResult {
   session_id: string;
+  protocol: PIRVersionRef; // Versão exata do PIR cujos rewards foram calculados
   timestamp: string;
   overall_score: number; // -1 to 1 (weighted sum)
   normalized_score: number; // 0 to 100
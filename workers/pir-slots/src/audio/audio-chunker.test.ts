@@ -0,0 +1,108 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { AudioChunker, type AudioChunkerOptions, type AudioSegment } from './audio-chunker';
+import { OggDemuxer } from './containers';
+import { parseWAVHeader } from './pcm';
+
+// Fixtures (fixtures/):
+// - two-utterances-8k-mono.wav: falas em 0.6–1.6 s e 2.8–3.6 s sobre ruído de fundo
+// - two-speakers-8k-stereo.wav: um microfone por falante; canal 0 fala em 0.5–1.5 s, canal 1 em 2.0–3.0 s,
+//   cada voz vaza -26 dB no outro canal
+// - click-8k-mono.wav: clique de 60 ms
+// - two-utterances-opus.ogg: Ogg Opus como o do MediaRecorder, pacotes de 20 ms (3 bytes em silêncio,
+//   160 bytes em fala nos mesmos intervalos do WAV mono); só o container é válido, não o áudio
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+}
+
+function chunk(bytes: Uint8Array, options: AudioChunkerOptions = {}, chunkSize = bytes.length): AudioSegment[] {
+  const chunker = new AudioChunker(options);
+  const segments: AudioSegment[] = [];
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    segments.push(...chunker.push(bytes.subarray(offset, offset + chunkSize)));
+  }
+  return [...segments, ...chunker.flush()];
+}
+
+const timings = (segments: AudioSegment[]) => segments.map(({ start_ms, end_ms, reason, channel }) => ({ start_ms, end_ms, reason, channel }));
+
+describe('AudioChunker', () => {
+  describe('WAV', () => {
+    it('cuts one 16 kHz mono WAV per utterance, with pre-roll and hangover', () => {
+      const segments = chunk(fixture('two-utterances-8k-mono.wav'));
+
+      expect(timings(segments)).toEqual([
+        { start_ms: 420, end_ms: 2130, reason: 'silence', channel: undefined },
+        { start_ms: 2610, end_ms: 4110, reason: 'silence', channel: undefined },
+      ]);
+      for (const segment of segments) {
+        const header = parseWAVHeader(new Uint8Array(segment.audio));
+        expect(segment.mime_type).toBe('audio/wav');
+        expect(header?.format).toEqual({ encoding: 'pcm_s16le', sample_rate: 16_000, channels: 1 });
+        expect(header?.data_length).toBe((segment.end_ms - segment.start_ms) * 16 * 2);
+      }
+    });
+
+    it('does not depend on how the stream is split', () => {
+      const bytes = fixture('two-utterances-8k-mono.wav');
+      const whole = chunk(bytes);
+
+      for (const size of [7, 997, 4096]) {
+        expect(timings(chunk(bytes, {}, size))).toEqual(timings(whole));
+      }
+      expect(new Uint8Array(chunk(bytes, {}, 997)[1].audio)).toEqual(new Uint8Array(whole[1].audio));
+    });
+
+    it('reads headerless PCM in the declared format', () => {
+      const wav = fixture('two-utterances-8k-mono.wav');
+      const pcm = wav.subarray(parseWAVHeader(wav)!.data_offset);
+
+      const segments = chunk(pcm, { pcm_format: { encoding: 'pcm_s16le', sample_rate: 8000, channels: 1 } }, 1000);
+      expect(timings(segments)).toEqual(timings(chunk(wav)));
+    });
+
+    it('drops clicks shorter than the minimum speech', () => {
+      expect(chunk(fixture('click-8k-mono.wav'))).toEqual([]);
+    });
+  });
+
+  describe('split channels', () => {
+    it('separates speakers by microphone and ignores crosstalk', () => {
+      const bytes = fixture('two-speakers-8k-stereo.wav');
+
+      // Mixado, a troca rápida de falantes vira um trecho só
+      expect(chunk(bytes)).toHaveLength(1);
+      expect(timings(chunk(bytes, { split_channels: true }, 997))).toEqual([
+        { start_ms: 300, end_ms: 2010, reason: 'silence', channel: 0 },
+        { start_ms: 1800, end_ms: 3510, reason: 'silence', channel: 1 },
+      ]);
+    });
+  });
+
+  describe('Ogg Opus', () => {
+    it('segments by packet size and re-muxes each utterance', () => {
+      const segments = chunk(fixture('two-utterances-opus.ogg'), {}, 997);
+
+      expect(timings(segments)).toEqual([
+        { start_ms: 300, end_ms: 2000, reason: 'silence', channel: undefined },
+        { start_ms: 2300, end_ms: 3600, reason: 'silence', channel: undefined },
+      ]);
+
+      for (const segment of segments) {
+        expect(segment.mime_type).toBe('audio/ogg');
+        const demuxer = new OggDemuxer();
+        const packets = demuxer.push(new Uint8Array(segment.audio));
+        expect(demuxer.ready).toBe(true);
+        expect(packets.length * 20).toBe(segment.end_ms - segment.start_ms);
+      }
+    });
+  });
+
+  it('passes formats it cannot segment through on flush', () => {
+    const mp3 = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xfb]);
+    const segments = chunk(mp3, {}, 5);
+    expect(segments).toEqual([expect.objectContaining({ mime_type: 'audio/mpeg', reason: 'flush' })]);
+    expect(new Uint8Array(segments[0].audio)).toEqual(mp3);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * PIR Audio Chunker - Áudio em streaming → trechos alinhados a falas para o Whisper
+ *
+ * Formato detectado pelos primeiros bytes:
+ * - WAV ou PCM sem cabeçalho: decodificado, mono, 16 kHz, VAD por energia em frames de 30 ms;
+ *   cada fala vira um WAV 16-bit. Com `split_channels` (um microfone por falante) cada
+ *   canal tem seu VAD; frames em que o canal está bem abaixo do mais alto são vazamento
+ *   da voz do outro microfone e contam como silêncio
+ * - WebM/Ogg Opus (MediaRecorder): VAD pelo tamanho dos pacotes, sem decodificar;
+ *   cada fala vira um WebM/Ogg independente
+ * - MP3, FLAC, MP4: sem segmentação; o áudio inteiro sai no flush()
+ */
+
+import {
+  DEFAULT_PCM_FORMAT,
+  StreamingResampler,
+  WHISPER_SAMPLE_RATE,
+  bytesPerFrame,
+  decodePCM,
+  downmixToMono,
+  encodeWAV,
+  extractChannel,
+  parseWAVHeader,
+  type PCMFormat,
+} from './pcm';
+import {
+  OggDemuxer,
+  WebMDemuxer,
+  detectContainer,
+  muxOggSegment,
+  muxWebMSegment,
+  type AudioContainer,
+  type CodedPacket,
+} from './containers';
+import {
+  OPUS_VAD_OPTIONS,
+  PCM_VAD_OPTIONS,
+  SILENCE_DB,
+  VoiceActivitySegmenter,
+  packetLevel,
+  rmsLevel,
+  type VADOptions,
+  type VoiceSegment,
+} from './vad';
+
+export interface AudioSegment {
+  audio: ArrayBuffer;
+  mime_type: string;
+  start_ms: number; // Posição no áudio recebido
+  end_ms: number;
+  reason: VoiceSegment<unknown>['reason'];
+  channel?: number; // Canal de origem (split_channels)
+}
+
+export interface AudioChunkerOptions {
+  pcm_format?: PCMFormat; // PCM sem cabeçalho (padrão: s16le 16 kHz mono)
+  vad?: Partial<VADOptions>;
+  split_channels?: boolean; // WAV/PCM multicanal: uma fala por canal em vez de mixar
+}
+
+const PCM_FRAME_MS = 30;
+const PCM_FRAME_SAMPLES = (WHISPER_SAMPLE_RATE * PCM_FRAME_MS) / 1000;
+
+// Canal mais de 10 dB abaixo do mais alto no mesmo frame: voz do outro falante vazando
+const CROSSTALK_MARGIN_DB = 10;
+
+const PASSTHROUGH_MIME: Partial<Record<AudioContainer, string>> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  mp4: 'audio/mp4',
+};
+
+function concat(left: Uint8Array, right: Uint8Array): Uint8Array {
+  const output = new Uint8Array(left.length + right.length);
+  output.set(left);
+  output.set(right, left.length);
+  return output;
+}
+
+export class AudioChunker {
+  private container: AudioContainer | 'pcm' | null = null;
+  private pending: Uint8Array = new Uint8Array(0); // Bytes antes da detecção / resto de frame PCM
+
+  // PCM
+  private pcmFormat: PCMFormat | null = null;
+  private dataRemaining: number | null = null; // Bytes restantes do chunk "data" do WAV
+  private resamplers: StreamingResampler[] = []; // Um por canal analisado
+  private samples: Float32Array[] = []; // 16 kHz aguardando completar um frame (por canal)
+  private pcmSegmenters: VoiceActivitySegmenter<Float32Array>[] = [];
+
+  // Opus
+  private webm: WebMDemuxer | null = null;
+  private ogg: OggDemuxer | null = null;
+  private opusSegmenter: VoiceActivitySegmenter<CodedPacket>;
+
+  private passthrough: Uint8Array[] = [];
+
+  constructor(private options: AudioChunkerOptions = {}) {
+    this.opusSegmenter = new VoiceActivitySegmenter({ ...OPUS_VAD_OPTIONS, ...options.vad });
+  }
+
+  push(chunk: Uint8Array): AudioSegment[] {
+    if (chunk.length === 0) return [];
+
+    if (this.container === null) {
+      this.pending = concat(this.pending, chunk);
+      const detected = detectContainer(this.pending);
+      if (detected === null) return [];
+
+      // PCM declarado pelo cliente só cede a um cabeçalho WAV
+      this.container = detected === 'unknown' || (this.options.pcm_format && detected !== 'wav') ? 'pcm' : detected;
+      const buffered = this.pending;
+      this.pending = new Uint8Array(0);
+      return this.route(buffered);
+    }
+
+    return this.route(chunk);
+  }
+
+  /**
+   * Fim do áudio: fecha a fala aberta (e entrega áudio sem segmentação)
+   */
+  flush(): AudioSegment[] {
+    switch (this.container) {
+      case null:
+        return [];
+      case 'wav':
+      case 'pcm': {
+        const segments = this.pushSamples(this.samples.map(() => new Float32Array(0)), true);
+        const open = this.pcmSegmenters.flatMap((segmenter, channel) =>
+          segmenter.flush().map((segment) => this.pcmSegment(segment, channel))
+        );
+        return [...segments, ...open.sort((left, right) => left.start_ms - right.start_ms)];
+      }
+      case 'webm':
+      case 'ogg':
+        return this.opusSegmenter.flush().flatMap((segment) => this.opusSegment(segment));
+      default: {
+        const audio = this.passthrough.reduce((joined, part) => concat(joined, part), new Uint8Array(0));
+        this.passthrough = [];
+        if (audio.length === 0) return [];
+
+        const mimeType = PASSTHROUGH_MIME[this.container] ?? 'application/octet-stream';
+        return [{ audio: audio.buffer as ArrayBuffer, mime_type: mimeType, start_ms: 0, end_ms: 0, reason: 'flush' }];
+      }
+    }
+  }
+
+  private route(bytes: Uint8Array): AudioSegment[] {
+    switch (this.container) {
+      case 'wav':
+      case 'pcm':
+        return this.pushPCMBytes(bytes);
+      case 'webm':
+        this.webm ??= new WebMDemuxer();
+        return this.pushPackets(this.webm.push(bytes));
+      case 'ogg':
+        this.ogg ??= new OggDemuxer();
+        return this.pushPackets(this.ogg.push(bytes));
+      default:
+        this.passthrough.push(bytes.slice());
+        return [];
+    }
+  }
+
+  // ==========================================================================
+  // PCM
+  // ==========================================================================
+
+  private pushPCMBytes(bytes: Uint8Array): AudioSegment[] {
+    let data = concat(this.pending, bytes);
+    let carried = this.pending.length; // Resto de frame anterior: já descontado de dataRemaining
+
+    if (!this.pcmFormat) {
+      if (this.container === 'pcm') {
+        this.pcmFormat = this.options.pcm_format ?? DEFAULT_PCM_FORMAT;
+      } else {
+        const header = parseWAVHeader(data);
+        if (!header) {
+          this.pending = data;
+          return [];
+        }
+        this.pcmFormat = header.format;
+        this.dataRemaining = header.data_length;
+        data = data.subarray(header.data_offset);
+        carried = 0;
+      }
+      const channels = this.options.split_channels ? this.pcmFormat.channels : 1;
+      for (let channel = 0; channel < channels; channel++) {
+        this.resamplers.push(new StreamingResampler(this.pcmFormat.sample_rate));
+        this.samples.push(new Float32Array(0));
+        this.pcmSegmenters.push(new VoiceActivitySegmenter({ ...PCM_VAD_OPTIONS, ...this.options.vad }));
+      }
+    }
+
+    // Chunks depois do "data" (LIST, id3) não são áudio
+    if (this.dataRemaining !== null) {
+      const fresh = Math.min(data.length - carried, this.dataRemaining);
+      data = data.subarray(0, carried + fresh);
+      this.dataRemaining -= fresh;
+    }
+
+    const frameBytes = bytesPerFrame(this.pcmFormat);
+    const usable = data.length - (data.length % frameBytes);
+    this.pending = data.slice(usable);
+
+    const decoded = decodePCM(data.subarray(0, usable), this.pcmFormat);
+    const channels =
+      this.resamplers.length > 1
+        ? this.resamplers.map((_, channel) => extractChannel(decoded, this.pcmFormat!.channels, channel))
+        : [downmixToMono(decoded, this.pcmFormat.channels)];
+    return this.pushSamples(
+      channels.map((samples, channel) => this.resamplers[channel].process(samples)),
+      false
+    );
+  }
+
+  private pushSamples(samples: Float32Array[], final: boolean): AudioSegment[] {
+    if (this.pcmSegmenters.length === 0) return []; // Cabeçalho WAV ainda incompleto
+    const buffered = samples.map((channel, index) => {
+      const joined = new Float32Array(this.samples[index].length + channel.length);
+      joined.set(this.samples[index]);
+      joined.set(channel, this.samples[index].length);
+      return joined;
+    });
+    const length = Math.min(...buffered.map((channel) => channel.length));
+
+    const segments: AudioSegment[] = [];
+    let offset = 0;
+    while (length - offset >= PCM_FRAME_SAMPLES || (final && offset < length)) {
+      const frames = buffered.map((channel) => channel.slice(offset, Math.min(length, offset + PCM_FRAME_SAMPLES)));
+      offset += frames[0].length;
+
+      const levels = frames.map((frame) => rmsLevel(frame));
+      const loudest = Math.max(...levels);
+
+      frames.forEach((frame, channel) => {
+        const level = levels[channel] >= loudest - CROSSTALK_MARGIN_DB ? levels[channel] : SILENCE_DB;
+        const voiced = this.pcmSegmenters[channel].push({
+          duration_ms: (frame.length / WHISPER_SAMPLE_RATE) * 1000,
+          level_db: level,
+          payload: frame,
+        });
+        segments.push(...voiced.map((segment) => this.pcmSegment(segment, channel)));
+      });
+    }
+
+    this.samples = buffered.map((channel) => channel.slice(offset));
+    return segments;
+  }
+
+  private pcmSegment(segment: VoiceSegment<Float32Array>, channel: number): AudioSegment {
+    const samples = new Float32Array(segment.payloads.reduce((total, frame) => total + frame.length, 0));
+    let offset = 0;
+    for (const frame of segment.payloads) {
+      samples.set(frame, offset);
+      offset += frame.length;
+    }
+
+    return {
+      audio: encodeWAV(samples, WHISPER_SAMPLE_RATE),
+      mime_type: 'audio/wav',
+      start_ms: segment.start_ms,
+      end_ms: segment.end_ms,
+      reason: segment.reason,
+      channel: this.pcmSegmenters.length > 1 ? channel : undefined,
+    };
+  }
+
+  // ==========================================================================
+  // OPUS
+  // ==========================================================================
+
+  private pushPackets(packets: CodedPacket[]): AudioSegment[] {
+    return packets.flatMap((packet) =>
+      this.opusSegmenter
+        .push({ duration_ms: packet.duration_ms, level_db: packetLevel(packet.data.length, packet.duration_ms), payload: packet })
+        .flatMap((segment) => this.opusSegment(segment))
+    );
+  }
+
+  private opusSegment(segment: VoiceSegment<CodedPacket>): AudioSegment[] {
+    let audio: Uint8Array;
+    let mimeType: string;
+
+    if (this.webm?.header) {
+      audio = muxWebMSegment(this.webm.header, segment.payloads, this.webm.timecodeScale);
+      mimeType = 'audio/webm';
+    } else if (this.ogg?.header) {
+      audio = muxOggSegment(this.ogg.header, this.ogg.serialNumber, segment.payloads);
+      mimeType = 'audio/ogg';
+    } else {
+      return []; // Pacotes antes do cabeçalho: stream malformado
+    }
+
+    return [{ audio: audio.buffer as ArrayBuffer, mime_type: mimeType, start_ms: segment.start_ms, end_ms: segment.end_ms, reason: segment.reason }];
+  }
+}
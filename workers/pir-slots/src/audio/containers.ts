@@ -0,0 +1,472 @@
+/**
+ * PIR Audio Containers - Detecção de formato e demux/mux de WebM e Ogg
+ *
+ * Navegadores gravam Opus em WebM (Chrome, Edge) ou Ogg (Firefox). Opus não é
+ * decodificado aqui: os pacotes são extraídos do container (com duração pelo
+ * byte TOC) e re-empacotados em trechos válidos e independentes, que o Whisper decodifica.
+ *
+ * - WebM: cabeçalho EBML + Segment (tamanho desconhecido) + Info + Tracks, um Cluster por trecho
+ * - Ogg: páginas de cabeçalho (OpusHead, OpusTags) + páginas refeitas com granule e CRC novos
+ */
+
+import { AudioDecodeError } from './pcm';
+
+export type AudioContainer = 'wav' | 'webm' | 'ogg' | 'mp3' | 'flac' | 'mp4' | 'unknown';
+
+/**
+ * Formato pelos primeiros bytes (null = bytes insuficientes)
+ */
+export function detectContainer(bytes: Uint8Array): AudioContainer | null {
+  if (bytes.length < 12) return null;
+
+  const text = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+  if (text(0, 4) === 'RIFF' && text(8, 4) === 'WAVE') return 'wav';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (text(0, 4) === 'OggS') return 'ogg';
+  if (text(0, 4) === 'fLaC') return 'flac';
+  if (text(4, 4) === 'ftyp') return 'mp4';
+  if (text(0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'mp3';
+  return 'unknown';
+}
+
+/**
+ * Pacote de áudio codificado extraído do container
+ */
+export interface CodedPacket {
+  timestamp_ms: number;
+  duration_ms: number;
+  data: Uint8Array; // Pacote Opus
+}
+
+/**
+ * Duração do pacote Opus pelo byte TOC (RFC 6716 §3.1)
+ */
+export function opusPacketDuration(packet: Uint8Array): number {
+  if (packet.length === 0) return 0;
+
+  const config = packet[0] >> 3;
+  const frameMs =
+    config < 12 ? [10, 20, 40, 60][config % 4] : config < 16 ? [10, 20][config % 2] : [2.5, 5, 10, 20][config % 4];
+
+  const code = packet[0] & 0x03;
+  const frames = code === 0 ? 1 : code === 3 ? (packet[1] ?? 0) & 0x3f : 2;
+  return frameMs * frames;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+// ============================================================================
+// WEBM (EBML)
+// ============================================================================
+
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const CODEC_ID = 0x86;
+const AUDIO_ID = 0xe1;
+const SAMPLING_FREQUENCY_ID = 0xb5;
+const CHANNELS_ID = 0x9f;
+const CLUSTER_ID = 0x1f43b675;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+
+// Elementos cujos filhos são lidos em streaming (os demais precisam estar completos)
+const STREAMED_MASTERS = new Set([SEGMENT_ID, CLUSTER_ID, BLOCK_GROUP_ID]);
+
+interface VInt {
+  value: number;
+  length: number;
+}
+
+/**
+ * Inteiro de tamanho variável do EBML (null = bytes insuficientes)
+ */
+function readVInt(bytes: Uint8Array, offset: number, keepMarker: boolean): VInt | null {
+  if (offset >= bytes.length) return null;
+
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new AudioDecodeError('Invalid EBML variable-length integer');
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let index = 1; index < length; index++) value = value * 256 + bytes[offset + index];
+
+  return { value, length };
+}
+
+function readUInt(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) value = value * 256 + byte;
+  return value;
+}
+
+function readFloat(bytes: Uint8Array): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return bytes.length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return Uint8Array.from(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+  // 8 bytes: cabe qualquer tamanho sem calcular o comprimento mínimo
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  let value = size;
+  for (let index = 7; index >= 1; index--) {
+    bytes[index] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array): Uint8Array {
+  return concat([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function children(bytes: Uint8Array, visit: (id: number, payload: Uint8Array) => void): void {
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVInt(bytes, offset, true);
+    const size = id && readVInt(bytes, offset + id.length, false);
+    if (!id || !size) return;
+
+    const start = offset + id.length + size.length;
+    visit(id.value, bytes.subarray(start, start + size.value));
+    offset = start + size.value;
+  }
+}
+
+export interface WebMTrackInfo {
+  codec: string; // "A_OPUS"
+  sample_rate?: number;
+  channels?: number;
+}
+
+/**
+ * Demux WebM em streaming: pacotes da primeira trilha de áudio
+ */
+export class WebMDemuxer {
+  track: WebMTrackInfo | null = null;
+  timecodeScale = 1_000_000; // ns por tick (Info.TimecodeScale)
+  private buffer: Uint8Array = new Uint8Array(0);
+  private headerParts: Uint8Array[] = []; // EBML + Info + Tracks para re-mux
+  private clusterTimecode = 0;
+
+  /**
+   * Cabeçalho para re-mux (null até Tracks ser lido)
+   */
+  get header(): Uint8Array | null {
+    if (!this.track) return null;
+    const [ebml, ...segmentChildren] = this.headerParts;
+    // Segment de tamanho desconhecido: cada trecho termina no fim do arquivo
+    return concat([ebml, encodeId(SEGMENT_ID), Uint8Array.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), ...segmentChildren]);
+  }
+
+  push(chunk: Uint8Array): CodedPacket[] {
+    this.buffer = concat([this.buffer, chunk]);
+    const packets: CodedPacket[] = [];
+    let offset = 0;
+
+    while (true) {
+      const id = readVInt(this.buffer, offset, true);
+      const size = id && readVInt(this.buffer, offset + id.length, false);
+      if (!id || !size) break;
+
+      const start = offset + id.length + size.length;
+
+      // Master em streaming: entra nos filhos sem esperar o elemento inteiro
+      if (STREAMED_MASTERS.has(id.value)) {
+        offset = start;
+        continue;
+      }
+
+      if (start + size.value > this.buffer.length) break;
+      const payload = this.buffer.subarray(start, start + size.value);
+      this.handleElement(id.value, payload, this.buffer.subarray(offset, start + size.value), packets);
+      offset = start + size.value;
+    }
+
+    this.buffer = this.buffer.slice(offset);
+    return packets;
+  }
+
+  private handleElement(id: number, payload: Uint8Array, raw: Uint8Array, packets: CodedPacket[]): void {
+    switch (id) {
+      case EBML_ID:
+        this.headerParts = [raw.slice()];
+        break;
+      case INFO_ID:
+        children(payload, (childId, value) => {
+          if (childId === TIMECODE_SCALE_ID) this.timecodeScale = readUInt(value);
+        });
+        this.headerParts.push(raw.slice());
+        break;
+      case TRACKS_ID:
+        this.track = this.readAudioTrack(payload);
+        this.headerParts.push(raw.slice());
+        break;
+      case CLUSTER_TIMECODE_ID:
+        this.clusterTimecode = readUInt(payload);
+        break;
+      case SIMPLE_BLOCK_ID:
+      case BLOCK_ID: {
+        const packet = this.readBlock(payload);
+        if (packet) packets.push(packet);
+        break;
+      }
+      // SeekHead, Cues, Tags, Void: offsets inválidos no re-mux, ignorados
+    }
+  }
+
+  private readAudioTrack(payload: Uint8Array): WebMTrackInfo {
+    let track: WebMTrackInfo | null = null;
+
+    children(payload, (id, entry) => {
+      if (id !== TRACK_ENTRY_ID || track) return;
+
+      const candidate: WebMTrackInfo = { codec: '' };
+      let audio = false;
+      children(entry, (field, value) => {
+        if (field === CODEC_ID) candidate.codec = String.fromCharCode(...value);
+        if (field === AUDIO_ID) {
+          audio = true;
+          children(value, (audioField, audioValue) => {
+            if (audioField === SAMPLING_FREQUENCY_ID) candidate.sample_rate = readFloat(audioValue);
+            if (audioField === CHANNELS_ID) candidate.channels = readUInt(audioValue);
+          });
+        }
+      });
+      if (audio || candidate.codec.startsWith('A_')) track = candidate;
+    });
+
+    if (!track) throw new AudioDecodeError('WebM stream has no audio track');
+    if ((track as WebMTrackInfo).codec !== 'A_OPUS') {
+      throw new AudioDecodeError(`Unsupported WebM audio codec ${(track as WebMTrackInfo).codec}`);
+    }
+    return track;
+  }
+
+  private readBlock(payload: Uint8Array): CodedPacket | null {
+    const trackNumber = readVInt(payload, 0, false);
+    if (!trackNumber || payload.length < trackNumber.length + 3) return null;
+
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const relative = view.getInt16(trackNumber.length);
+    const flags = payload[trackNumber.length + 2];
+    if (flags & 0x06) throw new AudioDecodeError('Laced WebM blocks are not supported');
+
+    const data = payload.slice(trackNumber.length + 3);
+    const tickMs = this.timecodeScale / 1_000_000;
+    return { timestamp_ms: (this.clusterTimecode + relative) * tickMs, duration_ms: opusPacketDuration(data), data };
+  }
+}
+
+/**
+ * Trecho WebM independente: cabeçalho + um Cluster com os pacotes
+ */
+export function muxWebMSegment(header: Uint8Array, packets: CodedPacket[], timecodeScale = 1_000_000): Uint8Array {
+  const tickMs = timecodeScale / 1_000_000;
+  const base = Math.round((packets[0]?.timestamp_ms ?? 0) / tickMs);
+  const blocks = packets.map((packet) => {
+    const relative = Math.round(packet.timestamp_ms / tickMs) - base;
+    const block = new Uint8Array(4 + packet.data.length);
+    block[0] = 0x81; // Trilha 1
+    new DataView(block.buffer).setInt16(1, Math.max(-32768, Math.min(32767, relative)));
+    block[3] = 0x80; // Keyframe
+    block.set(packet.data, 4);
+    return element(SIMPLE_BLOCK_ID, block);
+  });
+
+  const timecode = element(CLUSTER_TIMECODE_ID, encodeUInt(base));
+  return concat([header, element(CLUSTER_ID, concat([timecode, ...blocks]))]);
+}
+
+function encodeUInt(value: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) bytes.unshift(remaining & 0xff);
+  return Uint8Array.from(bytes.length ? bytes : [0]);
+}
+
+// ============================================================================
+// OGG
+// ============================================================================
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index++) {
+    let crc = index << 24;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[index] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCRC(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+const OPUS_SAMPLES_PER_MS = 48; // Granule do Opus é sempre a 48 kHz
+
+/**
+ * Demux Ogg Opus em streaming: pacotes remontados a partir das páginas
+ */
+export class OggDemuxer {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private headerPackets: Uint8Array[] = []; // OpusHead, OpusTags
+  private partial: Uint8Array[] = []; // Pacote que continua na próxima página
+  private serial: number | null = null;
+  private elapsedMs = 0;
+
+  get ready(): boolean {
+    return this.headerPackets.length >= 2;
+  }
+
+  /**
+   * Páginas de cabeçalho para re-mux (null até OpusTags)
+   */
+  get header(): Uint8Array | null {
+    if (!this.ready) return null;
+    return concat([
+      buildOggPage(this.serial!, 0, 0, [this.headerPackets[0]], 0x02),
+      buildOggPage(this.serial!, 1, 0, [this.headerPackets[1]], 0x00),
+    ]);
+  }
+
+  get serialNumber(): number {
+    return this.serial ?? 0;
+  }
+
+  push(chunk: Uint8Array): CodedPacket[] {
+    this.buffer = concat([this.buffer, chunk]);
+    const packets: CodedPacket[] = [];
+    let offset = 0;
+
+    while (offset + 27 <= this.buffer.length) {
+      if (String.fromCharCode(...this.buffer.subarray(offset, offset + 4)) !== 'OggS') {
+        throw new AudioDecodeError('Invalid Ogg page');
+      }
+
+      const segmentCount = this.buffer[offset + 26];
+      if (offset + 27 + segmentCount > this.buffer.length) break;
+      const lacing = this.buffer.subarray(offset + 27, offset + 27 + segmentCount);
+      const bodyLength = lacing.reduce((total, value) => total + value, 0);
+      const bodyStart = offset + 27 + segmentCount;
+      if (bodyStart + bodyLength > this.buffer.length) break;
+
+      const serial = new DataView(this.buffer.buffer, this.buffer.byteOffset + offset).getUint32(14, true);
+      this.serial ??= serial;
+
+      if (serial === this.serial) {
+        let position = bodyStart;
+        for (const size of lacing) {
+          this.partial.push(this.buffer.slice(position, position + size));
+          position += size;
+          if (size < 255) {
+            this.completePacket(concat(this.partial), packets);
+            this.partial = [];
+          }
+        }
+      }
+
+      offset = bodyStart + bodyLength;
+    }
+
+    this.buffer = this.buffer.slice(offset);
+    return packets;
+  }
+
+  private completePacket(packet: Uint8Array, packets: CodedPacket[]): void {
+    if (this.headerPackets.length === 0) {
+      if (String.fromCharCode(...packet.subarray(0, 8)) !== 'OpusHead') {
+        throw new AudioDecodeError('Unsupported Ogg codec (only Opus)');
+      }
+      this.headerPackets.push(packet);
+      return;
+    }
+    if (this.headerPackets.length === 1) {
+      this.headerPackets.push(packet); // OpusTags
+      return;
+    }
+
+    const duration = opusPacketDuration(packet);
+    packets.push({ timestamp_ms: this.elapsedMs, duration_ms: duration, data: packet });
+    this.elapsedMs += duration;
+  }
+}
+
+function buildOggPage(serial: number, sequence: number, granule: number, packets: Uint8Array[], flags: number): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const page = new Uint8Array(27 + lacing.length + packets.reduce((total, packet) => total + packet.length, 0));
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  page[5] = flags;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  page.set(concat(packets), 27 + lacing.length);
+  view.setUint32(22, oggCRC(page), true);
+  return page;
+}
+
+/**
+ * Trecho Ogg Opus independente: cabeçalho + páginas com os pacotes (granule a partir de 0)
+ */
+export function muxOggSegment(header: Uint8Array, serial: number, packets: CodedPacket[]): Uint8Array {
+  const pages: Uint8Array[] = [header];
+  let granule = 0;
+  let sequence = 2;
+
+  // Página fecha em ~1s de áudio ou no limite de 255 valores de lacing
+  let group: Uint8Array[] = [];
+  let lacing = 0;
+  const flush = (last: boolean) => {
+    pages.push(buildOggPage(serial, sequence++, granule, group, last ? 0x04 : 0x00));
+    group = [];
+    lacing = 0;
+  };
+
+  packets.forEach((packet, index) => {
+    const packetLacing = Math.floor(packet.data.length / 255) + 1;
+    if (group.length && (group.length >= 50 || lacing + packetLacing > 255)) flush(false);
+
+    group.push(packet.data);
+    lacing += packetLacing;
+    granule += packet.duration_ms * OPUS_SAMPLES_PER_MS;
+    if (index === packets.length - 1) flush(true);
+  });
+
+  return concat(pages);
+}
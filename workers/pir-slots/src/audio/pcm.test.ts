@@ -0,0 +1,112 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectContainer, opusPacketDuration } from './containers';
+import {
+  StreamingResampler,
+  decodePCM,
+  decodeToWhisperSamples,
+  downmixToMono,
+  encodeWAV,
+  normalizeWAVForWhisper,
+  parseWAVHeader,
+} from './pcm';
+import { SILENCE_DB, rmsLevel } from './vad';
+
+function fixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+}
+
+function sine(frequency: number, sampleRate: number, seconds: number): Float32Array {
+  return Float32Array.from({ length: sampleRate * seconds }, (_, index) => 0.5 * Math.sin((2 * Math.PI * frequency * index) / sampleRate));
+}
+
+describe('parseWAVHeader', () => {
+  it('reads the format and data chunk', () => {
+    const wav = fixture('two-speakers-8k-stereo.wav');
+    expect(parseWAVHeader(wav)).toEqual({
+      format: { encoding: 'pcm_s16le', sample_rate: 8000, channels: 2 },
+      data_offset: 44,
+      data_length: wav.length - 44,
+    });
+  });
+
+  it('waits for more bytes on a truncated header', () => {
+    expect(parseWAVHeader(fixture('click-8k-mono.wav').subarray(0, 30))).toBeNull();
+  });
+});
+
+describe('decodePCM', () => {
+  it('maps each encoding onto [-1, 1]', () => {
+    const format = (encoding: 'pcm_s16le' | 'pcm_u8') => ({ encoding, sample_rate: 8000, channels: 1 });
+    expect(Array.from(decodePCM(new Uint8Array([0x00, 0x80, 0xff, 0x7f]), format('pcm_s16le')))).toEqual([-1, 0x7fff / 0x8000]);
+    expect(Array.from(decodePCM(new Uint8Array([0, 128, 255]), format('pcm_u8')))).toEqual([-1, 0, 127 / 128]);
+  });
+
+  it('averages channels when downmixing', () => {
+    expect(Array.from(downmixToMono(Float32Array.from([0.5, -0.5, 1, 0]), 2))).toEqual([0, 0.5]);
+  });
+});
+
+describe('StreamingResampler', () => {
+  it('gives the same output in chunks as in one block', () => {
+    const input = sine(440, 44_100, 0.5);
+    const whole = new StreamingResampler(44_100).process(input);
+
+    const streamed = new StreamingResampler(44_100);
+    const parts: number[] = [];
+    for (let offset = 0; offset < input.length; offset += 1234) {
+      parts.push(...streamed.process(input.subarray(offset, offset + 1234)));
+    }
+
+    expect(parts).toHaveLength(whole.length);
+    parts.forEach((sample, index) => expect(sample).toBeCloseTo(whole[index], 6));
+  });
+
+  it('removes tones above the new Nyquist when downsampling', () => {
+    const speech = rmsLevel(new StreamingResampler(48_000).process(sine(300, 48_000, 0.2)));
+    const hiss = rmsLevel(new StreamingResampler(48_000).process(sine(12_000, 48_000, 0.2)));
+    expect(speech).toBeGreaterThan(-10);
+    expect(hiss).toBeLessThan(speech - 30);
+  });
+});
+
+describe('decodeToWhisperSamples', () => {
+  it('resamples a WAV file to 16 kHz mono', () => {
+    const wav = fixture('two-speakers-8k-stereo.wav');
+    const frames = (wav.length - 44) / 4;
+    expect(Math.abs(decodeToWhisperSamples(wav).length - frames * 2)).toBeLessThanOrEqual(2);
+
+    const normalized = parseWAVHeader(new Uint8Array(normalizeWAVForWhisper(wav)));
+    expect(normalized?.format).toEqual({ encoding: 'pcm_s16le', sample_rate: 16_000, channels: 1 });
+  });
+
+  it('round-trips through encodeWAV', () => {
+    const samples = Float32Array.from([0, 0.25, -0.25, 0.5]);
+    const decoded = decodeToWhisperSamples(new Uint8Array(encodeWAV(samples, 16_000)));
+    decoded.forEach((sample, index) => expect(sample).toBeCloseTo(samples[index], 3));
+  });
+});
+
+describe('containers', () => {
+  it('detects formats by their first bytes', () => {
+    expect(detectContainer(fixture('click-8k-mono.wav'))).toBe('wav');
+    expect(detectContainer(fixture('two-utterances-opus.ogg'))).toBe('ogg');
+    expect(detectContainer(new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0, 0, 0, 0, 0, 0, 0, 0]))).toBe('webm');
+    expect(detectContainer(new Uint8Array(12))).toBe('unknown');
+    expect(detectContainer(new Uint8Array(4))).toBeNull();
+  });
+
+  it('reads Opus packet durations from the TOC byte', () => {
+    expect(opusPacketDuration(new Uint8Array([0xf8]))).toBe(20); // CELT 20 ms, 1 frame
+    expect(opusPacketDuration(new Uint8Array([0x01]))).toBe(20); // SILK 10 ms, 2 frames (code 1)
+    expect(opusPacketDuration(new Uint8Array([0x1b, 0x03]))).toBe(180); // SILK 60 ms, 3 frames (code 3)
+  });
+});
+
+describe('rmsLevel', () => {
+  it('reports digital silence at the floor', () => {
+    expect(rmsLevel(new Float32Array(480))).toBe(SILENCE_DB);
+    expect(rmsLevel(Float32Array.from({ length: 480 }, () => 1))).toBeCloseTo(0, 5);
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * PIR Audio PCM - WAV/PCM, mixagem para mono e reamostragem
+ *
+ * Tudo em TypeScript puro (sem Web Audio no Worker): amostras como Float32 em [-1, 1].
+ * O Whisper recebe WAV 16-bit mono a 16 kHz (WHISPER_SAMPLE_RATE).
+ */
+
+export const WHISPER_SAMPLE_RATE = 16_000;
+
+export type PCMEncoding = 'pcm_u8' | 'pcm_s16le' | 'pcm_s24le' | 'pcm_s32le' | 'pcm_f32le';
+
+export interface PCMFormat {
+  encoding: PCMEncoding;
+  sample_rate: number;
+  channels: number;
+}
+
+/**
+ * Formato assumido para PCM sem cabeçalho (o que os clientes atuais enviam)
+ */
+export const DEFAULT_PCM_FORMAT: PCMFormat = { encoding: 'pcm_s16le', sample_rate: WHISPER_SAMPLE_RATE, channels: 1 };
+
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioDecodeError';
+  }
+}
+
+const BYTES_PER_SAMPLE: Record<PCMEncoding, number> = {
+  pcm_u8: 1,
+  pcm_s16le: 2,
+  pcm_s24le: 3,
+  pcm_s32le: 4,
+  pcm_f32le: 4,
+};
+
+export function bytesPerFrame(format: PCMFormat): number {
+  return BYTES_PER_SAMPLE[format.encoding] * format.channels;
+}
+
+// ============================================================================
+// WAV
+// ============================================================================
+
+export interface WAVHeader {
+  format: PCMFormat;
+  data_offset: number; // Início das amostras
+  data_length: number | null; // null = tamanho desconhecido (gravação em streaming)
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Cabeçalho RIFF/WAVE até o chunk "data" (null = bytes insuficientes)
+ */
+export function parseWAVHeader(bytes: Uint8Array): WAVHeader | null {
+  if (bytes.length < 12) return null;
+  if (ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WAVE') {
+    throw new AudioDecodeError('Not a RIFF/WAVE file');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let format: PCMFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'data') {
+      if (!format) throw new AudioDecodeError('WAV "data" chunk before "fmt "');
+      // Gravadores em streaming escrevem 0 ou 0xFFFFFFFF antes de saber o tamanho
+      const unknown = size === 0 || size === 0xffffffff;
+      return { format, data_offset: offset + 8, data_length: unknown ? null : size };
+    }
+
+    if (offset + 8 + size > bytes.length) return null;
+
+    if (id === 'fmt ') {
+      let tag = view.getUint16(offset + 8, true);
+      const channels = view.getUint16(offset + 10, true);
+      const sampleRate = view.getUint32(offset + 12, true);
+      const bitsPerSample = view.getUint16(offset + 22, true);
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) tag = view.getUint16(offset + 32, true);
+
+      format = { encoding: wavEncoding(tag, bitsPerSample), sample_rate: sampleRate, channels };
+      if (channels < 1 || sampleRate < 1) throw new AudioDecodeError('Invalid WAV format chunk');
+    }
+
+    offset += 8 + size + (size % 2); // Chunks alinhados em 2 bytes
+  }
+
+  return null;
+}
+
+function wavEncoding(tag: number, bitsPerSample: number): PCMEncoding {
+  if (tag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) return 'pcm_f32le';
+  if (tag === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        return 'pcm_u8';
+      case 16:
+        return 'pcm_s16le';
+      case 24:
+        return 'pcm_s24le';
+      case 32:
+        return 'pcm_s32le';
+    }
+  }
+  throw new AudioDecodeError(`Unsupported WAV encoding (format ${tag}, ${bitsPerSample} bits)`);
+}
+
+/**
+ * WAV 16-bit PCM mono
+ */
+export function encodeWAV(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let index = 0; index < text.length; index++) view.setUint8(offset + index, text.charCodeAt(index));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let index = 0; index < samples.length; index++) {
+    const sample = Math.max(-1, Math.min(1, samples[index]));
+    view.setInt16(44 + index * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return buffer;
+}
+
+// ============================================================================
+// DECODIFICAÇÃO E MIXAGEM
+// ============================================================================
+
+/**
+ * Bytes PCM (frames completos) → amostras intercaladas em [-1, 1]
+ */
+export function decodePCM(bytes: Uint8Array, format: PCMFormat): Float32Array {
+  const sampleBytes = BYTES_PER_SAMPLE[format.encoding];
+  const count = Math.floor(bytes.length / sampleBytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(count);
+
+  for (let index = 0; index < count; index++) {
+    const offset = index * sampleBytes;
+    switch (format.encoding) {
+      case 'pcm_u8':
+        samples[index] = (view.getUint8(offset) - 128) / 128;
+        break;
+      case 'pcm_s16le':
+        samples[index] = view.getInt16(offset, true) / 0x8000;
+        break;
+      case 'pcm_s24le': {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        samples[index] = value / 0x800000;
+        break;
+      }
+      case 'pcm_s32le':
+        samples[index] = view.getInt32(offset, true) / 0x80000000;
+        break;
+      case 'pcm_f32le':
+        samples[index] = view.getFloat32(offset, true);
+        break;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Um canal de amostras intercaladas (microfone de um falante)
+ */
+export function extractChannel(samples: Float32Array, channels: number, channel: number): Float32Array {
+  if (channels === 1) return samples;
+
+  const frames = Math.floor(samples.length / channels);
+  const output = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) output[frame] = samples[frame * channels + channel];
+  return output;
+}
+
+/**
+ * Média dos canais
+ */
+export function downmixToMono(samples: Float32Array, channels: number): Float32Array {
+  if (channels === 1) return samples;
+
+  const frames = Math.floor(samples.length / channels);
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) sum += samples[frame * channels + channel];
+    mono[frame] = sum / channels;
+  }
+  return mono;
+}
+
+// ============================================================================
+// REAMOSTRAGEM
+// ============================================================================
+
+const LOWPASS_TAPS = 31;
+
+/**
+ * Reamostragem mono em streaming (chunks sucessivos sem descontinuidade)
+ *
+ * Redução de taxa passa antes por um FIR passa-baixas (sinc janelado, corte
+ * na nova Nyquist) para não dobrar agudos sobre a voz; depois interpolação linear.
+ */
+export class StreamingResampler {
+  private ratio: number; // Amostras de entrada por amostra de saída
+  private kernel: Float32Array | null = null;
+  private history: Float32Array; // Cauda da entrada anterior (filtro)
+  private position = 0; // Posição fracionária da próxima saída na sequência [previous, ...bloco]
+  private previous: number | null = null; // Última amostra filtrada do bloco anterior
+
+  constructor(
+    private fromRate: number,
+    private toRate: number = WHISPER_SAMPLE_RATE
+  ) {
+    this.ratio = fromRate / toRate;
+    this.history = new Float32Array(LOWPASS_TAPS - 1);
+
+    if (fromRate > toRate) {
+      const cutoff = toRate / fromRate / 2; // Fração da taxa de entrada
+      const kernel = new Float32Array(LOWPASS_TAPS);
+      const middle = (LOWPASS_TAPS - 1) / 2;
+      let sum = 0;
+
+      for (let tap = 0; tap < LOWPASS_TAPS; tap++) {
+        const x = tap - middle;
+        const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+        const window = 0.54 - 0.46 * Math.cos((2 * Math.PI * tap) / (LOWPASS_TAPS - 1)); // Hamming
+        kernel[tap] = sinc * window;
+        sum += kernel[tap];
+      }
+      this.kernel = kernel.map((value) => value / sum);
+    }
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate || input.length === 0) return input;
+
+    const filtered = this.kernel ? this.lowpass(input) : input;
+
+    // Sequência contínua: [última amostra do bloco anterior, ...bloco atual]
+    const sequence = this.previous === null ? filtered : new Float32Array(filtered.length + 1);
+    if (this.previous !== null) {
+      sequence[0] = this.previous;
+      sequence.set(filtered, 1);
+    }
+
+    const output: number[] = [];
+    let position = this.position;
+    while (position < sequence.length - 1) {
+      const base = Math.floor(position);
+      const fraction = position - base;
+      output.push(sequence[base] + (sequence[base + 1] - sequence[base]) * fraction);
+      position += this.ratio;
+    }
+
+    // A última amostra vira o índice 0 do próximo bloco
+    this.previous = sequence[sequence.length - 1];
+    this.position = position - (sequence.length - 1);
+    return Float32Array.from(output);
+  }
+
+  private lowpass(input: Float32Array): Float32Array {
+    const kernel = this.kernel!;
+    const extended = new Float32Array(this.history.length + input.length);
+    extended.set(this.history);
+    extended.set(input, this.history.length);
+
+    const output = new Float32Array(input.length);
+    for (let index = 0; index < input.length; index++) {
+      let sum = 0;
+      for (let tap = 0; tap < kernel.length; tap++) sum += kernel[tap] * extended[index + tap];
+      output[index] = sum;
+    }
+
+    this.history = extended.slice(extended.length - this.history.length);
+    return output;
+  }
+}
+
+/**
+ * Arquivo inteiro (WAV ou PCM sem cabeçalho no `pcmFormat`) → amostras mono 16 kHz
+ */
+export function decodeToWhisperSamples(bytes: Uint8Array, pcmFormat: PCMFormat = DEFAULT_PCM_FORMAT): Float32Array {
+  let format = pcmFormat;
+  let data = bytes;
+
+  if (bytes.length >= 4 && ascii(bytes, 0, 4) === 'RIFF') {
+    const header = parseWAVHeader(bytes);
+    if (!header) throw new AudioDecodeError('Truncated WAV header');
+
+    const end = header.data_length === null ? bytes.length : Math.min(bytes.length, header.data_offset + header.data_length);
+    format = header.format;
+    data = bytes.subarray(header.data_offset, end);
+  }
+
+  const frameBytes = bytesPerFrame(format);
+  const mono = downmixToMono(decodePCM(data.subarray(0, data.length - (data.length % frameBytes)), format), format.channels);
+  return new StreamingResampler(format.sample_rate).process(mono);
+}
+
+/**
+ * Arquivo WAV inteiro → WAV 16 kHz mono (upload de /audio)
+ */
+export function normalizeWAVForWhisper(bytes: Uint8Array): ArrayBuffer {
+  return encodeWAV(decodeToWhisperSamples(bytes), WHISPER_SAMPLE_RATE);
+}
@@ -0,0 +1,183 @@
+/**
+ * PIR Voice Activity - Segmentação por atividade de voz (energia + hangover)
+ *
+ * Cada frame tem um nível em dB; o piso de ruído acompanha os frames de silêncio.
+ * Fala = nível acima de piso + limiar. A fala termina depois de `hangover_ms` de
+ * silêncio contínuo (pausas curtas entre palavras não cortam o trecho). Trechos com
+ * menos de `min_speech_ms` de fala são descartados (cliques, tosse curta); trechos
+ * longos são cortados no frame mais silencioso perto de `max_segment_ms`.
+ *
+ * O mesmo segmentador serve PCM (nível = RMS em dBFS) e Opus sem decodificar
+ * (nível = bytes por ms do pacote: Opus VBR gasta poucos bytes em silêncio).
+ */
+
+export interface VADOptions {
+  threshold_db: number; // Acima do piso de ruído
+  min_level_db: number; // Nível mínimo absoluto para ser fala
+  hangover_ms: number;
+  pre_roll_ms: number; // Áudio mantido antes do início da fala (consoantes iniciais)
+  min_speech_ms: number;
+  max_segment_ms: number;
+}
+
+export const PCM_VAD_OPTIONS: VADOptions = {
+  threshold_db: 12,
+  min_level_db: -50,
+  hangover_ms: 500,
+  pre_roll_ms: 200,
+  min_speech_ms: 250,
+  max_segment_ms: 15_000,
+};
+
+/**
+ * Opus: nível = 20·log10(bytes/ms); silêncio VBR/DTX fica entre -25 e -5 dB,
+ * fala de 0 dB (8 kbps) a ~24 dB (128 kbps, padrão do MediaRecorder)
+ */
+export const OPUS_VAD_OPTIONS: VADOptions = {
+  threshold_db: 6,
+  min_level_db: 0,
+  hangover_ms: 500,
+  pre_roll_ms: 200,
+  min_speech_ms: 250,
+  max_segment_ms: 15_000,
+};
+
+export interface ActivityFrame<T> {
+  duration_ms: number;
+  level_db: number;
+  payload: T;
+}
+
+export interface VoiceSegment<T> {
+  start_ms: number;
+  end_ms: number;
+  speech_ms: number;
+  payloads: T[];
+  reason: 'silence' | 'max_length' | 'flush';
+}
+
+const NOISE_ADAPTATION = 0.05; // Peso de cada frame de silêncio no piso de ruído
+export const SILENCE_DB = -100; // Nível de silêncio digital (evita -Infinity no piso)
+
+export class VoiceActivitySegmenter<T> {
+  private noiseFloor: number | null = null;
+  private elapsedMs = 0; // Início do próximo frame
+  private preRoll: Array<ActivityFrame<T> & { start_ms: number }> = [];
+  private segment: Array<ActivityFrame<T> & { start_ms: number; speech: boolean }> = [];
+  private silenceMs = 0;
+
+  constructor(private options: VADOptions) {}
+
+  push(frame: ActivityFrame<T>): VoiceSegment<T>[] {
+    const start = this.elapsedMs;
+    this.elapsedMs += frame.duration_ms;
+
+    const speech = this.isSpeech(frame.level_db);
+    if (!speech) {
+      this.noiseFloor =
+        this.noiseFloor === null ? frame.level_db : this.noiseFloor + (frame.level_db - this.noiseFloor) * NOISE_ADAPTATION;
+    }
+
+    // Fora de fala: só guarda o pre-roll
+    if (this.segment.length === 0) {
+      if (!speech) {
+        this.preRoll.push({ ...frame, start_ms: start });
+        while (this.preRoll.length && start + frame.duration_ms - this.preRoll[0].start_ms > this.options.pre_roll_ms) {
+          this.preRoll.shift();
+        }
+        return [];
+      }
+
+      this.segment = this.preRoll.map((previous) => ({ ...previous, speech: false }));
+      this.preRoll = [];
+    }
+
+    this.segment.push({ ...frame, start_ms: start, speech });
+    this.silenceMs = speech ? 0 : this.silenceMs + frame.duration_ms;
+
+    if (this.silenceMs >= this.options.hangover_ms) {
+      return this.close(this.segment.length, 'silence');
+    }
+
+    const duration = start + frame.duration_ms - this.segment[0].start_ms;
+    if (duration >= this.options.max_segment_ms) {
+      return this.close(this.quietestCut(), 'max_length');
+    }
+    return [];
+  }
+
+  /**
+   * Fim do áudio: fecha o trecho aberto
+   */
+  flush(): VoiceSegment<T>[] {
+    this.preRoll = [];
+    return this.segment.length ? this.close(this.segment.length, 'flush') : [];
+  }
+
+  private isSpeech(level: number): boolean {
+    if (level < this.options.min_level_db) return false;
+    return this.noiseFloor === null || level >= this.noiseFloor + this.options.threshold_db;
+  }
+
+  /**
+   * Frame mais silencioso no último terço do trecho (corte de trecho longo)
+   */
+  private quietestCut(): number {
+    const from = Math.floor((this.segment.length * 2) / 3);
+    let cut = this.segment.length;
+    let quietest = Infinity;
+    for (let index = from; index < this.segment.length; index++) {
+      if (this.segment[index].level_db < quietest) {
+        quietest = this.segment[index].level_db;
+        cut = index + 1;
+      }
+    }
+    return cut;
+  }
+
+  private close(count: number, reason: VoiceSegment<T>['reason']): VoiceSegment<T>[] {
+    const frames = this.segment.slice(0, count);
+    const rest = this.segment.slice(count);
+
+    // Restante (corte por tamanho) continua como novo trecho
+    const speechMs = frames.reduce((total, frame) => total + (frame.speech ? frame.duration_ms : 0), 0);
+    this.segment = rest;
+    this.silenceMs = 0;
+    if (rest.length && !rest.some((frame) => frame.speech)) {
+      this.preRoll = rest;
+      this.segment = [];
+    }
+
+    if (speechMs < this.options.min_speech_ms && reason !== 'max_length') return [];
+
+    const last = frames[frames.length - 1];
+    return [
+      {
+        start_ms: frames[0].start_ms,
+        end_ms: last.start_ms + last.duration_ms,
+        speech_ms: speechMs,
+        payloads: frames.map((frame) => frame.payload),
+        reason,
+      },
+    ];
+  }
+}
+
+/**
+ * Nível RMS de um frame PCM em dBFS
+ */
+export function rmsLevel(samples: Float32Array): number {
+  if (samples.length === 0) return SILENCE_DB;
+
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+/**
+ * Nível de um pacote Opus pela taxa de bytes
+ */
+export function packetLevel(bytes: number, durationMs: number): number {
+  return durationMs > 0 && bytes > 0 ? 20 * Math.log10(bytes / durationMs) : SILENCE_DB;
+}
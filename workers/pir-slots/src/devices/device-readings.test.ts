@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '@voither/pir-schema';
+import { DeviceReadingError, mapReadingsToSlots, parseHL7ORU, parseJSONReadings, type DeviceReading } from './device-readings';
+
+const PIR = loadManchesterSPProtocol();
+
+const reading = (parameter: string, value: number, extra: Partial<DeviceReading> = {}): DeviceReading => ({
+  device_type: 'multiparameter_monitor',
+  device_id: 'MON-07',
+  parameter,
+  value,
+  measured_at: '2026-10-19T10:00:00.000Z',
+  ...extra,
+});
+
+// ORU^R01 de monitor multiparamétrico (OBX-3 LOINC, OBX-11 status, OBX-14 horário, OBX-18 equipamento)
+const ORU = [
+  'MSH|^~\\&|PHILIPS_MX450|PS_TRIAGEM|VOITHER|HSP|20261019100500-0300||ORU^R01|MSG-0001|P|2.5',
+  'PID|||123456^^^HSP||SILVA^MARIA',
+  'OBR|1|||VITALS',
+  'OBX|1|NM|8867-4^Heart rate^LN||112|/min|||||F|||20261019100430-0300||||MX450-03',
+  'OBX|2|NM|8480-6^Systolic^LN||150|mm[Hg]|||||F|||20261019100430-0300||||MX450-03',
+  'OBX|3|NM|8462-4^Diastolic^LN||95|mm[Hg]|||||F|||20261019100430-0300||||MX450-03',
+  'OBX|4|NM|^SPO2||0.93|1|||||P',
+  'OBX|5|ST|8310-5^Body temperature^LN||febril|||||F',
+  'OBX|6|NM|||37',
+].join('\r');
+
+describe('parseJSONReadings', () => {
+  it('accepts well-formed readings', () => {
+    expect(parseJSONReadings({ readings: [reading('spo2', 94)] })).toEqual([reading('spo2', 94)]);
+  });
+
+  it('reports the first malformed reading by index', () => {
+    expect(() => parseJSONReadings({})).toThrow('Body must contain a non-empty "readings" array');
+    expect(() => parseJSONReadings({ readings: [reading('spo2', 94), { parameter: 'hr', value: 90 }] })).toThrow(
+      'Reading 1: missing device_type, device_id, measured_at'
+    );
+    expect(() => parseJSONReadings({ readings: [{ ...reading('hr', 90), value: '90' }] })).toThrow('Reading 0: value must be a number');
+    expect(() => parseJSONReadings({ readings: [reading('hr', 90, { measured_at: 'ontem' })] })).toThrow(
+      'Reading 0: measured_at must be an ISO 8601 timestamp'
+    );
+    expect(() => parseJSONReadings({ readings: [reading('hr', 90, { quality: 'bad' as never })] })).toThrow(DeviceReadingError);
+  });
+});
+
+describe('parseHL7ORU', () => {
+  it('reads one reading per numeric OBX', () => {
+    const parsed = parseHL7ORU(ORU);
+
+    expect(parsed.message_control_id).toBe('MSG-0001');
+    expect(parsed.readings.map(({ parameter, value, unit, quality, device_id, measured_at }) => ({ parameter, value, unit, quality, device_id, measured_at }))).toEqual([
+      { parameter: 'heart_rate', value: 112, unit: '/min', quality: 'good', device_id: 'MX450-03', measured_at: '2026-10-19T13:04:30.000Z' },
+      { parameter: expect.stringMatching(/systolic/), value: 150, unit: 'mm[Hg]', quality: 'good', device_id: 'MX450-03', measured_at: '2026-10-19T13:04:30.000Z' },
+      { parameter: expect.stringMatching(/diastolic/), value: 95, unit: 'mm[Hg]', quality: 'good', device_id: 'MX450-03', measured_at: '2026-10-19T13:04:30.000Z' },
+      // Sem LOINC, horário nem equipamento: texto de OBX-3, MSH-7 e aplicação remetente
+      { parameter: 'SPO2', value: 0.93, unit: '1', quality: 'questionable', device_id: 'PHILIPS_MX450', measured_at: '2026-10-19T13:05:00.000Z' },
+    ]);
+    expect(parsed.readings[0].device_type).toBe('PHILIPS_MX450');
+  });
+
+  it('rejects malformed OBX segments without dropping the message', () => {
+    expect(parseHL7ORU(ORU).rejected.map((rejection) => rejection.reason)).toEqual([
+      'OBX-5 is not numeric (value type ST)',
+      'OBX-3 has no observation identifier',
+    ]);
+  });
+
+  it('rejects readings without any timestamp', () => {
+    const message = ['MSH|^~\\&|OXI||||||ORU^R01|MSG-2|P|2.5', 'OBX|1|NM|59408-5^SpO2^LN||95|%'].join('\n');
+    expect(parseHL7ORU(message)).toMatchObject({ readings: [], rejected: [{ reason: 'No observation timestamp (OBX-14 or MSH-7)' }] });
+  });
+
+  it('refuses messages other than ORU^R01', () => {
+    expect(() => parseHL7ORU('PID|||123')).toThrow('HL7 message must start with an MSH segment');
+    expect(() => parseHL7ORU('MSH|^~\\&|LIS||||20261019||ADT^A01|MSG-3|P|2.5')).toThrow('Unsupported HL7 message type ADT^A01: expected ORU^R01');
+  });
+});
+
+describe('mapReadingsToSlots', () => {
+  it('converts units to the slot unit of the PIR', () => {
+    const { values, rejected } = mapReadingsToSlots(
+      [
+        reading('temperature', 101.3, { unit: '[degF]' }),
+        reading('spo2', 0.93, { unit: '1' }),
+        reading('capillary_glucose', 5.5, { unit: 'mmol/L', device_type: 'glucometer', device_id: 'GLU-1' }),
+        reading('hr', 112, { unit: '/min' }),
+      ],
+      PIR,
+      {}
+    );
+
+    expect(rejected).toEqual([]);
+    expect(values.map(({ slot_id, value }) => [slot_id, value])).toEqual([
+      ['temperature', 38.5],
+      ['oxygen_saturation', 93],
+      ['glucose_level', 99],
+      ['heart_rate', 112],
+    ]);
+  });
+
+  it('joins systolic and diastolic readings of the same measurement', () => {
+    const { values } = mapReadingsToSlots([reading('systolic_bp', 20, { unit: 'kPa' }), reading('blood_pressure.diastolic', 95)], PIR, {});
+    expect(values).toEqual([expect.objectContaining({ slot_id: 'blood_pressure', value: { systolic: 150, diastolic: 95 } })]);
+    expect(values[0].readings).toHaveLength(2);
+  });
+
+  it('merges a single field into the current slot value', () => {
+    const { values } = mapReadingsToSlots([reading('diastolic_bp', 90)], PIR, { blood_pressure: { systolic: 140, diastolic: 85 } });
+    expect(values[0].value).toEqual({ systolic: 140, diastolic: 90 });
+  });
+
+  it('rejects unknown observation codes, non-device slots, invalid readings and unsupported units', () => {
+    const { values, rejected } = mapReadingsToSlots(
+      [
+        reading('lactate', 4.2),
+        reading('pain_score', 8),
+        reading('spo2', 40, { quality: 'invalid' }),
+        reading('heart_rate', 112, { unit: 'Hz' }),
+      ],
+      PIR,
+      {}
+    );
+
+    expect(values).toEqual([]);
+    expect(rejected.map((rejection) => rejection.reason)).toEqual([
+      'Unknown parameter "lactate"',
+      'Slot pain_score is not a device slot',
+      'Reading flagged invalid by device',
+      'Unsupported unit "Hz" for heart_rate (bpm)',
+    ]);
+  });
+
+  it('resolves HL7 parameters and orders values by measurement time', () => {
+    const { values, rejected } = mapReadingsToSlots(parseHL7ORU(ORU).readings, PIR, {});
+    expect(rejected).toEqual([]);
+    expect(values.map(({ slot_id, value, quality }) => [slot_id, value, quality])).toEqual([
+      ['heart_rate', 112, 'good'],
+      ['blood_pressure', { systolic: 150, diastolic: 95 }, 'good'],
+      ['oxygen_saturation', 93, 'questionable'],
+    ]);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * PIR Device Readings - Ingestão de medições de dispositivos (monitor, oxímetro, glicosímetro)
+ *
+ * Formatos aceitos:
+ * - JSON: { readings: [{ device_type, device_id, parameter, value, unit?, quality?, measured_at }] }
+ * - HL7 v2 ORU^R01: um OBX por medição (OBX-3 LOINC ou nome, OBX-5 valor, OBX-6 unidade,
+ *   OBX-11 status → qualidade, OBX-14 horário, OBX-18 equipamento)
+ *
+ * `parameter` é resolvido pelo SlotRegistry (ID canônico, alias ou campo: spo2,
+ * systolic_bp, blood_pressure.diastolic...). Só slots `device` do PIR aceitam medição;
+ * unidades alternativas são convertidas para a unidade do slot no PIR.
+ */
+
+import { SlotRegistry, type PIRDocument } from '@voither/pir-schema';
+import { slotReferenceForLOINC } from '../fhir/loinc';
+
+export type DeviceReadingQuality = 'good' | 'questionable' | 'invalid';
+
+export interface DeviceReading {
+  device_type: string; // pulse_oximeter, multiparameter_monitor, glucometer...
+  device_id: string;
+  parameter: string; // Slot, alias ou campo ("spo2", "systolic_bp")
+  value: number;
+  unit?: string; // Ausente = unidade do slot no PIR
+  quality?: DeviceReadingQuality; // Ausente = good
+  measured_at: string;
+}
+
+/**
+ * Medição já convertida para valor de slot (pressão: sistólica e diastólica juntas)
+ */
+export interface DeviceSlotValue {
+  slot_id: string;
+  value: unknown;
+  quality: DeviceReadingQuality;
+  device_type: string;
+  device_id: string;
+  measured_at: string;
+  readings: DeviceReading[];
+}
+
+export interface RejectedDeviceReading {
+  reading: Partial<DeviceReading>;
+  reason: string;
+}
+
+export class DeviceReadingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceReadingError';
+  }
+}
+
+/**
+ * Unidades por unidade do slot no PIR: sinônimos (fator 1) e conversões
+ */
+const UNIT_CONVERSIONS: Record<string, { synonyms: string[]; convert?: Record<string, (value: number) => number> }> = {
+  celsius: {
+    synonyms: ['celsius', 'cel', '°c', 'c', 'degc'],
+    convert: {
+      '°f': (value) => Math.round(((value - 32) * 5) / 9 * 10) / 10,
+      degf: (value) => Math.round(((value - 32) * 5) / 9 * 10) / 10,
+      '[degf]': (value) => Math.round(((value - 32) * 5) / 9 * 10) / 10,
+    },
+  },
+  bpm: { synonyms: ['bpm', '/min', '1/min', '{beats}/min'] },
+  irpm: { synonyms: ['irpm', 'rpm', '/min', '1/min', '{breaths}/min', 'br/min'] },
+  mmHg: {
+    synonyms: ['mmhg', 'mm[hg]'],
+    convert: {
+      cmhg: (value) => value * 10,
+      kpa: (value) => Math.round(value * 7.50062),
+    },
+  },
+  percent: {
+    synonyms: ['percent', '%'],
+    convert: { '1': (value) => Math.round(value * 100), fraction: (value) => Math.round(value * 100) },
+  },
+  'mg/dL': {
+    synonyms: ['mg/dl'],
+    convert: { 'mmol/l': (value) => Math.round(value * 18.016) },
+  },
+  kg: {
+    synonyms: ['kg', 'kilogram', 'kilograms'],
+    convert: {
+      g: (value) => Math.round(value) / 1000,
+      '[lb_av]': (value) => Math.round(value * 0.45359237 * 100) / 100,
+      lb: (value) => Math.round(value * 0.45359237 * 100) / 100,
+    },
+  },
+  cm: {
+    synonyms: ['cm', 'centimeter', 'centimeters'],
+    convert: {
+      m: (value) => Math.round(value * 1000) / 10,
+      '[in_i]': (value) => Math.round(value * 25.4) / 10,
+      in: (value) => Math.round(value * 25.4) / 10,
+    },
+  },
+  weeks: {
+    synonyms: ['weeks', 'wk', 'week'],
+    convert: { d: (value) => Math.floor(value / 7) },
+  },
+};
+
+const QUALITIES: DeviceReadingQuality[] = ['good', 'questionable', 'invalid'];
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+export function parseJSONReadings(body: unknown): DeviceReading[] {
+  const readings = (body as { readings?: unknown })?.readings;
+  if (!Array.isArray(readings) || readings.length === 0) {
+    throw new DeviceReadingError('Body must contain a non-empty "readings" array');
+  }
+
+  return readings.map((reading, index) => {
+    const candidate = reading as Partial<DeviceReading>;
+    const missing = (['device_type', 'device_id', 'parameter', 'measured_at'] as const).filter(
+      (field) => typeof candidate[field] !== 'string' || candidate[field] === ''
+    );
+
+    if (missing.length > 0) {
+      throw new DeviceReadingError(`Reading ${index}: missing ${missing.join(', ')}`);
+    }
+    if (typeof candidate.value !== 'number' || !Number.isFinite(candidate.value)) {
+      throw new DeviceReadingError(`Reading ${index}: value must be a number`);
+    }
+    if (Number.isNaN(Date.parse(candidate.measured_at!))) {
+      throw new DeviceReadingError(`Reading ${index}: measured_at must be an ISO 8601 timestamp`);
+    }
+    if (candidate.quality !== undefined && !QUALITIES.includes(candidate.quality)) {
+      throw new DeviceReadingError(`Reading ${index}: quality must be one of ${QUALITIES.join(', ')}`);
+    }
+
+    return candidate as DeviceReading;
+  });
+}
+
+// ============================================================================
+// HL7 v2 ORU^R01
+// ============================================================================
+
+/**
+ * "20250115103005-0300" → ISO 8601 (sem fuso: UTC)
+ */
+function parseHL7Timestamp(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})?(\d{2})?(\d{2})?(?:\.\d+)?([+-]\d{4})?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', offset] = match;
+  const zone = offset ? `${offset.slice(0, 3)}:${offset.slice(3)}` : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * OBX-11: F/C (final, corrigido) → good; P/R/S (preliminar) → questionable; demais → invalid
+ */
+function qualityFromResultStatus(status: string): DeviceReadingQuality {
+  if (status === '' || status === 'F' || status === 'C') return 'good';
+  if (status === 'P' || status === 'R' || status === 'S') return 'questionable';
+  return 'invalid';
+}
+
+export interface HL7ParseResult {
+  message_control_id: string; // MSH-10 (para o ACK do remetente)
+  readings: DeviceReading[];
+  rejected: RejectedDeviceReading[];
+}
+
+export function parseHL7ORU(message: string): HL7ParseResult {
+  const segments = message.split(/\r\n|\r|\n/).filter((segment) => segment.trim() !== '');
+  const msh = segments[0];
+
+  if (!msh?.startsWith('MSH')) {
+    throw new DeviceReadingError('HL7 message must start with an MSH segment');
+  }
+
+  // MSH-1 é o próprio separador de campo; MSH-2 traz os demais (^~\&)
+  const fieldSeparator = msh[3];
+  const componentSeparator = msh[4] ?? '^';
+  const mshFields = msh.split(fieldSeparator);
+  // Com MSH-1 = separador, o índice do array é o número do campo - 1
+  const messageType = mshFields[8]?.split(componentSeparator) ?? [];
+
+  if (messageType[0] !== 'ORU' || messageType[1] !== 'R01') {
+    throw new DeviceReadingError(`Unsupported HL7 message type ${messageType.slice(0, 2).join('^') || '(empty)'}: expected ORU^R01`);
+  }
+
+  const sendingApplication = mshFields[2]?.split(componentSeparator)[0] || 'hl7_device';
+  const messageTimestamp = parseHL7Timestamp(mshFields[6] ?? '');
+  const readings: DeviceReading[] = [];
+  const rejected: RejectedDeviceReading[] = [];
+
+  for (const segment of segments.slice(1)) {
+    const fields = segment.split(fieldSeparator);
+    if (fields[0] !== 'OBX') continue;
+
+    // Código LOINC conhecido; senão o texto ("SPO2") ou o código local, resolvidos pelo registro
+    const [code, text] = (fields[3] ?? '').split(componentSeparator);
+    const parameter = slotReferenceForLOINC(code) ?? (text || code);
+    const value = Number(fields[5]);
+    const measuredAt = parseHL7Timestamp(fields[14] ?? '') ?? messageTimestamp;
+    const deviceId = fields[18]?.split(componentSeparator)[0] || sendingApplication;
+
+    const reading: Partial<DeviceReading> = {
+      device_type: sendingApplication,
+      device_id: deviceId,
+      parameter,
+      value,
+      unit: fields[6]?.split(componentSeparator)[0] || undefined,
+      quality: qualityFromResultStatus(fields[11] ?? ''),
+      measured_at: measuredAt ?? undefined,
+    };
+
+    if (!parameter) {
+      rejected.push({ reading, reason: 'OBX-3 has no observation identifier' });
+    } else if (fields[2] !== 'NM' || fields[5] === undefined || fields[5] === '' || !Number.isFinite(value)) {
+      rejected.push({ reading, reason: `OBX-5 is not numeric (value type ${fields[2] || 'empty'})` });
+    } else if (!measuredAt) {
+      rejected.push({ reading, reason: 'No observation timestamp (OBX-14 or MSH-7)' });
+    } else {
+      readings.push(reading as DeviceReading);
+    }
+  }
+
+  return { message_control_id: mshFields[9] ?? '', readings, rejected };
+}
+
+// ============================================================================
+// MAPEAMENTO PARA SLOTS
+// ============================================================================
+
+/**
+ * Converte para a unidade do slot no PIR (null = unidade não suportada)
+ */
+export function normalizeUnit(value: number, unit: string | undefined, slotUnit: string | undefined): number | null {
+  if (!unit || !slotUnit) return value;
+
+  const conversions = UNIT_CONVERSIONS[slotUnit];
+  const normalized = unit.trim().toLowerCase();
+  if (!conversions) return normalized === slotUnit.toLowerCase() ? value : null;
+
+  if (normalized === slotUnit.toLowerCase() || conversions.synonyms.includes(normalized)) return value;
+  const convert = conversions.convert?.[normalized];
+  return convert ? convert(value) : null;
+}
+
+/**
+ * Resolve medições para valores de slot na versão do PIR da sessão
+ *
+ * Campos de slots object do mesmo dispositivo e horário (sistólica + diastólica)
+ * viram um único valor; campo isolado é mesclado ao valor atual do slot.
+ */
+export function mapReadingsToSlots(
+  readings: DeviceReading[],
+  document: PIRDocument,
+  slotState: Record<string, unknown>
+): { values: DeviceSlotValue[]; rejected: RejectedDeviceReading[] } {
+  const registry = SlotRegistry.forDocument(document);
+  const values = new Map<string, DeviceSlotValue>();
+  const rejected: RejectedDeviceReading[] = [];
+
+  for (const reading of readings) {
+    const reference = registry.resolve(reading.parameter) ?? registry.resolve(reading.parameter.toLowerCase());
+    const slot = reference ? document.slots.find((candidate) => candidate.slot_id === reference.slot_id) : undefined;
+
+    if (!reference || !slot) {
+      rejected.push({ reading, reason: `Unknown parameter "${reading.parameter}"` });
+      continue;
+    }
+    if (slot.type !== 'device') {
+      rejected.push({ reading, reason: `Slot ${slot.slot_id} is not a device slot` });
+      continue;
+    }
+    if (slot.structure && !reference.field) {
+      rejected.push({ reading, reason: `Slot ${slot.slot_id} needs one reading per field (${Object.keys(slot.structure).join(', ')})` });
+      continue;
+    }
+    if (reading.quality === 'invalid') {
+      rejected.push({ reading, reason: 'Reading flagged invalid by device' });
+      continue;
+    }
+
+    const value = normalizeUnit(reading.value, reading.unit, slot.unit);
+    if (value === null) {
+      rejected.push({ reading, reason: `Unsupported unit "${reading.unit}" for ${slot.slot_id} (${slot.unit})` });
+      continue;
+    }
+
+    const key = `${slot.slot_id}|${reading.device_id}|${reading.measured_at}`;
+    const quality = reading.quality ?? 'good';
+    const existing = values.get(key);
+
+    if (!reference.field) {
+      values.set(key, {
+        slot_id: slot.slot_id,
+        value,
+        quality,
+        device_type: reading.device_type,
+        device_id: reading.device_id,
+        measured_at: reading.measured_at,
+        readings: [reading],
+      });
+      continue;
+    }
+
+    const base = (existing?.value ?? slotState[slot.slot_id] ?? {}) as Record<string, unknown>;
+    values.set(key, {
+      slot_id: slot.slot_id,
+      value: { ...base, [reference.field]: value },
+      quality: existing?.quality === 'questionable' ? 'questionable' : quality,
+      device_type: reading.device_type,
+      device_id: reading.device_id,
+      measured_at: reading.measured_at,
+      readings: [...(existing?.readings ?? []), reading],
+    });
+  }
+
+  // Mais antiga primeiro: a mais recente de cada slot vence no histórico
+  const ordered = Array.from(values.values()).sort((a, b) => Date.parse(a.measured_at) - Date.parse(b.measured_at));
+  return { values: ordered, rejected };
+}
@@ -7,6 +7,7 @@
  */
 
 import { Ai } from '@cloudflare/ai';
+import { isPediatricThresholdSet, selectThresholdSet } from '@voither/pir-schema';
 import type {
   ConversationTurn,
   ExtractionResult,
@@ -14,6 +15,8 @@ import type {
   SlotFillRequest,
   SlotStatus,
 } from '../types/slots';
+import { describeClinicalContext, judgeGrounding, UNCERTAIN_MAX_CONFIDENCE } from './clinical-context';
+import { SlotPatternMatcher, satisfiesPIRValidation, type PatternMatch } from './pattern-matcher';
 
 export interface ExtractorConfig {
   model: string; // @cf/meta/llama-3-8b-instruct, @cf/anthropic/claude-3-haiku, etc
@@ -23,6 +26,11 @@ export interface ExtractorConfig {
   max_retries: number;
 }
 
+/**
+ * Versão da lógica de extração (registrada no histórico de cada slot)
+ */
+export const EXTRACTOR_VERSION = 'pir-slots@1.0.0';
+
 export const DEFAULT_CONFIG: ExtractorConfig = {
   model: '@cf/meta/llama-3.1-8b-instruct', // Fast, edge-optimized
   temperature: 0.1, // Low temp for extraction accuracy
@@ -31,6 +39,32 @@ export const DEFAULT_CONFIG: ExtractorConfig = {
   max_retries: 2,
 };
 
+/**
+ * Modo pediátrico: quem fala é o cuidador, na 3ª pessoa e em linguagem leiga
+ * (anexado ao system prompt quando a idade cai nas faixas pediátricas do PIR)
+ */
+export const CAREGIVER_SPEECH_GUIDANCE = `PACIENTE PEDIÁTRICO: quem responde é o cuidador (mãe, pai, acompanhante), falando da criança na 3ª pessoa ("ele", "ela", "o bebê", "a menina").
+- O relato do cuidador vale como relato do paciente
+- "está mole", "molinho", "largado", "não quer brincar" = hipoatividade: consciência alterada (confused; responds_voice se só reage quando chamado)
+- "não acorda", "não reage", "revirando os olhos" = avaliar responds_pain/unresponsive pelo estímulo descrito
+- "não para de chorar", "chora quando mexe" = irritabilidade/choro inconsolável
+- "está quente", "ardendo em febre" sem número = febre relatada; não invente temperatura
+- "respirando rápido", "puxando o ar", "afundando as costelas", "gemendo" = esforço respiratório
+- "não mama", "não aceita nada", "fralda seca" = baixa aceitação / diurese reduzida
+- Dor em criança pequena: sem escala numérica, estime pela descrição do cuidador (choro, careta, não deixa tocar)`;
+
+/**
+ * Idade do paciente em anos: slot `age`, senão cadastro (patient_context)
+ */
+export function patientAgeYears(slotState?: Record<string, unknown>, patientContext?: PatientContext): number | null {
+  const age = slotState?.age ?? patientContext?.age_years;
+  return typeof age === 'number' && Number.isFinite(age) ? age : null;
+}
+
+export function isPediatricPatient(ageYears: number | null): boolean {
+  return isPediatricThresholdSet(selectThresholdSet(ageYears));
+}
+
 /**
  * Base class para todos os extractors de slots
  * Cada slot herda e implementa extract() com prompt específico
@@ -40,6 +74,7 @@ export abstract class BaseSlotExtractor<T = unknown> {
   protected config: ExtractorConfig;
   protected slotId: string;
   protected slotName: string;
+  protected extractionMethod: ExtractionResult['extraction_method'] = 'conversation';
 
   constructor(aiBinding: any, slotId: string, slotName: string, config: Partial<ExtractorConfig> = {}) {
     this.ai = new Ai(aiBinding);
@@ -82,7 +117,7 @@ export abstract class BaseSlotExtractor<T = unknown> {
 
     for (let attempt = 0; attempt < this.config.max_retries; attempt++) {
       try {
-        const response = await this.ai.run(this.config.model, {
+        const response = await this.ai.run(this.config.model as any, {
           messages,
           temperature: this.config.temperature,
           max_tokens: this.config.max_tokens,
@@ -227,8 +262,12 @@ export abstract class BaseSlotExtractor<T = unknown> {
    */
   protected createFailureResult(reason: string): ExtractionResult<T> {
     return {
+      slot_id: this.slotId,
+      slot_name: this.slotName,
       value: null,
       confidence: 0.0,
+      status: 'failed',
+      extraction_method: this.extractionMethod,
       source: 'llm_extraction',
       timestamp: new Date().toISOString(),
       reasoning: `Extraction failed: ${reason}`,
@@ -250,14 +289,29 @@ IMPORTANTE:
 - Retorne sempre em formato JSON válido
 - Use linguagem médica apropriada`;
 
+  // Match determinístico de padrão do PIR: confiança fixa, abaixo de confirmação manual
+  protected patternMatchConfidence = 0.9;
+
   async extract(request: SlotFillRequest): Promise<ExtractionResult<T>> {
     try {
+      // Padrões do PIR primeiro: o LLM só roda se nenhum casar ou o valor for inválido
+      const patternResult = this.extractFromPatterns(request);
+      if (patternResult) {
+        return patternResult;
+      }
+
       const conversationText = this.buildConversationContext(request.conversation_context);
       const contextQuality = this.assessContextQuality(request.conversation_context);
 
-      const prompt = this.buildExtractionPrompt(conversationText, request.patient_context);
+      // Negação/incerteza/experienciador anotados pela pré-análise do round
+      const clinicalNotes = describeClinicalContext(request.clinical_context);
+      const prompt = this.buildExtractionPrompt(
+        clinicalNotes ? `${conversationText}\n\n${clinicalNotes}` : conversationText,
+        request.patient_context
+      );
+      const pediatric = isPediatricPatient(patientAgeYears(request.slot_state, request.patient_context));
 
-      const llmResponse = await this.callLLM(prompt, this.systemPrompt);
+      const llmResponse = await this.callLLM(prompt, pediatric ? `${this.systemPrompt}\n\n${CAREGIVER_SPEECH_GUIDANCE}` : this.systemPrompt);
       const parsed = this.parseResponse(llmResponse);
 
       if (parsed === null) {
@@ -272,10 +326,15 @@ IMPORTANTE:
       });
 
       return {
+        slot_id: this.slotId,
+        slot_name: this.slotName,
         value: parsed,
         confidence,
+        status: 'extracted',
+        extraction_method: 'conversation',
         source: 'llm_extraction',
         timestamp: new Date().toISOString(),
+        model_used: this.config.model,
         raw_text: conversationText,
         reasoning: llmResponse,
       };
@@ -285,6 +344,67 @@ IMPORTANTE:
     }
   }
 
+  /**
+   * Estágio regex: primeiro match (janela context_window) que vira valor válido
+   * (no modo batch roda antes da chamada única, como aqui antes do LLM do slot)
+   */
+  extractFromPatterns(request: SlotFillRequest): ExtractionResult<T> | null {
+    const extraction = request.slot_definition?.extraction;
+    if (!extraction?.patterns?.length) return null;
+
+    const matcher = SlotPatternMatcher.forExtraction(extraction);
+
+    for (const candidate of matcher.matches(request.conversation_context)) {
+      const value = this.parsePatternMatch(candidate);
+      if (value === null) continue;
+
+      if (!this.validate(value) || !satisfiesPIRValidation(value, request.slot_definition?.validation)) {
+        console.log(`[PATTERN] ${this.slotId}: "${candidate.match[0]}" failed validation, trying next`);
+        continue;
+      }
+
+      const span = {
+        turn_index: request.conversation_context.indexOf(candidate.turn),
+        start: candidate.match.index,
+        end: candidate.match.index + candidate.match[0].length,
+        text: candidate.match[0],
+      };
+
+      // "não tenho dor no peito", "minha mãe teve AVC": o match não ancora achado do paciente
+      const verdict = judgeGrounding(value, request.slot_definition, [span], request.clinical_context ?? []);
+      if (verdict.rejected) {
+        console.log(`[CONTEXT] ${this.slotId}: ${verdict.reason}, trying next`);
+        continue;
+      }
+
+      return {
+        slot_id: this.slotId,
+        slot_name: this.slotName,
+        value,
+        confidence: verdict.uncertain ? Math.min(this.patternMatchConfidence, UNCERTAIN_MAX_CONFIDENCE) : this.patternMatchConfidence,
+        status: 'extracted',
+        extraction_method: 'conversation',
+        source: 'pattern_match',
+        timestamp: new Date().toISOString(),
+        raw_text: candidate.turn.content,
+        span,
+        reasoning: `Pattern ${candidate.pattern_index} /${candidate.pattern}/ matched "${candidate.match[0]}" (${candidate.turns_ago} turn(s) ago)${
+          verdict.uncertain ? ', uncertain context' : ''
+        }`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Converte match de padrão do PIR em valor do slot
+   * Padrão: null (slot sem conversão determinística → LLM)
+   */
+  protected parsePatternMatch(_candidate: PatternMatch): T | null {
+    return null;
+  }
+
   /**
    * Constrói prompt específico de extração
    * Implementado por cada slot
@@ -302,6 +422,8 @@ IMPORTANTE:
  * Extractor para slots de dispositivos (sinais vitais)
  */
 export abstract class DeviceExtractor<T> extends BaseSlotExtractor<T> {
+  protected extractionMethod: ExtractionResult['extraction_method'] = 'device';
+
   async extract(request: SlotFillRequest): Promise<ExtractionResult<T>> {
     try {
       // Tenta extrair de contexto conversacional (enfermeiro falando medição)
@@ -316,18 +438,27 @@ export abstract class DeviceExtractor<T> extends BaseSlotExtractor<T> {
           contextQuality: 0.8,
         });
 
+        // Medição falada/digitada na conversa: regex, não dispositivo (medição real chega pela ingestão de dispositivos)
         return {
+          slot_id: this.slotId,
+          slot_name: this.slotName,
           value: extractedFromConversation,
           confidence,
-          source: 'device',
+          status: 'extracted',
+          extraction_method: 'conversation',
+          source: 'pattern_match',
           timestamp: new Date().toISOString(),
         };
       }
 
       // Se não encontrou em conversa, aguarda medição real de dispositivo
       return {
+        slot_id: this.slotId,
+        slot_name: this.slotName,
         value: null,
         confidence: 0.0,
+        status: 'pending',
+        extraction_method: 'device',
         source: 'device',
         timestamp: new Date().toISOString(),
         reasoning: 'Awaiting device measurement',
@@ -348,6 +479,8 @@ export abstract class DeviceExtractor<T> extends BaseSlotExtractor<T> {
  * Extractor para slots computados (calculados de outros slots)
  */
 export abstract class ComputedExtractor<T> extends BaseSlotExtractor<T> {
+  protected extractionMethod: ExtractionResult['extraction_method'] = 'computed';
+
   async extract(request: SlotFillRequest): Promise<ExtractionResult<T>> {
     try {
       // Pega valores de outros slots necessários
@@ -355,8 +488,12 @@ export abstract class ComputedExtractor<T> extends BaseSlotExtractor<T> {
 
       if (!this.hasRequiredInputs(inputs)) {
         return {
+          slot_id: this.slotId,
+          slot_name: this.slotName,
           value: null,
           confidence: 0.0,
+          status: 'pending',
+          extraction_method: 'computed',
           source: 'computed',
           timestamp: new Date().toISOString(),
           reasoning: 'Missing required input slots',
@@ -367,8 +504,12 @@ export abstract class ComputedExtractor<T> extends BaseSlotExtractor<T> {
       const isValid = this.validate(computed);
 
       return {
+        slot_id: this.slotId,
+        slot_name: this.slotName,
         value: computed,
         confidence: isValid ? 0.95 : 0.0,
+        status: 'computed',
+        extraction_method: 'computed',
         source: 'computed',
         timestamp: new Date().toISOString(),
       };
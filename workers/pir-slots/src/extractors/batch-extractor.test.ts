@@ -0,0 +1,214 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryProtocolStore, ProtocolHotReloader, loadManchesterSPProtocol } from '@voither/pir-schema';
+import { RhizomaticOrchestrator } from '../orchestrator/rhizomatic-orchestrator';
+import type { ConversationTurn } from '../types/slots';
+import { BatchSlotExtractor } from './batch-extractor';
+
+// @cloudflare/ai não carrega no Node; o SDK só repassa ao binding, que aqui é roteirizado
+vi.mock('@cloudflare/ai', () => ({
+  Ai: class {
+    constructor(private binding: { run(model: string, inputs: unknown): Promise<unknown> }) {}
+    run(model: string, inputs: unknown) {
+      return this.binding.run(model, inputs);
+    }
+  },
+}));
+
+const PIR = loadManchesterSPProtocol();
+
+/**
+ * Workers AI roteirizado: a chamada batch (response_format) devolve `batch`; as de um slot,
+ * a resposta do primeiro padrão que casar com o prompt (ou JSON vazio)
+ */
+class ScriptedAI {
+  calls: Array<{ model: string; inputs: any }> = [];
+
+  constructor(
+    private batch: unknown,
+    private slotResponses: Array<[RegExp, string]> = []
+  ) {}
+
+  get batchCalls() {
+    return this.calls.filter((call) => call.inputs.response_format);
+  }
+
+  get slotCalls() {
+    return this.calls.filter((call) => !call.inputs.response_format);
+  }
+
+  async run(model: string, inputs: any): Promise<unknown> {
+    this.calls.push({ model, inputs });
+    if (inputs.response_format) return { response: this.batch };
+
+    const prompt = inputs.messages?.map((message: { content: string }) => message.content).join('\n') ?? '';
+    return { response: this.slotResponses.find(([pattern]) => pattern.test(prompt))?.[1] ?? '{}' };
+  }
+}
+
+const field = (value: unknown, quote: string | null, confidence = 0.9, turnIndex = 0) => ({
+  value,
+  confidence,
+  evidence: quote === null ? null : { turn_index: turnIndex, quote },
+});
+
+const conversation: ConversationTurn[] = [
+  { role: 'nurse', content: 'O que aconteceu?' },
+  { role: 'patient', content: 'Cortei o braço e está sangrando muito, a dor é 7.' },
+];
+
+describe('BatchSlotExtractor', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  describe('buildResponseSchema', () => {
+    const schema = new BatchSlotExtractor(new ScriptedAI({}), PIR, new Map()).buildResponseSchema([
+      'pain_score',
+      'bleeding_present',
+      'bleeding_severity',
+      'symptom_onset',
+    ]) as { properties: Record<string, any>; required: string[]; additionalProperties: boolean };
+    const value = (slotId: string) => schema.properties[slotId].properties.value;
+
+    it('requires one field per slot with value, confidence and evidence', () => {
+      expect(schema.required).toEqual(['pain_score', 'bleeding_present', 'bleeding_severity', 'symptom_onset']);
+      expect(schema.additionalProperties).toBe(false);
+      expect(schema.properties.pain_score).toMatchObject({ required: ['value', 'confidence', 'evidence'], description: 'Escala de Dor; de 0 a 10' });
+    });
+
+    it('derives nullable value types, ranges and options from the PIR', () => {
+      expect(value('pain_score')).toEqual({ type: ['integer', 'null'], minimum: 0, maximum: 10 });
+      expect(value('bleeding_present')).toEqual({ type: ['boolean', 'null'] });
+      expect(value('bleeding_severity')).toEqual({ enum: ['exsanguinating', 'uncontrollable_major', 'uncontrollable_minor', 'controllable', null] });
+      expect(value('symptom_onset')).toMatchObject({ type: ['object', 'null'], properties: { unit: { enum: ['minutes', 'hours', 'days'] } } });
+    });
+  });
+
+  describe('extract', () => {
+    const slotIds = ['pain_score', 'bleeding_present', 'bleeding_severity', 'symptom_onset'];
+
+    it('fills every slot from a single JSON mode call', async () => {
+      const ai = new ScriptedAI({
+        pain_score: field(7, 'a dor é 7', 0.95, 1),
+        bleeding_present: field(true, 'está sangrando muito', 0.9, 1),
+        bleeding_severity: field('uncontrollable_minor', 'sangramento forte', 0.8),
+        symptom_onset: field(null, null, 0),
+      });
+      const { results, missing } = await new BatchSlotExtractor(ai, PIR, new Map()).extract(slotIds, conversation);
+
+      expect(ai.calls).toHaveLength(1);
+      expect(ai.calls[0].inputs.response_format).toMatchObject({ type: 'json_schema', json_schema: { required: slotIds } });
+      expect(missing).toEqual([]);
+      expect(results.pain_score).toMatchObject({ value: 7, confidence: 0.95, status: 'extracted', span: { turn_index: 1, text: 'a dor é 7' } });
+      expect(results.bleeding_present).toMatchObject({ value: true, raw_text: conversation[1].content });
+      // Trecho que não está na conversa: valor aceito com confiança limitada
+      expect(results.bleeding_severity).toMatchObject({ value: 'uncontrollable_minor', confidence: 0.6, span: undefined });
+      expect(results.symptom_onset).toMatchObject({ value: null, status: 'pending', reasoning: 'Not mentioned in conversation' });
+    });
+
+    it('reads the response as JSON text and drops values that fail validation', async () => {
+      const ai = new ScriptedAI(
+        `Segue o JSON: ${JSON.stringify({ pain_score: field(14, 'a dor é 7'), bleeding_present: field('sim', 'sangrando') })}`
+      );
+      const validators = new Map([['bleeding_present', { validate: (value: unknown) => typeof value === 'boolean' }]]);
+      const { results, missing } = await new BatchSlotExtractor(ai, PIR, validators).extract(['pain_score', 'bleeding_present'], conversation);
+
+      expect(missing).toEqual([]);
+      expect(results.pain_score).toMatchObject({ value: null, reasoning: 'Batch value 14 failed validation' });
+      expect(results.bleeding_present).toMatchObject({ value: null, status: 'pending' });
+    });
+
+    it('leaves every slot missing when the response is not JSON', async () => {
+      const ai = new ScriptedAI('Não consegui identificar os campos.');
+      const extraction = await new BatchSlotExtractor(ai, PIR, new Map(), { max_retries: 1 }).extract(slotIds, conversation);
+
+      expect(extraction).toEqual({ results: {}, missing: slotIds });
+    });
+
+    it('reports the slots a partial response leaves out', async () => {
+      const ai = new ScriptedAI({ pain_score: field(7, 'a dor é 7'), bleeding_present: { confidence: 0.9 }, bleeding_severity: [] });
+      const { results, missing } = await new BatchSlotExtractor(ai, PIR, new Map()).extract(slotIds, conversation);
+
+      expect(Object.keys(results)).toEqual(['pain_score']);
+      expect(missing).toEqual(['bleeding_present', 'bleeding_severity', 'symptom_onset']);
+    });
+
+    it('does not call the model without slots', async () => {
+      const ai = new ScriptedAI({});
+      expect(await new BatchSlotExtractor(ai, PIR, new Map()).extract([], conversation)).toEqual({ results: {}, missing: [] });
+      expect(ai.calls).toEqual([]);
+    });
+  });
+});
+
+describe('RhizomaticOrchestrator batch mode', () => {
+  // Sangramento casa padrão do PIR (bleeding_present); queixa, consciência e gravidade vão na chamada batch
+  const turn = 'Ele está confuso e está sangrando muito pelo braço.';
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  async function batchSession(ai: ScriptedAI): Promise<RhizomaticOrchestrator> {
+    const protocol = await new ProtocolHotReloader({ store: new MemoryProtocolStore() }).bootstrap(PIR);
+    const orchestrator = new RhizomaticOrchestrator(ai, PIR);
+    orchestrator.startSession('s-1', protocol, undefined, undefined, 'batch');
+    return orchestrator;
+  }
+
+  it('extracts the slots a partial response leaves out with their own extractors', async () => {
+    const ai = new ScriptedAI(
+      {
+        chief_complaint: field('sangramento no braço', 'sangrando muito pelo braço'),
+        consciousness_level: field('confused', 'está confuso'),
+      },
+      [[/GRAVIDADE DA HEMORRAGIA/, '{"severity": "uncontrollable_major", "reasoning": "sangra muito"}']]
+    );
+    const orchestrator = await batchSession(ai);
+
+    const { session_state, extraction_results, extraction_plan } = await orchestrator.processTextAndExtractSlots('s-1', turn, 'patient');
+
+    expect(ai.batchCalls).toHaveLength(1);
+    expect(ai.slotCalls).toHaveLength(1);
+    expect(ai.slotCalls[0].inputs.messages[1].content).toMatch(/GRAVIDADE DA HEMORRAGIA/);
+    expect(extraction_plan.metrics?.model_calls).toBe(2);
+    expect(session_state.slot_state).toMatchObject({
+      chief_complaint: 'sangramento no braço',
+      consciousness_level: 'confused',
+      bleeding_present: true,
+      bleeding_severity: 'uncontrollable_major',
+    });
+    expect(extraction_results.bleeding_severity?.reasoning).toContain('uncontrollable_major');
+  });
+
+  it('falls back to per-slot extraction for every slot of a malformed response', async () => {
+    const ai = new ScriptedAI({ resultado: 'paciente confuso' }, [
+      [/NÍVEL DE CONSCIÊNCIA/, '{"consciousness_level": "confused"}'],
+      [/GRAVIDADE DA HEMORRAGIA/, '{"severity": "uncontrollable_major"}'],
+    ]);
+    const orchestrator = await batchSession(ai);
+
+    const { session_state, extraction_plan } = await orchestrator.processTextAndExtractSlots('s-1', turn, 'patient');
+
+    expect(ai.batchCalls).toHaveLength(1);
+    expect(ai.slotCalls).toHaveLength(3); // chief_complaint, consciousness_level, bleeding_severity
+    expect(extraction_plan.metrics?.model_calls).toBe(4);
+    expect(session_state.slot_state).toMatchObject({ consciousness_level: 'confused', bleeding_severity: 'uncontrollable_major' });
+  });
+
+  it('keeps a slot the response reports as not mentioned out of the fallback', async () => {
+    const ai = new ScriptedAI({
+      chief_complaint: field('sangramento no braço', 'sangrando muito pelo braço'),
+      consciousness_level: field('confused', 'está confuso'),
+      bleeding_severity: field(null, null, 0),
+    });
+    const orchestrator = await batchSession(ai);
+
+    const { session_state } = await orchestrator.processTextAndExtractSlots('s-1', turn, 'patient');
+
+    expect(ai.slotCalls).toEqual([]);
+    expect(session_state.slot_state.bleeding_severity).toBeUndefined();
+  });
+});
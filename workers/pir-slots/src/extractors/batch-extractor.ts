@@ -0,0 +1,457 @@
+/**
+ * PIR Batch Slot Extractor - Uma chamada de LLM para todos os slots conversacionais
+ *
+ * Alternativa ao modo rizomático (um extractor e uma chamada por slot, cada uma
+ * reenviando a conversa inteira): o schema JSON da resposta é gerado do registro
+ * de slots do PIR da sessão (tipo, opções de enum, campos de object, faixas de
+ * validação) e o modelo devolve, por slot, valor + confiança + evidência.
+ *
+ * A resposta é validada slot a slot (validate() do extractor do slot + validation
+ * do PIR) e separada em ExtractionResults comuns: proveniência, plausibilidade e
+ * política de conflito seguem iguais aos do modo rizomático. Slots que a resposta
+ * não cobre (chamada falhou, JSON malformado, campo ausente) voltam como `missing`
+ * e o orchestrator os extrai pelo extractor do slot.
+ */
+
+import { Ai } from '@cloudflare/ai';
+import { SlotRegistry, type PIRDocument, type PIRSlot, type PIRSlotDataType } from '@voither/pir-schema';
+import { CAREGIVER_SPEECH_GUIDANCE, DEFAULT_CONFIG, isPediatricPatient, patientAgeYears, type ExtractorConfig } from './base-extractor';
+import { describeClinicalContext } from './clinical-context';
+import { satisfiesPIRValidation } from './pattern-matcher';
+import type { ClinicalContextAnnotation, ConversationTurn, ExtractionResult, PatientContext, TextSpan } from '../types/slots';
+
+type JSONSchema = Record<string, unknown>;
+
+/**
+ * Campo de um slot na resposta: valor (null = não dito), confiança do modelo e trecho que o sustenta
+ */
+interface BatchSlotField {
+  value: unknown;
+  confidence: number;
+  evidence: { turn_index: number; quote: string } | null;
+}
+
+/**
+ * Resultado da chamada única
+ */
+export interface BatchExtraction {
+  results: Record<string, ExtractionResult<any>>;
+  missing: string[]; // Sem campo utilizável na resposta: vão para a extração por slot
+}
+
+/**
+ * Validação específica do slot (a mesma do modo rizomático)
+ */
+export interface SlotValueValidator {
+  validate(value: any): boolean;
+}
+
+// Resposta cobre todos os slots: bem mais tokens que a de um slot só
+export const BATCH_CONFIG: ExtractorConfig = { ...DEFAULT_CONFIG, max_tokens: 2048 };
+
+// Valor sem trecho localizável na conversa: aceito, mas volta a ser extraído na próxima menção
+const UNSUPPORTED_EVIDENCE_MAX_CONFIDENCE = 0.6;
+
+const DURATION_UNITS = ['minutes', 'hours', 'days'];
+
+/**
+ * Itens de slots array: o PIR só declara "array"; formato dos extractors históricos
+ */
+const ARRAY_ITEM_STRUCTURE: Record<string, Record<string, PIRSlotDataType>> = {
+  previous_medical_history: { condition: 'string', since: 'string', controlled: 'boolean' },
+  medications_in_use: { name: 'string', dose: 'string', frequency: 'string', indication: 'string' },
+  allergy_history: { allergen: 'string', reaction: 'string', severity: 'string' },
+};
+
+const SYSTEM_PROMPT = `Você é um assistente médico especializado em triagem de emergência (Protocolo Manchester).
+Sua função é preencher, de uma vez, todos os campos clínicos pedidos a partir da conversa entre enfermeiro e paciente.
+
+IMPORTANTE:
+- Cada campo só pode ser preenchido com o que foi DITO na conversa; caso contrário, value = null
+- Negações contam: "não tem sangramento" → false; "nega alergias" → lista vazia
+- evidence.quote é o trecho LITERAL do turno (copiado, sem parafrasear) e evidence.turn_index o número do turno
+- confidence (0 a 1) mede o quanto a conversa sustenta o valor
+- Responda somente com o JSON do schema`;
+
+export class BatchSlotExtractor {
+  private ai: Ai;
+  private config: ExtractorConfig;
+  private registry: SlotRegistry;
+  private slots: Map<string, PIRSlot>;
+
+  constructor(
+    aiBinding: any,
+    document: PIRDocument,
+    private validators: Map<string, SlotValueValidator>,
+    config: Partial<ExtractorConfig> = {}
+  ) {
+    this.ai = new Ai(aiBinding);
+    this.config = { ...BATCH_CONFIG, ...config };
+    this.registry = SlotRegistry.forDocument(document);
+    this.slots = new Map(document.slots.map((slot) => [slot.slot_id, slot]));
+  }
+
+  /**
+   * Schema JSON da resposta para os slots pedidos (um campo obrigatório por slot)
+   */
+  buildResponseSchema(slotIds: string[]): JSONSchema {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        slotIds.map((slotId) => [
+          slotId,
+          {
+            type: 'object',
+            description: this.describeSlot(slotId),
+            properties: {
+              value: this.valueSchema(slotId),
+              confidence: { type: 'number', minimum: 0, maximum: 1 },
+              evidence: {
+                type: ['object', 'null'],
+                properties: { turn_index: { type: 'integer' }, quote: { type: 'string' } },
+                required: ['turn_index', 'quote'],
+              },
+            },
+            required: ['value', 'confidence', 'evidence'],
+          },
+        ])
+      ),
+      required: slotIds,
+      additionalProperties: false,
+    };
+  }
+
+  /**
+   * Extrai todos os slots numa chamada; falha da chamada deixa todos em `missing`
+   * clinicalContext: anotações da pré-análise (turn_index sobre a mesma conversa)
+   */
+  async extract(
+    slotIds: string[],
+    conversation: ConversationTurn[],
+    patientContext?: PatientContext,
+    ageYears: number | null = patientAgeYears(undefined, patientContext),
+    clinicalContext: ClinicalContextAnnotation[] = []
+  ): Promise<BatchExtraction> {
+    if (slotIds.length === 0) return { results: {}, missing: [] };
+
+    const schema = this.buildResponseSchema(slotIds);
+    const systemPrompt = isPediatricPatient(ageYears) ? `${SYSTEM_PROMPT}\n\n${CAREGIVER_SPEECH_GUIDANCE}` : SYSTEM_PROMPT;
+    let fields: Record<string, unknown>;
+    try {
+      fields = await this.callLLM(this.buildPrompt(slotIds, conversation, ageYears, clinicalContext), schema, systemPrompt);
+    } catch (error) {
+      console.error(`[BATCH] Extraction failed for ${slotIds.length} slots:`, error);
+      return { results: {}, missing: slotIds };
+    }
+
+    // Campo ausente ou sem `value` (resposta parcial): o modelo não respondeu pelo slot
+    const missing = slotIds.filter((slotId) => !isBatchField(fields[slotId]));
+    if (missing.length > 0) {
+      console.log(`[BATCH] Response has no field for ${missing.length} of ${slotIds.length} slots (${missing.join(', ')})`);
+    }
+
+    const answered = slotIds.filter((slotId) => !missing.includes(slotId));
+    return {
+      results: Object.fromEntries(answered.map((slotId) => [slotId, this.toResult(slotId, fields[slotId] as Partial<BatchSlotField>, conversation)])),
+      missing,
+    };
+  }
+
+  // ==========================================================================
+  // PROMPT E CHAMADA
+  // ==========================================================================
+
+  private buildPrompt(
+    slotIds: string[],
+    conversation: ConversationTurn[],
+    ageYears: number | null,
+    clinicalContext: ClinicalContextAnnotation[]
+  ): string {
+    const turns = conversation
+      .map((turn, index) => {
+        const speaker = turn.role === 'nurse' ? 'Enfermeiro(a)' : turn.role === 'patient' ? 'Paciente' : 'Sistema';
+        return `[${index}] ${speaker}: ${turn.content}`;
+      })
+      .join('\n');
+    const clinicalNotes = describeClinicalContext(clinicalContext, { numbered: true });
+
+    return `Preencha os campos clínicos abaixo a partir da conversa de triagem.
+
+CONVERSA (turnos numerados):
+${turns}
+${ageYears !== null ? `\nIDADE DO PACIENTE: ${ageYears} anos\n` : ''}${clinicalNotes ? `\n${clinicalNotes}\n` : ''}
+CAMPOS:
+${slotIds.map((slotId) => `- ${slotId}: ${this.describeSlot(slotId)}`).join('\n')}
+
+Retorne JSON com um objeto por campo:
+{
+  "<campo>": { "value": <valor ou null>, "confidence": <0-1>, "evidence": { "turn_index": <n>, "quote": "trecho literal" } | null }
+}`;
+  }
+
+  /**
+   * JSON mode do Workers AI (response_format); resposta já vem como objeto ou como texto JSON
+   */
+  private async callLLM(prompt: string, schema: JSONSchema, systemPrompt: string): Promise<Record<string, unknown>> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < this.config.max_retries; attempt++) {
+      try {
+        const response: any = await this.ai.run(this.config.model as any, {
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: prompt },
+          ],
+          response_format: { type: 'json_schema', json_schema: schema },
+          temperature: this.config.temperature,
+          max_tokens: this.config.max_tokens,
+        } as any);
+
+        const output = response?.response;
+        const parsed = typeof output === 'string' ? parseJSONObject(output) : output;
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed as Record<string, unknown>;
+        }
+
+        throw new Error('Invalid batch LLM response structure');
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error('Unknown LLM error');
+        console.error(`[BATCH] LLM call attempt ${attempt + 1} failed:`, lastError);
+
+        if (attempt < this.config.max_retries - 1) {
+          await new Promise((resolve) => setTimeout(resolve, Math.pow(2, attempt) * 1000));
+        }
+      }
+    }
+
+    throw lastError || new Error('Batch extraction failed after retries');
+  }
+
+  // ==========================================================================
+  // SCHEMA A PARTIR DO REGISTRO
+  // ==========================================================================
+
+  private describeSlot(slotId: string): string {
+    const definition = this.registry.get(slotId);
+    const slot = this.slots.get(slotId);
+    const parts = [definition?.display_name ?? slot?.name ?? slotId];
+
+    if (definition?.unit) parts.push(`unidade ${definition.unit}`);
+    if (slot?.validation?.min !== undefined && slot.validation.max !== undefined) {
+      parts.push(`de ${slot.validation.min} a ${slot.validation.max}`);
+    }
+    if (slot?.options?.length) parts.push(`um de: ${slot.options.join(', ')}`);
+    if (slot?.data_type === 'duration') parts.push('tempo desde o início ({ duration, unit })');
+    if (slot?.data_type === 'array') parts.push('lista vazia se o paciente negar');
+
+    return parts.join('; ');
+  }
+
+  private valueSchema(slotId: string): JSONSchema {
+    const slot = this.slots.get(slotId);
+    const dataType = slot?.data_type ?? this.registry.get(slotId)?.data_type ?? 'string';
+
+    if (dataType === 'array') {
+      const structure = ARRAY_ITEM_STRUCTURE[slotId];
+      return {
+        type: ['array', 'null'],
+        items: structure ? objectSchema(structure) : { type: 'string' },
+      };
+    }
+    if (dataType === 'object' && slot?.structure) {
+      return { ...objectSchema(slot.structure), type: ['object', 'null'] };
+    }
+    if (dataType === 'enum' && slot?.options?.length) {
+      return { enum: [...slot.options, null] };
+    }
+
+    const schema = nullable(typeSchema(dataType));
+    if (slot?.validation?.min !== undefined) schema.minimum = slot.validation.min;
+    if (slot?.validation?.max !== undefined) schema.maximum = slot.validation.max;
+    return schema;
+  }
+
+  // ==========================================================================
+  // RESPOSTA → EXTRACTION RESULTS
+  // ==========================================================================
+
+  private toResult(slotId: string, field: Partial<BatchSlotField>, conversation: ConversationTurn[]): ExtractionResult<any> {
+    if (field.value === null || field.value === undefined) {
+      return this.emptyResult(slotId, 'Not mentioned in conversation');
+    }
+
+    const slot = this.slots.get(slotId);
+    const value = coerceValue(field.value, slot?.data_type ?? 'string', slot, slotId);
+    const validator = this.validators.get(slotId);
+
+    if (value === null || (validator && !validator.validate(value)) || !satisfiesPIRValidation(value, slot?.validation)) {
+      console.log(`[BATCH] ${slotId}: ${JSON.stringify(field.value).substring(0, 100)} failed validation`);
+      return this.emptyResult(slotId, `Batch value ${JSON.stringify(field.value)} failed validation`);
+    }
+
+    const span = locateEvidence(field.evidence, conversation);
+    const modelConfidence = typeof field.confidence === 'number' ? Math.max(0, Math.min(1, field.confidence)) : 0.5;
+    const confidence = span ? modelConfidence : Math.min(modelConfidence, UNSUPPORTED_EVIDENCE_MAX_CONFIDENCE);
+
+    return {
+      slot_id: slotId,
+      slot_name: this.registry.displayName(slotId),
+      value,
+      confidence,
+      status: 'extracted',
+      extraction_method: 'conversation',
+      source: 'llm_extraction',
+      timestamp: new Date().toISOString(),
+      model_used: this.config.model,
+      raw_text: span ? conversation[span.turn_index].content : undefined,
+      span: span ?? undefined,
+      reasoning: span
+        ? `Batch extraction: "${span.text}" (turn ${span.turn_index})`
+        : `Batch extraction without locatable evidence${field.evidence?.quote ? ` ("${field.evidence.quote}")` : ''}`,
+    };
+  }
+
+  private emptyResult(slotId: string, reasoning: string): ExtractionResult<any> {
+    return {
+      slot_id: slotId,
+      slot_name: this.registry.displayName(slotId),
+      value: null,
+      confidence: 0.0,
+      status: 'pending',
+      extraction_method: 'conversation',
+      source: 'llm_extraction',
+      timestamp: new Date().toISOString(),
+      model_used: this.config.model,
+      reasoning,
+    };
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isBatchField(raw: unknown): raw is Partial<BatchSlotField> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw) && (raw as Partial<BatchSlotField>).value !== undefined;
+}
+
+function typeSchema(dataType: PIRSlotDataType): JSONSchema {
+  switch (dataType) {
+    case 'integer':
+      return { type: 'integer' };
+    case 'float':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'duration':
+      return {
+        type: 'object',
+        properties: { duration: { type: 'number' }, unit: { enum: DURATION_UNITS } },
+        required: ['duration', 'unit'],
+      };
+    default:
+      return { type: 'string' };
+  }
+}
+
+function nullable(schema: JSONSchema): JSONSchema {
+  return { ...schema, type: [schema.type, 'null'] };
+}
+
+function objectSchema(structure: Record<string, PIRSlotDataType>): JSONSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(structure).map(([field, dataType]) => [field, nullable(typeSchema(dataType))])),
+    required: Object.keys(structure),
+  };
+}
+
+/**
+ * Valor do modelo no tipo do slot (número arredondado, enum dentro das opções...); null = inválido
+ */
+function coerceValue(value: unknown, dataType: PIRSlotDataType, slot: PIRSlot | undefined, slotId: string): unknown {
+  switch (dataType) {
+    case 'string':
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+    case 'integer':
+      return typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : null;
+    case 'float':
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : null;
+    case 'enum':
+      return typeof value === 'string' && (!slot?.options || slot.options.includes(value)) ? value : null;
+    case 'duration': {
+      const duration = value as { duration?: unknown; unit?: unknown } | null;
+      return typeof duration?.duration === 'number' && DURATION_UNITS.includes(duration.unit as string)
+        ? { duration: duration.duration, unit: duration.unit }
+        : null;
+    }
+    case 'object':
+      return slot?.structure && value && typeof value === 'object' && !Array.isArray(value)
+        ? coerceObject(value as Record<string, unknown>, slot.structure)
+        : null;
+    case 'array': {
+      if (!Array.isArray(value)) return null;
+      const structure = ARRAY_ITEM_STRUCTURE[slotId];
+      if (!structure) return value.filter((item) => typeof item === 'string');
+
+      // Como nos extractors históricos: item sem o campo principal (condition, name, allergen) é descartado
+      const [key] = Object.keys(structure);
+      return value
+        .filter((item) => item && typeof item === 'object' && typeof item[key] === 'string')
+        .map((item) => coerceObject(item, structure));
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Campos do object no tipo declarado; campo nulo/inválido é omitido (validate() decide se faz falta)
+ */
+function coerceObject(value: Record<string, unknown>, structure: Record<string, PIRSlotDataType>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [field, dataType] of Object.entries(structure)) {
+    const coerced = value[field] === null || value[field] === undefined ? null : coerceValue(value[field], dataType, undefined, field);
+    if (coerced !== null) result[field] = coerced;
+  }
+  return result;
+}
+
+/**
+ * Trecho citado pelo modelo na conversa: turno indicado primeiro, depois do mais recente ao mais antigo
+ */
+function locateEvidence(evidence: BatchSlotField['evidence'] | undefined, conversation: ConversationTurn[]): TextSpan | null {
+  const quote = evidence?.quote?.trim();
+  if (!quote) return null;
+
+  const indexes = conversation.map((_, index) => conversation.length - 1 - index);
+  if (typeof evidence?.turn_index === 'number' && conversation[evidence.turn_index]) {
+    indexes.unshift(evidence.turn_index);
+  }
+
+  for (const turnIndex of indexes) {
+    const content = conversation[turnIndex].content;
+    const start = content.toLowerCase().indexOf(quote.toLowerCase());
+    if (start >= 0) {
+      return { turn_index: turnIndex, start, end: start + quote.length, text: content.slice(start, start + quote.length) };
+    }
+  }
+
+  return null;
+}
+
+function parseJSONObject(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const objectMatch = text.match(/\{[\s\S]*\}/);
+    if (!objectMatch) return null;
+    try {
+      return JSON.parse(objectMatch[0]);
+    } catch {
+      return null;
+    }
+  }
+}
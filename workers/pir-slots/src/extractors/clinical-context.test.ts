@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest';
+import type { PIRSlot } from '@voither/pir-schema';
+import type { ClinicalContextAnnotation, ConversationTurn, TextSpan } from '../types/slots';
+import {
+  annotateConversation,
+  assertsFinding,
+  contextOf,
+  describeClinicalContext,
+  foldText,
+  isCaregiverSpeaking,
+  isGroundingSpan,
+  isInQuestion,
+  judgeGrounding,
+} from './clinical-context';
+
+const nurse = (content: string): ConversationTurn => ({ role: 'nurse', content });
+const patient = (content: string): ConversationTurn => ({ role: 'patient', content });
+
+const slot = (slot_id: string, data_type: PIRSlot['data_type']) => ({ slot_id, data_type }) as PIRSlot;
+
+/**
+ * Trecho de `text` dentro do turno
+ */
+function spanOf(turns: ConversationTurn[], turnIndex: number, text: string): TextSpan {
+  const start = turns[turnIndex].content.indexOf(text);
+  if (start < 0) throw new Error(`"${text}" not in turn ${turnIndex}`);
+  return { turn_index: turnIndex, start, end: start + text.length, text };
+}
+
+function categoriesAt(turns: ConversationTurn[], turnIndex: number, text: string, annotations = annotateConversation(turns)) {
+  return contextOf(annotations, spanOf(turns, turnIndex, text)).sort();
+}
+
+describe('foldText', () => {
+  it('keeps offsets while dropping accents and case', () => {
+    const text = 'Não SEI, é coração';
+    expect(foldText(text)).toHaveLength(text.length);
+    expect(foldText(text)).toBe('nao sei, e coracao');
+  });
+});
+
+describe('negation', () => {
+  it('negates the rest of the clause', () => {
+    const turns = [patient('Não tenho dor no peito, mas estou com tosse há 3 dias.')];
+    expect(categoriesAt(turns, 0, 'peito')).toEqual(['negated']);
+    expect(categoriesAt(turns, 0, 'tosse')).toEqual([]);
+  });
+
+  it('treats "sem" as a negation trigger', () => {
+    const turns = [patient('Hoje a febre é 38.5 e sem sangramento.')];
+    expect(categoriesAt(turns, 0, 'sangramento')).toEqual(['negated']);
+    expect(categoriesAt(turns, 0, 'febre')).toEqual([]);
+  });
+
+  it('ignores pseudo-triggers that affirm the finding', () => {
+    const turns = [patient('A dor não passa e não consigo respirar direito. Tossindo sem parar.')];
+    expect(annotateConversation(turns)).toEqual([]);
+  });
+
+  it('does not scope an isolated "não,"', () => {
+    const turns = [nurse('Tem alergia?'), patient('Não, tenho só tosse.')];
+    expect(categoriesAt(turns, 1, 'tosse')).toEqual([]);
+    expect(categoriesAt(turns, 0, 'alergia')).toEqual(['negated']);
+  });
+});
+
+describe('short answers', () => {
+  it('negates the nurse question', () => {
+    const turns = [nurse('Tem algum sangramento?'), patient('Não.')];
+    expect(categoriesAt(turns, 0, 'sangramento')).toEqual(['negated']);
+  });
+
+  it('marks "acho que não" as negated and uncertain', () => {
+    const turns = [nurse('Tem algum sangramento?'), patient('Acho que não.')];
+    expect(categoriesAt(turns, 0, 'sangramento')).toEqual(['negated', 'uncertain']);
+  });
+
+  it('marks "acho que sim" as uncertain only', () => {
+    const turns = [nurse('Tem sangramento?'), patient('Acho que sim, um pouco.')];
+    expect(categoriesAt(turns, 0, 'sangramento')).toEqual(['uncertain']);
+  });
+});
+
+describe('experiencer', () => {
+  it('attributes family history to the relative', () => {
+    const turns = [patient('Minha mãe teve AVC ano passado e meu pai é diabético.')];
+    expect(categoriesAt(turns, 0, 'AVC')).toEqual(['historical', 'other_experiencer']);
+    expect(categoriesAt(turns, 0, 'diabético')).toEqual(['other_experiencer']);
+  });
+
+  it.each(['está', 'tem', 'tinha', 'sente', 'ficou'])('reads "minha mãe %s ..." as the companion describing the patient', (verb) => {
+    const turns = [patient(`Minha mãe ${verb} dor no peito desde cedo.`)];
+    expect(categoriesAt(turns, 0, 'peito')).toEqual([]);
+  });
+
+  it.each(['Minha mãe tem 80 anos.', 'Meu pai pesa 90 quilos.', 'Minha avó fez 92 anos ontem.'])('keeps "%s" with the relative', (text) => {
+    const turns = [patient(text)];
+    expect(annotateConversation(turns)).toEqual([expect.objectContaining({ category: 'other_experiencer' })]);
+  });
+});
+
+describe('caregiver speech', () => {
+  it('detects a caregiver speaking', () => {
+    expect(isCaregiverSpeaking([patient('Meu filho tem 3 meses.')])).toBe(true);
+    expect(isCaregiverSpeaking([patient('Sou a mãe dele.')])).toBe(true);
+    expect(isCaregiverSpeaking([patient('Trouxe minha filha porque ela não come.')])).toBe(true);
+    expect(isCaregiverSpeaking([patient('Minha mãe teve AVC.')])).toBe(false);
+    expect(isCaregiverSpeaking([nurse('Seu filho tem quantos anos?')])).toBe(false);
+  });
+
+  it('treats "meu filho" as the patient without a known age', () => {
+    const turns = [patient('Meu filho tem 3 meses.'), nurse('E o que aconteceu?'), patient('Meu filho teve febre a noite toda.')];
+    expect(categoriesAt(turns, 2, 'febre')).toEqual([]);
+  });
+
+  it('treats "meu filho" as another person for an adult patient', () => {
+    const turns = [patient('Estou com tosse, meu filho teve catapora semana passada.')];
+    expect(categoriesAt(turns, 0, 'catapora')).toEqual(['other_experiencer']);
+  });
+
+  it('follows the pediatric option when given', () => {
+    const turns = [patient('Estou com tosse, meu filho teve catapora semana passada.')];
+    expect(categoriesAt(turns, 0, 'catapora', annotateConversation(turns, { pediatric: true }))).toEqual([]);
+  });
+});
+
+describe('temporality', () => {
+  it('marks past episodes as historical', () => {
+    const turns = [patient('Já tive infarto há 5 anos.')];
+    expect(categoriesAt(turns, 0, 'infarto')).toEqual(['historical']);
+  });
+});
+
+describe('questions', () => {
+  const turns = [nurse('Tem algum sangramento?'), patient('Estou com dor de cabeça.'), nurse('Tem febre?'), patient('Sim.')];
+
+  it('finds spans inside questions', () => {
+    expect(isInQuestion(turns, spanOf(turns, 0, 'sangramento'))).toBe(true);
+    expect(isInQuestion(turns, spanOf(turns, 1, 'cabeça'))).toBe(false);
+  });
+
+  it('grounds values only on questions with a short answer', () => {
+    expect(isGroundingSpan(turns, spanOf(turns, 0, 'sangramento'))).toBe(false);
+    expect(isGroundingSpan(turns, spanOf(turns, 2, 'febre'))).toBe(true);
+    expect(isGroundingSpan(turns, spanOf(turns, 1, 'cabeça'))).toBe(true);
+  });
+});
+
+describe('assertsFinding', () => {
+  it('separates findings from other values', () => {
+    expect(assertsFinding(true)).toBe(true);
+    expect(assertsFinding(false)).toBe(false);
+    expect(assertsFinding('dor torácica')).toBe(true);
+    expect(assertsFinding([])).toBe(false);
+    expect(assertsFinding({ precordial: false, pleuritic: true })).toBe(true);
+    expect(assertsFinding({ precordial: false })).toBe(false);
+    expect(assertsFinding('alert', slot('consciousness_level', 'enum'))).toBe(false);
+  });
+});
+
+describe('judgeGrounding', () => {
+  const chest = [patient('Não tenho dor no peito, só tosse.')];
+
+  it('rejects a finding grounded only in a negated span', () => {
+    const verdict = judgeGrounding({ precordial: true }, slot('chest_pain_characteristics', 'object'), [spanOf(chest, 0, 'peito')], annotateConversation(chest));
+    expect(verdict.rejected).toBe(true);
+    expect(verdict.reason).toContain('negated');
+  });
+
+  it('keeps a negative value grounded in a negated span', () => {
+    const bleeding = [patient('Não tenho sangramento.')];
+    const verdict = judgeGrounding(false, slot('bleeding_present', 'boolean'), [spanOf(bleeding, 0, 'sangramento')], annotateConversation(bleeding));
+    expect(verdict.rejected).toBe(false);
+  });
+
+  it('keeps a finding with at least one affirmed span', () => {
+    const turns = [patient('Não tenho febre. Sinto um aperto no peito.')];
+    const spans = [spanOf(turns, 0, 'febre'), spanOf(turns, 0, 'peito')];
+    expect(judgeGrounding(true, slot('temperature', 'boolean'), spans, annotateConversation(turns)).rejected).toBe(false);
+  });
+
+  it('rejects any value grounded only in another person', () => {
+    const turns = [patient('Minha mãe teve AVC.')];
+    const verdict = judgeGrounding({ speech: true }, slot('neurological_deficit', 'object'), [spanOf(turns, 0, 'AVC')], annotateConversation(turns));
+    expect(verdict.rejected).toBe(true);
+    expect(verdict.reason).toContain('other-person');
+  });
+
+  it('keeps demographic values stated about "meu filho"', () => {
+    const turns = [patient('Estou com tosse, meu filho teve 3 quilos ao nascer.')];
+    const annotations = annotateConversation(turns);
+    const span = spanOf(turns, 0, '3 quilos');
+    expect(contextOf(annotations, span)).toContain('other_experiencer');
+    expect(judgeGrounding(3, slot('weight', 'float'), [span], annotations).rejected).toBe(false);
+  });
+
+  it('rejects demographic values of other relatives', () => {
+    const turns = [patient('Minha mãe tem 80 anos e eu estou com falta de ar.')];
+    const verdict = judgeGrounding(80, slot('age', 'integer'), [spanOf(turns, 0, 'tem 80 anos')], annotateConversation(turns));
+    expect(verdict.rejected).toBe(true);
+    expect(verdict.reason).toContain('other-person');
+  });
+
+  it('flags a finding grounded only in uncertain spans', () => {
+    const turns = [patient('Acho que tive febre.')];
+    const verdict = judgeGrounding(true, slot('fever', 'boolean'), [spanOf(turns, 0, 'febre')], annotateConversation(turns));
+    expect(verdict).toMatchObject({ rejected: false, uncertain: true });
+  });
+
+  it('has nothing to judge without spans or annotations', () => {
+    expect(judgeGrounding(true, undefined, [], []).rejected).toBe(false);
+  });
+});
+
+describe('describeClinicalContext', () => {
+  it('is empty without annotations', () => {
+    expect(describeClinicalContext([])).toBe('');
+  });
+
+  it('lists annotations with labels and optional turn numbers', () => {
+    const turns = [nurse('Tem sangramento?'), patient('Não.')];
+    const prompt = describeClinicalContext(annotateConversation(turns), { numbered: true });
+    expect(prompt).toContain('CONTEXTO CLÍNICO');
+    expect(prompt).toContain('- [0] NEGADO: "Tem sangramento?" (gatilho "Não")');
+  });
+
+  it('keeps the most recent annotations only', () => {
+    const annotations: ClinicalContextAnnotation[] = Array.from({ length: 20 }, (_, index) => ({
+      turn_index: index,
+      start: 0,
+      end: 5,
+      text: `t${index}`,
+      category: 'negated',
+      trigger: 'não',
+    }));
+    const prompt = describeClinicalContext(annotations);
+    expect(prompt).not.toContain('"t7"');
+    expect(prompt).toContain('"t8"');
+    expect(prompt).toContain('"t19"');
+  });
+});
@@ -0,0 +1,436 @@
+/**
+ * PIR Clinical Context - Negação, incerteza, experienciador e temporalidade
+ *
+ * Pré-análise determinística da conversa antes da extração, no estilo NegEx/ConText
+ * para português: um gatilho ("não", "acho que", "minha mãe", "já tive") abre um
+ * escopo que vai até o fim da oração (pontuação, "mas", "porém") ou no máximo
+ * SCOPE_MAX_WORDS palavras. Pseudo-gatilhos ("não passa", "não consigo respirar",
+ * "sem parar") afirmam o achado e não abrem escopo.
+ *
+ * Resposta curta do paciente ("não", "acho que não") vale para a pergunta do
+ * enfermeiro que ela responde. Os escopos vão para os prompts dos extractors e
+ * servem para rejeitar valores ancorados só em trechos negados ou de outra pessoa.
+ * Quando quem fala é o cuidador ("meu filho tem 3 meses", "sou a mãe dele"),
+ * "meu filho"/"minha filha" é o próprio paciente, qualquer que seja a idade no slot.
+ *
+ * Offsets sobre o conteúdo do turno; a comparação é sem acento e sem caixa.
+ */
+
+import type { PIRSlot } from '@voither/pir-schema';
+import { isQuestionAt } from './pattern-matcher';
+import type { ClinicalContextAnnotation, ClinicalContextCategory, ConversationTurn, TextSpan } from '../types/slots';
+
+/**
+ * Tamanho máximo do escopo de um gatilho (palavras)
+ */
+export const SCOPE_MAX_WORDS = 8;
+
+/**
+ * Valor ancorado só em trechos incertos ("acho que sangrou") não passa desta confiança
+ */
+export const UNCERTAIN_MAX_CONFIDENCE = 0.6;
+
+// Anotações mais recentes que entram no prompt (conversas longas)
+const MAX_PROMPT_ANNOTATIONS = 12;
+
+interface ContextTrigger {
+  category: ClinicalContextCategory;
+  direction: 'forward' | 'backward';
+  pattern: RegExp; // Sobre o texto sem acento e minúsculo
+  caregiver?: boolean; // Filho(a)/bebê de quem fala: com cuidador falando é o próprio paciente
+}
+
+const FAMILY = 'mae|pai|pais|irma|irmao|irmaos|avo|avos|tia|tio|prima|primo|esposa|marido|mulher|sogra|sogro|vizinha|vizinho';
+
+const TRIGGERS: ContextTrigger[] = [
+  // Negação
+  {
+    category: 'negated',
+    direction: 'forward',
+    pattern: /\b(?:nao|nunca|jamais|nem|sem|nenhum|nenhuma|nego|nega|negou|negam|ausencia de|livre de)\b/g,
+  },
+  { category: 'negated', direction: 'backward', pattern: /\b(?:ausentes?|descartad[oa]s?|negativ[oa]s?)\b/g },
+
+  // Incerteza
+  {
+    category: 'uncertain',
+    direction: 'forward',
+    pattern: /\b(?:(?:eu )?acho que|acredito que|parece que|talvez|pode ser|possivelmente|provavelmente|suspeita de|nao sei se|nao tenho certeza (?:se|de))\b/g,
+  },
+  { category: 'uncertain', direction: 'backward', pattern: /\b(?:eu acho|acho eu|nao sei|sei la)\b(?=\s*(?:[,.;!?]|$))/g },
+
+  // Experienciador: familiares e terceiros
+  {
+    category: 'other_experiencer',
+    direction: 'forward',
+    pattern: new RegExp(`\\b(?:(?:minha|meu|meus|minhas) (?:${FAMILY})|na familia|familiares?|parentes?|historico familiar|historia familiar)\\b`, 'g'),
+  },
+  {
+    category: 'other_experiencer',
+    direction: 'forward',
+    pattern: /\b(?:meu filho|minha filha|meus filhos|meu bebe|minha bebe|meu neto|minha neta)\b/g,
+    caregiver: true,
+  },
+
+  // Temporalidade: episódio anterior, não o atual
+  {
+    category: 'historical',
+    direction: 'forward',
+    pattern: /\b(?:ja tive|ja teve|ja tinha|no passado|antigamente|quando (?:eu )?era (?:crianca|pequen[oa]|jovem|nov[oa]))\b/g,
+  },
+  {
+    category: 'historical',
+    direction: 'backward',
+    pattern: /\b(?:(?:ha|faz) (?:\d+|uns|umas|muitos|alguns) anos|anos atras|ano passado|(?:ha|faz) muito tempo)\b/g,
+  },
+];
+
+/**
+ * Pseudo-gatilhos de negação: a frase afirma o achado ("a dor não passa", "não consigo respirar")
+ */
+const NEGATION_PSEUDO_TRIGGERS =
+  /^(?:nao (?:so|apenas|somente|para|parou|passa|passou|melhora|melhorou|cede|cedeu|aguento|aguenta|consigo|consegue|conseguia|responde|acorda|reage|fala|mexe|sente|sei|tenho certeza)\b|sem (?:parar|melhora|melhorar|passar|duvida)\b|nem sempre\b)/;
+
+/**
+ * Familiar seguido de estado atual ("minha mãe está com dor"): acompanhante falando do paciente
+ */
+const EXPERIENCER_PRESENT_STATE =
+  /^\S+ \S+ (?:tem|tinha|esta|ta|estava|ficou|sente|sentia|sentiu|comecou|caiu|desmaiou|bateu|acordou)\b/;
+
+/**
+ * Familiar seguido de idade ou medida ("minha mãe tem 80 anos", "meu pai pesa 90 quilos"): dado do familiar, não estado atual
+ */
+const EXPERIENCER_ATTRIBUTE = /^\S+ \S+ (?:tem|tinha|fez|completou|pesa|pesava|mede|media) (?:uns |umas |quase |mais de )?\d/;
+
+/**
+ * Fala de cuidador sobre o paciente ("meu filho tem 3 meses", "trouxe minha filha", "sou a mãe dele")
+ */
+const CAREGIVER_SPEAKER = new RegExp(
+  [
+    '\\b(?:meu|minha) (?:filho|filha|bebe|neto|neta|enteado|enteada)(?: \\S+)? (?:tem|tinha|esta|ta|estava|ficou|fez|completou|nasceu|comecou)\\b',
+    '\\b(?:trouxe|trago|vim com|estou com|to com) (?:o |a )?(?:meu|minha) (?:filho|filha|bebe|neto|neta|enteado|enteada)\\b',
+    '\\bsou (?:a |o )?(?:mae|pai|avo|responsavel|cuidador|cuidadora)\\b',
+  ].join('|')
+);
+
+// Fim de oração: pontuação e conjunções adversativas
+const CLAUSE_TERMINATORS = /(?<!\d)\.|\.(?!\d)|[;!?\n]|\b(?:mas|porem|entretanto|contudo|todavia|so que|exceto|embora)\b/g;
+
+// Resposta curta a uma pergunta do enfermeiro, no início do turno do paciente
+const NEGATIVE_ANSWER =
+  /^\s*((?:(?:eu )?(?:acho|creio|acredito) que )?(?:nao|nunca|nenhum|nenhuma|nada|negativo)(?: (?:tenho|tive|sinto|senti|estou|to|uso|tomo))?(?:[ ,]+(?:senhor|senhora|doutor|doutora|moco|moca|nao))*)\s*(?:[,.!]|$)/;
+const UNCERTAIN_ANSWER = /^\s*((?:eu )?acho que sim|talvez|nao sei|sei la|pode ser|mais ou menos)\s*(?:[,.!]|$)/;
+const AFFIRMATIVE_ANSWER = /^\s*(?:sim|isso|aham|uhum|claro|com certeza)\b|^\s*(?:tenho|tive|tem|teve|estou|to|ta|esta|sinto|senti)\s*(?:[,.!]|$)/;
+
+/**
+ * Slots do próprio paciente mesmo na boca do cuidador ("meu filho pesa 12 quilos"): "meu filho" não os filtra;
+ * outros terceiros ("minha mãe tem 80 anos") filtram como em qualquer slot
+ */
+const DEMOGRAPHIC_SLOTS = new Set(['age', 'sex', 'weight', 'height']);
+
+export interface ClinicalContextOptions {
+  pediatric?: boolean; // Idade pediátrica conhecida: "meu filho" é o paciente
+  caregiver?: boolean; // Cuidador falando (detectado na conversa quando omitido)
+}
+
+/**
+ * Texto sem acento e minúsculo com os mesmos offsets do original
+ */
+export function foldText(text: string): string {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    const base = text[i].normalize('NFD')[0];
+    folded += /[\u0300-\u036f]/.test(base) ? ' ' : base.toLowerCase()[0];
+  }
+  return folded;
+}
+
+function clauseBounds(folded: string, position: number): { start: number; end: number } {
+  let start = 0;
+  let end = folded.length;
+
+  for (const match of folded.matchAll(CLAUSE_TERMINATORS)) {
+    const matchEnd = match.index! + match[0].length;
+    if (matchEnd <= position) start = matchEnd;
+    else if (match.index! >= position) {
+      end = match.index!;
+      break;
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Escopo do gatilho dentro da oração (null = gatilho isolado, sem conteúdo)
+ */
+function triggerScope(
+  folded: string,
+  trigger: RegExpMatchArray,
+  direction: ContextTrigger['direction'],
+  next?: RegExpMatchArray
+): { start: number; end: number } | null {
+  const triggerStart = trigger.index!;
+  const triggerEnd = triggerStart + trigger[0].length;
+  const clause = clauseBounds(folded, triggerStart);
+  // "minha mãe teve AVC e meu pai é diabético": o próximo gatilho da mesma regra abre outro escopo
+  if (direction === 'forward' && next && next.index! < clause.end) clause.end = next.index!;
+
+  if (direction === 'forward') {
+    // "não, tenho dor": o gatilho responde à pergunta anterior, não nega o que vem depois
+    if (/^\s*,/.test(folded.slice(triggerEnd, clause.end))) return null;
+
+    const words = Array.from(folded.slice(triggerEnd, clause.end).matchAll(/[^\s,]+/g)).slice(0, SCOPE_MAX_WORDS);
+    if (!words.length) return null;
+
+    const last = words[words.length - 1];
+    return { start: triggerEnd + words[0].index!, end: triggerEnd + last.index! + last[0].length };
+  }
+
+  const words = Array.from(folded.slice(clause.start, triggerStart).matchAll(/[^\s,]+/g)).slice(-SCOPE_MAX_WORDS);
+  if (!words.length) return null;
+
+  const last = words[words.length - 1];
+  return { start: clause.start + words[0].index!, end: clause.start + last.index! + last[0].length };
+}
+
+function isPseudoTrigger(folded: string, trigger: RegExpMatchArray, category: ClinicalContextCategory): boolean {
+  const rest = folded.slice(trigger.index!);
+  if (category === 'negated') return NEGATION_PSEUDO_TRIGGERS.test(rest);
+  if (category === 'other_experiencer') return EXPERIENCER_PRESENT_STATE.test(rest) && !EXPERIENCER_ATTRIBUTE.test(rest);
+  return false;
+}
+
+/**
+ * Escopos dos gatilhos de um turno
+ */
+function annotateTurn(turn: ConversationTurn, turnIndex: number, options: ClinicalContextOptions): ClinicalContextAnnotation[] {
+  const folded = foldText(turn.content);
+  const annotations: ClinicalContextAnnotation[] = [];
+
+  for (const trigger of TRIGGERS) {
+    if (trigger.caregiver && (options.pediatric || options.caregiver)) continue;
+
+    const matches = Array.from(folded.matchAll(trigger.pattern));
+
+    matches.forEach((match, i) => {
+      if (isPseudoTrigger(folded, match, trigger.category)) return;
+
+      const scope = triggerScope(folded, match, trigger.direction, matches[i + 1]);
+      if (!scope) return;
+
+      annotations.push({
+        turn_index: turnIndex,
+        start: scope.start,
+        end: scope.end,
+        text: turn.content.slice(scope.start, scope.end),
+        category: trigger.category,
+        trigger: turn.content.slice(match.index!, match.index! + match[0].length),
+        ...(trigger.caregiver ? { caregiver: true } : {}),
+      });
+    });
+  }
+
+  return annotations;
+}
+
+/**
+ * Última pergunta do turno do enfermeiro (ou o turno inteiro)
+ */
+function questionSpan(content: string): { start: number; end: number } {
+  const end = content.lastIndexOf('?');
+  if (end < 0) return { start: 0, end: content.length };
+
+  const before = content.slice(0, end);
+  const sentenceStart = Math.max(before.lastIndexOf('.'), before.lastIndexOf('!'), before.lastIndexOf('?'), before.lastIndexOf('\n')) + 1;
+  const leadingSpaces = content.slice(sentenceStart, end).search(/\S/);
+  return { start: sentenceStart + Math.max(0, leadingSpaces), end: end + 1 };
+}
+
+/**
+ * "Tem sangramento?" → "Não": a negação (e a incerteza de "acho que não") vai para a pergunta
+ */
+function annotateAnswer(question: ConversationTurn, questionIndex: number, answer: ConversationTurn): ClinicalContextAnnotation[] {
+  const folded = foldText(answer.content);
+  const negative = folded.match(NEGATIVE_ANSWER);
+  const uncertain = negative ? null : folded.match(UNCERTAIN_ANSWER);
+  const matched = negative ?? uncertain;
+  if (!matched) return [];
+
+  const answerStart = matched.index! + matched[0].indexOf(matched[1]);
+  const trigger = answer.content.slice(answerStart, answerStart + matched[1].length);
+  const span = questionSpan(question.content);
+  const scope = { turn_index: questionIndex, start: span.start, end: span.end, text: question.content.slice(span.start, span.end), trigger };
+
+  const categories: ClinicalContextCategory[] = negative
+    ? /\b(?:acho|creio|acredito)\b/.test(matched[1])
+      ? ['negated', 'uncertain']
+      : ['negated']
+    : ['uncertain'];
+
+  return categories.map((category) => ({ ...scope, category }));
+}
+
+/**
+ * Anota a conversa inteira (turnos de sistema ficam de fora); turn_index = índice em `turns`
+ */
+export function annotateConversation(turns: ConversationTurn[], options: ClinicalContextOptions = {}): ClinicalContextAnnotation[] {
+  const annotations: ClinicalContextAnnotation[] = [];
+  // A idade não decide sozinha: "meu filho tem 3 meses" é o que preenche o slot age
+  const turnOptions = { ...options, caregiver: options.caregiver ?? isCaregiverSpeaking(turns) };
+  let lastSpoken: { turn: ConversationTurn; index: number } | null = null;
+
+  turns.forEach((turn, index) => {
+    if (turn.role === 'system') return;
+
+    annotations.push(...annotateTurn(turn, index, turnOptions));
+    if (turn.role === 'patient' && lastSpoken?.turn.role === 'nurse') {
+      annotations.push(...annotateAnswer(lastSpoken.turn, lastSpoken.index, turn));
+    }
+
+    lastSpoken = { turn, index };
+  });
+
+  return annotations;
+}
+
+/**
+ * Quem fala pelo paciente é o cuidador?
+ */
+export function isCaregiverSpeaking(turns: ConversationTurn[]): boolean {
+  return turns.some((turn) => turn.role === 'patient' && CAREGIVER_SPEAKER.test(foldText(turn.content)));
+}
+
+/**
+ * Categorias de contexto que cobrem o trecho
+ */
+export function contextOf(annotations: ClinicalContextAnnotation[], span: Pick<TextSpan, 'turn_index' | 'start' | 'end'>): ClinicalContextCategory[] {
+  return Array.from(new Set(covering(annotations, span).map((annotation) => annotation.category)));
+}
+
+function covering(annotations: ClinicalContextAnnotation[], span: Pick<TextSpan, 'turn_index' | 'start' | 'end'>): ClinicalContextAnnotation[] {
+  return annotations.filter((annotation) => annotation.turn_index === span.turn_index && annotation.start < span.end && span.start < annotation.end);
+}
+
+/**
+ * Trecho dentro de uma pergunta ("Tem sangramento?") não ancora valor por si só
+ */
+export function isInQuestion(turns: ConversationTurn[], span: Pick<TextSpan, 'turn_index' | 'end'>): boolean {
+  const turn = turns[span.turn_index];
+  return turn ? isQuestionAt(turn.content, span.end) : false;
+}
+
+/**
+ * Trecho que pode ancorar valor: fora de pergunta, ou pergunta do enfermeiro que o paciente
+ * respondeu com resposta curta ("Tem sangramento?" → "Sim" / "Não" / "Acho que não")
+ */
+export function isGroundingSpan(turns: ConversationTurn[], span: Pick<TextSpan, 'turn_index' | 'end'>): boolean {
+  if (!isInQuestion(turns, span)) return true;
+  if (turns[span.turn_index]?.role !== 'nurse') return false;
+
+  const answer = turns.slice(span.turn_index + 1).find((turn) => turn.role !== 'system');
+  if (answer?.role !== 'patient') return false;
+
+  const folded = foldText(answer.content);
+  return [AFFIRMATIVE_ANSWER, NEGATIVE_ANSWER, UNCERTAIN_ANSWER].some((pattern) => pattern.test(folded));
+}
+
+// ============================================================================
+// ANCORAGEM DE VALORES
+// ============================================================================
+
+// Valores que não afirmam presença de achado: negação não os invalida ("não está confuso" → alert)
+const NON_FINDING_DATA_TYPES = new Set<PIRSlot['data_type']>(['enum', 'integer', 'float', 'duration']);
+
+/**
+ * O valor afirma um achado (true, texto, lista não vazia, objeto com algum critério true)?
+ */
+export function assertsFinding(value: unknown, slot?: PIRSlot): boolean {
+  if (value === null || value === undefined) return false;
+  if (slot && NON_FINDING_DATA_TYPES.has(slot.data_type)) return false;
+
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'object') {
+    const flags = Object.values(value as Record<string, unknown>).filter((field) => typeof field === 'boolean');
+    return flags.length ? flags.some(Boolean) : Object.keys(value as Record<string, unknown>).length > 0;
+  }
+  return false;
+}
+
+export interface GroundingVerdict {
+  rejected: boolean; // Todas as âncoras negadas (para achados) ou de outra pessoa
+  uncertain: boolean; // Todas as âncoras em trecho incerto
+  categories: ClinicalContextCategory[]; // Contexto encontrado nas âncoras
+  reason?: string;
+}
+
+/**
+ * Julga o valor pelos trechos em que se apoia (sem âncora: nada a julgar)
+ */
+export function judgeGrounding(
+  value: unknown,
+  slot: PIRSlot | undefined,
+  spans: TextSpan[],
+  annotations: ClinicalContextAnnotation[]
+): GroundingVerdict {
+  if (!spans.length || !annotations.length) return { rejected: false, uncertain: false, categories: [] };
+
+  const finding = assertsFinding(value, slot);
+  const contexts = spans.map((span) => contextOf(annotations, span));
+  const categories = Array.from(new Set(contexts.flat()));
+
+  const demographic = slot !== undefined && DEMOGRAPHIC_SLOTS.has(slot.slot_id);
+  const otherPerson = spans.map((span) =>
+    covering(annotations, span).some((annotation) => annotation.category === 'other_experiencer' && !(demographic && annotation.caregiver))
+  );
+  const rejected = contexts.every((context, i) => otherPerson[i] || (finding && context.includes('negated')));
+
+  if (!rejected) {
+    return { rejected, uncertain: contexts.every((context) => context.includes('uncertain')), categories };
+  }
+
+  const kinds = [
+    ...(finding && categories.includes('negated') ? ['negated'] : []),
+    ...(otherPerson.some(Boolean) ? ['other-person'] : []),
+  ];
+  return {
+    rejected,
+    uncertain: false,
+    categories,
+    reason: `${JSON.stringify(value)} grounded only in ${kinds.join('/')} span(s): ${spans.map((span) => `"${span.text}"`).join(', ')}`,
+  };
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+const CATEGORY_LABELS: Record<ClinicalContextCategory, string> = {
+  negated: 'NEGADO',
+  uncertain: 'INCERTO',
+  other_experiencer: 'OUTRA PESSOA',
+  historical: 'PASSADO',
+};
+
+/**
+ * Seção de contexto clínico para o prompt ('' sem anotações)
+ * numbered: cita o turno ([3]) quando a conversa do prompt é numerada (modo batch)
+ */
+export function describeClinicalContext(annotations: ClinicalContextAnnotation[] = [], options: { numbered?: boolean } = {}): string {
+  if (!annotations.length) return '';
+
+  const lines = annotations
+    .slice()
+    .sort((left, right) => left.turn_index - right.turn_index || left.start - right.start)
+    .slice(-MAX_PROMPT_ANNOTATIONS)
+    .map(
+      (annotation) =>
+        `- ${options.numbered ? `[${annotation.turn_index}] ` : ''}${CATEGORY_LABELS[annotation.category]}: "${annotation.text}" (gatilho "${annotation.trigger}")`
+    );
+
+  return `CONTEXTO CLÍNICO (pré-análise automática dos trechos):
+${lines.join('\n')}
+Não registre como achado atual do paciente o que estiver NEGADO ou for de OUTRA PESSOA; INCERTO vale com confiança menor; PASSADO é histórico, não o episódio atual.`;
+}
@@ -7,6 +7,7 @@
  */
 
 import { ConversationalExtractor, DeviceExtractor, ComputedExtractor } from './base-extractor';
+import { isNegated, type PatternMatch } from './pattern-matcher';
 import type { PatientContext, SlotFillRequest, ConversationTurn, ConsciousnessLevel, BleedingSeverity, TraumaMechanism } from '../types/slots';
 
 // ============================================================================
@@ -47,6 +48,11 @@ Retorne JSON no formato:
     return parsed.chief_complaint;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): string | null {
+    const complaint = match[1]?.trim();
+    return complaint ? complaint : null;
+  }
+
   validate(value: string | null): boolean {
     return value !== null && value.length >= 3 && value.length <= 500;
   }
@@ -103,6 +109,11 @@ Retorne JSON:
     return null;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): number | null {
+    const score = Number(match[1]);
+    return Number.isInteger(score) ? score : null;
+  }
+
   validate(value: number | null): boolean {
     return value === null || (value >= 0 && value <= 10);
   }
@@ -161,6 +172,18 @@ Retorne JSON:
     return null;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): ConsciousnessLevel | null {
+    const term = match[1]?.toLowerCase() ?? '';
+
+    // "semiconsciente" é ambíguo (confuso? responde à voz?) → LLM decide
+    if (term.startsWith('alerta') || term === 'consciente') return 'alert';
+    if (term.startsWith('confuso')) return 'confused';
+    if (/voz$/.test(term)) return 'responds_voice';
+    if (/dor$/.test(term)) return 'responds_pain';
+    if (term === 'irresponsivo' || term === 'inconsciente') return 'unresponsive';
+    return null;
+  }
+
   validate(value: ConsciousnessLevel | null): boolean {
     const validLevels: ConsciousnessLevel[] = ['alert', 'confused', 'responds_voice', 'responds_pain', 'unresponsive'];
     return value === null || validLevels.includes(value);
@@ -206,6 +229,10 @@ Retorne JSON:
     return parsed.bleeding_present === true;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): boolean {
+    return !isNegated(match);
+  }
+
   validate(value: boolean | null): boolean {
     return typeof value === 'boolean';
   }
@@ -267,6 +294,26 @@ Retorne JSON:
     return null;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): BleedingSeverity | null {
+    const term = match[1]?.toLowerCase();
+
+    // Termo que não separa maior/menor ("incontrolável") fica com o mais grave
+    const severities = new Map<string, BleedingSeverity>([
+      ['maciça', 'exsanguinating'],
+      ['incontrolável', 'uncontrollable_major'],
+      ['intenso', 'uncontrollable_major'],
+      ['grave', 'uncontrollable_major'],
+      ['severo', 'uncontrollable_major'],
+      ['importante', 'uncontrollable_major'],
+      ['moderado', 'uncontrollable_minor'],
+      ['moderada', 'uncontrollable_minor'],
+      ['leve', 'controllable'],
+      ['controlado', 'controllable'],
+    ]);
+
+    return (term && severities.get(term)) || null;
+  }
+
   validate(value: BleedingSeverity | null): boolean {
     if (value === null) return false;
     const validSeverities: BleedingSeverity[] = [
@@ -330,6 +377,17 @@ Retorne JSON:
     return null;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): { duration: number; unit: 'minutes' | 'hours' | 'days' } | null {
+    const duration = Number(match[1]);
+    const unit = match[2]?.toLowerCase() ?? '';
+
+    if (!Number.isFinite(duration)) return null;
+    if (unit.startsWith('minuto')) return { duration, unit: 'minutes' };
+    if (unit.startsWith('hora')) return { duration, unit: 'hours' };
+    if (unit.startsWith('dia')) return { duration, unit: 'days' };
+    return null;
+  }
+
   validate(value: { duration: number; unit: 'minutes' | 'hours' | 'days' } | null): boolean {
     if (value === null) return false;
     if (value.unit === 'days' && value.duration > 30) return false;
@@ -394,6 +452,17 @@ Retorne JSON:
     return null;
   }
 
+  protected parsePatternMatch({ match }: PatternMatch): TraumaMechanism | null {
+    const text = match[0].toLowerCase();
+
+    if (text.startsWith('acidente')) return 'high_energy_collision';
+    if (text.startsWith('atropelamento')) return 'pedestrian_struck';
+    if (/facada|tiro|penetrante/.test(text)) return 'penetrating_injury';
+    if (/própria\s+altura|chão/.test(text)) return 'low_energy_mechanism';
+    if (text.startsWith('queda')) return 'fall_from_height';
+    return null;
+  }
+
   validate(value: TraumaMechanism | null): boolean {
     const validMechanisms: TraumaMechanism[] = [
       'high_energy_collision',
@@ -462,19 +531,20 @@ Retorne JSON:
     const parsed = this.parseJSONFromLLM(llmResponse);
     if (!parsed) return null;
 
+    const onset = parsed.onset_time as { duration?: unknown; unit?: unknown } | null | undefined;
     if (
       typeof parsed.facial_droop === 'boolean' &&
       typeof parsed.arm_weakness === 'boolean' &&
       typeof parsed.speech_difficulty === 'boolean' &&
-      parsed.onset_time &&
-      typeof parsed.onset_time.duration === 'number' &&
-      (parsed.onset_time.unit === 'minutes' || parsed.onset_time.unit === 'hours')
+      onset &&
+      typeof onset.duration === 'number' &&
+      (onset.unit === 'minutes' || onset.unit === 'hours')
     ) {
       return {
         facial_droop: parsed.facial_droop,
         arm_weakness: parsed.arm_weakness,
         speech_difficulty: parsed.speech_difficulty,
-        onset_time: parsed.onset_time,
+        onset_time: { duration: onset.duration, unit: onset.unit },
       };
     }
 
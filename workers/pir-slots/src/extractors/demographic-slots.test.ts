@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { loadManchesterSPProtocol } from '@voither/pir-schema';
+import type { ConversationTurn, SlotFillRequest } from '../types/slots';
+import { annotateConversation } from './clinical-context';
+import {
+  AgeExtractor,
+  EstimatedWeightExtractor,
+  PregnancyStatusExtractor,
+  SexExtractor,
+  ageFromBirthDate,
+  ageInYears,
+  estimatePediatricWeight,
+} from './demographic-slots';
+
+// @cloudflare/ai não carrega no Node (dependências não declaradas); o estágio regex não chama o modelo
+vi.mock('@cloudflare/ai', () => ({ Ai: class {} }));
+
+const PIR = loadManchesterSPProtocol();
+
+const nurse = (content: string): ConversationTurn => ({ role: 'nurse', content });
+const patient = (content: string): ConversationTurn => ({ role: 'patient', content });
+
+// Pedido do round com a pré-análise de contexto clínico, como o orchestrator monta
+function fillRequest(slotId: string, conversation: ConversationTurn[], slotState?: Record<string, unknown>): SlotFillRequest {
+  return {
+    slot_id: slotId,
+    conversation_context: conversation,
+    attempt: 1,
+    slot_definition: PIR.slots.find((slot) => slot.slot_id === slotId),
+    slot_state: slotState,
+    clinical_context: annotateConversation(conversation),
+  };
+}
+
+describe('ageInYears', () => {
+  it('converts months, weeks and days of life', () => {
+    expect(ageInYears(34, 'anos')).toBe(34);
+    expect(ageInYears(3, 'meses')).toBe(0.25);
+    expect(ageInYears(2, 'semanas')).toBe(0.03);
+    expect(ageInYears(10, 'dias')).toBe(0.02);
+  });
+
+  it('rejects unknown units and negative amounts', () => {
+    expect(ageInYears(3, 'décadas')).toBeNull();
+    expect(ageInYears(-1, 'anos')).toBeNull();
+  });
+});
+
+describe('ageFromBirthDate', () => {
+  const at = Date.parse('2026-03-15T12:00:00Z');
+
+  it('counts full years until the birthday', () => {
+    expect(ageFromBirthDate('2023-03-16', at)).toBe(2.99);
+    expect(ageFromBirthDate('2023-03-15', at)).toBe(3);
+  });
+
+  it('rejects invalid and future dates', () => {
+    expect(ageFromBirthDate('not a date', at)).toBeNull();
+    expect(ageFromBirthDate('2027-01-01', at)).toBeNull();
+  });
+});
+
+describe('estimatePediatricWeight', () => {
+  it('uses the Broselow zone when the length is known', () => {
+    expect(estimatePediatricWeight({ age_years: 2, height_cm: 90 })).toEqual({
+      weight_kg: 13,
+      method: 'length_based',
+      detail: 'Broselow amarela (90 cm)',
+    });
+  });
+
+  it('falls back to the APLS formula by age', () => {
+    expect(estimatePediatricWeight({ age_years: 0.5 })).toMatchObject({ weight_kg: 7, detail: 'APLS (0,5 × 6 meses) + 4' });
+    expect(estimatePediatricWeight({ age_years: 3 })).toMatchObject({ weight_kg: 14, method: 'age_based' });
+    expect(estimatePediatricWeight({ age_years: 8, height_cm: 160 })).toMatchObject({ weight_kg: 31, detail: 'APLS (3 × 8 anos) + 7' });
+  });
+
+  it('does not estimate adults or unknown ages', () => {
+    expect(estimatePediatricWeight({ age_years: 12 })).toBeNull();
+    expect(estimatePediatricWeight({ height_cm: 90 })).toBeNull();
+  });
+});
+
+describe('AgeExtractor regex stage', () => {
+  const extractor = new AgeExtractor(null);
+
+  it('reads the patient age and infants in months', () => {
+    expect(extractor.extractFromPatterns(fillRequest('age', [patient('Tenho 34 anos.')]))?.value).toBe(34);
+    expect(extractor.extractFromPatterns(fillRequest('age', [patient('Meu filho tem 3 meses.')]))?.value).toBe(0.25);
+  });
+
+  it('does not take the age of a relative', () => {
+    const conversation = [nurse('Quantos anos a senhora tem?'), patient('Minha mãe tem 80 anos e mora comigo.')];
+    expect(extractor.extractFromPatterns(fillRequest('age', conversation))).toBeNull();
+  });
+
+  it('does not take the duration of a disease as age', () => {
+    expect(extractor.extractFromPatterns(fillRequest('age', [patient('Tenho diabetes há 10 anos.')]))).toBeNull();
+  });
+});
+
+describe('SexExtractor regex stage', () => {
+  const extractor = new SexExtractor(null);
+
+  it('maps pregnancy terms onto female', () => {
+    expect(extractor.extractFromPatterns(fillRequest('sex', [patient('Estou grávida de 20 semanas.')]))?.value).toBe('female');
+    expect(extractor.extractFromPatterns(fillRequest('sex', [patient('Sou gestante.')]))?.value).toBe('female');
+    expect(extractor.extractFromPatterns(fillRequest('sex', [patient('Sou homem, tenho 40 anos.')]))?.value).toBe('male');
+  });
+});
+
+describe('PregnancyStatusExtractor regex stage', () => {
+  const extractor = new PregnancyStatusExtractor(null);
+
+  it('reads a negated pregnancy as not pregnant', () => {
+    const conversation = [nurse('Existe possibilidade de gravidez?'), patient('Não estou grávida.')];
+    expect(extractor.extractFromPatterns(fillRequest('pregnancy_status', conversation))?.value).toBe('not_pregnant');
+  });
+
+  it('reads suspicion and a late period as possible', () => {
+    expect(extractor.extractFromPatterns(fillRequest('pregnancy_status', [patient('Acho que estou grávida.')]))?.value).toBe('possible');
+    expect(extractor.extractFromPatterns(fillRequest('pregnancy_status', [patient('Estou com atraso menstrual.')]))?.value).toBe('possible');
+  });
+
+  it('leaves "sem atraso menstrual" to the LLM', () => {
+    expect(extractor.extractFromPatterns(fillRequest('pregnancy_status', [patient('Estou sem atraso menstrual.')]))).toBeNull();
+  });
+});
+
+describe('EstimatedWeightExtractor', () => {
+  const extractor = new EstimatedWeightExtractor(null);
+
+  it('estimates the weight of a child without a measured weight', async () => {
+    const byLength = await extractor.extract(fillRequest('estimated_weight', [], { age: 2, height: 90 }));
+    expect(byLength).toMatchObject({ value: 13, confidence: 0.8, status: 'computed' });
+
+    const byAge = await extractor.extract(fillRequest('estimated_weight', [], { age: 3 }));
+    expect(byAge).toMatchObject({ value: 14, confidence: 0.6, reasoning: 'APLS (2 × 3 anos) + 8 → 14 kg' });
+  });
+
+  it('stays empty once the weight is known or for adults', async () => {
+    expect((await extractor.extract(fillRequest('estimated_weight', [], { age: 3, weight: 15 }))).value).toBeNull();
+    expect((await extractor.extract(fillRequest('estimated_weight', [], { age: 40 }))).value).toBeNull();
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * PIR Demographic & Physiological Slot Extractors - Manchester SP
+ *
+ * Idade, sexo, gestação, peso e altura: condicionam guards (febre em lactente,
+ * dose pediátrica, fragilidade geriátrica, contraindicação na gestação) e as
+ * faixas de plausibilidade pediátricas.
+ *
+ * Origem: cadastro (patient_context no início da sessão), prontuário (FHIR Patient,
+ * Observations de peso/altura/gestação) ou conversa (padrões do PIR → LLM).
+ * Peso desconhecido em criança: estimativa por comprimento (Broselow) ou idade (APLS).
+ */
+
+import { ConversationalExtractor, DeviceExtractor, ComputedExtractor } from './base-extractor';
+import { isNegated, type PatternMatch } from './pattern-matcher';
+import type { ExtractionResult, PatientSex, PregnancyStatus, SlotFillRequest } from '../types/slots';
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Idade em anos com duas casas, truncada (2,99 até o 3º aniversário)
+ */
+function truncateYears(years: number): number {
+  return Math.floor(years * 100) / 100;
+}
+
+/**
+ * "3 anos", "2 meses", "10 dias" → anos (null = unidade desconhecida)
+ */
+export function ageInYears(amount: number, unit: string): number | null {
+  if (!Number.isFinite(amount) || amount < 0) return null;
+
+  const normalized = unit.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  if (normalized.startsWith('ano')) return amount;
+  if (normalized.startsWith('mes')) return truncateYears(amount / 12);
+  if (normalized.startsWith('semana')) return truncateYears((amount * 7) / 365.25);
+  if (normalized.startsWith('dia')) return truncateYears(amount / 365.25);
+  return null;
+}
+
+/**
+ * Idade na data `at` a partir da data de nascimento (ISO 8601); null = data inválida ou futura
+ */
+export function ageFromBirthDate(birthDate: string, at: number = Date.now()): number | null {
+  const born = Date.parse(birthDate);
+  if (!Number.isFinite(born) || born > at) return null;
+
+  // Anos completos pelo calendário; fração desde o último aniversário
+  const birth = new Date(born);
+  const now = new Date(at);
+  const anniversary = (years: number) => Date.UTC(birth.getUTCFullYear() + years, birth.getUTCMonth(), birth.getUTCDate());
+
+  let years = now.getUTCFullYear() - birth.getUTCFullYear();
+  if (anniversary(years) > at) years--;
+
+  return truncateYears(years + (at - anniversary(years)) / MS_PER_YEAR);
+}
+
+// ============================================================================
+// ESTIMATIVA DE PESO PEDIÁTRICO
+// ============================================================================
+
+export interface PediatricWeightEstimate {
+  weight_kg: number;
+  method: 'length_based' | 'age_based';
+  detail: string; // Faixa Broselow ou fórmula usada
+}
+
+/**
+ * Faixas de cor da fita de Broselow (comprimento em cm → peso médio da faixa)
+ */
+const BROSELOW_ZONES: Array<{ color: string; max_cm: number; weight_kg: number }> = [
+  { color: 'cinza', max_cm: 59.5, weight_kg: 4 },
+  { color: 'rosa', max_cm: 66.5, weight_kg: 6.5 },
+  { color: 'vermelha', max_cm: 74, weight_kg: 8.5 },
+  { color: 'roxa', max_cm: 84.5, weight_kg: 10.5 },
+  { color: 'amarela', max_cm: 97.5, weight_kg: 13 },
+  { color: 'branca', max_cm: 110, weight_kg: 16.5 },
+  { color: 'azul', max_cm: 122, weight_kg: 21 },
+  { color: 'laranja', max_cm: 137, weight_kg: 26.5 },
+  { color: 'verde', max_cm: 146.5, weight_kg: 33 },
+];
+
+const BROSELOW_MIN_CM = 46;
+
+/**
+ * Idade máxima (anos) para estimar peso: acima disso o peso é perguntado ou medido
+ */
+export const PEDIATRIC_WEIGHT_MAX_AGE_YEARS = 12;
+
+/**
+ * Peso estimado de criança: comprimento na fita de Broselow; sem comprimento, fórmula APLS por idade
+ * (null = adulto, idade desconhecida ou comprimento fora da fita sem idade utilizável)
+ */
+export function estimatePediatricWeight(input: { age_years?: number; height_cm?: number }): PediatricWeightEstimate | null {
+  const { age_years: age, height_cm: height } = input;
+  if (typeof age !== 'number' || age < 0 || age >= PEDIATRIC_WEIGHT_MAX_AGE_YEARS) return null;
+
+  if (typeof height === 'number' && height >= BROSELOW_MIN_CM) {
+    const zone = BROSELOW_ZONES.find((candidate) => height < candidate.max_cm);
+    if (zone) {
+      return { weight_kg: zone.weight_kg, method: 'length_based', detail: `Broselow ${zone.color} (${height} cm)` };
+    }
+  }
+
+  // APLS: <1 ano (0,5 × meses) + 4; 1-5 anos (2 × idade) + 8; 6-11 anos (3 × idade) + 7
+  if (age < 1) {
+    const months = Math.floor(age * 12);
+    return { weight_kg: 0.5 * months + 4, method: 'age_based', detail: `APLS (0,5 × ${months} meses) + 4` };
+  }
+
+  const years = Math.floor(age);
+  return years <= 5
+    ? { weight_kg: 2 * years + 8, method: 'age_based', detail: `APLS (2 × ${years} anos) + 8` }
+    : { weight_kg: 3 * years + 7, method: 'age_based', detail: `APLS (3 × ${years} anos) + 7` };
+}
+
+// ============================================================================
+// SLOT 20: Age (Idade)
+// ============================================================================
+
+export class AgeExtractor extends ConversationalExtractor<number> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'age', 'Idade');
+  }
+
+  protected buildExtractionPrompt(conversationText: string): string {
+    return `Extraia a IDADE do paciente.
+
+CONVERSA:
+${conversationText}
+
+INSTRUÇÕES:
+- Idade em anos; lactentes em meses, semanas ou dias de vida
+- Se for informada a data de nascimento, retorne-a em birth_date (AAAA-MM-DD)
+- NÃO confunda tempo de sintoma ou de doença ("tenho diabetes há 10 anos") com idade
+- Se a idade não foi mencionada: retorne null
+
+Retorne JSON:
+{
+  "age": número ou null,
+  "unit": "anos|meses|semanas|dias",
+  "birth_date": "AAAA-MM-DD ou null"
+}`;
+  }
+
+  protected parseResponse(llmResponse: string): number | null {
+    const parsed = this.parseJSONFromLLM(llmResponse);
+    if (!parsed) return null;
+
+    if (typeof parsed.birth_date === 'string') {
+      const age = ageFromBirthDate(parsed.birth_date);
+      if (age !== null) return age;
+    }
+
+    return typeof parsed.age === 'number' ? ageInYears(parsed.age, typeof parsed.unit === 'string' ? parsed.unit : 'anos') : null;
+  }
+
+  protected parsePatternMatch({ match, turn }: PatternMatch): number | null {
+    // Data de nascimento (dd/mm/aaaa): idade na data do turno
+    if (match[3] !== undefined) {
+      const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      if (day < 1 || day > 31 || month < 1 || month > 12) return null;
+
+      const at = turn.timestamp ? Date.parse(turn.timestamp) : Date.now();
+      return ageFromBirthDate(new Date(Date.UTC(year, month - 1, day)).toISOString(), Number.isFinite(at) ? at : Date.now());
+    }
+
+    return ageInYears(Number(match[1]), match[2] ?? 'anos');
+  }
+
+  validate(value: number | null): boolean {
+    return value !== null && value >= 0 && value <= 130;
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Qual a idade do paciente? Se for criança pequena, quantos meses ou a data de nascimento?';
+  }
+}
+
+// ============================================================================
+// SLOT 21: Sex (Sexo)
+// ============================================================================
+
+export class SexExtractor extends ConversationalExtractor<PatientSex> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'sex', 'Sexo');
+  }
+
+  protected buildExtractionPrompt(conversationText: string): string {
+    return `Identifique o SEXO BIOLÓGICO do paciente.
+
+CONVERSA:
+${conversationText}
+
+INSTRUÇÕES:
+- Use apenas informação explícita (declaração, "sexo masculino", gestação, termos como "o senhor", "a paciente")
+- Se não houver indicação: retorne null
+
+Retorne JSON:
+{
+  "sex": "female|male|other" ou null
+}`;
+  }
+
+  protected parseResponse(llmResponse: string): PatientSex | null {
+    const parsed = this.parseJSONFromLLM(llmResponse);
+    if (!parsed) return null;
+
+    const sex = parsed.sex as PatientSex;
+    return this.validate(sex) ? sex : null;
+  }
+
+  protected parsePatternMatch({ match }: PatternMatch): PatientSex | null {
+    const term = match[1]?.toLowerCase() ?? '';
+
+    if (term === 'm' || term === 'masculino' || term === 'homem' || term === 'menino') return 'male';
+    if (term === 'f' || term === 'feminino' || term === 'mulher' || term === 'menina') return 'female';
+    if (/^(gr[áa]vida|gestante)$/.test(term)) return 'female';
+    return null;
+  }
+
+  validate(value: PatientSex | null): boolean {
+    return value === 'female' || value === 'male' || value === 'other';
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Qual o sexo biológico do paciente?';
+  }
+}
+
+// ============================================================================
+// SLOT 22: Pregnancy Status (Gestação)
+// ============================================================================
+
+export class PregnancyStatusExtractor extends ConversationalExtractor<PregnancyStatus> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'pregnancy_status', 'Gestação');
+  }
+
+  protected buildExtractionPrompt(conversationText: string): string {
+    return `Identifique se a paciente está GRÁVIDA.
+
+CONVERSA:
+${conversationText}
+
+STATUS POSSÍVEIS:
+- pregnant: gestação confirmada ou referida pela paciente
+- not_pregnant: nega gestação, menopausa, histerectomia, teste negativo recente
+- possible: atraso menstrual, suspeita, "pode ser que esteja grávida"
+
+INSTRUÇÕES:
+- Se o assunto não foi abordado: retorne null
+- Paciente do sexo masculino: retorne null
+
+Retorne JSON:
+{
+  "pregnancy_status": "pregnant|not_pregnant|possible" ou null,
+  "reasoning": "justificativa"
+}`;
+  }
+
+  protected parseResponse(llmResponse: string): PregnancyStatus | null {
+    const parsed = this.parseJSONFromLLM(llmResponse);
+    if (!parsed) return null;
+
+    const status = parsed.pregnancy_status as PregnancyStatus;
+    return this.validate(status) ? status : null;
+  }
+
+  protected parsePatternMatch({ match }: PatternMatch): PregnancyStatus | null {
+    const text = match[0].toLowerCase();
+
+    if (/menopausa|histerectomia|útero/.test(text)) return 'not_pregnant';
+
+    // "sem atraso menstrual" não descarta gestação → LLM decide
+    if (/atras|n[ãa]o\s+veio/.test(text)) return isNegated(match) ? null : 'possible';
+
+    if (/pode|possa|poderia|talvez|acho|suspeita/.test(text)) return isNegated(match) ? 'not_pregnant' : 'possible';
+
+    return isNegated(match) ? 'not_pregnant' : 'pregnant';
+  }
+
+  validate(value: PregnancyStatus | null): boolean {
+    return value === 'pregnant' || value === 'not_pregnant' || value === 'possible';
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Existe possibilidade de gravidez? Quando foi a última menstruação?';
+  }
+}
+
+// ============================================================================
+// SLOT 23: Gestational Age (Idade Gestacional)
+// Condicional: só extrai se pregnancy_status == pregnant
+// ============================================================================
+
+export class GestationalAgeExtractor extends ConversationalExtractor<number> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'gestational_age', 'Idade Gestacional');
+  }
+
+  protected buildExtractionPrompt(conversationText: string): string {
+    return `Extraia a IDADE GESTACIONAL da paciente grávida.
+
+CONVERSA:
+${conversationText}
+
+INSTRUÇÕES:
+- Em semanas completas de gestação
+- Se informada em meses, converta (1 mês ≈ 4,3 semanas)
+- Se informada a data da última menstruação (DUM), calcule as semanas até hoje
+- Se não mencionada: retorne null
+
+Retorne JSON:
+{
+  "gestational_age_weeks": número ou null
+}`;
+  }
+
+  protected parseResponse(llmResponse: string): number | null {
+    const parsed = this.parseJSONFromLLM(llmResponse);
+    return typeof parsed?.gestational_age_weeks === 'number' ? Math.round(parsed.gestational_age_weeks) : null;
+  }
+
+  protected parsePatternMatch({ match }: PatternMatch): number | null {
+    const amount = Number(match[1]);
+    if (!Number.isFinite(amount)) return null;
+
+    return /mes/i.test(match[2] ?? match[0]) ? Math.round(amount * 4.3) : amount;
+  }
+
+  validate(value: number | null): boolean {
+    return value !== null && Number.isInteger(value) && value >= 1 && value <= 45;
+  }
+
+  generateFallbackQuestion(): string {
+    return 'De quantas semanas está a gestação?';
+  }
+}
+
+// ============================================================================
+// SLOT 24: Weight (Peso)
+// ============================================================================
+
+export class WeightExtractor extends DeviceExtractor<number> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'weight', 'Peso');
+  }
+
+  protected async extractFromConversation(conversationText: string): Promise<number | null> {
+    // Regex patterns para peso em kg (recém-nascido em gramas)
+    const patterns = [
+      /peso[:\s]+(?:de\s+|é\s+|atual\s+|aproximado\s+)?(\d{1,4}(?:[.,]\d{1,3})?)\s*(kg|quilos?|g|gramas)?/i,
+      /pesa(?:ndo)?\s+(?:uns\s+|cerca\s+de\s+)?(\d{1,4}(?:[.,]\d{1,3})?)\s*(kg|quilos?|g|gramas)?/i,
+      /(\d{1,3}(?:[.,]\d{1,3})?)\s*(kg|quilos)\b/i,
+    ];
+
+    for (const pattern of patterns) {
+      const match = conversationText.match(pattern);
+      if (match) {
+        const grams = /^g/i.test(match[2] ?? '');
+        const weight = grams ? Number(match[1].replace(/[.,]/g, '')) / 1000 : parseFloat(match[1].replace(',', '.'));
+        if (weight >= 0.3 && weight <= 400) {
+          return Math.round(weight * 100) / 100;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  validate(value: number | null): boolean {
+    return value === null || (value >= 0.3 && value <= 400);
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Qual o peso do paciente (kg)?';
+  }
+}
+
+// ============================================================================
+// SLOT 25: Height (Altura / Comprimento)
+// ============================================================================
+
+export class HeightExtractor extends DeviceExtractor<number> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'height', 'Altura / Comprimento');
+  }
+
+  protected async extractFromConversation(conversationText: string): Promise<number | null> {
+    // Em metros ("mede 1,75") ou centímetros ("comprimento 62 cm")
+    const meters = /(?:altura|mede|medindo|estatura)[:\s]+(?:de\s+)?([0-2][.,]\d{1,2})\s*(?:m|metros?)?(?!\d)/i.exec(conversationText);
+    if (meters) {
+      const height = Math.round(parseFloat(meters[1].replace(',', '.')) * 100);
+      if (height >= 25 && height <= 250) return height;
+    }
+
+    const centimeters = /(?:altura|mede|medindo|estatura|comprimento)[:\s]+(?:de\s+)?(\d{2,3}(?:[.,]\d)?)\s*(?:cm|cent[íi]metros)?/i.exec(conversationText);
+    if (centimeters) {
+      const height = parseFloat(centimeters[1].replace(',', '.'));
+      if (height >= 25 && height <= 250) return height;
+    }
+
+    return null;
+  }
+
+  validate(value: number | null): boolean {
+    return value === null || (value >= 25 && value <= 250);
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Qual a altura do paciente? Em crianças pequenas, o comprimento em cm.';
+  }
+}
+
+// ============================================================================
+// SLOT 26: Estimated Weight (Peso Estimado - Pediátrico)
+// Computado de height + age, só enquanto o peso real é desconhecido
+// ============================================================================
+
+export class EstimatedWeightExtractor extends ComputedExtractor<number> {
+  constructor(aiBinding: any) {
+    super(aiBinding, 'estimated_weight', 'Peso Estimado (Pediátrico)');
+  }
+
+  async extract(request: SlotFillRequest): Promise<ExtractionResult<number>> {
+    const inputs = await this.gatherInputs(request);
+    const estimate = this.hasRequiredInputs(inputs) ? this.estimate(inputs) : null;
+
+    // Estimativa por comprimento é mais próxima do peso real que a fórmula por idade
+    return {
+      slot_id: this.slotId,
+      slot_name: this.slotName,
+      value: estimate?.weight_kg ?? null,
+      confidence: estimate ? (estimate.method === 'length_based' ? 0.8 : 0.6) : 0.0,
+      status: 'computed',
+      extraction_method: 'computed',
+      source: 'computed',
+      timestamp: new Date().toISOString(),
+      reasoning: estimate ? `${estimate.detail} → ${estimate.weight_kg} kg` : 'Weight known, patient not pediatric or age unknown',
+    };
+  }
+
+  protected async gatherInputs(request: SlotFillRequest): Promise<Record<string, unknown>> {
+    const state = request.slot_state ?? {};
+    return { age_years: state.age, height_cm: state.height, weight_kg: state.weight };
+  }
+
+  protected hasRequiredInputs(inputs: Record<string, unknown>): boolean {
+    return (inputs.weight_kg === undefined || inputs.weight_kg === null) && typeof inputs.age_years === 'number';
+  }
+
+  protected compute(inputs: Record<string, unknown>): number {
+    return this.estimate(inputs)?.weight_kg ?? NaN;
+  }
+
+  private estimate(inputs: Record<string, unknown>): PediatricWeightEstimate | null {
+    return estimatePediatricWeight({
+      age_years: inputs.age_years as number,
+      height_cm: typeof inputs.height_cm === 'number' ? inputs.height_cm : undefined,
+    });
+  }
+
+  validate(value: number | null): boolean {
+    return value !== null && value >= 1 && value <= 60;
+  }
+
+  generateFallbackQuestion(): string {
+    return 'Qual o peso do paciente? Se não souber, qual o comprimento da criança?';
+  }
+}
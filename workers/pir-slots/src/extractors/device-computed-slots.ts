@@ -98,27 +98,17 @@ export class BloodPressureExtractor extends DeviceExtractor<{ systolic: number;
   }
 
   protected async extractFromConversation(conversationText: string): Promise<{ systolic: number; diastolic: number } | null> {
+    // "12 por 8" (cmHg falado) também casa: a camada de plausibilidade pede confirmação em vez de descartar
     const patterns = [
-      /pressão arterial.*?(\d{2,3})\s*[x\/]\s*(\d{2,3})/i,
-      /PA.*?(\d{2,3})\s*[x\/]\s*(\d{2,3})/i,
-      /(\d{2,3})\s*[x\/]\s*(\d{2,3})\s*mmHg/i,
+      /press[ãa]o(?: arterial)?.*?(\d{1,3})\s*(?:[x\/]|por)\s*(\d{1,3})/i,
+      /\bPA.*?(\d{1,3})\s*(?:[x\/]|por)\s*(\d{1,3})/i,
+      /(\d{1,3})\s*(?:[x\/]|por)\s*(\d{1,3})\s*mmHg/i,
     ];
 
     for (const pattern of patterns) {
       const match = conversationText.match(pattern);
       if (match) {
-        const systolic = parseInt(match[1], 10);
-        const diastolic = parseInt(match[2], 10);
-
-        if (
-          systolic >= 50 &&
-          systolic <= 300 &&
-          diastolic >= 30 &&
-          diastolic <= 200 &&
-          systolic > diastolic
-        ) {
-          return { systolic, diastolic };
-        }
+        return { systolic: parseInt(match[1], 10), diastolic: parseInt(match[2], 10) };
       }
     }
 
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import { loadManchesterSPProtocol } from '@voither/pir-schema';
+import type { ConversationTurn, SlotFillRequest } from '../types/slots';
+import {
+  DEFAULT_CONTEXT_WINDOW_TURNS,
+  SlotPatternMatcher,
+  isNegated,
+  isQuestionAt,
+  parseContextWindow,
+  satisfiesPIRValidation,
+} from './pattern-matcher';
+import {
+  BleedingPresentExtractor,
+  BleedingSeverityExtractor,
+  ConsciousnessLevelExtractor,
+  PainScoreExtractor,
+  TraumaMechanismExtractor,
+} from './conversational-slots';
+import { PregnancyStatusExtractor } from './demographic-slots';
+
+// @cloudflare/ai não carrega no Node (dependências não declaradas); o estágio regex não chama o modelo
+vi.mock('@cloudflare/ai', () => ({ Ai: class {} }));
+
+const PIR = loadManchesterSPProtocol();
+
+const nurse = (content: string): ConversationTurn => ({ role: 'nurse', content });
+const patient = (content: string): ConversationTurn => ({ role: 'patient', content });
+
+function fillRequest(slotId: string, conversation: ConversationTurn[]): SlotFillRequest {
+  return {
+    slot_id: slotId,
+    conversation_context: conversation,
+    attempt: 1,
+    slot_definition: PIR.slots.find((slot) => slot.slot_id === slotId),
+  };
+}
+
+describe('parseContextWindow', () => {
+  it('reads last_N_turns', () => {
+    expect(parseContextWindow('last_5_turns')).toBe(5);
+    expect(parseContextWindow('last_1_turn')).toBe(1);
+  });
+
+  it('falls back to the default window', () => {
+    expect(parseContextWindow()).toBe(DEFAULT_CONTEXT_WINDOW_TURNS);
+    expect(parseContextWindow('whole_conversation')).toBe(DEFAULT_CONTEXT_WINDOW_TURNS);
+  });
+});
+
+describe('SlotPatternMatcher', () => {
+  const matcher = new SlotPatternMatcher({ patterns: ['sangr\\w+'], context_window: 'last_3_turns' });
+
+  it('ignores nurse turns', () => {
+    const matches = Array.from(matcher.matches([nurse('Tem algum sangramento?'), patient('Só dor de cabeça.')]));
+    expect(matches).toHaveLength(0);
+  });
+
+  it('drops matches inside a question, even from the patient', () => {
+    const matches = Array.from(matcher.matches([patient('Sangramento? Não sei, estou sangrando pelo nariz.')]));
+    expect(matches.map((candidate) => candidate.match[0])).toEqual(['sangrando']);
+  });
+
+  it('yields the most recent turn first', () => {
+    const matches = Array.from(matcher.matches([patient('Sangrei ontem.'), nurse('E hoje?'), patient('Sangrou de novo.')]));
+    expect(matches.map((candidate) => [candidate.match[0], candidate.turns_ago])).toEqual([
+      ['Sangrou', 0],
+      ['Sangrei', 2],
+    ]);
+  });
+
+  it('counts nurse turns in the context window', () => {
+    const conversation = [patient('Estou sangrando.'), nurse('Desde quando?'), patient('Ontem.'), nurse('Dói?'), patient('Não.')];
+    expect(Array.from(matcher.matches(conversation))).toHaveLength(0);
+  });
+
+  it('skips invalid patterns', () => {
+    const broken = new SlotPatternMatcher({ patterns: ['(unclosed', 'febre'] });
+    expect(broken.hasPatterns).toBe(true);
+    expect(Array.from(broken.matches([patient('Estou com febre.')]))).toHaveLength(1);
+  });
+});
+
+describe('isQuestionAt', () => {
+  it('checks the sentence terminator after the span', () => {
+    expect(isQuestionAt('Ele ficou inconsciente…?', 'Ele ficou inconsciente'.length)).toBe(true);
+    expect(isQuestionAt('Ficou inconsciente. Acordou?', 'Ficou inconsciente'.length)).toBe(false);
+    expect(isQuestionAt('Ficou inconsciente', 'Ficou inconsciente'.length)).toBe(false);
+  });
+});
+
+describe('isNegated', () => {
+  it('detects negation right before the match', () => {
+    expect(isNegated(/sangramento/.exec('não tem sangramento')!)).toBe(true);
+    expect(isNegated(/sangramento/.exec('sem nenhum sangramento')!)).toBe(true);
+    expect(isNegated(/sangramento/.exec('tem sangramento')!)).toBe(false);
+  });
+});
+
+describe('satisfiesPIRValidation', () => {
+  it('checks numeric ranges and text length', () => {
+    expect(satisfiesPIRValidation(11, { min: 0, max: 10 })).toBe(false);
+    expect(satisfiesPIRValidation(7, { min: 0, max: 10 })).toBe(true);
+    expect(satisfiesPIRValidation('ab', { min_length: 3 })).toBe(false);
+    expect(satisfiesPIRValidation('qualquer', undefined)).toBe(true);
+  });
+});
+
+describe('regex stage of conversational extractors', () => {
+  it('does not take a nurse question as a bleeding finding', () => {
+    const extractor = new BleedingPresentExtractor(null);
+    expect(extractor.extractFromPatterns(fillRequest('bleeding_present', [nurse('Tem algum sangramento?')]))).toBeNull();
+  });
+
+  it('does not keep the question finding after an unrelated answer', () => {
+    const extractor = new BleedingPresentExtractor(null);
+    const conversation = [nurse('Tem algum sangramento?'), patient('Estou com dor de cabeça desde ontem.')];
+    expect(extractor.extractFromPatterns(fillRequest('bleeding_present', conversation))).toBeNull();
+  });
+
+  it('extracts bleeding from patient speech', () => {
+    const extractor = new BleedingPresentExtractor(null);
+    const result = extractor.extractFromPatterns(fillRequest('bleeding_present', [nurse('Tem algum sangramento?'), patient('Tem sangramento no braço.')]));
+    expect(result?.value).toBe(true);
+    expect(result?.span?.turn_index).toBe(1);
+  });
+
+  it('does not mark the patient unresponsive from a nurse question', () => {
+    const extractor = new ConsciousnessLevelExtractor(null);
+    const conversation = [nurse('Ele ficou inconsciente em algum momento?')];
+    expect(extractor.extractFromPatterns(fillRequest('consciousness_level', conversation))).toBeNull();
+  });
+
+  it('does not mark pregnancy from a nurse question', () => {
+    const extractor = new PregnancyStatusExtractor(null);
+    const conversation = [nurse('A senhora está grávida?'), patient('Não sei dizer.')];
+    expect(extractor.extractFromPatterns(fillRequest('pregnancy_status', conversation))).toBeNull();
+  });
+
+  it('extracts pregnancy when the patient states it', () => {
+    const extractor = new PregnancyStatusExtractor(null);
+    const result = extractor.extractFromPatterns(fillRequest('pregnancy_status', [patient('Estou grávida de 20 semanas.')]));
+    expect(result?.value).toBe('pregnant');
+  });
+
+  it('maps matched terms onto enum options', () => {
+    const consciousness = new ConsciousnessLevelExtractor(null);
+    expect(consciousness.extractFromPatterns(fillRequest('consciousness_level', [patient('Ele está inconsciente.')]))?.value).toBe('unresponsive');
+
+    const severity = new BleedingSeverityExtractor(null);
+    expect(severity.extractFromPatterns(fillRequest('bleeding_severity', [patient('Sangramento intenso no braço.')]))?.value).toBe('uncontrollable_major');
+
+    const trauma = new TraumaMechanismExtractor(null);
+    expect(trauma.extractFromPatterns(fillRequest('trauma_mechanism', [patient('Foi atropelamento na avenida.')]))?.value).toBe('pedestrian_struck');
+  });
+
+  it('leaves ambiguous terms to the LLM', () => {
+    const consciousness = new ConsciousnessLevelExtractor(null);
+    expect(consciousness.extractFromPatterns(fillRequest('consciousness_level', [patient('Ele está semiconsciente.')]))).toBeNull();
+  });
+
+  it('keeps the patient answer to a pain question', () => {
+    const extractor = new PainScoreExtractor(null);
+    const result = extractor.extractFromPatterns(fillRequest('pain_score', [nurse('Qual a nota da dor?'), patient('A dor é 8/10.')]));
+    expect(result?.value).toBe(8);
+  });
+});
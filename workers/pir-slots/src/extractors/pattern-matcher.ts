@@ -0,0 +1,135 @@
+/**
+ * PIR Pattern Matcher - Extração determinística por regex (antes do LLM)
+ *
+ * Cada slot conversacional do PIR declara `extraction.patterns` e, opcionalmente,
+ * `extraction.context_window` ("last_3_turns"). Os padrões rodam sobre a janela
+ * declarada, do turno mais recente para o mais antigo; o extractor converte o match
+ * em valor e só chama o LLM se nenhum padrão casar ou o valor não passar na validação.
+ * Só a fala do paciente (ou do acompanhante) vira valor: a pergunta do enfermeiro
+ * ("Tem algum sangramento?") cita o achado sem afirmá-lo.
+ *
+ * Mesmo texto + mesma versão do PIR = mesmo valor (reprodutível, sem custo de modelo).
+ */
+
+import type { PIRSlotExtraction, PIRSlotValidation } from '@voither/pir-schema';
+import type { ConversationTurn } from '../types/slots';
+
+/**
+ * Janela padrão quando o slot não declara context_window
+ */
+export const DEFAULT_CONTEXT_WINDOW_TURNS = 3;
+
+export interface PatternMatch {
+  pattern: string;
+  pattern_index: number; // Posição em extraction.patterns (ordem de preferência do PIR)
+  match: RegExpExecArray; // match[0] = trecho casado, match[1..] = grupos
+  turn: ConversationTurn;
+  turns_ago: number; // 0 = turno mais recente
+}
+
+/**
+ * "last_3_turns" → 3 (formato desconhecido ou ausente → DEFAULT_CONTEXT_WINDOW_TURNS)
+ */
+export function parseContextWindow(contextWindow?: string): number {
+  const match = contextWindow?.match(/^last_(\d+)_turns?$/);
+  return match ? Math.max(1, Number(match[1])) : DEFAULT_CONTEXT_WINDOW_TURNS;
+}
+
+// Padrões compilados por configuração de extração (objetos estáveis por versão do PIR)
+const MATCHERS = new WeakMap<PIRSlotExtraction, SlotPatternMatcher>();
+
+export class SlotPatternMatcher {
+  private patterns: Array<{ source: string; index: number; regex: RegExp }> = [];
+  private windowTurns: number;
+
+  /**
+   * Matcher da configuração (compilado uma vez por versão do PIR)
+   */
+  static forExtraction(extraction: PIRSlotExtraction): SlotPatternMatcher {
+    let matcher = MATCHERS.get(extraction);
+    if (!matcher) {
+      matcher = new SlotPatternMatcher(extraction);
+      MATCHERS.set(extraction, matcher);
+    }
+    return matcher;
+  }
+
+  constructor(extraction: PIRSlotExtraction) {
+    this.windowTurns = parseContextWindow(extraction.context_window);
+
+    (extraction.patterns || []).forEach((source, index) => {
+      try {
+        // Flag "g": todos os matches do turno (o primeiro pode estar numa pergunta)
+        this.patterns.push({ source, index, regex: new RegExp(source, 'gi') });
+      } catch (error) {
+        // Padrão inválido não derruba a extração: o slot segue pelo LLM
+        console.warn(`[PATTERN] Invalid extraction pattern /${source}/:`, error);
+      }
+    });
+  }
+
+  get hasPatterns(): boolean {
+    return this.patterns.length > 0;
+  }
+
+  /**
+   * Matches na janela de contexto, em ordem de preferência:
+   * turno mais recente primeiro; dentro do turno, ordem dos padrões no PIR.
+   * A janela conta turnos de enfermeiro e paciente (sistema não entra), mas só
+   * turnos do paciente casam, e trechos dentro de pergunta são descartados.
+   */
+  *matches(conversation: ConversationTurn[]): Generator<PatternMatch> {
+    const window = conversation.filter((turn) => turn.role !== 'system').slice(-this.windowTurns);
+
+    for (let turnsAgo = 0; turnsAgo < window.length; turnsAgo++) {
+      const turn = window[window.length - 1 - turnsAgo];
+      if (turn.role !== 'patient') continue;
+
+      for (const { source, index, regex } of this.patterns) {
+        // matchAll clona a regex: sem lastIndex compartilhado entre iterações
+        for (const match of turn.content.matchAll(regex) as IterableIterator<RegExpExecArray>) {
+          if (isQuestionAt(turn.content, match.index + match[0].length)) continue;
+
+          yield { pattern: source, pattern_index: index, match, turn, turns_ago: turnsAgo };
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Confere o valor contra `validation` do slot no PIR (faixas numéricas e tamanho de texto)
+ * Complementa validate() do extractor: o PIR da sessão pode ser mais restritivo.
+ */
+export function satisfiesPIRValidation(value: unknown, validation?: PIRSlotValidation): boolean {
+  if (!validation) return true;
+
+  if (typeof value === 'number') {
+    if (validation.min !== undefined && value < validation.min) return false;
+    if (validation.max !== undefined && value > validation.max) return false;
+  }
+
+  if (typeof value === 'string') {
+    if (validation.min_length !== undefined && value.length < validation.min_length) return false;
+    if (validation.max_length !== undefined && value.length > validation.max_length) return false;
+  }
+
+  return true;
+}
+
+/**
+ * O trecho que termina em `end` está numa pergunta? (a frase termina em "?")
+ */
+export function isQuestionAt(content: string, end: number): boolean {
+  return content.slice(end).match(/[.!?\n]/)?.[0] === '?';
+}
+
+/**
+ * Negação logo antes do trecho casado ("não tem sangramento", "sem sangramento")
+ */
+export function isNegated(match: RegExpExecArray): boolean {
+  if (/^n[ãa]o\b/i.test(match[0])) return true;
+
+  const before = match.input.slice(0, match.index);
+  return /(?:^|[\s,;])(?:n[ãa]o|sem|nega|nenhum|nenhuma)(?:\s+\S+){0,3}\s*$/i.test(before);
+}
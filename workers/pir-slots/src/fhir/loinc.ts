@@ -0,0 +1,93 @@
+/**
+ * PIR LOINC - Códigos LOINC dos slots de sinais vitais, medidas e escalas
+ *
+ * Fonte única para exportação FHIR, importação de Observations e ingestão HL7
+ * de dispositivos. Chaves são referências do registro de slots (slot ou "slot.campo").
+ */
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+export const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+export interface LOINCCoding {
+  code: string;
+  display: string;
+  ucum?: string; // Unidade UCUM do valor (ausente em observações codificadas e painéis)
+  profile?: string; // Perfil FHIR vital signs
+}
+
+export const SLOT_LOINC: Record<string, LOINCCoding> = {
+  heart_rate: {
+    code: '8867-4',
+    display: 'Heart rate',
+    ucum: '/min',
+    profile: 'http://hl7.org/fhir/StructureDefinition/heartrate',
+  },
+  respiratory_rate: {
+    code: '9279-1',
+    display: 'Respiratory rate',
+    ucum: '/min',
+    profile: 'http://hl7.org/fhir/StructureDefinition/resprate',
+  },
+  oxygen_saturation: {
+    code: '59408-5',
+    display: 'Oxygen saturation in Arterial blood by Pulse oximetry',
+    ucum: '%',
+    profile: 'http://hl7.org/fhir/StructureDefinition/oxygensat',
+  },
+  temperature: {
+    code: '8310-5',
+    display: 'Body temperature',
+    ucum: 'Cel',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bodytemp',
+  },
+  blood_pressure: {
+    code: '85354-9',
+    display: 'Blood pressure panel with all children optional',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bp',
+  },
+  'blood_pressure.systolic': { code: '8480-6', display: 'Systolic blood pressure', ucum: 'mm[Hg]' },
+  'blood_pressure.diastolic': { code: '8462-4', display: 'Diastolic blood pressure', ucum: 'mm[Hg]' },
+  glucose_level: { code: '41653-7', display: 'Glucose [Mass/volume] in Capillary blood by Glucometer', ucum: 'mg/dL' },
+  pain_score: { code: '72514-3', display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported', ucum: '{score}' },
+  consciousness_level: { code: '67775-7', display: 'Level of responsiveness' },
+  weight: {
+    code: '29463-7',
+    display: 'Body weight',
+    ucum: 'kg',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bodyweight',
+  },
+  height: {
+    code: '8302-2',
+    display: 'Body height',
+    ucum: 'cm',
+    profile: 'http://hl7.org/fhir/StructureDefinition/bodyheight',
+  },
+  pregnancy_status: { code: '82810-3', display: 'Pregnancy status' },
+  gestational_age: { code: '49051-6', display: 'Gestational age in weeks', ucum: 'wk' },
+};
+
+/**
+ * Códigos equivalentes aceitos na entrada (outros métodos de medição do mesmo parâmetro)
+ */
+const LOINC_EQUIVALENTS: Record<string, string> = {
+  '2708-6': 'oxygen_saturation', // SpO2 arterial sem método
+  '2339-0': 'glucose_level', // Glicose no sangue
+  '2345-7': 'glucose_level', // Glicose sérica/plasmática
+  '8331-1': 'temperature', // Temperatura oral
+  '55284-4': 'blood_pressure', // Painel de pressão arterial (sistólica/diastólica)
+  '3141-9': 'weight', // Peso medido
+  '8306-3': 'height', // Comprimento deitado (lactentes)
+  '11884-4': 'gestational_age', // Idade gestacional estimada
+};
+
+const LOINC_INDEX = new Map<string, string>([
+  ...Object.entries(SLOT_LOINC).map(([reference, coding]) => [coding.code, reference] as [string, string]),
+  ...Object.entries(LOINC_EQUIVALENTS),
+]);
+
+/**
+ * Código LOINC → referência de slot ("heart_rate", "blood_pressure.systolic")
+ */
+export function slotReferenceForLOINC(code: string): string | undefined {
+  return LOINC_INDEX.get(code);
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it, vi } from 'vitest';
+import { loadManchesterSPProtocol } from '@voither/pir-schema';
+import type { TriageSessionState } from '../orchestrator/rhizomatic-orchestrator';
+import { FHIRImportError, buildObservationBundle, mapFHIRResources, type FHIRObservation } from './observation-bundle';
+
+// @cloudflare/ai não carrega no Node; nenhum modelo é chamado aqui
+vi.mock('@cloudflare/ai', () => ({ Ai: class {} }));
+
+const PIR = loadManchesterSPProtocol();
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+
+function session(overrides: Partial<TriageSessionState> = {}): TriageSessionState {
+  return {
+    session_id: 's-1',
+    patient_id: 'p-42',
+    protocol: { protocol_id: PIR.protocol_id, version: PIR.version, content_hash: 'sha256:ab' },
+    started_at: '2026-10-19T09:50:00.000Z',
+    conversation_history: [],
+    slot_state: {},
+    slot_metadata: {},
+    slot_history: {},
+    pending_confirmations: {},
+    status: 'active',
+    ...overrides,
+  };
+}
+
+function observations(state: TriageSessionState): FHIRObservation[] {
+  return (buildObservationBundle(state).entry ?? [])
+    .map((entry) => entry.resource)
+    .filter((resource): resource is FHIRObservation => resource?.resourceType === 'Observation');
+}
+
+const loinc = (observation: FHIRObservation) => observation.code.coding?.[0].code;
+
+describe('buildObservationBundle', () => {
+  const triage = session({
+    slot_state: {
+      chief_complaint: 'dor no peito',
+      heart_rate: 112,
+      blood_pressure: { systolic: 150, diastolic: 95 },
+      oxygen_saturation: 93,
+      consciousness_level: 'alert',
+      pain_score: 8,
+      temperature: null,
+      glucose_level: undefined,
+    },
+    slot_metadata: { heart_rate: { confidence: 1, source: 'device', filled_at: '2026-10-19T09:55:00.000Z', turn_index: -1 } },
+    slot_history: {
+      heart_rate: [
+        {
+          value: 112,
+          source: 'device',
+          confidence: 1,
+          turn_index: -1,
+          actor: 'device:MX450-03',
+          device: { device_type: 'multiparameter_monitor', device_id: 'MX450-03', quality: 'good' },
+          recorded_at: '2026-10-19T09:55:00.000Z',
+          accepted: true,
+          resolution: 'first_value',
+        },
+      ],
+    },
+  });
+
+  it('opens the transaction with the triage encounter', () => {
+    const bundle = buildObservationBundle(triage);
+    const [encounter] = bundle.entry ?? [];
+
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'transaction' });
+    expect(encounter.request).toEqual({ method: 'POST', url: 'Encounter' });
+    expect(encounter.resource).toMatchObject({
+      resourceType: 'Encounter',
+      identifier: [{ value: 's-1' }],
+      status: 'in-progress',
+      class: { code: 'EMER' },
+      subject: { reference: 'Patient/p-42' },
+      meta: { tag: [{ code: `${PIR.protocol_id}@${PIR.version}` }] },
+    });
+  });
+
+  it('codes each filled slot with LOINC and omits empty or uncoded slots', () => {
+    expect(observations(triage).map(loinc)).toEqual(['8867-4', '85354-9', '59408-5', '67775-7', '72514-3']);
+  });
+
+  it('writes UCUM quantities, blood pressure components and coded consciousness', () => {
+    const [heartRate, bloodPressure, saturation, consciousness, pain] = observations(triage);
+
+    expect(heartRate.valueQuantity).toEqual({ value: 112, unit: '/min', system: 'http://unitsofmeasure.org', code: '/min' });
+    expect(saturation.valueQuantity).toMatchObject({ value: 93, code: '%' });
+    expect(bloodPressure.valueQuantity).toBeUndefined();
+    expect(bloodPressure.component?.map((component) => [component.code.coding?.[0].code, component.valueQuantity?.value, component.valueQuantity?.code])).toEqual([
+      ['8480-6', 150, 'mm[Hg]'],
+      ['8462-4', 95, 'mm[Hg]'],
+    ]);
+    expect(consciousness.valueCodeableConcept).toMatchObject({ coding: [{ code: 'alert' }], text: 'Alerta' });
+    expect(pain.category?.[0].coding?.[0].code).toBe('survey');
+    expect(heartRate.meta?.profile).toEqual(['http://hl7.org/fhir/StructureDefinition/heartrate']);
+  });
+
+  it('references the patient, the encounter and the measuring device', () => {
+    const bundle = buildObservationBundle(triage);
+    const encounterUrl = bundle.entry?.[0].fullUrl;
+    const [heartRate, bloodPressure] = observations(triage);
+
+    expect(heartRate).toMatchObject({
+      status: 'preliminary',
+      subject: { reference: 'Patient/p-42' },
+      effectiveDateTime: '2026-10-19T09:55:00.000Z',
+      device: { identifier: { value: 'MX450-03' }, display: 'multiparameter_monitor' },
+      meta: { tag: [{ code: 'device' }] },
+    });
+    expect(bundle.entry?.slice(1).every((entry) => (entry.resource as FHIRObservation).encounter?.reference === encounterUrl)).toBe(true);
+    expect(bloodPressure.effectiveDateTime).toBe('2026-10-19T09:50:00.000Z'); // Sem metadata: início da sessão
+  });
+
+  it('finalizes observations of completed sessions and skips incomplete values', () => {
+    const completed = session({ status: 'completed', patient_id: undefined, slot_state: { heart_rate: 90, blood_pressure: { systolic: 120 } } });
+    const [heartRate, ...rest] = observations(completed);
+
+    expect(heartRate.status).toBe('final');
+    expect(heartRate.subject).toBeUndefined();
+    expect(rest).toEqual([]);
+    expect(buildObservationBundle(completed).entry?.[0].resource).toMatchObject({ status: 'finished' });
+  });
+});
+
+describe('mapFHIRResources', () => {
+  const observation = (id: string, code: string, extra: Partial<FHIRObservation>): FHIRObservation => ({
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    code: { coding: [{ system: 'http://loinc.org', code }] },
+    effectiveDateTime: '2026-10-19T09:40:00Z',
+    ...extra,
+  });
+
+  it('prefills device slots from recent observations in the slot unit', () => {
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      entry: [
+        { resource: observation('1', '8310-5', { valueQuantity: { value: 101.3, code: '[degF]' } }) },
+        { resource: observation('2', '2708-6', { valueQuantity: { value: 94, code: '%' } }) },
+        {
+          resource: observation('3', '85354-9', {
+            component: [
+              { code: { coding: [{ system: 'http://loinc.org', code: '8480-6' }] }, valueQuantity: { value: 130, code: 'mm[Hg]' } },
+              { code: { coding: [{ system: 'http://loinc.org', code: '8462-4' }] }, valueQuantity: { value: 85, code: 'mm[Hg]' } },
+            ],
+          }),
+        },
+      ],
+    };
+
+    const { values, rejected } = mapFHIRResources(bundle, PIR, NOW);
+    expect(rejected).toEqual([]);
+    expect(values.map(({ slot_id, value, source_references }) => [slot_id, value, source_references])).toEqual([
+      ['temperature', 38.5, ['Observation/1']],
+      ['oxygen_saturation', 94, ['Observation/2']],
+      ['blood_pressure', { systolic: 130, diastolic: 85 }, ['Observation/3']],
+    ]);
+  });
+
+  it('rejects unknown codes, conversational slots, preliminary and old observations', () => {
+    const { values, rejected } = mapFHIRResources(
+      [
+        observation('1', '2524-7', { valueQuantity: { value: 4.2 } }), // Lactato
+        observation('2', '72514-3', { valueQuantity: { value: 8 } }),
+        observation('3', '8867-4', { status: 'preliminary', valueQuantity: { value: 90 } }),
+        observation('4', '8867-4', { effectiveDateTime: '2026-10-19T07:00:00Z', valueQuantity: { value: 90 } }),
+        observation('5', '8867-4', { valueQuantity: { value: 90, code: 'Hz' } }),
+      ],
+      PIR,
+      NOW
+    );
+
+    expect(values).toEqual([]);
+    expect(rejected).toEqual([
+      { reference: 'Observation/1', reason: 'No slot for Observation code' },
+      { reference: 'Observation/2', reason: 'Slot pain_score is not prefilled from records' },
+      { reference: 'Observation/3', reason: 'Observation status preliminary' },
+      { reference: 'Observation/4', reason: 'Older than the heart_rate prefill window' },
+      { reference: 'Observation/5', reason: 'Observation has no usable valueQuantity' },
+    ]);
+  });
+
+  it('collects active history items within the auto_fill window', () => {
+    const { values, rejected } = mapFHIRResources(
+      [
+        { resourceType: 'Condition', id: 'c1', code: { text: 'Hipertensão' }, clinicalStatus: { coding: [{ code: 'active' }] }, recordedDate: '2026-09-01' },
+        { resourceType: 'Condition', id: 'c2', code: { text: 'Asma' }, clinicalStatus: { coding: [{ code: 'resolved' }] }, recordedDate: '2026-09-01' },
+        { resourceType: 'MedicationStatement', id: 'm1', status: 'active', medicationCodeableConcept: { text: 'Losartana' }, dosage: [{ text: '50 mg 1x/dia' }], dateAsserted: '2026-10-01' },
+        { resourceType: 'MedicationStatement', id: 'm2', status: 'active', medicationCodeableConcept: { text: 'Amoxicilina' }, dateAsserted: '2025-01-01' },
+        { resourceType: 'AllergyIntolerance', id: 'a1', code: { text: 'Dipirona' }, reaction: [{ manifestation: [{ text: 'Urticária' }], severity: 'moderate' }] },
+        { resourceType: 'Procedure', id: 'x1' },
+      ],
+      PIR,
+      NOW
+    );
+
+    expect(values.map(({ slot_id, value }) => [slot_id, value])).toEqual(
+      expect.arrayContaining([
+        ['previous_medical_history', [{ condition: 'Hipertensão', since: undefined }]],
+        ['medications_in_use', [{ name: 'Losartana', dose: '50 mg 1x/dia' }]],
+        ['allergy_history', [{ allergen: 'Dipirona', reaction: 'Urticária', severity: 'moderate' }]],
+      ])
+    );
+    expect(rejected).toEqual([
+      { reference: 'Condition/c2', reason: 'Condition is not active' },
+      { reference: 'MedicationStatement/m2', reason: 'Older than the medications_in_use prefill window' },
+      { reference: 'Procedure/x1', reason: 'Unsupported resource type Procedure' },
+    ]);
+  });
+
+  it('refuses input that is not FHIR', () => {
+    expect(() => mapFHIRResources({ readings: [] }, PIR, NOW)).toThrow(FHIRImportError);
+  });
+});
@@ -0,0 +1,538 @@
+/**
+ * PIR FHIR Observations - Exportação e importação FHIR R4 do estado de slots
+ *
+ * Exportação (payload `fhir_observation_bundle` de integration_points.medical_records_system):
+ * Bundle transaction com o Encounter da triagem e uma Observation por slot preenchido
+ * com código LOINC (sinais vitais, peso, altura, glicemia, dor, idade gestacional;
+ * consciência e gestação como observações codificadas).
+ *
+ * Importação: Observations do prontuário pré-preenchem slots de dispositivo e de gestação;
+ * Patient pré-preenche idade e sexo;
+ * Condition, MedicationStatement e AllergyIntolerance pré-preenchem slots históricos.
+ * Só entram registros dentro da janela de `extraction.auto_fill` do slot no PIR
+ * ("medical_records(<90d)"); sinais vitais sem janela no PIR usam IMPORTED_VITALS_MAX_AGE_MS.
+ */
+
+import { parseExpression, type PIRDocument, type PIRSlot } from '@voither/pir-schema';
+import type { TriageSessionState } from '../orchestrator/rhizomatic-orchestrator';
+import { currentEntry } from '../orchestrator/slot-provenance';
+import { normalizeUnit } from '../devices/device-readings';
+import { ageFromBirthDate } from '../extractors/demographic-slots';
+import { LOINC_SYSTEM, SLOT_LOINC, UCUM_SYSTEM, slotReferenceForLOINC } from './loinc';
+
+// ============================================================================
+// TIPOS FHIR R4 (subconjunto usado)
+// ============================================================================
+
+export interface FHIRCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FHIRCodeableConcept {
+  coding?: FHIRCoding[];
+  text?: string;
+}
+
+export interface FHIRQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FHIRReference {
+  reference?: string;
+  display?: string;
+  identifier?: { system?: string; value?: string };
+}
+
+export interface FHIRMeta {
+  profile?: string[];
+  tag?: FHIRCoding[];
+}
+
+export interface FHIRObservation {
+  resourceType: 'Observation';
+  id?: string;
+  meta?: FHIRMeta;
+  status: string;
+  category?: FHIRCodeableConcept[];
+  code: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  encounter?: FHIRReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string; end?: string };
+  issued?: string;
+  valueQuantity?: FHIRQuantity;
+  valueCodeableConcept?: FHIRCodeableConcept;
+  component?: Array<{ code: FHIRCodeableConcept; valueQuantity?: FHIRQuantity }>;
+  device?: FHIRReference;
+}
+
+export interface FHIREncounter {
+  resourceType: 'Encounter';
+  meta?: FHIRMeta;
+  identifier: Array<{ system: string; value: string }>;
+  status: 'in-progress' | 'finished' | 'cancelled';
+  class: FHIRCoding;
+  subject?: FHIRReference;
+  period: { start: string; end?: string };
+}
+
+export interface FHIRResource {
+  resourceType: string;
+  id?: string;
+  [field: string]: unknown;
+}
+
+export interface FHIRBundle {
+  resourceType: 'Bundle';
+  type: 'transaction' | 'collection' | 'searchset';
+  timestamp?: string;
+  entry?: Array<{
+    fullUrl?: string;
+    resource?: FHIRResource | FHIRObservation | FHIREncounter;
+    request?: { method: string; url: string };
+  }>;
+}
+
+export class FHIRImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FHIRImportError';
+  }
+}
+
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const SESSION_IDENTIFIER_SYSTEM = 'http://voither.health/pir/triage-session';
+const PROTOCOL_TAG_SYSTEM = 'http://voither.health/pir/protocol';
+const SOURCE_TAG_SYSTEM = 'http://voither.health/pir/CodeSystem/slot-source';
+const CONSCIOUSNESS_SYSTEM = 'http://voither.health/pir/CodeSystem/consciousness-level';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+const VITAL_SIGNS_PROFILE = 'http://hl7.org/fhir/StructureDefinition/vitalsigns';
+
+/**
+ * Sinais vitais importados sem janela no PIR: triagem avalia o estado atual
+ */
+export const IMPORTED_VITALS_MAX_AGE_MS = 60 * 60 * 1000;
+
+const CONSCIOUSNESS_DISPLAY: Record<string, string> = {
+  alert: 'Alerta',
+  confused: 'Confuso (nova confusão)',
+  responds_voice: 'Responde à voz',
+  responds_pain: 'Responde à dor',
+  unresponsive: 'Irresponsivo',
+};
+
+const SLOT_CATEGORY: Record<string, string> = {
+  pain_score: 'survey',
+  consciousness_level: 'exam',
+  glucose_level: 'laboratory',
+  pregnancy_status: 'exam',
+  gestational_age: 'exam',
+};
+
+/**
+ * Gestação (LOINC 82810-3) em SNOMED CT
+ */
+const PREGNANCY_SNOMED: Record<string, { code: string; display: string }> = {
+  pregnant: { code: '77386006', display: 'Pregnant' },
+  not_pregnant: { code: '60001007', display: 'Not pregnant' },
+  possible: { code: '102874004', display: 'Possible pregnancy' },
+};
+
+/**
+ * Slots conversacionais que o prontuário também registra como Observation
+ */
+const RECORD_OBSERVATION_SLOTS = new Set(['pregnancy_status', 'gestational_age']);
+
+const PATIENT_SEX: Record<string, string> = { female: 'female', male: 'male', other: 'other' };
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// EXPORTAÇÃO
+// ============================================================================
+
+function loincConcept(reference: string): FHIRCodeableConcept {
+  const coding = SLOT_LOINC[reference];
+  return { coding: [{ system: LOINC_SYSTEM, code: coding.code, display: coding.display }], text: coding.display };
+}
+
+function quantity(reference: string, value: number): FHIRQuantity {
+  const unit = SLOT_LOINC[reference].ucum;
+  return { value, unit, system: UCUM_SYSTEM, code: unit };
+}
+
+/**
+ * Observation do slot (null = slot sem código LOINC ou valor incompatível)
+ */
+function buildObservation(
+  slotId: string,
+  value: any,
+  session: TriageSessionState,
+  encounterUrl: string
+): FHIRObservation | null {
+  const coding = SLOT_LOINC[slotId];
+  if (!coding) return null;
+
+  const metadata = session.slot_metadata[slotId as keyof typeof session.slot_metadata];
+  const provenance = currentEntry(session.slot_history[slotId as keyof typeof session.slot_history]);
+  const category = SLOT_CATEGORY[slotId] ?? 'vital-signs';
+
+  const observation: FHIRObservation = {
+    resourceType: 'Observation',
+    meta: {
+      profile: category === 'vital-signs' ? [coding.profile ?? VITAL_SIGNS_PROFILE] : undefined,
+      tag: metadata ? [{ system: SOURCE_TAG_SYSTEM, code: metadata.source }] : undefined,
+    },
+    status: session.status === 'completed' ? 'final' : 'preliminary',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: category }] }],
+    code: loincConcept(slotId),
+    subject: session.patient_id ? { reference: `Patient/${session.patient_id}` } : undefined,
+    encounter: { reference: encounterUrl },
+    effectiveDateTime: metadata?.filled_at ?? session.started_at,
+    issued: new Date().toISOString(),
+    device: provenance?.device
+      ? { identifier: { value: provenance.device.device_id }, display: provenance.device.device_type }
+      : undefined,
+  };
+
+  if (slotId === 'blood_pressure') {
+    if (typeof value?.systolic !== 'number' || typeof value?.diastolic !== 'number') return null;
+    observation.component = [
+      { code: loincConcept('blood_pressure.systolic'), valueQuantity: quantity('blood_pressure.systolic', value.systolic) },
+      { code: loincConcept('blood_pressure.diastolic'), valueQuantity: quantity('blood_pressure.diastolic', value.diastolic) },
+    ];
+  } else if (slotId === 'consciousness_level') {
+    if (typeof value !== 'string') return null;
+    observation.valueCodeableConcept = {
+      coding: [{ system: CONSCIOUSNESS_SYSTEM, code: value, display: CONSCIOUSNESS_DISPLAY[value] }],
+      text: CONSCIOUSNESS_DISPLAY[value] ?? value,
+    };
+  } else if (slotId === 'pregnancy_status') {
+    const snomed = PREGNANCY_SNOMED[value];
+    if (!snomed) return null;
+    observation.valueCodeableConcept = { coding: [{ system: SNOMED_SYSTEM, ...snomed }], text: snomed.display };
+  } else {
+    if (typeof value !== 'number') return null;
+    observation.valueQuantity = quantity(slotId, value);
+  }
+
+  return observation;
+}
+
+/**
+ * Bundle transaction: Encounter da sessão + Observations dos slots preenchidos
+ */
+export function buildObservationBundle(session: TriageSessionState): FHIRBundle {
+  const encounterUrl = `urn:uuid:${crypto.randomUUID()}`;
+  const completed = session.status === 'completed';
+
+  const encounter: FHIREncounter = {
+    resourceType: 'Encounter',
+    meta: { tag: [{ system: PROTOCOL_TAG_SYSTEM, code: `${session.protocol.protocol_id}@${session.protocol.version}` }] },
+    identifier: [{ system: SESSION_IDENTIFIER_SYSTEM, value: session.session_id }],
+    status: session.status === 'abandoned' ? 'cancelled' : completed ? 'finished' : 'in-progress',
+    class: { system: ACT_CODE_SYSTEM, code: 'EMER', display: 'emergency' },
+    subject: session.patient_id ? { reference: `Patient/${session.patient_id}` } : undefined,
+    period: { start: session.started_at },
+  };
+
+  const entry: NonNullable<FHIRBundle['entry']> = [
+    { fullUrl: encounterUrl, resource: encounter, request: { method: 'POST', url: 'Encounter' } },
+  ];
+
+  for (const [slotId, value] of Object.entries(session.slot_state)) {
+    if (value === null || value === undefined) continue;
+
+    const observation = buildObservation(slotId, value, session, encounterUrl);
+    if (observation) {
+      entry.push({ fullUrl: `urn:uuid:${crypto.randomUUID()}`, resource: observation, request: { method: 'POST', url: 'Observation' } });
+    }
+  }
+
+  return { resourceType: 'Bundle', type: 'transaction', timestamp: new Date().toISOString(), entry };
+}
+
+// ============================================================================
+// IMPORTAÇÃO
+// ============================================================================
+
+/**
+ * Valor de slot vindo do prontuário
+ */
+export interface ImportedSlotValue {
+  slot_id: string;
+  value: unknown;
+  recorded_at: string;
+  source_references: string[]; // "Observation/123", "Condition/456"
+}
+
+export interface RejectedFHIRResource {
+  reference: string;
+  reason: string;
+}
+
+/**
+ * Janela de auto_fill do slot ("medical_records(<90d)" → 90 dias); undefined = sem janela
+ */
+function autoFillMaxAge(slot: PIRSlot): number | undefined {
+  const match = slot.extraction?.auto_fill?.match(/\(<\s*([^)]+)\)$/);
+  if (!match) return undefined;
+
+  try {
+    const node = parseExpression(match[1].trim());
+    return node.kind === 'duration' ? node.ms : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function resourcesFrom(input: unknown): FHIRResource[] {
+  const resources = Array.isArray(input) ? input : [input];
+  const flattened: FHIRResource[] = [];
+
+  for (const item of resources) {
+    const resource = item as FHIRResource | undefined;
+    if (!resource || typeof resource.resourceType !== 'string') {
+      throw new FHIRImportError('Expected a FHIR Bundle, a FHIR resource or an array of resources');
+    }
+
+    if (resource.resourceType === 'Bundle') {
+      for (const entry of (resource as unknown as FHIRBundle).entry ?? []) {
+        if (entry.resource) flattened.push(entry.resource as FHIRResource);
+      }
+    } else {
+      flattened.push(resource);
+    }
+  }
+
+  return flattened;
+}
+
+function conceptText(concept: FHIRCodeableConcept | undefined): string | undefined {
+  return concept?.text ?? concept?.coding?.find((coding) => coding.display)?.display ?? concept?.coding?.[0]?.code;
+}
+
+function hasCode(concept: unknown, codes: string[]): boolean {
+  return ((concept as FHIRCodeableConcept | undefined)?.coding ?? []).some((coding) => codes.includes(coding.code ?? ''));
+}
+
+function loincReference(concept: FHIRCodeableConcept | undefined): string | undefined {
+  for (const coding of concept?.coding ?? []) {
+    if (coding.system === LOINC_SYSTEM && coding.code) {
+      const reference = slotReferenceForLOINC(coding.code);
+      if (reference) return reference;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Recursos do prontuário → valores de slot na versão do PIR da sessão
+ */
+export function mapFHIRResources(
+  input: unknown,
+  document: PIRDocument,
+  now: number = Date.now()
+): { values: ImportedSlotValue[]; rejected: RejectedFHIRResource[] } {
+  const slots = new Map(document.slots.map((slot) => [slot.slot_id, slot]));
+  const values = new Map<string, ImportedSlotValue>();
+  const rejected: RejectedFHIRResource[] = [];
+
+  const withinWindow = (slot: PIRSlot, date: string | undefined, fallback?: number): boolean => {
+    const maxAge = autoFillMaxAge(slot) ?? fallback;
+    if (maxAge === undefined || !date) return true;
+    return now - Date.parse(date) <= maxAge;
+  };
+
+  // Slots históricos (arrays): um item por recurso
+  const appendItem = (slotId: string, item: unknown, date: string | undefined, reference: string) => {
+    const existing = values.get(slotId);
+    const recordedAt = date && (!existing || date > existing.recorded_at) ? date : (existing?.recorded_at ?? new Date(now).toISOString());
+    values.set(slotId, {
+      slot_id: slotId,
+      value: [...((existing?.value as unknown[]) ?? []), item],
+      recorded_at: recordedAt,
+      source_references: [...(existing?.source_references ?? []), reference],
+    });
+  };
+
+  for (const resource of resourcesFrom(input)) {
+    const reference = `${resource.resourceType}/${resource.id ?? '?'}`;
+    const reject = (reason: string) => rejected.push({ reference, reason });
+
+    switch (resource.resourceType) {
+      case 'Observation': {
+        const observation = resource as unknown as FHIRObservation;
+        const slotReference = loincReference(observation.code);
+        const [slotId, field] = (slotReference ?? '').split('.');
+        const slot = slots.get(slotId);
+        const effective = observation.effectiveDateTime ?? observation.effectivePeriod?.end ?? observation.issued;
+
+        if (!slot) {
+          reject('No slot for Observation code');
+          break;
+        }
+        if (slot.type !== 'device' && !RECORD_OBSERVATION_SLOTS.has(slotId)) {
+          reject(`Slot ${slotId} is not prefilled from records`);
+          break;
+        }
+        if (!['final', 'amended', 'corrected'].includes(observation.status)) {
+          reject(`Observation status ${observation.status}`);
+          break;
+        }
+        if (!effective) {
+          reject('Observation has no effective time');
+          break;
+        }
+        if (!withinWindow(slot, effective, IMPORTED_VITALS_MAX_AGE_MS)) {
+          reject(`Older than the ${slotId} prefill window`);
+          break;
+        }
+
+        if (slotId === 'pregnancy_status') {
+          const status = Object.keys(PREGNANCY_SNOMED).find((key) => hasCode(observation.valueCodeableConcept, [PREGNANCY_SNOMED[key].code]));
+          if (status) {
+            values.set(`${slotId}|${effective}`, { slot_id: slotId, value: status, recorded_at: effective, source_references: [reference] });
+          } else {
+            reject('Pregnancy status Observation has no known SNOMED CT value');
+          }
+          break;
+        }
+
+        // Painel (componentes) ou campo isolado de slot object; senão valueQuantity
+        const parts: Array<[string | undefined, FHIRQuantity | undefined]> = observation.component?.length
+          ? observation.component.map((component) => [loincReference(component.code)?.split('.')[1], component.valueQuantity])
+          : [[field, observation.valueQuantity]];
+
+        const key = `${slotId}|${effective}`;
+        const existing = values.get(key);
+        let value: unknown = existing?.value;
+        let used = 0;
+
+        for (const [part, measured] of parts) {
+          if (typeof measured?.value !== 'number' || (slot.structure && !part)) continue;
+
+          let normalized = normalizeUnit(measured.value, measured.code ?? measured.unit, slot.unit);
+          if (normalized === null) continue;
+
+          // Idade gestacional registrada avança com o tempo desde a medição
+          if (slotId === 'gestational_age') normalized = Math.floor(normalized + (now - Date.parse(effective)) / WEEK_MS);
+
+          value = slot.structure ? { ...((value as object) ?? {}), [part!]: normalized } : normalized;
+          used++;
+        }
+
+        if (used === 0) {
+          reject('Observation has no usable valueQuantity');
+          break;
+        }
+
+        values.set(key, {
+          slot_id: slotId,
+          value,
+          recorded_at: effective,
+          source_references: [...(existing?.source_references ?? []), reference],
+        });
+        break;
+      }
+
+      case 'Patient': {
+        // Dados cadastrais não expiram: idade calculada agora, na data da triagem
+        const age = typeof resource.birthDate === 'string' ? ageFromBirthDate(resource.birthDate, now) : null;
+        const sex = PATIENT_SEX[resource.gender as string];
+        const recordedAt = new Date(now).toISOString();
+
+        if (age === null && !sex) {
+          reject('Patient has no birthDate or known gender');
+          break;
+        }
+        if (age !== null && slots.has('age')) {
+          values.set('age', { slot_id: 'age', value: age, recorded_at: recordedAt, source_references: [reference] });
+        }
+        if (sex && slots.has('sex')) {
+          values.set('sex', { slot_id: 'sex', value: sex, recorded_at: recordedAt, source_references: [reference] });
+        }
+        break;
+      }
+
+      case 'Condition': {
+        const slot = slots.get('previous_medical_history');
+        const date = (resource.recordedDate as string | undefined) ?? (resource.onsetDateTime as string | undefined);
+        const condition = conceptText(resource.code as FHIRCodeableConcept);
+
+        if (!slot || !condition) {
+          reject('Condition without code');
+        } else if (hasCode(resource.verificationStatus, ['refuted', 'entered-in-error'])) {
+          reject('Condition refuted or entered in error');
+        } else if (resource.clinicalStatus && !hasCode(resource.clinicalStatus, ['active', 'recurrence', 'relapse'])) {
+          reject('Condition is not active');
+        } else if (!withinWindow(slot, date)) {
+          reject('Older than the previous_medical_history prefill window');
+        } else {
+          appendItem('previous_medical_history', { condition, since: resource.onsetDateTime as string | undefined }, date, reference);
+        }
+        break;
+      }
+
+      case 'MedicationStatement': {
+        const slot = slots.get('medications_in_use');
+        const date = (resource.dateAsserted as string | undefined) ?? (resource.effectiveDateTime as string | undefined);
+        const name = conceptText(resource.medicationCodeableConcept as FHIRCodeableConcept);
+        const dosage = (resource.dosage as Array<{ text?: string }> | undefined)?.[0]?.text;
+
+        if (!slot || !name) {
+          reject('MedicationStatement without medicationCodeableConcept');
+        } else if (!['active', 'intended'].includes(resource.status as string)) {
+          reject(`MedicationStatement status ${resource.status}`);
+        } else if (!withinWindow(slot, date)) {
+          reject('Older than the medications_in_use prefill window');
+        } else {
+          appendItem('medications_in_use', { name, dose: dosage }, date, reference);
+        }
+        break;
+      }
+
+      case 'AllergyIntolerance': {
+        const slot = slots.get('allergy_history');
+        const date = resource.recordedDate as string | undefined;
+        const allergen = conceptText(resource.code as FHIRCodeableConcept);
+        const reaction = (resource.reaction as Array<{ manifestation?: FHIRCodeableConcept[]; severity?: string }> | undefined)?.[0];
+
+        if (!slot || !allergen) {
+          reject('AllergyIntolerance without code');
+        } else if (hasCode(resource.verificationStatus, ['refuted', 'entered-in-error'])) {
+          reject('AllergyIntolerance refuted or entered in error');
+        } else if (resource.clinicalStatus && !hasCode(resource.clinicalStatus, ['active'])) {
+          reject('AllergyIntolerance is not active');
+        } else if (!withinWindow(slot, date)) {
+          reject('Older than the allergy_history prefill window');
+        } else {
+          appendItem(
+            'allergy_history',
+            {
+              allergen,
+              reaction: conceptText(reaction?.manifestation?.[0]),
+              severity: reaction?.severity as 'mild' | 'moderate' | 'severe' | undefined,
+            },
+            date,
+            reference
+          );
+        }
+        break;
+      }
+
+      default:
+        reject(`Unsupported resource type ${resource.resourceType}`);
+    }
+  }
+
+  // Mais antigo primeiro: o mais recente de cada slot vence no histórico
+  const ordered = Array.from(values.values()).sort((a, b) => Date.parse(a.recorded_at) - Date.parse(b.recorded_at));
+  return { values: ordered, rejected };
+}
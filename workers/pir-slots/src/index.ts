@@ -5,25 +5,154 @@
  * Sistema operacional de saúde baseado em LLMs
  *
  * Endpoints:
- * - POST /api/triage/start - Inicia sessão de triagem
- * - POST /api/triage/:sessionId/audio - Processa áudio conversacional
+ * - POST /api/triage/start - Inicia sessão de triagem ({ patient_context?, nurse_id?, extraction_mode? })
+ * - POST /api/triage/:sessionId/audio - Processa áudio conversacional (falante atribuído por fala)
  * - POST /api/triage/:sessionId/text - Processa texto
  * - GET /api/triage/:sessionId/status - Status da extração
  * - GET /api/triage/:sessionId/next-question - Próxima pergunta
  * - POST /api/triage/:sessionId/complete - Finaliza triagem
  * - PUT /api/triage/:sessionId/slots/:slotId - Atualiza slot manual
+ * - GET /api/triage/:sessionId/slots/:slotId/history - Histórico de valores do slot (proveniência)
+ * - POST /api/triage/:sessionId/devices/readings - Medições de dispositivo (JSON ou HL7 v2 ORU^R01)
+ * - GET /api/triage/:sessionId/fhir/bundle - Bundle FHIR R4 (Encounter + Observations LOINC)
+ * - POST /api/triage/:sessionId/fhir/import - Pré-preenche slots com recursos FHIR do prontuário
+ * - GET /api/triage/:sessionId/stream - WebSocket: áudio em streaming com slots ao vivo
+ * - GET /api/triage/:sessionId/protocol - PIR exato usado pela sessão (auditoria)
+ * - POST /api/triage/:sessionId/extraction/compare - Mesmo turno nos modos rhizomatic e batch (nada é gravado)
+ *
+ * Perfil de voz do enfermeiro (atribuição de falante, expira no fim do plantão):
+ * - POST /api/nurses/:nurseId/voice-profile - Cadastra com WAV/PCM de fala (?shift_hours=12)
+ * - GET /api/nurses/:nurseId/voice-profile - Validade do perfil
+ * - DELETE /api/nurses/:nurseId/voice-profile - Apaga o perfil
+ *
+ * Estado de cada sessão vive no Durable Object TriageSession (session/triage-session.ts):
+ * rotas /api/triage/:sessionId/* são encaminhadas ao objeto da sessão.
+ *
+ * Hot reload de protocolo (hot_reload_configuration do PIR):
+ * - GET /api/protocols/:protocolId - Versão ativa + versões registradas
+ * - GET /api/protocols/:protocolId/versions/:version - Documento PIR de uma versão
+ * - POST /api/protocols - Registra nova versão (validada)
+ * - POST /api/protocols/:protocolId/versions/:version/activate - Valida, linta e ativa
+ * - POST /api/protocols/:protocolId/rollback - Volta à versão anterior
+ * - POST /api/protocols/:protocolId/check-source - Consulta o monitor legislativo agora
  */
 
-import { RhizomaticOrchestrator } from './orchestrator/rhizomatic-orchestrator';
+import {
+  HttpLegislativeMonitor,
+  CompositeProtocolNotifier,
+  ConsoleProtocolNotifier,
+  KVProtocolStore,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  WebhookProtocolNotifier,
+  loadManchesterSPProtocol,
+  projectBindingReport,
+  toVersionRef,
+  type PIRBindingReport,
+  type ProtocolNotifier,
+} from '@voither/pir-schema';
+import { DurableObjectTriageSessions, type StartTriageSessionRequest } from './session/triage-session';
+import { detectContainer } from './audio/containers';
+import { AudioDecodeError, decodeToWhisperSamples } from './audio/pcm';
+import { DEFAULT_SHIFT_HOURS, VoiceProfileError, VoiceProfileStore, enrollVoiceProfile } from './speakers/voice-profile';
+import type { ExtractionMode } from './orchestrator/extraction-metrics';
 import type { PatientContext } from './types/slots';
 
+// Durable Object das sessões (precisa ser exportado pelo módulo principal)
+export { TriageSession } from './session/triage-session';
+
 export interface Env {
   AI: any; // Cloudflare Workers AI binding
-  SESSIONS_KV: KVNamespace; // KV para persistir sessões
+  TRIAGE_SESSIONS: DurableObjectNamespace; // Um TriageSession por sessão (histórico + slots)
+  PROTOCOLS_KV: KVNamespace; // Versões de PIR, versão ativa e pins de sessão
+  VOICE_PROFILES_KV?: KVNamespace; // Perfis de voz dos enfermeiros (TTL do plantão)
   ANTHROPIC_API_KEY?: string;
+  PROTOCOL_ADMIN_TOKEN?: string; // Bearer exigido pelos endpoints que alteram protocolos
+  PROTOCOL_NOTIFICATION_WEBHOOK?: string; // Canal de system_admin + clinical_director
+  LEGISLATIVE_MONITOR_URL?: string; // Feed do monitor legislativo (ou stand-in local)
+  EXTRACTION_MODE?: string; // Modo de extração padrão das sessões: rhizomatic (um LLM por slot) ou batch (uma chamada)
+  // Executores: /health expõe o relatório de binding usado no lint antes da ativação
+  TASKS_SERVICE?: Fetcher;
+  GUARDS_SERVICE?: Fetcher;
+  DEADLINES_SERVICE?: Fetcher;
+  REWARDS_SERVICE?: Fetcher;
 }
 
-export default {
+// PIR embarcado: validado no carregamento e versão inicial do protocol store
+const PIR = loadManchesterSPProtocol();
+
+// Um reloader por isolate (contadores de erro pós-ativação vivem nele)
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) {
+    const notifiers: ProtocolNotifier[] = [new ConsoleProtocolNotifier()];
+    if (env.PROTOCOL_NOTIFICATION_WEBHOOK) {
+      notifiers.push(new WebhookProtocolNotifier(env.PROTOCOL_NOTIFICATION_WEBHOOK));
+    }
+
+    reloader = new ProtocolHotReloader({
+      // Pins permanentes: a auditoria (retenção de 20 anos) precisa saber o PIR de qualquer sessão
+      store: new KVProtocolStore(env.PROTOCOLS_KV, null),
+      notifier: new CompositeProtocolNotifier(notifiers),
+      monitor: env.LEGISLATIVE_MONITOR_URL ? new HttpLegislativeMonitor(env.LEGISLATIVE_MONITOR_URL) : undefined,
+      bindings: async (document) => (await fetchBindingReports(env)).map((report) => projectBindingReport(report, document)),
+    });
+  }
+  return reloader;
+}
+
+/**
+ * Relatórios de binding dos executores (via service bindings)
+ * Executor indisponível impede a ativação: não se ativa um PIR sem checar quem vai executá-lo.
+ */
+async function fetchBindingReports(env: Env): Promise<PIRBindingReport[]> {
+  const services: Array<[string, Fetcher | undefined]> = [
+    ['pir-tasks', env.TASKS_SERVICE],
+    ['pir-guards', env.GUARDS_SERVICE],
+    ['pir-deadlines', env.DEADLINES_SERVICE],
+    ['pir-rewards', env.REWARDS_SERVICE],
+  ];
+
+  const reports: PIRBindingReport[] = [];
+  for (const [name, service] of services) {
+    if (!service) continue;
+
+    const response = await service.fetch('https://internal/health');
+    if (!response.ok) {
+      throw new Error(`${name} /health responded ${response.status}`);
+    }
+
+    const health = await response.json<{ binding?: PIRBindingReport }>();
+    if (health.binding) reports.push(health.binding);
+  }
+  return reports;
+}
+
+/**
+ * Resposta do objeto da sessão com os headers CORS do worker
+ */
+function withCors(response: Response, corsHeaders: Record<string, string>): Response {
+  // Upgrade para WebSocket (/stream) passa intacto
+  if (response.status === 101) return response;
+
+  return new Response(response.body, {
+    status: response.status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const RELOAD_ERROR_STATUS: Record<string, number> = {
+  'not-found': 404,
+  'invalid-document': 422,
+  'lint-regression': 422,
+  'version-conflict': 409,
+  'already-active': 409,
+  'hash-mismatch': 409,
+  'no-previous-version': 409,
+};
+
+const router = {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
@@ -41,9 +170,6 @@ export default {
     }
 
     try {
-      // Initialize orchestrator
-      const orchestrator = new RhizomaticOrchestrator(env.AI);
-
       // ========================================================================
       // POST /api/triage/start - Inicia nova sessão
       // ========================================================================
@@ -51,225 +177,245 @@ export default {
         const body = await request.json<{
           patient_id?: string;
           patient_context?: PatientContext;
+          nurse_id?: string; // Usa o perfil de voz do plantão na atribuição de falante
+          extraction_mode?: ExtractionMode; // Sobrepõe EXTRACTION_MODE do deploy
         }>();
 
         const sessionId = crypto.randomUUID();
-        const session = orchestrator.startSession(sessionId, body.patient_context);
-
-        // Persiste em KV
-        await env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(session), {
-          expirationTtl: 3600, // 1 hora
-        });
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            session_id: sessionId,
-            session,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
+        // Sessão presa à versão ativa agora: ativações posteriores não a afetam
+        const reloader = getReloader(env);
+        await reloader.bootstrap(PIR);
+        const protocol = await reloader.pinSession(sessionId, PIR.protocol_id);
+
+        const start: StartTriageSessionRequest = {
+          session_id: sessionId,
+          protocol: toVersionRef(protocol),
+          patient_context: body.patient_context,
+          nurse_id: body.nurse_id,
+          extraction_mode: (body.extraction_mode ?? env.EXTRACTION_MODE) as ExtractionMode | undefined,
+        };
+        const response = await new DurableObjectTriageSessions(env.TRIAGE_SESSIONS)
+          .session(sessionId)
+          .fetch(new Request('https://triage-session/start', { method: 'POST', body: JSON.stringify(start) }));
+
+        return withCors(response, corsHeaders);
       }
 
       // ========================================================================
-      // POST /api/triage/:sessionId/audio - Processa áudio STT + extração
+      // GET /api/triage/:sessionId/protocol - PIR exato usado pela sessão
       // ========================================================================
-      const audioMatch = path.match(/^\/api\/triage\/([^/]+)\/audio$/);
-      if (audioMatch && request.method === 'POST') {
-        const sessionId = audioMatch[1];
-
-        // Recebe áudio como ArrayBuffer
-        const contentType = request.headers.get('Content-Type') || '';
-        let audioBuffer: ArrayBuffer;
-
-        if (contentType.includes('multipart/form-data')) {
-          const formData = await request.formData();
-          const audioFile = formData.get('audio') as File;
-          if (!audioFile) {
-            return new Response(
-              JSON.stringify({ error: 'No audio file provided' }),
-              { status: 400, headers: corsHeaders }
-            );
-          }
-          audioBuffer = await audioFile.arrayBuffer();
-        } else {
-          audioBuffer = await request.arrayBuffer();
-        }
-
-        const speaker = url.searchParams.get('speaker') as 'nurse' | 'patient' || 'patient';
+      const sessionProtocolMatch = path.match(/^\/api\/triage\/([^/]+)\/protocol$/);
+      if (sessionProtocolMatch && request.method === 'GET') {
+        const protocol = await getReloader(env).resolveSession(sessionProtocolMatch[1]);
 
-        // Processa áudio + extração rizomática paralela
-        const result = await orchestrator.processAudioAndExtractSlots(sessionId, audioBuffer, speaker);
-
-        // Atualiza KV
-        await env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(result.session_state));
+        if (!protocol) {
+          return new Response(JSON.stringify({ error: 'Session not found' }), {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          });
+        }
 
         return new Response(
           JSON.stringify({
             success: true,
-            transcription: result.transcription.text,
-            extracted_slots: result.extraction_results,
-            progress: result.progress,
+            session_id: sessionProtocolMatch[1],
+            protocol: toVersionRef(protocol),
+            document: protocol.document,
           }),
           {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', ETag: `"${protocol.content_hash}"` },
           }
         );
       }
 
       // ========================================================================
-      // POST /api/triage/:sessionId/text - Processa texto + extração
+      // /api/triage/:sessionId/* - Encaminha ao Durable Object da sessão
+      // (audio, text, status, next-question, complete, slots/:slotId, slots/:slotId/extract, slots/:slotId/history, devices/readings, fhir/bundle, fhir/import, stream, extraction/compare)
       // ========================================================================
-      const textMatch = path.match(/^\/api\/triage\/([^/]+)\/text$/);
-      if (textMatch && request.method === 'POST') {
-        const sessionId = textMatch[1];
-        const body = await request.json<{
-          text: string;
-          speaker: 'nurse' | 'patient' | 'system';
-        }>();
-
-        const result = await orchestrator.processTextAndExtractSlots(sessionId, body.text, body.speaker);
-
-        // Atualiza KV
-        await env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(result.session_state));
-
-        return new Response(
-          JSON.stringify({
-            success: true,
-            extracted_slots: result.extraction_results,
-            progress: result.progress,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
+      const sessionRouteMatch = path.match(/^\/api\/triage\/([^/]+)(\/.+)$/);
+      if (sessionRouteMatch) {
+        const [, sessionId, route] = sessionRouteMatch;
+        const response = await new DurableObjectTriageSessions(env.TRIAGE_SESSIONS)
+          .session(sessionId)
+          .fetch(new Request(`https://triage-session${route}${url.search}`, request));
+
+        return withCors(response, corsHeaders);
       }
 
       // ========================================================================
-      // GET /api/triage/:sessionId/status - Status da sessão
+      // /api/nurses/:nurseId/voice-profile - Perfil de voz do plantão
       // ========================================================================
-      const statusMatch = path.match(/^\/api\/triage\/([^/]+)\/status$/);
-      if (statusMatch && request.method === 'GET') {
-        const sessionId = statusMatch[1];
-        const session = orchestrator.getSession(sessionId);
-
-        if (!session) {
-          // Tenta recuperar do KV
-          const stored = await env.SESSIONS_KV.get(`session:${sessionId}`);
-          if (!stored) {
-            return new Response(
-              JSON.stringify({ error: 'Session not found' }),
-              { status: 404, headers: corsHeaders }
-            );
-          }
-
-          return new Response(stored, {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          });
+      const voiceProfileMatch = path.match(/^\/api\/nurses\/([^/]+)\/voice-profile$/);
+      if (voiceProfileMatch) {
+        const nurseId = decodeURIComponent(voiceProfileMatch[1]);
+        const respond = (body: unknown, status = 200) =>
+          new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+        if (!env.VOICE_PROFILES_KV) {
+          return respond({ error: 'Voice enrollment disabled (VOICE_PROFILES_KV not bound)' }, 403);
         }
+        const store = new VoiceProfileStore(env.VOICE_PROFILES_KV);
+
+        if (request.method === 'POST') {
+          const contentType = request.headers.get('Content-Type') || '';
+          const audio = contentType.includes('multipart/form-data')
+            ? await ((await request.formData()).get('audio') as unknown as File | null)?.arrayBuffer()
+            : await request.arrayBuffer();
+          if (!audio) return respond({ error: 'No audio file provided' }, 400);
+
+          // Perfil precisa das amostras: WAV ou PCM s16le 16 kHz (Opus/MP3 não são decodificados no Worker)
+          const bytes = new Uint8Array(audio);
+          const container = detectContainer(bytes);
+          if (container !== 'wav' && container !== 'unknown') {
+            return respond({ error: `Voice enrollment requires WAV or raw PCM audio (got ${container ?? 'too few bytes'})` }, 400);
+          }
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            session,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          try {
+            const shiftHours = Number(url.searchParams.get('shift_hours') ?? DEFAULT_SHIFT_HOURS);
+            const profile = enrollVoiceProfile(nurseId, decodeToWhisperSamples(bytes), shiftHours);
+            await store.put(profile);
+            console.log(`[VOICE-PROFILE] Enrolled ${nurseId} until ${profile.expires_at}`);
+
+            return respond(
+              {
+                success: true,
+                nurse_id: nurseId,
+                enrolled_at: profile.enrolled_at,
+                expires_at: profile.expires_at,
+                speech_ms: profile.features.speech_ms,
+                pitch_hz: profile.features.pitch_hz,
+              },
+              201
+            );
+          } catch (error) {
+            if (error instanceof VoiceProfileError || error instanceof AudioDecodeError) return respond({ error: error.message }, 400);
+            throw error;
           }
-        );
-      }
+        }
 
-      // ========================================================================
-      // GET /api/triage/:sessionId/next-question - Próxima pergunta inteligente
-      // ========================================================================
-      const nextQuestionMatch = path.match(/^\/api\/triage\/([^/]+)\/next-question$/);
-      if (nextQuestionMatch && request.method === 'GET') {
-        const sessionId = nextQuestionMatch[1];
-        const nextQuestion = await orchestrator.generateNextQuestion(sessionId);
+        if (request.method === 'GET') {
+          const profile = await store.get(nurseId);
+          if (!profile) return respond({ error: 'Voice profile not found' }, 404);
+          return respond({ success: true, nurse_id: nurseId, enrolled_at: profile.enrolled_at, expires_at: profile.expires_at });
+        }
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            next_question: nextQuestion,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          }
-        );
+        if (request.method === 'DELETE') {
+          await store.delete(nurseId);
+          return respond({ success: true, nurse_id: nurseId });
+        }
       }
 
       // ========================================================================
-      // POST /api/triage/:sessionId/complete - Finaliza triagem
+      // /api/protocols - Hot reload de protocolo
       // ========================================================================
-      const completeMatch = path.match(/^\/api\/triage\/([^/]+)\/complete$/);
-      if (completeMatch && request.method === 'POST') {
-        const sessionId = completeMatch[1];
-        const result = orchestrator.completeSession(sessionId);
+      if (path.startsWith('/api/protocols')) {
+        const reloader = getReloader(env);
+        await reloader.bootstrap(PIR);
+
+        const isMutation = request.method === 'POST';
+        if (isMutation && (!env.PROTOCOL_ADMIN_TOKEN || request.headers.get('Authorization') !== `Bearer ${env.PROTOCOL_ADMIN_TOKEN}`)) {
+          return new Response(
+            JSON.stringify({
+              error: env.PROTOCOL_ADMIN_TOKEN ? 'Unauthorized' : 'Protocol administration disabled (PROTOCOL_ADMIN_TOKEN not set)',
+            }),
+            { status: env.PROTOCOL_ADMIN_TOKEN ? 401 : 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
 
-        // Exporta para formato PIR
-        const pirData = orchestrator.exportToPIR(sessionId);
+        try {
+          // POST /api/protocols - Registra versão (staged)
+          if (path === '/api/protocols' && isMutation) {
+            const summary = await reloader.register(await request.json(), 'api');
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            session: result.session,
-            filled_slots: result.filled_slots,
-            progress: result.progress,
-            pir_export: pirData,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            return new Response(JSON.stringify({ success: true, version: summary }), {
+              status: 201,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
           }
-        );
-      }
-
-      // ========================================================================
-      // PUT /api/triage/:sessionId/slots/:slotId - Atualiza slot manualmente
-      // ========================================================================
-      const updateSlotMatch = path.match(/^\/api\/triage\/([^/]+)\/slots\/([^/]+)$/);
-      if (updateSlotMatch && request.method === 'PUT') {
-        const sessionId = updateSlotMatch[1];
-        const slotId = updateSlotMatch[2];
-        const body = await request.json<{ value: any }>();
 
-        orchestrator.updateSlotManually(sessionId, slotId as any, body.value);
+          // GET /api/protocols/:protocolId - Versão ativa + histórico
+          const protocolMatch = path.match(/^\/api\/protocols\/([^/]+)$/);
+          if (protocolMatch && request.method === 'GET') {
+            const [active, versions] = await Promise.all([
+              reloader.getActive(protocolMatch[1]),
+              reloader.listVersions(protocolMatch[1]),
+            ]);
+
+            if (!active) {
+              return new Response(JSON.stringify({ error: 'Protocol not found' }), {
+                status: 404,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              });
+            }
+
+            return new Response(JSON.stringify({ success: true, active, versions }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
 
-        const session = orchestrator.getSession(sessionId);
-        await env.SESSIONS_KV.put(`session:${sessionId}`, JSON.stringify(session));
+          // GET /api/protocols/:protocolId/versions/:version - Documento PIR
+          const versionMatch = path.match(/^\/api\/protocols\/([^/]+)\/versions\/([^/]+)$/);
+          if (versionMatch && request.method === 'GET') {
+            const resolved = await reloader.resolveVersion(versionMatch[1], decodeURIComponent(versionMatch[2]));
+
+            if (!resolved) {
+              return new Response(JSON.stringify({ error: 'Protocol version not found' }), {
+                status: 404,
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+              });
+            }
+
+            return new Response(JSON.stringify(resolved.document), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json', ETag: `"${resolved.content_hash}"` },
+            });
+          }
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            message: `Slot ${slotId} updated`,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          // POST /api/protocols/:protocolId/versions/:version/activate - Gates + troca atômica
+          const activateMatch = path.match(/^\/api\/protocols\/([^/]+)\/versions\/([^/]+)\/activate$/);
+          if (activateMatch && isMutation) {
+            const body = await request.json<{ actor?: string; reason?: string }>().catch(() => ({} as { actor?: string; reason?: string }));
+            const result = await reloader.activate(activateMatch[1], decodeURIComponent(activateMatch[2]), {
+              actor: `api:${body.actor ?? 'admin'}`,
+              reason: body.reason,
+            });
+
+            return new Response(JSON.stringify({ success: true, ...result }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
           }
-        );
-      }
 
-      // ========================================================================
-      // POST /api/triage/:sessionId/slots/:slotId/extract - Força re-extração
-      // ========================================================================
-      const forceExtractMatch = path.match(/^\/api\/triage\/([^/]+)\/slots\/([^/]+)\/extract$/);
-      if (forceExtractMatch && request.method === 'POST') {
-        const sessionId = forceExtractMatch[1];
-        const slotId = forceExtractMatch[2];
+          // POST /api/protocols/:protocolId/rollback - Volta à versão anterior
+          const rollbackMatch = path.match(/^\/api\/protocols\/([^/]+)\/rollback$/);
+          if (rollbackMatch && isMutation) {
+            const body = await request.json<{ actor?: string; reason?: string }>().catch(() => ({} as { actor?: string; reason?: string }));
+            const result = await reloader.rollback(rollbackMatch[1], {
+              actor: `api:${body.actor ?? 'admin'}`,
+              reason: body.reason,
+            });
+
+            return new Response(JSON.stringify({ success: true, ...result }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
+          }
 
-        const result = await orchestrator.forceExtractSlot(sessionId, slotId as any);
+          // POST /api/protocols/:protocolId/check-source - Consulta o monitor sem esperar check_interval
+          const checkMatch = path.match(/^\/api\/protocols\/([^/]+)\/check-source$/);
+          if (checkMatch && isMutation) {
+            const result = await reloader.checkSource(checkMatch[1], { force: true });
 
-        return new Response(
-          JSON.stringify({
-            success: true,
-            slot_id: slotId,
-            extraction_result: result,
-          }),
-          {
-            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            return new Response(JSON.stringify({ success: result.status !== 'failed', ...result }), {
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            });
           }
-        );
+        } catch (error) {
+          if (!(error instanceof ProtocolReloadError)) throw error;
+
+          return new Response(
+            JSON.stringify({ error: error.message, reason: error.reason, diagnostics: error.diagnostics }),
+            { status: RELOAD_ERROR_STATUS[error.reason], headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
       }
 
       // ========================================================================
@@ -282,7 +428,10 @@ export default {
             version: '1.0.0',
             status: 'operational',
             architecture: 'rhizomatic-parallel',
+            extraction_mode: env.EXTRACTION_MODE ?? 'rhizomatic',
             extractors: 18,
+            protocol: { protocol_id: PIR.protocol_id, version: PIR.version, slots: PIR.slots.length },
+            active_protocol: await getReloader(env).getActive(PIR.protocol_id),
             models: ['@cf/openai/whisper', '@cf/meta/llama-3.1-8b-instruct'],
             endpoints: [
               'POST /api/triage/start',
@@ -293,6 +442,22 @@ export default {
               'POST /api/triage/:sessionId/complete',
               'PUT /api/triage/:sessionId/slots/:slotId',
               'POST /api/triage/:sessionId/slots/:slotId/extract',
+              'GET /api/triage/:sessionId/slots/:slotId/history',
+              'POST /api/triage/:sessionId/devices/readings',
+              'GET /api/triage/:sessionId/fhir/bundle',
+              'POST /api/triage/:sessionId/fhir/import',
+              'GET /api/triage/:sessionId/stream (WebSocket)',
+              'GET /api/triage/:sessionId/protocol',
+              'POST /api/triage/:sessionId/extraction/compare',
+              'POST /api/nurses/:nurseId/voice-profile',
+              'GET /api/nurses/:nurseId/voice-profile',
+              'DELETE /api/nurses/:nurseId/voice-profile',
+              'GET /api/protocols/:protocolId',
+              'GET /api/protocols/:protocolId/versions/:version',
+              'POST /api/protocols',
+              'POST /api/protocols/:protocolId/versions/:version/activate',
+              'POST /api/protocols/:protocolId/rollback',
+              'POST /api/protocols/:protocolId/check-source',
             ],
           }),
           {
@@ -321,3 +486,38 @@ export default {
     }
   },
 };
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const response = await router.fetch(request, env, ctx);
+
+    // Resultado de cada requisição de sessão alimenta o rollback automático da versão a que ela está presa
+    const sessionMatch = new URL(request.url).pathname.match(/^\/api\/triage\/([^/]+)\//);
+    if (sessionMatch && request.method !== 'OPTIONS') {
+      ctx.waitUntil(
+        (async () => {
+          const reloader = getReloader(env);
+          const protocol = await reloader.resolveSession(sessionMatch[1]);
+          if (protocol) await reloader.recordOutcome(protocol, response.status < 500);
+        })().catch((error) => console.error('[HOT-RELOAD] Outcome tracking failed:', error))
+      );
+    }
+
+    return response;
+  },
+
+  // Cron: consulta o monitor legislativo (o reloader respeita check_interval do PIR ativo)
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const reloader = getReloader(env);
+
+    ctx.waitUntil(
+      (async () => {
+        await reloader.bootstrap(PIR);
+        const result = await reloader.checkSource(PIR.protocol_id);
+        console.log(
+          `[HOT-RELOAD] Source check ${result.status}: ${result.applied.length} applied, ${result.rejected.length} rejected, ${result.ignored.length} ignored`
+        );
+      })().catch((error) => console.error('[HOT-RELOAD] Source check failed:', error))
+    );
+  },
+};
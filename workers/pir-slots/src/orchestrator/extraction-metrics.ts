@@ -0,0 +1,177 @@
+/**
+ * PIR Extraction Metrics - Custo e latência da extração por round
+ *
+ * Mede as chamadas de LLM dos extractors (Whisper fica de fora) para comparar
+ * os modos de extração nas mesmas entradas:
+ * - rhizomatic: um extractor (e uma chamada) por slot selecionado pelo planner
+ * - batch: uma chamada só com todos os slots conversacionais (JSON schema)
+ */
+
+export type ExtractionMode = 'rhizomatic' | 'batch';
+
+export const EXTRACTION_MODES: ExtractionMode[] = ['rhizomatic', 'batch'];
+
+export function isExtractionMode(value: unknown): value is ExtractionMode {
+  return EXTRACTION_MODES.includes(value as ExtractionMode);
+}
+
+export interface ExtractionMetrics {
+  mode: ExtractionMode;
+  model_calls: number;
+  input_chars: number; // Prompts enviados (system + user)
+  output_chars: number;
+  input_tokens: number | null; // usage do Workers AI, quando o modelo reporta
+  output_tokens: number | null;
+  latency_ms: number; // Round inteiro (padrões + LLM + validação)
+}
+
+export function emptyMetrics(mode: ExtractionMode): ExtractionMetrics {
+  return { mode, model_calls: 0, input_chars: 0, output_chars: 0, input_tokens: null, output_tokens: null, latency_ms: 0 };
+}
+
+/**
+ * Soma rounds (upload de áudio com vários turnos)
+ */
+export function addMetrics(total: ExtractionMetrics, round: ExtractionMetrics): ExtractionMetrics {
+  const sum = (left: number | null, right: number | null) => (left === null && right === null ? null : (left ?? 0) + (right ?? 0));
+
+  return {
+    mode: round.mode,
+    model_calls: total.model_calls + round.model_calls,
+    input_chars: total.input_chars + round.input_chars,
+    output_chars: total.output_chars + round.output_chars,
+    input_tokens: sum(total.input_tokens, round.input_tokens),
+    output_tokens: sum(total.output_tokens, round.output_tokens),
+    latency_ms: total.latency_ms + round.latency_ms,
+  };
+}
+
+/**
+ * Binding do Workers AI que conta chamadas, caracteres e tokens
+ * (repassa tudo ao binding real; o SDK @cloudflare/ai o usa como se fosse o original)
+ */
+export class MeteredAIBinding {
+  private totals = { model_calls: 0, input_chars: 0, output_chars: 0, input_tokens: null as number | null, output_tokens: null as number | null };
+
+  constructor(private binding: any) {}
+
+  get lastRequestId(): string | undefined {
+    return this.binding.lastRequestId;
+  }
+
+  getLogs(): unknown {
+    return this.binding.getLogs?.();
+  }
+
+  async run(model: string, inputs: any, options?: unknown): Promise<any> {
+    this.totals.model_calls++;
+    this.totals.input_chars += Array.isArray(inputs?.messages)
+      ? inputs.messages.reduce((total: number, message: { content?: string }) => total + (message.content?.length ?? 0), 0)
+      : String(inputs?.prompt ?? '').length;
+
+    const response = await this.binding.run(model, inputs, options);
+
+    const output = response?.response;
+    this.totals.output_chars += typeof output === 'string' ? output.length : output ? JSON.stringify(output).length : 0;
+    if (typeof response?.usage?.prompt_tokens === 'number') {
+      this.totals.input_tokens = (this.totals.input_tokens ?? 0) + response.usage.prompt_tokens;
+    }
+    if (typeof response?.usage?.completion_tokens === 'number') {
+      this.totals.output_tokens = (this.totals.output_tokens ?? 0) + response.usage.completion_tokens;
+    }
+
+    return response;
+  }
+
+  /**
+   * Mede o que `operation` gastou (rounds de uma sessão são serializados pelo Durable Object)
+   */
+  async measure<R>(mode: ExtractionMode, operation: () => Promise<R>): Promise<{ result: R; metrics: ExtractionMetrics }> {
+    const before = { ...this.totals };
+    const startedAt = Date.now();
+    const result = await operation();
+    const diff = (after: number | null, start: number | null) => (after === null ? null : after - (start ?? 0));
+
+    return {
+      result,
+      metrics: {
+        mode,
+        model_calls: this.totals.model_calls - before.model_calls,
+        input_chars: this.totals.input_chars - before.input_chars,
+        output_chars: this.totals.output_chars - before.output_chars,
+        input_tokens: diff(this.totals.input_tokens, before.input_tokens),
+        output_tokens: diff(this.totals.output_tokens, before.output_tokens),
+        latency_ms: Date.now() - startedAt,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// COMPARAÇÃO ENTRE MODOS
+// ============================================================================
+
+export interface SlotAgreement {
+  slot_id: string;
+  rhizomatic: unknown; // null = não extraído no modo
+  batch: unknown;
+  agree: boolean;
+}
+
+export interface ModeAccuracy {
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1
+  mismatches: Array<{ slot_id: string; expected: unknown; actual: unknown }>;
+}
+
+/**
+ * Texto comparado sem acento, caixa e espaços extras; objetos com chaves ordenadas
+ */
+function canonical(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim());
+  }
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, field]) => field !== undefined && field !== null);
+    return `{${entries.sort(([left], [right]) => left.localeCompare(right)).map(([key, field]) => `${key}:${canonical(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Valores extraídos no round por cada modo, slot a slot
+ */
+export function compareSlotValues(
+  rhizomatic: Record<string, { value: unknown } | undefined>,
+  batch: Record<string, { value: unknown } | undefined>
+): SlotAgreement[] {
+  const slotIds = Array.from(new Set([...Object.keys(rhizomatic), ...Object.keys(batch)]));
+
+  return slotIds.map((slotId) => {
+    const left = rhizomatic[slotId]?.value ?? null;
+    const right = batch[slotId]?.value ?? null;
+    return { slot_id: slotId, rhizomatic: left, batch: right, agree: canonical(left) === canonical(right) };
+  });
+}
+
+/**
+ * Estado dos slots depois do round contra os valores esperados (texto livre precisa casar literalmente)
+ */
+export function scoreAccuracy(slotState: Record<string, unknown>, expected: Record<string, unknown>): ModeAccuracy {
+  const mismatches: ModeAccuracy['mismatches'] = [];
+
+  for (const [slotId, value] of Object.entries(expected)) {
+    const actual = slotState[slotId] ?? null;
+    if (canonical(actual) !== canonical(value)) mismatches.push({ slot_id: slotId, expected: value, actual });
+  }
+
+  const total = Object.keys(expected).length;
+  return {
+    correct: total - mismatches.length,
+    total,
+    accuracy: total ? Math.round(((total - mismatches.length) / total) * 100) / 100 : 1,
+    mismatches,
+  };
+}
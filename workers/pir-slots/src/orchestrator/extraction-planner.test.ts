@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol, type PIRSlot } from '@voither/pir-schema';
+import type { ConversationTurn } from '../types/slots';
+import { ExtractionPlanner, type PlanningContext, type SlotFillMetadata } from './extraction-planner';
+
+const PIR = loadManchesterSPProtocol();
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+
+// Subconjunto com dependências de condition (bleeding_severity) e de computation (sepsis_criteria)
+const SLOT_IDS = [
+  'chief_complaint',
+  'pain_score',
+  'blood_pressure',
+  'consciousness_level',
+  'bleeding_present',
+  'bleeding_severity',
+  'glucose_level',
+  'allergy_history',
+  'respiratory_rate',
+  'sepsis_criteria',
+];
+
+const nurse = (content: string): ConversationTurn => ({ role: 'nurse', content });
+const patient = (content: string): ConversationTurn => ({ role: 'patient', content });
+
+function slotMap(change?: (slots: PIRSlot[]) => void): Map<string, PIRSlot> {
+  const slots = structuredClone(PIR.slots);
+  change?.(slots);
+  return new Map(slots.map((slot) => [slot.slot_id, slot]));
+}
+
+function filled(confidence: number, source: SlotFillMetadata['source'], filledAt = '2026-10-19T09:59:00Z'): SlotFillMetadata {
+  return { confidence, source, filled_at: filledAt, turn_index: 0 };
+}
+
+function context(overrides: Partial<PlanningContext>): PlanningContext {
+  return { slot_state: {}, slot_metadata: {}, conversation: [], changed: new Set(), now: NOW, ...overrides };
+}
+
+describe('ExtractionPlanner', () => {
+  const planner = new ExtractionPlanner(slotMap(), SLOT_IDS);
+
+  describe('waves', () => {
+    it('places each slot after its condition and computation inputs', () => {
+      expect(planner.waves()).toEqual([
+        ['chief_complaint', 'pain_score', 'blood_pressure', 'consciousness_level', 'bleeding_present', 'glucose_level', 'allergy_history', 'respiratory_rate'],
+        ['bleeding_severity', 'sepsis_criteria'],
+      ]);
+    });
+
+    it('ignores dependencies outside the planned slots', () => {
+      const partial = new ExtractionPlanner(slotMap(), ['bleeding_severity', 'sepsis_criteria', 'respiratory_rate']);
+      expect(partial.waves()).toEqual([['bleeding_severity', 'respiratory_rate'], ['sepsis_criteria']]);
+    });
+
+    it('breaks dependency cycles instead of recursing forever', () => {
+      const cyclic = new ExtractionPlanner(
+        slotMap((slots) => {
+          slots.find((slot) => slot.slot_id === 'bleeding_present')!.condition = "bleeding_severity == 'intenso'";
+        }),
+        ['bleeding_present', 'bleeding_severity']
+      );
+      expect(cyclic.waves()).toEqual([['bleeding_severity'], ['bleeding_present']]);
+    });
+  });
+
+  describe('conditional slots', () => {
+    const conversation = [patient('Estou com um sangramento intenso na perna.')];
+
+    it('skips slots whose condition is false', () => {
+      const decision = planner.decide('bleeding_severity', context({ slot_state: { bleeding_present: false }, conversation }));
+      expect(decision).toEqual({ slot_id: 'bleeding_severity', run: false, reason: 'condition_unmet' });
+    });
+
+    it('waits while the condition depends on an empty slot', () => {
+      const decision = planner.decide('bleeding_severity', context({ conversation }));
+      expect(decision).toEqual({ slot_id: 'bleeding_severity', run: false, reason: 'condition_pending' });
+    });
+
+    it('runs once the condition holds and the turn mentions the slot', () => {
+      const decision = planner.decide('bleeding_severity', context({ slot_state: { bleeding_present: true }, conversation }));
+      expect(decision).toEqual({ slot_id: 'bleeding_severity', run: true, reason: 'mentioned' });
+    });
+
+    it('runs conditionally while the condition waits on a deferred batch slot', () => {
+      const decision = planner.decide('bleeding_severity', context({ conversation, deferred: new Set(['bleeding_present']) }));
+      expect(decision).toEqual({ slot_id: 'bleeding_severity', run: true, reason: 'mentioned', conditional: true });
+    });
+
+    it('does not block on condition names that are not slots', () => {
+      const decision = planner.decide('glucose_level', context({ conversation: [patient('A glicemia deu 250.')] }));
+      expect(decision).toMatchObject({ run: true, reason: 'mentioned' });
+    });
+  });
+
+  describe('computed slots', () => {
+    it('recompute only when an input changed in the turn', () => {
+      expect(planner.decide('sepsis_criteria', context({ changed: new Set(['respiratory_rate']) }))).toMatchObject({ run: true, reason: 'inputs_changed' });
+      expect(planner.decide('sepsis_criteria', context({ changed: new Set(['pain_score']) }))).toMatchObject({ run: false, reason: 'inputs_unchanged' });
+    });
+  });
+
+  describe('filled slots', () => {
+    it('skips confident values unless the turn mentions them again', () => {
+      const state = { slot_state: { pain_score: 6 }, slot_metadata: { pain_score: filled(0.9, 'regex') } };
+      expect(planner.decide('pain_score', context({ ...state, conversation: [patient('Estou bem.')] }))).toMatchObject({ run: false, reason: 'filled' });
+      expect(planner.decide('pain_score', context({ ...state, conversation: [patient('Agora a dor é 8/10.')] }))).toMatchObject({ run: true, reason: 'mentioned' });
+    });
+
+    it('never re-extracts a manual correction', () => {
+      const decision = planner.decide(
+        'pain_score',
+        context({ slot_state: { pain_score: 6 }, slot_metadata: { pain_score: filled(1, 'manual') }, conversation: [patient('A dor é 8/10.')] })
+      );
+      expect(decision).toMatchObject({ run: false, reason: 'manual' });
+    });
+
+    it('reports stale and low-confidence values that the turn does not mention', () => {
+      const conversation = [patient('Estou bem.')];
+      const stale = planner.decide(
+        'pain_score',
+        context({ slot_state: { pain_score: 6 }, slot_metadata: { pain_score: filled(0.9, 'regex', '2026-10-19T09:50:00Z') }, conversation })
+      );
+      expect(stale).toMatchObject({ run: false, reason: 'stale' }); // last_known(<5m)
+
+      const unsure = planner.decide('pain_score', context({ slot_state: { pain_score: 6 }, slot_metadata: { pain_score: filled(0.5, 'regex') }, conversation }));
+      expect(unsure).toMatchObject({ run: false, reason: 'low_confidence' });
+    });
+  });
+
+  describe('mentions', () => {
+    it('counts the nurse question that the patient answers', () => {
+      const answered = planner.decide('allergy_history', context({ conversation: [nurse('Tem alergia a algum remédio?'), patient('Não.')] }));
+      expect(answered).toMatchObject({ run: true, reason: 'mentioned' });
+
+      const unrelated = planner.decide('allergy_history', context({ conversation: [nurse('Tem alergia a algum remédio?'), nurse('Vou medir sua pressão.')] }));
+      expect(unrelated).toMatchObject({ run: false, reason: 'not_mentioned' });
+    });
+
+    it('keeps the chief complaint open while the patient talks', () => {
+      expect(planner.decide('chief_complaint', context({ conversation: [patient('Vim por causa do meu joelho.')] }))).toMatchObject({
+        run: true,
+        reason: 'open_ended',
+      });
+      expect(planner.decide('chief_complaint', context({ conversation: [nurse('Bom dia.')] }))).toMatchObject({ run: false, reason: 'not_mentioned' });
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * PIR Extraction Planner - Extração incremental por turno
+ *
+ * Decide, a cada turno, quais extractors rodam:
+ * - Slot preenchido com confiança alta e não expirado só roda se o turno voltar a citá-lo
+ * - Slot vazio (ou expirado, ou de baixa confiança) roda se o turno (ou a pergunta
+ *   que ele responde) o menciona: extraction.patterns do PIR + palavras-chave
+ * - `condition` do PIR: falsa → não roda; dependendo de slot ainda vazio → aguarda
+ * - Slots computados rodam quando algum input mudou no turno
+ *
+ * Dependências (condition, computation.inputs) definem ondas: bleeding_severity só
+ * é decidido depois que bleeding_present foi extraído no mesmo turno.
+ */
+
+import {
+  collectPaths,
+  compileCondition,
+  evaluateConditionTristate,
+  parseExpression,
+  type PIRSlot,
+} from '@voither/pir-schema';
+import { foldText } from '../extractors/clinical-context';
+import { SlotPatternMatcher } from '../extractors/pattern-matcher';
+import type { ConversationTurn, TextSpan } from '../types/slots';
+import type { ExtractionMetrics } from './extraction-metrics';
+import type { ProvenanceSource } from './slot-provenance';
+
+/**
+ * Confiança a partir da qual um slot preenchido deixa de ser re-extraído
+ */
+export const CONFIDENT_FILL_THRESHOLD = 0.8;
+
+export interface SlotFillMetadata {
+  confidence: number;
+  source: ProvenanceSource;
+  filled_at: string;
+  turn_index: number; // Turno que originou o valor (-1 = fora da conversa)
+}
+
+export type PlanRunReason = 'mentioned' | 'open_ended' | 'inputs_changed';
+
+export type PlanSkipReason =
+  | 'filled' // Preenchido, confiável e não citado no turno
+  | 'manual' // Corrigido pelo enfermeiro
+  | 'stale' // Preenchido, mas além da validade de auto_fill (last_known)
+  | 'low_confidence'
+  | 'not_mentioned'
+  | 'condition_unmet' // condition do PIR falsa
+  | 'condition_pending' // condition depende de slot ainda vazio
+  | 'inputs_unchanged'; // Computado sem input novo
+
+export interface PlanDecision {
+  slot_id: string;
+  run: boolean;
+  reason: PlanRunReason | PlanSkipReason;
+  conditional?: boolean; // Condição depende de slots adiados (modo batch): confirmada depois da chamada
+}
+
+export interface ExtractionPlanReport {
+  ran: Array<{ slot_id: string; reason: PlanRunReason }>;
+  skipped: Array<{ slot_id: string; reason: PlanSkipReason }>;
+  ran_count: number;
+  skipped_count: number;
+  metrics?: ExtractionMetrics; // Chamadas de LLM, tokens e latência do round (comparação entre modos)
+}
+
+export interface PlanningContext {
+  slot_state: Record<string, unknown>;
+  slot_metadata: Record<string, SlotFillMetadata | undefined>;
+  conversation: ConversationTurn[];
+  changed: Set<string>; // Slots preenchidos/alterados em ondas anteriores deste turno
+  deferred?: Set<string>; // Modo batch: slots cujo valor só chega na chamada única do fim do round
+  now: number;
+}
+
+/**
+ * Menções por slot (texto sem acento, minúsculo)
+ * Complementam extraction.patterns: perguntas do enfermeiro e respostas curtas raramente casam com os padrões.
+ */
+const SLOT_MENTIONS: Record<string, RegExp> = {
+  pain_score: /\b(dor|doi|doendo|escala|nota)\b|\d+\s*\/\s*10/,
+  temperature: /\b(febre|febril|temperatura|graus|termometro|tax)\b/,
+  heart_rate: /\b(frequencia cardiaca|fc|pulso|batimentos?|bpm|taquicardi\w*|palpitac\w*)\b/,
+  blood_pressure: /\b(pressao|pa|mmhg|hipertens\w*|hipotens\w*)\b|\d{2,3}\s*(x|por)\s*\d{2,3}/,
+  oxygen_saturation: /\b(saturacao|saturando|sat|spo2|oximetr\w*|oxigenio)\b/,
+  respiratory_rate: /\b(frequencia respiratoria|fr|respira\w*|irpm|falta de ar|dispneia)\b/,
+  glucose_level: /\b(glicemia|glicose|hgt|dextro|diabet\w*|acucar)\b/,
+  consciousness_level: /\b(consciente|inconsciente|confus\w*|desorientad\w*|alerta|respond\w*|desmai\w*|sonolent\w*|glasgow)\b/,
+  bleeding_present: /\b(sangr\w*|sangue|hemorrag\w*)\b/,
+  bleeding_severity: /\b(sangr\w*|sangue|hemorrag\w*)\b/,
+  symptom_onset: /\b(ha|faz|desde|comecou|iniciou|ontem|horas?|dias?|minutos?|semanas?)\b/,
+  previous_medical_history: /\b(doencas?|diabet\w*|hipertens\w*|cardiac\w*|asma\w*|cirurgias?|historico|trata\w*)\b/,
+  medications_in_use: /\b(remedios?|medicac\w*|medicamentos?|toma|tomo|uso|usa)\b/,
+  allergy_history: /\b(alergi\w*|alergic\w*)\b/,
+  trauma_mechanism: /\b(acidente|queda|caiu|cai|bateu|batida|atropela\w*|facada|tiro|agress\w*|trauma\w*)\b/,
+  neurological_deficit: /\b(fraqueza|paralisi\w*|formigamento|dormencia|fala|falar|boca torta|rosto|avc|derrame)\b/,
+  chest_pain_characteristics: /\b(peito|torax|toracic\w*|precordi\w*|aperto|irradia\w*|suor|sudorese)\b/,
+  age: /\b(idade|anos?|meses|nasc\w*|aniversario)\b/,
+  sex: /\b(sexo|masculino|feminino|homem|mulher|menino|menina|gravida|gestante)\b/,
+  pregnancy_status: /\b(gravid\w*|gestant\w*|gestac\w*|menstrua\w*|menopausa|histerectomia)\b/,
+  gestational_age: /\b(semanas?|gestac\w*|gravid\w*|ig)\b/,
+  weight: /\b(peso|pesa\w*|quilos?|kg|gramas)\b/,
+  height: /\b(altura|mede|medindo|estatura|comprimento|cm|metros?)\b/,
+};
+
+/**
+ * Slots abertos: enquanto vazios, qualquer fala do paciente pode preenchê-los
+ */
+const OPEN_ENDED_SLOTS = new Set(['chief_complaint']);
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Trechos da conversa que mencionam o slot (base do gate de contexto clínico)
+ */
+export function findSlotMentions(slotId: string, conversation: ConversationTurn[]): TextSpan[] {
+  const keywords = SLOT_MENTIONS[slotId];
+  if (!keywords) return [];
+
+  const pattern = new RegExp(keywords.source, 'g');
+  const spans: TextSpan[] = [];
+
+  conversation.forEach((turn, turnIndex) => {
+    if (turn.role === 'system') return;
+    // foldText preserva offsets: o trecho aponta para o texto original
+    for (const match of foldText(turn.content).matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      spans.push({ turn_index: turnIndex, start, end, text: turn.content.slice(start, end) });
+    }
+  });
+
+  return spans;
+}
+
+/**
+ * auto_fill "last_known(<5m)" → validade do último valor em ms
+ */
+function lastKnownMaxAge(slot: PIRSlot): number | null {
+  const match = slot.extraction?.auto_fill?.match(/^last_known\(<\s*([^)]+)\)$/);
+  if (!match) return null;
+
+  try {
+    const node = parseExpression(match[1].trim());
+    return node.kind === 'duration' ? node.ms : null;
+  } catch {
+    return null;
+  }
+}
+
+export class ExtractionPlanner {
+  private dependencies = new Map<string, string[]>();
+  private waveOrder: string[][];
+
+  constructor(
+    private slots: Map<string, PIRSlot>,
+    slotIds: string[]
+  ) {
+    const known = new Set(slotIds);
+
+    for (const slotId of slotIds) {
+      const slot = slots.get(slotId);
+      const names = new Set<string>(slot?.computation?.inputs ?? []);
+
+      if (slot?.condition) {
+        try {
+          collectPaths(compileCondition(slot.condition)).forEach((path) => names.add(path.split('.')[0]));
+        } catch {
+          // Condição inválida: o linter reporta; aqui o slot só perde a ordenação
+        }
+      }
+
+      this.dependencies.set(slotId, Array.from(names).filter((name) => known.has(name) && name !== slotId));
+    }
+
+    this.waveOrder = this.buildWaves(slotIds);
+  }
+
+  /**
+   * Ondas de execução: cada slot fica depois de todas as suas dependências
+   */
+  waves(): string[][] {
+    return this.waveOrder;
+  }
+
+  decide(slotId: string, context: PlanningContext): PlanDecision {
+    const slot = this.slots.get(slotId);
+    const dependencies = this.dependencies.get(slotId) ?? [];
+    let conditional = false;
+    const decision = (run: boolean, reason: PlanDecision['reason']): PlanDecision =>
+      conditional && run ? { slot_id: slotId, run, reason, conditional } : { slot_id: slotId, run, reason };
+
+    // 1. Condição de coleta do PIR (nomes que não são slots ficam desconhecidos → não bloqueiam)
+    if (slot?.condition) {
+      let satisfied: boolean | null = null;
+      try {
+        satisfied = evaluateConditionTristate(slot.condition, context.slot_state);
+      } catch {
+        satisfied = null;
+      }
+
+      if (satisfied === false) return decision(false, 'condition_unmet');
+
+      const pending = satisfied === null ? dependencies.filter((dependency) => context.slot_state[dependency] == null) : [];
+      // Dependências adiadas para a mesma chamada batch: o slot vai junto e a condição é conferida na volta
+      if (pending.length && context.deferred && pending.every((dependency) => context.deferred!.has(dependency))) {
+        conditional = true;
+      } else if (pending.length) {
+        return decision(false, 'condition_pending');
+      }
+    }
+
+    // 2. Computados: só recalculam com input novo
+    if (slot?.type === 'computed') {
+      return dependencies.some((dependency) => context.changed.has(dependency))
+        ? decision(true, 'inputs_changed')
+        : decision(false, 'inputs_unchanged');
+    }
+
+    // 3. Estado atual do slot
+    const metadata = context.slot_metadata[slotId];
+    const filled = context.slot_state[slotId] != null;
+
+    if (filled && metadata?.source === 'manual') return decision(false, 'manual');
+
+    const mentioned = this.isMentioned(slotId, context.conversation);
+    if (mentioned) return decision(true, 'mentioned');
+
+    const confident = (metadata?.confidence ?? 1) >= CONFIDENT_FILL_THRESHOLD;
+    const maxAge = slot ? lastKnownMaxAge(slot) : null;
+    const stale = maxAge !== null && metadata !== undefined && context.now - Date.parse(metadata.filled_at) > maxAge;
+
+    if (filled && confident && !stale) return decision(false, 'filled');
+
+    const lastTurn = context.conversation[context.conversation.length - 1];
+    if (OPEN_ENDED_SLOTS.has(slotId) && (!filled || !confident) && lastTurn?.role === 'patient') {
+      return decision(true, 'open_ended');
+    }
+
+    // Expirado ou pouco confiável: aguarda nova menção (a próxima pergunta pode pedi-lo de novo)
+    if (filled) return decision(false, stale ? 'stale' : 'low_confidence');
+    return decision(false, 'not_mentioned');
+  }
+
+  /**
+   * Turno novo ou a pergunta que ele responde ("Tem alergia?" → "Não")
+   */
+  private isMentioned(slotId: string, conversation: ConversationTurn[]): boolean {
+    const spoken = conversation.filter((turn) => turn.role !== 'system');
+    const [previous, last] = spoken.slice(-2);
+    // A fala anterior só conta se for a pergunta do enfermeiro que o paciente está respondendo
+    const recent = previous?.role === 'nurse' && last?.role === 'patient' ? [previous, last] : spoken.slice(-1);
+    const keywords = SLOT_MENTIONS[slotId];
+    const extraction = this.slots.get(slotId)?.extraction;
+    const matcher = extraction?.patterns?.length ? SlotPatternMatcher.forExtraction(extraction) : null;
+
+    if (matcher && !matcher.matches(recent.slice(-1)).next().done) return true;
+    return keywords ? recent.some((turn) => keywords.test(normalizeText(turn.content))) : false;
+  }
+
+  private buildWaves(slotIds: string[]): string[][] {
+    const level = new Map<string, number>();
+
+    const resolve = (slotId: string, visiting: Set<string>): number => {
+      const known = level.get(slotId);
+      if (known !== undefined) return known;
+      if (visiting.has(slotId)) return 0; // Ciclo: quebra na primeira onda
+
+      visiting.add(slotId);
+      const dependencies = this.dependencies.get(slotId) ?? [];
+      const value = dependencies.length ? Math.max(...dependencies.map((dependency) => resolve(dependency, visiting))) + 1 : 0;
+      visiting.delete(slotId);
+
+      level.set(slotId, value);
+      return value;
+    };
+
+    const waves: string[][] = [];
+    for (const slotId of slotIds) {
+      const wave = resolve(slotId, new Set());
+      (waves[wave] ??= []).push(slotId);
+    }
+    return waves.filter(Boolean);
+  }
+}
+
+/**
+ * Relatório vazio (acumulado onda a onda pelo orchestrator)
+ */
+export function emptyPlanReport(): ExtractionPlanReport {
+  return { ran: [], skipped: [], ran_count: 0, skipped_count: 0 };
+}
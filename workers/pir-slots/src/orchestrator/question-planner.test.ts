@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryProtocolStore, ProtocolHotReloader, loadManchesterSPProtocol } from '@voither/pir-schema';
+import { QuestionPlanner, questionPriority, type QuestionPlan } from './question-planner';
+import { RhizomaticOrchestrator } from './rhizomatic-orchestrator';
+
+// @cloudflare/ai não carrega no Node; nenhum modelo é chamado aqui
+vi.mock('@cloudflare/ai', () => ({ Ai: class {} }));
+
+const PIR = loadManchesterSPProtocol();
+const ALL_SLOTS = PIR.slots.map((slot) => slot.slot_id);
+
+const order = (plan: QuestionPlan) => plan.ranking.map((question) => question.slot_id);
+const question = (plan: QuestionPlan, slotId: string) => plan.ranking.find((entry) => entry.slot_id === slotId);
+
+describe('QuestionPlanner', () => {
+  const planner = new QuestionPlanner(PIR, ALL_SLOTS);
+
+  describe('ranking', () => {
+    it('asks first the slots that can reach the most severe priority', () => {
+      const plan = planner.plan({});
+
+      expect(order(plan).slice(0, 3)).toEqual(['consciousness_level', 'oxygen_saturation', 'chief_complaint']);
+      expect(plan.ranking[0]).toMatchObject({ reachable_priority: 'EMERGENT', cost: 1 });
+      expect(plan.ranking[0].rationale[0]).toBe('may raise priority to EMERGENT (p=0.4)');
+    });
+
+    it('ranks by decreasing marginal gain', () => {
+      const scores = planner.plan({}).ranking.map((entry) => entry.score);
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
+    it('leaves out filled, computed and gated slots', () => {
+      const ranked = order(planner.plan({ pain_score: 3 }));
+
+      expect(ranked).not.toContain('pain_score');
+      expect(ranked).not.toContain('sepsis_criteria'); // Computado
+      expect(ranked).not.toContain('bleeding_severity'); // Espera bleeding_present
+      expect(order(planner.plan({ bleeding_present: false }))).not.toContain('bleeding_severity');
+      expect(order(planner.plan({ bleeding_present: true }))).toContain('bleeding_severity');
+    });
+
+    it('charges device measurements more than questions', () => {
+      expect(question(planner.plan({}), 'oxygen_saturation')).toMatchObject({ cost: 1.5, reachable_priority: 'EMERGENT' });
+    });
+
+    it('discounts targets already covered by earlier questions', () => {
+      const plan = planner.plan({});
+      expect(question(plan, 'oxygen_saturation')!.rationale[0]).toBe('may raise priority to EMERGENT (p=0.25, partly covered by earlier questions)');
+
+      // Sem consciência e SpO2 a cobrir EMERGENT, a queixa passa à frente
+      const answered = planner.plan({ consciousness_level: 'alert', oxygen_saturation: 98 });
+      expect(answered.ranking[0]).toMatchObject({ slot_id: 'chief_complaint', reachable_priority: 'VERY_URGENT' });
+      expect(answered.ranking[0].score).toBeGreaterThan(question(plan, 'chief_complaint')!.score);
+    });
+
+    it('credits a slot with the conditional slots it unlocks', () => {
+      expect(question(planner.plan({}), 'bleeding_present')!.rationale).toContain('unlocks bleeding_severity');
+      expect(question(planner.plan({}), 'chief_complaint')!.rationale).toContain('unlocks trauma_mechanism, chest_pain_characteristics');
+    });
+
+    it('values the slots that decide open guards', () => {
+      // Sangramento confirmado: anticoagulante decide o guard sozinho
+      const plan = planner.plan({ bleeding_present: true });
+      expect(question(plan, 'medications_in_use')).toMatchObject({ score: 1, rationale: ['decides guard anticoagulated_patient_bleeding (p=1)'] });
+      expect(question(planner.plan({}), 'medications_in_use')!.score).toBeLessThan(1);
+    });
+
+    it('only counts priorities more severe than the current one', () => {
+      const plan = planner.plan({ temperature: 41 });
+
+      expect(plan.classification).toMatchObject({ current_priority: 'VERY_URGENT', settled: false });
+      expect(plan.ranking[0]).toMatchObject({ slot_id: 'oxygen_saturation', rationale: expect.arrayContaining(['may raise priority to EMERGENT (p=0.25)']) });
+      expect(plan.ranking.flatMap((entry) => entry.rationale).some((line) => line.includes('priority to VERY_URGENT'))).toBe(false);
+    });
+  });
+
+  describe('classification outlook', () => {
+    it('starts unsettled without a discriminator', () => {
+      expect(planner.plan({}).classification).toEqual({ current_priority: null, threshold_set: 'adult', determined_by: null, settled: false });
+    });
+
+    it('settles once no remaining slot can raise the priority', () => {
+      const plan = planner.plan({ oxygen_saturation: 80 });
+
+      expect(plan.classification).toEqual({
+        current_priority: 'EMERGENT',
+        threshold_set: 'adult',
+        determined_by: { slot_id: 'oxygen_saturation', band: 'critical', rule: '<85' },
+        settled: true,
+      });
+      expect(plan.ranking.flatMap((entry) => entry.rationale).some((line) => line.startsWith('may raise priority'))).toBe(false);
+    });
+
+    it('settles below EMERGENT when only less severe slots remain askable', () => {
+      const askable = ['pain_score', 'temperature', 'heart_rate'];
+      expect(new QuestionPlanner(PIR, askable).plan({ pain_score: 9 }).classification).toMatchObject({ current_priority: 'VERY_URGENT', settled: true });
+      expect(new QuestionPlanner(PIR, [...askable, 'oxygen_saturation']).plan({ pain_score: 9 }).classification.settled).toBe(false);
+    });
+
+    it('uses the pediatric thresholds for the patient age', () => {
+      expect(planner.plan({ age: 4 }).classification.threshold_set).toBe('pediatric_preschool');
+    });
+  });
+});
+
+describe('questionPriority', () => {
+  it('maps the reachable priority to the question urgency', () => {
+    expect(['EMERGENT', 'VERY_URGENT', 'URGENT', 'STANDARD', null].map((priority) => questionPriority(priority as never))).toEqual([
+      'critical',
+      'high',
+      'medium',
+      'low',
+      'low',
+    ]);
+  });
+});
+
+describe('RhizomaticOrchestrator.generateNextQuestion', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  async function session(slotState: Record<string, unknown>): Promise<RhizomaticOrchestrator> {
+    const protocol = await new ProtocolHotReloader({ store: new MemoryProtocolStore() }).bootstrap(PIR);
+    const orchestrator = new RhizomaticOrchestrator({}, PIR);
+    orchestrator.startSession('s-1', protocol).slot_state = slotState;
+    return orchestrator;
+  }
+
+  it('asks the top ranked slot with its fallback question', async () => {
+    const next = await (await session({})).generateNextQuestion('s-1');
+
+    expect(next).toMatchObject({ slot_id: 'consciousness_level', priority: 'critical' });
+    expect(next.question).toEqual(expect.any(String));
+    expect(next.reasoning).toMatch(/^Slot consciousness_level has the highest value of information \(4\.711\)/);
+  });
+
+  it('stops asking once the classification is settled', async () => {
+    const next = await (await session({ oxygen_saturation: 80 })).generateNextQuestion('s-1');
+
+    expect(next).toMatchObject({ slot_id: null, question: null, priority: 'low' });
+    expect(next.reasoning).toBe(
+      'Classification settled at EMERGENT (oxygen_saturation critical: <85) with adult thresholds; remaining slots cannot raise it'
+    );
+  });
+});
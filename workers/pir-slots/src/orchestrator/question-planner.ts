@@ -0,0 +1,449 @@
+/**
+ * PIR Question Planner - Próxima pergunta por valor de informação (VoI)
+ *
+ * Cada slot vazio é pontuado pelo quanto seus valores possíveis podem mudar as
+ * decisões do PIR dado o estado atual (voither-conversation-knowledge.md §4.1):
+ * - classificação Manchester: níveis mais graves que o atual que o slot alcança
+ *   (faixas de classification_thresholds/classification_impact, ou pediátricas pela idade)
+ * - guards ainda indeterminados cuja condição cita o slot
+ * - fluxos prioritários (activate_priority_flow_*) ainda indeterminados
+ * - slots condicionados a ele (bleeding_present libera bleeding_severity)
+ *
+ * Cobertura probabilística submodular: f(S) = Σ w_t · [1 − Π_{s∈S} (1 − p_{s,t})].
+ * O ranking é guloso por ganho marginal / custo, então dois slots que cobrem o
+ * mesmo alvo (SpO2 e consciência para EMERGENT) não somam o mesmo valor duas vezes.
+ *
+ * Quando nenhum slot restante pode elevar a prioridade atual a classificação está
+ * decidida (settled) e não há pergunta a fazer.
+ */
+
+import {
+  collectPaths,
+  compileCondition,
+  evaluateConditionTristate,
+  priorityRank,
+  MANCHESTER_PRIORITY_ORDER,
+  SlotRegistry,
+  VitalSignClassifier,
+  type ManchesterPriority,
+  type PIRDocument,
+  type PIRGuardPriority,
+  type PIRSlot,
+  type ThresholdSetId,
+  type VitalBandMatch,
+} from '@voither/pir-schema';
+
+export type QuestionPriority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface RankedQuestion {
+  slot_id: string;
+  score: number; // Ganho marginal / custo no momento em que foi escolhido
+  cost: number;
+  reachable_priority: ManchesterPriority | null; // Nível mais grave que o slot (ou o que ele libera) pode indicar
+  rationale: string[];
+}
+
+export interface ClassificationOutlook {
+  current_priority: ManchesterPriority | null;
+  threshold_set: ThresholdSetId; // Faixas adultas ou pediátricas (pela idade)
+  determined_by: Pick<VitalBandMatch, 'slot_id' | 'band' | 'rule'> | null;
+  settled: boolean; // Nenhum slot restante pode elevar a prioridade atual
+}
+
+export interface QuestionPlan {
+  classification: ClassificationOutlook;
+  ranking: RankedQuestion[]; // Ordem gulosa (maior VoI/custo primeiro)
+}
+
+/**
+ * Custo de obter o slot: medir com aparelho custa mais que perguntar
+ */
+const QUESTION_COST: Record<PIRSlot['type'], number> = {
+  conversational: 1,
+  historical: 1,
+  device: 1.5,
+  computed: Infinity,
+};
+
+const GUARD_WEIGHT: Record<PIRGuardPriority, number> = { critical: 3, high: 2, medium: 1, low: 1 };
+const DEFAULT_GUARD_WEIGHT = 1;
+const PRIORITY_FLOW_WEIGHT = 2;
+
+/**
+ * Probabilidade de um slot condicionado ter a condição satisfeita quando o slot de que depende chega
+ */
+const UNLOCK_PROBABILITY = 0.5;
+
+const PRIORITY_FLOW_PREFIX = 'activate_priority_flow_';
+
+/**
+ * Alvo de cobertura: nível Manchester, guard ou fluxo prioritário
+ */
+interface CoverageTarget {
+  id: string;
+  weight: number;
+  label: string; // Texto do rationale
+  condition?: string; // Guards e fluxos: condição que o slot ajuda a decidir
+}
+
+interface Candidate {
+  slot_id: string;
+  cost: number;
+  coverage: Map<string, number>; // alvo → p(slot decide o alvo)
+  reachable_priority: ManchesterPriority | null;
+  unlocks: string[];
+}
+
+export class QuestionPlanner {
+  private registry: SlotRegistry;
+  private classifier: VitalSignClassifier;
+  private slots: Map<string, PIRSlot>;
+  private outcomes = new Map<ThresholdSetId, Map<string, Array<ManchesterPriority | null>>>(); // Desfechos possíveis por conjunto e slot
+  private gated = new Map<string, string[]>(); // slot → slots cuja condição o cita
+  private derived = new Map<string, string[]>(); // Saída de task → inputs da task
+
+  constructor(
+    private document: PIRDocument,
+    private askable: string[] // Slots com extractor (podem virar pergunta)
+  ) {
+    this.registry = SlotRegistry.forDocument(document);
+    this.classifier = new VitalSignClassifier(document);
+    this.slots = new Map(document.slots.map((slot) => [slot.slot_id, slot]));
+
+    for (const task of document.tasks) {
+      for (const output of task.outputs ?? []) this.derived.set(output, task.inputs ?? []);
+    }
+
+    for (const slot of document.slots) {
+      for (const dependency of this.conditionSlots(slot.condition)) {
+        this.gated.set(dependency, [...(this.gated.get(dependency) ?? []), slot.slot_id]);
+      }
+    }
+  }
+
+  plan(slotState: Record<string, unknown>): QuestionPlan {
+    const state = this.registry.normalize(slotState);
+    const { highest, threshold_set: thresholdSet } = this.classifier.classify(state);
+    const current = highest?.priority ?? null;
+
+    const targets = this.targets(state, current);
+    const unfilled = (slotId: string) => state[slotId] === undefined || state[slotId] === null;
+
+    // Candidatos: vazios, não computados, condição não falsa e sem dependência vazia pendente
+    const candidates: Candidate[] = [];
+    for (const slotId of this.askable) {
+      const slot = this.slots.get(slotId);
+      if (!slot || slot.type === 'computed' || !unfilled(slotId) || this.gateState(slot, state) !== 'open') continue;
+
+      candidates.push(this.candidate(slot, state, targets, current, thresholdSet));
+    }
+
+    const ranking = this.greedy(candidates, targets);
+    const settled = !candidates.some((candidate) => priorityRank(candidate.reachable_priority) < priorityRank(current));
+
+    return {
+      classification: {
+        current_priority: current,
+        threshold_set: thresholdSet,
+        determined_by: highest ? { slot_id: highest.slot_id, band: highest.band, rule: highest.rule } : null,
+        settled,
+      },
+      ranking,
+    };
+  }
+
+  // ============================================================================
+  // ALVOS
+  // ============================================================================
+
+  private targets(state: Record<string, unknown>, current: ManchesterPriority | null): Map<string, CoverageTarget> {
+    const targets = new Map<string, CoverageTarget>();
+
+    // Um alvo por nível mais grave que o atual: alcançar EMERGENT a partir de nada cobre todos
+    for (const priority of MANCHESTER_PRIORITY_ORDER) {
+      if (priorityRank(priority) >= priorityRank(current)) continue;
+      targets.set(`priority:${priority}`, { id: `priority:${priority}`, weight: 1, label: `may raise priority to ${priority}` });
+    }
+
+    for (const guard of this.document.guards) {
+      if (this.conditionState(guard.trigger.condition, state) !== null) continue;
+      targets.set(`guard:${guard.guard_id}`, {
+        id: `guard:${guard.guard_id}`,
+        weight: guard.action.priority ? GUARD_WEIGHT[guard.action.priority] : DEFAULT_GUARD_WEIGHT,
+        label: `decides guard ${guard.guard_id}${guard.action.priority ? ` (${guard.action.priority})` : ''}`,
+        condition: guard.trigger.condition,
+      });
+    }
+
+    for (const task of this.document.tasks) {
+      if (!task.task_id.startsWith(PRIORITY_FLOW_PREFIX) || !task.condition) continue;
+      if (this.conditionState(task.condition, state) !== null) continue;
+      targets.set(`flow:${task.task_id}`, {
+        id: `flow:${task.task_id}`,
+        weight: PRIORITY_FLOW_WEIGHT,
+        label: `decides priority flow ${task.task_id}`,
+        condition: task.condition,
+      });
+    }
+
+    return targets;
+  }
+
+  private candidate(
+    slot: PIRSlot,
+    state: Record<string, unknown>,
+    targets: Map<string, CoverageTarget>,
+    current: ManchesterPriority | null,
+    thresholdSet: ThresholdSetId
+  ): Candidate {
+    const coverage = this.classificationCoverage(slot.slot_id, current, thresholdSet);
+    let reachable = this.reachable(slot.slot_id, thresholdSet);
+
+    for (const target of targets.values()) {
+      if (!target.condition) continue;
+
+      const share = this.conditionShare(target.condition, slot.slot_id, state);
+      if (share > 0) coverage.set(target.id, share);
+    }
+
+    // Slots condicionados ainda à espera deste: o valor deles conta com desconto
+    const unlocks: string[] = [];
+    for (const gatedId of this.gated.get(slot.slot_id) ?? []) {
+      const gatedSlot = this.slots.get(gatedId);
+      if (!gatedSlot || !this.askable.includes(gatedId) || state[gatedId] != null || this.gateState(gatedSlot, state) !== 'pending') continue;
+
+      unlocks.push(gatedId);
+      const gatedReachable = this.reachable(gatedId, thresholdSet);
+      reachable = priorityRank(gatedReachable) < priorityRank(reachable) ? gatedReachable : reachable;
+      for (const [targetId, p] of this.classificationCoverage(gatedId, current, thresholdSet)) {
+        coverage.set(targetId, 1 - (1 - (coverage.get(targetId) ?? 0)) * (1 - UNLOCK_PROBABILITY * p));
+      }
+    }
+
+    for (const targetId of coverage.keys()) {
+      if (!targets.has(targetId)) coverage.delete(targetId);
+    }
+
+    return { slot_id: slot.slot_id, cost: QUESTION_COST[slot.type], coverage, reachable_priority: reachable, unlocks };
+  }
+
+  /**
+   * p(slot leva a cada nível mais grave que o atual): fração dos desfechos que o alcançam
+   */
+  private classificationCoverage(slotId: string, current: ManchesterPriority | null, thresholdSet: ThresholdSetId): Map<string, number> {
+    const coverage = new Map<string, number>();
+    const outcomes = this.slotOutcomes(slotId, thresholdSet);
+    if (!outcomes.length) return coverage;
+
+    for (const priority of MANCHESTER_PRIORITY_ORDER) {
+      if (priorityRank(priority) >= priorityRank(current)) continue;
+
+      const reaching = outcomes.filter((outcome) => priorityRank(outcome) <= priorityRank(priority)).length;
+      if (reaching) coverage.set(`priority:${priority}`, reaching / outcomes.length);
+    }
+
+    return coverage;
+  }
+
+  private reachable(slotId: string, thresholdSet: ThresholdSetId): ManchesterPriority | null {
+    return this.slotOutcomes(slotId, thresholdSet).reduce<ManchesterPriority | null>(
+      (best, outcome) => (priorityRank(outcome) < priorityRank(best) ? outcome : best),
+      null
+    );
+  }
+
+  /**
+   * Desfechos do slot no conjunto de thresholds (calculados uma vez por conjunto)
+   */
+  private slotOutcomes(slotId: string, thresholdSet: ThresholdSetId): Array<ManchesterPriority | null> {
+    let bySlot = this.outcomes.get(thresholdSet);
+    if (!bySlot) {
+      bySlot = new Map(this.document.slots.map((slot) => [slot.slot_id, this.computeOutcomes(slot, thresholdSet)]));
+      this.outcomes.set(thresholdSet, bySlot);
+    }
+    return bySlot.get(slotId) ?? [];
+  }
+
+  /**
+   * Desfechos equiprováveis: opções de slots enum, ou faixas + "nenhuma faixa"
+   */
+  private computeOutcomes(slot: PIRSlot, thresholdSet: ThresholdSetId): Array<ManchesterPriority | null> {
+    const rules = this.classifier.getRules(thresholdSet).filter((rule) => rule.slot_id === slot.slot_id);
+    if (!rules.length) return [];
+
+    const listed = rules.filter((rule) => rule.values);
+    if (listed.length) {
+      const options = new Set([...(slot.options ?? []), ...listed.flatMap((rule) => rule.values!)]);
+      return Array.from(options).map((option) =>
+        listed
+          .filter((rule) => rule.values!.some((value) => value.toLowerCase() === option.toLowerCase()))
+          .reduce<ManchesterPriority | null>((best, rule) => (priorityRank(rule.priority) < priorityRank(best) ? rule.priority : best), null)
+      );
+    }
+
+    const bands = rules.map((rule) => rule.priority);
+    return bands.includes(null) ? bands : [...bands, null];
+  }
+
+  // ============================================================================
+  // CONDIÇÕES
+  // ============================================================================
+
+  private conditionState(condition: string, state: Record<string, unknown>): boolean | null {
+    try {
+      return evaluateConditionTristate(condition, state);
+    } catch {
+      return false; // Condição inválida (o linter reporta): nunca decide nada
+    }
+  }
+
+  /**
+   * open: pode ser perguntado; pending: espera slot vazio; closed: condição falsa
+   */
+  private gateState(slot: PIRSlot, state: Record<string, unknown>): 'open' | 'pending' | 'closed' {
+    if (!slot.condition) return 'open';
+
+    const satisfied = this.conditionState(slot.condition, state);
+    if (satisfied === false) return 'closed';
+    if (satisfied === true) return 'open';
+
+    return this.conditionSlots(slot.condition).some((slotId) => state[slotId] == null) ? 'pending' : 'open';
+  }
+
+  /**
+   * Slots citados diretamente pela condição (IDs, aliases e "slot.campo")
+   */
+  private conditionSlots(condition: string | undefined): string[] {
+    if (!condition) return [];
+
+    try {
+      return Array.from(
+        new Set(
+          collectPaths(compileCondition(condition))
+            .map((path) => this.registry.resolve(path)?.slot_id ?? this.registry.resolve(path.split('.')[0])?.slot_id)
+            .filter((slotId): slotId is string => !!slotId)
+        )
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Parte de uma condição decidida pelo slot: cada nome ainda desconhecido vale 1/n
+   * e é dividido entre os slots que o determinam (saídas de tasks → inputs).
+   * Nomes que a triagem não produz (prescribed_medication) descontam o alvo.
+   */
+  private conditionShare(condition: string, slotId: string, state: Record<string, unknown>): number {
+    let paths: string[];
+    try {
+      paths = collectPaths(compileCondition(condition)).filter((path) => state[path.split('.')[0]] == null);
+    } catch {
+      return 0;
+    }
+    if (!paths.length) return 0;
+
+    const shares = paths.map((path) => this.nameShares(path, new Set()));
+    const share = shares.reduce((total, byName) => total + (byName.get(slotId) ?? 0), 0) / paths.length;
+    const decidable = shares.filter((byName) => byName.size > 0).length / paths.length;
+    return Math.min(share * decidable, 1);
+  }
+
+  private nameShares(name: string, visiting: Set<string>): Map<string, number> {
+    const reference = this.registry.resolve(name) ?? this.registry.resolve(name.split('.')[0]) ?? this.fieldOwner(name);
+    const shares = new Map<string, number>();
+    if (visiting.has(name)) return shares; // Ciclo entre tasks
+
+    // Slot computado: decidido pelos inputs da computação
+    const slot = reference ? this.slots.get(reference.slot_id) : undefined;
+    const inputs = slot ? (slot.type === 'computed' ? (slot.computation?.inputs ?? []) : null) : (this.derived.get(name) ?? []);
+
+    if (!inputs) {
+      shares.set(slot!.slot_id, 1);
+      return shares;
+    }
+
+    visiting.add(name);
+    for (const input of inputs) {
+      for (const [slotId, share] of this.nameShares(input, visiting)) {
+        shares.set(slotId, (shares.get(slotId) ?? 0) + share / inputs.length);
+      }
+    }
+    visiting.delete(name);
+
+    return shares;
+  }
+
+  /**
+   * Campo de slot object citado sem o slot ("qSOFA_score" → sepsis_criteria)
+   */
+  private fieldOwner(name: string): { slot_id: string } | undefined {
+    const owner = this.registry.list().find((slot) => slot.fields.some((field) => field.field === name));
+    return owner ? { slot_id: owner.slot_id } : undefined;
+  }
+
+  // ============================================================================
+  // SELEÇÃO GULOSA
+  // ============================================================================
+
+  private greedy(candidates: Candidate[], targets: Map<string, CoverageTarget>): RankedQuestion[] {
+    const residual = new Map(Array.from(targets.keys()).map((targetId) => [targetId, 1]));
+    const remaining = [...candidates];
+    const ranking: RankedQuestion[] = [];
+
+    while (remaining.length) {
+      const gains = remaining.map((candidate) => {
+        let gain = 0;
+        for (const [targetId, p] of candidate.coverage) gain += targets.get(targetId)!.weight * residual.get(targetId)! * p;
+        return gain / candidate.cost;
+      });
+
+      const best = gains.indexOf(Math.max(...gains));
+      const [candidate] = remaining.splice(best, 1);
+
+      ranking.push({
+        slot_id: candidate.slot_id,
+        score: Math.round(gains[best] * 1000) / 1000,
+        cost: candidate.cost,
+        reachable_priority: candidate.reachable_priority,
+        rationale: this.rationale(candidate, targets, residual),
+      });
+
+      for (const [targetId, p] of candidate.coverage) residual.set(targetId, residual.get(targetId)! * (1 - p));
+    }
+
+    return ranking;
+  }
+
+  private rationale(candidate: Candidate, targets: Map<string, CoverageTarget>, residual: Map<string, number>): string[] {
+    const lines: string[] = [];
+
+    // Só o nível mais grave alcançável (os menos graves vêm junto)
+    const priorityTarget = MANCHESTER_PRIORITY_ORDER.map((priority) => `priority:${priority}`).find((targetId) => candidate.coverage.has(targetId));
+    for (const [targetId, p] of candidate.coverage) {
+      if (targetId.startsWith('priority:') && targetId !== priorityTarget) continue;
+      const covered = residual.get(targetId)! < 1 ? ', partly covered by earlier questions' : '';
+      lines.push(`${targets.get(targetId)!.label} (p=${Math.round(p * 100) / 100}${covered})`);
+    }
+    if (candidate.unlocks.length) lines.push(`unlocks ${candidate.unlocks.join(', ')}`);
+    if (!lines.length) lines.push('no impact on classification, guards or priority flows');
+
+    return lines;
+  }
+}
+
+/**
+ * Urgência da pergunta: nível Manchester mais grave que a resposta pode revelar
+ */
+export function questionPriority(reachable: ManchesterPriority | null): QuestionPriority {
+  switch (reachable) {
+    case 'EMERGENT':
+      return 'critical';
+    case 'VERY_URGENT':
+      return 'high';
+    case 'URGENT':
+      return 'medium';
+    default:
+      return 'low';
+  }
+}
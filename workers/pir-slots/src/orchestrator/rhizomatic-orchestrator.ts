@@ -7,15 +7,55 @@
  * STT (Whisper) → 18 LLMs simultâneos → Consolidação de estado
  */
 
+import { evaluateConditionTristate, type PIRDocument, type PIRSlot, type PIRVersionRef } from '@voither/pir-schema';
 import { WhisperWorkerSTT, type TranscriptionResult } from '../stt/whisper-worker';
+import { SpeakerAttributor, type SpeakerAttributionOptions } from '../speakers/speaker-attribution';
+import {
+  CONFIDENT_FILL_THRESHOLD,
+  ExtractionPlanner,
+  emptyPlanReport,
+  findSlotMentions,
+  type ExtractionPlanReport,
+  type PlanRunReason,
+  type PlanSkipReason,
+  type SlotFillMetadata,
+} from './extraction-planner';
+import {
+  currentEntry,
+  provenanceSource,
+  resolveConflict,
+  type SlotHistoryEntry,
+  type SlotValueCandidate,
+} from './slot-provenance';
+import {
+  EXTRACTION_MODES,
+  MeteredAIBinding,
+  addMetrics,
+  compareSlotValues,
+  emptyMetrics,
+  scoreAccuracy,
+  type ExtractionMetrics,
+  type ExtractionMode,
+  type ModeAccuracy,
+  type SlotAgreement,
+} from './extraction-metrics';
+import { QuestionPlanner, questionPriority, type ClassificationOutlook, type QuestionPriority, type RankedQuestion } from './question-planner';
+import { ConversationalExtractor, EXTRACTOR_VERSION, isPediatricPatient, patientAgeYears } from '../extractors/base-extractor';
+import { BatchSlotExtractor } from '../extractors/batch-extractor';
+import { annotateConversation, isGroundingSpan, judgeGrounding, UNCERTAIN_MAX_CONFIDENCE } from '../extractors/clinical-context';
+import { SlotPlausibilityValidator, type PlausibilityIssue } from '../validation/slot-plausibility';
+import type { DeviceSlotValue } from '../devices/device-readings';
+import type { ImportedSlotValue } from '../fhir/observation-bundle';
 import type {
-  SlotState,
   SlotId,
   ConversationTurn,
   PatientContext,
   SlotFillRequest,
   SlotStatus,
   ExtractionResult,
+  TurnAttribution,
+  ClinicalContextAnnotation,
+  TextSpan,
 } from '../types/slots';
 
 // Import all extractors
@@ -46,17 +86,73 @@ import {
   MedicationsInUseExtractor,
   AllergyHistoryExtractor,
 } from '../extractors/historical-slots';
+import {
+  AgeExtractor,
+  SexExtractor,
+  PregnancyStatusExtractor,
+  GestationalAgeExtractor,
+  WeightExtractor,
+  HeightExtractor,
+  EstimatedWeightExtractor,
+  ageFromBirthDate,
+} from '../extractors/demographic-slots';
 
-export interface TriageSession {
+export interface TriageSessionState {
   session_id: string;
   patient_id?: string;
+  nurse_id?: string; // Enfermeiro da triagem (perfil de voz do plantão)
+  protocol: PIRVersionRef; // Versão exata do PIR (presa no início da sessão)
+  extraction_mode?: ExtractionMode; // Presa no início da sessão; ausente = rhizomatic (sessões antigas)
   started_at: string;
   conversation_history: ConversationTurn[];
   slot_state: Partial<Record<SlotId, any>>;
+  slot_metadata: Partial<Record<SlotId, SlotFillMetadata>>; // Confiança/origem do valor atual (planner)
+  slot_history: Partial<Record<SlotId, SlotHistoryEntry[]>>; // Todos os valores candidatos, aceitos ou não
+  pending_confirmations: Partial<Record<SlotId, PendingConfirmation>>; // Valores implausíveis retidos
   patient_context?: PatientContext;
   status: 'active' | 'completed' | 'abandoned';
 }
 
+/**
+ * Valor implausível retido até o enfermeiro confirmar (PUT /slots/:slotId)
+ */
+export interface PendingConfirmation {
+  value: unknown;
+  suggested_value?: unknown; // Conversão de unidade suspeita (cmHg → mmHg, °F → °C)
+  issues: PlausibilityIssue[];
+  question: string;
+  turn_index: number;
+  flagged_at: string;
+}
+
+/**
+ * Mesmo turno extraído nos dois modos, sobre cópias do estado da sessão (nada é gravado)
+ */
+export interface ExtractionModeComparison {
+  modes: Record<
+    ExtractionMode,
+    {
+      extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+      extraction_plan: ExtractionPlanReport;
+      slot_state: Partial<Record<SlotId, any>>;
+      accuracy?: ModeAccuracy; // Só com valores esperados
+    }
+  >;
+  agreement: SlotAgreement[];
+}
+
+/**
+ * Próxima pergunta e o plano por trás dela (slot_id null = nada a perguntar)
+ */
+export interface NextQuestion {
+  slot_id: SlotId | null;
+  question: string | null;
+  priority: QuestionPriority;
+  reasoning: string;
+  classification: ClassificationOutlook;
+  ranking: RankedQuestion[];
+}
+
 export interface ExtractionProgress {
   total_slots: number;
   filled_slots: number;
@@ -77,50 +173,92 @@ export interface ExtractionProgress {
  */
 export class RhizomaticOrchestrator {
   private aiBinding: any;
+  private meter: MeteredAIBinding; // Chamadas de LLM dos extractors (métricas por round)
   private whisper: WhisperWorkerSTT;
-  private sessions: Map<string, TriageSession> = new Map();
+  private sessions: Map<string, TriageSessionState> = new Map();
 
   // Extractors registry (todos os 18)
   private extractors: Map<SlotId, any>;
 
-  constructor(aiBinding: any) {
+  // Definições de slot da versão do PIR da sessão (padrões de extração, validação)
+  private slotDefinitions: Map<string, PIRSlot>;
+
+  // Modo batch: uma chamada com todos os slots conversacionais
+  private batch: BatchSlotExtractor;
+
+  // Decide quais extractors rodam a cada turno
+  private planner: ExtractionPlanner;
+
+  // Faixas, unidades e regras entre slots antes de aceitar valor automático
+  private plausibility: SlotPlausibilityValidator;
+
+  // Próxima pergunta por valor de informação (classificação, guards, fluxos prioritários)
+  private questions: QuestionPlanner;
+
+  constructor(aiBinding: any, document: PIRDocument) {
     this.aiBinding = aiBinding;
+    this.meter = new MeteredAIBinding(aiBinding);
     this.whisper = new WhisperWorkerSTT(aiBinding);
+    this.slotDefinitions = new Map(document.slots.map((slot) => [slot.slot_id, slot]));
 
-    // Initialize all 19 extractors (Manchester SP PIR)
-    this.extractors = new Map([
-      ['chief_complaint', new ChiefComplaintExtractor(aiBinding)],
-      ['pain_score', new PainScoreExtractor(aiBinding)],
-      ['temperature', new TemperatureExtractor(aiBinding)],
-      ['heart_rate', new HeartRateExtractor(aiBinding)],
-      ['blood_pressure', new BloodPressureExtractor(aiBinding)],
-      ['oxygen_saturation', new OxygenSaturationExtractor(aiBinding)],
-      ['consciousness_level', new ConsciousnessLevelExtractor(aiBinding)],
-      ['bleeding_present', new BleedingPresentExtractor(aiBinding)],
-      ['bleeding_severity', new BleedingSeverityExtractor(aiBinding)],
-      ['symptom_onset', new SymptomOnsetExtractor(aiBinding)],
-      ['previous_medical_history', new PreviousMedicalHistoryExtractor(aiBinding)],
-      ['medications_in_use', new MedicationsInUseExtractor(aiBinding)],
-      ['allergy_history', new AllergyHistoryExtractor(aiBinding)],
-      ['glucose_level', new GlucoseLevelExtractor(aiBinding)],
-      ['trauma_mechanism', new TraumaMechanismExtractor(aiBinding)],
-      ['neurological_deficit', new NeurologicalDeficitExtractor(aiBinding)],
-      ['sepsis_criteria', new SepsisCriteriaExtractor(aiBinding)],
-      ['respiratory_rate', new RespiratoryRateExtractor(aiBinding)],
-      ['chest_pain_characteristics', new ChestPainCharacteristicsExtractor(aiBinding)],
+    // Initialize all 26 extractors (Manchester SP PIR); LLM medido para comparar modos
+    this.extractors = new Map<SlotId, any>([
+      ['chief_complaint', new ChiefComplaintExtractor(this.meter)],
+      ['pain_score', new PainScoreExtractor(this.meter)],
+      ['temperature', new TemperatureExtractor(this.meter)],
+      ['heart_rate', new HeartRateExtractor(this.meter)],
+      ['blood_pressure', new BloodPressureExtractor(this.meter)],
+      ['oxygen_saturation', new OxygenSaturationExtractor(this.meter)],
+      ['consciousness_level', new ConsciousnessLevelExtractor(this.meter)],
+      ['bleeding_present', new BleedingPresentExtractor(this.meter)],
+      ['bleeding_severity', new BleedingSeverityExtractor(this.meter)],
+      ['symptom_onset', new SymptomOnsetExtractor(this.meter)],
+      ['previous_medical_history', new PreviousMedicalHistoryExtractor(this.meter)],
+      ['medications_in_use', new MedicationsInUseExtractor(this.meter)],
+      ['allergy_history', new AllergyHistoryExtractor(this.meter)],
+      ['glucose_level', new GlucoseLevelExtractor(this.meter)],
+      ['trauma_mechanism', new TraumaMechanismExtractor(this.meter)],
+      ['neurological_deficit', new NeurologicalDeficitExtractor(this.meter)],
+      ['sepsis_criteria', new SepsisCriteriaExtractor(this.meter)],
+      ['respiratory_rate', new RespiratoryRateExtractor(this.meter)],
+      ['chest_pain_characteristics', new ChestPainCharacteristicsExtractor(this.meter)],
+      ['age', new AgeExtractor(this.meter)],
+      ['sex', new SexExtractor(this.meter)],
+      ['pregnancy_status', new PregnancyStatusExtractor(this.meter)],
+      ['gestational_age', new GestationalAgeExtractor(this.meter)],
+      ['weight', new WeightExtractor(this.meter)],
+      ['height', new HeightExtractor(this.meter)],
+      ['estimated_weight', new EstimatedWeightExtractor(this.meter)],
     ]);
+
+    this.batch = new BatchSlotExtractor(this.meter, document, this.extractors);
+    this.planner = new ExtractionPlanner(this.slotDefinitions, Array.from(this.extractors.keys()));
+    this.plausibility = new SlotPlausibilityValidator(this.slotDefinitions);
+    this.questions = new QuestionPlanner(document, Array.from(this.extractors.keys()));
   }
 
   /**
    * Inicia nova sessão de triagem
    */
-  startSession(sessionId: string, patientContext?: PatientContext): TriageSession {
-    const session: TriageSession = {
+  startSession(
+    sessionId: string,
+    protocol: PIRVersionRef,
+    patientContext?: PatientContext,
+    nurseId?: string,
+    extractionMode: ExtractionMode = 'rhizomatic'
+  ): TriageSessionState {
+    const session: TriageSessionState = {
       session_id: sessionId,
       patient_id: patientContext?.patient_id,
+      nurse_id: nurseId,
+      protocol,
+      extraction_mode: extractionMode,
       started_at: new Date().toISOString(),
       conversation_history: [],
       slot_state: {},
+      slot_metadata: {},
+      slot_history: {},
+      pending_confirmations: {},
       patient_context: patientContext,
       status: 'active',
     };
@@ -129,23 +267,35 @@ export class RhizomaticOrchestrator {
     return session;
   }
 
+  /**
+   * Recoloca no orchestrator uma sessão persistida (estado vive no Durable Object da sessão)
+   */
+  restoreSession(session: TriageSessionState): void {
+    session.slot_metadata ??= {}; // Sessões gravadas antes do planner
+    session.slot_history ??= {};
+    session.pending_confirmations ??= {};
+    this.sessions.set(session.session_id, session);
+  }
+
   /**
    * Processa áudio conversacional e extrai slots em paralelo (RIZOMÁTICO)
    *
    * ARQUITETURA RIZOMÁTICA:
-   * - Transcreve áudio (Whisper)
-   * - Dispara TODOS os 18 extractors EM PARALELO
+   * - Segmenta e transcreve o áudio (Whisper), atribuindo cada fala a enfermeiro ou paciente
+   * - Cada fala vira um turno; por turno, dispara os extractors EM PARALELO
    * - Não há hierarquia: todos processam simultaneamente
    * - Cada extractor decide se consegue extrair do contexto atual
    */
   async processAudioAndExtractSlots(
     sessionId: string,
     audioBuffer: ArrayBuffer,
-    speaker: 'nurse' | 'patient'
+    attribution: SpeakerAttributionOptions = {}
   ): Promise<{
     transcription: TranscriptionResult;
+    turns: ConversationTurn[];
     extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
-    session_state: TriageSession;
+    extraction_plan: ExtractionPlanReport;
+    session_state: TriageSessionState;
     progress: ExtractionProgress;
   }> {
     const session = this.sessions.get(sessionId);
@@ -153,72 +303,37 @@ export class RhizomaticOrchestrator {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // STEP 1: Transcrição STT (Whisper)
+    // STEP 1: Transcrição STT (Whisper) + atribuição de falante por fala
     console.log(`[PIR] Transcribing audio for session ${sessionId}...`);
-    const transcription = await this.whisper.transcribe({
-      audio_blob: audioBuffer,
-      session_id: sessionId,
-      language: 'pt-BR',
-      speaker_diarization: false, // Já sabemos o speaker
-    });
-
-    // Adiciona ao histórico conversacional
-    const turn: ConversationTurn = {
-      role: speaker,
-      content: transcription.text,
-      timestamp: new Date().toISOString(),
-    };
-    session.conversation_history.push(turn);
-
-    console.log(`[PIR] Transcription: "${transcription.text}"`);
-
-    // STEP 2: EXTRAÇÃO RIZOMÁTICA PARALELA (CORE DO PIR)
-    console.log(`[PIR] Launching rhizomatic parallel extraction (18 extractors)...`);
+    const recording = await new SpeakerAttributor(this.whisper, attribution).attributeRecording(audioBuffer, sessionId);
 
-    const extractionPromises = Array.from(this.extractors.entries()).map(async ([slotId, extractor]) => {
-      try {
-        // Cada extractor recebe contexto completo e decide autonomamente
-        const request: SlotFillRequest = {
-          slot_id: slotId,
-          conversation_context: session.conversation_history,
-          patient_context: session.patient_context,
-          attempt: 1,
-        };
-
-        const result = await extractor.extract(request);
-        return { slotId, result };
-      } catch (error) {
-        console.error(`[PIR] Extractor ${slotId} failed:`, error);
-        return {
-          slotId,
-          result: {
-            value: null,
-            confidence: 0.0,
-            source: 'llm_extraction' as const,
-            timestamp: new Date().toISOString(),
-            reasoning: `Extraction error: ${error}`,
-          },
-        };
-      }
-    });
-
-    // Aguarda TODAS as extrações em paralelo
-    const extractionResults = await Promise.all(extractionPromises);
+    console.log(`[PIR] Transcription: "${recording.transcription.text}"`);
 
-    // STEP 3: Atualiza estado dos slots
+    // STEP 2-3: EXTRAÇÃO RIZOMÁTICA PLANEJADA (CORE DO PIR), um round por turno
+    // (o planner olha o último turno e a pergunta que ele responde)
     const extractionMap: Partial<Record<SlotId, ExtractionResult<any>>> = {};
+    const extractionPlan = emptyPlanReport();
+    extractionPlan.metrics = emptyMetrics(session.extraction_mode ?? 'rhizomatic');
+    const turns: ConversationTurn[] = [];
 
-    for (const { slotId, result } of extractionResults) {
-      extractionMap[slotId] = result;
+    for (const utterance of recording.utterances) {
+      const turn: ConversationTurn = {
+        role: utterance.role,
+        content: utterance.text,
+        timestamp: new Date().toISOString(),
+        attribution: utterance.attribution,
+      };
+      session.conversation_history.push(turn);
+      turns.push(turn);
 
-      // Atualiza slot state se extração bem-sucedida
-      if (result.value !== null && result.confidence > 0.5) {
-        session.slot_state[slotId] = result.value;
-        console.log(`[PIR] ✓ Slot ${slotId} extracted: ${JSON.stringify(result.value).substring(0, 100)}`);
-      } else {
-        console.log(`[PIR] ○ Slot ${slotId} not extracted (confidence: ${result.confidence})`);
-      }
+      const round = await this.runExtractionRound(session);
+      Object.assign(extractionMap, round.extraction_results);
+      extractionPlan.ran.push(...round.extraction_plan.ran);
+      extractionPlan.skipped.push(...round.extraction_plan.skipped);
+      extractionPlan.metrics = addMetrics(extractionPlan.metrics, round.extraction_plan.metrics!);
     }
+    extractionPlan.ran_count = extractionPlan.ran.length;
+    extractionPlan.skipped_count = extractionPlan.skipped.length;
 
     // STEP 4: Calcula progresso
     const progress = this.calculateProgress(session);
@@ -228,8 +343,10 @@ export class RhizomaticOrchestrator {
     );
 
     return {
-      transcription,
+      transcription: recording.transcription,
+      turns,
       extraction_results: extractionMap,
+      extraction_plan: extractionPlan,
       session_state: session,
       progress,
     };
@@ -242,10 +359,12 @@ export class RhizomaticOrchestrator {
   async processTextAndExtractSlots(
     sessionId: string,
     text: string,
-    speaker: 'nurse' | 'patient' | 'system'
+    speaker: 'nurse' | 'patient' | 'system',
+    attribution?: TurnAttribution
   ): Promise<{
     extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
-    session_state: TriageSession;
+    extraction_plan: ExtractionPlanReport;
+    session_state: TriageSessionState;
     progress: ExtractionProgress;
   }> {
     const session = this.sessions.get(sessionId);
@@ -258,164 +377,599 @@ export class RhizomaticOrchestrator {
       role: speaker,
       content: text,
       timestamp: new Date().toISOString(),
+      attribution,
     };
     session.conversation_history.push(turn);
 
-    // Extração paralela
-    const extractionPromises = Array.from(this.extractors.entries()).map(async ([slotId, extractor]) => {
-      const request: SlotFillRequest = {
-        slot_id: slotId,
-        conversation_context: session.conversation_history,
-        patient_context: session.patient_context,
-        attempt: 1,
-      };
-
-      try {
-        const result = await extractor.extract(request);
-        return { slotId, result };
-      } catch (error) {
-        return {
-          slotId,
-          result: {
-            value: null,
-            confidence: 0.0,
-            source: 'llm_extraction' as const,
-            timestamp: new Date().toISOString(),
-          },
-        };
-      }
-    });
-
-    const extractionResults = await Promise.all(extractionPromises);
-
-    const extractionMap: Partial<Record<SlotId, ExtractionResult<any>>> = {};
-    for (const { slotId, result } of extractionResults) {
-      extractionMap[slotId] = result;
-      if (result.value !== null && result.confidence > 0.5) {
-        session.slot_state[slotId] = result.value;
-      }
-    }
+    // Extração paralela (só os extractors que o planner selecionou)
+    const { extraction_results: extractionMap, extraction_plan: extractionPlan } = await this.runExtractionRound(session);
 
     const progress = this.calculateProgress(session);
 
     return {
       extraction_results: extractionMap,
+      extraction_plan: extractionPlan,
       session_state: session,
       progress,
     };
   }
 
   /**
-   * Gera próxima pergunta inteligente
-   * Identifica slot mais crítico não preenchido e gera pergunta de fallback
+   * Extrai o mesmo turno nos dois modos (rhizomatic e batch) sem alterar a sessão
+   * Latência, chamadas e tokens vêm em extraction_plan.metrics de cada modo;
+   * com `expected` (slot → valor correto), também a acurácia de cada um.
    */
-  async generateNextQuestion(sessionId: string): Promise<{
-    slot_id: SlotId;
-    question: string;
-    priority: 'critical' | 'high' | 'medium' | 'low';
-    reasoning: string;
-  }> {
+  async compareExtractionModes(
+    sessionId: string,
+    text: string,
+    speaker: 'nurse' | 'patient' | 'system',
+    expected?: Record<string, unknown>
+  ): Promise<ExtractionModeComparison> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    // Define prioridades de slots (CRÍTICOS primeiro)
-    const slotPriorities: Record<string, 'critical' | 'high' | 'medium' | 'low'> = {
-      chief_complaint: 'critical',
-      consciousness_level: 'critical',
-      temperature: 'critical',
-      heart_rate: 'critical',
-      blood_pressure: 'critical',
-      oxygen_saturation: 'critical',
-      respiratory_rate: 'critical',
-      bleeding_present: 'high',
-      allergy_history: 'high',
-      pain_score: 'high',
-      symptom_onset: 'high',
-      previous_medical_history: 'medium',
-      medications_in_use: 'medium',
-      glucose_level: 'low',
-      trauma_mechanism: 'high',
-      neurological_deficit: 'high',
-      sepsis_criteria: 'medium',
-      chest_pain_characteristics: 'high',
-      bleeding_severity: 'high',
+    const timestamp = new Date().toISOString();
+    const modes = {} as ExtractionModeComparison['modes'];
+
+    for (const mode of EXTRACTION_MODES) {
+      const trial: TriageSessionState = { ...structuredClone(session), extraction_mode: mode };
+      trial.conversation_history.push({ role: speaker, content: text, timestamp });
+
+      const round = await this.runExtractionRound(trial);
+      modes[mode] = {
+        ...round,
+        slot_state: trial.slot_state,
+        accuracy: expected ? scoreAccuracy(trial.slot_state, expected) : undefined,
+      };
+    }
+
+    return {
+      modes,
+      agreement: compareSlotValues(modes.rhizomatic.extraction_results, modes.batch.extraction_results),
     };
+  }
 
-    // Encontra slots não preenchidos por prioridade
-    const unfilled = Array.from(this.extractors.keys()).filter((slotId) => {
-      return !session.slot_state[slotId];
-    });
+  /**
+   * Gera próxima pergunta por valor de informação
+   * Confirmações pendentes primeiro; depois o slot vazio que mais pode mudar a
+   * classificação, guards e fluxos prioritários. Classificação decidida → sem pergunta.
+   */
+  async generateNextQuestion(sessionId: string): Promise<NextQuestion> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
 
-    if (unfilled.length === 0) {
+    const { classification, ranking } = this.questions.plan(session.slot_state);
+    const position = (slotId: string) => {
+      const index = ranking.findIndex((entry) => entry.slot_id === slotId);
+      return index === -1 ? ranking.length : index;
+    };
+
+    // Valores implausíveis retidos vêm antes de slots vazios
+    const pending = (Object.keys(session.pending_confirmations) as SlotId[]).sort((a, b) => position(a) - position(b));
+    if (pending.length > 0) {
+      const confirmation = session.pending_confirmations[pending[0]]!;
+      return {
+        slot_id: pending[0],
+        question: confirmation.question,
+        priority: questionPriority(ranking[position(pending[0])]?.reachable_priority ?? null),
+        reasoning: `Slot ${pending[0]} value ${JSON.stringify(confirmation.value)} needs confirmation: ${confirmation.issues.map((issue) => issue.message).join('; ')}`,
+        classification,
+        ranking,
+      };
+    }
+
+    if (classification.settled) {
+      const determined = classification.determined_by;
       return {
-        slot_id: 'chief_complaint' as SlotId,
-        question: 'Todos os dados necessários foram coletados. Podemos prosseguir com a classificação.',
+        slot_id: null,
+        question: null,
         priority: 'low',
-        reasoning: 'All slots filled',
+        reasoning: ranking.length
+          ? `Classification settled at ${classification.current_priority ?? 'no discriminator'}${determined ? ` (${determined.slot_id} ${determined.band}: ${determined.rule})` : ''} with ${classification.threshold_set} thresholds; remaining slots cannot raise it`
+          : 'All slots filled',
+        classification,
+        ranking,
       };
     }
 
-    // Ordena por prioridade
-    unfilled.sort((a, b) => {
-      const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-      const prioA = priorityOrder[slotPriorities[a] || 'low'];
-      const prioB = priorityOrder[slotPriorities[b] || 'low'];
-      return prioA - prioB;
+    const next = ranking[0];
+    const extractor = this.extractors.get(next.slot_id as SlotId);
+
+    if (!extractor) {
+      throw new Error(`No extractor found for slot ${next.slot_id}`);
+    }
+
+    return {
+      slot_id: next.slot_id as SlotId,
+      question: extractor.generateFallbackQuestion(session.conversation_history),
+      priority: questionPriority(next.reachable_priority),
+      reasoning: `Slot ${next.slot_id} has the highest value of information (${next.score}): ${next.rationale.join('; ')}`,
+      classification,
+      ranking,
+    };
+  }
+
+  /**
+   * Rodada de extração de um turno
+   *
+   * Onda a onda (dependências primeiro), o planner escolhe os extractors;
+   * os escolhidos de uma onda rodam em paralelo e seus resultados alimentam
+   * as condições da onda seguinte.
+   *
+   * Modo batch: slots conversacionais sem match de padrão são adiados para uma
+   * chamada única no fim do round (slots condicionados a eles vão junto e só
+   * valem se a condição se confirmar com os valores que voltarem). Slots que a
+   * resposta não cobre (malformada ou parcial) voltam ao extractor do slot.
+   */
+  private async runExtractionRound(session: TriageSessionState): Promise<{
+    extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+    extraction_plan: ExtractionPlanReport;
+  }> {
+    const mode = session.extraction_mode ?? 'rhizomatic';
+    const { result: round, metrics } = await this.meter.measure(mode, async () => {
+      const extractionMap: Partial<Record<SlotId, ExtractionResult<any>>> = {};
+      const plan = emptyPlanReport();
+      const changed = new Set<string>();
+      const turnIndex = session.conversation_history.length - 1;
+      const deferred = new Set<string>(); // Vão para a chamada batch
+      const conditional = new Set<string>(); // Condição a confirmar depois da chamada batch
+      const held: Array<{ slotId: SlotId; result: ExtractionResult<any> }> = [];
+      // Negação/incerteza/experienciador da conversa: vai nos prompts e filtra os valores do round
+      const clinicalContext = this.annotateClinicalContext(session);
+
+      for (const wave of this.planner.waves()) {
+        const selected: SlotId[] = [];
+
+        for (const slotId of wave) {
+          const decision = this.planner.decide(slotId, {
+            slot_state: session.slot_state,
+            slot_metadata: session.slot_metadata,
+            conversation: session.conversation_history,
+            changed,
+            deferred: mode === 'batch' ? deferred : undefined,
+            now: Date.now(),
+          });
+
+          // Só slots que podem ir na chamada batch esperam a condição; os demais aguardam o próximo turno
+          if (decision.run && decision.conditional && !this.isBatchSlot(slotId)) {
+            plan.skipped.push({ slot_id: slotId, reason: 'condition_pending' });
+          } else if (decision.run) {
+            plan.ran.push({ slot_id: slotId, reason: decision.reason as PlanRunReason });
+            selected.push(slotId as SlotId);
+            if (decision.conditional) conditional.add(slotId);
+          } else {
+            plan.skipped.push({ slot_id: slotId, reason: decision.reason as PlanSkipReason });
+          }
+        }
+
+        const results = await Promise.all(
+          selected.map(async (slotId) => {
+            if (mode === 'batch' && this.isBatchSlot(slotId)) {
+              try {
+                // Padrões do PIR continuam primeiro; sem match o slot entra na chamada única
+                const patternResult = this.extractors.get(slotId).extractFromPatterns(this.buildFillRequest(session, slotId, clinicalContext));
+                if (!patternResult) deferred.add(slotId);
+                return patternResult ? { slotId, result: patternResult } : null;
+              } catch (error) {
+                console.error(`[PIR] Extractor ${slotId} failed:`, error);
+                return { slotId, result: this.extractionError(slotId, error) };
+              }
+            }
+
+            // Cada extractor recebe contexto completo e decide autonomamente
+            return { slotId, result: await this.extractSlot(session, slotId, clinicalContext) };
+          })
+        );
+
+        for (const entry of results) {
+          if (!entry) continue;
+          if (conditional.has(entry.slotId)) held.push(entry);
+          else this.applyRoundResult(session, entry.slotId, entry.result, turnIndex, extractionMap, changed, clinicalContext);
+        }
+      }
+
+      if (deferred.size > 0) {
+        console.log(`[PIR] Batch extraction: ${deferred.size} slots in one call (${Array.from(deferred).join(', ')})`);
+        const batch = await this.batch.extract(
+          Array.from(deferred),
+          session.conversation_history,
+          session.patient_context,
+          patientAgeYears(session.slot_state, session.patient_context),
+          clinicalContext
+        );
+        const batchResults = { ...batch.results };
+        const batchChanged = new Set<string>();
+
+        // Resposta malformada ou parcial: os slots sem campo voltam ao extractor do slot
+        if (batch.missing.length > 0) {
+          console.log(`[PIR] Batch fallback: ${batch.missing.length} slots extracted per slot (${batch.missing.join(', ')})`);
+          const fallback = await Promise.all(batch.missing.map((slotId) => this.extractSlot(session, slotId as SlotId, clinicalContext)));
+          batch.missing.forEach((slotId, index) => (batchResults[slotId] = fallback[index]));
+        }
+
+        for (const slotId of deferred) {
+          if (conditional.has(slotId)) held.push({ slotId: slotId as SlotId, result: batchResults[slotId] });
+          else this.applyRoundResult(session, slotId as SlotId, batchResults[slotId], turnIndex, extractionMap, batchChanged, clinicalContext);
+        }
+
+        // Condicionais em ordem de onda: a condição usa os valores que acabaram de entrar
+        for (const slotId of this.planner.waves().flat()) {
+          const entry = held.find((candidate) => candidate.slotId === slotId);
+          if (!entry) continue;
+
+          let satisfied: boolean | null = null;
+          try {
+            satisfied = evaluateConditionTristate(this.slotDefinitions.get(slotId)!.condition!, session.slot_state);
+          } catch {
+            satisfied = null;
+          }
+
+          if (satisfied === true) {
+            this.applyRoundResult(session, entry.slotId, entry.result, turnIndex, extractionMap, batchChanged, clinicalContext);
+          } else {
+            plan.ran = plan.ran.filter((ran) => ran.slot_id !== slotId);
+            plan.skipped.push({ slot_id: slotId, reason: satisfied === false ? 'condition_unmet' : 'condition_pending' });
+            console.log(`[PIR] ○ Slot ${slotId} discarded (condition not met after batch)`);
+          }
+        }
+
+        // Computados com input vindo da chamada batch (nas ondas já rodaram com o que havia)
+        for (const slotId of await this.recomputeDependents(session, batchChanged, extractionMap, turnIndex)) {
+          plan.skipped = plan.skipped.filter((skipped) => skipped.slot_id !== slotId);
+          if (!plan.ran.some((ran) => ran.slot_id === slotId)) plan.ran.push({ slot_id: slotId, reason: 'inputs_changed' });
+        }
+      }
+
+      plan.ran_count = plan.ran.length;
+      plan.skipped_count = plan.skipped.length;
+      return { extraction_results: extractionMap, extraction_plan: plan };
     });
 
-    const nextSlotId = unfilled[0] as SlotId;
-    const extractor = this.extractors.get(nextSlotId);
+    round.extraction_plan.metrics = metrics;
+    console.log(
+      `[PIR] Extraction plan (${mode}): ${round.extraction_plan.ran_count} ran, ${round.extraction_plan.skipped_count} skipped, ${metrics.model_calls} model call(s) in ${metrics.latency_ms}ms`
+    );
 
-    if (!extractor) {
-      throw new Error(`No extractor found for slot ${nextSlotId}`);
+    return round;
+  }
+
+  /**
+   * Resultado de um extractor no round: vira valor do slot se plausível e vencer a política de conflito
+   */
+  private applyRoundResult(
+    session: TriageSessionState,
+    slotId: SlotId,
+    result: ExtractionResult<any>,
+    turnIndex: number,
+    extractionMap: Partial<Record<SlotId, ExtractionResult<any>>>,
+    changed: Set<string>,
+    clinicalContext: ClinicalContextAnnotation[] = []
+  ): void {
+    result = this.applyClinicalContext(session, slotId, result, clinicalContext);
+    extractionMap[slotId] = result;
+
+    // Atualiza slot state se extração bem-sucedida (plausível e vencendo a política de conflito)
+    if (result.value !== null && result.confidence > 0.5) {
+      const previous = JSON.stringify(session.slot_state[slotId]);
+      const entry = this.recordSlotValue(session, slotId, this.candidateFromResult(result, turnIndex));
+      extractionMap[slotId] = this.withConfirmation(session, slotId, result, entry);
+
+      if (entry.accepted && JSON.stringify(result.value) !== previous) changed.add(slotId);
+      console.log(
+        `[PIR] ${entry.accepted ? '✓' : '✗'} Slot ${slotId} extracted: ${JSON.stringify(result.value).substring(0, 100)} (${entry.resolution})`
+      );
+    } else {
+      console.log(`[PIR] ○ Slot ${slotId} not extracted (confidence: ${result.confidence})`);
     }
+  }
+
+  /**
+   * Anotações de contexto clínico da conversa (no modo pediátrico "meu filho" é o paciente)
+   */
+  private annotateClinicalContext(session: TriageSessionState): ClinicalContextAnnotation[] {
+    const pediatric = isPediatricPatient(patientAgeYears(session.slot_state, session.patient_context));
+    return annotateConversation(session.conversation_history, { pediatric });
+  }
+
+  /**
+   * Gate de contexto clínico: achado ancorado só em trecho negado ou de outra pessoa, ou valor
+   * cuja evidência é só uma pergunta sem resposta, é descartado; ancorado só em trecho incerto
+   * tem a confiança limitada
+   */
+  private applyClinicalContext(
+    session: TriageSessionState,
+    slotId: SlotId,
+    result: ExtractionResult<any>,
+    clinicalContext: ClinicalContextAnnotation[]
+  ): ExtractionResult<any> {
+    if (result.value === null) return result;
+    if (result.source !== 'pattern_match' && result.source !== 'llm_extraction') return result;
+
+    const conversation = session.conversation_history;
+    const mentions = findSlotMentions(slotId, conversation);
+    let spans: TextSpan[];
+
+    if (result.span) {
+      // Evidência localizada: menções do slot dentro dela (ou o trecho inteiro)
+      const { turn_index, start, end } = result.span;
+      const inside = mentions.filter((mention) => mention.turn_index === turn_index && mention.start >= start && mention.end <= end);
+      spans = (inside.length ? inside : [result.span]).filter((span) => isGroundingSpan(conversation, span));
+
+      // "Tem algum sangramento?" citado como evidência, sem "sim"/"não" do paciente
+      if (!spans.length) {
+        return this.rejectByClinicalContext(slotId, result, `evidence "${result.span.text}" is an unanswered question`);
+      }
+    } else {
+      // Sem evidência: todas as menções, exceto perguntas sem resposta curta
+      spans = mentions.filter((mention) => isGroundingSpan(conversation, mention));
+    }
+
+    const verdict = judgeGrounding(result.value, this.slotDefinitions.get(slotId), spans, clinicalContext);
+
+    if (verdict.rejected) {
+      return this.rejectByClinicalContext(slotId, result, verdict.reason!);
+    }
+
+    if (verdict.uncertain && result.confidence > UNCERTAIN_MAX_CONFIDENCE) {
+      return {
+        ...result,
+        confidence: UNCERTAIN_MAX_CONFIDENCE,
+        reasoning: `${result.reasoning ? `${result.reasoning}; ` : ''}uncertain context, confidence capped at ${UNCERTAIN_MAX_CONFIDENCE}`,
+      };
+    }
+
+    return result;
+  }
+
+  private rejectByClinicalContext(slotId: SlotId, result: ExtractionResult<any>, reason: string): ExtractionResult<any> {
+    console.log(`[PIR] ✗ Slot ${slotId} rejected by clinical context: ${reason}`);
+    return { ...result, value: null, confidence: 0.0, reasoning: `Rejected by clinical context: ${reason}` };
+  }
+
+  /**
+   * Slots computados com input novo (ex: sepsis_criteria), em ordem de onda; retorna os que rodaram
+   */
+  private async recomputeDependents(
+    session: TriageSessionState,
+    changed: Set<string>,
+    results: Partial<Record<SlotId, ExtractionResult<any>>>,
+    turnIndex: number
+  ): Promise<SlotId[]> {
+    const ran: SlotId[] = [];
+
+    for (const wave of this.planner.waves()) {
+      for (const slotId of wave as SlotId[]) {
+        if (this.slotDefinitions.get(slotId)?.type !== 'computed') continue;
 
-    const question = extractor.generateFallbackQuestion(session.conversation_history);
-    const priority = slotPriorities[nextSlotId] || 'low';
+        const decision = this.planner.decide(slotId, {
+          slot_state: session.slot_state,
+          slot_metadata: session.slot_metadata,
+          conversation: session.conversation_history,
+          changed,
+          now: Date.now(),
+        });
+        if (!decision.run) continue;
 
+        ran.push(slotId);
+        const result = await this.extractors.get(slotId).extract(this.buildFillRequest(session, slotId));
+        results[slotId] = result;
+
+        if (result.value !== null && result.confidence > 0.5) {
+          const entry = this.recordSlotValue(session, slotId, this.candidateFromResult(result, turnIndex));
+          results[slotId] = this.withConfirmation(session, slotId, result, entry);
+          if (entry.accepted) changed.add(slotId);
+        }
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Extractor do slot com o contexto completo da sessão (erro vira resultado vazio)
+   */
+  private async extractSlot(
+    session: TriageSessionState,
+    slotId: SlotId,
+    clinicalContext: ClinicalContextAnnotation[]
+  ): Promise<ExtractionResult<any>> {
+    try {
+      return await this.extractors.get(slotId).extract(this.buildFillRequest(session, slotId, clinicalContext));
+    } catch (error) {
+      console.error(`[PIR] Extractor ${slotId} failed:`, error);
+      return this.extractionError(slotId, error);
+    }
+  }
+
+  private extractionError(slotId: SlotId, error: unknown): ExtractionResult<any> {
     return {
-      slot_id: nextSlotId,
-      question,
-      priority,
-      reasoning: `Slot ${nextSlotId} is unfilled and has ${priority} priority`,
+      slot_id: slotId,
+      slot_name: this.slotDefinitions.get(slotId)?.name ?? slotId,
+      value: null,
+      status: 'failed',
+      extraction_method: 'conversation',
+      confidence: 0.0,
+      source: 'llm_extraction',
+      timestamp: new Date().toISOString(),
+      reasoning: `Extraction error: ${error}`,
+    };
+  }
+
+  /**
+   * Slot extraído por LLM a partir da conversa (vai na chamada única do modo batch)
+   */
+  private isBatchSlot(slotId: string): boolean {
+    return this.extractors.get(slotId as SlotId) instanceof ConversationalExtractor;
+  }
+
+  /**
+   * Registra o candidato no histórico do slot; se vencer a política de conflito vira o valor atual
+   */
+  private recordSlotValue(session: TriageSessionState, slotId: SlotId, candidate: SlotValueCandidate): SlotHistoryEntry {
+    const history = (session.slot_history[slotId] ??= []);
+
+    // Valor automático implausível: retido para confirmação (correção manual é a confirmação)
+    if (candidate.source !== 'manual') {
+      const check = this.plausibility.check(slotId, candidate.value, {
+        slot_state: session.slot_state,
+        age_years: patientAgeYears(session.slot_state, session.patient_context) ?? undefined,
+      });
+
+      if (!check.plausible) {
+        const entry: SlotHistoryEntry = { ...candidate, accepted: false, resolution: 'needs_confirmation', issues: check.issues };
+        history.push(entry);
+
+        session.pending_confirmations[slotId] = {
+          value: candidate.value,
+          suggested_value: check.suggested_value,
+          issues: check.issues,
+          question: check.confirmation_question!,
+          turn_index: candidate.turn_index,
+          flagged_at: candidate.recorded_at,
+        };
+        return entry;
+      }
+    }
+
+    const entry: SlotHistoryEntry = { ...candidate, ...resolveConflict(currentEntry(history), candidate) };
+    history.push(entry);
+
+    if (entry.accepted) {
+      delete session.pending_confirmations[slotId];
+      session.slot_state[slotId] = entry.value;
+      session.slot_metadata[slotId] = {
+        confidence: entry.confidence,
+        source: entry.source,
+        filled_at: entry.recorded_at,
+        turn_index: entry.turn_index,
+      };
+    }
+
+    return entry;
+  }
+
+  /**
+   * Resultado retido marcado como needs_confirmation, com a pergunta de confirmação
+   */
+  private withConfirmation(
+    session: TriageSessionState,
+    slotId: SlotId,
+    result: ExtractionResult<any>,
+    entry: SlotHistoryEntry
+  ): ExtractionResult<any> {
+    if (entry.resolution !== 'needs_confirmation') return result;
+    return { ...result, status: 'needs_confirmation', fallback_question: session.pending_confirmations[slotId]!.question };
+  }
+
+  private candidateFromResult(result: ExtractionResult<any>, turnIndex: number): SlotValueCandidate {
+    const source = provenanceSource(result.source);
+
+    return {
+      value: result.value,
+      source,
+      confidence: result.confidence,
+      turn_index: result.span?.turn_index ?? turnIndex,
+      span: result.span,
+      extractor_version: EXTRACTOR_VERSION,
+      model: source === 'llm' ? result.model_used : undefined,
+      actor: 'system',
+      recorded_at: result.timestamp,
+    };
+  }
+
+  /**
+   * Request de extração com a definição do slot no PIR (padrões rodam antes do LLM)
+   */
+  private buildFillRequest(session: TriageSessionState, slotId: SlotId, clinicalContext?: ClinicalContextAnnotation[]): SlotFillRequest {
+    return {
+      slot_id: slotId,
+      conversation_context: session.conversation_history,
+      patient_context: session.patient_context,
+      attempt: 1,
+      slot_definition: this.slotDefinitions.get(slotId),
+      slot_state: session.slot_state,
+      clinical_context: clinicalContext,
     };
   }
 
   /**
    * Calcula progresso da sessão
    */
-  private calculateProgress(session: TriageSession): ExtractionProgress {
-    const totalSlots = this.extractors.size;
-    const filledSlots = Object.keys(session.slot_state).length;
-    const pendingSlots = Array.from(this.extractors.keys()).filter((slotId) => !session.slot_state[slotId]);
+  private calculateProgress(session: TriageSessionState): ExtractionProgress {
+    const slotIds = Array.from(this.extractors.keys());
+    const totalSlots = slotIds.length;
 
-    // TODO: Track validation state separately
-    const validatedSlots = filledSlots; // Por ora assume validados = preenchidos
+    // false e 0 são valores válidos: só undefined conta como pendente
+    const filled = slotIds.filter((slotId) => session.slot_state[slotId] !== undefined);
+    const pendingSlots = slotIds.filter((slotId) => session.slot_state[slotId] === undefined);
+
+    // Validado: valor manual/dispositivo ou extraído com confiança, sem confirmação em aberto
+    const validatedSlots = filled.filter((slotId) => {
+      const metadata = session.slot_metadata[slotId];
+      if (session.pending_confirmations[slotId]) return false;
+      if (metadata?.source === 'manual' || metadata?.source === 'device') return true;
+      return (metadata?.confidence ?? 1) >= CONFIDENT_FILL_THRESHOLD;
+    });
+
+    // Falha: houve candidatos, mas nenhum foi aceito (rejeitados ou retidos para confirmação)
+    const failedSlots = pendingSlots.filter((slotId) => {
+      const history = session.slot_history[slotId] ?? [];
+      return session.pending_confirmations[slotId] !== undefined || (history.length > 0 && !history.some((entry) => entry.accepted));
+    });
 
     return {
       total_slots: totalSlots,
-      filled_slots: filledSlots,
-      validated_slots: validatedSlots,
+      filled_slots: filled.length,
+      validated_slots: validatedSlots.length,
       pending_slots: pendingSlots,
-      failed_slots: [], // TODO: Track failures
-      completion_percentage: Math.round((filledSlots / totalSlots) * 100),
+      failed_slots: failedSlots,
+      completion_percentage: totalSlots ? Math.round((filled.length / totalSlots) * 100) : 0,
     };
   }
 
   /**
    * Obtém estado atual da sessão
    */
-  getSession(sessionId: string): TriageSession | undefined {
+  getSession(sessionId: string): TriageSessionState | undefined {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Progresso atual da sessão (sem extrair)
+   */
+  getProgress(sessionId: string): ExtractionProgress {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    return this.calculateProgress(session);
+  }
+
+  /**
+   * Histórico de valores do slot (mais antigo primeiro) e valor atual
+   */
+  getSlotHistory(
+    sessionId: string,
+    slotId: SlotId
+  ): { slot_id: SlotId; current: SlotHistoryEntry | null; history: SlotHistoryEntry[] } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const history = session.slot_history[slotId] ?? [];
+    return { slot_id: slotId, current: currentEntry(history) ?? null, history };
+  }
+
   /**
    * Finaliza sessão e retorna resultado completo
    */
   completeSession(sessionId: string): {
-    session: TriageSession;
+    session: TriageSessionState;
     filled_slots: Partial<Record<SlotId, any>>;
     progress: ExtractionProgress;
   } {
@@ -434,6 +988,169 @@ export class RhizomaticOrchestrator {
     };
   }
 
+  /**
+   * Registra medições de dispositivo (já mapeadas para slots)
+   *
+   * Entram no histórico com origem "device": vencem valores conversacionais
+   * pela política de conflito. Slots computados com input novo são recalculados.
+   */
+  async ingestDeviceReadings(
+    sessionId: string,
+    values: DeviceSlotValue[]
+  ): Promise<{
+    extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+    session_state: TriageSessionState;
+    progress: ExtractionProgress;
+  }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    return this.applyExternalValues(
+      session,
+      values.map((reading) => ({
+        slot_id: reading.slot_id as SlotId,
+        extraction_method: 'device' as const,
+        reasoning: `${reading.device_type} ${reading.device_id} (${reading.quality})`,
+        candidate: {
+          value: reading.value,
+          source: 'device' as const,
+          confidence: reading.quality === 'good' ? 0.98 : 0.7,
+          turn_index: -1,
+          actor: `device:${reading.device_id}`,
+          recorded_at: reading.measured_at,
+          device: { device_type: reading.device_type, device_id: reading.device_id, quality: reading.quality },
+        },
+      }))
+    );
+  }
+
+  /**
+   * Pré-preenche slots com registros do prontuário (FHIR)
+   *
+   * Origem "historical": perde para conversa, dispositivo e correção manual dentro da janela de conflito.
+   */
+  async importRecordValues(
+    sessionId: string,
+    values: ImportedSlotValue[]
+  ): Promise<{
+    extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+    session_state: TriageSessionState;
+    progress: ExtractionProgress;
+  }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    return this.applyExternalValues(
+      session,
+      values.map((imported) => ({
+        slot_id: imported.slot_id as SlotId,
+        extraction_method: 'historical' as const,
+        reasoning: imported.source_references.join(', '),
+        candidate: {
+          value: imported.value,
+          source: 'historical' as const,
+          confidence: 0.9,
+          turn_index: -1,
+          actor: `fhir:${imported.source_references[0]}`,
+          recorded_at: imported.recorded_at,
+        },
+      }))
+    );
+  }
+
+  /**
+   * Pré-preenche idade e sexo com o cadastro (patient_context do início da sessão)
+   *
+   * Origem "historical", como o prontuário: o que o paciente disser na conversa corrige o cadastro.
+   */
+  async importRegistration(sessionId: string): Promise<{
+    extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+    session_state: TriageSessionState;
+    progress: ExtractionProgress;
+  }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    // Data de nascimento vence age_years: idade calculada na data da triagem
+    const context = session.patient_context;
+    const registered: Array<{ slot_id: SlotId; value: unknown; field: string }> = [];
+    const age = context?.birth_date ? ageFromBirthDate(context.birth_date, Date.parse(session.started_at)) : context?.age_years;
+
+    if (typeof age === 'number') registered.push({ slot_id: 'age', value: age, field: context?.birth_date ? 'birth_date' : 'age_years' });
+    if (context?.sex) registered.push({ slot_id: 'sex', value: context.sex, field: 'sex' });
+
+    return this.applyExternalValues(
+      session,
+      registered
+        .filter((value) => this.slotDefinitions.has(value.slot_id))
+        .map(({ slot_id, value, field }) => ({
+          slot_id,
+          extraction_method: 'historical' as const,
+          reasoning: `patient_context.${field}`,
+          candidate: {
+            value,
+            source: 'historical' as const,
+            confidence: 0.95,
+            turn_index: -1,
+            actor: 'registration',
+            recorded_at: session.started_at,
+          },
+        }))
+    );
+  }
+
+  /**
+   * Valores de fora da conversa (dispositivo, prontuário): histórico + slots computados dependentes
+   */
+  private async applyExternalValues(
+    session: TriageSessionState,
+    values: Array<{
+      slot_id: SlotId;
+      candidate: SlotValueCandidate;
+      extraction_method: 'device' | 'historical';
+      reasoning: string;
+    }>
+  ): Promise<{
+    extraction_results: Partial<Record<SlotId, ExtractionResult<any>>>;
+    session_state: TriageSessionState;
+    progress: ExtractionProgress;
+  }> {
+    const results: Partial<Record<SlotId, ExtractionResult<any>>> = {};
+    const changed = new Set<string>();
+
+    for (const { slot_id: slotId, candidate, extraction_method, reasoning } of values) {
+      const previous = JSON.stringify(session.slot_state[slotId]);
+      const entry = this.recordSlotValue(session, slotId, candidate);
+
+      const result: ExtractionResult<any> = {
+        slot_id: slotId,
+        slot_name: this.slotDefinitions.get(slotId)?.name ?? slotId,
+        value: candidate.value,
+        confidence: candidate.confidence,
+        status: extraction_method,
+        extraction_method,
+        source: extraction_method,
+        timestamp: candidate.recorded_at,
+        reasoning: `${reasoning}: ${entry.resolution}`,
+      };
+      results[slotId] = this.withConfirmation(session, slotId, result, entry);
+
+      if (entry.accepted && JSON.stringify(entry.value) !== previous) changed.add(slotId);
+      console.log(`[PIR] ${entry.accepted ? '✓' : '✗'} ${candidate.actor} → ${slotId} (${entry.resolution})`);
+    }
+
+    // Slots computados que dependem dos novos valores (ex: sepsis_criteria)
+    await this.recomputeDependents(session, changed, results, -1);
+
+    return { extraction_results: results, session_state: session, progress: this.calculateProgress(session) };
+  }
+
   /**
    * Força extração de slot específico (útil para re-tentativas)
    */
@@ -448,17 +1165,14 @@ export class RhizomaticOrchestrator {
       throw new Error(`No extractor found for slot ${slotId}`);
     }
 
-    const request: SlotFillRequest = {
-      slot_id: slotId,
-      conversation_context: session.conversation_history,
-      patient_context: session.patient_context,
-      attempt: 1,
-    };
+    const clinicalContext = this.annotateClinicalContext(session);
+    const request = this.buildFillRequest(session, slotId, clinicalContext);
 
-    const result = await extractor.extract(request);
+    const result = this.applyClinicalContext(session, slotId, await extractor.extract(request), clinicalContext);
 
     if (result.value !== null && result.confidence > 0.5) {
-      session.slot_state[slotId] = result.value;
+      const entry = this.recordSlotValue(session, slotId, this.candidateFromResult(result, session.conversation_history.length - 1));
+      return this.withConfirmation(session, slotId, result, entry);
     }
 
     return result;
@@ -467,19 +1181,27 @@ export class RhizomaticOrchestrator {
   /**
    * Atualiza slot manualmente (para correções do enfermeiro)
    */
-  updateSlotManually(sessionId: string, slotId: SlotId, value: any): void {
+  updateSlotManually(sessionId: string, slotId: SlotId, value: any, actor = 'nurse'): void {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    session.slot_state[slotId] = value;
-
     // Adiciona ao histórico como correção
+    const timestamp = new Date().toISOString();
     session.conversation_history.push({
       role: 'system',
       content: `Slot ${slotId} atualizado manualmente para: ${JSON.stringify(value)}`,
-      timestamp: new Date().toISOString(),
+      timestamp,
+    });
+
+    this.recordSlotValue(session, slotId, {
+      value,
+      source: 'manual',
+      confidence: 1.0,
+      turn_index: session.conversation_history.length - 1, // Turno de sistema da correção
+      actor,
+      recorded_at: timestamp,
     });
   }
 
@@ -489,6 +1211,7 @@ export class RhizomaticOrchestrator {
   exportToPIR(sessionId: string): {
     session_id: string;
     patient_id?: string;
+    protocol: PIRVersionRef;
     timestamp: string;
     slots: Partial<Record<SlotId, any>>;
     conversation_transcript: ConversationTurn[];
@@ -504,6 +1227,7 @@ export class RhizomaticOrchestrator {
     return {
       session_id: session.session_id,
       patient_id: session.patient_id,
+      protocol: session.protocol,
       timestamp: new Date().toISOString(),
       slots: session.slot_state,
       conversation_transcript: session.conversation_history,
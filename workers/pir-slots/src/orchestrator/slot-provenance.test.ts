@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CONFLICT_WINDOW_MS,
+  currentEntry,
+  provenanceSource,
+  resolveConflict,
+  type ProvenanceSource,
+  type SlotHistoryEntry,
+  type SlotValueCandidate,
+} from './slot-provenance';
+
+const BASE = Date.parse('2026-01-15T12:00:00.000Z');
+
+function candidate(value: unknown, source: ProvenanceSource, minutes = 0): SlotValueCandidate {
+  return {
+    value,
+    source,
+    confidence: 0.9,
+    turn_index: 0,
+    actor: source === 'manual' ? 'enf. Ana' : 'system',
+    recorded_at: new Date(BASE + minutes * 60_000).toISOString(),
+  };
+}
+
+function entry(value: unknown, source: ProvenanceSource, minutes = 0, accepted = true): SlotHistoryEntry {
+  return { ...candidate(value, source, minutes), accepted, resolution: 'first_value' };
+}
+
+describe('resolveConflict', () => {
+  it('accepts the first value of an empty slot', () => {
+    expect(resolveConflict(undefined, candidate(38.5, 'llm'))).toEqual({ accepted: true, resolution: 'first_value' });
+  });
+
+  it('records the same value without letting a weaker source take over', () => {
+    expect(resolveConflict(entry(38.5, 'device'), candidate(38.5, 'manual', 1))).toEqual({ accepted: true, resolution: 'same_value' });
+    expect(resolveConflict(entry(38.5, 'device'), candidate(38.5, 'llm', 1))).toEqual({ accepted: false, resolution: 'same_value' });
+  });
+
+  it('prefers manual over device over conversation within the window', () => {
+    expect(resolveConflict(entry(38.5, 'llm'), candidate(39.2, 'device', 2))).toEqual({ accepted: true, resolution: 'higher_priority' });
+    expect(resolveConflict(entry(39.2, 'device'), candidate(38.5, 'regex', 2))).toEqual({ accepted: false, resolution: 'lower_priority' });
+    expect(resolveConflict(entry(39.2, 'device', 2), candidate(39.0, 'manual'))).toEqual({ accepted: true, resolution: 'higher_priority' });
+  });
+
+  it('lets the newer value win between sources of the same priority', () => {
+    expect(resolveConflict(entry(7, 'regex'), candidate(8, 'llm', 1))).toEqual({ accepted: true, resolution: 'newer' });
+    expect(resolveConflict(entry(7, 'regex', 1), candidate(8, 'llm'))).toEqual({ accepted: false, resolution: 'older' });
+  });
+
+  it('lets the most recent value win outside the window', () => {
+    const minutes = CONFLICT_WINDOW_MS / 60_000 + 1;
+    expect(resolveConflict(entry(39.2, 'manual'), candidate(37.0, 'llm', minutes))).toEqual({ accepted: true, resolution: 'outside_window' });
+    expect(resolveConflict(entry(37.0, 'llm', minutes), candidate(39.2, 'manual'))).toEqual({ accepted: false, resolution: 'outside_window' });
+  });
+
+  it('compares structured values by content', () => {
+    const current = entry({ systolic: 120, diastolic: 80 }, 'device');
+    expect(resolveConflict(current, candidate({ systolic: 120, diastolic: 80 }, 'device', 1)).resolution).toBe('same_value');
+  });
+});
+
+describe('currentEntry', () => {
+  it('returns the last accepted value', () => {
+    const history = [entry(7, 'regex'), entry(8, 'manual', 1), entry(3, 'llm', 2, false)];
+    expect(currentEntry(history)?.value).toBe(8);
+    expect(currentEntry([])).toBeUndefined();
+    expect(currentEntry(undefined)).toBeUndefined();
+  });
+});
+
+describe('provenanceSource', () => {
+  it('maps extraction sources onto provenance', () => {
+    expect(['pattern_match', 'device', 'manual', 'llm_extraction', undefined].map(provenanceSource)).toEqual([
+      'regex',
+      'device',
+      'manual',
+      'llm',
+      'llm',
+    ]);
+  });
+});
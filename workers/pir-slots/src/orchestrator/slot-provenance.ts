@@ -0,0 +1,119 @@
+/**
+ * PIR Slot Provenance - Histórico de valores por slot e política de conflito
+ *
+ * Todo valor candidato a um slot (regex, LLM, dispositivo, correção manual...)
+ * entra no histórico do slot com origem, turno, trecho, confiança, versão do
+ * extractor/modelo e ator, aceito ou não. O valor atual é o último aceito.
+ *
+ * Política de conflito (valor diferente do atual):
+ * - Dentro da janela (CONFLICT_WINDOW_MS do valor atual): manual > dispositivo > regex/LLM/computado > histórico;
+ *   mesma prioridade → o mais novo vence
+ * - Fora da janela: o mais novo vence (o estado do paciente mudou)
+ *
+ * Horário de referência é `recorded_at` (para dispositivos, o horário da medição).
+ */
+
+import type { TextSpan } from '../types/slots';
+import type { PlausibilityIssue } from '../validation/slot-plausibility';
+
+export type ProvenanceSource = 'regex' | 'llm' | 'device' | 'computed' | 'historical' | 'manual';
+
+export type ConflictResolution =
+  | 'first_value' // Slot vazio
+  | 'same_value' // Confirma o valor atual
+  | 'higher_priority' // Origem mais confiável que a do valor atual
+  | 'newer' // Mesma prioridade, valor mais recente
+  | 'older' // Rejeitado: mesma prioridade, medido antes do valor atual
+  | 'outside_window' // Valor atual antigo: o mais recente vence
+  | 'lower_priority' // Rejeitado: origem menos confiável dentro da janela
+  | 'needs_confirmation'; // Retido: valor implausível aguardando confirmação
+
+export interface SlotHistoryEntry {
+  value: unknown;
+  source: ProvenanceSource;
+  confidence: number;
+  turn_index: number; // Turno de origem na conversa (-1 = fora da conversa)
+  span?: TextSpan; // Trecho que originou o valor (quando o extractor localiza)
+  extractor_version?: string;
+  model?: string; // Modelo LLM usado (source "llm")
+  actor: string; // "system" para extração automática; profissional na correção manual; "device:<id>"
+  device?: { device_type: string; device_id: string; quality: string }; // Medições de dispositivo
+  recorded_at: string;
+  accepted: boolean;
+  resolution: ConflictResolution;
+  issues?: PlausibilityIssue[]; // Motivos de needs_confirmation
+}
+
+export type SlotValueCandidate = Omit<SlotHistoryEntry, 'accepted' | 'resolution' | 'issues'>;
+
+/**
+ * Prioridade por origem (maior vence dentro da janela)
+ */
+export const SOURCE_PRIORITY: Record<ProvenanceSource, number> = {
+  manual: 4,
+  device: 3,
+  regex: 2,
+  llm: 2,
+  computed: 2,
+  historical: 1,
+};
+
+/**
+ * Janela em que a prioridade de origem prevalece sobre a recência
+ */
+export const CONFLICT_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * `source` do ExtractionResult → origem no histórico
+ */
+export function provenanceSource(resultSource: string | undefined): ProvenanceSource {
+  switch (resultSource) {
+    case 'pattern_match':
+      return 'regex';
+    case 'device':
+    case 'computed':
+    case 'historical':
+    case 'manual':
+      return resultSource;
+    default:
+      return 'llm';
+  }
+}
+
+/**
+ * Valor atual do slot: último valor aceito
+ */
+export function currentEntry(history: SlotHistoryEntry[] | undefined): SlotHistoryEntry | undefined {
+  if (!history) return undefined;
+
+  for (let index = history.length - 1; index >= 0; index--) {
+    if (history[index].accepted) return history[index];
+  }
+  return undefined;
+}
+
+/**
+ * Decide se o candidato substitui o valor atual
+ */
+export function resolveConflict(
+  current: SlotHistoryEntry | undefined,
+  candidate: SlotValueCandidate,
+  windowMs: number = CONFLICT_WINDOW_MS
+): { accepted: boolean; resolution: ConflictResolution } {
+  if (!current) return { accepted: true, resolution: 'first_value' };
+
+  const priority = SOURCE_PRIORITY[candidate.source] - SOURCE_PRIORITY[current.source];
+
+  // Mesmo valor: registra a confirmação; só vira atual se a origem não for menos confiável
+  if (JSON.stringify(current.value) === JSON.stringify(candidate.value)) {
+    return { accepted: priority >= 0, resolution: 'same_value' };
+  }
+
+  // Fora da janela o mais recente vence, qualquer que seja a origem
+  const age = Date.parse(candidate.recorded_at) - Date.parse(current.recorded_at);
+  if (Math.abs(age) > windowMs) return { accepted: age > 0, resolution: 'outside_window' };
+
+  if (priority > 0) return { accepted: true, resolution: 'higher_priority' };
+  if (priority < 0) return { accepted: false, resolution: 'lower_priority' };
+  return age >= 0 ? { accepted: true, resolution: 'newer' } : { accepted: false, resolution: 'older' };
+}
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { KVProtocolStore, ProtocolHotReloader, loadManchesterSPProtocol, type PIRVersionRef } from '@voither/pir-schema';
+import { MemoryTriageSessions, SESSION_RETENTION_MS, TriageSession, type TriageSessionStorage } from './triage-session';
+import type { TriageSessionState } from '../orchestrator/rhizomatic-orchestrator';
+
+// @cloudflare/ai não carrega no Node; o SDK só repassa ao binding, que aqui é roteirizado
+vi.mock('@cloudflare/ai', () => ({
+  Ai: class {
+    constructor(private binding: { run(model: string, inputs: unknown): Promise<unknown> }) {}
+    run(model: string, inputs: unknown) {
+      return this.binding.run(model, inputs);
+    }
+  },
+}));
+
+const PIR = loadManchesterSPProtocol();
+
+/**
+ * Workers AI roteirizado: Whisper devolve as transcrições na ordem; LLMs, as respostas na ordem (ou JSON vazio)
+ */
+class ScriptedAI {
+  calls: Array<{ model: string; inputs: unknown }> = [];
+
+  constructor(
+    private transcripts: string[] = [],
+    private responses: string[] = []
+  ) {}
+
+  async run(model: string, inputs: unknown): Promise<unknown> {
+    this.calls.push({ model, inputs });
+    if (model.includes('whisper')) return { text: this.transcripts.shift() ?? '' };
+    return { response: this.responses.shift() ?? '{}' };
+  }
+}
+
+// KV em memória: só get json / put / delete (versões e pins do protocol store)
+class MemoryKV {
+  private values = new Map<string, string>();
+
+  async get(key: string, type?: 'json'): Promise<unknown> {
+    const value = this.values.get(key);
+    return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+class MemoryStorage implements TriageSessionStorage {
+  values = new Map<string, unknown>();
+  alarmAt: number | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return structuredClone(this.values.get(key)) as T | undefined;
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.values.set(key, structuredClone(value));
+  }
+
+  async deleteAll(): Promise<void> {
+    this.values.clear();
+  }
+
+  async setAlarm(scheduledTime: number): Promise<void> {
+    this.alarmAt = scheduledTime;
+  }
+}
+
+async function protocolEnv(ai: ScriptedAI): Promise<{ env: { AI: ScriptedAI; PROTOCOLS_KV: KVNamespace }; protocol: PIRVersionRef }> {
+  const kv = new MemoryKV() as unknown as KVNamespace;
+  const protocol = await new ProtocolHotReloader({ store: new KVProtocolStore(kv) }).bootstrap(PIR);
+  return { env: { AI: ai, PROTOCOLS_KV: kv }, protocol };
+}
+
+function call(session: { fetch(request: Request): Promise<Response> }, method: string, path: string, body?: unknown): Promise<Response> {
+  return session.fetch(
+    new Request(`https://triage-session${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  );
+}
+
+async function status(session: { fetch(request: Request): Promise<Response> }): Promise<TriageSessionState> {
+  return ((await (await call(session, 'GET', '/status')).json()) as { session: TriageSessionState }).session;
+}
+
+describe('TriageSession', () => {
+  let ai: ScriptedAI;
+  let env: { AI: ScriptedAI; PROTOCOLS_KV: KVNamespace };
+  let protocol: PIRVersionRef;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    ai = new ScriptedAI();
+    ({ env, protocol } = await protocolEnv(ai));
+  });
+
+  it('answers 404 before the session starts and 409 on a second start', async () => {
+    const session = new MemoryTriageSessions(env).session('s-1');
+
+    expect((await call(session, 'GET', '/status')).status).toBe(404);
+    expect((await call(session, 'POST', '/start', { session_id: 's-1', protocol })).status).toBe(200);
+    expect((await call(session, 'POST', '/start', { session_id: 's-1', protocol })).status).toBe(409);
+  });
+
+  it('keeps conversation and slots across requests', async () => {
+    const sessions = new MemoryTriageSessions(env);
+    await call(sessions.session('s-1'), 'POST', '/start', { session_id: 's-1', protocol });
+
+    await call(sessions.session('s-1'), 'POST', '/text', { text: 'Qual a nota da dor?', speaker: 'nurse' });
+    const response = await call(sessions.session('s-1'), 'POST', '/text', { text: 'A dor é 8/10.', speaker: 'patient' });
+    expect(response.status).toBe(200);
+
+    const state = await status(sessions.session('s-1'));
+    expect(state.conversation_history.map((turn) => turn.content)).toEqual(['Qual a nota da dor?', 'A dor é 8/10.']);
+    expect(state.slot_state.pain_score).toBe(8);
+    expect(state.protocol).toEqual(protocol);
+  });
+
+  it('serializes concurrent turns in arrival order', async () => {
+    const session = new MemoryTriageSessions(env).session('s-1');
+    await call(session, 'POST', '/start', { session_id: 's-1', protocol });
+
+    const texts = ['Estou com dor de cabeça.', 'Começou ontem.', 'A dor é 6/10.'];
+    const responses = await Promise.all(texts.map((text) => call(session, 'POST', '/text', { text, speaker: 'patient' })));
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect((await status(session)).conversation_history.map((turn) => turn.content)).toEqual(texts);
+  });
+
+  it('survives a restart from storage and schedules retention', async () => {
+    const storage = new MemoryStorage();
+    const first = new TriageSession({ storage }, env);
+    await call(first, 'POST', '/start', { session_id: 's-1', protocol });
+    await call(first, 'POST', '/text', { text: 'A dor é 8/10.', speaker: 'patient' });
+    expect(storage.alarmAt).toBeGreaterThan(Date.now() + SESSION_RETENTION_MS - 60_000);
+
+    // Worker reiniciado: nova instância sobre o mesmo storage
+    const restarted = new TriageSession({ storage }, env);
+    expect((await status(restarted)).slot_state.pain_score).toBe(8);
+
+    await restarted.alarm();
+    expect((await call(restarted, 'GET', '/status')).status).toBe(404);
+  });
+
+  it('records manual corrections in the slot history', async () => {
+    const session = new MemoryTriageSessions(env).session('s-1');
+    await call(session, 'POST', '/start', { session_id: 's-1', protocol });
+    await call(session, 'POST', '/text', { text: 'A dor é 8/10.', speaker: 'patient' });
+
+    expect((await call(session, 'PUT', '/slots/pain_score', { value: 6, actor: 'enf. Ana' })).status).toBe(200);
+
+    const response = await call(session, 'GET', '/slots/pain_score/history');
+    const { history } = (await response.json()) as { history: Array<{ value: unknown; source: string; accepted: boolean }> };
+    expect(history.map(({ value, source, accepted }) => [value, source, accepted])).toEqual([
+      [8, 'regex', true],
+      [6, 'manual', true],
+    ]);
+  });
+
+  it('rejects a protocol reference that does not match the store', async () => {
+    const session = new MemoryTriageSessions(env).session('s-1');
+    const response = await call(session, 'POST', '/start', { session_id: 's-1', protocol: { ...protocol, content_hash: 'sha256:00' } });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ reason: 'hash-mismatch' });
+  });
+
+  it('rejects unknown slot ids and speakers with 400', async () => {
+    const session = new MemoryTriageSessions(env).session('s-1');
+    await call(session, 'POST', '/start', { session_id: 's-1', protocol });
+
+    expect((await call(session, 'PUT', '/slots/mood_score', { value: 3 })).status).toBe(400);
+    expect((await call(session, 'GET', '/slots/mood_score/history')).status).toBe(400);
+    expect((await call(session, 'POST', '/slots/mood_score/extract')).status).toBe(400);
+
+    const response = await call(session, 'POST', '/text', { text: 'A dor é 8/10.', speaker: 'doctor' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Unknown speaker "doctor" (expected nurse, patient or system)' });
+    expect((await status(session)).conversation_history).toEqual([]);
+  });
+});
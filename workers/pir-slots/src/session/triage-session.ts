@@ -0,0 +1,645 @@
+/**
+ * PIR Triage Session - Durable Object por sessão de triagem
+ *
+ * Dono do histórico conversacional e do estado de slots de uma sessão:
+ * - Estado persistido no storage do objeto (sobrevive a restart do worker)
+ * - Turnos concorrentes (áudio, texto, correções, re-extração) são serializados numa fila
+ * - Retenção: o estado é apagado (alarm) após SESSION_RETENTION_MS sem atividade
+ * - O orchestrator é montado a cada operação a partir do estado + PIR da sessão
+ *
+ * O worker encaminha /api/triage/:sessionId/* para o objeto da sessão via
+ * TriageSessionNamespace. MemoryTriageSessions roda a mesma classe com storage
+ * em memória (testes e desenvolvimento local).
+ *
+ * Rotas internas (https://triage-session/...):
+ *   POST /start                  { session_id, protocol, patient_context? } (cadastro pré-preenche idade e sexo)
+ *   POST /audio                  áudio bruto ou multipart (campo "audio"); falante por fala
+ *                                (?speaker= declara um só; ?channels=nurse,patient mapeia canais)
+ *   POST /text                   { text, speaker }
+ *   GET  /status
+ *   GET  /next-question
+ *   POST /complete
+ *   PUT  /slots/:slotId          { value, actor? }
+ *   POST /slots/:slotId/extract
+ *   GET  /slots/:slotId/history
+ *   POST /devices/readings       JSON { readings: [...] } ou HL7 v2 ORU^R01 (Content-Type x-application/hl7-v2+er7)
+ *   GET  /fhir/bundle            Bundle FHIR R4 (Encounter + Observations)
+ *   POST /fhir/import            Bundle FHIR ou array de recursos do prontuário
+ *   GET  /stream                 WebSocket: áudio em streaming com atualizações de slots (session/triage-stream.ts)
+ */
+
+import {
+  KVProtocolStore,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  SlotRegistry,
+  type PIRVersionRef,
+  type ResolvedProtocol,
+} from '@voither/pir-schema';
+import { RhizomaticOrchestrator, type TriageSessionState } from '../orchestrator/rhizomatic-orchestrator';
+import {
+  DeviceReadingError,
+  mapReadingsToSlots,
+  parseHL7ORU,
+  parseJSONReadings,
+  type DeviceReading,
+  type RejectedDeviceReading,
+} from '../devices/device-readings';
+import { FHIRImportError, buildObservationBundle, mapFHIRResources } from '../fhir/observation-bundle';
+import { AudioDecodeError } from '../audio/pcm';
+import type { SpeakerRole } from '../speakers/turn-classifier';
+import { VoiceProfileStore, type VoiceProfile } from '../speakers/voice-profile';
+import { WhisperWorkerSTT } from '../stt/whisper-worker';
+import { TriageStream, type StreamSpeaker, type StreamTurnResult } from './triage-stream';
+import type { PatientContext, TurnAttribution } from '../types/slots';
+import { isExtractionMode, type ExtractionMode } from '../orchestrator/extraction-metrics';
+
+export interface TriageSessionEnv {
+  AI: any; // Cloudflare Workers AI binding
+  PROTOCOLS_KV: KVNamespace; // Resolve a versão do PIR presa à sessão
+  VOICE_PROFILES_KV?: KVNamespace; // Perfis de voz dos enfermeiros (plantão); sem binding, atribuição sem perfil
+}
+
+/**
+ * Subconjunto do DurableObjectStorage usado pela sessão
+ */
+export interface TriageSessionStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+  deleteAll(): Promise<void>;
+  setAlarm(scheduledTime: number): Promise<void>;
+}
+
+/**
+ * Objeto de uma sessão (stub do Durable Object ou instância em memória)
+ */
+export interface TriageSessionNamespace {
+  session(sessionId: string): { fetch(request: Request): Promise<Response> };
+}
+
+export interface StartTriageSessionRequest {
+  session_id: string;
+  protocol: PIRVersionRef;
+  patient_context?: PatientContext;
+  nurse_id?: string;
+  extraction_mode?: ExtractionMode; // rhizomatic (padrão) ou batch
+}
+
+const SESSION_KEY = 'session';
+
+// Retenção LGPD: 1 hora desde o último turno (o PIR usado fica no protocol store para auditoria)
+export const SESSION_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Erro com status HTTP (sessão inexistente, rota inválida...)
+ */
+class TriageSessionError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TriageSessionError';
+  }
+}
+
+function isTextSpeaker(speaker: unknown): speaker is 'nurse' | 'patient' | 'system' {
+  return speaker === 'nurse' || speaker === 'patient' || speaker === 'system';
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// DURABLE OBJECT
+// ============================================================================
+
+export class TriageSession {
+  private session: TriageSessionState | null | undefined; // undefined = ainda não carregada do storage
+  private protocol: ResolvedProtocol | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private reloader: ProtocolHotReloader;
+
+  constructor(
+    private state: { storage: TriageSessionStorage },
+    private env: TriageSessionEnv
+  ) {
+    this.reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const [action, slotId, slotAction] = url.pathname.split('/').filter(Boolean);
+    const method = request.method;
+
+    try {
+      // Leituras: estado já confirmado, sem esperar turnos em andamento
+      if (method === 'GET' && action === 'status') {
+        return json({ success: true, session: await this.requireSession() });
+      }
+      if (method === 'GET' && action === 'next-question') {
+        const orchestrator = await this.orchestrator();
+        const nextQuestion = await orchestrator.generateNextQuestion((await this.requireSession()).session_id);
+        return json({ success: true, next_question: nextQuestion });
+      }
+      if (method === 'GET' && action === 'slots' && slotId && slotAction === 'history') {
+        return await this.slotHistory(slotId);
+      }
+      if (method === 'GET' && action === 'stream') {
+        return await this.openStream(request);
+      }
+      if (method === 'GET' && action === 'fhir' && slotId === 'bundle') {
+        return json(buildObservationBundle(await this.requireSession()));
+      }
+      if (method === 'POST' && action === 'extraction' && slotId === 'compare') {
+        return await this.compareExtractionModes(await request.json());
+      }
+
+      // Escritas: uma por vez, na ordem de chegada
+      if (method === 'POST' && action === 'start') {
+        return await this.serialize(async () => this.start(await request.json<StartTriageSessionRequest>()));
+      }
+      if (method === 'POST' && action === 'audio') {
+        return await this.serialize(() => this.processAudio(request, url));
+      }
+      if (method === 'POST' && action === 'text') {
+        return await this.serialize(async () => this.processText(await request.json<{ text?: unknown; speaker?: unknown }>()));
+      }
+      if (method === 'POST' && action === 'complete') {
+        return await this.serialize(() => this.complete());
+      }
+      if (method === 'PUT' && action === 'slots' && slotId && !slotAction) {
+        return await this.serialize(async () => {
+          const body = await request.json<{ value: any; actor?: string }>();
+          return this.updateSlot(slotId, body.value, body.actor);
+        });
+      }
+      if (method === 'POST' && action === 'slots' && slotId && slotAction === 'extract') {
+        return await this.serialize(() => this.forceExtract(slotId));
+      }
+      if (method === 'POST' && action === 'devices' && slotId === 'readings') {
+        return await this.serialize(() => this.ingestDeviceReadings(request));
+      }
+      if (method === 'POST' && action === 'fhir' && slotId === 'import') {
+        return await this.serialize(async () => this.importRecords(await request.json()));
+      }
+
+      return json({ error: 'Not found' }, 404);
+    } catch (error) {
+      if (error instanceof TriageSessionError) {
+        return json({ error: error.message }, error.status);
+      }
+      // Referência de protocolo desconhecida ou divergente da versão presa à sessão
+      if (error instanceof ProtocolReloadError) {
+        return json({ error: error.message, reason: error.reason }, error.reason === 'not-found' ? 404 : 409);
+      }
+      if (error instanceof DeviceReadingError || error instanceof FHIRImportError || error instanceof AudioDecodeError) {
+        return json({ error: error.message }, 400);
+      }
+
+      console.error('[TRIAGE-SESSION] Error:', error);
+      return json(
+        {
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  }
+
+  /**
+   * Fim da retenção: apaga histórico e slots da sessão
+   */
+  async alarm(): Promise<void> {
+    await this.serialize(async () => {
+      await this.state.storage.deleteAll();
+      this.session = null;
+      this.protocol = null;
+    });
+  }
+
+  // ==========================================================================
+  // OPERAÇÕES
+  // ==========================================================================
+
+  private async start(body: StartTriageSessionRequest): Promise<Response> {
+    if (await this.load()) {
+      throw new TriageSessionError(409, `Session ${body.session_id} already started`);
+    }
+    if (body.extraction_mode !== undefined && !isExtractionMode(body.extraction_mode)) {
+      throw new TriageSessionError(400, `Unknown extraction mode "${body.extraction_mode}" (expected rhizomatic or batch)`);
+    }
+
+    const orchestrator = await this.orchestrator(body.protocol);
+    const session = orchestrator.startSession(body.session_id, body.protocol, body.patient_context, body.nurse_id, body.extraction_mode);
+    if (body.patient_context) {
+      await orchestrator.importRegistration(session.session_id);
+    }
+    await this.save(session);
+
+    return json({ success: true, session_id: session.session_id, session, protocol: session.protocol });
+  }
+
+  private async processAudio(request: Request, url: URL): Promise<Response> {
+    const session = await this.requireSession();
+
+    // Recebe áudio como ArrayBuffer
+    const contentType = request.headers.get('Content-Type') || '';
+    let audioBuffer: ArrayBuffer;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const audioFile = formData.get('audio') as unknown as File | null;
+      if (!audioFile) {
+        throw new TriageSessionError(400, 'No audio file provided');
+      }
+      audioBuffer = await audioFile.arrayBuffer();
+    } else {
+      audioBuffer = await request.arrayBuffer();
+    }
+
+    // Sem ?speaker=, cada fala é atribuída (canais, perfil de voz do plantão, texto)
+    const speaker = url.searchParams.get('speaker');
+    const channelRoles = url.searchParams.get('channels')?.split(',').map((role) => role.trim());
+    for (const role of [speaker, ...(channelRoles ?? [])]) {
+      if (role !== null && role !== 'nurse' && role !== 'patient') {
+        throw new TriageSessionError(400, `Unknown speaker "${role}" (expected nurse or patient)`);
+      }
+    }
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.processAudioAndExtractSlots(session.session_id, audioBuffer, {
+      declared_speaker: (speaker as SpeakerRole | null) ?? undefined,
+      channel_roles: channelRoles as SpeakerRole[] | undefined,
+      voice_profile: speaker ? null : await this.voiceProfile(session),
+    });
+    await this.save(result.session_state);
+
+    return json({
+      success: true,
+      transcription: result.transcription.text,
+      turns: result.turns,
+      extracted_slots: result.extraction_results,
+      extraction_plan: result.extraction_plan,
+      pending_confirmations: result.session_state.pending_confirmations,
+      progress: result.progress,
+    });
+  }
+
+  private async processText(body: { text?: unknown; speaker?: unknown }): Promise<Response> {
+    const session = await this.requireSession();
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      throw new TriageSessionError(400, 'text is required');
+    }
+    if (!isTextSpeaker(body.speaker)) {
+      throw new TriageSessionError(400, `Unknown speaker "${String(body.speaker)}" (expected nurse, patient or system)`);
+    }
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.processTextAndExtractSlots(session.session_id, body.text, body.speaker);
+    await this.save(result.session_state);
+
+    return json({
+      success: true,
+      extracted_slots: result.extraction_results,
+      extraction_plan: result.extraction_plan,
+      pending_confirmations: result.session_state.pending_confirmations,
+      progress: result.progress,
+    });
+  }
+
+  /**
+   * Mesmo turno nos dois modos de extração, sobre cópias do estado (a sessão não muda)
+   */
+  private async compareExtractionModes(body: {
+    text?: string;
+    speaker?: unknown;
+    expected?: Record<string, unknown>;
+  }): Promise<Response> {
+    const session = await this.requireSession();
+    if (typeof body.text !== 'string' || !body.text.trim()) {
+      throw new TriageSessionError(400, 'text is required');
+    }
+    if (body.speaker !== undefined && !isTextSpeaker(body.speaker)) {
+      throw new TriageSessionError(400, `Unknown speaker "${String(body.speaker)}" (expected nurse, patient or system)`);
+    }
+
+    const orchestrator = await this.orchestrator();
+    const comparison = await orchestrator.compareExtractionModes(session.session_id, body.text, body.speaker ?? 'patient', body.expected);
+
+    return json({ success: true, session_mode: session.extraction_mode ?? 'rhizomatic', ...comparison });
+  }
+
+  private async complete(): Promise<Response> {
+    const session = await this.requireSession();
+
+    const orchestrator = await this.orchestrator();
+    const result = orchestrator.completeSession(session.session_id);
+    const pirData = orchestrator.exportToPIR(session.session_id);
+    await this.save(result.session);
+
+    return json({
+      success: true,
+      session: result.session,
+      filled_slots: result.filled_slots,
+      progress: result.progress,
+      pir_export: pirData,
+      fhir_bundle: buildObservationBundle(result.session),
+    });
+  }
+
+  private async updateSlot(slotId: string, value: any, actor?: string): Promise<Response> {
+    const session = await this.requireSession();
+    const orchestrator = await this.orchestrator();
+
+    // Alias vira ID canônico da versão da sessão; campo plano (systolic_bp) é mesclado ao slot object já preenchido
+    const reference = await this.resolveSlot(session, slotId);
+    const current: Record<string, any> = session.slot_state;
+    const merged = reference.field ? { ...(current[reference.slot_id] ?? {}), [reference.field]: value } : value;
+
+    orchestrator.updateSlotManually(session.session_id, reference.slot_id, merged, actor);
+    await this.save(orchestrator.getSession(session.session_id)!);
+
+    return json({ success: true, message: `Slot ${reference.slot_id} updated` });
+  }
+
+  private async slotHistory(slotId: string): Promise<Response> {
+    const session = await this.requireSession();
+    const reference = await this.resolveSlot(session, slotId);
+
+    const orchestrator = await this.orchestrator();
+    return json({ success: true, ...orchestrator.getSlotHistory(session.session_id, reference.slot_id) });
+  }
+
+  private async forceExtract(slotId: string): Promise<Response> {
+    const session = await this.requireSession();
+    const reference = await this.resolveSlot(session, slotId);
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.forceExtractSlot(session.session_id, reference.slot_id);
+    await this.save(orchestrator.getSession(session.session_id)!);
+
+    return json({ success: true, slot_id: reference.slot_id, extraction_result: result });
+  }
+
+  private async ingestDeviceReadings(request: Request): Promise<Response> {
+    const session = await this.requireSession();
+    if (session.status !== 'active') {
+      throw new TriageSessionError(409, `Session is ${session.status}`);
+    }
+
+    // HL7 por Content-Type ou pelo próprio conteúdo (monitores que enviam text/plain)
+    const body = await request.text();
+    const contentType = request.headers.get('Content-Type') || '';
+    let readings: DeviceReading[];
+    let rejected: RejectedDeviceReading[] = [];
+    let messageControlId: string | undefined;
+
+    if (contentType.includes('hl7') || body.startsWith('MSH')) {
+      const parsed = parseHL7ORU(body);
+      readings = parsed.readings;
+      rejected = parsed.rejected;
+      messageControlId = parsed.message_control_id;
+    } else {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        throw new DeviceReadingError('Body must be JSON or an HL7 v2 ORU^R01 message');
+      }
+      readings = parseJSONReadings(payload);
+    }
+
+    const protocol = await this.resolveProtocol(session.protocol);
+    const mapped = mapReadingsToSlots(readings, protocol.document, session.slot_state);
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.ingestDeviceReadings(session.session_id, mapped.values);
+    await this.save(result.session_state);
+
+    return json({
+      success: true,
+      message_control_id: messageControlId,
+      accepted_readings: readings.length - mapped.rejected.length,
+      rejected_readings: [...rejected, ...mapped.rejected],
+      extracted_slots: result.extraction_results,
+      pending_confirmations: result.session_state.pending_confirmations,
+      progress: result.progress,
+    });
+  }
+
+  /**
+   * WebSocket de streaming: cada trecho transcrito entra na fila de turnos da sessão
+   */
+  private async openStream(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      throw new TriageSessionError(426, 'Expected WebSocket upgrade');
+    }
+
+    const session = await this.requireSession();
+    if (session.status !== 'active') {
+      throw new TriageSessionError(409, `Session is ${session.status}`);
+    }
+
+    const protocol = await this.resolveProtocol(session.protocol);
+    const orchestrator = await this.orchestrator();
+
+    const [client, server] = Object.values(new WebSocketPair());
+    server.accept();
+
+    const stream = new TriageStream(server, {
+      session,
+      document: protocol.document,
+      whisper: new WhisperWorkerSTT(this.env.AI),
+      voice_profile: await this.voiceProfile(session),
+      runTurn: (text, speaker, attribution) => this.serialize(() => this.streamTurn(text, speaker, attribution)),
+    });
+    stream.start(orchestrator.getProgress(session.session_id));
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  private async streamTurn(text: string, speaker: StreamSpeaker, attribution?: TurnAttribution): Promise<StreamTurnResult> {
+    const session = await this.requireSession();
+    if (session.status !== 'active') {
+      throw new TriageSessionError(409, `Session is ${session.status}`);
+    }
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.processTextAndExtractSlots(session.session_id, text, speaker, attribution);
+    const nextQuestion = await orchestrator.generateNextQuestion(session.session_id);
+    await this.save(result.session_state);
+
+    return {
+      before: session.slot_state,
+      extraction_results: result.extraction_results,
+      session_state: result.session_state,
+      progress: result.progress,
+      next_question: nextQuestion,
+    };
+  }
+
+  private async importRecords(body: unknown): Promise<Response> {
+    const session = await this.requireSession();
+    if (session.status !== 'active') {
+      throw new TriageSessionError(409, `Session is ${session.status}`);
+    }
+
+    const protocol = await this.resolveProtocol(session.protocol);
+    const mapped = mapFHIRResources(body, protocol.document);
+
+    const orchestrator = await this.orchestrator();
+    const result = await orchestrator.importRecordValues(session.session_id, mapped.values);
+    await this.save(result.session_state);
+
+    return json({
+      success: true,
+      imported_slots: mapped.values.map((value) => value.slot_id),
+      rejected_resources: mapped.rejected,
+      extracted_slots: result.extraction_results,
+      pending_confirmations: result.session_state.pending_confirmations,
+      progress: result.progress,
+    });
+  }
+
+  // ==========================================================================
+  // ESTADO
+  // ==========================================================================
+
+  /**
+   * Enfileira a operação: a próxima só começa quando a anterior termina (mesmo com falha)
+   */
+  private serialize<R>(operation: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<TriageSessionState | null> {
+    if (this.session === undefined) {
+      this.session = (await this.state.storage.get<TriageSessionState>(SESSION_KEY)) ?? null;
+    }
+    return this.session;
+  }
+
+  private async requireSession(): Promise<TriageSessionState> {
+    const session = await this.load();
+    if (!session) {
+      throw new TriageSessionError(404, 'Session not found');
+    }
+    return session;
+  }
+
+  private async save(session: TriageSessionState): Promise<void> {
+    await this.state.storage.put(SESSION_KEY, session);
+    await this.state.storage.setAlarm(Date.now() + SESSION_RETENTION_MS);
+    this.session = session;
+  }
+
+  /**
+   * Documento exato da versão da sessão (resolvido uma vez por instância)
+   */
+  private async resolveProtocol(ref: PIRVersionRef): Promise<ResolvedProtocol> {
+    if (!this.protocol || this.protocol.content_hash !== ref.content_hash) {
+      this.protocol = await this.reloader.resolveRef(ref);
+    }
+    return this.protocol;
+  }
+
+  /**
+   * Perfil de voz do enfermeiro da sessão, se cadastrado no plantão atual
+   */
+  private async voiceProfile(session: TriageSessionState): Promise<VoiceProfile | null> {
+    if (!session.nurse_id || !this.env.VOICE_PROFILES_KV) return null;
+    return new VoiceProfileStore(this.env.VOICE_PROFILES_KV).get(session.nurse_id);
+  }
+
+  /**
+   * Slot ou alias na versão do PIR da sessão (fora do registro → 400)
+   */
+  private async resolveSlot(session: TriageSessionState, slotId: string): Promise<{ slot_id: string; field?: string }> {
+    const protocol = await this.resolveProtocol(session.protocol);
+    const reference = SlotRegistry.forDocument(protocol.document).resolve(slotId);
+    if (!reference) {
+      throw new TriageSessionError(400, `Unknown slot "${slotId}"`);
+    }
+    return reference;
+  }
+
+  /**
+   * Orchestrator com o PIR da sessão e uma cópia do estado persistido
+   * (turno que falha no meio não deixa o estado em memória divergente do storage)
+   */
+  private async orchestrator(ref?: PIRVersionRef): Promise<RhizomaticOrchestrator> {
+    const session = ref ? null : await this.requireSession();
+    const protocol = await this.resolveProtocol(ref ?? session!.protocol);
+
+    const orchestrator = new RhizomaticOrchestrator(this.env.AI, protocol.document);
+    if (session) orchestrator.restoreSession(structuredClone(session));
+    return orchestrator;
+  }
+}
+
+// ============================================================================
+// NAMESPACES
+// ============================================================================
+
+/**
+ * Produção: um Durable Object por sessão (idFromName(sessionId))
+ */
+export class DurableObjectTriageSessions implements TriageSessionNamespace {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  session(sessionId: string): { fetch(request: Request): Promise<Response> } {
+    return this.namespace.get(this.namespace.idFromName(sessionId));
+  }
+}
+
+/**
+ * Storage em memória com a semântica de cópia do storage do Durable Object
+ */
+class MemoryTriageSessionStorage implements TriageSessionStorage {
+  private values = new Map<string, unknown>();
+  alarmAt: number | null = null; // Sem timer: quem testa chama alarm() na sessão
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.values.get(key);
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.values.set(key, structuredClone(value));
+  }
+
+  async deleteAll(): Promise<void> {
+    this.values.clear();
+    this.alarmAt = null;
+  }
+
+  async setAlarm(scheduledTime: number): Promise<void> {
+    this.alarmAt = scheduledTime;
+  }
+}
+
+/**
+ * Stand-in local: mesma classe TriageSession, uma instância por sessão no isolate
+ */
+export class MemoryTriageSessions implements TriageSessionNamespace {
+  private sessions = new Map<string, TriageSession>();
+
+  constructor(private env: TriageSessionEnv) {}
+
+  session(sessionId: string): TriageSession {
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = new TriageSession({ storage: new MemoryTriageSessionStorage() }, this.env);
+      this.sessions.set(sessionId, session);
+    }
+    return session;
+  }
+}
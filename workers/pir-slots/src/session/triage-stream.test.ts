@@ -0,0 +1,162 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryProtocolStore, ProtocolHotReloader, loadManchesterSPProtocol } from '@voither/pir-schema';
+import { RhizomaticOrchestrator } from '../orchestrator/rhizomatic-orchestrator';
+import { WhisperWorkerSTT } from '../stt/whisper-worker';
+import { TriageStream, type StreamServerMessage, type StreamSocket, type StreamSpeaker } from './triage-stream';
+
+// @cloudflare/ai não carrega no Node; o SDK só repassa ao binding, que aqui é roteirizado
+vi.mock('@cloudflare/ai', () => ({
+  Ai: class {
+    constructor(private binding: { run(model: string, inputs: unknown): Promise<unknown> }) {}
+    run(model: string, inputs: unknown) {
+      return this.binding.run(model, inputs);
+    }
+  },
+}));
+
+const PIR = loadManchesterSPProtocol();
+
+// Falas em 0.6–1.6 s e 2.8–3.6 s (ver audio/audio-chunker.test.ts)
+const WAV = readFileSync(new URL('../audio/fixtures/two-utterances-8k-mono.wav', import.meta.url));
+
+/**
+ * Workers AI roteirizado: Whisper devolve as transcrições na ordem; LLMs, JSON vazio
+ */
+class ScriptedAI {
+  calls: Array<{ model: string; inputs: unknown }> = [];
+
+  constructor(private transcripts: string[] = []) {}
+
+  async run(model: string, inputs: unknown): Promise<unknown> {
+    this.calls.push({ model, inputs });
+    if (model.includes('whisper')) return { text: this.transcripts.shift() ?? '' };
+    return { response: '{}' };
+  }
+}
+
+/**
+ * Lado servidor do WebSocket: guarda o que foi enviado e deixa o teste emitir frames
+ */
+class ScriptedSocket implements StreamSocket {
+  sent: StreamServerMessage[] = [];
+  closedWith: { code?: number; reason?: string } | null = null;
+  private listeners = new Map<string, Array<(event: any) => void>>();
+  private onClose: () => void = () => undefined;
+  readonly closed = new Promise<void>((resolve) => (this.onClose = resolve));
+
+  send(message: string): void {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = { code, reason };
+    this.onClose();
+  }
+
+  addEventListener(type: string, listener: (event: any) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  emit(data: string | ArrayBuffer | object): void {
+    const frame = typeof data === 'string' || data instanceof ArrayBuffer ? data : JSON.stringify(data);
+    for (const listener of this.listeners.get('message') ?? []) listener({ data: frame });
+  }
+
+  /**
+   * Áudio em frames binários de `size` bytes, como o MediaRecorder/AudioWorklet mandaria
+   */
+  emitAudio(bytes: Uint8Array, size: number): void {
+    for (let offset = 0; offset < bytes.length; offset += size) {
+      this.emit(bytes.slice(offset, offset + size).buffer);
+    }
+  }
+
+  messages<T extends StreamServerMessage['type']>(type: T): Array<Extract<StreamServerMessage, { type: T }>> {
+    return this.sent.filter((message): message is Extract<StreamServerMessage, { type: T }> => message.type === type);
+  }
+}
+
+async function openStream(ai: ScriptedAI): Promise<ScriptedSocket> {
+  const protocol = await new ProtocolHotReloader({ store: new MemoryProtocolStore() }).bootstrap(PIR);
+  const orchestrator = new RhizomaticOrchestrator(ai, PIR);
+  const session = orchestrator.startSession('s-1', protocol);
+
+  // Mesmo turno que TriageSession.streamTurn, sem o storage
+  const runTurn = async (text: string, speaker: StreamSpeaker) => {
+    const before = structuredClone(orchestrator.getSession('s-1')!.slot_state); // streamTurn lê uma cópia do storage
+    const result = await orchestrator.processTextAndExtractSlots('s-1', text, speaker);
+    return {
+      before,
+      extraction_results: result.extraction_results,
+      session_state: result.session_state,
+      progress: result.progress,
+      next_question: await orchestrator.generateNextQuestion('s-1'),
+    };
+  };
+
+  const socket = new ScriptedSocket();
+  const stream = new TriageStream(socket, { session, document: PIR, whisper: new WhisperWorkerSTT(ai), runTurn });
+  stream.start(orchestrator.getProgress('s-1'));
+  return socket;
+}
+
+describe('TriageStream', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('transcribes each utterance and streams the slot updates', async () => {
+    const ai = new ScriptedAI(['Estou com muita dor no peito.', 'A dor é 8/10.']);
+    const socket = await openStream(ai);
+
+    socket.emit({ type: 'speaker', speaker: 'patient' });
+    socket.emitAudio(WAV, 3200);
+    socket.emit({ type: 'end' });
+    await socket.closed;
+
+    expect(socket.sent[0]).toMatchObject({ type: 'ready', session_id: 's-1', speaker: 'auto' });
+    expect(ai.calls.filter((call) => call.model.includes('whisper'))).toHaveLength(2);
+    const transcripts = socket.messages('transcript').map(({ text, speaker, audio_start_ms, audio_end_ms }) => ({ text, speaker, audio_start_ms, audio_end_ms }));
+    expect(transcripts).toEqual([
+      { text: 'Estou com muita dor no peito.', speaker: 'patient', audio_start_ms: 420, audio_end_ms: 2130 },
+      { text: 'A dor é 8/10.', speaker: 'patient', audio_start_ms: 2610, audio_end_ms: 4110 },
+    ]);
+    expect(socket.messages('slot_update')).toContainEqual(expect.objectContaining({ slot_id: 'pain_score', value: 8, previous_value: null }));
+    expect(socket.sent.at(-1)?.type).toBe('progress');
+    expect(socket.closedWith).toEqual({ code: 1000, reason: 'Stream ended' });
+  });
+
+  it('runs typed turns without calling Whisper', async () => {
+    const ai = new ScriptedAI();
+    const socket = await openStream(ai);
+
+    socket.emit({ type: 'text', text: 'A dor é 8/10.', speaker: 'patient' });
+    socket.emit({ type: 'end' });
+    await socket.closed;
+    await vi.waitFor(() => expect(socket.messages('progress')).toHaveLength(1));
+
+    expect(ai.calls.some((call) => call.model.includes('whisper'))).toBe(false);
+    expect(socket.messages('transcript')).toEqual([]);
+    expect(socket.messages('slot_update')).toContainEqual(expect.objectContaining({ slot_id: 'pain_score', value: 8 }));
+  });
+
+  it('reports malformed control messages and late format changes', async () => {
+    const socket = await openStream(new ScriptedAI(['']));
+
+    socket.emit('not json');
+    socket.emit({ type: 'speaker', speaker: 'doctor' });
+    socket.emitAudio(WAV.subarray(0, 64), 64);
+    socket.emit({ type: 'format', encoding: 'pcm_s16le', sample_rate: 16_000, channels: 1 });
+    socket.emit({ type: 'bogus' });
+
+    expect(socket.messages('error').map((message) => message.message)).toEqual([
+      'Text frames must be JSON control messages',
+      'Unknown speaker "doctor"',
+      'Audio format must be sent before the first audio frame',
+      'Unknown message type "bogus"',
+    ]);
+  });
+});
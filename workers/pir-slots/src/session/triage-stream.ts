@@ -0,0 +1,389 @@
+/**
+ * PIR Triage Stream - Triagem por áudio em streaming (WebSocket)
+ *
+ * O cliente envia chunks de áudio (frames binários: WebM/Ogg Opus do MediaRecorder,
+ * WAV ou PCM) e mensagens de controle (frames de texto JSON). Cada fala detectada
+ * (VAD, audio/audio-chunker.ts) é transcrita,
+ * vira um turno da sessão (mesma fila dos turnos HTTP) e o servidor devolve
+ * mensagens tipadas: transcrição, slots atualizados, próxima pergunta (ou classificação
+ * decidida), guards cujo gatilho mudou e progresso. O painel de slots enche enquanto o enfermeiro fala.
+ *
+ * Quem fala: por padrão ("auto") cada fala é atribuída pelo canal do microfone, pelo
+ * perfil de voz do enfermeiro do plantão ou pelo texto (speakers/speaker-attribution.ts);
+ * a mensagem "speaker" declara o falante dos próximos chunks.
+ *
+ * Mensagens do cliente:
+ *   { "type": "format", "encoding": "pcm_s16le", "sample_rate": 48000, "channels": 1 }  PCM sem cabeçalho (antes do áudio)
+ *   { "type": "channels", "roles": ["nurse", "patient"] }  um microfone por canal, WAV/PCM (antes do áudio)
+ *   { "type": "speaker", "speaker": "nurse" | "patient" | "auto" }  quem fala nos próximos chunks (fecha a fala aberta)
+ *   { "type": "text", "text": "...", "speaker"?: ... }      turno digitado no meio do streaming
+ *   { "type": "flush" }                                     transcreve o áudio pendente agora
+ *   { "type": "end" }                                       transcreve o pendente e fecha
+ */
+
+import { compileCondition, collectPaths, evaluateConditionTristate, type PIRDocument, type PIRGuard } from '@voither/pir-schema';
+import { RealtimeTranscriptionSession, type TranscriptionResult, type WhisperWorkerSTT } from '../stt/whisper-worker';
+import type { AudioSegment } from '../audio/audio-chunker';
+import type { PCMEncoding, PCMFormat } from '../audio/pcm';
+import type { ExtractionProgress, NextQuestion, TriageSessionState } from '../orchestrator/rhizomatic-orchestrator';
+import type { ClassificationOutlook } from '../orchestrator/question-planner';
+import { TURN_VAD_OPTIONS, attributeSegment, type AttributedUtterance } from '../speakers/speaker-attribution';
+import { classifyTranscript } from '../speakers/turn-classifier';
+import type { VoiceProfile } from '../speakers/voice-profile';
+import type { ExtractionResult, TurnAttribution } from '../types/slots';
+
+export type StreamSpeaker = 'nurse' | 'patient';
+
+export type StreamClientMessage =
+  | { type: 'format'; encoding: PCMEncoding; sample_rate: number; channels: number }
+  | { type: 'channels'; roles: StreamSpeaker[] }
+  | { type: 'speaker'; speaker: StreamSpeaker | 'auto' }
+  | { type: 'text'; text: string; speaker?: StreamSpeaker }
+  | { type: 'flush' }
+  | { type: 'end' };
+
+export type StreamServerMessage =
+  | { type: 'ready'; session_id: string; speaker: StreamSpeaker | 'auto'; progress: ExtractionProgress }
+  | {
+      type: 'transcript';
+      text: string;
+      speaker: StreamSpeaker;
+      confidence: number;
+      duration_ms: number;
+      turn_index: number;
+      audio_start_ms: number; // Posição da fala no áudio do stream
+      audio_end_ms: number;
+      attribution: TurnAttribution;
+    }
+  | {
+      type: 'slot_update';
+      slot_id: string;
+      value: unknown;
+      previous_value: unknown;
+      confidence: number;
+      status: ExtractionResult<any>['status'];
+      source?: ExtractionResult<any>['source'];
+    }
+  | { type: 'confirmation_required'; slot_id: string; value: unknown; suggested_value?: unknown; question: string }
+  | { type: 'next_question'; slot_id: string; question: string; priority: string; reasoning: string }
+  | ({ type: 'classification_settled' } & ClassificationOutlook)
+  | { type: 'guard_change'; guard_id: string; name: string; guard_type: string; triggered: boolean | null; previous: boolean | null; slots: string[] }
+  | { type: 'progress'; progress: ExtractionProgress }
+  | { type: 'error'; message: string };
+
+/**
+ * Resultado de um turno processado pela sessão
+ */
+export interface StreamTurnResult {
+  before: Record<string, unknown>; // slot_state antes do turno
+  extraction_results: Partial<Record<string, ExtractionResult<any>>>;
+  session_state: TriageSessionState;
+  progress: ExtractionProgress;
+  next_question: NextQuestion | null;
+}
+
+/**
+ * Socket aceito (WebSocket do par do Durable Object ou stand-in)
+ */
+export interface StreamSocket {
+  send(message: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'message', listener: (event: { data: string | ArrayBuffer }) => void): void;
+  addEventListener(type: 'close' | 'error', listener: () => void): void;
+}
+
+export interface TriageStreamOptions {
+  session: TriageSessionState;
+  document: PIRDocument;
+  whisper: WhisperWorkerSTT;
+  voice_profile?: VoiceProfile | null; // Perfil do enfermeiro do plantão (atribuição automática)
+  runTurn: (text: string, speaker: StreamSpeaker, attribution?: TurnAttribution) => Promise<StreamTurnResult>; // Serializado na fila da sessão
+}
+
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+/**
+ * Gatilhos de guards do PIR que dependem de slots: avisa quando o estado do gatilho muda
+ *
+ * Não executa o guard (pir-guards faz isso); só sinaliza ao painel que um gatilho
+ * passou a ser verdadeiro, falso ou indeterminado com os slots atuais.
+ */
+export class GuardTriggerWatcher {
+  private triggers: Array<{ guard: PIRGuard; slots: string[] }> = [];
+  private states = new Map<string, boolean | null>();
+
+  constructor(document: PIRDocument, slotState: Record<string, unknown>) {
+    const slotIds = new Set(document.slots.map((slot) => slot.slot_id));
+
+    for (const guard of document.guards ?? []) {
+      let paths: string[];
+      try {
+        paths = collectPaths(compileCondition(guard.trigger.condition));
+      } catch {
+        continue; // Gatilho fora da gramática: pir-lint já reporta
+      }
+
+      const slots = Array.from(new Set(paths.map((path) => path.split('.')[0]))).filter((name) => slotIds.has(name));
+      if (slots.length === 0) continue;
+
+      this.triggers.push({ guard, slots });
+      this.states.set(guard.guard_id, this.evaluate(guard, slotState));
+    }
+  }
+
+  /**
+   * Gatilhos que dependem de slots alterados e mudaram de estado
+   */
+  update(slotState: Record<string, unknown>, changed: Set<string>): Array<Extract<StreamServerMessage, { type: 'guard_change' }>> {
+    const changes: Array<Extract<StreamServerMessage, { type: 'guard_change' }>> = [];
+
+    for (const { guard, slots } of this.triggers) {
+      if (!slots.some((slot) => changed.has(slot))) continue;
+
+      const previous = this.states.get(guard.guard_id) ?? null;
+      const triggered = this.evaluate(guard, slotState);
+      if (triggered === previous) continue;
+
+      this.states.set(guard.guard_id, triggered);
+      changes.push({ type: 'guard_change', guard_id: guard.guard_id, name: guard.name, guard_type: guard.type, triggered, previous, slots });
+    }
+
+    return changes;
+  }
+
+  private evaluate(guard: PIRGuard, slotState: Record<string, unknown>): boolean | null {
+    try {
+      return evaluateConditionTristate(guard.trigger.condition, slotState);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// STREAM
+// ============================================================================
+
+export class TriageStream {
+  private speaker: StreamSpeaker | 'auto' = 'auto';
+  private transcription: RealtimeTranscriptionSession<StreamSpeaker | 'auto'> | null = null; // Criada no primeiro áudio
+  private pcmFormat: PCMFormat | undefined;
+  private channelRoles: StreamSpeaker[] | undefined;
+  private lastUtterance: AttributedUtterance | null = null; // Contexto do classificador de texto
+  private guards: GuardTriggerWatcher;
+  private lastQuestion: string | null = null;
+  private settled = false; // classification_settled já enviado
+  private closed = false;
+
+  constructor(
+    private socket: StreamSocket,
+    private options: TriageStreamOptions
+  ) {
+    this.guards = new GuardTriggerWatcher(options.document, options.session.slot_state);
+
+    socket.addEventListener('message', (event) => this.onMessage(event.data));
+    socket.addEventListener('close', () => {
+      this.closed = true;
+    });
+    socket.addEventListener('error', () => {
+      this.closed = true;
+    });
+  }
+
+  /**
+   * Mensagem inicial: estado atual da sessão
+   */
+  start(progress: ExtractionProgress): void {
+    this.send({ type: 'ready', session_id: this.options.session.session_id, speaker: this.speaker, progress });
+  }
+
+  private stt(): RealtimeTranscriptionSession<StreamSpeaker | 'auto'> {
+    this.transcription ??= new RealtimeTranscriptionSession<StreamSpeaker | 'auto'>(
+      this.options.whisper,
+      this.options.session.session_id,
+      (result, segment, speaker) => this.onTranscript(result, segment, speaker),
+      (error) => this.sendError(error),
+      {
+        pcm_format: this.pcmFormat,
+        split_channels: (this.channelRoles?.length ?? 0) > 1,
+        vad: this.speaker === 'auto' ? TURN_VAD_OPTIONS : undefined,
+      }
+    );
+    return this.transcription;
+  }
+
+  private onMessage(data: string | ArrayBuffer): void {
+    if (typeof data !== 'string') {
+      this.stt().addAudioChunk(new Uint8Array(data), this.speaker);
+      return;
+    }
+
+    let message: StreamClientMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.send({ type: 'error', message: 'Text frames must be JSON control messages' });
+      return;
+    }
+
+    switch (message.type) {
+      case 'format':
+        if (this.transcription) this.send({ type: 'error', message: 'Audio format must be sent before the first audio frame' });
+        else this.pcmFormat = { encoding: message.encoding, sample_rate: message.sample_rate, channels: message.channels };
+        break;
+      case 'channels':
+        if (this.transcription) this.send({ type: 'error', message: 'Channel roles must be sent before the first audio frame' });
+        else if (!Array.isArray(message.roles) || message.roles.some((role) => role !== 'nurse' && role !== 'patient')) {
+          this.send({ type: 'error', message: 'Channel roles must be "nurse" or "patient"' });
+        } else this.channelRoles = message.roles;
+        break;
+      case 'speaker':
+        if (message.speaker !== 'nurse' && message.speaker !== 'patient' && message.speaker !== 'auto') {
+          this.send({ type: 'error', message: `Unknown speaker "${message.speaker}"` });
+          break;
+        }
+        // Troca de quem fala encerra a fala aberta, atribuída a quem falava
+        if (message.speaker !== this.speaker && this.transcription) {
+          this.transcription.flush(this.speaker).catch((error) => this.sendError(error));
+        }
+        this.speaker = message.speaker;
+        break;
+      case 'text':
+        if (typeof message.text === 'string' && message.text.trim()) {
+          this.onText(message.text.trim(), message.speaker ?? this.speaker);
+        }
+        break;
+      case 'flush':
+        this.transcription?.flush(this.speaker).catch((error) => this.sendError(error));
+        break;
+      case 'end':
+        (this.transcription?.flush(this.speaker) ?? Promise.resolve())
+          .catch((error) => this.sendError(error))
+          .finally(() => this.socket.close(1000, 'Stream ended'));
+        break;
+      default:
+        this.send({ type: 'error', message: `Unknown message type "${(message as { type?: string }).type}"` });
+    }
+  }
+
+  private async onTranscript(result: TranscriptionResult, segment: AudioSegment, speaker: StreamSpeaker | 'auto'): Promise<void> {
+    const text = result.text.trim();
+    if (!text) return;
+
+    const utterances = attributeSegment(
+      segment,
+      text,
+      { declared_speaker: speaker === 'auto' ? undefined : speaker, channel_roles: this.channelRoles, voice_profile: this.options.voice_profile },
+      this.lastUtterance
+    );
+    for (const utterance of utterances) {
+      this.lastUtterance = utterance;
+      await this.runTurn(utterance, { result, segment });
+    }
+  }
+
+  /**
+   * Turno digitado: sem falante declarado, o texto decide
+   */
+  private async onText(text: string, speaker: StreamSpeaker | 'auto'): Promise<void> {
+    const utterances: AttributedUtterance[] =
+      speaker === 'auto'
+        ? classifyTranscript(text).map((utterance) => ({
+            role: utterance.role,
+            text: utterance.text,
+            attribution: { method: 'text_classifier', confidence: utterance.confidence },
+          }))
+        : [{ role: speaker, text, attribution: { method: 'declared', confidence: 1 } }];
+
+    for (const utterance of utterances) {
+      this.lastUtterance = utterance;
+      await this.runTurn(utterance, null);
+    }
+  }
+
+  private async runTurn(
+    utterance: AttributedUtterance,
+    transcription: { result: TranscriptionResult; segment: AudioSegment } | null
+  ): Promise<void> {
+    const { text, role: speaker, attribution } = utterance;
+    let turn: StreamTurnResult;
+    try {
+      turn = await this.options.runTurn(text, speaker, attribution);
+    } catch (error) {
+      this.sendError(error);
+      return;
+    }
+
+    const state = turn.session_state;
+    if (transcription) {
+      this.send({
+        type: 'transcript',
+        text,
+        speaker,
+        confidence: transcription.result.confidence,
+        duration_ms: transcription.result.duration_ms,
+        turn_index: state.conversation_history.length - 1,
+        audio_start_ms: transcription.segment.start_ms,
+        audio_end_ms: transcription.segment.end_ms,
+        attribution,
+      });
+    }
+    // Slots cujo valor atual mudou no turno
+    const changed = new Set<string>();
+    for (const [slotId, result] of Object.entries(turn.extraction_results)) {
+      if (!result) continue;
+
+      const pending = state.pending_confirmations[slotId as keyof typeof state.pending_confirmations];
+      if (result.status === 'needs_confirmation' && pending) {
+        this.send({ type: 'confirmation_required', slot_id: slotId, value: pending.value, suggested_value: pending.suggested_value, question: pending.question });
+        continue;
+      }
+
+      const value = state.slot_state[slotId as keyof typeof state.slot_state];
+      if (JSON.stringify(value) === JSON.stringify(turn.before[slotId])) continue;
+
+      changed.add(slotId);
+      this.send({
+        type: 'slot_update',
+        slot_id: slotId,
+        value,
+        previous_value: turn.before[slotId] ?? null,
+        confidence: result.confidence,
+        status: result.status ?? 'extracted',
+        source: result.source,
+      });
+    }
+
+    for (const change of this.guards.update(state.slot_state, changed)) this.send(change);
+
+    const next = turn.next_question;
+    if (next?.slot_id && next.question && next.question !== this.lastQuestion) {
+      this.lastQuestion = next.question;
+      this.settled = false;
+      this.send({ type: 'next_question', slot_id: next.slot_id, question: next.question, priority: next.priority, reasoning: next.reasoning });
+    } else if (next && !next.slot_id && next.classification.settled && !this.settled) {
+      // Classificação decidida: avisa uma vez e para de sugerir perguntas
+      this.settled = true;
+      this.lastQuestion = null;
+      this.send({ type: 'classification_settled', ...next.classification });
+    }
+
+    this.send({ type: 'progress', progress: turn.progress });
+  }
+
+  private sendError(error: unknown): void {
+    this.send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  private send(message: StreamServerMessage): void {
+    if (this.closed) return;
+
+    try {
+      this.socket.send(JSON.stringify(message));
+    } catch {
+      this.closed = true; // Cliente desconectou
+    }
+  }
+}
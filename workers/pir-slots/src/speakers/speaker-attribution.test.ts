@@ -0,0 +1,134 @@
+/// <reference types="node" />
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AudioSegment } from '../audio/audio-chunker';
+import { WHISPER_SAMPLE_RATE, encodeWAV } from '../audio/pcm';
+import { WhisperWorkerSTT } from '../stt/whisper-worker';
+import { SpeakerAttributor, attributeSegment } from './speaker-attribution';
+import { enrollVoiceProfile } from './voice-profile';
+
+// @cloudflare/ai não carrega no Node; o SDK só repassa ao binding, que aqui é roteirizado
+vi.mock('@cloudflare/ai', () => ({
+  Ai: class {
+    constructor(private binding: { run(model: string, inputs: unknown): Promise<unknown> }) {}
+    run(model: string, inputs: unknown) {
+      return this.binding.run(model, inputs);
+    }
+  },
+}));
+
+// Canal 0 fala em 0.5–1.5 s, canal 1 em 2.0–3.0 s (ver audio/audio-chunker.test.ts)
+const STEREO = readFileSync(new URL('../audio/fixtures/two-speakers-8k-stereo.wav', import.meta.url));
+
+/**
+ * Workers AI roteirizado: Whisper devolve as transcrições na ordem
+ */
+class ScriptedAI {
+  calls: string[] = [];
+
+  constructor(private transcripts: string[] = []) {}
+
+  async run(model: string): Promise<unknown> {
+    this.calls.push(model);
+    return { text: this.transcripts.shift() ?? '' };
+  }
+}
+
+/**
+ * Voz sintética: harmônicos de `pitch` com envelope de sílabas (variação para as estatísticas MFCC)
+ */
+function voice(pitch: number, harmonics: number[], seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * WHISPER_SAMPLE_RATE));
+  for (let index = 0; index < samples.length; index++) {
+    const time = index / WHISPER_SAMPLE_RATE;
+    const syllable = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * time);
+    const vibrato = pitch * (1 + 0.02 * Math.sin(2 * Math.PI * 5 * time));
+    let value = 0;
+    harmonics.forEach((weight, harmonic) => (value += weight * Math.sin(2 * Math.PI * vibrato * (harmonic + 1) * time)));
+    samples[index] = 0.2 * syllable * value;
+  }
+  return samples;
+}
+
+const NURSE_VOICE = [1, 0.6, 0.4, 0.2, 0.1];
+const PATIENT_VOICE = [0.3, 1, 0.2, 0.7, 0.5, 0.4];
+
+function segment(audio: ArrayBuffer, mimeType: string, channel?: number): AudioSegment {
+  return { audio, mime_type: mimeType, start_ms: 1000, end_ms: 2500, reason: 'silence', channel };
+}
+
+describe('attributeSegment', () => {
+  const text = 'Tem dor no peito? Tenho sim, desde ontem.';
+
+  it('trusts the declared speaker', () => {
+    expect(attributeSegment(segment(new ArrayBuffer(0), 'audio/wav'), text, { declared_speaker: 'patient' })).toEqual([
+      { role: 'patient', text, attribution: { method: 'declared', confidence: 1, audio_start_ms: 1000, audio_end_ms: 2500 } },
+    ]);
+  });
+
+  it('maps the microphone channel to its role', () => {
+    const [utterance] = attributeSegment(segment(new ArrayBuffer(0), 'audio/wav', 1), text, { channel_roles: ['nurse', 'patient'] });
+    expect(utterance).toMatchObject({ role: 'patient', attribution: { method: 'channel', confidence: 0.95, channel: 1 } });
+  });
+
+  it('compares mono speech with the nurse voice profile', () => {
+    const profile = enrollVoiceProfile('n-1', voice(220, NURSE_VOICE, 6));
+
+    // 2 s: ciclos inteiros de sílaba e vibrato, como no cadastro
+    const nurse = attributeSegment(segment(encodeWAV(voice(220, NURSE_VOICE, 2), WHISPER_SAMPLE_RATE), 'audio/wav'), text, { voice_profile: profile });
+    expect(nurse).toEqual([expect.objectContaining({ role: 'nurse', attribution: expect.objectContaining({ method: 'voice_profile' }) })]);
+
+    const patient = attributeSegment(segment(encodeWAV(voice(120, PATIENT_VOICE, 2), WHISPER_SAMPLE_RATE), 'audio/wav'), text, { voice_profile: profile });
+    expect(patient).toEqual([expect.objectContaining({ role: 'patient', attribution: expect.objectContaining({ method: 'voice_profile' }) })]);
+  });
+
+  it('classifies the text when audio cannot tell the speakers apart', () => {
+    const profile = enrollVoiceProfile('n-1', voice(220, NURSE_VOICE, 6));
+    // Opus não é decodificado no Worker: o perfil não se aplica
+    const utterances = attributeSegment(segment(new ArrayBuffer(0), 'audio/ogg'), text, { voice_profile: profile, channel_roles: ['nurse'] });
+
+    expect(utterances.map(({ role, text, attribution }) => [role, text, attribution.method, attribution.audio_start_ms])).toEqual([
+      ['nurse', 'Tem dor no peito?', 'text_classifier', 1000],
+      ['patient', 'Tenho sim, desde ontem.', 'text_classifier', 1000],
+    ]);
+  });
+
+  it('continues an ambiguous segment from the previous speaker', () => {
+    const [question] = attributeSegment(segment(new ArrayBuffer(0), 'audio/ogg'), 'Desde quando?', {});
+    const [answer] = attributeSegment(segment(new ArrayBuffer(0), 'audio/ogg'), 'Ontem à noite.', {}, question);
+
+    expect(question.role).toBe('nurse');
+    expect(answer).toMatchObject({ role: 'patient', attribution: { method: 'text_classifier', confidence: 0.5 } });
+  });
+});
+
+describe('SpeakerAttributor', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('transcribes each microphone separately and attributes it by channel', async () => {
+    const ai = new ScriptedAI(['A senhora tem dor no peito?', 'Tenho, desde ontem.']);
+    const attributor = new SpeakerAttributor(new WhisperWorkerSTT(ai), { channel_roles: ['nurse', 'patient'] });
+
+    const recording = await attributor.attributeRecording(STEREO.buffer.slice(STEREO.byteOffset, STEREO.byteOffset + STEREO.byteLength), 's-1');
+
+    expect(ai.calls).toHaveLength(2);
+    expect(recording.utterances.map(({ role, text, attribution }) => [role, text, attribution.method, attribution.channel])).toEqual([
+      ['nurse', 'A senhora tem dor no peito?', 'channel', 0],
+      ['patient', 'Tenho, desde ontem.', 'channel', 1],
+    ]);
+    expect(recording.transcription.text).toBe('A senhora tem dor no peito? Tenho, desde ontem.');
+    expect(recording.transcription.speakers?.map((speaker) => speaker.speaker)).toEqual(['nurse', 'patient']);
+  });
+
+  it('transcribes once when the client declares the speaker', async () => {
+    const ai = new ScriptedAI(['Estou com falta de ar.']);
+    const attributor = new SpeakerAttributor(new WhisperWorkerSTT(ai), { declared_speaker: 'patient' });
+
+    const recording = await attributor.attributeRecording(new ArrayBuffer(32), 's-1');
+
+    expect(ai.calls).toHaveLength(1);
+    expect(recording.utterances).toEqual([expect.objectContaining({ role: 'patient', attribution: expect.objectContaining({ method: 'declared' }) })]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * PIR Speaker Attribution - Quem falou cada trecho de uma gravação de triagem
+ *
+ * Uma gravação tem as duas vozes; cada fala detectada (VAD) recebe um papel pela
+ * primeira fonte disponível, da mais confiável para a menos:
+ * 1. declared: `?speaker=` / mensagem "speaker" do stream (o cliente sabe quem fala)
+ * 2. channel: WAV/PCM multicanal, um microfone por falante (`channel_roles`)
+ * 3. voice_profile: fala comparada ao perfil de voz do enfermeiro do plantão (WAV/PCM)
+ * 4. text_classifier: frases classificadas pelo texto (pergunta → enfermeiro...)
+ *
+ * Assim "tem dor no peito?" vira turno do enfermeiro e os extractors não a tratam
+ * como afirmação do paciente.
+ */
+
+import { AudioChunker, type AudioSegment } from '../audio/audio-chunker';
+import { decodeToWhisperSamples, type PCMFormat } from '../audio/pcm';
+import type { VADOptions } from '../audio/vad';
+import type { SpeakerSegment, TranscriptionResult, WhisperWorkerSTT } from '../stt/whisper-worker';
+import type { TurnAttribution } from '../types/slots';
+import { classifyTranscript, type SpeakerRole, type UtteranceClassification } from './turn-classifier';
+import { extractVoiceFeatures, matchVoiceProfile, type VoiceProfile } from './voice-profile';
+
+export interface SpeakerAttributionOptions {
+  declared_speaker?: SpeakerRole;
+  channel_roles?: SpeakerRole[]; // Papel de cada canal (índice = canal do WAV/PCM)
+  voice_profile?: VoiceProfile | null;
+  pcm_format?: PCMFormat; // PCM sem cabeçalho
+}
+
+export interface AttributedUtterance {
+  role: SpeakerRole;
+  text: string;
+  attribution: TurnAttribution;
+}
+
+export interface AttributedRecording {
+  utterances: AttributedUtterance[]; // Em ordem de início no áudio
+  transcription: TranscriptionResult; // Texto completo + falantes (speakers)
+}
+
+/**
+ * Troca de turno numa conversa é mais rápida que a pausa que fecha uma fala no
+ * streaming: trechos mais curtos separam pergunta e resposta
+ */
+export const TURN_VAD_OPTIONS: Partial<VADOptions> = { hangover_ms: 350 };
+
+const CHANNEL_CONFIDENCE = 0.95;
+
+/**
+ * Papel(is) de um trecho já transcrito; `previous` é a última fala atribuída (contexto do classificador)
+ */
+export function attributeSegment(
+  segment: AudioSegment,
+  text: string,
+  options: SpeakerAttributionOptions,
+  previous: AttributedUtterance | null = null
+): AttributedUtterance[] {
+  const position = { audio_start_ms: segment.start_ms, audio_end_ms: segment.end_ms };
+
+  if (options.declared_speaker) {
+    return [{ role: options.declared_speaker, text, attribution: { method: 'declared', confidence: 1, ...position } }];
+  }
+
+  const channelRole = segment.channel !== undefined ? options.channel_roles?.[segment.channel] : undefined;
+  if (channelRole) {
+    return [
+      { role: channelRole, text, attribution: { method: 'channel', confidence: CHANNEL_CONFIDENCE, channel: segment.channel, ...position } },
+    ];
+  }
+
+  // Perfil de voz: só com amostras (WAV/PCM); Opus e MP3 não são decodificados no Worker
+  let similarity: number | undefined;
+  if (options.voice_profile && segment.mime_type === 'audio/wav') {
+    const match = matchVoiceProfile(options.voice_profile, extractVoiceFeatures(decodeToWhisperSamples(new Uint8Array(segment.audio))));
+    similarity = match.similarity ?? undefined;
+
+    if (match.decision !== 'uncertain') {
+      const role: SpeakerRole = match.decision === 'match' ? 'nurse' : 'patient';
+      const confidence = match.decision === 'match' ? match.similarity! : 1 - match.similarity!;
+      return [{ role, text, attribution: { method: 'voice_profile', confidence, voice_similarity: similarity, ...position } }];
+    }
+  }
+
+  const context: UtteranceClassification | null = previous
+    ? { text: previous.text, role: previous.role, confidence: previous.attribution.confidence, cues: [] }
+    : null;
+  return classifyTranscript(text, context).map((utterance) => ({
+    role: utterance.role,
+    text: utterance.text,
+    attribution: {
+      method: 'text_classifier',
+      confidence: utterance.confidence,
+      ...(similarity !== undefined && { voice_similarity: similarity }),
+      ...position,
+    },
+  }));
+}
+
+/**
+ * Upload inteiro (/audio): segmenta, transcreve cada fala e atribui o falante
+ */
+export class SpeakerAttributor {
+  constructor(
+    private whisper: WhisperWorkerSTT,
+    private options: SpeakerAttributionOptions = {}
+  ) {}
+
+  async attributeRecording(audio: ArrayBuffer, sessionId: string): Promise<AttributedRecording> {
+    // Falante declarado: uma transcrição só, como antes
+    if (this.options.declared_speaker) {
+      const transcription = await this.whisper.transcribe({ audio_blob: audio, session_id: sessionId, language: 'pt-BR' });
+      const segment: AudioSegment = { audio, mime_type: 'application/octet-stream', start_ms: 0, end_ms: 0, reason: 'flush' };
+      const utterances = transcription.text.trim() ? attributeSegment(segment, transcription.text.trim(), this.options) : [];
+      return { utterances, transcription: { ...transcription, speakers: toSpeakerSegments(utterances) } };
+    }
+
+    const chunker = new AudioChunker({
+      pcm_format: this.options.pcm_format,
+      split_channels: (this.options.channel_roles?.length ?? 0) > 1,
+      vad: TURN_VAD_OPTIONS,
+    });
+    const segments = [...chunker.push(new Uint8Array(audio)), ...chunker.flush()].sort((left, right) => left.start_ms - right.start_ms);
+
+    const utterances: AttributedUtterance[] = [];
+    const results: TranscriptionResult[] = [];
+    for (const segment of segments) {
+      const result = await this.whisper.transcribe({ audio_blob: segment.audio, session_id: sessionId, language: 'pt-BR' });
+      const text = result.text.trim();
+      if (!text) continue;
+
+      results.push(result);
+      utterances.push(...attributeSegment(segment, text, this.options, utterances[utterances.length - 1] ?? null));
+    }
+
+    console.log(
+      `[PIR] Speaker attribution: ${segments.length} segments → ${utterances.length} turns (${utterances.map((utterance) => `${utterance.role}:${utterance.attribution.method}`).join(', ')})`
+    );
+
+    return {
+      utterances,
+      transcription: {
+        text: utterances.map((utterance) => utterance.text).join(' '),
+        confidence: results.length ? Math.min(...results.map((result) => result.confidence)) : 0,
+        language_detected: results[0]?.language_detected ?? 'pt-BR',
+        duration_ms: results.reduce((total, result) => total + result.duration_ms, 0),
+        speakers: toSpeakerSegments(utterances),
+      },
+    };
+  }
+}
+
+function toSpeakerSegments(utterances: AttributedUtterance[]): SpeakerSegment[] {
+  return utterances.map((utterance) => ({
+    speaker: utterance.role,
+    text: utterance.text,
+    start_time: (utterance.attribution.audio_start_ms ?? 0) / 1000,
+    end_time: (utterance.attribution.audio_end_ms ?? 0) / 1000,
+    confidence: utterance.attribution.confidence,
+  }));
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { classifyTranscript, classifyUtterance, splitUtterances } from './turn-classifier';
+
+describe('classifyUtterance', () => {
+  it('attributes questions, instructions and readouts to the nurse', () => {
+    expect(classifyUtterance('A senhora tem dor no peito?')).toMatchObject({
+      role: 'nurse',
+      confidence: 0.95,
+      cues: ['question', 'yes_no_probe', 'formal_address'],
+    });
+    expect(classifyUtterance('Vou medir sua pressão agora.')).toMatchObject({ role: 'nurse', cues: ['instruction'] });
+    expect(classifyUtterance('Saturação 92, pressão 150 por 95.')).toMatchObject({ role: 'nurse', cues: ['measurement_readout'] });
+  });
+
+  it('attributes first-person complaints and short answers to the patient', () => {
+    expect(classifyUtterance('Estou com dor no peito desde ontem.')).toMatchObject({ role: 'patient', cues: ['first_person'] });
+    expect(classifyUtterance('Não.')).toMatchObject({ role: 'patient', cues: ['answer_opening', 'short_answer'] });
+    expect(classifyUtterance('Dói muito aqui.')).toMatchObject({ role: 'patient', cues: ['complaint'] });
+  });
+
+  it('attributes the caregiver speaking for the child to the patient side', () => {
+    expect(classifyUtterance('Meu filho está com febre desde ontem.')).toMatchObject({ role: 'patient', cues: ['possessive'] });
+    expect(classifyUtterance('Ele vomitou duas vezes e eu dei dipirona.')).toMatchObject({ role: 'patient', cues: ['first_person'] });
+  });
+
+  it('follows the conversation when the sentence has no cue', () => {
+    const question = classifyUtterance('Quando começou?');
+    expect(classifyUtterance('Ontem à noite.', question)).toEqual({ text: 'Ontem à noite.', role: 'patient', confidence: 0.5, cues: ['context'] });
+
+    const complaint = classifyUtterance('Estou com falta de ar.');
+    expect(classifyUtterance('Piorou de madrugada.', complaint)).toMatchObject({ role: 'patient', confidence: 0.5 });
+  });
+
+  it('falls back to the context on a tie between cues', () => {
+    // Tratamento formal (+1, enfermeiro) contra queixa (+1, paciente)
+    const tie = classifyUtterance('O senhor disse que dói aqui.', classifyUtterance('Onde dói?'));
+    expect(tie).toMatchObject({ role: 'patient', confidence: 0.5, cues: ['formal_address', 'complaint', 'context'] });
+  });
+});
+
+describe('classifyTranscript', () => {
+  it('splits a mixed transcript into turns and joins consecutive sentences of the same speaker', () => {
+    const turns = classifyTranscript('Tem alergia a algum remédio? Não, nenhuma. Só tomo losartana para pressão.');
+
+    expect(turns.map(({ role, text }) => [role, text])).toEqual([
+      ['nurse', 'Tem alergia a algum remédio?'],
+      ['patient', 'Não, nenhuma. Só tomo losartana para pressão.'],
+    ]);
+    expect(turns[1].cues).toEqual(expect.arrayContaining(['answer_opening', 'first_person']));
+  });
+
+  it('keeps the lowest confidence of a merged turn', () => {
+    const [turn] = classifyTranscript('Estou com muita dor de cabeça. Desde cedo.');
+    expect(turn).toMatchObject({ role: 'patient', confidence: 0.5 });
+  });
+
+  it('uses the previous turn as context for the first sentence', () => {
+    const previous = classifyUtterance('Há quanto tempo está assim?');
+    expect(classifyTranscript('Umas duas horas.', previous)).toEqual([expect.objectContaining({ role: 'patient' })]);
+  });
+});
+
+describe('splitUtterances', () => {
+  it('keeps punctuation and drops empty fragments', () => {
+    expect(splitUtterances('Tem febre? Tenho... desde ontem! ')).toEqual(['Tem febre?', 'Tenho...', 'desde ontem!']);
+    expect(splitUtterances(' ... ')).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * PIR Turn Classifier - Quem disse cada frase, só pelo texto
+ *
+ * Fallback da atribuição de falante quando o áudio não separa as vozes (mono sem
+ * perfil de voz, Opus, perfil ambíguo). Cada frase recebe pontos por pistas do
+ * português falado na triagem:
+ * - Enfermeiro: pergunta ("tem dor no peito?"), interrogativos, tratamento formal
+ *   ("a senhora"), instruções ("respire fundo", "de 0 a 10"), leitura de medidas
+ * - Paciente: primeira pessoa ("estou", "sinto", "minha"), queixa ("dói"), resposta curta
+ * Sem pista nenhuma, a frase segue o contexto: depois de uma fala do enfermeiro é a
+ * resposta do paciente; senão continua com quem falava.
+ */
+
+export type SpeakerRole = 'nurse' | 'patient';
+
+export interface UtteranceClassification {
+  text: string;
+  role: SpeakerRole;
+  confidence: number;
+  cues: string[]; // Pistas que decidiram (auditoria)
+}
+
+interface Cue {
+  name: string;
+  role: SpeakerRole;
+  weight: number;
+  pattern: RegExp; // Aplicado ao texto normalizado (minúsculas, sem acento)
+}
+
+const CUES: Cue[] = [
+  // Enfermeiro
+  {
+    name: 'interrogative',
+    role: 'nurse',
+    weight: 2,
+    pattern: /^(e\s+)?(qual|quais|quando|quanto|quantos|quantas|onde|como|por que|o que|desde quando|ha quanto tempo|faz quanto tempo)\b/,
+  },
+  {
+    name: 'yes_no_probe',
+    role: 'nurse',
+    weight: 1,
+    pattern: /^((o senhor|a senhora|voce)\s+)?(tem|teve|sente|sentiu|esta sentindo|toma|tomou|usa|fuma|bebe|fez|bateu|desmaiou|vomitou|e alergic[oa])\b/,
+  },
+  { name: 'formal_address', role: 'nurse', weight: 1, pattern: /\b(o senhor|a senhora|o sr|a sra)\b/ },
+  {
+    name: 'instruction',
+    role: 'nurse',
+    weight: 2,
+    pattern:
+      /\b(vou (medir|verificar|aferir|colocar|examinar|checar|ver)|vamos (medir|verificar|aferir|ver)|respire|respira fundo|abra|aperte|estique|deite|fique|levante|me (diga|fala|conta|conte|mostre|mostra)|pode (me )?(dizer|falar|mostrar|apontar)|de (0|zero) a (10|dez)|numa escala)\b/,
+  },
+  { name: 'measurement_readout', role: 'nurse', weight: 1.5, pattern: /\b(pressao|saturacao|frequencia|glicemia|temperatura|oximetria)\b[^?]*\d/ },
+  // Paciente
+  {
+    name: 'first_person',
+    role: 'patient',
+    weight: 1.5,
+    pattern: /\b(eu|estou|to|tou|sinto|senti|tenho|tive|tomo|tomei|comecei|consigo|fiquei|acordei|desmaiei|vomitei|sou)\b/,
+  },
+  { name: 'possessive', role: 'patient', weight: 1.5, pattern: /\b(minha|meu|minhas|meus|comigo|me doi|me deu)\b/ },
+  { name: 'answer_opening', role: 'patient', weight: 1.5, pattern: /^(sim|nao|uhum|aham|isso)\b[\s,.!]/ },
+  { name: 'complaint', role: 'patient', weight: 1, pattern: /\b(doi|doendo|arde|ardendo|queimando|latejando|apertando)\b/ },
+  {
+    name: 'short_answer',
+    role: 'patient',
+    weight: 2,
+    pattern:
+      /^(sim|nao|uhum|aham|isso|exato|nunca|talvez|as vezes|mais ou menos|acho que (sim|nao)|(um|uma|dois|duas|tres|quatro|cinco|seis|sete|oito|nove|dez|\d+)( \w+)?)[\s.!,]*$/,
+  },
+];
+
+const QUESTION_WEIGHT = 2;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+/**
+ * Frases de um trecho transcrito (mantém a pontuação: "?" é pista)
+ */
+export function splitUtterances(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) ?? []).map((sentence) => sentence.trim()).filter((sentence) => /\w/.test(sentence));
+}
+
+/**
+ * Uma frase; `previous` é a frase anterior da conversa (contexto quando não há pista)
+ */
+export function classifyUtterance(text: string, previous: UtteranceClassification | null = null): UtteranceClassification {
+  const normalized = normalize(text);
+  const score: Record<SpeakerRole, number> = { nurse: 0, patient: 0 };
+  const cues: string[] = [];
+
+  if (/\?\s*$/.test(text)) {
+    score.nurse += QUESTION_WEIGHT;
+    cues.push('question');
+  }
+  for (const cue of CUES) {
+    if (cue.pattern.test(normalized)) {
+      score[cue.role] += cue.weight;
+      cues.push(cue.name);
+    }
+  }
+
+  const difference = score.nurse - score.patient;
+  if (difference === 0) {
+    // Sem pista (ou empate): resposta ao enfermeiro ou continuação de quem falava
+    const role = previous?.role === 'nurse' ? 'patient' : previous?.role ?? 'patient';
+    return { text, role, confidence: 0.5, cues: [...cues, 'context'] };
+  }
+
+  return {
+    text,
+    role: difference > 0 ? 'nurse' : 'patient',
+    confidence: Math.round(Math.min(0.95, 0.55 + 0.1 * Math.abs(difference)) * 100) / 100,
+    cues,
+  };
+}
+
+/**
+ * Trecho transcrito → falas por papel (frases consecutivas do mesmo falante juntas)
+ */
+export function classifyTranscript(text: string, previous: UtteranceClassification | null = null): UtteranceClassification[] {
+  const utterances: UtteranceClassification[] = [];
+  let context = previous;
+
+  for (const sentence of splitUtterances(text)) {
+    const classification = classifyUtterance(sentence, context);
+    context = classification;
+
+    const last = utterances[utterances.length - 1];
+    if (last && last.role === classification.role) {
+      last.text = `${last.text} ${sentence}`;
+      last.confidence = Math.min(last.confidence, classification.confidence);
+      last.cues = Array.from(new Set([...last.cues, ...classification.cues]));
+    } else {
+      utterances.push(classification);
+    }
+  }
+
+  return utterances;
+}
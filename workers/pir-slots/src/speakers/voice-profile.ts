@@ -0,0 +1,305 @@
+/**
+ * PIR Voice Profile - Perfil de voz do enfermeiro por plantão
+ *
+ * No início do plantão o enfermeiro grava alguns segundos de fala (WAV ou PCM); o
+ * perfil guarda só estatísticas agregadas: média e desvio dos MFCC 1–12 e a F0
+ * mediana. Nenhum áudio é armazenado e o perfil expira no fim do plantão (dado
+ * biométrico, LGPD art. 11).
+ *
+ * Cada fala de um upload mono é comparada ao perfil: similar → enfermeiro, distante →
+ * paciente, no meio → o classificador de texto decide. É um perfil leve para separar
+ * duas vozes numa sala, não identificação biométrica.
+ */
+
+import { WHISPER_SAMPLE_RATE } from '../audio/pcm';
+
+export interface VoiceFeatures {
+  mfcc_mean: number[]; // MFCC 1–12 (c0, energia, fica de fora)
+  mfcc_std: number[];
+  pitch_hz: number | null; // F0 mediana dos frames vozeados
+  speech_ms: number; // Fala usada nas estatísticas
+}
+
+export interface VoiceProfile {
+  nurse_id: string;
+  features: VoiceFeatures;
+  enrolled_at: string;
+  expires_at: string; // Fim do plantão
+}
+
+export interface VoiceMatch {
+  similarity: number | null; // null = fala curta demais para comparar
+  decision: 'match' | 'no_match' | 'uncertain';
+}
+
+export class VoiceProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceProfileError';
+  }
+}
+
+export const ENROLLMENT_MIN_SPEECH_MS = 5_000;
+export const DEFAULT_SHIFT_HOURS = 12;
+export const MAX_SHIFT_HOURS = 24;
+
+const MATCH_MIN_SPEECH_MS = 800;
+const MATCH_THRESHOLD = 0.6;
+const NO_MATCH_THRESHOLD = 0.3;
+const SPECTRAL_SCALE = 0.3; // Distância MFCC (em desvios por frame do perfil): mesma voz fica perto de 0.2
+const PITCH_TOLERANCE_SEMITONES = 3;
+
+// Análise: frames de 25 ms a cada 10 ms, FFT de 512 pontos, 26 filtros mel
+const FRAME_SAMPLES = 400;
+const HOP_SAMPLES = 160;
+const FFT_SIZE = 512;
+const MEL_FILTERS = 26;
+const MFCC_COUNT = 12;
+const MEL_LOW_HZ = 100;
+const MEL_HIGH_HZ = 7_600;
+const PITCH_MIN_HZ = 70;
+const PITCH_MAX_HZ = 400;
+const VOICING_THRESHOLD = 0.5; // Autocorrelação normalizada mínima
+const OCTAVE_TOLERANCE = 0.85;
+const SPEECH_FLOOR_DB = -50;
+const SPEECH_RANGE_DB = 35; // Frames até 35 dB abaixo do mais alto contam como fala
+
+// ============================================================================
+// EXTRAÇÃO
+// ============================================================================
+
+/**
+ * Amostras mono 16 kHz → estatísticas de voz dos frames de fala
+ */
+export function extractVoiceFeatures(samples: Float32Array): VoiceFeatures {
+  const frames: Array<{ start: number; level: number }> = [];
+  for (let start = 0; start + FRAME_SAMPLES <= samples.length; start += HOP_SAMPLES) {
+    let sum = 0;
+    for (let index = start; index < start + FRAME_SAMPLES; index++) sum += samples[index] * samples[index];
+    const rms = Math.sqrt(sum / FRAME_SAMPLES);
+    frames.push({ start, level: rms > 0 ? 20 * Math.log10(rms) : -Infinity });
+  }
+
+  const loudest = frames.reduce((max, frame) => Math.max(max, frame.level), -Infinity);
+  const floor = Math.max(SPEECH_FLOOR_DB, loudest - SPEECH_RANGE_DB);
+  const speech = frames.filter((frame) => frame.level >= floor);
+
+  const coefficients = speech.map((frame) => mfcc(samples, frame.start));
+  const pitches = speech.map((frame) => pitch(samples, frame.start)).filter((value): value is number => value !== null);
+
+  const mean = new Array<number>(MFCC_COUNT).fill(0);
+  const std = new Array<number>(MFCC_COUNT).fill(0);
+  for (const vector of coefficients) vector.forEach((value, index) => (mean[index] += value / coefficients.length));
+  for (const vector of coefficients) vector.forEach((value, index) => (std[index] += (value - mean[index]) ** 2 / coefficients.length));
+
+  return {
+    mfcc_mean: mean,
+    mfcc_std: std.map(Math.sqrt),
+    pitch_hz: pitches.length ? median(pitches) : null,
+    speech_ms: (speech.length * HOP_SAMPLES * 1000) / WHISPER_SAMPLE_RATE,
+  };
+}
+
+/**
+ * Fala comparada ao perfil do enfermeiro
+ */
+export function matchVoiceProfile(profile: VoiceProfile, features: VoiceFeatures): VoiceMatch {
+  if (features.speech_ms < MATCH_MIN_SPEECH_MS) return { similarity: null, decision: 'uncertain' };
+
+  // Distância em desvios-padrão do perfil, média por coeficiente
+  const reference = profile.features;
+  const distance = Math.sqrt(
+    reference.mfcc_mean.reduce((sum, mean, index) => {
+      const deviation = Math.max(reference.mfcc_std[index], 1e-3);
+      return sum + ((features.mfcc_mean[index] - mean) / deviation) ** 2;
+    }, 0) / MFCC_COUNT
+  );
+  const spectral = Math.exp(-(distance ** 2) / (2 * SPECTRAL_SCALE ** 2));
+
+  let similarity = spectral;
+  if (reference.pitch_hz !== null && features.pitch_hz !== null) {
+    const semitones = 12 * Math.log2(features.pitch_hz / reference.pitch_hz);
+    similarity = (spectral + Math.exp(-((semitones / PITCH_TOLERANCE_SEMITONES) ** 2) / 2)) / 2;
+  }
+
+  const decision = similarity >= MATCH_THRESHOLD ? 'match' : similarity <= NO_MATCH_THRESHOLD ? 'no_match' : 'uncertain';
+  return { similarity: Math.round(similarity * 1000) / 1000, decision };
+}
+
+/**
+ * Gravação de cadastro → perfil do plantão
+ */
+export function enrollVoiceProfile(nurseId: string, samples: Float32Array, shiftHours = DEFAULT_SHIFT_HOURS, now = new Date()): VoiceProfile {
+  if (!(shiftHours > 0 && shiftHours <= MAX_SHIFT_HOURS)) {
+    throw new VoiceProfileError(`shift_hours must be between 0 and ${MAX_SHIFT_HOURS}`);
+  }
+
+  const features = extractVoiceFeatures(samples);
+  if (features.speech_ms < ENROLLMENT_MIN_SPEECH_MS) {
+    throw new VoiceProfileError(
+      `Enrollment needs at least ${ENROLLMENT_MIN_SPEECH_MS / 1000}s of speech (got ${(features.speech_ms / 1000).toFixed(1)}s)`
+    );
+  }
+
+  return {
+    nurse_id: nurseId,
+    features,
+    enrolled_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + shiftHours * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+// ============================================================================
+// ARMAZENAMENTO
+// ============================================================================
+
+/**
+ * Perfis no KV com TTL do plantão (some sozinho ao fim do turno)
+ */
+export class VoiceProfileStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get(nurseId: string): Promise<VoiceProfile | null> {
+    const profile = await this.kv.get<VoiceProfile>(`voice-profile:${nurseId}`, 'json');
+    // O TTL do KV é eventual: confere a validade também aqui
+    return profile && Date.parse(profile.expires_at) > Date.now() ? profile : null;
+  }
+
+  async put(profile: VoiceProfile): Promise<void> {
+    const ttlSeconds = Math.max(60, Math.ceil((Date.parse(profile.expires_at) - Date.now()) / 1000));
+    await this.kv.put(`voice-profile:${profile.nurse_id}`, JSON.stringify(profile), { expirationTtl: ttlSeconds });
+  }
+
+  async delete(nurseId: string): Promise<void> {
+    await this.kv.delete(`voice-profile:${nurseId}`);
+  }
+}
+
+// ============================================================================
+// DSP
+// ============================================================================
+
+const HAMMING = Float64Array.from({ length: FRAME_SAMPLES }, (_, index) => 0.54 - 0.46 * Math.cos((2 * Math.PI * index) / (FRAME_SAMPLES - 1)));
+const MEL_BANK = buildMelFilterBank();
+
+function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+function melToHz(mel: number): number {
+  return 700 * (10 ** (mel / 2595) - 1);
+}
+
+/**
+ * Filtros triangulares: pesos por bin da FFT
+ */
+function buildMelFilterBank(): Array<Array<{ bin: number; weight: number }>> {
+  const low = hzToMel(MEL_LOW_HZ);
+  const high = hzToMel(MEL_HIGH_HZ);
+  const edges = Array.from({ length: MEL_FILTERS + 2 }, (_, index) => (melToHz(low + ((high - low) * index) / (MEL_FILTERS + 1)) * FFT_SIZE) / WHISPER_SAMPLE_RATE);
+
+  return Array.from({ length: MEL_FILTERS }, (_, filter) => {
+    const [left, center, right] = [edges[filter], edges[filter + 1], edges[filter + 2]];
+    const weights: Array<{ bin: number; weight: number }> = [];
+    for (let bin = Math.ceil(left); bin <= Math.floor(right); bin++) {
+      const weight = bin <= center ? (bin - left) / (center - left) : (right - bin) / (right - center);
+      if (weight > 0) weights.push({ bin, weight });
+    }
+    return weights;
+  });
+}
+
+function mfcc(samples: Float32Array, start: number): number[] {
+  const real = new Float64Array(FFT_SIZE);
+  const imaginary = new Float64Array(FFT_SIZE);
+  for (let index = 0; index < FRAME_SAMPLES; index++) {
+    const previous = start + index > 0 ? samples[start + index - 1] : 0;
+    real[index] = (samples[start + index] - 0.97 * previous) * HAMMING[index]; // Pré-ênfase
+  }
+  fft(real, imaginary);
+
+  const logEnergies = MEL_BANK.map((weights) => {
+    let energy = 0;
+    for (const { bin, weight } of weights) energy += weight * (real[bin] ** 2 + imaginary[bin] ** 2);
+    return Math.log(energy + 1e-10);
+  });
+
+  // DCT-II dos log-mel
+  return Array.from({ length: MFCC_COUNT }, (_, index) => {
+    const coefficient = index + 1;
+    let sum = 0;
+    logEnergies.forEach((value, filter) => (sum += value * Math.cos((Math.PI * coefficient * (filter + 0.5)) / MEL_FILTERS)));
+    return sum;
+  });
+}
+
+/**
+ * FFT radix-2 in-place
+ */
+function fft(real: Float64Array, imaginary: Float64Array): void {
+  const size = real.length;
+  for (let index = 1, reversed = 0; index < size; index++) {
+    let bit = size >> 1;
+    for (; reversed & bit; bit >>= 1) reversed ^= bit;
+    reversed ^= bit;
+    if (index < reversed) {
+      [real[index], real[reversed]] = [real[reversed], real[index]];
+      [imaginary[index], imaginary[reversed]] = [imaginary[reversed], imaginary[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let offset = 0; offset < size; offset += length) {
+      for (let index = 0; index < length / 2; index++) {
+        const cos = Math.cos(angle * index);
+        const sin = Math.sin(angle * index);
+        const evenReal = real[offset + index];
+        const evenImaginary = imaginary[offset + index];
+        const oddReal = real[offset + index + length / 2] * cos - imaginary[offset + index + length / 2] * sin;
+        const oddImaginary = real[offset + index + length / 2] * sin + imaginary[offset + index + length / 2] * cos;
+        real[offset + index] = evenReal + oddReal;
+        imaginary[offset + index] = evenImaginary + oddImaginary;
+        real[offset + index + length / 2] = evenReal - oddReal;
+        imaginary[offset + index + length / 2] = evenImaginary - oddImaginary;
+      }
+    }
+  }
+}
+
+/**
+ * F0 do frame por autocorrelação normalizada (null = não vozeado)
+ */
+function pitch(samples: Float32Array, start: number): number | null {
+  const minLag = Math.floor(WHISPER_SAMPLE_RATE / PITCH_MAX_HZ);
+  const maxLag = Math.min(Math.ceil(WHISPER_SAMPLE_RATE / PITCH_MIN_HZ), FRAME_SAMPLES - 1);
+  const correlations = new Float64Array(maxLag + 2);
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let energyHead = 0;
+    let energyTail = 0;
+    for (let index = start; index < start + FRAME_SAMPLES - lag; index++) {
+      product += samples[index] * samples[index + lag];
+      energyHead += samples[index] ** 2;
+      energyTail += samples[index + lag] ** 2;
+    }
+    correlations[lag] = product / (Math.sqrt(energyHead * energyTail) || 1);
+  }
+
+  const best = Math.max(...correlations);
+  if (best < VOICING_THRESHOLD) return null;
+
+  // Menor período com pico próximo do melhor: múltiplos do período (sub-harmônicos) correlacionam quase igual
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const peak = correlations[lag] >= correlations[lag - 1] && correlations[lag] >= correlations[lag + 1];
+    if (peak && correlations[lag] >= OCTAVE_TOLERANCE * best) return WHISPER_SAMPLE_RATE / lag;
+  }
+  return null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -6,6 +6,10 @@
  */
 
 import { Ai } from '@cloudflare/ai';
+import { AudioChunker, type AudioChunkerOptions, type AudioSegment } from '../audio/audio-chunker';
+import { detectContainer } from '../audio/containers';
+import { normalizeWAVForWhisper } from '../audio/pcm';
+import { classifyTranscript } from '../speakers/turn-classifier';
 
 export interface TranscriptionRequest {
   audio_url?: string;
@@ -67,6 +71,10 @@ export class WhisperWorkerSTT {
         throw new Error('No audio source provided');
       }
 
+      // WAV em qualquer taxa/canais → 16 kHz mono (menos bytes, formato nativo do Whisper)
+      const bytes = new Uint8Array(audioBuffer);
+      if (detectContainer(bytes) === 'wav') audioBuffer = normalizeWAVForWhisper(bytes);
+
       // Cloudflare Workers AI Whisper Large V3 Turbo (October 2025)
       // Model: @cf/openai/whisper-large-v3-turbo (2-4x faster than v3)
       const whisperInput = {
@@ -74,7 +82,7 @@ export class WhisperWorkerSTT {
         source_lang: request.language || 'pt',
       };
 
-      const response = await this.ai.run('@cf/openai/whisper-large-v3-turbo', whisperInput);
+      const response = (await this.ai.run('@cf/openai/whisper-large-v3-turbo' as any, whisperInput)) as { text?: string };
 
       // Resposta do Whisper
       const transcription = response.text || '';
@@ -103,45 +111,37 @@ export class WhisperWorkerSTT {
 
   /**
    * Transcrição em streaming (para conversas longas)
+   * Um trecho por fala detectada (VAD), não por contagem de bytes.
    */
   async transcribeStream(
     audioStream: ReadableStream<Uint8Array>,
-    onChunk: (chunk: TranscriptionResult) => void,
-    sessionId: string
+    onChunk: (chunk: TranscriptionResult, segment: AudioSegment) => void,
+    sessionId: string,
+    options?: AudioChunkerOptions
   ): Promise<void> {
     const reader = audioStream.getReader();
-    const chunks: Uint8Array[] = [];
+    const chunker = new AudioChunker(options);
+
+    const transcribeSegments = async (segments: AudioSegment[]) => {
+      for (const segment of segments) {
+        const result = await this.transcribe({
+          audio_blob: segment.audio,
+          session_id: sessionId,
+        });
+        onChunk(result, segment);
+      }
+    };
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        chunks.push(value);
-
-        // Processa em chunks de ~5 segundos de áudio (assumindo 16kHz mono)
-        // ~160KB = 5 segundos
-        const currentSize = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-        if (currentSize >= 160_000) {
-          const combinedBuffer = this.combineChunks(chunks);
-          const result = await this.transcribe({
-            audio_blob: combinedBuffer,
-            session_id: sessionId,
-          });
-          onChunk(result);
-          chunks.length = 0; // Clear processed chunks
-        }
+        await transcribeSegments(chunker.push(value));
       }
 
-      // Processa chunks restantes
-      if (chunks.length > 0) {
-        const combinedBuffer = this.combineChunks(chunks);
-        const result = await this.transcribe({
-          audio_blob: combinedBuffer,
-          session_id: sessionId,
-        });
-        onChunk(result);
-      }
+      // Fala ainda aberta no fim do stream
+      await transcribeSegments(chunker.flush());
     } catch (error) {
       console.error('Stream transcription error:', error);
       throw error;
@@ -184,56 +184,25 @@ export class WhisperWorkerSTT {
   }
 
   /**
-   * Speaker diarization simples usando heurísticas
-   * (em produção, usar modelo dedicado como pyannote)
+   * Speaker diarization pelo texto: cada frase classificada por pistas de fala
+   * (speakers/turn-classifier.ts). Uploads com canais ou perfil de voz usam
+   * SpeakerAttributor (speakers/speaker-attribution.ts).
    */
   private performSimpleDiarization(text: string): SpeakerSegment[] {
-    const segments: SpeakerSegment[] = [];
-    const sentences = text.split(/[.!?]+/).filter((s) => s.trim().length > 0);
-
-    // Heurística simples: alternância entre nurse e patient
-    // Perguntas = nurse, respostas = patient
-    let currentSpeaker: 'nurse' | 'patient' = 'nurse';
     let currentTime = 0;
 
-    for (const sentence of sentences) {
-      const trimmed = sentence.trim();
-      const isQuestion = trimmed.endsWith('?') || trimmed.includes('qual') || trimmed.includes('como');
-
-      if (isQuestion) {
-        currentSpeaker = 'nurse';
-      } else {
-        currentSpeaker = currentSpeaker === 'nurse' ? 'patient' : 'nurse';
-      }
-
-      const duration = trimmed.split(' ').length * 0.4; // ~400ms por palavra
-
-      segments.push({
-        speaker: currentSpeaker,
-        text: trimmed,
+    return classifyTranscript(text).map((utterance) => {
+      const duration = utterance.text.split(/\s+/).length * 0.4; // ~400ms por palavra
+      const segment: SpeakerSegment = {
+        speaker: utterance.role,
+        text: utterance.text,
         start_time: currentTime,
         end_time: currentTime + duration,
-        confidence: 0.7,
-      });
-
+        confidence: utterance.confidence,
+      };
       currentTime += duration;
-    }
-
-    return segments;
-  }
-
-  /**
-   * Combina chunks de áudio em um único ArrayBuffer
-   */
-  private combineChunks(chunks: Uint8Array[]): ArrayBuffer {
-    const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    const combined = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
-    }
-    return combined.buffer;
+      return segment;
+    });
   }
 }
 
@@ -241,83 +210,81 @@ export class WhisperWorkerSTT {
  * Real-time audio capture and transcription
  * Usado em interfaces web para captura contínua
  */
-export class RealtimeTranscriptionSession {
+export class RealtimeTranscriptionSession<C = undefined> {
   private whisper: WhisperWorkerSTT;
   private sessionId: string;
-  private onTranscript: (result: TranscriptionResult) => void;
-  private audioQueue: Uint8Array[] = [];
-  private isProcessing = false;
-
-  constructor(whisper: WhisperWorkerSTT, sessionId: string, onTranscript: (result: TranscriptionResult) => void) {
+  private onTranscript: (result: TranscriptionResult, segment: AudioSegment, context: C) => void | Promise<void>;
+  private onError?: (error: unknown) => void;
+  private chunker: AudioChunker;
+  private segments: Array<{ segment: AudioSegment; context: C }> = []; // Falas completas aguardando transcrição
+  private processing: Promise<void> | null = null;
+
+  constructor(
+    whisper: WhisperWorkerSTT,
+    sessionId: string,
+    onTranscript: (result: TranscriptionResult, segment: AudioSegment, context: C) => void | Promise<void>,
+    onError?: (error: unknown) => void,
+    options?: AudioChunkerOptions
+  ) {
     this.whisper = whisper;
     this.sessionId = sessionId;
     this.onTranscript = onTranscript;
+    this.onError = onError;
+    this.chunker = new AudioChunker(options);
   }
 
   /**
-   * Adiciona chunk de áudio à fila de processamento
+   * Adiciona chunk de áudio (WAV, PCM, WebM/Ogg Opus); cada fala completa é transcrita
+   * `context` acompanha as falas que terminam neste chunk (ex: quem está falando)
    */
-  addAudioChunk(chunk: Uint8Array): void {
-    this.audioQueue.push(chunk);
-    this.processQueueIfReady();
+  addAudioChunk(chunk: Uint8Array, context: C): void {
+    this.enqueue(() => this.chunker.push(chunk), context);
   }
 
   /**
-   * Processa fila quando atingir tamanho mínimo
+   * Fecha a fala aberta e espera todas as transcrições pendentes
    */
-  private async processQueueIfReady(): Promise<void> {
-    if (this.isProcessing) return;
+  async flush(context: C): Promise<void> {
+    this.enqueue(() => this.chunker.flush(), context);
+    while (this.processing) await this.processing;
+  }
 
-    const totalSize = this.audioQueue.reduce((acc, chunk) => acc + chunk.length, 0);
+  private enqueue(chunk: () => AudioSegment[], context: C): void {
+    try {
+      this.segments.push(...chunk().map((segment) => ({ segment, context })));
+    } catch (error) {
+      console.error('Failed to decode audio chunk:', error);
+      this.onError?.(error);
+    }
+    this.processQueue();
+  }
 
-    // Processa a cada ~3 segundos de áudio (120KB em 16kHz mono)
-    if (totalSize < 120_000) return;
+  /**
+   * Transcreve as falas na ordem em que terminaram, uma por vez
+   */
+  private processQueue(): void {
+    if (this.processing || this.segments.length === 0) return;
 
-    this.isProcessing = true;
+    const { segment, context } = this.segments.shift()!;
+    this.processing = this.transcribeSegment(segment, context).finally(() => {
+      this.processing = null;
+      this.processQueue();
+    });
+  }
 
+  private async transcribeSegment(segment: AudioSegment, context: C): Promise<void> {
     try {
-      const combinedBuffer = this.combineQueuedChunks();
       const result = await this.whisper.transcribe({
-        audio_blob: combinedBuffer,
+        audio_blob: segment.audio,
         session_id: this.sessionId,
         language: 'pt-BR',
         speaker_diarization: true,
       });
 
-      this.onTranscript(result);
-      this.audioQueue = []; // Clear processed queue
+      await this.onTranscript(result, segment, context);
     } catch (error) {
-      console.error('Failed to process audio queue:', error);
-    } finally {
-      this.isProcessing = false;
-    }
-  }
-
-  /**
-   * Força processamento de chunks pendentes
-   */
-  async flush(): Promise<void> {
-    if (this.audioQueue.length === 0) return;
-
-    const combinedBuffer = this.combineQueuedChunks();
-    const result = await this.whisper.transcribe({
-      audio_blob: combinedBuffer,
-      session_id: this.sessionId,
-      language: 'pt-BR',
-    });
-
-    this.onTranscript(result);
-    this.audioQueue = [];
-  }
-
-  private combineQueuedChunks(): ArrayBuffer {
-    const totalLength = this.audioQueue.reduce((acc, chunk) => acc + chunk.length, 0);
-    const combined = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of this.audioQueue) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
+      console.error('Failed to process audio segment:', error);
+      this.onError?.(error);
     }
-    return combined.buffer;
   }
 }
@@ -2,16 +2,36 @@
  * PIR Manchester SP - Slots Types
  *
  * Define todos os tipos de slots para extração conversacional de dados clínicos.
- * 19 slots total extraídos usando Cloudflare Workers AI.
+ * 26 slots total extraídos usando Cloudflare Workers AI.
  */
 
+import type { PIRSlot } from '@voither/pir-schema';
+
 /**
- * Conversation turn (user or assistant message)
+ * ID de slot do PIR (slot_id canônico do SlotRegistry)
+ */
+export type SlotId = string;
+
+/**
+ * Conversation turn (nurse, patient or system message)
  */
 export interface ConversationTurn {
-  role: 'user' | 'assistant' | 'system';
+  role: 'nurse' | 'patient' | 'system';
   content: string;
   timestamp?: string;
+  attribution?: TurnAttribution; // Turnos de áudio: como o falante foi decidido
+}
+
+/**
+ * Atribuição de falante de um turno transcrito (speakers/speaker-attribution.ts)
+ */
+export interface TurnAttribution {
+  method: 'declared' | 'channel' | 'voice_profile' | 'text_classifier';
+  confidence: number;
+  channel?: number; // Canal do microfone (upload multicanal)
+  voice_similarity?: number; // Similaridade com o perfil de voz do enfermeiro
+  audio_start_ms?: number;
+  audio_end_ms?: number;
 }
 
 /**
@@ -20,9 +40,15 @@ export interface ConversationTurn {
 export interface PatientContext {
   patient_id?: string;
   session_id: string;
+  age_years?: number; // Cadastro; faixas de plausibilidade pediátricas
+  birth_date?: string; // Cadastro (ISO 8601): idade calculada no início da sessão
+  sex?: PatientSex; // Cadastro
   conversation_history: ConversationTurn[];
   audio_transcript?: string;
   previous_slots?: Record<string, any>;
+  medical_history?: string[]; // Prontuário (RMS)
+  medications?: string[]; // Prontuário (RMS)
+  allergies?: string[]; // Prontuário (RMS)
 }
 
 /**
@@ -30,8 +56,41 @@ export interface PatientContext {
  */
 export interface SlotFillRequest {
   slot_id: string;
-  context: PatientContext;
+  conversation_context: ConversationTurn[];
+  patient_context?: PatientContext;
+  attempt: number;
   force_reextract?: boolean;
+  slot_definition?: PIRSlot; // Definição na versão do PIR da sessão (extraction.patterns, validation)
+  slot_state?: Record<string, unknown>; // Estado atual da sessão (inputs de slots computados)
+  clinical_context?: ClinicalContextAnnotation[]; // Pré-análise de negação/incerteza/experienciador do round
+}
+
+/**
+ * Trecho da conversa que originou um valor
+ */
+export interface TextSpan {
+  turn_index: number; // Índice em conversation_history
+  start: number; // Offset no conteúdo do turno
+  end: number;
+  text: string;
+}
+
+/**
+ * Contexto clínico de um trecho (pré-análise estilo NegEx/ConText)
+ * - negated: "não tenho dor no peito", "sem sangramento"
+ * - uncertain: "acho que", "talvez", "não sei se"
+ * - other_experiencer: "minha mãe teve AVC" (não é achado do paciente)
+ * - historical: "já tive", "anos atrás" (não é o episódio atual)
+ */
+export type ClinicalContextCategory = 'negated' | 'uncertain' | 'other_experiencer' | 'historical';
+
+/**
+ * Escopo de um gatilho de contexto na conversa
+ */
+export interface ClinicalContextAnnotation extends TextSpan {
+  category: ClinicalContextCategory;
+  trigger: string; // Gatilho como dito ("não", "minha mãe")
+  caregiver?: boolean; // other_experiencer de filho(a)/bebê de quem fala ("meu filho")
 }
 
 /**
@@ -46,8 +105,11 @@ export interface ExtractionResult<T = unknown> {
   reasoning?: string;
   fallback_question?: string;
   extraction_method: 'conversation' | 'device' | 'computed' | 'historical' | 'fallback';
+  source?: 'pattern_match' | 'llm_extraction' | 'device' | 'computed' | 'historical'; // Origem do valor (proveniência)
   timestamp: string;
   model_used?: string;
+  raw_text?: string;
+  span?: TextSpan;
 }
 
 /**
@@ -60,37 +122,50 @@ export type SlotStatus =
   | 'device' // Read from device/sensor
   | 'historical' // Retrieved from patient history
   | 'fallback' // Using fallback question
+  | 'needs_confirmation' // Implausible value awaiting nurse confirmation
   | 'failed'; // Extraction failed
 
 /**
- * Consciousness level (SLOT 13)
+ * Consciousness level (SLOT 13) - options do slot no PIR
  */
 export type ConsciousnessLevel =
   | 'alert' // Alerta, orientado
-  | 'voice' // Responde à voz
-  | 'pain' // Responde à dor
+  | 'confused' // Confuso, desorientado
+  | 'responds_voice' // Responde à voz
+  | 'responds_pain' // Responde à dor
   | 'unresponsive'; // Não responsivo (AVPU scale)
 
 /**
- * Bleeding severity (SLOT 9)
+ * Bleeding severity (SLOT 9) - options do slot no PIR
  */
 export type BleedingSeverity =
-  | 'minor' // Sangramento menor, controlado
-  | 'moderate' // Sangramento moderado
-  | 'severe' // Sangramento grave
-  | 'life_threatening'; // Hemorragia maciça
+  | 'exsanguinating' // Hemorragia maciça
+  | 'uncontrollable_major' // Sangramento maior incontrolável
+  | 'uncontrollable_minor' // Sangramento menor incontrolável
+  | 'controllable'; // Sangramento controlado
 
 /**
- * Trauma mechanism (SLOT 15)
+ * Trauma mechanism (SLOT 15) - options do slot no PIR
  */
 export type TraumaMechanism =
-  | 'fall' // Queda
-  | 'mva' // Motor vehicle accident
-  | 'assault' // Agressão
-  | 'penetrating' // Trauma penetrante
-  | 'blunt' // Trauma contuso
-  | 'burn' // Queimadura
-  | 'other'; // Outro mecanismo
+  | 'high_energy_collision' // Acidente de carro/moto/trânsito
+  | 'fall_from_height' // Queda de altura, escada, telhado
+  | 'pedestrian_struck' // Atropelamento
+  | 'penetrating_injury' // Facada, tiro, ferimento penetrante
+  | 'low_energy_mechanism'; // Queda da própria altura
+
+/**
+ * Sex (SLOT 21)
+ */
+export type PatientSex = 'female' | 'male' | 'other';
+
+/**
+ * Pregnancy status (SLOT 22)
+ */
+export type PregnancyStatus =
+  | 'pregnant' // Gestação confirmada ou referida
+  | 'not_pregnant' // Nega gestação, menopausa, histerectomia
+  | 'possible'; // Atraso menstrual, suspeita
 
 /**
  * Medical history condition
@@ -139,21 +214,29 @@ export interface CompleteSlotState {
   bleeding_severity: BleedingSeverity | null; // SLOT 9 (only if bleeding_present)
 
   // DEVICE/COMPUTED SLOTS (10)
-  systolic_bp: number | null; // SLOT 10 (mmHg)
-  diastolic_bp: number | null; // SLOT 11 (mmHg)
+  blood_pressure: { systolic: number; diastolic: number } | null; // SLOTS 10-11 (mmHg)
   heart_rate: number | null; // SLOT 12 (bpm)
   consciousness_level: ConsciousnessLevel | null; // SLOT 13
   respiratory_rate: number | null; // SLOT 14 (irpm)
   trauma_mechanism: TraumaMechanism | null; // SLOT 15
   temperature: number | null; // SLOT 16 (°C)
   oxygen_saturation: number | null; // SLOT 17 (%)
-  capillary_glucose: number | null; // SLOT 18 (mg/dL)
+  glucose_level: number | null; // SLOT 18 (mg/dL)
   pain_location: string | null; // SLOT 19 (anatomical location)
 
   // HISTORICAL SLOTS (3)
   previous_medical_history: MedicalCondition[] | null; // SLOT 20
   medications_in_use: Medication[] | null; // SLOT 21
   allergy_history: Allergy[] | null; // SLOT 22
+
+  // DEMOGRAPHIC / PHYSIOLOGICAL SLOTS (7)
+  age: number | null; // anos (fração para lactentes)
+  sex: PatientSex | null;
+  pregnancy_status: PregnancyStatus | null;
+  gestational_age: number | null; // semanas
+  weight: number | null; // kg
+  height: number | null; // cm (comprimento em lactentes)
+  estimated_weight: number | null; // kg (Broselow / fórmula APLS)
 }
 
 /**
@@ -182,53 +265,3 @@ export const SLOT_AI_MODELS = {
   REASONING: '@cf/qwen/qwq-32b-preview', // Complex reasoning
   MULTIMODAL: '@cf/meta/llama-4-scout-17b-16e-instruct', // Multimodal MoE (2025)
 } as const;
-
-/**
- * Helper: Check if slot is required for Manchester triage
- */
-export function isRequiredSlot(slotId: string): boolean {
-  const requiredSlots = [
-    'chief_complaint',
-    'systolic_bp',
-    'diastolic_bp',
-    'heart_rate',
-    'consciousness_level',
-    'respiratory_rate',
-    'temperature',
-    'oxygen_saturation'
-  ];
-
-  return requiredSlots.includes(slotId);
-}
-
-/**
- * Helper: Get slot display name
- */
-export function getSlotDisplayName(slotId: string): string {
-  const displayNames: Record<string, string> = {
-    chief_complaint: 'Queixa Principal',
-    pain_score: 'Intensidade da Dor',
-    symptom_duration: 'Duração dos Sintomas',
-    symptom_onset: 'Início dos Sintomas',
-    aggravating_factors: 'Fatores Agravantes',
-    alleviating_factors: 'Fatores Atenuantes',
-    associated_symptoms: 'Sintomas Associados',
-    bleeding_present: 'Presença de Hemorragia',
-    bleeding_severity: 'Gravidade da Hemorragia',
-    systolic_bp: 'Pressão Arterial Sistólica',
-    diastolic_bp: 'Pressão Arterial Diastólica',
-    heart_rate: 'Frequência Cardíaca',
-    consciousness_level: 'Nível de Consciência',
-    respiratory_rate: 'Frequência Respiratória',
-    trauma_mechanism: 'Mecanismo de Trauma',
-    temperature: 'Temperatura',
-    oxygen_saturation: 'Saturação de Oxigênio',
-    capillary_glucose: 'Glicemia Capilar',
-    pain_location: 'Localização da Dor',
-    previous_medical_history: 'Histórico Médico Prévio',
-    medications_in_use: 'Medicações em Uso',
-    allergy_history: 'Histórico de Alergias'
-  };
-
-  return displayNames[slotId] || slotId;
-}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { loadManchesterSPProtocol } from '@voither/pir-schema';
+import { SlotPlausibilityValidator } from './slot-plausibility';
+
+const PIR = loadManchesterSPProtocol();
+const validator = new SlotPlausibilityValidator(new Map(PIR.slots.map((slot) => [slot.slot_id, slot])));
+
+const check = (slotId: string, value: unknown, slotState: Record<string, unknown> = {}, ageYears?: number) =>
+  validator.check(slotId, value, { slot_state: slotState, age_years: ageYears });
+
+describe('SlotPlausibilityValidator', () => {
+  it('accepts values inside the PIR ranges', () => {
+    expect(check('heart_rate', 88)).toEqual({ plausible: true, issues: [] });
+    expect(check('blood_pressure', { systolic: 120, diastolic: 80 }).plausible).toBe(true);
+  });
+
+  it('ignores empty values and slots outside the PIR', () => {
+    expect(check('heart_rate', null).plausible).toBe(true);
+    expect(check('slot_inexistente', 999).plausible).toBe(true);
+  });
+
+  it('asks to confirm values outside the range', () => {
+    const result = check('heart_rate', 300);
+    expect(result.issues).toEqual([{ code: 'out_of_range', message: '300 outside 20–250' }]);
+    expect(result.confirmation_question).toBe('O valor parece fora do esperado. Só para confirmar: frequência cardíaca de 300 bpm, correto?');
+  });
+
+  it('uses pediatric ranges when the age is known', () => {
+    expect(check('heart_rate', 240).plausible).toBe(true);
+    expect(check('heart_rate', 240, {}, 0.5).issues).toEqual([{ code: 'out_of_range', message: '240 outside 60–230 for age 0.5' }]);
+  });
+
+  it('suggests the converted value for a suspected unit', () => {
+    expect(check('blood_pressure', { systolic: 12, diastolic: 8 })).toMatchObject({
+      plausible: false,
+      issues: [expect.objectContaining({ code: 'unit_suspected', message: 'Value looks like cmHg' }), expect.anything(), expect.anything()],
+      suggested_value: { systolic: 120, diastolic: 80 },
+      confirmation_question: 'Só para confirmar: pressão arterial de 120 por 80 mmHg, correto?',
+    });
+    expect(check('temperature', 101.3).suggested_value).toBe(38.5);
+    expect(check('oxygen_saturation', 0.94).suggested_value).toBe(94);
+  });
+
+  it('checks enum options and text length', () => {
+    expect(check('consciousness_level', 'sonolento').issues).toContainEqual(expect.objectContaining({ code: 'invalid_option' }));
+    expect(check('chief_complaint', 'ai').issues).toEqual([{ code: 'length', message: 'Shorter than 3 characters' }]);
+  });
+
+  it('applies cross-slot rules', () => {
+    expect(check('blood_pressure', { systolic: 90, diastolic: 110 }).issues).toEqual([
+      { code: 'cross_slot', field: 'diastolic', message: 'Diastolic pressure must be lower than systolic' },
+    ]);
+    expect(check('pregnancy_status', 'pregnant', { sex: 'male' }).confirmation_question).toBe(
+      'Só para confirmar: a paciente está grávida? O sexo registrado é masculino.'
+    );
+  });
+
+  it('holds values collected while the PIR condition is false', () => {
+    const result = check('bleeding_severity', 'controllable', { bleeding_present: false });
+    expect(result.issues).toEqual([{ code: 'condition_unmet', message: 'Collected while "bleeding_present == true" is false' }]);
+    expect(result.confirmation_question).toBe('Só para confirmar: o paciente está sangrando?');
+
+    expect(check('bleeding_severity', 'controllable').plausible).toBe(true); // Condição desconhecida não bloqueia
+  });
+});
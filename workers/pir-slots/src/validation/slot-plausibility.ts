@@ -0,0 +1,266 @@
+/**
+ * PIR Slot Plausibility - Validação clínica de valores extraídos
+ *
+ * Antes de um valor automático (regex, LLM, dispositivo) virar estado do slot:
+ * - Faixas do PIR da sessão (`validation`: min/max, min_length/max_length, campos de slots object)
+ * - Faixas pediátricas quando a idade do paciente é conhecida (substituem as do PIR, que são de adulto)
+ * - Opções de slots enum
+ * - Unidade suspeita ("pressão 18 por 12" em cmHg, temperatura em °F, SpO2 como fração)
+ * - Regras entre slots (diastólica < sistólica, `condition` do PIR falsa)
+ *
+ * Valor implausível não é descartado nem aceito: fica `needs_confirmation`
+ * com uma pergunta de confirmação dirigida (e o valor convertido sugerido, se houver).
+ */
+
+import { evaluateConditionTristate, type PIRNumericRange, type PIRSlot } from '@voither/pir-schema';
+
+export type PlausibilityIssueCode =
+  | 'out_of_range'
+  | 'length'
+  | 'invalid_option'
+  | 'unit_suspected'
+  | 'cross_slot'
+  | 'condition_unmet';
+
+export interface PlausibilityIssue {
+  code: PlausibilityIssueCode;
+  field?: string; // Campo de slot object (blood_pressure.systolic)
+  message: string;
+}
+
+export interface PlausibilityResult {
+  plausible: boolean;
+  issues: PlausibilityIssue[];
+  suggested_value?: unknown; // Valor após conversão de unidade suspeita
+  confirmation_question?: string;
+}
+
+export interface PlausibilityContext {
+  slot_state: Record<string, unknown>;
+  age_years?: number;
+}
+
+/**
+ * Faixas pediátricas (o PIR de referência traz faixas de adulto)
+ * Limites de plausibilidade (valor provavelmente mal ouvido), não de classificação.
+ */
+const PEDIATRIC_RANGES: Record<string, Array<{ max_age_years: number; range: PIRNumericRange }>> = {
+  heart_rate: [
+    { max_age_years: 1, range: { min: 60, max: 230 } },
+    { max_age_years: 12, range: { min: 40, max: 220 } },
+  ],
+  respiratory_rate: [
+    { max_age_years: 1, range: { min: 10, max: 90 } },
+    { max_age_years: 12, range: { min: 8, max: 70 } },
+  ],
+  'blood_pressure.systolic': [
+    { max_age_years: 1, range: { min: 40, max: 150 } },
+    { max_age_years: 12, range: { min: 50, max: 180 } },
+  ],
+  'blood_pressure.diastolic': [
+    { max_age_years: 1, range: { min: 20, max: 100 } },
+    { max_age_years: 12, range: { min: 25, max: 120 } },
+  ],
+};
+
+/**
+ * Conversões de unidade suspeita por slot: valor fora da faixa que, convertido, fica dentro dela
+ */
+const UNIT_CONVERSIONS: Record<string, { applies: (value: any) => boolean; convert: (value: any) => unknown; from: string }> = {
+  // "12 por 8", "18 por 12": leitura em cmHg
+  blood_pressure: {
+    applies: (value) => value?.systolic < 30 && value?.diastolic < 30,
+    convert: (value) => ({ ...value, systolic: value.systolic * 10, diastolic: value.diastolic * 10 }),
+    from: 'cmHg',
+  },
+  temperature: {
+    applies: (value) => value >= 89 && value <= 113,
+    convert: (value) => Math.round(((value - 32) * 5) / 9 * 10) / 10,
+    from: '°F',
+  },
+  oxygen_saturation: {
+    applies: (value) => value > 0 && value <= 1,
+    convert: (value) => Math.round(value * 100),
+    from: 'fraction',
+  },
+  glucose_level: {
+    applies: (value) => value > 1 && value < 35 && !Number.isInteger(value),
+    convert: (value) => Math.round(value * 18),
+    from: 'mmol/L',
+  },
+  // "altura 1,75" registrada como cm
+  height: {
+    applies: (value) => value >= 0.3 && value <= 2.5,
+    convert: (value) => Math.round(value * 100),
+    from: 'm',
+  },
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  celsius: '°C',
+  percent: '%',
+  years: 'anos',
+  weeks: 'semanas',
+};
+
+/**
+ * Regras entre campos/slots além das faixas do PIR
+ */
+const CROSS_SLOT_RULES: Array<{ slot_id: string; check: (value: any, context: PlausibilityContext) => PlausibilityIssue | null }> = [
+  {
+    slot_id: 'blood_pressure',
+    check: (value) =>
+      typeof value?.systolic === 'number' && typeof value?.diastolic === 'number' && value.diastolic >= value.systolic
+        ? { code: 'cross_slot', field: 'diastolic', message: 'Diastolic pressure must be lower than systolic' }
+        : null,
+  },
+  {
+    slot_id: 'pregnancy_status',
+    check: (value, context) =>
+      (value === 'pregnant' || value === 'possible') && context.slot_state.sex === 'male'
+        ? { code: 'cross_slot', message: 'Pregnancy recorded for a male patient' }
+        : null,
+  },
+];
+
+export class SlotPlausibilityValidator {
+  constructor(private slots: Map<string, PIRSlot>) {}
+
+  check(slotId: string, value: unknown, context: PlausibilityContext): PlausibilityResult {
+    const slot = this.slots.get(slotId);
+    if (!slot || value === null || value === undefined) return { plausible: true, issues: [] };
+
+    const issues = this.collectIssues(slot, value, context);
+    if (issues.length === 0) return { plausible: true, issues };
+
+    // Unidade suspeita: sugere a conversão se o valor convertido passar em tudo
+    const conversion = UNIT_CONVERSIONS[slotId];
+    if (conversion?.applies(value)) {
+      const converted = conversion.convert(value);
+      if (this.collectIssues(slot, converted, context).length === 0) {
+        issues.unshift({ code: 'unit_suspected', message: `Value looks like ${conversion.from}` });
+        return {
+          plausible: false,
+          issues,
+          suggested_value: converted,
+          confirmation_question: `Só para confirmar: ${this.describe(slot, converted)}, correto?`,
+        };
+      }
+    }
+
+    return {
+      plausible: false,
+      issues,
+      confirmation_question: this.confirmationQuestion(slot, value, issues),
+    };
+  }
+
+  private collectIssues(slot: PIRSlot, value: any, context: PlausibilityContext): PlausibilityIssue[] {
+    const issues: PlausibilityIssue[] = [];
+    const validation = slot.validation;
+
+    if (typeof value === 'number') {
+      const issue = this.checkRange(slot.slot_id, value, validation, context);
+      if (issue) issues.push(issue);
+    }
+
+    if (typeof value === 'string') {
+      if (slot.options?.length && !slot.options.includes(value)) {
+        issues.push({ code: 'invalid_option', message: `"${value}" is not one of ${slot.options.join(', ')}` });
+      }
+      if (validation?.min_length !== undefined && value.length < validation.min_length) {
+        issues.push({ code: 'length', message: `Shorter than ${validation.min_length} characters` });
+      }
+      if (validation?.max_length !== undefined && value.length > validation.max_length) {
+        issues.push({ code: 'length', message: `Longer than ${validation.max_length} characters` });
+      }
+    }
+
+    // Slots object: faixa por campo (validation.systolic = { min, max })
+    if (slot.structure && value && typeof value === 'object') {
+      for (const field of Object.keys(slot.structure)) {
+        const fieldValue = value[field];
+        const fieldRange = validation?.[field];
+        if (typeof fieldValue !== 'number') continue;
+
+        const issue = this.checkRange(
+          `${slot.slot_id}.${field}`,
+          fieldValue,
+          typeof fieldRange === 'object' ? fieldRange : undefined,
+          context
+        );
+        if (issue) issues.push({ ...issue, field });
+      }
+    }
+
+    for (const rule of CROSS_SLOT_RULES) {
+      if (rule.slot_id !== slot.slot_id) continue;
+      const issue = rule.check(value, context);
+      if (issue) issues.push(issue);
+    }
+
+    // Slot coletado com a condição do PIR explicitamente falsa (gravidade de sangramento sem sangramento)
+    if (slot.condition) {
+      let satisfied: boolean | null = null;
+      try {
+        satisfied = evaluateConditionTristate(slot.condition, context.slot_state);
+      } catch {
+        satisfied = null;
+      }
+      if (satisfied === false) {
+        issues.push({ code: 'condition_unmet', message: `Collected while "${slot.condition}" is false` });
+      }
+    }
+
+    return issues;
+  }
+
+  private checkRange(
+    path: string,
+    value: number,
+    pirRange: PIRNumericRange | undefined,
+    context: PlausibilityContext
+  ): PlausibilityIssue | null {
+    const pediatric =
+      context.age_years !== undefined
+        ? PEDIATRIC_RANGES[path]?.find((band) => context.age_years! < band.max_age_years)
+        : undefined;
+    const range = pediatric?.range ?? pirRange;
+    if (!range) return null;
+
+    if ((range.min !== undefined && value < range.min) || (range.max !== undefined && value > range.max)) {
+      const scope = pediatric ? ` for age ${context.age_years}` : '';
+      return { code: 'out_of_range', message: `${value} outside ${range.min ?? '-∞'}–${range.max ?? '∞'}${scope}` };
+    }
+    return null;
+  }
+
+  private confirmationQuestion(slot: PIRSlot, value: unknown, issues: PlausibilityIssue[]): string {
+    if (issues.some((issue) => issue.code === 'condition_unmet') && slot.slot_id === 'bleeding_severity') {
+      return 'Só para confirmar: o paciente está sangrando?';
+    }
+    if (issues.some((issue) => issue.code === 'cross_slot') && slot.slot_id === 'pregnancy_status') {
+      return 'Só para confirmar: a paciente está grávida? O sexo registrado é masculino.';
+    }
+    return `O valor parece fora do esperado. Só para confirmar: ${this.describe(slot, value)}, correto?`;
+  }
+
+  /**
+   * "pressão arterial de 180 por 120 mmHg"
+   */
+  private describe(slot: PIRSlot, value: any): string {
+    const unit = slot.unit ? ` ${UNIT_LABELS[slot.unit] ?? slot.unit}` : '';
+    const formatted =
+      slot.slot_id === 'blood_pressure'
+        ? `${value.systolic} por ${value.diastolic}`
+        : typeof value === 'boolean'
+          ? value
+            ? 'sim'
+            : 'não'
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value);
+
+    return `${slot.name.toLowerCase()} de ${formatted}${unit}`;
+  }
+}
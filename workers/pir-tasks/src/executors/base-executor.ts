@@ -6,14 +6,8 @@
  */
 
 import { Ai } from '@cloudflare/ai';
-import type {
-  Task,
-  TaskContext,
-  TaskResult,
-  TaskStatus,
-  ExecutorConfig,
-  DEFAULT_EXECUTOR_CONFIG,
-} from '../types/tasks';
+import { evaluateCondition } from '@voither/pir-schema';
+import { DEFAULT_EXECUTOR_CONFIG, type Task, type TaskContext, type TaskResult, type TaskStatus, type ExecutorConfig } from '../types/tasks';
 
 /**
  * Classe base abstrata para todos os executors
@@ -101,64 +95,13 @@ export abstract class BaseTaskExecutor {
   }
 
   /**
-   * Avalia condição de execução
+   * Avalia condição de execução (linguagem de condições do PIR)
+   * Dados insuficientes (null) contam como condição não atendida
    */
   protected evaluateCondition(condition: string, context: TaskContext): boolean {
     try {
       const { slot_state, task_outputs } = context;
-      const allData = { ...slot_state, ...task_outputs };
-
-      // CONTAINS operator
-      if (condition.includes(' CONTAINS ')) {
-        const match = condition.match(/(\w+)\s+CONTAINS\s+'([^']+)'/);
-        if (match) {
-          const [, key, value] = match;
-          const actual = allData[key];
-          return typeof actual === 'string' && actual.includes(value);
-        }
-      }
-
-      // IN operator: "flowchart IN ['dor_toracica', 'dispneia']"
-      if (condition.includes(' IN ')) {
-        const match = condition.match(/(\w+)\s+IN\s+\[([^\]]+)\]/);
-        if (match) {
-          const [, key, arrayStr] = match;
-          const value = allData[key];
-          const array = arrayStr.split(',').map(s => s.trim().replace(/['"]/g, ''));
-          return array.includes(value);
-        }
-      }
-
-      // Equality: "flowchart == 'dor_toracica'"
-      if (condition.includes(' == ')) {
-        const [left, right] = condition.split(' == ').map(s => s.trim());
-        const leftValue = allData[left];
-        const rightValue = right.replace(/['"]/g, '');
-        return leftValue == rightValue;
-      }
-
-      // Inequality
-      if (condition.includes(' != ')) {
-        const [left, right] = condition.split(' != ').map(s => s.trim());
-        const leftValue = allData[left];
-        const rightValue = right.replace(/['"]/g, '');
-        return leftValue != rightValue;
-      }
-
-      // AND
-      if (condition.includes(' AND ')) {
-        const conditions = condition.split(' AND ');
-        return conditions.every(cond => this.evaluateCondition(cond.trim(), context));
-      }
-
-      // OR
-      if (condition.includes(' OR ')) {
-        const conditions = condition.split(' OR ');
-        return conditions.some(cond => this.evaluateCondition(cond.trim(), context));
-      }
-
-      // Default: check if variable exists and is truthy
-      return Boolean(allData[condition]);
+      return evaluateCondition(condition, { ...slot_state, ...task_outputs });
     } catch (error) {
       console.error(`Failed to evaluate condition "${condition}":`, error);
       return false;
@@ -171,8 +114,18 @@ export abstract class BaseTaskExecutor {
   protected validateInputs(context: TaskContext): string[] {
     const missing: string[] = [];
 
+    // Inputs do PIR podem referenciar dados da sessão, não só slots/outputs
+    const sessionInputs: Record<string, unknown> = {
+      session_id: context.session_id,
+      patient_id: context.patient_id,
+      nurse_identifier: context.nurse_identifier,
+      arrival_time: context.arrival_time,
+      timestamp: context.timestamp,
+      all_collected_slots: context.slot_state,
+    };
+
     for (const input of this.task.inputs) {
-      const value = context.slot_state[input] || context.task_outputs[input];
+      const value = context.slot_state[input] || context.task_outputs[input] || sessionInputs[input];
       if (value === undefined || value === null) {
         missing.push(input);
       }
@@ -268,14 +221,16 @@ export abstract class BaseTaskExecutor {
 
     messages.push({ role: 'user', content: prompt });
 
-    const model = this.task.execution.model || this.config.model;
+    // PIR pode declarar modelos fora do Workers AI (ex: claude-3-haiku): só ids @cf/ sobrescrevem o executor
+    const pirModel = this.task.execution.model;
+    const model = pirModel && pirModel.startsWith('@cf/') ? pirModel : this.config.model;
     const maxTokens = this.task.execution.max_tokens || this.config.max_tokens;
 
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < this.config.max_retries; attempt++) {
       try {
-        const response = await this.ai.run(model, {
+        const response = await this.ai.run(model as any, {
           messages,
           temperature: this.config.temperature,
           max_tokens: maxTokens,
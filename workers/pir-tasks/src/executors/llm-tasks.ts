@@ -5,6 +5,14 @@
  * Cada task é um agente especializado que processa dados dos slots
  */
 
+import {
+  VitalSignClassifier,
+  isPediatricThresholdSet,
+  priorityRank,
+  type PIRDocument,
+  type VitalBandMatch,
+  type VitalSignClassification,
+} from '@voither/pir-schema';
 import { LLMReasoningExecutor } from './base-executor';
 import type { Task, TaskContext, WORKERS_AI_MODELS } from '../types/tasks';
 
@@ -13,28 +21,8 @@ import type { Task, TaskContext, WORKERS_AI_MODELS } from '../types/tasks';
 // =============================================================================
 
 export class InitialTriageAssessmentExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'initial_triage_assessment',
-      name: 'Avaliação Inicial de Triagem',
-      type: 'llm_reasoning',
-      description: 'Interpreta queixa + sinais vitais para sugerir discriminadores e fluxograma',
-      execution: {
-        local: true,
-        sync: false,
-        timeout: '5m',
-        model: '@cf/qwen/qwq-32b-preview', // Reasoning model
-        max_tokens: 800,
-      },
-      inputs: ['chief_complaint', 'temperature', 'heart_rate', 'blood_pressure', 'oxygen_saturation', 'consciousness_level'],
-      outputs: ['initial_discriminators', 'suggested_flowchart'],
-      fallback: {
-        on_timeout: 'escalate_to_nurse',
-        on_error: 'manual_triage',
-      },
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/qwen/qwq-32b-preview', max_tokens: 800 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -106,26 +94,8 @@ Retorne JSON estruturado:
 // =============================================================================
 
 export class FlowchartSelectionExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'flowchart_selection',
-      name: 'Seleção do Fluxograma Apropriado',
-      type: 'llm_reasoning',
-      description: 'Determina qual dos 52 fluxogramas Manchester aplicar',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', // DeepSeek para reasoning
-        max_tokens: 600,
-      },
-      inputs: ['chief_complaint', 'initial_discriminators'],
-      outputs: ['selected_flowchart', 'reasoning'],
-      fallback: {
-        on_error: 'default_to_indisposicao_adulto',
-      },
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -205,33 +175,77 @@ Retorne JSON:
 // TASK 3: Apply General Discriminators
 // =============================================================================
 
+/**
+ * Discriminador geral correspondente a cada slot com faixas no PIR
+ */
+const VITAL_SIGN_DISCRIMINATORS: Record<string, string> = {
+  consciousness_level: 'consciencia',
+  pain_score: 'dor_severa',
+  bleeding_severity: 'hemorragia',
+  temperature: 'temperatura',
+  pediatric_warning_score: 'alerta_pediatrico',
+};
+
+/**
+ * Idade e conjunto de thresholds aplicado, para o prompt
+ */
+function describeThresholdSet(vitalSigns: VitalSignClassification): string {
+  if (!isPediatricThresholdSet(vitalSigns.threshold_set)) {
+    return vitalSigns.age_years === null ? 'adulto (idade não informada)' : `adulto (${vitalSigns.age_years} anos)`;
+  }
+
+  const age = vitalSigns.age_years!;
+  const described = age < 1 ? `${Math.round(age * 12)} meses` : `${Math.floor(age)} anos`;
+  const warning = vitalSigns.pediatric_warning;
+  return `pediátrico ${vitalSigns.threshold_set} (${described})${warning ? `, escore de alerta pediátrico ${warning.total}/9` : ''}`;
+}
+
 export class ApplyGeneralDiscriminatorsExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'apply_general_discriminators',
-      name: 'Aplicar Discriminadores Gerais',
-      type: 'llm_reasoning',
-      description: 'Avalia discriminadores gerais do Manchester: risco de morte, dor, hemorragia, consciência',
-      execution: {
-        local: true,
-        sync: false,
-        timeout: '2m',
-        model: '@cf/qwen/qwq-32b-preview',
-        max_tokens: 800,
-      },
-      inputs: ['consciousness_level', 'pain_score', 'bleeding_present', 'bleeding_severity', 'temperature', 'oxygen_saturation', 'symptom_onset'],
-      outputs: ['general_discriminator_score', 'highest_priority_discriminator'],
-    };
+  private vitalSigns: VitalSignClassifier;
 
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task, pir: PIRDocument) {
+    super(aiBinding, task, { model: '@cf/qwen/qwq-32b-preview', max_tokens: 800 });
+    this.vitalSigns = new VitalSignClassifier(pir);
+  }
+
+  /**
+   * Faixa de sinal vital (classification_thresholds do PIR) como discriminador
+   */
+  private toDiscriminator(match: VitalBandMatch): Record<string, any> {
+    return {
+      discriminator: match.priority === 'EMERGENT' ? 'risco_de_morte' : VITAL_SIGN_DISCRIMINATORS[match.slot_id] || 'sinais_vitais',
+      priority: match.priority,
+      details: `${match.slot_id} = ${JSON.stringify(match.value)} (${match.band}: ${match.rule})`,
+      source: 'pir_thresholds',
+    };
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
     const slots = context.slot_state;
 
+    // Critérios de sinais vitais são determinísticos (nunca decididos pelo LLM)
+    const vitalSigns = this.vitalSigns.classify(slots);
+    const vitalDiscriminators = vitalSigns.bands.filter((match) => match.priority).map((match) => this.toDiscriminator(match));
+
+    // Vermelho por sinal vital: nada pode superar, LLM é dispensável
+    if (vitalSigns.highest?.priority === 'EMERGENT') {
+      return {
+        general_discriminator_score: vitalDiscriminators,
+        highest_priority_discriminator: {
+          ...this.toDiscriminator(vitalSigns.highest),
+          reasoning: `Critério de sinal vital do PIR: ${vitalSigns.highest.band} (${vitalSigns.highest.rule})`,
+        },
+        vital_sign_bands: vitalSigns,
+        threshold_set: vitalSigns.threshold_set,
+      };
+    }
+
+    const pediatric = isPediatricThresholdSet(vitalSigns.threshold_set);
+
     const prompt = `APLICAÇÃO DE DISCRIMINADORES GERAIS - PROTOCOLO MANCHESTER
 
 Dados Clínicos:
+• Faixas de sinais vitais: ${describeThresholdSet(vitalSigns)}
 • Consciência: ${slots.consciousness_level}
 • Dor (0-10): ${slots.pain_score !== null ? slots.pain_score : 'não avaliada'}
 • Sangramento: ${slots.bleeding_present ? 'Sim - ' + (slots.bleeding_severity || 'não especificado') : 'Não'}
@@ -267,6 +281,20 @@ DISCRIMINADORES GERAIS (ordem de prioridade decrescente):
 6. AGRAVAMENTO RECENTE (URGENT):
    - Piora súbita nas últimas horas
    - Sintomas novos graves
+${
+  pediatric
+    ? `
+7. CRIANÇA (discriminadores pediátricos):
+   - Febre em lactente < 3 meses (VERY_URGENT)
+   - Criança "mole", hipotônica ou que não reage aos pais = consciência alterada (VERY_URGENT)
+   - Choro inconsolável ou irritabilidade persistente (URGENT)
+   - Sinais de desidratação: sem urina há horas, não aceita líquidos (URGENT)
+   - Relato do cuidador vale como dado clínico; FC/FR normais dependem da idade
+`
+    : ''
+}
+DISCRIMINADORES DE SINAIS VITAIS JÁ DETERMINADOS PELO PROTOCOLO (não reavaliar):
+${vitalDiscriminators.length > 0 ? vitalDiscriminators.map((d) => `• ${d.discriminator} (${d.priority}): ${d.details}`).join('\n') : '• nenhum'}
 
 TAREFA: Identifique TODOS os discriminadores gerais presentes e determine a MAIOR prioridade.
 
@@ -274,7 +302,7 @@ Retorne JSON:
 {
   "general_discriminator_score": [
     {
-      "discriminator": "risco_de_morte|dor_severa|hemorragia|consciencia|temperatura|agravamento",
+      "discriminator": "risco_de_morte|dor_severa|hemorragia|consciencia|temperatura|agravamento${pediatric ? '|crianca' : ''}",
       "priority": "EMERGENT|VERY_URGENT|URGENT|LESS_URGENT",
       "details": "especificação do discriminador encontrado"
     }
@@ -289,9 +317,34 @@ Retorne JSON:
     const response = await this.callLLM(prompt, this.systemPrompt);
     const parsed = this.parseJSON(response);
 
+    return this.mergeVitalSigns(parsed, vitalSigns, vitalDiscriminators);
+  }
+
+  /**
+   * Combina resposta do LLM com faixas determinísticas: o LLM pode acrescentar
+   * discriminadores, mas nunca rebaixar a prioridade de um sinal vital
+   */
+  private mergeVitalSigns(
+    parsed: Record<string, any>,
+    vitalSigns: VitalSignClassification,
+    vitalDiscriminators: Record<string, any>[]
+  ): Record<string, any> {
+    const llmScores: Record<string, any>[] = parsed.general_discriminator_score || [];
+    const llmHighest = parsed.highest_priority_discriminator || null;
+
+    let highest = llmHighest;
+    if (vitalSigns.highest?.priority && priorityRank(vitalSigns.highest.priority) <= priorityRank(llmHighest?.priority ?? null)) {
+      highest = {
+        ...this.toDiscriminator(vitalSigns.highest),
+        reasoning: `Critério de sinal vital do PIR: ${vitalSigns.highest.band} (${vitalSigns.highest.rule})`,
+      };
+    }
+
     return {
-      general_discriminator_score: parsed.general_discriminator_score || [],
-      highest_priority_discriminator: parsed.highest_priority_discriminator || null,
+      general_discriminator_score: [...vitalDiscriminators, ...llmScores],
+      highest_priority_discriminator: highest,
+      vital_sign_bands: vitalSigns,
+      threshold_set: vitalSigns.threshold_set,
     };
   }
 }
@@ -301,24 +354,8 @@ Retorne JSON:
 // =============================================================================
 
 export class ApplySpecificDiscriminatorsExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'apply_specific_discriminators',
-      name: 'Aplicar Discriminadores Específicos',
-      type: 'llm_reasoning',
-      description: 'Avalia discriminadores específicos do fluxograma selecionado',
-      execution: {
-        local: true,
-        sync: false,
-        timeout: '3m',
-        model: '@cf/deepseek/deepseek-r1-distill-qwen-32b',
-        max_tokens: 1000,
-      },
-      inputs: ['selected_flowchart', 'all_collected_slots'],
-      outputs: ['specific_discriminator_matches', 'flowchart_priority'],
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', max_tokens: 1000 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -452,24 +489,8 @@ VERY_URGENT:
 // =============================================================================
 
 export class PriorityClassificationExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'priority_classification',
-      name: 'Classificação de Prioridade Final',
-      type: 'llm_reasoning',
-      description: 'Determina a categoria de prioridade final (vermelho/laranja/amarelo/verde/azul)',
-      execution: {
-        local: true,
-        sync: false,
-        timeout: '1m',
-        model: '@cf/qwen/qwq-32b-preview',
-        max_tokens: 600,
-      },
-      inputs: ['general_discriminator_score', 'specific_discriminator_matches'],
-      outputs: ['final_priority_color', 'final_priority_time', 'classification_reasoning'],
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/qwen/qwq-32b-preview', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -489,6 +510,8 @@ ${JSON.stringify(outputs.specific_discriminator_matches, null, 2)}
 Discriminador Específico de Maior Prioridade:
 ${JSON.stringify(outputs.flowchart_priority, null, 2)}
 
+Faixas de sinais vitais aplicadas: ${outputs.threshold_set || 'adult'}
+
 CATEGORIAS MANCHESTER (Portaria SMS 82/2024):
 
 🔴 VERMELHO (Emergente):
@@ -546,25 +569,8 @@ Retorne JSON:
 // =============================================================================
 
 export class ActivatePriorityFlowChestPainExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'activate_priority_flow_chest_pain',
-      name: 'Ativar Protocolo Prioritário - Dor Torácica',
-      type: 'llm_reasoning',
-      description: 'Decide se ativa protocolo de dor torácica (ECG, troponina, cardiologia)',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/deepseek/deepseek-r1-distill-qwen-32b',
-        max_tokens: 600,
-        distributed_nodes: ['ecg_team', 'cardiology_on_call', 'lab_urgent'],
-      },
-      inputs: ['patient_id', 'classification_time', 'chest_pain_characteristics'],
-      outputs: ['ecg_scheduled', 'cardiology_alerted', 'troponin_ordered'],
-      condition: "selected_flowchart == 'dor_toracica' AND final_priority_color IN ['vermelho', 'laranja']",
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -684,25 +690,8 @@ Retorne JSON:
 // =============================================================================
 
 export class ActivatePriorityFlowStrokeExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'activate_priority_flow_stroke',
-      name: 'Ativar Protocolo Prioritário - AVC',
-      type: 'llm_reasoning',
-      description: 'Decide se ativa protocolo AVC (janela terapêutica 4.5h)',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/deepseek/deepseek-r1-distill-qwen-32b',
-        max_tokens: 600,
-        distributed_nodes: ['neurology_stroke_team', 'ct_scan_urgent'],
-      },
-      inputs: ['patient_id', 'neurological_deficit', 'symptom_onset'],
-      outputs: ['stroke_protocol_activated', 'ct_scheduled', 'neurology_alerted', 'thrombolysis_eligible'],
-      condition: "selected_flowchart == 'avc' AND neurological_deficit.present == true",
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -822,25 +811,8 @@ Retorne JSON:
 // =============================================================================
 
 export class ActivatePriorityFlowSepsisExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'activate_priority_flow_sepsis',
-      name: 'Ativar Protocolo Prioritário - Sepse',
-      type: 'llm_reasoning',
-      description: 'Decide se ativa protocolo sepse (bundle 1h)',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/qwen/qwq-32b-preview',
-        max_tokens: 700,
-        distributed_nodes: ['intensive_care', 'lab_urgent', 'pharmacy_sepsis'],
-      },
-      inputs: ['patient_id', 'sepsis_criteria', 'temperature', 'blood_pressure'],
-      outputs: ['sepsis_protocol_activated', 'bundle_1h_initiated', 'intensive_care_alerted'],
-      condition: 'sepsis_criteria.qSOFA_score >= 2 AND sepsis_criteria.infection_suspected == true',
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/qwen/qwq-32b-preview', max_tokens: 700 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -957,25 +929,8 @@ Retorne JSON:
 // =============================================================================
 
 export class ActivatePriorityFlowTraumaExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'activate_priority_flow_trauma',
-      name: 'Ativar Protocolo Prioritário - Trauma',
-      type: 'llm_reasoning',
-      description: 'Decide se ativa protocolo trauma (ATLS)',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/deepseek/deepseek-r1-distill-qwen-32b',
-        max_tokens: 600,
-        distributed_nodes: ['trauma_team', 'surgery_on_call', 'radiology_trauma'],
-      },
-      inputs: ['patient_id', 'trauma_mechanism', 'bleeding_present', 'consciousness_level'],
-      outputs: ['trauma_protocol_activated', 'trauma_team_alerted', 'surgery_consulted'],
-      condition: "selected_flowchart == 'trauma' AND final_priority_color IN ['vermelho', 'laranja']",
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/deepseek/deepseek-r1-distill-qwen-32b', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -1092,24 +1047,8 @@ Retorne JSON:
 // =============================================================================
 
 export class QueueManagementExecutor extends LLMReasoningExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'queue_management',
-      name: 'Gestão de Fila',
-      type: 'llm_reasoning',
-      description: 'Decide posição na fila e tempo estimado de espera',
-      execution: {
-        local: true,
-        sync: false,
-        model: '@cf/qwen/qwq-32b-preview',
-        max_tokens: 600,
-        distributed_nodes: ['queue_system', 'physician_panel'],
-      },
-      inputs: ['patient_id', 'final_priority_color', 'final_priority_time', 'arrival_time'],
-      outputs: ['queue_position', 'estimated_wait_time', 'physician_notified'],
-    };
-
-    super(aiBinding, task);
+  constructor(aiBinding: any, task: Task) {
+    super(aiBinding, task, { model: '@cf/qwen/qwq-32b-preview', max_tokens: 600 });
   }
 
   protected async executeTask(context: TaskContext): Promise<Record<string, any>> {
@@ -1192,7 +1131,7 @@ Retorne JSON:
     ];
   }
 
-  private async updateQueueSystem(position: number, patientId: string, priority: string): Promise<void> {
+  private async updateQueueSystem(position: number, patientId: string | undefined, priority: string): Promise<void> {
     console.log(`[QUEUE] Inserting patient ${patientId} at position ${position} (${priority})`);
     // TODO: Atualizar sistema real de fila
   }
@@ -13,20 +13,7 @@ import type { Task, TaskContext } from '../types/tasks';
 // =============================================================================
 
 export class AssignWristbandExecutor extends LocalInferenceExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'assign_wristband',
-      name: 'Atribuir Pulseira de Classificação',
-      type: 'local_inference',
-      description: 'Instrui aplicação da pulseira colorida conforme prioridade',
-      execution: {
-        local: true,
-        sync: true,
-      },
-      inputs: ['final_priority_color'],
-      outputs: ['wristband_instruction', 'patient_identification'],
-    };
-
+  constructor(aiBinding: any, task: Task) {
     super(aiBinding, task);
   }
 
@@ -72,36 +59,7 @@ export class AssignWristbandExecutor extends LocalInferenceExecutor {
 // =============================================================================
 
 export class RecordClassificationExecutor extends APICallExecutor {
-  constructor(aiBinding: any) {
-    const task: Task = {
-      task_id: 'record_classification',
-      name: 'Registrar Classificação no Prontuário',
-      type: 'api_call',
-      description: 'Envia classificação para sistema de prontuário eletrônico',
-      execution: {
-        local: true,
-        sync: true,
-        endpoint: '/api/medical-records/triage',
-        method: 'POST',
-        timeout: '30s',
-      },
-      inputs: [
-        'patient_id',
-        'final_priority_color',
-        'final_priority_time',
-        'classification_reasoning',
-        'nurse_identifier',
-        'timestamp',
-      ],
-      outputs: ['record_id', 'confirmation', 'audit_trail_created'],
-      fallback: {
-        on_timeout: 'retry_later',
-        on_error: 'log_to_backup_system',
-      },
-      required_by_regulation: true,
-      legal_reference: 'Portaria SMS nº 82/2024 - Art. 15',
-    };
-
+  constructor(aiBinding: any, task: Task) {
     super(aiBinding, task);
   }
 
@@ -121,6 +79,7 @@ export class RecordClassificationExecutor extends APICallExecutor {
       priority_time: outputs.final_priority_time,
       manchester_code: outputs.manchester_code,
       classification_reasoning: outputs.classification_reasoning,
+      threshold_set: outputs.threshold_set || 'adult', // adult | pediatric_<faixa etária>
 
       // Discriminadores
       general_discriminators: outputs.general_discriminator_score || [],
@@ -179,7 +138,7 @@ export class RecordClassificationExecutor extends APICallExecutor {
         throw new Error(`API returned ${response.status}: ${response.statusText}`);
       }
 
-      const result = await response.json();
+      const result = await response.json<Record<string, any>>();
 
       return {
         record_id: result.record_id || result.id,
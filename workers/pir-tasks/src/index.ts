@@ -5,10 +5,66 @@
  * Recebe slot_state do pir-slots e executa automação de processos
  */
 
+import {
+  KVProtocolStore,
+  loadManchesterSPProtocol,
+  logBindingReport,
+  ProtocolHotReloader,
+  ProtocolReloadError,
+  SlotRegistry,
+  toVersionRef,
+  type PIRVersionRef,
+  type ResolvedProtocol,
+} from '@voither/pir-schema';
 import { TaskOrchestrator } from './orchestrator/task-orchestrator';
 
 export interface Env {
   AI: any; // Cloudflare Workers AI binding
+  PROTOCOLS_KV: KVNamespace; // Protocol store compartilhado com pir-slots
+}
+
+// PIR validado no carregamento do worker (protocolo divergente = falha no startup)
+const PIR = loadManchesterSPProtocol();
+
+// Protocol store compartilhado: cada sessão executa as definições da versão a que está presa
+let reloader: ProtocolHotReloader | null = null;
+
+function getReloader(env: Env): ProtocolHotReloader {
+  if (!reloader) reloader = new ProtocolHotReloader({ store: new KVProtocolStore(env.PROTOCOLS_KV, null) });
+  return reloader;
+}
+
+async function resolveSessionProtocol(env: Env, sessionId: string, requested?: PIRVersionRef): Promise<ResolvedProtocol> {
+  const reloader = getReloader(env);
+  await reloader.bootstrap(PIR);
+  return reloader.pinSession(sessionId, PIR.protocol_id, requested);
+}
+
+// Orchestrator do PIR embarcado (consultas e health), criado uma vez por isolate
+let bundled: TaskOrchestrator | null = null;
+
+function bundledOrchestrator(env: Env): TaskOrchestrator {
+  return (bundled ??= new TaskOrchestrator(env.AI, PIR));
+}
+
+// Um orchestrator por versão do PIR (content_hash) por isolate: a sessão fica no orchestrator
+// da versão a que está presa, e todas as rotas dela voltam a ele
+const sessionOrchestrators = new Map<string, TaskOrchestrator>();
+
+function sessionOrchestrator(env: Env, protocol: ResolvedProtocol): TaskOrchestrator {
+  let orchestrator = sessionOrchestrators.get(protocol.content_hash);
+  if (!orchestrator) {
+    orchestrator = new TaskOrchestrator(env.AI, protocol.document);
+    logBindingReport(orchestrator.getBindingReport()); // Uma vez por versão
+    sessionOrchestrators.set(protocol.content_hash, orchestrator);
+  }
+  return orchestrator;
+}
+
+// Orchestrator da versão presa a uma sessão (null = sessão sem pin)
+async function pinnedOrchestrator(env: Env, sessionId: string): Promise<TaskOrchestrator | null> {
+  const protocol = await getReloader(env).resolveSession(sessionId);
+  return protocol ? sessionOrchestrator(env, protocol) : null;
 }
 
 /**
@@ -31,13 +87,20 @@ export default {
     }
 
     try {
-      const orchestrator = new TaskOrchestrator(env.AI);
+      const orchestrator = bundledOrchestrator(env);
 
       // ====================================================================
       // POST /api/tasks/execute - Executa todas as 12 tasks
       // ====================================================================
       if (url.pathname === '/api/tasks/execute' && request.method === 'POST') {
-        const body = await request.json();
+        const body = await request.json<{
+          session_id: string;
+          slot_state: Record<string, any>;
+          patient_id?: string;
+          arrival_time?: string;
+          nurse_identifier?: string;
+          protocol?: PIRVersionRef; // Referência devolvida pelo pir-slots no início da triagem
+        }>();
 
         // Valida payload
         if (!body.session_id || !body.slot_state) {
@@ -55,23 +118,28 @@ export default {
 
         console.log(`[WORKER] Starting task execution for session ${body.session_id}`);
 
-        // Inicia sessão
-        const session = orchestrator.startSession(
+        // Definições da versão exata do PIR a que a sessão está presa (referência vinda do pir-slots)
+        const protocol = await resolveSessionProtocol(env, body.session_id, body.protocol);
+        const pinned = sessionOrchestrator(env, protocol);
+
+        // Inicia sessão (slot_state normalizado pelo registro de slots da mesma versão)
+        const session = pinned.startSession(
           body.session_id,
-          body.slot_state,
+          toVersionRef(protocol),
+          SlotRegistry.forDocument(protocol.document).normalize(body.slot_state),
           body.patient_id,
           body.arrival_time,
           body.nurse_identifier
         );
 
         // Executa todas as tasks em paralelo rizomático
-        const result = await orchestrator.executeTasks(body.session_id);
+        const result = await pinned.executeTasks(body.session_id);
 
         return new Response(
           JSON.stringify({
             success: true,
             session: result,
-            progress: orchestrator.getProgress(body.session_id),
+            progress: pinned.getProgress(body.session_id),
             execution_summary: {
               total_tasks: result.task_results.length,
               completed: result.task_results.filter(r => r.status === 'completed').length,
@@ -104,8 +172,9 @@ export default {
           );
         }
 
-        const session = orchestrator.getSession(sessionId);
-        if (!session) {
+        const pinned = await pinnedOrchestrator(env, sessionId);
+        const session = pinned?.getSession(sessionId);
+        if (!pinned || !session) {
           return new Response(
             JSON.stringify({ success: false, error: 'Session not found' }),
             {
@@ -119,7 +188,7 @@ export default {
           JSON.stringify({
             success: true,
             session,
-            progress: orchestrator.getProgress(sessionId),
+            progress: pinned.getProgress(sessionId),
           }),
           {
             status: 200,
@@ -144,8 +213,9 @@ export default {
           );
         }
 
-        const session = orchestrator.getSession(sessionId);
-        if (!session) {
+        const pinned = await pinnedOrchestrator(env, sessionId);
+        const session = pinned?.getSession(sessionId);
+        if (!pinned || !session) {
           return new Response(
             JSON.stringify({ success: false, error: 'Session not found' }),
             {
@@ -160,6 +230,7 @@ export default {
           success: true,
           session_id: session.session_id,
           patient_id: session.patient_id,
+          protocol: session.protocol,
           status: session.status,
           started_at: session.started_at,
 
@@ -233,6 +304,8 @@ export default {
             service: 'pir-tasks-executor',
             version: '1.0.0',
             workers_ai: 'enabled',
+            protocol: { protocol_id: PIR.protocol_id, version: PIR.version },
+            binding: orchestrator.getBindingReport(),
             timestamp: new Date().toISOString(),
           }),
           {
@@ -328,6 +401,17 @@ export default {
         }
       );
     } catch (error) {
+      // Referência de protocolo desconhecida ou divergente da versão presa à sessão
+      if (error instanceof ProtocolReloadError) {
+        return new Response(
+          JSON.stringify({ success: false, error: error.message, reason: error.reason }),
+          {
+            status: error.reason === 'not-found' ? 404 : 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
       console.error('[WORKER] Fatal error:', error);
 
       return new Response(
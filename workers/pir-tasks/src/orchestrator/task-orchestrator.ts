@@ -1,13 +1,15 @@
 /**
  * PIR Task Orchestrator - Manchester SP
  *
- * Orquestra execução paralela rizomática das 12 tasks
+ * Orquestra execução paralela rizomática das tasks definidas no PIR
  * Usa Workers AI para coordenação inteligente de execução
  * Arquitetura não-hierárquica: tasks executam simultaneamente quando condições atendidas
  */
 
 import type { Task, TaskContext, TaskResult, TaskStatus, WORKERS_AI_MODELS } from '../types/tasks';
 import { Ai } from '@cloudflare/ai';
+import { bindExecutors, type PIRBindingReport, type PIRDocument, type PIRVersionRef } from '@voither/pir-schema';
+import type { BaseTaskExecutor } from '../executors/base-executor';
 
 // Import all task executors
 import {
@@ -28,9 +30,29 @@ import {
   RecordClassificationExecutor,
 } from '../executors/operational-tasks';
 
+/**
+ * Registro de executors por task_id
+ * Definições (inputs, condition, timeout, fallback) vêm do PIR; aqui só o código
+ */
+const TASK_EXECUTORS: Record<string, new (aiBinding: any, task: Task, pir: PIRDocument) => BaseTaskExecutor> = {
+  initial_triage_assessment: InitialTriageAssessmentExecutor,
+  flowchart_selection: FlowchartSelectionExecutor,
+  apply_general_discriminators: ApplyGeneralDiscriminatorsExecutor,
+  apply_specific_discriminators: ApplySpecificDiscriminatorsExecutor,
+  priority_classification: PriorityClassificationExecutor,
+  assign_wristband: AssignWristbandExecutor,
+  record_classification: RecordClassificationExecutor,
+  activate_priority_flow_chest_pain: ActivatePriorityFlowChestPainExecutor,
+  activate_priority_flow_stroke: ActivatePriorityFlowStrokeExecutor,
+  activate_priority_flow_sepsis: ActivatePriorityFlowSepsisExecutor,
+  activate_priority_flow_trauma: ActivatePriorityFlowTraumaExecutor,
+  queue_management: QueueManagementExecutor,
+};
+
 export interface TaskExecutionSession {
   session_id: string;
   patient_id?: string;
+  protocol: PIRVersionRef; // Versão exata do PIR cujas definições foram executadas
   started_at: string;
   slot_state: Record<string, any>; // Vem do pir-slots
   task_outputs: Record<string, any>; // Acumula outputs das tasks
@@ -63,27 +85,35 @@ export class TaskOrchestrator {
   private ai: Ai;
   private aiBinding: any;
   private sessions: Map<string, TaskExecutionSession> = new Map();
-  private executors: Map<string, any>;
+  private tasks: Task[];
+  private executors: Map<string, BaseTaskExecutor>;
+  private bindingReport: PIRBindingReport;
 
-  constructor(aiBinding: any) {
+  constructor(aiBinding: any, pir: PIRDocument) {
     this.ai = new Ai(aiBinding);
     this.aiBinding = aiBinding;
 
-    // Registra todos os 12 executors
-    this.executors = new Map([
-      ['initial_triage_assessment', new InitialTriageAssessmentExecutor(aiBinding)],
-      ['flowchart_selection', new FlowchartSelectionExecutor(aiBinding)],
-      ['apply_general_discriminators', new ApplyGeneralDiscriminatorsExecutor(aiBinding)],
-      ['apply_specific_discriminators', new ApplySpecificDiscriminatorsExecutor(aiBinding)],
-      ['priority_classification', new PriorityClassificationExecutor(aiBinding)],
-      ['assign_wristband', new AssignWristbandExecutor(aiBinding)],
-      ['record_classification', new RecordClassificationExecutor(aiBinding)],
-      ['activate_priority_flow_chest_pain', new ActivatePriorityFlowChestPainExecutor(aiBinding)],
-      ['activate_priority_flow_stroke', new ActivatePriorityFlowStrokeExecutor(aiBinding)],
-      ['activate_priority_flow_sepsis', new ActivatePriorityFlowSepsisExecutor(aiBinding)],
-      ['activate_priority_flow_trauma', new ActivatePriorityFlowTraumaExecutor(aiBinding)],
-      ['queue_management', new QueueManagementExecutor(aiBinding)],
-    ]);
+    // Liga cada task do PIR ao seu executor pelo task_id
+    const { executors, report } = bindExecutors<Task, BaseTaskExecutor>({
+      component: 'tasks',
+      document: pir,
+      definitions: pir.tasks,
+      getId: (task) => task.task_id,
+      registry: Object.fromEntries(
+        Object.entries(TASK_EXECUTORS).map(([taskId, Executor]) => [taskId, (task: Task) => new Executor(aiBinding, task, pir)])
+      ),
+    });
+
+    this.tasks = pir.tasks.filter((task) => executors.has(task.task_id));
+    this.executors = executors;
+    this.bindingReport = report;
+  }
+
+  /**
+   * Relatório de binding PIR ↔ executors
+   */
+  getBindingReport(): PIRBindingReport {
+    return this.bindingReport;
   }
 
   /**
@@ -91,6 +121,7 @@ export class TaskOrchestrator {
    */
   startSession(
     sessionId: string,
+    protocol: PIRVersionRef,
     slotState: Record<string, any>,
     patientId?: string,
     arrivalTime?: string,
@@ -99,6 +130,7 @@ export class TaskOrchestrator {
     const session: TaskExecutionSession = {
       session_id: sessionId,
       patient_id: patientId,
+      protocol,
       started_at: new Date().toISOString(),
       slot_state: slotState,
       task_outputs: {},
@@ -197,19 +229,8 @@ export class TaskOrchestrator {
 Dados disponíveis (slots preenchidos):
 ${JSON.stringify(session.slot_state, null, 2)}
 
-12 TASKS DISPONÍVEIS:
-1. initial_triage_assessment - Precisa: chief_complaint, sinais vitais
-2. flowchart_selection - Precisa: chief_complaint, initial_discriminators
-3. apply_general_discriminators - Precisa: sinais vitais, dor, sangramento
-4. apply_specific_discriminators - Precisa: selected_flowchart, todos slots
-5. priority_classification - Precisa: general_discriminators, specific_discriminators
-6. assign_wristband - Precisa: final_priority_color
-7. record_classification - Precisa: classificação completa
-8. activate_priority_flow_chest_pain - Condicional: flowchart=='dor_toracica' AND priority IN ['vermelho','laranja']
-9. activate_priority_flow_stroke - Condicional: flowchart=='avc' AND deficit neurológico
-10. activate_priority_flow_sepsis - Condicional: qSOFA>=2 AND infecção suspeitada
-11. activate_priority_flow_trauma - Condicional: flowchart=='trauma' AND priority crítica
-12. queue_management - Precisa: final_priority_color, final_priority_time
+${this.tasks.length} TASKS DISPONÍVEIS:
+${this.describeTasksForPlanning()}
 
 ARQUITETURA RIZOMÁTICA:
 - Executar tasks em ONDAS PARALELAS
@@ -217,7 +238,7 @@ ARQUITETURA RIZOMÁTICA:
 - Onda 2: Tasks que dependem de outputs da Onda 1
 - Onda 3: Tasks finais
 
-TAREFA: Organize as 12 tasks em ondas de execução paralela máxima.
+TAREFA: Organize as ${this.tasks.length} tasks em ondas de execução paralela máxima.
 
 Retorne JSON:
 {
@@ -231,7 +252,7 @@ Retorne JSON:
 }`;
 
     try {
-      const response = await this.ai.run('@cf/qwen/qwq-32b-preview', {
+      const response = await this.ai.run('@cf/qwen/qwq-32b-preview' as any, {
         messages: [
           {
             role: 'system',
@@ -254,28 +275,71 @@ Retorne JSON:
     } catch (error) {
       console.error('[ORCHESTRATOR] Failed to plan execution with AI, using default:', error);
 
-      // Fallback: ordem padrão conhecida
+      // Fallback: ondas derivadas do fluxo de dados do PIR (inputs ← outputs)
       return {
-        execution_waves: [
-          ['initial_triage_assessment', 'apply_general_discriminators'],
-          ['flowchart_selection'],
-          ['apply_specific_discriminators'],
-          ['priority_classification'],
-          [
-            'assign_wristband',
-            'record_classification',
-            'activate_priority_flow_chest_pain',
-            'activate_priority_flow_stroke',
-            'activate_priority_flow_sepsis',
-            'activate_priority_flow_trauma',
-            'queue_management',
-          ],
-        ],
-        reasoning: 'Default execution plan (AI planning failed)',
+        execution_waves: this.buildDataflowWaves(),
+        reasoning: 'Default execution plan from PIR dataflow (AI planning failed)',
       };
     }
   }
 
+  /**
+   * Descreve tasks do PIR para o prompt de planejamento
+   */
+  private describeTasksForPlanning(): string {
+    return this.tasks
+      .map((task, index) => {
+        const condition = task.condition ? ` - Condicional: ${task.condition}` : '';
+        return `${index + 1}. ${task.task_id} - Precisa: ${task.inputs.join(', ')}${condition}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Agrupa tasks em ondas: uma task entra na onda seguinte à última task
+   * que produz algum dos seus inputs. Ciclos vão para a última onda.
+   */
+  private buildDataflowWaves(): string[][] {
+    const producers = new Map<string, string>();
+    for (const task of this.tasks) {
+      for (const output of task.outputs) {
+        producers.set(output, task.task_id);
+      }
+    }
+
+    const pending = new Map<string, Set<string>>();
+    for (const task of this.tasks) {
+      const deps = new Set<string>();
+      for (const input of task.inputs) {
+        const producer = producers.get(input);
+        if (producer && producer !== task.task_id) deps.add(producer);
+      }
+      pending.set(task.task_id, deps);
+    }
+
+    const waves: string[][] = [];
+    const done = new Set<string>();
+
+    while (pending.size > 0) {
+      const wave = Array.from(pending.entries())
+        .filter(([, deps]) => Array.from(deps).every((dep) => done.has(dep)))
+        .map(([taskId]) => taskId);
+
+      if (wave.length === 0) {
+        waves.push(Array.from(pending.keys()));
+        break;
+      }
+
+      for (const taskId of wave) {
+        pending.delete(taskId);
+        done.add(taskId);
+      }
+      waves.push(wave);
+    }
+
+    return waves;
+  }
+
   /**
    * Executa uma task individual
    */
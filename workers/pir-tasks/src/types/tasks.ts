@@ -5,7 +5,9 @@
  * Tasks automatizam decisões operacionais usando Workers AI (LLMs)
  */
 
-export type TaskType = 'llm_reasoning' | 'local_inference' | 'api_call' | 'distributed';
+import type { PIRTask, PIRTaskType } from '@voither/pir-schema';
+
+export type TaskType = PIRTaskType;
 
 export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
 
@@ -50,51 +52,10 @@ export interface TaskResult {
 
 /**
  * Definição de uma task (lida do PIR JSON)
+ * Forma definida em @voither/pir-schema; priority é metadado local do executor
  */
-export interface Task {
-  task_id: string;
-  name: string;
-  type: TaskType;
-  description: string;
-
-  execution: {
-    local: boolean;
-    sync: boolean;
-    timeout?: string;
-    model?: string; // LLM model para llm_reasoning
-    max_tokens?: number;
-    endpoint?: string; // Para api_call
-    method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
-    distributed_nodes?: string[]; // Para distributed
-  };
-
-  inputs: string[]; // Slot IDs necessários
-  outputs: string[]; // Outputs que produz
-
-  condition?: string; // Condição para executar (ex: "selected_flowchart == 'dor_toracica'")
-
-  prompt_template?: string; // Template para LLM
-
-  rules?: Array<{
-    if: string;
-    then: string;
-    discriminator?: string;
-  }>;
-
-  flowchart_rules?: Record<string, Array<{
-    if: string;
-    then: string;
-    discriminator?: string;
-  }>>;
-
-  fallback?: {
-    on_timeout?: string;
-    on_error?: string;
-  };
-
+export interface Task extends PIRTask {
   priority?: 'critical' | 'high' | 'medium' | 'low';
-  required_by_regulation?: boolean;
-  legal_reference?: string;
 }
 
 /**